@@ -0,0 +1,151 @@
+import {
+  drilldownPath,
+  filterByAccount,
+  filterByCategory,
+  findLineItem,
+  pickLineItem,
+  summarizeLineItems,
+} from "@/lib/accountDrilldown";
+
+function line(
+  category: string | null,
+  account_code: string | null,
+  account_name: string | null,
+  amount: number
+) {
+  return { category, account_code, account_name, amount };
+}
+
+const budgets = [
+  line("Personnel", "5100", "Salaries", 1000),
+  line("Personnel", "5120", "Overtime", 200),
+  line("Supplies", "6000", "Office Supplies", 50),
+  line(null, null, null, 10),
+];
+
+const actuals = [
+  line("Personnel", "5100", "Salaries", 950),
+  line("personnel", "5120", "Overtime", 260),
+  line("Supplies", "6000", "Office Supplies", 20),
+];
+
+describe("summarizeLineItems", () => {
+  it("totals categories ignoring case, largest budget first", () => {
+    const categories = summarizeLineItems(budgets, actuals, "category");
+
+    expect(categories.map((c) => c.name)).toEqual([
+      "Personnel",
+      "Supplies",
+      "Unspecified",
+    ]);
+    expect(categories[0]).toMatchObject({
+      budget: 1200,
+      actuals: 1210,
+      variance: 10,
+      codes: ["5100", "5120"],
+    });
+    expect(categories[2]).toMatchObject({ budget: 10, actuals: 0, variance: -10 });
+  });
+
+  it("totals accounts within a category", () => {
+    const accounts = summarizeLineItems(
+      filterByCategory(budgets, "Personnel"),
+      filterByCategory(actuals, "Personnel"),
+      "account"
+    );
+
+    expect(accounts).toEqual([
+      {
+        name: "Salaries",
+        codes: ["5100"],
+        budget: 1000,
+        actuals: 950,
+        variance: -50,
+        percentSpent: 95,
+      },
+      {
+        name: "Overtime",
+        codes: ["5120"],
+        budget: 200,
+        actuals: 260,
+        variance: 60,
+        percentSpent: 130,
+      },
+    ]);
+  });
+});
+
+describe("pickLineItem", () => {
+  const accounts = summarizeLineItems(budgets, actuals, "account");
+
+  it("matches a URL segment by name or account code", () => {
+    expect(pickLineItem("overtime", accounts)?.name).toBe("Overtime");
+    expect(pickLineItem("6000", accounts)?.name).toBe("Office Supplies");
+  });
+
+  it("returns null for an unknown or blank segment", () => {
+    expect(pickLineItem("Travel", accounts)).toBeNull();
+    expect(pickLineItem(" ", accounts)).toBeNull();
+  });
+});
+
+describe("findLineItem", () => {
+  it("finds a category, or an account within it", () => {
+    expect(findLineItem(budgets, actuals, "personnel")?.name).toBe("Personnel");
+    expect(findLineItem(budgets, actuals, "Personnel", "5120")?.name).toBe("Overtime");
+  });
+
+  it("returns null for an account filed under another category", () => {
+    expect(findLineItem(budgets, actuals, "Supplies", "Overtime")).toBeNull();
+    expect(findLineItem(budgets, actuals, "Travel")).toBeNull();
+  });
+});
+
+describe("filterByAccount", () => {
+  const lineRows = [...budgets, ...actuals];
+  const overtime = findLineItem(budgets, actuals, "Personnel", "Overtime")!;
+
+  it("matches transactions on account code or name", () => {
+    const transactions = [
+      { id: 1, account_code: "5120", account_name: null },
+      { id: 2, account_code: null, account_name: "OVERTIME" },
+      { id: 3, account_code: "5100", account_name: "Salaries" },
+    ];
+
+    expect(
+      filterByAccount(transactions, overtime, "Personnel", lineRows).map((t) => t.id)
+    ).toEqual([1, 2]);
+  });
+
+  it("keeps rows of an account by the same name in another category out", () => {
+    const withCapital = [...lineRows, line("Capital", "7120", "Overtime", 40)];
+    const transactions = [
+      { id: 1, account_code: "5120", account_name: "Overtime" },
+      { id: 2, account_code: "7120", account_name: "Overtime" },
+      { id: 3, account_code: null, account_name: "Overtime" },
+    ];
+    const rows = [
+      { ...line("Personnel", "5120", "Overtime", 1), id: 4 },
+      { ...line("Capital", "5120", "Overtime", 1), id: 5 },
+    ];
+
+    expect(
+      filterByAccount(transactions, overtime, "Personnel", withCapital).map((t) => t.id)
+    ).toEqual([1]);
+    expect(filterByAccount(rows, overtime, "Personnel", withCapital).map((r) => r.id)).toEqual([4]);
+  });
+});
+
+describe("drilldownPath", () => {
+  it("builds a shareable path for each level", () => {
+    expect(drilldownPath("Police", null, null, 2025)).toBe(
+      "/departments/Police?year=2025"
+    );
+    expect(drilldownPath("Parks & Rec", "Personnel", "Overtime", 2025)).toBe(
+      "/departments/Parks%20%26%20Rec/Personnel/Overtime?year=2025"
+    );
+    expect(drilldownPath("Police", "Capital / Equipment")).toBe(
+      "/departments/Police/Capital%20%2F%20Equipment"
+    );
+  });
+});
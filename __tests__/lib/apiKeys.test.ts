@@ -0,0 +1,129 @@
+import {
+  apiKeyProblem,
+  apiKeyStatus,
+  DEFAULT_DAILY_QUOTA,
+  expiryTimestamp,
+  parseApiKeyInput,
+  readApiKey,
+  summarizeApiKeyUsage,
+  type ApiKeyUsageRow,
+} from "@/lib/apiKeys";
+
+const NOW = new Date("2025-03-10T12:00:00Z");
+
+describe("apiKeyStatus", () => {
+  it("treats revocation as final and expiry as the end of the key's life", () => {
+    expect(apiKeyStatus({ expires_at: null, revoked_at: null }, NOW)).toBe("active");
+    expect(
+      apiKeyStatus({ expires_at: expiryTimestamp("2025-03-10"), revoked_at: null }, NOW)
+    ).toBe("active");
+    expect(
+      apiKeyStatus({ expires_at: expiryTimestamp("2025-03-09"), revoked_at: null }, NOW)
+    ).toBe("expired");
+    expect(
+      apiKeyStatus(
+        { expires_at: expiryTimestamp("2025-03-09"), revoked_at: "2025-03-01T00:00:00Z" },
+        NOW
+      )
+    ).toBe("revoked");
+  });
+});
+
+describe("apiKeyProblem", () => {
+  const key = { expires_at: null, revoked_at: null, scopes: ["api" as const] };
+
+  it("allows scopes the key was issued for", () => {
+    expect(apiKeyProblem(key, "api", NOW)).toBeNull();
+  });
+
+  it("explains why a key can't be used", () => {
+    expect(apiKeyProblem(key, "export", NOW)).toBe(
+      "This API key can't be used for Download Center exports"
+    );
+    expect(apiKeyProblem({ ...key, revoked_at: "2025-01-01T00:00:00Z" }, "api", NOW)).toBe(
+      "This API key has been revoked"
+    );
+    expect(
+      apiKeyProblem({ ...key, expires_at: "2025-01-01T00:00:00Z" }, "api", NOW)
+    ).toBe("This API key has expired");
+  });
+});
+
+describe("readApiKey", () => {
+  it("reads the X-API-Key header first", () => {
+    expect(
+      readApiKey(new Headers({ "X-API-Key": " cvp_abc ", Authorization: "Bearer cvp_def" }))
+    ).toBe("cvp_abc");
+  });
+
+  it("accepts a Bearer token only when it looks like a key", () => {
+    expect(readApiKey(new Headers({ Authorization: "Bearer cvp_def" }))).toBe("cvp_def");
+    expect(readApiKey(new Headers({ Authorization: "Bearer eyJhbGciOi" }))).toBeNull();
+    expect(readApiKey(new Headers())).toBeNull();
+  });
+});
+
+describe("parseApiKeyInput", () => {
+  const valid = {
+    name: " Coalition sync ",
+    ownerEmail: "data@example.org",
+    scopes: ["export", "api", "admin"],
+    dailyQuota: 5000,
+    expiresAt: "2025-12-31",
+  };
+
+  it("trims values, keeps known scopes and defaults the quota", () => {
+    expect(parseApiKeyInput(valid)).toEqual({
+      input: {
+        name: "Coalition sync",
+        ownerEmail: "data@example.org",
+        scopes: ["api", "export"],
+        dailyQuota: 5000,
+        expiresAt: "2025-12-31",
+      },
+    });
+
+    const parsed = parseApiKeyInput({ ...valid, dailyQuota: undefined, expiresAt: "" });
+    expect(parsed).toMatchObject({
+      input: { dailyQuota: DEFAULT_DAILY_QUOTA, expiresAt: null },
+    });
+  });
+
+  it("rejects incomplete or out-of-range input", () => {
+    expect(parseApiKeyInput({ ...valid, name: "  " })).toHaveProperty("error");
+    expect(parseApiKeyInput({ ...valid, ownerEmail: "nobody" })).toHaveProperty("error");
+    expect(parseApiKeyInput({ ...valid, scopes: ["admin"] })).toEqual({
+      error: "Choose at least one thing the key can access.",
+    });
+    expect(parseApiKeyInput({ ...valid, dailyQuota: 0 })).toHaveProperty("error");
+    expect(parseApiKeyInput({ ...valid, dailyQuota: 2.5 })).toHaveProperty("error");
+    expect(parseApiKeyInput({ ...valid, expiresAt: "next year" })).toEqual({
+      error: "Expiry must be a date (YYYY-MM-DD).",
+    });
+  });
+});
+
+describe("summarizeApiKeyUsage", () => {
+  const usage: ApiKeyUsageRow[] = [
+    { api_key_id: 1, day: "2025-03-10", scope: "api", calls: 40 },
+    { api_key_id: 1, day: "2025-03-10", scope: "export", calls: 2 },
+    { api_key_id: 1, day: "2025-03-04", scope: "api", calls: 100 },
+    { api_key_id: 1, day: "2025-03-03", scope: "api", calls: 7 },
+    { api_key_id: 1, day: "2025-01-01", scope: "api", calls: 999 },
+    { api_key_id: 2, day: "2025-01-01", scope: "api", calls: 5 },
+  ];
+
+  it("adds up today, the last 7 days and the window per key", () => {
+    const summaries = summarizeApiKeyUsage(usage, "2025-03-10");
+    const summary = summaries.get(1);
+
+    expect(summary).toMatchObject({ today: 42, last7Days: 142, total: 149 });
+    expect(summary?.daily).toHaveLength(30);
+    expect(summary?.daily[0].day).toBe("2025-02-09");
+    expect(summary?.daily[29]).toEqual({ day: "2025-03-10", calls: 42 });
+  });
+
+  it("leaves out keys with no calls in the window", () => {
+    expect(summarizeApiKeyUsage(usage, "2025-03-10").has(2)).toBe(false);
+  });
+});
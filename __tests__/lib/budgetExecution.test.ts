@@ -0,0 +1,119 @@
+import {
+  buildExecutionSeries,
+  expectedShares,
+  latestPeriod,
+  periodLabel,
+  pickCurve,
+  summarizeDepartmentExecution,
+  type PeriodActualRow,
+} from "@/lib/budgetExecution";
+
+function row(
+  fiscal_year: number,
+  department_name: string,
+  fiscal_period: number,
+  actual_amount: number
+): PeriodActualRow {
+  return { fiscal_year, department_name, fiscal_period, actual_amount };
+}
+
+describe("periodLabel", () => {
+  it("maps fiscal periods onto months from the fiscal year start", () => {
+    expect(periodLabel(1, 7)).toBe("Jul");
+    expect(periodLabel(7, 7)).toBe("Jan");
+    expect(periodLabel(12, 1)).toBe("Dec");
+  });
+});
+
+describe("pickCurve", () => {
+  it("defaults to straight-line", () => {
+    expect(pickCurve("seasonal")).toBe("seasonal");
+    expect(pickCurve(undefined)).toBe("straight");
+    expect(pickCurve("bogus")).toBe("straight");
+  });
+});
+
+describe("latestPeriod", () => {
+  it("ignores periods with nothing posted", () => {
+    expect(latestPeriod([row(2025, "Police", 3, 10), row(2025, "Parks", 5, 0)])).toBe(3);
+    expect(latestPeriod([])).toBe(0);
+  });
+});
+
+describe("expectedShares", () => {
+  it("spreads the year evenly for a straight line", () => {
+    const shares = expectedShares("straight", []);
+    expect(shares).toHaveLength(12);
+    expect(shares[2]).toBeCloseTo(0.25);
+    expect(shares[11]).toBe(1);
+  });
+
+  it("follows last year's timing for a seasonal curve", () => {
+    const prior = [row(2024, "Parks", 1, 300), row(2024, "Parks", 6, 100)];
+    const shares = expectedShares("seasonal", prior);
+    expect(shares[0]).toBeCloseTo(0.75);
+    expect(shares[4]).toBeCloseTo(0.75);
+    expect(shares[5]).toBe(1);
+  });
+
+  it("falls back to a straight line without prior spending", () => {
+    expect(expectedShares("seasonal", [])).toEqual(expectedShares("straight", []));
+  });
+});
+
+describe("buildExecutionSeries", () => {
+  it("accumulates actuals and stops at the latest period", () => {
+    const series = buildExecutionSeries(
+      1200,
+      [row(2025, "Police", 1, 100), row(2025, "Police", 2, 150)],
+      expectedShares("straight", []),
+      2,
+      7
+    );
+
+    expect(series[0]).toEqual({ period: 1, label: "Jul", expected: 100, actuals: 100 });
+    expect(series[1]).toMatchObject({ expected: 200, actuals: 250 });
+    expect(series[2].actuals).toBeNull();
+  });
+});
+
+describe("summarizeDepartmentExecution", () => {
+  it("flags departments well ahead of their curve", () => {
+    const result = summarizeDepartmentExecution(
+      [
+        { department_name: "Police", budget_amount: 1200 },
+        { department_name: "Parks", budget_amount: 1200 },
+      ],
+      [
+        row(2025, "Police", 1, 300),
+        row(2025, "Police", 2, 300),
+        row(2025, "Parks", 1, 100),
+        row(2025, "Parks", 2, 100),
+        row(2025, "Library", 2, 50),
+      ],
+      [],
+      "straight",
+      2
+    );
+
+    expect(result.map((d) => d.department_name)).toEqual(["Police", "Parks", "Library"]);
+    expect(result[0]).toMatchObject({ ytdActuals: 600, ytdPercent: 50, aheadOfPace: true });
+    expect(result[0].gap).toBeCloseTo(50 - 100 / 6);
+    expect(result[1].aheadOfPace).toBe(false);
+    // Spending with no budget can't be measured against a curve
+    expect(result[2]).toMatchObject({ budget: 0, ytdActuals: 50, aheadOfPace: false });
+  });
+
+  it("judges seasonal departments against their own prior year", () => {
+    const result = summarizeDepartmentExecution(
+      [{ department_name: "Parks", budget_amount: 1000 }],
+      [row(2025, "Parks", 1, 700)],
+      [row(2024, "Parks", 1, 800), row(2024, "Parks", 12, 200)],
+      "seasonal",
+      1
+    );
+
+    expect(result[0].expectedPercent).toBeCloseTo(80);
+    expect(result[0].aheadOfPace).toBe(false);
+  });
+});
@@ -0,0 +1,131 @@
+import {
+  computeHeaderSignature,
+  createRowMapper,
+  findMatchingProfile,
+  isColumnMapping,
+  isIdentityMapping,
+  suggestColumnMapping,
+  validateColumnMapping,
+  type ColumnMapping,
+  type MappingProfile,
+} from "@/lib/columnMapping";
+import { TABLE_SCHEMAS } from "@/lib/uploadValidation";
+
+describe("computeHeaderSignature", () => {
+  it("ignores order, case, spacing and punctuation", () => {
+    expect(computeHeaderSignature(["Fund Code", "AMOUNT", "Dept."])).toBe(
+      computeHeaderSignature(["dept", "amount", "fund_code"])
+    );
+  });
+
+  it("drops blank trailing headers", () => {
+    expect(computeHeaderSignature(["a", "", " "])).toBe("a");
+  });
+});
+
+describe("findMatchingProfile", () => {
+  const profile = {
+    id: 1,
+    table_name: "budgets",
+    name: "Munis",
+    header_signature: computeHeaderSignature(["Org", "Obj", "Amt"]),
+    mapping: {},
+  } as unknown as MappingProfile;
+
+  it("matches by table and header signature", () => {
+    expect(
+      findMatchingProfile([profile], "budgets", ["amt", "ORG", "obj"])
+    ).toBe(profile);
+    expect(
+      findMatchingProfile([profile], "actuals", ["Org", "Obj", "Amt"])
+    ).toBeNull();
+  });
+});
+
+describe("suggestColumnMapping", () => {
+  it("maps headers that already name template fields", () => {
+    const mapping = suggestColumnMapping("budgets", [
+      "Fiscal Year",
+      "Amount",
+      "Org",
+    ]);
+
+    expect(mapping.fiscal_year).toEqual({ kind: "column", source: "Fiscal Year" });
+    expect(mapping.amount).toEqual({ kind: "column", source: "Amount" });
+    expect(mapping.fund_code).toBeUndefined();
+  });
+
+  it("is the identity mapping for template headers", () => {
+    const headers = TABLE_SCHEMAS.budgets.required;
+    expect(
+      isIdentityMapping("budgets", suggestColumnMapping("budgets", headers))
+    ).toBe(true);
+  });
+});
+
+describe("validateColumnMapping", () => {
+  it("reports unmapped fields and missing source columns", () => {
+    const errors = validateColumnMapping(
+      "budgets",
+      { amount: { kind: "column", source: "Total" } },
+      ["Amt"]
+    );
+
+    expect(errors).toContain('No source chosen for "fiscal_year".');
+    expect(errors).toContain(
+      '"amount" uses column "Total", which is not in this file.'
+    );
+  });
+});
+
+describe("createRowMapper", () => {
+  it("resolves columns, constants and derived values", () => {
+    const mapping: ColumnMapping = {
+      fund_name: { kind: "constant", value: "General Fund" },
+      amount: { kind: "column", source: "Amt" },
+      period: {
+        kind: "derived",
+        rule: { type: "period_from_date", source: "Posted" },
+      },
+      fiscal_year: {
+        kind: "derived",
+        rule: { type: "year_from_date", source: "Posted" },
+      },
+      account_name: {
+        kind: "derived",
+        rule: { type: "concat", sources: ["Obj", "Desc"], separator: " - " },
+      },
+    };
+
+    const { fields, mapRow } = createRowMapper(mapping, [
+      "Posted",
+      "Amt",
+      "Obj",
+      "Desc",
+    ]);
+    const values = mapRow(["7/3/2024", "12.50", "5100", "Supplies"]);
+
+    expect(Object.fromEntries(fields.map((f, i) => [f, values[i]]))).toEqual({
+      fund_name: "General Fund",
+      amount: "12.50",
+      period: "2024-07",
+      fiscal_year: "2024",
+      account_name: "5100 - Supplies",
+    });
+  });
+});
+
+describe("isColumnMapping", () => {
+  it("accepts well-formed mappings and rejects others", () => {
+    expect(
+      isColumnMapping({ amount: { kind: "column", source: "Amt" } })
+    ).toBe(true);
+    expect(isColumnMapping({ amount: { kind: "column" } })).toBe(false);
+    expect(
+      isColumnMapping({
+        amount: { kind: "derived", rule: { type: "eval", source: "x" } },
+      })
+    ).toBe(false);
+    expect(isColumnMapping([])).toBe(false);
+  });
+});
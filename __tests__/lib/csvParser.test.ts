@@ -1,4 +1,8 @@
-import { parseCsv, parseCsvWithHeaders } from "@/lib/csvParser";
+import {
+  createCsvStreamParser,
+  parseCsv,
+  parseCsvWithHeaders,
+} from "@/lib/csvParser";
 
 describe("parseCsv", () => {
   it("parses simple CSV", () => {
@@ -198,3 +202,59 @@ describe("parseCsv real-world scenarios", () => {
     expect(result[2][0]).toBe('Equipment "upgrade" project');
   });
 });
+
+describe("createCsvStreamParser", () => {
+  function parseInChunks(csv: string, size: number): string[][] {
+    const parser = createCsvStreamParser();
+    const rows: string[][] = [];
+    for (let i = 0; i < csv.length; i += size) {
+      rows.push(...parser.push(csv.slice(i, i + size)));
+    }
+    rows.push(...parser.flush());
+    return rows;
+  }
+
+  it("matches parseCsv regardless of chunk size", () => {
+    const csv = 'a,b\r\n"Smith, John","He said ""hi"""\r\n\r\n"line1\nline2",  x  \n3,4';
+    const expected = parseCsv(csv);
+
+    for (const size of [1, 2, 3, 7, csv.length]) {
+      expect(parseInChunks(csv, size)).toEqual(expected);
+    }
+  });
+
+  it("keeps a partial row buffered until it is completed", () => {
+    const parser = createCsvStreamParser();
+
+    expect(parser.push("a,b\n1,")).toEqual([["a", "b"]]);
+    expect(parser.push("2\n")).toEqual([["1", "2"]]);
+    expect(parser.flush()).toEqual([]);
+  });
+
+  it("emits the final row on flush when there is no trailing newline", () => {
+    const parser = createCsvStreamParser();
+
+    expect(parser.push("a,b\n1,2")).toEqual([["a", "b"]]);
+    expect(parser.flush()).toEqual([["1", "2"]]);
+  });
+});
+
+describe("other delimiters", () => {
+  it("splits on the given delimiter and keeps commas as data", () => {
+    expect(parseCsv("code\tname\n0100\tSmith, John", "\t")).toEqual([
+      ["code", "name"],
+      ["0100", "Smith, John"],
+    ]);
+    expect(parseCsv('a;b\n"x;y";2', ";")).toEqual([
+      ["a", "b"],
+      ["x;y", "2"],
+    ]);
+  });
+
+  it("streams pipe-delimited rows", () => {
+    const parser = createCsvStreamParser("|");
+
+    expect(parser.push("a|b\n1|")).toEqual([["a", "b"]]);
+    expect(parser.flush()).toEqual([["1", ""]]);
+  });
+});
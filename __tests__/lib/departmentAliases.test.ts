@@ -0,0 +1,179 @@
+import {
+  describeAliasTargets,
+  expandDepartmentFilter,
+  findAliasedDepartments,
+  getAliasSources,
+  getAliasTargets,
+  reportUnderCurrentName,
+  validateAliasDraft,
+  type DepartmentAlias,
+} from "@/lib/departmentAliases";
+
+let nextId = 1;
+
+function alias(
+  from: string,
+  to: string,
+  share = 1,
+  effective_fiscal_year: number | null = null
+): DepartmentAlias {
+  return {
+    id: nextId++,
+    created_at: "2025-01-01T00:00:00Z",
+    updated_at: "2025-01-01T00:00:00Z",
+    alias: from,
+    department_name: to,
+    share,
+    effective_fiscal_year,
+    note: null,
+    created_by: null,
+  };
+}
+
+const aliases = [
+  // Renamed in FY2022
+  alias("Parks Dept", "Parks & Recreation", 1, 2022),
+  // Split between two departments in FY2023
+  alias("Community Services", "Parks & Recreation", 0.4, 2023),
+  alias("Community Services", "Library", 0.6, 2023),
+  // Chain: an older name of an older name
+  alias("Park Board", "Parks Dept"),
+];
+
+describe("getAliasTargets", () => {
+  it("maps an unaliased name to itself", () => {
+    expect(getAliasTargets(aliases, "Police", 2020)).toEqual([
+      { name: "Police", share: 1 },
+    ]);
+  });
+
+  it("applies an alias only before its effective year", () => {
+    expect(getAliasTargets(aliases, "Parks Dept", 2021)).toEqual([
+      { name: "Parks & Recreation", share: 1 },
+    ]);
+    expect(getAliasTargets(aliases, "Parks Dept", 2022)).toEqual([
+      { name: "Parks Dept", share: 1 },
+    ]);
+  });
+
+  it("splits shares and follows chains", () => {
+    expect(getAliasTargets(aliases, "community services", 2020)).toEqual([
+      { name: "Parks & Recreation", share: 0.4 },
+      { name: "Library", share: 0.6 },
+    ]);
+    expect(getAliasTargets(aliases, "Park Board", 2020)).toEqual([
+      { name: "Parks & Recreation", share: 1 },
+    ]);
+  });
+
+  it("stops on a loop", () => {
+    const loop = [alias("A", "B"), alias("B", "A")];
+    expect(getAliasTargets(loop, "A", null)).toHaveLength(1);
+  });
+});
+
+describe("getAliasSources", () => {
+  it("lists the old names counted toward a department with their shares", () => {
+    expect(getAliasSources(aliases, "Parks & Recreation", 2020)).toEqual([
+      { name: "Parks & Recreation", share: 1 },
+      { name: "Parks Dept", share: 1 },
+      { name: "Community Services", share: 0.4 },
+      { name: "Park Board", share: 1 },
+    ]);
+    expect(getAliasSources(aliases, "Parks & Recreation", 2024)).toEqual([
+      { name: "Parks & Recreation", share: 1 },
+    ]);
+  });
+});
+
+describe("reportUnderCurrentName", () => {
+  it("relabels and scales rows and drops other departments", () => {
+    const rows = [
+      { department_name: "Community Services", amount: 1000 },
+      { department_name: "Parks Dept", amount: 50 },
+      { department_name: "Police", amount: 10 },
+    ];
+    const sources = getAliasSources(aliases, "Library", 2020);
+    expect(reportUnderCurrentName(rows, sources, "Library")).toEqual([
+      { department_name: "Library", amount: 600 },
+    ]);
+  });
+});
+
+describe("search and export helpers", () => {
+  it("finds current departments by an old name", () => {
+    expect(findAliasedDepartments(aliases, "community")).toEqual([
+      "Library",
+      "Parks & Recreation",
+    ]);
+    expect(findAliasedDepartments(aliases, " ")).toEqual([]);
+  });
+
+  it("widens a department filter with its old names", () => {
+    expect(expandDepartmentFilter(aliases, ["Library"]).sort()).toEqual([
+      "Community Services",
+      "Library",
+    ]);
+  });
+
+  it("describes splits with percentages", () => {
+    expect(describeAliasTargets([{ name: "Library", share: 1 }])).toBe("Library");
+    expect(
+      describeAliasTargets(getAliasTargets(aliases, "Community Services", 2020))
+    ).toBe("Parks & Recreation (40%); Library (60%)");
+  });
+});
+
+describe("validateAliasDraft", () => {
+  it("accepts a rename", () => {
+    expect(
+      validateAliasDraft(
+        {
+          alias: "Fire Dept",
+          targets: [{ name: "Fire & Rescue", percent: 100 }],
+          effectiveFiscalYear: 2024,
+        },
+        aliases
+      )
+    ).toEqual([]);
+  });
+
+  it("requires shares to add up to 100%", () => {
+    expect(
+      validateAliasDraft(
+        {
+          alias: "Public Works",
+          targets: [
+            { name: "Streets", percent: 50 },
+            { name: "Utilities", percent: 40 },
+          ],
+          effectiveFiscalYear: null,
+        },
+        aliases
+      )
+    ).toEqual(["Shares add up to 90%; they must add up to 100%."]);
+  });
+
+  it("rejects self-aliases and loops", () => {
+    expect(
+      validateAliasDraft(
+        {
+          alias: "Library",
+          targets: [{ name: "library", percent: 100 }],
+          effectiveFiscalYear: null,
+        },
+        aliases
+      )
+    ).toContain("A department can't be an alias of itself.");
+    expect(
+      validateAliasDraft(
+        {
+          alias: "Parks & Recreation",
+          targets: [{ name: "Park Board", percent: 100 }],
+          effectiveFiscalYear: null,
+        },
+        aliases
+      )
+    ).toEqual(['"Park Board" is already reported under "Parks & Recreation".']);
+  });
+});
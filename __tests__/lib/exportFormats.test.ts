@@ -0,0 +1,151 @@
+import {
+  bundleReadme,
+  buildExportFilename,
+  describeExportFilters,
+  exportFileColumns,
+  ndjsonLine,
+  pickExportFormat,
+  typedExportValue,
+  type ExportFilters,
+} from "@/lib/exportFormats";
+
+const NO_FILTERS: ExportFilters = {
+  years: [],
+  departments: [],
+  vendors: [],
+  sources: [],
+  startDate: null,
+  endDate: null,
+};
+
+describe("pickExportFormat", () => {
+  it("accepts known formats and falls back to csv", () => {
+    expect(pickExportFormat("xlsx")).toBe("xlsx");
+    expect(pickExportFormat("parquet")).toBe("parquet");
+    expect(pickExportFormat("json")).toBe("json");
+    expect(pickExportFormat("pdf")).toBe("csv");
+    expect(pickExportFormat(null)).toBe("csv");
+  });
+});
+
+describe("typedExportValue", () => {
+  it("types values from the data dictionary", () => {
+    expect(typedExportValue("fiscal_year", "2024")).toBe(2024);
+    expect(typedExportValue("amount", "1234.5")).toBe(1234.5);
+    expect(typedExportValue("date", "2024-03-01T00:00:00")).toBe("2024-03-01");
+    expect(typedExportValue("vendor", "Acme")).toBe("Acme");
+  });
+
+  it("returns null for empty or unreadable values", () => {
+    expect(typedExportValue("amount", "")).toBeNull();
+    expect(typedExportValue("amount", "n/a")).toBeNull();
+    expect(typedExportValue("date", "March")).toBeNull();
+    expect(typedExportValue("vendor", null)).toBeNull();
+  });
+
+  it("treats unknown columns as text", () => {
+    expect(typedExportValue("unlisted", 42)).toBe("42");
+  });
+});
+
+describe("exportFileColumns", () => {
+  it("adds the derived department and vendor columns after the stored ones", () => {
+    expect(exportFileColumns("transactions", true).slice(-4)).toEqual([
+      "description",
+      "amount",
+      "current_department_name",
+      "canonical_vendor",
+    ]);
+    expect(exportFileColumns("revenues", true)).not.toContain("current_department_name");
+  });
+
+  it("leaves vendor names out unless they are published", () => {
+    const columns = exportFileColumns("transactions", false);
+    expect(columns).not.toContain("vendor");
+    expect(columns).not.toContain("canonical_vendor");
+  });
+});
+
+describe("ndjsonLine", () => {
+  it("keeps only the export columns, in order, with typed values", () => {
+    const line = ndjsonLine(
+      { id: "x", amount: "10.25", fiscal_year: "2024", vendor: "A \"quoted\" name" },
+      ["fiscal_year", "vendor", "amount"]
+    );
+    expect(line).toBe('{"fiscal_year":2024,"vendor":"A \\"quoted\\" name","amount":10.25}');
+  });
+});
+
+describe("describeExportFilters", () => {
+  it("reports an unfiltered export", () => {
+    expect(describeExportFilters(NO_FILTERS)).toEqual([["Filters", "None"]]);
+  });
+
+  it("lists each filter that is set", () => {
+    expect(
+      describeExportFilters({
+        ...NO_FILTERS,
+        years: ["2023", "2024"],
+        departments: ["Police"],
+        startDate: "2024-01-01",
+      })
+    ).toEqual([
+      ["Fiscal years", "2023, 2024"],
+      ["Departments", "Police"],
+      ["From", "2024-01-01"],
+    ]);
+  });
+});
+
+describe("buildExportFilename", () => {
+  it("uses the format's extension", () => {
+    const filters = { ...NO_FILTERS, years: ["2024"] };
+    expect(buildExportFilename("budgets", filters, "csv")).toMatch(/^budgets_FY2024_\d{4}-\d{2}-\d{2}\.csv$/);
+    expect(buildExportFilename("budgets", filters, "json")).toMatch(/\.ndjson$/);
+    expect(buildExportFilename("budgets", filters, "xlsx")).toMatch(/\.xlsx$/);
+    expect(buildExportFilename("budgets", filters, "parquet")).toMatch(/\.parquet$/);
+  });
+});
+
+describe("bundleReadme", () => {
+  it("lists each file and its columns, noting truncated tables", () => {
+    const readme = bundleReadme({
+      title: "FY2024 financial data",
+      exportedAt: new Date("2024-07-01T12:00:00Z"),
+      tables: [
+        {
+          file: "budgets.csv",
+          title: "Budget Data",
+          description: "Adopted budget",
+          columns: ["fiscal_year", "amount"],
+          rowCount: 1200,
+        },
+        {
+          file: "transactions.csv",
+          title: "Transactions",
+          description: "Ledger lines",
+          columns: ["date", "vendor"],
+          rowCount: 2_500_000,
+          stop: { reason: "row_limit", rowsSent: 1_000_000 },
+        },
+        {
+          file: "revenues.csv",
+          title: "Revenues",
+          description: "Receipts",
+          columns: ["fiscal_year", "amount"],
+          rowCount: 800,
+          stop: { reason: "time_budget", rowsSent: 0 },
+        },
+      ],
+    });
+
+    expect(readme).toContain("# FY2024 financial data");
+    expect(readme).toContain("Exported 2024-07-01.");
+    expect(readme).toContain("- `budgets.csv`: Adopted budget (1,200 rows)");
+    expect(readme).toContain("(first 1,000,000 of 2,500,000 rows; row limit reached)");
+    expect(readme).toContain("(first 0 of 800 rows; time limit reached)");
+    expect(readme).toContain("Files that stopped early end with a note row.");
+    expect(readme).toContain("| fiscal_year | integer | Fiscal year the amount belongs to |");
+    expect(readme).toContain("| date | date | Posting date (YYYY-MM-DD) |");
+  });
+});
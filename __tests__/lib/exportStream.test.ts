@@ -0,0 +1,131 @@
+import {
+  csvSafe,
+  EXPORT_STOP_PREFIX,
+  exportStopNotice,
+  keysetFilter,
+  keysetRows,
+  type ExportCursor,
+  type ExportRow,
+  type ExportStop,
+} from "@/lib/exportStream";
+
+async function collect(rows: AsyncIterable<ExportRow>): Promise<ExportRow[]> {
+  const all: ExportRow[] = [];
+  for await (const row of rows) all.push(row);
+  return all;
+}
+
+// Fake table sorted by date descending, then id descending
+const TABLE: ExportRow[] = [
+  { id: "e", date: "2024-03-01" },
+  { id: "d", date: "2024-02-01" },
+  { id: "c", date: "2024-02-01" },
+  { id: "b", date: "2024-02-01" },
+  { id: "a", date: "2024-01-01" },
+];
+
+function fakeFetcher(pageSize: number) {
+  const cursors: (ExportCursor | null)[] = [];
+  const fetchPage = async (cursor: ExportCursor | null) => {
+    cursors.push(cursor);
+    const start = cursor
+      ? TABLE.findIndex(
+          (r) =>
+            String(r.date) < String(cursor.value) ||
+            (r.date === cursor.value && String(r.id) < cursor.id)
+        )
+      : 0;
+    return start < 0 ? [] : TABLE.slice(start, start + pageSize);
+  };
+  return { fetchPage, cursors };
+}
+
+describe("csvSafe", () => {
+  it("quotes values and doubles embedded quotes", () => {
+    expect(csvSafe('Smith "Paving", Inc.')).toBe('"Smith ""Paving"", Inc."');
+    expect(csvSafe(0)).toBe('"0"');
+    expect(csvSafe(null)).toBe("");
+  });
+});
+
+describe("keysetFilter", () => {
+  it("continues after the cursor in the sort direction", () => {
+    expect(keysetFilter("date", false, { value: "2024-02-01", id: "c" })).toBe(
+      'date.lt."2024-02-01",and(date.eq."2024-02-01",id.lt."c")'
+    );
+    expect(keysetFilter("department_name", true, { value: "Parks (East)", id: "x" })).toBe(
+      'department_name.gt."Parks (East)",and(department_name.eq."Parks (East)",id.gt."x")'
+    );
+  });
+
+  it("escapes quotes and backslashes in values", () => {
+    expect(keysetFilter("department_name", true, { value: 'A "B" \\ C', id: "x" })).toContain(
+      'department_name.gt."A \\"B\\" \\\\ C"'
+    );
+  });
+});
+
+describe("keysetRows", () => {
+  it("pages through every row, including ties on the sort column", async () => {
+    const { fetchPage, cursors } = fakeFetcher(2);
+    const rows = await collect(keysetRows(fetchPage, "date", { pageSize: 2 }));
+    expect(rows.map((r) => r.id)).toEqual(["e", "d", "c", "b", "a"]);
+    expect(cursors).toEqual([
+      null,
+      { value: "2024-02-01", id: "d" },
+      { value: "2024-02-01", id: "b" },
+    ]);
+  });
+
+  it("stops at the row limit", async () => {
+    const { fetchPage, cursors } = fakeFetcher(2);
+    const stops: ExportStop[] = [];
+    const rows = await collect(
+      keysetRows(fetchPage, "date", { pageSize: 2, limit: 3, onStop: (s) => stops.push(s) })
+    );
+    expect(rows.map((r) => r.id)).toEqual(["e", "d", "c"]);
+    expect(cursors).toHaveLength(2);
+    expect(stops).toEqual([{ reason: "row_limit", rowsSent: 3 }]);
+  });
+
+  it("stops between pages once the deadline has passed", async () => {
+    const { fetchPage, cursors } = fakeFetcher(2);
+    const stops: ExportStop[] = [];
+    const rows = await collect(
+      keysetRows(fetchPage, "date", {
+        pageSize: 2,
+        deadline: Date.now() - 1,
+        onStop: (s) => stops.push(s),
+      })
+    );
+    expect(rows.map((r) => r.id)).toEqual(["e", "d"]);
+    expect(cursors).toHaveLength(1);
+    expect(stops).toEqual([{ reason: "time_budget", rowsSent: 2 }]);
+  });
+
+  it("reports no stop when every row was read", async () => {
+    const { fetchPage } = fakeFetcher(2);
+    const onStop = jest.fn();
+    await collect(keysetRows(fetchPage, "date", { pageSize: 2, limit: 5, onStop }));
+    expect(onStop).not.toHaveBeenCalled();
+  });
+
+  it("passes fetch errors through", async () => {
+    const fetchPage = async () => {
+      throw new Error("timed out");
+    };
+    await expect(collect(keysetRows(fetchPage, "date"))).rejects.toThrow("timed out");
+  });
+});
+
+describe("exportStopNotice", () => {
+  it("says how far the export got and why it stopped", () => {
+    const notice = exportStopNotice({ reason: "time_budget", rowsSent: 812_000 }, 2_400_000);
+    expect(notice.startsWith(EXPORT_STOP_PREFIX)).toBe(true);
+    expect(notice).toContain("812,000 of 2,400,000");
+    expect(notice).toContain("time limit");
+    expect(exportStopNotice({ reason: "row_limit", rowsSent: 1_000_000 }, 1_200_000)).toContain(
+      "at most 1,000,000 rows"
+    );
+  });
+});
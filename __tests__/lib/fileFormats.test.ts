@@ -0,0 +1,129 @@
+import {
+  detectDelimiter,
+  formatSpreadsheetCell,
+  inferFileFormat,
+  isFileFormat,
+  parseFixedWidthLine,
+  parseFixedWidthText,
+  validateFixedWidthLayout,
+  type FixedWidthLayout,
+} from "@/lib/fileFormats";
+
+describe("detectDelimiter", () => {
+  it("picks the delimiter that splits every line evenly", () => {
+    expect(detectDelimiter("a\tb\tc\n1\t2\t3\n4\t5\t6")).toBe("\t");
+    expect(detectDelimiter("a;b\n1,5;2\n3;4")).toBe(";");
+    expect(detectDelimiter("a|b|c\n1|2|3\n")).toBe("|");
+  });
+
+  it("ignores delimiters inside quotes", () => {
+    expect(detectDelimiter('name,amount\n"Smith; John",5\n"Doe; Jane",6')).toBe(
+      ","
+    );
+  });
+
+  it("returns null when no delimiter is consistent", () => {
+    expect(detectDelimiter("0100 GENERAL FUND   1250.00\n0200 WATER        9.50")).toBeNull();
+  });
+});
+
+describe("inferFileFormat", () => {
+  it("uses the file name for workbooks and fixed-width exports", () => {
+    expect(inferFileFormat("Budget FY25.XLSX", "")).toEqual({
+      type: "xlsx",
+      sheet: null,
+    });
+    expect(inferFileFormat("gl.txt", "0100 GENERAL  12.00\n0200 WATER    9.50")).toEqual({
+      type: "fixed_width",
+      layout: { columns: [], skipLines: 0 },
+    });
+    expect(inferFileFormat("gl.tsv", "a\tb\n1\t2\n3\t4")).toEqual({
+      type: "delimited",
+      delimiter: "\t",
+    });
+  });
+});
+
+describe("fixed-width parsing", () => {
+  const layout: FixedWidthLayout = {
+    columns: [
+      { name: "fund_code", start: 1, width: 4 },
+      { name: "fund_name", start: 6, width: 12 },
+      { name: "amount", start: 18, width: 10 },
+    ],
+    skipLines: 1,
+  };
+
+  it("cuts lines by position and keeps leading zeros", () => {
+    expect(parseFixedWidthLine("0100 GENERAL FUND   1250.00", layout)).toEqual([
+      "0100",
+      "GENERAL FUND",
+      "1250.00",
+    ]);
+    expect(parseFixedWidthLine("0200 WATER", layout)).toEqual([
+      "0200",
+      "WATER",
+      "",
+    ]);
+  });
+
+  it("uses the layout names as headers and skips title lines", () => {
+    const text = "GL EXPORT\n0100 GENERAL FUND   1250.00\n\n0200 WATER           9.50\n";
+    expect(parseFixedWidthText(text, layout)).toEqual([
+      ["fund_code", "fund_name", "amount"],
+      ["0100", "GENERAL FUND", "1250.00"],
+      ["0200", "WATER", "9.50"],
+    ]);
+  });
+
+  it("reports unnamed and overlapping columns", () => {
+    const errors = validateFixedWidthLayout({
+      columns: [
+        { name: "a", start: 1, width: 5 },
+        { name: "", start: 4, width: 2 },
+      ],
+      skipLines: 0,
+    });
+
+    expect(errors).toContain('"a" overlaps "4".');
+    expect(errors).toContain("Column at position 4 needs a name.");
+    expect(validateFixedWidthLayout(layout)).toEqual([]);
+  });
+});
+
+describe("formatSpreadsheetCell", () => {
+  it("keeps text codes and pads zero-formatted numbers", () => {
+    expect(formatSpreadsheetCell("00123")).toBe("00123");
+    expect(formatSpreadsheetCell(123, "00000")).toBe("00123");
+    expect(formatSpreadsheetCell(1250.5, "#,##0.00")).toBe("1250.5");
+  });
+
+  it("formats dates, formulas and rich text", () => {
+    expect(formatSpreadsheetCell(new Date(Date.UTC(2024, 6, 3)))).toBe(
+      "2024-07-03"
+    );
+    expect(formatSpreadsheetCell({ formula: "A1*2", result: 42 })).toBe("42");
+    expect(formatSpreadsheetCell({ formula: "A1*2" })).toBe("");
+    expect(
+      formatSpreadsheetCell({ richText: [{ text: "Public " }, { text: "Works" }] })
+    ).toBe("Public Works");
+    expect(formatSpreadsheetCell(null)).toBe("");
+  });
+});
+
+describe("isFileFormat", () => {
+  it("accepts well-formed formats and rejects others", () => {
+    expect(isFileFormat({ type: "delimited", delimiter: "\t" })).toBe(true);
+    expect(isFileFormat({ type: "xlsx", sheet: "FY25" })).toBe(true);
+    expect(
+      isFileFormat({
+        type: "fixed_width",
+        layout: { columns: [{ name: "a", start: 1, width: 3 }], skipLines: 0 },
+      })
+    ).toBe(true);
+    expect(isFileFormat({ type: "delimited", delimiter: "#" })).toBe(false);
+    expect(isFileFormat({ type: "fixed_width", layout: { columns: [] } })).toBe(
+      false
+    );
+  });
+});
@@ -0,0 +1,122 @@
+import {
+  describeForecast,
+  forecastDepartments,
+  forecastRevenues,
+  forecastYearEnd,
+  totalsByPeriod,
+} from "@/lib/forecast";
+import type { PeriodActualRow } from "@/lib/budgetExecution";
+
+const even = (amount: number) => new Array<number>(12).fill(amount);
+
+function row(
+  fiscal_year: number,
+  department_name: string,
+  fiscal_period: number,
+  actual_amount: number
+): PeriodActualRow {
+  return { fiscal_year, department_name, fiscal_period, actual_amount };
+}
+
+describe("totalsByPeriod", () => {
+  it("sums amounts per period and skips rows without one", () => {
+    const totals = totalsByPeriod([
+      { fiscal_period: 1, amount: 10 },
+      { fiscal_period: 1, amount: 5 },
+      { fiscal_period: 12, amount: 2 },
+      { fiscal_period: null, amount: 99 },
+      { amount: 99 },
+    ]);
+    expect(totals[0]).toBe(15);
+    expect(totals[11]).toBe(2);
+    expect(totals.reduce((a, b) => a + b, 0)).toBe(17);
+  });
+});
+
+describe("forecastYearEnd", () => {
+  it("returns null before anything is posted", () => {
+    expect(forecastYearEnd(even(0), null, 0)).toBeNull();
+  });
+
+  it("uses the run rate without a prior year", () => {
+    const f = forecastYearEnd(even(100), null, 3)!;
+    expect(f).toMatchObject({ ytd: 300, projected: 1200, method: "run-rate" });
+    // ±25% of the projection, scaled by the three quarters of the year left
+    expect(f.low).toBeCloseTo(975);
+    expect(f.high).toBeCloseTo(1425);
+  });
+
+  it("blends last year's timing with the run rate", () => {
+    // Last year a quarter of spending had landed by period 2
+    const prior = [100, 150, ...new Array<number>(10).fill(75)];
+    const f = forecastYearEnd([200, 300, ...new Array<number>(10).fill(0)], prior, 2)!;
+
+    expect(f.method).toBe("blended");
+    // Seasonal 500 / 0.25 = 2000, run rate 500 * 6 = 3000
+    expect(f.projected).toBeCloseTo(2500);
+    expect(f.low).toBeLessThanOrEqual(2000);
+    expect(f.high).toBeGreaterThanOrEqual(3000);
+  });
+
+  it("never projects below what is already spent", () => {
+    const f = forecastYearEnd([1000, ...new Array<number>(11).fill(0)], null, 11)!;
+    expect(f.low).toBeGreaterThanOrEqual(f.ytd);
+  });
+
+  it("reports the actual total once the year is complete", () => {
+    expect(forecastYearEnd(even(50), even(40), 12)).toEqual({
+      throughPeriod: 12,
+      ytd: 600,
+      projected: 600,
+      low: 600,
+      high: 600,
+      method: "final",
+    });
+  });
+});
+
+describe("forecastDepartments", () => {
+  it("projects each department and sorts by projected overrun", () => {
+    const result = forecastDepartments(
+      [
+        { department_name: "Police", budget_amount: 1000 },
+        { department_name: "Parks", budget_amount: 1000 },
+      ],
+      [
+        row(2025, "Police", 1, 150),
+        row(2025, "Police", 2, 150),
+        row(2025, "Parks", 1, 50),
+        row(2025, "Parks", 2, 50),
+      ],
+      [],
+      2
+    );
+
+    expect(result.map((d) => d.department_name)).toEqual(["Police", "Parks"]);
+    expect(result[0]).toMatchObject({ projected: 1800, projectedVariance: 800 });
+    expect(result[1]).toMatchObject({ projected: 600, projectedVariance: -400 });
+  });
+});
+
+describe("forecastRevenues", () => {
+  it("projects the total and each source through the latest period", () => {
+    const result = forecastRevenues(
+      [
+        { category: "Property Tax", fiscal_period: 1, amount: 300 },
+        { category: "Property Tax", fiscal_period: 3, amount: 300 },
+        { category: null, fiscal_period: 2, amount: 30 },
+      ],
+      []
+    );
+
+    expect(result.total).toMatchObject({ throughPeriod: 3, ytd: 630, projected: 2520 });
+    expect(result.sources.map((s) => s.source)).toEqual(["Property Tax", "Unspecified"]);
+    expect(result.sources[0].projected).toBe(2400);
+  });
+});
+
+describe("describeForecast", () => {
+  it("explains the basis of the projection", () => {
+    expect(describeForecast(forecastYearEnd(even(1), null, 4)!)).toMatch(/4 of 12 periods/);
+  });
+});
@@ -0,0 +1,102 @@
+import {
+  buildFundBalanceTrend,
+  fundYearTotals,
+  pickFund,
+  summarizeFunds,
+  withFund,
+  type FundYearDeptRow,
+} from "@/lib/funds";
+
+function row(
+  fiscal_year: number,
+  fund_name: string,
+  department_name: string,
+  budget_amount: number,
+  actual_amount: number
+): FundYearDeptRow {
+  return { fiscal_year, fund_name, department_name, budget_amount, actual_amount };
+}
+
+const rows = [
+  row(2023, "General Fund", "Police", 800, 780),
+  row(2023, "General Fund", "Parks", 200, 150),
+  row(2023, "Water Utility", "Public Works", 500, 520),
+  row(2024, "General Fund", "Police", 900, 600),
+];
+
+describe("pickFund", () => {
+  const funds = ["General Fund", "Water Utility"];
+
+  it("matches a known fund ignoring case", () => {
+    expect(pickFund("general fund", funds)).toBe("General Fund");
+    expect(pickFund(["Water Utility", "General Fund"], funds)).toBe("Water Utility");
+  });
+
+  it("returns null for a missing or unknown fund", () => {
+    expect(pickFund(undefined, funds)).toBeNull();
+    expect(pickFund("  ", funds)).toBeNull();
+    expect(pickFund("Airport", funds)).toBeNull();
+  });
+});
+
+describe("withFund", () => {
+  it("adds the fund to links, keeping an existing query", () => {
+    expect(withFund("/portal/budget", "General Fund")).toBe(
+      "/portal/budget?fund=General%20Fund"
+    );
+    expect(withFund("/portal/budget?year=2024", "Water & Sewer")).toBe(
+      "/portal/budget?year=2024&fund=Water%20%26%20Sewer"
+    );
+    expect(withFund("/portal/budget", null)).toBe("/portal/budget");
+  });
+});
+
+describe("summarizeFunds", () => {
+  it("totals each fund and credits revenues to it", () => {
+    const summaries = summarizeFunds(rows.filter((r) => r.fiscal_year === 2023), [
+      { fiscal_year: 2023, fund_name: "Water Utility", amount: 610 },
+      { fiscal_year: 2023, fund_name: null, amount: 40 },
+    ]);
+
+    expect(summaries.map((s) => s.fund_name)).toEqual([
+      "General Fund",
+      "Water Utility",
+      "Unspecified",
+    ]);
+    expect(summaries[0]).toMatchObject({
+      budget: 1000,
+      actuals: 930,
+      percentSpent: 93,
+      revenues: 0,
+      departmentCount: 2,
+    });
+    expect(summaries[1].revenues).toBe(610);
+    expect(summaries[2]).toMatchObject({ budget: 0, revenues: 40, percentSpent: 0 });
+  });
+});
+
+describe("fundYearTotals", () => {
+  it("sums budget and actuals per year, oldest first", () => {
+    expect(fundYearTotals(rows)).toEqual([
+      { year: 2023, Budget: 1500, Actuals: 1450, Variance: -50 },
+      { year: 2024, Budget: 900, Actuals: 600, Variance: -300 },
+    ]);
+  });
+});
+
+describe("buildFundBalanceTrend", () => {
+  it("nets revenues against spending and keeps a running total", () => {
+    const general = rows.filter((r) => r.fund_name === "General Fund");
+    const trend = buildFundBalanceTrend(general, [
+      { fiscal_year: 2023, amount: 900 },
+      { fiscal_year: 2024, amount: 500 },
+      { fiscal_year: 2025, amount: 100 },
+    ]);
+
+    expect(trend).toEqual([
+      { year: 2023, revenues: 900, actuals: 930, net: -30, cumulative: -30 },
+      { year: 2024, revenues: 500, actuals: 600, net: -100, cumulative: -130 },
+      { year: 2025, revenues: 100, actuals: 0, net: 100, cumulative: -30 },
+    ]);
+  });
+});
@@ -0,0 +1,102 @@
+import {
+  buildDeflator,
+  constantDollarsLabel,
+  CPI_U_ANNUAL,
+  deflate,
+  deflateRows,
+  parseCpiText,
+  pickDollars,
+  restate,
+} from "@/lib/inflation";
+
+const INDEX = [
+  { fiscal_year: 2022, index_value: 100 },
+  { fiscal_year: 2023, index_value: 110 },
+  { fiscal_year: 2024, index_value: 125 },
+];
+
+describe("pickDollars", () => {
+  it("only switches to real dollars when asked", () => {
+    expect(pickDollars("real")).toBe("real");
+    expect(pickDollars(["real", "nominal"])).toBe("real");
+    expect(pickDollars("REAL")).toBe("nominal");
+    expect(pickDollars(undefined)).toBe("nominal");
+  });
+});
+
+describe("buildDeflator", () => {
+  it("scales each year into base-year dollars", () => {
+    const deflator = buildDeflator(INDEX, 2024, [2022, 2023, 2024])!;
+    expect(deflator.factors[2022]).toBeCloseTo(1.25);
+    expect(deflator.factors[2023]).toBeCloseTo(125 / 110);
+    expect(deflator.factors[2024]).toBe(1);
+    expect(deflator.estimatedYears).toEqual([]);
+  });
+
+  it("borrows the nearest loaded year for years without an index", () => {
+    const deflator = buildDeflator(INDEX, 2026, [2020, 2023, 2026])!;
+    // 2026 uses 2024's value; 2020 predates the series and uses 2022's
+    expect(deflator.factors[2026]).toBe(1);
+    expect(deflator.factors[2023]).toBeCloseTo(125 / 110);
+    expect(deflator.factors[2020]).toBeCloseTo(1.25);
+    expect(deflator.estimatedYears).toEqual([2020, 2026]);
+  });
+
+  it("falls back to the bundled CPI-U series", () => {
+    const deflator = buildDeflator([], 2024, [2020])!;
+    const cpi = (year: number) => CPI_U_ANNUAL.find((e) => e.fiscal_year === year)!.index_value;
+    expect(deflator.factors[2020]).toBeCloseTo(cpi(2024) / cpi(2020));
+  });
+
+  it("ignores unusable values", () => {
+    expect(buildDeflator([{ fiscal_year: 2024, index_value: 0 }], 2024, [2024])).toBeNull();
+  });
+});
+
+describe("deflate", () => {
+  const deflator = buildDeflator(INDEX, 2024, [2022, 2023, 2024]);
+
+  it("restates amounts and leaves unknown years alone", () => {
+    expect(deflate(1000, 2022, deflator)).toBeCloseTo(1250);
+    expect(deflate(1000, 2019, deflator)).toBe(1000);
+    expect(deflate(1000, 2022, null)).toBe(1000);
+  });
+
+  it("copies rows with only the named fields restated", () => {
+    const rows = [
+      { year: 2022, Budget: 200, count: 4 },
+      { year: 2024, Budget: 300, count: 5 },
+    ];
+    const real = deflateRows(rows, (r) => r.year, ["Budget"], deflator);
+    expect(real).toEqual([
+      { year: 2022, Budget: 250, count: 4 },
+      { year: 2024, Budget: 300, count: 5 },
+    ]);
+    expect(rows[0].Budget).toBe(200);
+    expect(deflateRows(rows, (r) => r.year, ["Budget"], null)).toBe(rows);
+  });
+
+  it("restates between two years", () => {
+    expect(restate(1000, 2022, 2023, deflator)).toBeCloseTo(1100);
+    expect(restate(1000, 2022, 2023, null)).toBe(1000);
+  });
+});
+
+describe("parseCpiText", () => {
+  it("reads pasted year and value pairs", () => {
+    const { entries, invalid } = parseCpiText(
+      "Year\tAnnual\n2023\t304.702\n2022, 292.655\n\n2023; 305\nnext year 2025\n2024 abc\n"
+    );
+    expect(entries).toEqual([
+      { fiscal_year: 2022, index_value: 292.655 },
+      { fiscal_year: 2023, index_value: 305 },
+    ]);
+    expect(invalid).toEqual(["2024 abc"]);
+  });
+});
+
+describe("constantDollarsLabel", () => {
+  it("names the base year", () => {
+    expect(constantDollarsLabel(2025)).toBe("Constant FY2025 dollars");
+  });
+});
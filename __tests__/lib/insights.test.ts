@@ -0,0 +1,178 @@
+import {
+  calculateInsights,
+  compareRevenueSources,
+  DEFAULT_INSIGHT_RULES,
+  renderInsightTemplate,
+  validateInsightRule,
+  type DepartmentSummary,
+  type InsightRule,
+} from "@/lib/insights";
+import type { DepartmentForecast } from "@/lib/forecast";
+
+function dept(department_name: string, budget: number, actuals: number): DepartmentSummary {
+  return {
+    department_name,
+    budget,
+    actuals,
+    percentSpent: budget > 0 ? (actuals / budget) * 100 : 0,
+  };
+}
+
+function forecast(
+  department_name: string,
+  budget: number,
+  projected: number
+): DepartmentForecast {
+  return {
+    department_name,
+    budget,
+    projected,
+    projectedVariance: projected - budget,
+    low: projected * 0.9,
+    high: projected * 1.1,
+    ytd: projected / 2,
+    throughPeriod: 6,
+    method: "run-rate",
+  };
+}
+
+const departments = [
+  dept("Police", 100_000, 60_000),
+  dept("Fire", 100_000, 30_000),
+  dept("Parks", 100_000, 20_000),
+  dept("Library", 100_000, 110_000),
+];
+
+describe("calculateInsights", () => {
+  it("judges mid-year spending on the year-end projection", () => {
+    const insights = calculateInsights({
+      departments,
+      forecasts: [
+        forecast("Police", 100_000, 120_000),
+        forecast("Fire", 100_000, 60_000),
+        forecast("Parks", 100_000, 40_000),
+      ],
+    });
+
+    expect(insights.map((i) => i.id)).toEqual([
+      "rule-2-Library",
+      "rule-3-Police",
+      "rule-4-Parks",
+    ]);
+    expect(insights[1].title).toBe("Police is on pace to exceed its budget");
+    expect(insights[1].path).toBe("/departments/Police");
+  });
+
+  it("falls back to the share spent without forecasts", () => {
+    const insights = calculateInsights({ departments });
+
+    expect(insights.map((i) => i.id)).toEqual([
+      "rule-2-Library",
+      "rule-4-Parks",
+      "rule-4-Fire",
+    ]);
+  });
+
+  it("shows whatever fires, even a single insight", () => {
+    const insights = calculateInsights({ departments: [dept("Police", 100_000, 200_000)] });
+
+    // Significantly over budget wins over the plain over-budget rule
+    expect(insights).toHaveLength(1);
+    expect(insights[0]).toMatchObject({
+      type: "critical",
+      title: "Police is significantly over budget",
+      description: "Spent $100,000 more than budgeted (200% of budget used)",
+    });
+  });
+
+  it("skips disabled rules and honours the match limit", () => {
+    const rules: InsightRule[] = DEFAULT_INSIGHT_RULES.map((r) =>
+      r.id === 4 ? { ...r, max_results: 1 } : { ...r, enabled: r.id === 4 }
+    );
+
+    expect(calculateInsights({ departments }, rules).map((i) => i.id)).toEqual([
+      "rule-4-Parks",
+    ]);
+  });
+
+  it("flags year-over-year changes, revenue shortfalls and vendor concentration", () => {
+    const insights = calculateInsights({
+      fiscalYear: 2025,
+      departments: [dept("Police", 1_000_000, 900_000)],
+      previousDepartments: [dept("Police", 1_000_000, 600_000)],
+      revenueSources: [
+        { source: "Sales Tax", current: 800_000, previous: 1_000_000 },
+        { source: "Fees", current: 950_000, previous: 1_000_000 },
+      ],
+      vendors: [
+        { name: "Acme", total: 400_000 },
+        { name: "Globex", total: 100_000 },
+      ],
+      vendorTotal: 1_000_000,
+    });
+
+    expect(insights.map((i) => i.title)).toEqual([
+      "Sales Tax revenue is running 20% below last year",
+      "Police spending changed +50% from last year",
+      "Acme received 40% of vendor payments",
+    ]);
+    expect(insights[1].description).toBe("$900,000 in 2025 compared with $600,000 in 2024");
+    expect(insights[2].path).toBe("/vendors/Acme");
+  });
+});
+
+describe("renderInsightTemplate", () => {
+  it("fills known placeholders and leaves unknown ones visible", () => {
+    expect(renderInsightTemplate("{department} at {percent} {oops}", {
+      department: "Parks",
+      percent: "40%",
+    })).toBe("Parks at 40% {oops}");
+  });
+});
+
+describe("validateInsightRule", () => {
+  it("accepts the default rules", () => {
+    for (const rule of DEFAULT_INSIGHT_RULES) {
+      expect(validateInsightRule(rule)).toEqual([]);
+    }
+  });
+
+  it("reports bad parameters and placeholders", () => {
+    expect(
+      validateInsightRule({
+        kind: "vendor_concentration",
+        name: "",
+        severity: "info",
+        params: { percent: "" },
+        title_template: "{department} is busy",
+        description_template: "",
+        max_results: 0,
+      })
+    ).toEqual([
+      "Enter a rule name.",
+      "Share of payments (%) must be a number of zero or more.",
+      "Unknown placeholder: {department}.",
+      "Show at most must be a whole number above zero, or blank for all.",
+    ]);
+  });
+});
+
+describe("compareRevenueSources", () => {
+  it("uses projections for open years and posted totals otherwise", () => {
+    const current = [
+      { category: "Sales Tax", amount: 300 },
+      { category: " ", amount: 50 },
+    ];
+    const previous = [
+      { category: "Sales Tax", amount: 1000 },
+      { category: null, amount: 100 },
+      { category: "Grants", amount: 400 },
+    ];
+
+    expect(compareRevenueSources(current, previous, [{ source: "Sales Tax", projected: 900 }])).toEqual([
+      { source: "Sales Tax", current: 900, previous: 1000 },
+      { source: "Unspecified", current: 50, previous: 100 },
+      { source: "Grants", current: 0, previous: 400 },
+    ]);
+  });
+});
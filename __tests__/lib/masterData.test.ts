@@ -0,0 +1,150 @@
+import {
+  buildMasterDataTree,
+  createMasterDataResolver,
+  masterDataNameKey,
+  validateMasterDataEntry,
+  type MasterDataEntry,
+} from "@/lib/masterData";
+
+function entry(
+  code: string,
+  name: string,
+  parent_code: string | null = null
+): MasterDataEntry {
+  return {
+    code,
+    name,
+    description: null,
+    parent_code,
+    created_at: "2025-01-01T00:00:00Z",
+    updated_at: "2025-01-01T00:00:00Z",
+  };
+}
+
+describe("masterDataNameKey", () => {
+  it("ignores case, spacing and upload escaping", () => {
+    expect(masterDataNameKey("  Parks &amp;  Recreation ")).toBe(
+      masterDataNameKey("PARKS & RECREATION")
+    );
+  });
+});
+
+describe("createMasterDataResolver", () => {
+  const resolve = createMasterDataResolver({
+    funds: [entry("100", "General Fund")],
+    departments: [entry("40", "Public Works")],
+    accounts: [],
+  });
+
+  it("uses the registered name for a known code", () => {
+    expect(
+      resolve({
+        department_code: " 40 ",
+        department_name: "PUBLIC WORKS DEPT",
+        amount: 10,
+      })
+    ).toEqual({
+      department_code: " 40 ",
+      department_name: "Public Works",
+      amount: 10,
+    });
+  });
+
+  it("falls back to matching the name when the code is unknown", () => {
+    expect(
+      resolve({ fund_code: "999", fund_name: "general fund" }).fund_name
+    ).toBe("General Fund");
+    expect(resolve({ department_name: "public  works" }).department_name).toBe(
+      "Public Works"
+    );
+  });
+
+  it("leaves unmatched rows untouched", () => {
+    const record = { department_code: "55", department_name: "Library" };
+    expect(resolve(record)).toBe(record);
+  });
+
+  it("fills a missing name from the code", () => {
+    expect(
+      resolve({ fund_code: "100", fund_name: null }).fund_name
+    ).toBe("General Fund");
+  });
+});
+
+describe("buildMasterDataTree", () => {
+  it("lists children under their parent with depth", () => {
+    const tree = buildMasterDataTree([
+      entry("410", "Streets", "400"),
+      entry("400", "Public Works"),
+      entry("100", "Administration"),
+      entry("411", "Street Lighting", "410"),
+    ]);
+
+    expect(tree.map((t) => [t.entry.code, t.depth])).toEqual([
+      ["100", 0],
+      ["400", 0],
+      ["410", 1],
+      ["411", 2],
+    ]);
+  });
+
+  it("keeps entries with a missing parent or a cycle", () => {
+    const tree = buildMasterDataTree([
+      entry("1", "A", "2"),
+      entry("2", "B", "1"),
+      entry("3", "C", "missing"),
+    ]);
+
+    expect(tree.map((t) => t.entry.code).sort()).toEqual(["1", "2", "3"]);
+  });
+});
+
+describe("validateMasterDataEntry", () => {
+  const existing = [
+    entry("400", "Public Works"),
+    entry("410", "Streets", "400"),
+  ];
+
+  it("requires a code and a name", () => {
+    expect(
+      validateMasterDataEntry({ code: " ", name: "", parent_code: null }, existing, true)
+    ).toEqual(["Enter a code.", "Enter a display name."]);
+  });
+
+  it("rejects duplicate codes and names", () => {
+    expect(
+      validateMasterDataEntry(
+        { code: "400", name: "Other", parent_code: null },
+        existing,
+        true
+      )
+    ).toContain('Code "400" is already registered.');
+    expect(
+      validateMasterDataEntry(
+        { code: "500", name: "public works", parent_code: null },
+        existing,
+        true
+      )
+    ).toContain('"Public Works" is already used by code 400.');
+  });
+
+  it("allows saving an entry under its own name", () => {
+    expect(
+      validateMasterDataEntry(
+        { code: "400", name: "Public Works", parent_code: null },
+        existing,
+        false
+      )
+    ).toEqual([]);
+  });
+
+  it("rejects parents that would create a cycle", () => {
+    expect(
+      validateMasterDataEntry(
+        { code: "400", name: "Public Works", parent_code: "410" },
+        existing,
+        false
+      )
+    ).toEqual(["That parent is already below this entry."]);
+  });
+});
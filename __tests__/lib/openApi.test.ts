@@ -0,0 +1,51 @@
+import { buildOpenApiDocument } from "@/lib/openApi";
+import type { ApiSettings } from "@/lib/publicApi";
+
+const SETTINGS: ApiSettings = {
+  published: true,
+  cityName: "Paradise City",
+  enableBudget: true,
+  enableActuals: false,
+  enableTransactions: true,
+  enableVendors: false,
+  enableRevenues: false,
+};
+
+describe("buildOpenApiDocument", () => {
+  const doc = buildOpenApiDocument(SETTINGS, "https://data.example.gov");
+
+  it("describes only the resources the portal publishes", () => {
+    expect(doc.openapi).toBe("3.1.0");
+    expect(doc.info.title).toBe("Paradise City financial data API");
+    expect(doc.servers).toEqual([{ url: "https://data.example.gov" }]);
+    expect(Object.keys(doc.paths)).toEqual([
+      "/api/v1/budgets",
+      "/api/v1/transactions",
+      "/api/v1/departments",
+    ]);
+  });
+
+  it("leaves out fields and filters behind switches that are off", () => {
+    expect(Object.keys(doc.components.schemas.Transaction.properties ?? {})).not.toContain("vendor");
+    expect(Object.keys(doc.components.schemas.Department.properties ?? {})).toEqual([
+      "fiscal_year",
+      "department_name",
+      "budget_amount",
+    ]);
+    const params = doc.paths["/api/v1/transactions"].get.parameters.map((p) => p.name);
+    expect(params).toContain("start_date");
+    expect(params).not.toContain("vendor");
+    expect(params).toEqual(expect.arrayContaining(["fields", "limit", "cursor", "format"]));
+  });
+
+  it("points each list response at its row schema", () => {
+    const op = doc.paths["/api/v1/budgets"].get;
+    expect(op.operationId).toBe("listBudgets");
+    expect(
+      op.responses["200"].content?.["application/json"].schema.properties?.data.items?.$ref
+    ).toBe("#/components/schemas/Budget");
+    expect(doc.components.schemas.Budget.properties?.amount).toMatchObject({
+      type: ["number", "null"],
+    });
+  });
+});
@@ -0,0 +1,155 @@
+import {
+  buildDataPackage,
+  buildDcatCatalog,
+  openDataLicense,
+  temporalCoverage,
+  type CatalogSources,
+} from "@/lib/openDataCatalog";
+import type { ApiSettings } from "@/lib/publicApi";
+
+const SETTINGS: ApiSettings = {
+  published: true,
+  cityName: "Paradise City",
+  enableBudget: true,
+  enableActuals: true,
+  enableTransactions: true,
+  enableVendors: false,
+  enableRevenues: false,
+};
+
+function sources(overrides: Partial<CatalogSources> = {}): CatalogSources {
+  return {
+    settings: SETTINGS,
+    origin: "https://budget.example.gov",
+    citySlug: "paradise",
+    fiscalYears: [2024, 2022, 2023],
+    fiscalConfig: { startMonth: 7, startDay: 1 },
+    lastModified: { budgets: "2024-08-01T10:00:00+00:00" },
+    generatedAt: "2024-09-15T12:00:00.000Z",
+    license: openDataLicense(undefined),
+    contactEmail: "opendata@example.gov",
+    ...overrides,
+  };
+}
+
+describe("temporalCoverage", () => {
+  it("spans the first day of the earliest fiscal year to the last of the latest", () => {
+    expect(temporalCoverage([2024, 2022], { startMonth: 7, startDay: 1 })).toBe(
+      "2021-07-01/2024-06-30"
+    );
+    expect(temporalCoverage([2023], { startMonth: 1, startDay: 1 })).toBe(
+      "2023-01-01/2023-12-31"
+    );
+    expect(temporalCoverage([2024], { startMonth: 10, startDay: 1 })).toBe(
+      "2023-10-01/2024-09-30"
+    );
+  });
+
+  it("is null without any fiscal years", () => {
+    expect(temporalCoverage([], { startMonth: 7, startDay: 1 })).toBeNull();
+  });
+});
+
+describe("openDataLicense", () => {
+  it("looks licenses up by SPDX id and falls back to CC0", () => {
+    expect(openDataLicense("CC-BY-4.0").path).toBe("https://creativecommons.org/licenses/by/4.0/");
+    expect(openDataLicense("GPL-3.0").name).toBe("CC0-1.0");
+    expect(openDataLicense(undefined).name).toBe("CC0-1.0");
+  });
+});
+
+describe("buildDcatCatalog", () => {
+  it("lists the published datasets with coverage, contact and downloads", () => {
+    const catalog = buildDcatCatalog(sources());
+
+    expect(catalog.conformsTo).toBe("https://project-open-data.cio.gov/v1.1/schema");
+    expect(catalog.dataset.map((d) => d.identifier)).toEqual([
+      "https://budget.example.gov/data.json#budgets",
+      "https://budget.example.gov/data.json#actuals",
+      "https://budget.example.gov/data.json#transactions",
+    ]);
+
+    const [budgets, actuals] = catalog.dataset;
+    expect(budgets).toMatchObject({
+      title: "Paradise City Adopted Budget",
+      modified: "2024-08-01T10:00:00+00:00",
+      temporal: "2021-07-01/2024-06-30",
+      license: "https://creativecommons.org/publicdomain/zero/1.0/",
+      contactPoint: { hasEmail: "mailto:opendata@example.gov" },
+      landingPage: "https://budget.example.gov/paradise/download",
+    });
+    expect(actuals.modified).toBe("2024-08-01T10:00:00+00:00");
+
+    expect(budgets.distribution[0]).toEqual({
+      "@type": "dcat:Distribution",
+      title: "Adopted Budget (CSV)",
+      format: "CSV",
+      mediaType: "text/csv",
+      downloadURL: "https://budget.example.gov/api/export/budgets?format=csv",
+    });
+    expect(budgets.distribution.at(-1)).toMatchObject({
+      format: "API",
+      accessURL: "https://budget.example.gov/api/v1/budgets",
+    });
+  });
+
+  it("dates tables with no uploads by the latest change, or when the catalog was read", () => {
+    const dated = buildDcatCatalog(
+      sources({
+        lastModified: {
+          budgets: "2024-08-01T10:00:00+00:00",
+          transactions: "2024-09-02T08:30:00+00:00",
+        },
+      })
+    ).dataset;
+    expect(dated.map((d) => d.modified)).toEqual([
+      "2024-08-01T10:00:00+00:00",
+      "2024-09-02T08:30:00+00:00",
+      "2024-09-02T08:30:00+00:00",
+    ]);
+
+    const [undated] = buildDcatCatalog(sources({ lastModified: {} })).dataset;
+    expect(undated.modified).toBe("2024-09-15T12:00:00.000Z");
+  });
+
+  it("gives every dataset the fields Project Open Data requires", () => {
+    const settings = { ...SETTINGS, enableVendors: true, enableRevenues: true };
+    const catalog = buildDcatCatalog(sources({ settings, lastModified: {} }));
+
+    expect(catalog.dataset).toHaveLength(4);
+    for (const dataset of catalog.dataset) {
+      expect(dataset.title).toBeTruthy();
+      expect(dataset.description).toBeTruthy();
+      expect(dataset.keyword.length).toBeGreaterThan(0);
+      expect(Number.isNaN(Date.parse(dataset.modified))).toBe(false);
+      expect(dataset.publisher.name).toBe("Paradise City");
+      expect(dataset.contactPoint).toEqual({
+        "@type": "vcard:Contact",
+        fn: "Paradise City open data",
+        hasEmail: "mailto:opendata@example.gov",
+      });
+      expect(dataset.identifier).toBeTruthy();
+      expect(dataset.accessLevel).toBe("public");
+    }
+  });
+});
+
+describe("buildDataPackage", () => {
+  it("describes each CSV download with typed fields", () => {
+    const pkg = buildDataPackage(sources());
+
+    expect(pkg.name).toBe("paradise-finances");
+    expect(pkg.licenses).toEqual([openDataLicense("CC0-1.0")]);
+    expect(pkg.resources.map((r) => r.name)).toEqual(["budgets", "actuals", "transactions"]);
+
+    const transactions = pkg.resources[2];
+    expect(transactions.path).toBe(
+      "https://budget.example.gov/api/export/transactions?format=csv"
+    );
+    const fields = transactions.schema.fields;
+    expect(fields[0]).toMatchObject({ name: "date", type: "date" });
+    expect(fields.find((f) => f.name === "amount")?.type).toBe("number");
+    expect(fields.map((f) => f.name)).not.toContain("vendor");
+    expect(fields.at(-1)?.name).toBe("current_department_name");
+  });
+});
@@ -0,0 +1,86 @@
+import {
+  buildPopulation,
+  formatPerCapita,
+  parsePopulationStat,
+  perCapita,
+  perCapitaDivisor,
+  perCapitaRows,
+  pickPerCapita,
+} from "@/lib/perCapita";
+
+const ENTRIES = [
+  { fiscal_year: 2022, population: 40_000, households: 16_000 },
+  { fiscal_year: 2024, population: 50_000, households: null },
+];
+
+describe("pickPerCapita", () => {
+  it("defaults to totals", () => {
+    expect(pickPerCapita("resident")).toBe("resident");
+    expect(pickPerCapita(["household", "resident"])).toBe("household");
+    expect(pickPerCapita("capita")).toBe("total");
+    expect(pickPerCapita(undefined)).toBe("total");
+  });
+});
+
+describe("buildPopulation", () => {
+  it("uses the nearest earlier year for years without a count", () => {
+    const population = buildPopulation(ENTRIES, [2021, 2022, 2023, 2024])!;
+    expect(population.byYear[2023]).toEqual({ population: 40_000, households: 16_000 });
+    expect(population.byYear[2024]).toEqual({ population: 50_000, households: null });
+    // 2021 predates the series and uses the earliest year
+    expect(population.byYear[2021].population).toBe(40_000);
+    expect(population.estimatedYears).toEqual([2021, 2023]);
+    expect(population.hasHouseholds).toBe(true);
+  });
+
+  it("notes when no year has households", () => {
+    expect(buildPopulation(ENTRIES, [2024])!.hasHouseholds).toBe(false);
+  });
+
+  it("ignores unusable counts", () => {
+    expect(
+      buildPopulation([{ fiscal_year: 2024, population: 0, households: null }], [2024])
+    ).toBeNull();
+  });
+});
+
+describe("perCapita", () => {
+  const population = buildPopulation(ENTRIES, [2022, 2024]);
+
+  it("divides by residents or households for the year", () => {
+    expect(perCapitaDivisor(population, 2022, "household")).toBe(16_000);
+    expect(perCapitaDivisor(population, 2024, "household")).toBeNull();
+    expect(perCapitaDivisor(population, 2024, "total")).toBeNull();
+    expect(perCapita(1_000_000, 2024, population, "resident")).toBe(20);
+    expect(perCapita(1_000_000, 2019, population, "resident")).toBe(1_000_000);
+  });
+
+  it("copies rows with only the named fields divided", () => {
+    const rows = [
+      { year: 2022, budget: 400_000, count: 3 },
+      { year: 2024, budget: 500_000, count: 4 },
+    ];
+    expect(perCapitaRows(rows, (r) => r.year, ["budget"], population, "resident")).toEqual([
+      { year: 2022, budget: 10, count: 3 },
+      { year: 2024, budget: 10, count: 4 },
+    ]);
+    expect(perCapitaRows(rows, (r) => r.year, ["budget"], population, "total")).toBe(rows);
+  });
+});
+
+describe("formatPerCapita", () => {
+  it("shows cents only for small amounts", () => {
+    expect(formatPerCapita(412.4)).toBe("$412");
+    expect(formatPerCapita(3.456)).toBe("$3.46");
+  });
+});
+
+describe("parsePopulationStat", () => {
+  it("reads the landing-page stat", () => {
+    expect(parsePopulationStat("48,200")).toBe(48_200);
+    expect(parsePopulationStat("48.2K")).toBe(48_200);
+    expect(parsePopulationStat("~1.2 million")).toBe(1_200_000);
+    expect(parsePopulationStat("About 50,000 residents")).toBeNull();
+    expect(parsePopulationStat(null)).toBeNull();
+  });
+});
@@ -0,0 +1,123 @@
+import {
+  API_MAX_LIMIT,
+  apiSettingsFrom,
+  decodeCursor,
+  encodeCursor,
+  findApiResource,
+  isResourceEnabled,
+  parseApiQuery,
+  visibleFields,
+  type ApiResource,
+  type ApiSettings,
+} from "@/lib/publicApi";
+
+const ALL_ON: ApiSettings = {
+  published: true,
+  cityName: "Paradise City",
+  enableBudget: true,
+  enableActuals: true,
+  enableTransactions: true,
+  enableVendors: true,
+  enableRevenues: true,
+};
+
+const transactions = findApiResource("transactions") as ApiResource;
+
+function parse(query: string, settings = ALL_ON, accept: string | null = null) {
+  return parseApiQuery(transactions, new URLSearchParams(query), settings, accept);
+}
+
+describe("apiSettingsFrom", () => {
+  it("reads portal switches, with vendors requiring transactions", () => {
+    expect(apiSettingsFrom({ is_published: true, enable_vendors: true })).toMatchObject({
+      published: true,
+      enableBudget: true,
+      enableActuals: true,
+      enableTransactions: false,
+      enableVendors: false,
+      enableRevenues: false,
+    });
+  });
+
+  it("treats missing settings as unpublished", () => {
+    expect(apiSettingsFrom(null).published).toBe(false);
+  });
+});
+
+describe("resource switches", () => {
+  it("hides resources and fields whose switch is off", () => {
+    const settings = { ...ALL_ON, enableVendors: false };
+    expect(isResourceEnabled(findApiResource("vendors") as ApiResource, settings)).toBe(false);
+    expect(visibleFields(transactions, settings).map((f) => f.name)).not.toContain("vendor");
+    expect(parse("vendor=Acme", settings)).toEqual({ error: "Unknown parameter: vendor" });
+  });
+
+  it("returns null for unknown resources", () => {
+    expect(findApiResource("payroll")).toBeNull();
+  });
+});
+
+describe("cursors", () => {
+  it("round-trips string and number sort values", () => {
+    expect(decodeCursor(encodeCursor({ value: "2024-02-01", id: "abc" }))).toEqual({
+      value: "2024-02-01",
+      id: "abc",
+    });
+    expect(decodeCursor(encodeCursor({ value: 2024, id: "Acme" }))).toEqual({
+      value: 2024,
+      id: "Acme",
+    });
+  });
+
+  it("rejects malformed cursors", () => {
+    expect(decodeCursor("not-a-cursor")).toBeNull();
+    expect(decodeCursor(Buffer.from('{"a":1}').toString("base64url"))).toBeNull();
+  });
+});
+
+describe("parseApiQuery", () => {
+  it("defaults to every visible field as JSON", () => {
+    const result = parse("");
+    expect("query" in result && result.query).toMatchObject({
+      fields: visibleFields(transactions, ALL_ON).map((f) => f.name),
+      filters: [],
+      limit: 100,
+      cursor: null,
+      format: "json",
+    });
+  });
+
+  it("parses list, range and field parameters", () => {
+    const result = parse("fiscal_year=2023,2024&start_date=2024-01-01&min_amount=50.5&fields=date,amount");
+    if (!("query" in result)) throw new Error(result.error);
+
+    expect(result.query.fields).toEqual(["date", "amount"]);
+    expect(result.query.filters.map(({ filter, values }) => [filter.param, values])).toEqual([
+      ["fiscal_year", [2023, 2024]],
+      ["start_date", ["2024-01-01"]],
+      ["min_amount", [50.5]],
+    ]);
+  });
+
+  it("rejects unknown parameters, fields and bad values", () => {
+    expect(parse("year=2024")).toEqual({ error: "Unknown parameter: year" });
+    expect(parse("fields=date,secret")).toEqual({ error: "Unknown field: secret" });
+    expect(parse("fiscal_year=FY24")).toEqual({ error: "Invalid fiscal_year: FY24" });
+    expect(parse("start_date=2024-13-01")).toEqual({ error: "Invalid start_date: 2024-13-01" });
+    expect(parse("end_date=2023-02-29")).toEqual({ error: "Invalid end_date: 2023-02-29" });
+    expect(parse(`limit=${API_MAX_LIMIT + 1}`)).not.toHaveProperty("query");
+    expect(parse("cursor=abc")).toEqual({ error: "Invalid cursor" });
+    expect(parse("format=xml")).toEqual({ error: "format must be json or csv" });
+  });
+
+  it("negotiates CSV from the format parameter or the Accept header", () => {
+    const format = (query: string, accept: string | null) => {
+      const result = parse(query, ALL_ON, accept);
+      return "query" in result ? result.query.format : null;
+    };
+    expect(format("format=csv", null)).toBe("csv");
+    expect(format("", "text/csv")).toBe("csv");
+    expect(format("format=json", "text/csv")).toBe("json");
+    expect(format("", "application/json")).toBe("json");
+  });
+});
@@ -0,0 +1,93 @@
+import {
+  buildUploadDiff,
+  createUploadSummarizer,
+  getDiffPercent,
+  getDiffScopeYears,
+  type DiffBaselineRow,
+} from "@/lib/uploadDiff";
+
+function budgetRow(department: string, fund: string, amount: number) {
+  return {
+    fiscal_year: 2025,
+    fund_code: "100",
+    fund_name: fund,
+    department_code: "",
+    department_name: department,
+    category: "Salaries",
+    account_code: "5000",
+    account_name: "Wages",
+    amount,
+  };
+}
+
+describe("createUploadSummarizer", () => {
+  it("totals departments and funds and flags repeated rows", () => {
+    const summarizer = createUploadSummarizer("budgets");
+    summarizer.add(2, budgetRow("Police", "General", 100));
+    summarizer.add(3, budgetRow("Police", "General", 100));
+    summarizer.add(4, budgetRow("Parks", "General", 50));
+    summarizer.add(5, budgetRow("Police", "General", 100));
+
+    const summary = summarizer.finish();
+
+    expect(summary.departments).toEqual({
+      Police: { amount: 300, rows: 3 },
+      Parks: { amount: 50, rows: 1 },
+    });
+    expect(summary.funds.General).toEqual({ amount: 350, rows: 4 });
+    expect(summary.duplicateRowCount).toBe(2);
+    expect(summary.duplicates).toHaveLength(1);
+    expect(summary.duplicates[0]).toMatchObject({ rowNums: [2, 3, 5], count: 3 });
+  });
+});
+
+describe("buildUploadDiff", () => {
+  const summarizer = createUploadSummarizer("budgets");
+  summarizer.add(2, budgetRow("Police", "General", 120));
+  summarizer.add(3, budgetRow("Library", "General", 30));
+  const summary = summarizer.finish();
+
+  const baseline: DiffBaselineRow[] = [
+    { dimension: "department", name: "Police", row_count: 4, total_amount: 100 },
+    { dimension: "department", name: "Parks", row_count: 2, total_amount: 40 },
+    { dimension: "fund", name: "General", row_count: 6, total_amount: 140 },
+  ];
+
+  it("compares a replacement with the live data it swaps out", () => {
+    const diff = buildUploadDiff("replace_year", [2025], summary, baseline);
+
+    expect(diff.beforeTotal).toBe(140);
+    expect(diff.afterTotal).toBe(150);
+    expect(diff.totalDelta).toBe(10);
+    expect(diff.removedDepartments).toEqual(["Parks"]);
+    expect(diff.addedDepartments).toEqual(["Library"]);
+    expect(diff.departments.map((d) => [d.name, d.delta])).toEqual([
+      ["Parks", -40],
+      ["Library", 30],
+      ["Police", 20],
+    ]);
+  });
+
+  it("adds appended rows on top of the live data", () => {
+    const diff = buildUploadDiff("append", [2025], summary, baseline);
+
+    expect(diff.afterTotal).toBe(290);
+    expect(diff.removedDepartments).toEqual([]);
+    expect(diff.funds[0]).toMatchObject({ name: "General", before: 140, after: 290 });
+  });
+});
+
+describe("getDiffScopeYears", () => {
+  it("scopes by mode", () => {
+    expect(getDiffScopeYears("replace_table", null, [2024])).toBeNull();
+    expect(getDiffScopeYears("replace_year", 2025, [2025])).toEqual([2025]);
+    expect(getDiffScopeYears("append", null, [2024, 2025])).toEqual([2024, 2025]);
+  });
+});
+
+describe("getDiffPercent", () => {
+  it("is null when there was nothing before", () => {
+    expect(getDiffPercent({ before: 0, delta: 10 })).toBeNull();
+    expect(getDiffPercent({ before: 200, delta: -50 })).toBe(-25);
+  });
+});
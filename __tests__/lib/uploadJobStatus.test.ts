@@ -0,0 +1,106 @@
+import {
+  getJobProgressPercent,
+  isJobResumable,
+  isJobRunning,
+} from "@/lib/uploadJobStatus";
+
+const NOW = Date.parse("2025-01-15T12:00:00Z");
+const LATER = "2025-01-15T12:05:00Z";
+const EARLIER = "2025-01-15T11:55:00Z";
+
+describe("isJobRunning", () => {
+  it("is true only while the lease is in the future", () => {
+    expect(
+      isJobRunning({ status: "inserting", locked_until: LATER }, NOW)
+    ).toBe(true);
+    expect(
+      isJobRunning({ status: "inserting", locked_until: EARLIER }, NOW)
+    ).toBe(false);
+    expect(isJobRunning({ status: "inserting", locked_until: null }, NOW)).toBe(
+      false
+    );
+  });
+
+  it("ignores stale leases on finished jobs", () => {
+    expect(isJobRunning({ status: "done", locked_until: LATER }, NOW)).toBe(
+      false
+    );
+  });
+});
+
+describe("isJobResumable", () => {
+  it("allows retrying failed jobs", () => {
+    expect(
+      isJobResumable(
+        { status: "failed", locked_until: null, attempts: 1 },
+        NOW
+      )
+    ).toBe(true);
+  });
+
+  it("allows resuming a paused or abandoned job", () => {
+    expect(
+      isJobResumable({ status: "queued", locked_until: null, attempts: 1 }, NOW)
+    ).toBe(true);
+    expect(
+      isJobResumable(
+        { status: "inserting", locked_until: EARLIER, attempts: 2 },
+        NOW
+      )
+    ).toBe(true);
+  });
+
+  it("rejects running, never-started and finished jobs", () => {
+    expect(
+      isJobResumable(
+        { status: "inserting", locked_until: LATER, attempts: 1 },
+        NOW
+      )
+    ).toBe(false);
+    expect(
+      isJobResumable({ status: "queued", locked_until: null, attempts: 0 }, NOW)
+    ).toBe(false);
+    expect(
+      isJobResumable({ status: "done", locked_until: null, attempts: 1 }, NOW)
+    ).toBe(false);
+  });
+});
+
+describe("getJobProgressPercent", () => {
+  it("is null until rows are counted", () => {
+    expect(
+      getJobProgressPercent({
+        status: "validating",
+        total_rows: null,
+        rows_inserted: 0,
+      })
+    ).toBeNull();
+  });
+
+  it("rounds committed rows against the total", () => {
+    expect(
+      getJobProgressPercent({
+        status: "inserting",
+        total_rows: 30_000,
+        rows_inserted: 10_000,
+      })
+    ).toBe(33);
+  });
+
+  it("counts rows skipped as duplicates as processed", () => {
+    expect(
+      getJobProgressPercent({
+        status: "inserting",
+        total_rows: 10_000,
+        rows_inserted: 4_000,
+        rows_skipped: 1_000,
+      })
+    ).toBe(50);
+  });
+
+  it("reports done jobs as complete", () => {
+    expect(
+      getJobProgressPercent({ status: "done", total_rows: 0, rows_inserted: 0 })
+    ).toBe(100);
+  });
+});
@@ -0,0 +1,99 @@
+import {
+  buildUploadRecord,
+  formatValidationIssues,
+  TABLE_SCHEMAS,
+  validateUploadHeaders,
+} from "@/lib/uploadValidation";
+
+describe("validateUploadHeaders", () => {
+  it("accepts the template headers", () => {
+    expect(
+      validateUploadHeaders("budgets", TABLE_SCHEMAS.budgets.required)
+    ).toEqual([]);
+  });
+
+  it("reports missing, duplicate and extra columns", () => {
+    const issues = validateUploadHeaders("budgets", [
+      "fiscal_year",
+      "fiscal_year",
+      "amount",
+      "notes",
+    ]);
+    const messages = issues.map((i) => i.message).join("\n");
+
+    expect(messages).toContain('Duplicate column header "fiscal_year"');
+    expect(messages).toContain("Missing required column(s): fund_code");
+    expect(messages).toContain('Extra column "notes"');
+  });
+});
+
+describe("buildUploadRecord", () => {
+  const headers = TABLE_SCHEMAS.transactions.required;
+
+  function row(overrides: Record<string, string>): string[] {
+    const base: Record<string, string> = {
+      date: "7/1/2024",
+      fiscal_year: "2025",
+      fund_code: "100",
+      fund_name: "General Fund",
+      department_code: "PW",
+      department_name: "Public Works",
+      account_code: "5000",
+      account_name: "Supplies",
+      vendor: "Acme",
+      description: "Gravel",
+      amount: "$1,234.50",
+      ...overrides,
+    };
+    return headers.map((h) => base[h]);
+  }
+
+  it("parses numbers and normalizes dates", () => {
+    const result = buildUploadRecord("transactions", headers, row({}), 2);
+
+    expect(result.issues).toEqual([]);
+    expect(result.fiscalYear).toBe(2025);
+    expect(result.record.amount).toBe(1234.5);
+    expect(result.record.date).toBe("2024-07-01");
+  });
+
+  it("reports row-level issues with the source line number", () => {
+    const result = buildUploadRecord(
+      "transactions",
+      headers,
+      row({ date: "2024-02-31", amount: "-5" }),
+      7
+    );
+
+    expect(result.issues.map((i) => [i.row, i.field])).toEqual([
+      [7, "date"],
+      [7, "amount"],
+    ]);
+  });
+
+  it("normalizes single-digit periods for actuals", () => {
+    const actualHeaders = TABLE_SCHEMAS.actuals.required;
+    const values = actualHeaders.map((h) =>
+      h === "period" ? "2024-7" : h === "fiscal_year" ? "2025" : h === "amount" ? "10" : "x"
+    );
+
+    const result = buildUploadRecord("actuals", actualHeaders, values, 2);
+
+    expect(result.issues).toEqual([]);
+    expect(result.record.period).toBe("2024-07");
+  });
+});
+
+describe("formatValidationIssues", () => {
+  it("shows a sample and counts the rest", () => {
+    const issues = Array.from({ length: 3 }, (_, i) => ({
+      row: i + 2,
+      field: "amount",
+      message: "bad",
+    }));
+
+    expect(formatValidationIssues(issues, 10, 2)).toBe(
+      "Row 2: [amount] bad\nRow 3: [amount] bad\n...and 8 more issue(s)."
+    );
+  });
+});
@@ -0,0 +1,131 @@
+import {
+  clusterVendorSuggestions,
+  createVendorCanonicalizer,
+  expandVendorFilter,
+  findAliasedVendors,
+  getVendorSpellings,
+  rejectionPairs,
+  vendorMatchKey,
+  type VendorAlias,
+  type VendorMergeSuggestion,
+} from "@/lib/vendorAliases";
+
+let nextId = 1;
+
+function alias(from: string, to: string): VendorAlias {
+  return {
+    id: nextId++,
+    created_at: "2025-01-01T00:00:00Z",
+    alias: from,
+    canonical_vendor: to,
+    created_by: null,
+  };
+}
+
+function suggestion(
+  a: string,
+  b: string,
+  score: number,
+  aCount: number,
+  bCount: number
+): VendorMergeSuggestion {
+  return {
+    vendor_a: a,
+    vendor_b: b,
+    score,
+    a_txn_count: aCount,
+    b_txn_count: bCount,
+    a_total: aCount * 100,
+    b_total: bCount * 100,
+  };
+}
+
+const aliases = [
+  alias("ACME INC", "Acme Inc."),
+  alias("Acme, Inc", "Acme Inc."),
+  alias("Smith & Sons LLC", "Smith and Sons"),
+];
+
+describe("vendorMatchKey", () => {
+  it("ignores case, punctuation and company suffixes", () => {
+    expect(vendorMatchKey("ACME, INC.")).toBe("acme");
+    expect(vendorMatchKey("The Acme Company")).toBe("acme");
+    expect(vendorMatchKey("Smith & Sons LLC")).toBe("smith and sons");
+    expect(vendorMatchKey("O'Reilly Auto Parts")).toBe("oreilly auto parts");
+  });
+
+  it("keeps suffix words inside other words", () => {
+    expect(vendorMatchKey("Costco Wholesale")).toBe("costco wholesale");
+  });
+});
+
+describe("createVendorCanonicalizer", () => {
+  const canonical = createVendorCanonicalizer(aliases);
+
+  it("maps merged spellings to the canonical name, ignoring case", () => {
+    expect(canonical("ACME INC")).toBe("Acme Inc.");
+    expect(canonical("  acme, inc ")).toBe("Acme Inc.");
+  });
+
+  it("keeps unmerged names and labels blanks Unspecified", () => {
+    expect(canonical(" City Water ")).toBe("City Water");
+    expect(canonical("")).toBe("Unspecified");
+    expect(canonical(null)).toBe("Unspecified");
+  });
+});
+
+describe("vendor spellings", () => {
+  it("lists the canonical name first, then its merged spellings", () => {
+    expect(getVendorSpellings(aliases, "Acme Inc.")).toEqual([
+      "Acme Inc.",
+      "ACME INC",
+      "Acme, Inc",
+    ]);
+    expect(getVendorSpellings(aliases, "City Water")).toEqual(["City Water"]);
+  });
+
+  it("widens a vendor filter to every spelling", () => {
+    expect(expandVendorFilter(aliases, ["Acme Inc.", "City Water"]).sort()).toEqual(
+      ["ACME INC", "Acme Inc.", "Acme, Inc", "City Water"].sort()
+    );
+  });
+
+  it("finds canonical vendors by a merged spelling", () => {
+    expect(findAliasedVendors(aliases, "sons llc")).toEqual(["Smith and Sons"]);
+    expect(findAliasedVendors(aliases, "acme")).toEqual(["Acme Inc."]);
+    expect(findAliasedVendors(aliases, "  ")).toEqual([]);
+  });
+});
+
+describe("clusterVendorSuggestions", () => {
+  it("joins linked pairs and keeps the most-used spelling", () => {
+    const clusters = clusterVendorSuggestions([
+      suggestion("ACME INC", "Acme Inc.", 1, 4, 20),
+      suggestion("Acme Inc.", "Acme, Inc", 0.7, 20, 2),
+      suggestion("City Water", "City Waters", 0.65, 3, 1),
+    ]);
+
+    expect(clusters).toHaveLength(2);
+    expect(clusters[0].canonical).toBe("Acme Inc.");
+    expect(clusters[0].score).toBe(1);
+    expect(clusters[0].members.map((m) => m.name)).toEqual([
+      "Acme Inc.",
+      "ACME INC",
+      "Acme, Inc",
+    ]);
+    expect(clusters[1].members.map((m) => m.name)).toEqual([
+      "City Water",
+      "City Waters",
+    ]);
+  });
+});
+
+describe("rejectionPairs", () => {
+  it("returns every pair once, lowercased and trimmed", () => {
+    expect(rejectionPairs(["Beta ", "alpha", "GAMMA", "Alpha"])).toEqual([
+      { vendor_a: "alpha", vendor_b: "beta" },
+      { vendor_a: "alpha", vendor_b: "gamma" },
+      { vendor_a: "beta", vendor_b: "gamma" },
+    ]);
+  });
+});
@@ -0,0 +1,63 @@
+import { buildMonthlyTimeline, summarizeVendorPayers } from "@/lib/vendorHistory";
+import type { TransactionRow } from "@/lib/schema";
+
+function tx(
+  date: string,
+  amount: number,
+  department_name: string | null = "Public Works",
+  account_name: string | null = "Supplies"
+): TransactionRow {
+  return {
+    date,
+    fiscal_year: Number(date.slice(0, 4)),
+    fund_code: null,
+    fund_name: null,
+    department_code: null,
+    department_name,
+    account_code: null,
+    account_name,
+    vendor: "Acme Paving",
+    description: null,
+    amount,
+  };
+}
+
+describe("buildMonthlyTimeline", () => {
+  it("totals payments by month and fills empty months", () => {
+    expect(
+      buildMonthlyTimeline([
+        tx("2024-01-15", 100),
+        tx("2023-11-02", 50),
+        tx("2024-01-31", 25),
+      ])
+    ).toEqual([
+      { month: "2023-11", total: 50, count: 1 },
+      { month: "2023-12", total: 0, count: 0 },
+      { month: "2024-01", total: 125, count: 2 },
+    ]);
+  });
+
+  it("skips rows without a usable date", () => {
+    expect(buildMonthlyTimeline([tx("", 10)])).toEqual([]);
+  });
+});
+
+describe("summarizeVendorPayers", () => {
+  it("ranks departments by amount with their share", () => {
+    const payers = summarizeVendorPayers(
+      [
+        tx("2024-01-01", 300, "Parks"),
+        tx("2024-02-01", 100, "Public Works"),
+        tx("2024-03-01", 600, "Public Works"),
+        tx("2024-04-01", 0, " "),
+      ],
+      "department_name"
+    );
+
+    expect(payers).toEqual([
+      { name: "Public Works", total: 700, count: 2, percent: 70 },
+      { name: "Parks", total: 300, count: 1, percent: 30 },
+      { name: "Unspecified", total: 0, count: 1, percent: 0 },
+    ]);
+  });
+});
@@ -0,0 +1,91 @@
+import {
+  buildYearComparison,
+  compareParam,
+  compoundAnnualGrowth,
+  largestMovers,
+  parseCompareYears,
+  pickComparisonMeasure,
+} from "@/lib/yearComparison";
+
+type Row = { name: string; amount: number };
+
+describe("parseCompareYears", () => {
+  const available = [2021, 2022, 2023, 2024, 2025, 2026];
+
+  it("keeps known years, oldest first", () => {
+    expect(parseCompareYears("2025, 2023,2025,1999,abc", available)).toEqual([2023, 2025]);
+    expect(parseCompareYears(["2024", "2022"], available)).toEqual([2022, 2024]);
+  });
+
+  it("needs at least two years and keeps the newest five", () => {
+    expect(parseCompareYears("2025", available)).toEqual([]);
+    expect(parseCompareYears(undefined, available)).toEqual([]);
+    expect(parseCompareYears(available.join(","), available)).toEqual([2022, 2023, 2024, 2025, 2026]);
+  });
+});
+
+describe("compoundAnnualGrowth", () => {
+  it("compounds growth over the years between", () => {
+    expect(compoundAnnualGrowth(100, 121, 2)).toBeCloseTo(10);
+    expect(compoundAnnualGrowth(0, 100, 2)).toBeNull();
+    expect(compoundAnnualGrowth(100, -5, 2)).toBeNull();
+  });
+});
+
+describe("buildYearComparison", () => {
+  it("lines up each name across years and totals them", () => {
+    const rows: Row[][] = [
+      [
+        { name: "Police", amount: 100 },
+        { name: "Police", amount: 100 },
+        { name: "Parks", amount: 50 },
+      ],
+      [
+        { name: "Police", amount: 242 },
+        { name: "Library", amount: 30 },
+      ],
+    ];
+
+    const comparison = buildYearComparison([2023, 2025], rows, (r) => r.name, (r) => r.amount);
+
+    expect(comparison.rows.map((r) => r.name)).toEqual(["Parks", "Police", "Library"]);
+    expect(comparison.rows[1]).toMatchObject({ values: [200, 242], change: 42, changePercent: 21 });
+    expect(comparison.rows[1].cagr).toBeCloseTo(10);
+    expect(comparison.rows[2]).toMatchObject({ values: [0, 30], changePercent: null, cagr: null });
+    expect(comparison.total).toMatchObject({ name: "Total", values: [250, 272], change: 22 });
+  });
+});
+
+describe("largestMovers", () => {
+  it("splits increases from decreases, biggest first", () => {
+    const comparison = buildYearComparison(
+      [2024, 2025],
+      [
+        [
+          { name: "A", amount: 10 },
+          { name: "B", amount: 10 },
+          { name: "C", amount: 10 },
+        ],
+        [
+          { name: "A", amount: 15 },
+          { name: "B", amount: 40 },
+          { name: "C", amount: 2 },
+        ],
+      ] as Row[][],
+      (r) => r.name,
+      (r) => r.amount
+    );
+
+    const movers = largestMovers(comparison.rows, 1);
+    expect(movers.increases.map((r) => r.name)).toEqual(["B"]);
+    expect(movers.decreases.map((r) => r.name)).toEqual(["C"]);
+  });
+});
+
+describe("URL helpers", () => {
+  it("round-trips the compare and measure params", () => {
+    expect(compareParam([2025, 2023, 2025])).toBe("2023,2025");
+    expect(pickComparisonMeasure("actuals", "budget")).toBe("actuals");
+    expect(pickComparisonMeasure("bogus", "budget")).toBe("budget");
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * @jest-environment node
+ */
+import { readFileSync } from "fs";
+import path from "path";
+import { PGlite } from "@electric-sql/pglite";
+import { masterDataNameKey } from "@/lib/masterData";
+
+// The database's master_data_name_key() and lib/masterData's
+// masterDataNameKey must key the same names alike, or uploads and rollups
+// resolve a department differently.
+const SOURCES = ["migrations/009_master_data.sql", "database/schema.sql"];
+
+function sqlFunction(file: string, name: string): string {
+  const sql = readFileSync(path.join(__dirname, "../..", file), "utf8");
+  const match = new RegExp(
+    `CREATE OR REPLACE FUNCTION public\\.${name}\\([\\s\\S]*?\\n\\$\\$;`
+  ).exec(sql);
+  if (!match) throw new Error(`${name} not found in ${file}`);
+  return match[0];
+}
+
+const NAMES = [
+  "Public Works",
+  "  PUBLIC   WORKS ",
+  "Public\tWorks\nDept",
+  "Parks &amp; Recreation",
+  "PARKS & RECREATION",
+  "Water &lt;Enterprise&gt;",
+  "Fund &amp;lt; 100",
+  "",
+];
+
+describe.each(SOURCES)("master data name key in %s", (file) => {
+  let db: PGlite;
+
+  beforeAll(async () => {
+    db = new PGlite();
+    await db.exec(sqlFunction(file, "master_data_name_key"));
+    await db.exec(`
+      CREATE TABLE public.departments (code TEXT PRIMARY KEY, name TEXT NOT NULL);
+      INSERT INTO public.departments VALUES ('100', 'Parks & Recreation');
+    `);
+    await db.exec(sqlFunction(file, "resolve_department_name"));
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  it.each(NAMES)("keys %j the same as masterDataNameKey", async (name) => {
+    const { rows } = await db.query<{ key: string }>(
+      "SELECT public.master_data_name_key($1) AS key",
+      [name]
+    );
+    expect(rows[0].key).toBe(masterDataNameKey(name));
+  });
+
+  it("resolves an escaped, differently spaced name to the registered one", async () => {
+    const { rows } = await db.query<{ name: string }>(
+      "SELECT public.resolve_department_name(NULL, $1) AS name",
+      ["  PARKS  &amp; recreation"]
+    );
+    expect(rows[0].name).toBe("Parks & Recreation");
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * @jest-environment node
+ */
+import { readFileSync } from "fs";
+import path from "path";
+import { PGlite } from "@electric-sql/pglite";
+
+// rollback_upload's refusals carry the SQLSTATE the rollback route maps to
+// a status: 55000 (conflict, 409) or P0002 (nothing to restore, 404).
+const SOURCES = ["migrations/004_upload_rollback.sql", "database/schema.sql"];
+
+function rollbackFunction(file: string): string {
+  const sql = readFileSync(path.join(__dirname, "../..", file), "utf8");
+  const match = /CREATE OR REPLACE FUNCTION public\.rollback_upload[\s\S]*?\n\$\$;/.exec(sql);
+  if (!match) throw new Error(`rollback_upload not found in ${file}`);
+  return match[0];
+}
+
+const FIXTURE = `
+  CREATE TABLE public.upload_jobs (
+    id BIGSERIAL PRIMARY KEY,
+    table_name TEXT NOT NULL,
+    mode TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'done',
+    replace_year INTEGER,
+    years_in_data INTEGER[],
+    snapshot_discarded_at TIMESTAMPTZ
+  );
+  CREATE TABLE public.data_uploads (
+    id BIGSERIAL PRIMARY KEY,
+    table_name TEXT NOT NULL,
+    mode TEXT NOT NULL,
+    job_id BIGINT,
+    rolled_back_at TIMESTAMPTZ,
+    rolled_back_by TEXT
+  );
+`;
+
+let db: PGlite;
+
+beforeAll(async () => {
+  db = new PGlite();
+  await db.exec(FIXTURE);
+});
+
+afterAll(async () => {
+  await db.close();
+});
+
+// Records a finished replace_year upload of FY 2024 budgets; returns its id
+async function replaceYearUpload(
+  patch: { rolledBack?: boolean; snapshotDiscarded?: boolean } = {}
+): Promise<number> {
+  const job = await db.query<{ id: number }>(
+    `INSERT INTO public.upload_jobs (table_name, mode, replace_year, years_in_data, snapshot_discarded_at)
+     VALUES ('budgets', 'replace_year', 2024, ARRAY[2024], $1)
+     RETURNING id`,
+    [patch.snapshotDiscarded ? new Date() : null]
+  );
+  const upload = await db.query<{ id: number }>(
+    `INSERT INTO public.data_uploads (table_name, mode, job_id, rolled_back_at)
+     VALUES ('budgets', 'replace_year', $1, $2)
+     RETURNING id`,
+    [job.rows[0].id, patch.rolledBack ? new Date() : null]
+  );
+  return upload.rows[0].id;
+}
+
+async function rollbackErrorCode(uploadId: number): Promise<string | undefined> {
+  await db.exec("SAVEPOINT rollback");
+  try {
+    await db.query("SELECT public.rollback_upload($1, 'admin@example.gov')", [uploadId]);
+    return undefined;
+  } catch (err: unknown) {
+    return (err as { code?: string }).code;
+  } finally {
+    await db.exec("ROLLBACK TO SAVEPOINT rollback");
+  }
+}
+
+describe.each(SOURCES)("rollback_upload refusals in %s", (file) => {
+  beforeAll(async () => {
+    await db.exec(rollbackFunction(file));
+  });
+
+  beforeEach(async () => {
+    await db.exec("BEGIN");
+  });
+
+  afterEach(async () => {
+    await db.exec("ROLLBACK");
+  });
+
+  it("reports an upload that was already rolled back as a conflict", async () => {
+    const id = await replaceYearUpload({ rolledBack: true });
+    expect(await rollbackErrorCode(id)).toBe("55000");
+  });
+
+  it("reports a later upload of the same year as a conflict", async () => {
+    const id = await replaceYearUpload();
+    await replaceYearUpload();
+    expect(await rollbackErrorCode(id)).toBe("55000");
+  });
+
+  it("reports a missing upload or discarded snapshot as nothing to restore", async () => {
+    expect(await rollbackErrorCode(999_999)).toBe("P0002");
+    const id = await replaceYearUpload({ snapshotDiscarded: true });
+    expect(await rollbackErrorCode(id)).toBe("P0002");
+  });
+});
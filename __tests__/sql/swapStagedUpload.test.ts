@@ -0,0 +1,152 @@
+/**
+ * @jest-environment node
+ */
+import { readFileSync } from "fs";
+import path from "path";
+import { PGlite } from "@electric-sql/pglite";
+
+// swap_staged_upload as each file defines it, run against just the tables
+// it touches. The migrations and schema.sql must all behave the same.
+const SOURCES = [
+  "migrations/003_upload_staging_swap.sql",
+  "migrations/004_upload_rollback.sql",
+  "database/schema.sql",
+];
+
+function swapFunction(file: string): string {
+  const sql = readFileSync(path.join(__dirname, "../..", file), "utf8");
+  const match = /CREATE OR REPLACE FUNCTION public\.swap_staged_upload[\s\S]*?\n\$\$;/.exec(sql);
+  if (!match) throw new Error(`swap_staged_upload not found in ${file}`);
+  return match[0];
+}
+
+const FIXTURE = `
+  CREATE TABLE public.upload_jobs (
+    id BIGSERIAL PRIMARY KEY,
+    table_name TEXT NOT NULL,
+    mode TEXT NOT NULL,
+    replace_year INTEGER,
+    total_rows INTEGER,
+    total_amount NUMERIC,
+    staged_columns TEXT[],
+    swapped_at TIMESTAMPTZ,
+    snapshot_discarded_at TIMESTAMPTZ,
+    updated_at TIMESTAMPTZ
+  );
+  CREATE TABLE public.budgets (
+    id BIGSERIAL PRIMARY KEY,
+    fiscal_year INTEGER NOT NULL,
+    department_name TEXT NOT NULL,
+    amount NUMERIC NOT NULL,
+    upload_job_id BIGINT
+  );
+  CREATE TABLE public.upload_staging_budgets (LIKE public.budgets INCLUDING DEFAULTS);
+  CREATE TABLE public.upload_snapshot_rows (
+    job_id BIGINT,
+    table_name TEXT,
+    fiscal_year INTEGER,
+    row_data JSONB
+  );
+  CREATE TABLE public.rollup_refreshes (fiscal_year INTEGER);
+  CREATE FUNCTION public.refresh_budget_actuals_rollup_for_year(p_year INTEGER)
+  RETURNS VOID LANGUAGE sql AS 'INSERT INTO public.rollup_refreshes VALUES (p_year)';
+`;
+
+const LIVE_ROWS = `
+  INSERT INTO public.budgets (fiscal_year, department_name, amount) VALUES
+    (2023, 'Parks', 100),
+    (2024, 'Parks', 200),
+    (2024, 'Police', 300);
+`;
+
+// One database for the file; each test runs in a transaction that is
+// rolled back afterwards
+let db: PGlite;
+
+beforeAll(async () => {
+  db = new PGlite();
+  await db.exec(FIXTURE);
+});
+
+afterAll(async () => {
+  await db.close();
+});
+
+// Stages `rows` for a replace_year job on FY 2024 and returns its id
+async function stageReplaceYear(rows: [number, string, number][]): Promise<number> {
+  const total = rows.reduce((sum, [, , amount]) => sum + amount, 0);
+  const job = await db.query<{ id: number }>(
+    `INSERT INTO public.upload_jobs (table_name, mode, replace_year, total_rows, total_amount, staged_columns)
+     VALUES ('budgets', 'replace_year', 2024, $1, $2, ARRAY['fiscal_year', 'department_name', 'amount'])
+     RETURNING id`,
+    [rows.length, total]
+  );
+  const id = job.rows[0].id;
+  for (const [year, department, amount] of rows) {
+    await db.query(
+      `INSERT INTO public.upload_staging_budgets (fiscal_year, department_name, amount, upload_job_id)
+       VALUES ($1, $2, $3, $4)`,
+      [year, department, amount, id]
+    );
+  }
+  return id;
+}
+
+describe.each(SOURCES)("swap_staged_upload in %s", (file) => {
+  beforeAll(async () => {
+    await db.exec(swapFunction(file));
+  });
+
+  beforeEach(async () => {
+    await db.exec("BEGIN");
+    await db.exec(LIVE_ROWS);
+  });
+
+  afterEach(async () => {
+    await db.exec("ROLLBACK");
+  });
+
+  it("replaces one fiscal year with the staged rows", async () => {
+    const jobId = await stageReplaceYear([
+      [2024, "Parks", 250],
+      [2024, "Fire", 50],
+    ]);
+
+    const swapped = await db.query<{ n: number }>(
+      "SELECT public.swap_staged_upload($1) AS n",
+      [jobId]
+    );
+    expect(swapped.rows[0].n).toBe(2);
+
+    const live = await db.query<{ fiscal_year: number; department_name: string; amount: string }>(
+      "SELECT fiscal_year, department_name, amount::text FROM public.budgets ORDER BY fiscal_year, department_name"
+    );
+    expect(live.rows).toEqual([
+      { fiscal_year: 2023, department_name: "Parks", amount: "100" },
+      { fiscal_year: 2024, department_name: "Fire", amount: "50" },
+      { fiscal_year: 2024, department_name: "Parks", amount: "250" },
+    ]);
+
+    const refreshed = await db.query("SELECT fiscal_year FROM public.rollup_refreshes");
+    expect(refreshed.rows).toEqual([{ fiscal_year: 2024 }]);
+
+    const staged = await db.query("SELECT 1 FROM public.upload_staging_budgets");
+    expect(staged.rows).toHaveLength(0);
+  });
+
+  it("refuses staged rows from another fiscal year", async () => {
+    const jobId = await stageReplaceYear([
+      [2024, "Parks", 250],
+      [2023, "Fire", 50],
+    ]);
+
+    await db.exec("SAVEPOINT swap");
+    await expect(db.query("SELECT public.swap_staged_upload($1)", [jobId])).rejects.toThrow(
+      "staged rows include fiscal year 2023 outside FY 2024"
+    );
+    await db.exec("ROLLBACK TO SAVEPOINT swap");
+
+    const live = await db.query("SELECT 1 FROM public.budgets");
+    expect(live.rows).toHaveLength(3);
+  });
+});
@@ -0,0 +1,19 @@
+// app/[citySlug]/admin/api-keys/page.tsx
+"use client";
+
+import AdminGuard from "@/components/Auth/AdminGuard";
+import AdminShell from "@/components/Admin/AdminShell";
+import ApiKeysManager from "@/components/Admin/ApiKeysManager";
+
+export default function ApiKeysPage() {
+  return (
+    <AdminGuard>
+      <AdminShell
+        title="API keys"
+        description="Issue keys to partners who pull data from the public API or the Download Center on a schedule. Each key has its own daily quota, so heavy use by one partner doesn't count against visitors, and you can see how much each key is used or revoke it at any time."
+      >
+        <ApiKeysManager />
+      </AdminShell>
+    </AdminGuard>
+  );
+}
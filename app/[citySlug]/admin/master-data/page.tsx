@@ -0,0 +1,164 @@
+// app/[citySlug]/admin/master-data/page.tsx
+"use client";
+
+import { useState } from "react";
+import AdminGuard from "@/components/Auth/AdminGuard";
+import AdminShell from "@/components/Admin/AdminShell";
+import MasterDataEditor from "@/components/Admin/MasterDataEditor";
+import DepartmentAliasEditor from "@/components/Admin/DepartmentAliasEditor";
+import { supabase } from "@/lib/supabase";
+import { csrfFetch } from "@/components/CsrfProvider";
+import {
+  MASTER_DATA_KINDS,
+  MASTER_DATA_LABELS,
+  type MasterDataKind,
+} from "@/lib/masterData";
+
+type Tab = MasterDataKind | "aliases";
+
+const TAB_LABELS: Record<Tab, string> = {
+  ...MASTER_DATA_LABELS,
+  aliases: "Renames & mergers",
+};
+
+const TABS: Tab[] = [...MASTER_DATA_KINDS, "aliases"];
+
+export default function MasterDataPage() {
+  const [tab, setTab] = useState<Tab>("departments");
+  const [changed, setChanged] = useState(false);
+  const [applying, setApplying] = useState(false);
+  const [notice, setNotice] = useState<{ text: string; isError: boolean } | null>(
+    null
+  );
+
+  function handleChanged() {
+    setChanged(true);
+    setNotice(null);
+  }
+
+  async function handleApply() {
+    const ok = window.confirm(
+      "Update fund, department and account names on all loaded rows to the registered names and refresh the portal summaries, including department renames and mergers? This can take a few minutes for large datasets."
+    );
+    if (!ok) return;
+
+    setApplying(true);
+    setNotice(null);
+    try {
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
+
+      if (!session?.access_token) {
+        setNotice({
+          text: "You must be signed in as an admin. Please log in again.",
+          isError: true,
+        });
+        return;
+      }
+
+      const resp = await csrfFetch("/api/admin/master-data/apply", {
+        method: "POST",
+        headers: { Authorization: `Bearer ${session.access_token}` },
+      });
+      const json = await resp.json().catch(() => null);
+
+      if (!resp.ok) {
+        setNotice({
+          text: json?.error || "Failed to apply names. Please try again.",
+          isError: true,
+        });
+        return;
+      }
+
+      setChanged(false);
+      setNotice({ text: json?.message ?? "Names applied.", isError: false });
+    } catch (err: unknown) {
+      console.error("Apply master data error", err);
+      setNotice({
+        text: err instanceof Error ? err.message : "Failed to apply names.",
+        isError: true,
+      });
+    } finally {
+      setApplying(false);
+    }
+  }
+
+  return (
+    <AdminGuard>
+      <AdminShell
+        title="Funds & departments"
+        description="Register the codes from your chart of accounts with the names the portal should show. Uploads use these names in place of whatever the file spells, so one department never appears twice."
+      >
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div
+              role="tablist"
+              aria-label="Registry"
+              className="inline-flex rounded-md border border-slate-200 bg-white p-0.5"
+            >
+              {TABS.map((t) => (
+                <button
+                  key={t}
+                  type="button"
+                  role="tab"
+                  aria-selected={tab === t}
+                  onClick={() => setTab(t)}
+                  className={
+                    "rounded px-3 py-1.5 text-sm font-medium focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-slate-900 " +
+                    (tab === t
+                      ? "bg-slate-900 text-white"
+                      : "text-slate-700 hover:bg-slate-50")
+                  }
+                >
+                  {TAB_LABELS[t]}
+                </button>
+              ))}
+            </div>
+
+            <button
+              type="button"
+              onClick={handleApply}
+              disabled={applying}
+              className={
+                "rounded-md px-3 py-2 text-sm font-medium disabled:opacity-50 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-slate-900 focus-visible:ring-offset-2 " +
+                (changed
+                  ? "bg-amber-600 text-white hover:bg-amber-500"
+                  : "border border-slate-300 text-slate-700 hover:bg-slate-50")
+              }
+            >
+              {applying ? "Applying..." : "Apply to loaded data"}
+            </button>
+          </div>
+
+          {changed && !notice && (
+            <p className="text-xs text-amber-800">
+              {tab === "aliases"
+                ? "Renames changed. Apply them to refresh the portal summaries; department pages, search and exports already use them."
+                : "The registry changed. New uploads use it right away; apply it to update rows that are already loaded."}
+            </p>
+          )}
+
+          {notice && (
+            <div
+              role={notice.isError ? "alert" : "status"}
+              className={
+                notice.isError
+                  ? "rounded-2xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700"
+                  : "rounded-2xl border border-emerald-200 bg-emerald-50 px-4 py-3 text-sm text-emerald-800"
+              }
+            >
+              {notice.text}
+            </div>
+          )}
+
+          {tab === "aliases" ? (
+            <DepartmentAliasEditor onChanged={handleChanged} />
+          ) : (
+            <MasterDataEditor key={tab} kind={tab} onChanged={handleChanged} />
+          )}
+        </div>
+      </AdminShell>
+    </AdminGuard>
+  );
+}
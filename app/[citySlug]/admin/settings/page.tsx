@@ -4,15 +4,23 @@
 import AdminGuard from "@/components/Auth/AdminGuard";
 import BrandingSettingsClient from "@/components/Admin/BrandingSettingsClient";
 import AdminShell from "@/components/Admin/AdminShell";
+import InsightRulesEditor from "@/components/Admin/InsightRulesEditor";
+import CpiIndexEditor from "@/components/Admin/CpiIndexEditor";
+import PopulationEditor from "@/components/Admin/PopulationEditor";
 
 export default function BrandingSettingsPage() {
   return (
     <AdminGuard>
       <AdminShell
         title="Branding & settings"
-        description="Control how your CiviPortal looks: logo, colors, hero image, and key messaging."
+        description="Control how your CiviPortal looks: logo, colors, hero image, key messaging, the insights shown on the overview, the price index behind constant-dollar views, and the population behind per-resident views."
       >
-        <BrandingSettingsClient />
+        <div className="space-y-6">
+          <BrandingSettingsClient />
+          <InsightRulesEditor />
+          <CpiIndexEditor />
+          <PopulationEditor />
+        </div>
       </AdminShell>
     </AdminGuard>
   );
@@ -1,8 +1,10 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import AdminGuard from "@/components/Auth/AdminGuard";
 import AdminShell from "@/components/Admin/AdminShell";
+import UploadJobsPanel from "@/components/Admin/UploadJobsPanel";
+import RollbackUploadButton from "@/components/Admin/RollbackUploadButton";
 import {
   getDataUploadLogs,
   type DataUploadLogRow,
@@ -61,6 +63,25 @@ export default function UploadHistoryPage() {
   const [logs, setLogs] = useState<DataUploadLogRow[] | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<{ text: string; isError: boolean } | null>(
+    null
+  );
+  // Bumped when a running upload job finishes or an upload is rolled back
+  // so the log picks it up
+  const [reloadKey, setReloadKey] = useState(0);
+
+  const handleJobFinished = useCallback(() => {
+    setReloadKey((k) => k + 1);
+  }, []);
+
+  const handleRolledBack = useCallback((message: string) => {
+    setNotice({ text: message, isError: false });
+    setReloadKey((k) => k + 1);
+  }, []);
+
+  const handleRollbackError = useCallback((message: string) => {
+    setNotice({ text: message, isError: true });
+  }, []);
 
   useEffect(() => {
     let cancelled = false;
@@ -90,7 +111,7 @@ export default function UploadHistoryPage() {
     return () => {
       cancelled = true;
     };
-  }, []);
+  }, [reloadKey]);
 
   const summary: SummaryEntry[] = useMemo(() => {
     const baseTables = ["budgets", "actuals", "transactions", "revenues"];
@@ -107,6 +128,7 @@ export default function UploadHistoryPage() {
 
     for (const log of logs) {
       if (!baseTables.includes(log.table_name)) continue;
+      if (log.rolled_back_at) continue;
       if (!byTable.has(log.table_name)) {
         byTable.set(log.table_name, log); // logs are already newest-first
       }
@@ -126,6 +148,9 @@ export default function UploadHistoryPage() {
         description="Review previous data imports and their status. This log helps you understand which datasets are currently active in the portal."
       >
         <div className="space-y-6">
+          {/* Live upload jobs */}
+          <UploadJobsPanel onJobFinished={handleJobFinished} />
+
           {/* Current dataset summary */}
           <section
             aria-label="Current dataset summary"
@@ -201,6 +226,24 @@ export default function UploadHistoryPage() {
             <h2 className="text-sm font-semibold text-slate-900">
               Upload log
             </h2>
+            <p className="text-xs text-slate-600">
+              Rolling back an upload removes the rows it added, or restores
+              the rows it replaced. If a later upload changed the same data,
+              roll that one back first.
+            </p>
+
+            {notice && (
+              <div
+                role={notice.isError ? "alert" : "status"}
+                className={
+                  notice.isError
+                    ? "rounded-2xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700"
+                    : "rounded-2xl border border-emerald-200 bg-emerald-50 px-4 py-3 text-sm text-emerald-800"
+                }
+              >
+                {notice.text}
+              </div>
+            )}
 
             {loading && (
               <div className="rounded-2xl border border-slate-200 bg-slate-50 px-4 py-3 text-sm text-slate-600">
@@ -248,6 +291,9 @@ export default function UploadHistoryPage() {
                       <th className="px-2 py-2 text-left font-semibold">
                         File name
                       </th>
+                      <th className="px-2 py-2 text-left font-semibold">
+                        <span className="sr-only">Actions</span>
+                      </th>
                     </tr>
                   </thead>
                   <tbody className="align-top text-[11px] text-slate-700">
@@ -282,6 +328,22 @@ export default function UploadHistoryPage() {
                           <td className="px-2 py-1 align-top text-slate-700">
                             {log.filename ?? "—"}
                           </td>
+                          <td className="px-2 py-1 align-top text-slate-700">
+                            {log.rolled_back_at ? (
+                              <span className="text-slate-500">
+                                Rolled back {formatDateShort(log.rolled_back_at)}
+                                {log.rolled_back_by
+                                  ? ` by ${log.rolled_back_by}`
+                                  : ""}
+                              </span>
+                            ) : log.job_id != null ? (
+                              <RollbackUploadButton
+                                upload={log}
+                                onRolledBack={handleRolledBack}
+                                onError={handleRollbackError}
+                              />
+                            ) : null}
+                          </td>
                         </tr>
                       );
                     })}
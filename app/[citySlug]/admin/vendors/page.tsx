@@ -0,0 +1,19 @@
+// app/[citySlug]/admin/vendors/page.tsx
+"use client";
+
+import AdminGuard from "@/components/Auth/AdminGuard";
+import AdminShell from "@/components/Admin/AdminShell";
+import VendorMergeQueue from "@/components/Admin/VendorMergeQueue";
+
+export default function VendorNamesPage() {
+  return (
+    <AdminGuard>
+      <AdminShell
+        title="Vendor names"
+        description="Review vendor names that look like the same payee and merge them under one name. Vendor pages, search, exports and the portal summaries report merged spellings together; the uploaded rows keep their original spelling."
+      >
+        <VendorMergeQueue />
+      </AdminShell>
+    </AdminGuard>
+  );
+}
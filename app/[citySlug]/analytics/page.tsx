@@ -9,13 +9,15 @@ import {
   getBudgetActualsYearTotals,
   getRevenuesForYear,
   getVendorSummariesForYear,
+  getDeflator,
 } from "@/lib/queries";
 import type { RevenueRow } from "@/lib/types";
 import type { VendorYearSummary, BudgetActualsYearDeptRow } from "@/lib/queries";
 import { getFiscalYearLabel } from "@/lib/fiscalYear";
+import { deflateRows, pickDollars } from "@/lib/inflation";
 import { notFound } from "next/navigation";
 
-type SearchParamsShape = { year?: string };
+type SearchParamsShape = { year?: string; dollars?: string };
 
 export default async function AnalyticsPage({
   searchParams,
@@ -38,12 +40,27 @@ export default async function AnalyticsPage({
 
   const fiscalYearNote = getFiscalYearLabel(portalSettings);
 
-  const [years, yoyTotals, deptAllYears] = await Promise.all([
+  const [years, nominalYoyTotals, nominalDeptAllYears] = await Promise.all([
     getPortalFiscalYears(),
     getBudgetActualsYearTotals(),
     getBudgetActualsSummaryAllYears(),
   ]);
 
+  // Multi-year views in constant dollars when ?dollars=real
+  const deflator = await getDeflator(pickDollars(sp?.dollars), years);
+  const yoyTotals = deflateRows(
+    nominalYoyTotals,
+    (r) => r.year,
+    ["Budget", "Actuals", "Variance"],
+    deflator
+  );
+  const deptAllYears = deflateRows(
+    nominalDeptAllYears,
+    (r) => Number(r.fiscal_year),
+    ["budget_amount", "actual_amount"],
+    deflator
+  );
+
   const paramYear = sp?.year;
   const parsedYear = paramYear ? Number(paramYear) : NaN;
 
@@ -88,6 +105,7 @@ export default async function AnalyticsPage({
       enableRevenues={enableRevenues}
       revenueSummary={revenueSummary}
       fiscalYearNote={fiscalYearNote}
+      deflator={deflator}
     />
   );
 }
@@ -1,5 +1,6 @@
 // app/[citySlug]/budget/page.tsx
 import BudgetClient from "@/components/Budget/BudgetClient";
+import YearComparisonClient from "@/components/City/YearComparisonClient";
 import UnpublishedMessage from "@/components/City/UnpublishedMessage";
 import DataFreshness from "@/components/DataFreshness";
 import {
@@ -7,13 +8,31 @@ import {
   getBudgetActualsSummaryForYear,
   getPortalSettings,
   getDataUploadLogs,
+  getFundNames,
+  getFundBudgetActuals,
+  getDeflator,
+  getPopulation,
 } from "@/lib/queries";
+import { pickFund } from "@/lib/funds";
+import {
+  buildYearComparison,
+  COMPARISON_MEASURES,
+  parseCompareYears,
+  pickComparisonMeasure,
+} from "@/lib/yearComparison";
+import { deflateRows, pickDollars } from "@/lib/inflation";
+import { perCapitaRows, pickPerCapita } from "@/lib/perCapita";
 import type { PortalSettings, BudgetActualsYearDeptRow, DataUploadLogRow } from "@/lib/queries";
 
 export const revalidate = 60;
 
 type SearchParamsShape = {
   year?: string | string[];
+  fund?: string | string[];
+  compare?: string | string[];
+  measure?: string | string[];
+  dollars?: string | string[];
+  per?: string | string[];
 };
 
 type PageProps = {
@@ -30,10 +49,11 @@ function pickFirst(value: string | string[] | undefined): string | undefined {
 export default async function BudgetPage({ searchParams }: PageProps) {
   const sp = await searchParams;
 
-  const [yearsRaw, settings, uploadLogsRaw] = await Promise.all([
+  const [yearsRaw, settings, uploadLogsRaw, funds] = await Promise.all([
     getPortalFiscalYears(),
     getPortalSettings(),
     getDataUploadLogs(),
+    getFundNames(),
   ]);
 
   const portalSettings = settings as PortalSettings | null;
@@ -65,17 +85,91 @@ export default async function BudgetPage({ searchParams }: PageProps) {
 
   let deptBudgetActuals: BudgetActualsYearDeptRow[] = [];
 
+  const fundName = pickFund(sp?.fund, funds);
+
+  // Compare mode (?compare=2024,2025) replaces the single-year view
+  const compareYears = parseCompareYears(sp?.compare, years);
+  if (compareYears.length > 0) {
+    const measureOptions =
+      portalSettings?.enable_actuals === false
+        ? COMPARISON_MEASURES.filter((m) => m.value === "budget")
+        : COMPARISON_MEASURES;
+    const measure =
+      measureOptions.length > 1 ? pickComparisonMeasure(sp?.measure, "budget") : "budget";
+
+    const [nominalRowsByYear, deflator, population] = await Promise.all([
+      Promise.all(
+        compareYears.map((year) =>
+          fundName
+            ? getFundBudgetActuals({ fiscalYear: year, fundName })
+            : getBudgetActualsSummaryForYear(year)
+        )
+      ) as Promise<BudgetActualsYearDeptRow[][]>,
+      getDeflator(pickDollars(sp?.dollars), compareYears),
+      getPopulation(compareYears, portalSettings?.stat_population),
+    ]);
+    const basis = pickPerCapita(sp?.per);
+    const rowsByYear = nominalRowsByYear.map((rows, i) =>
+      perCapitaRows(
+        deflateRows(rows ?? [], () => compareYears[i], ["budget_amount", "actual_amount"], deflator),
+        () => compareYears[i],
+        ["budget_amount", "actual_amount"],
+        population,
+        basis
+      )
+    );
+
+    const comparison = buildYearComparison(
+      compareYears,
+      rowsByYear,
+      (r) => r.department_name || "Unspecified",
+      (r) => Number(measure === "budget" ? r.budget_amount : r.actual_amount)
+    );
+
+    return (
+      <>
+        <div className="mb-3 flex items-center justify-end">
+          <DataFreshness lastUploadAt={lastUploadAt} />
+        </div>
+        <YearComparisonClient
+          eyebrow="Budget overview"
+          title="Compare fiscal years"
+          description={`${measure === "budget" ? "Adopted budgets" : "Actual spending"} by department across the selected fiscal years, with the change between the first and last year.`}
+          years={years}
+          comparison={comparison}
+          entityLabel="Department"
+          measure={measure}
+          measureOptions={measureOptions}
+          linkDepartments
+          deflator={deflator}
+          population={population}
+        />
+      </>
+    );
+  }
+
   if (selectedYear != null) {
-    const rows = await getBudgetActualsSummaryForYear(selectedYear);
+    const rows = fundName
+      ? await getFundBudgetActuals({ fiscalYear: selectedYear, fundName })
+      : await getBudgetActualsSummaryForYear(selectedYear);
     deptBudgetActuals = (rows ?? []) as BudgetActualsYearDeptRow[];
   }
 
+  const population = await getPopulation(
+    selectedYear != null ? [selectedYear] : [],
+    portalSettings?.stat_population
+  );
+
   return (
     <>
       <div className="mb-3 flex items-center justify-end">
         <DataFreshness lastUploadAt={lastUploadAt} />
       </div>
-      <BudgetClient years={years} deptBudgetActuals={deptBudgetActuals} />
+      <BudgetClient
+        years={years}
+        deptBudgetActuals={deptBudgetActuals}
+        population={population}
+      />
     </>
   );
 }
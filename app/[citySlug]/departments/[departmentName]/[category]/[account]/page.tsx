@@ -0,0 +1,115 @@
+// app/[citySlug]/departments/[departmentName]/[category]/[account]/page.tsx
+
+import { notFound } from "next/navigation";
+import UnpublishedMessage from "@/components/City/UnpublishedMessage";
+import AccountDrilldownClient from "@/components/City/AccountDrilldownClient";
+import {
+  getPortalSettings,
+  getBudgetActualsSummaryForDepartment,
+  getDepartmentRowsForYear,
+  getDepartmentLineRowsForYears,
+  getDepartmentAliases,
+} from "@/lib/queries";
+import { filterByAccount, findLineItem } from "@/lib/accountDrilldown";
+import type { PortalSettings } from "@/lib/queries";
+
+export const revalidate = 60;
+
+type SearchParamsShape = {
+  year?: string | string[];
+};
+
+type ParamsShape = {
+  citySlug: string;
+  departmentName: string;
+  category: string;
+  account: string;
+};
+
+type PageProps = {
+  params: ParamsShape | Promise<ParamsShape>;
+  searchParams: SearchParamsShape | Promise<SearchParamsShape>;
+};
+
+function pickFirst(v: string | string[] | undefined): string | undefined {
+  if (typeof v === "string") return v;
+  if (Array.isArray(v) && v.length > 0) return v[0];
+  return undefined;
+}
+
+export default async function DepartmentAccountPage({ params, searchParams }: PageProps) {
+  const [resolvedParams, sp] = await Promise.all([params, searchParams]);
+  const departmentName = decodeURIComponent(resolvedParams.departmentName);
+  const requestedCategory = decodeURIComponent(resolvedParams.category);
+  const requestedAccount = decodeURIComponent(resolvedParams.account);
+
+  const [settingsRaw, aliases, deptSummaryAllYears] = await Promise.all([
+    getPortalSettings(),
+    getDepartmentAliases(),
+    getBudgetActualsSummaryForDepartment(departmentName),
+  ]);
+
+  const settings = settingsRaw as PortalSettings | null;
+
+  if (settings && settings.is_published === false) {
+    return <UnpublishedMessage settings={settings} />;
+  }
+
+  const enableTransactions = settings?.enable_transactions === true;
+  const enableVendors = enableTransactions && settings?.enable_vendors === true;
+
+  const years = Array.from(new Set(deptSummaryAllYears.map((r) => Number(r.fiscal_year))))
+    .filter((y) => Number.isFinite(y))
+    .sort((a, b) => b - a);
+  if (years.length === 0) notFound();
+
+  const yearParam = pickFirst(sp?.year);
+  const parsedYear = yearParam ? Number(yearParam) : NaN;
+  const selectedYear =
+    Number.isFinite(parsedYear) && years.includes(parsedYear) ? parsedYear : years[0];
+
+  const { budgets, actuals, transactions } = await getDepartmentRowsForYear(
+    departmentName,
+    selectedYear,
+    aliases,
+    { includeTransactions: enableTransactions }
+  );
+
+  // As on the category page, a line item missing from the selected year
+  // renders empty; one no year of the department has is a 404.
+  const category = findLineItem(budgets, actuals, requestedCategory);
+  const account = category
+    ? findLineItem(budgets, actuals, category.name, requestedAccount)
+    : null;
+  if (!account) {
+    const otherYears = await getDepartmentLineRowsForYears(
+      departmentName,
+      years.filter((y) => y !== selectedYear),
+      aliases
+    );
+    if (
+      !findLineItem(otherYears.budgets, otherYears.actuals, requestedCategory, requestedAccount)
+    ) {
+      notFound();
+    }
+  }
+
+  return (
+    <AccountDrilldownClient
+      departmentName={departmentName}
+      category={category?.name ?? requestedCategory}
+      account={account?.name ?? requestedAccount}
+      years={years}
+      selectedYear={selectedYear}
+      totals={account}
+      accounts={[]}
+      transactions={
+        account && category
+          ? filterByAccount(transactions, account, category.name, [...budgets, ...actuals])
+          : []
+      }
+      enableTransactions={enableTransactions}
+      enableVendors={enableVendors}
+    />
+  );
+}
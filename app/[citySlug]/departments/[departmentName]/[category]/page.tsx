@@ -0,0 +1,118 @@
+// app/[citySlug]/departments/[departmentName]/[category]/page.tsx
+
+import { notFound } from "next/navigation";
+import UnpublishedMessage from "@/components/City/UnpublishedMessage";
+import AccountDrilldownClient from "@/components/City/AccountDrilldownClient";
+import {
+  getPortalSettings,
+  getBudgetActualsSummaryForDepartment,
+  getDepartmentRowsForYear,
+  getDepartmentLineRowsForYears,
+  getDepartmentAliases,
+} from "@/lib/queries";
+import {
+  filterByCategory,
+  findLineItem,
+  summarizeLineItems,
+} from "@/lib/accountDrilldown";
+import type { PortalSettings } from "@/lib/queries";
+
+export const revalidate = 60;
+
+type SearchParamsShape = {
+  year?: string | string[];
+};
+
+type ParamsShape = {
+  citySlug: string;
+  departmentName: string;
+  category: string;
+};
+
+type PageProps = {
+  params: ParamsShape | Promise<ParamsShape>;
+  searchParams: SearchParamsShape | Promise<SearchParamsShape>;
+};
+
+function pickFirst(v: string | string[] | undefined): string | undefined {
+  if (typeof v === "string") return v;
+  if (Array.isArray(v) && v.length > 0) return v[0];
+  return undefined;
+}
+
+export default async function DepartmentCategoryPage({ params, searchParams }: PageProps) {
+  const [resolvedParams, sp] = await Promise.all([params, searchParams]);
+  const departmentName = decodeURIComponent(resolvedParams.departmentName);
+  const requestedCategory = decodeURIComponent(resolvedParams.category);
+
+  const [settingsRaw, aliases, deptSummaryAllYears] = await Promise.all([
+    getPortalSettings(),
+    getDepartmentAliases(),
+    getBudgetActualsSummaryForDepartment(departmentName),
+  ]);
+
+  const settings = settingsRaw as PortalSettings | null;
+
+  if (settings && settings.is_published === false) {
+    return <UnpublishedMessage settings={settings} />;
+  }
+
+  const enableTransactions = settings?.enable_transactions === true;
+  const enableVendors = enableTransactions && settings?.enable_vendors === true;
+
+  const years = Array.from(new Set(deptSummaryAllYears.map((r) => Number(r.fiscal_year))))
+    .filter((y) => Number.isFinite(y))
+    .sort((a, b) => b - a);
+  if (years.length === 0) notFound();
+
+  const yearParam = pickFirst(sp?.year);
+  const parsedYear = yearParam ? Number(yearParam) : NaN;
+  const selectedYear =
+    Number.isFinite(parsedYear) && years.includes(parsedYear) ? parsedYear : years[0];
+
+  const { budgets, actuals } = await getDepartmentRowsForYear(
+    departmentName,
+    selectedYear,
+    aliases,
+    { includeTransactions: false }
+  );
+
+  // A category missing from the selected year still renders (with an
+  // empty state) so switching years from a shared link doesn't 404; one
+  // no year of the department has is a 404.
+  const category = findLineItem(budgets, actuals, requestedCategory);
+  if (!category) {
+    const otherYears = await getDepartmentLineRowsForYears(
+      departmentName,
+      years.filter((y) => y !== selectedYear),
+      aliases
+    );
+    if (!findLineItem(otherYears.budgets, otherYears.actuals, requestedCategory)) {
+      notFound();
+    }
+  }
+  const categoryName = category?.name ?? requestedCategory;
+
+  const accounts = category
+    ? summarizeLineItems(
+        filterByCategory(budgets, category.name),
+        filterByCategory(actuals, category.name),
+        "account"
+      )
+    : [];
+
+  return (
+    <AccountDrilldownClient
+      departmentName={departmentName}
+      category={categoryName}
+      account={null}
+      years={years}
+      selectedYear={selectedYear}
+      totals={category}
+      accounts={accounts}
+      transactions={[]}
+      enableTransactions={enableTransactions}
+      enableVendors={enableVendors}
+    />
+  );
+}
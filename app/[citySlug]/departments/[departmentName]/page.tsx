@@ -7,17 +7,22 @@ import {
   getPortalFiscalYears,
   getPortalSettings,
   getBudgetActualsSummaryForDepartment,
-  getBudgetsForDepartmentYear,
-  getActualsForDepartmentYear,
-  getTransactionsForDepartmentYear,
+  getDepartmentRowsForYear,
+  getPeriodActuals,
+  getDepartmentAliases,
+  getDeflator,
+  getPopulation,
 } from "@/lib/queries";
-import type { BudgetRow, ActualRow, TransactionRow } from "@/lib/types";
 import type { PortalSettings } from "@/lib/queries";
+import { forecastDepartments } from "@/lib/forecast";
+import { latestPeriod } from "@/lib/budgetExecution";
+import { pickDollars } from "@/lib/inflation";
 
 export const revalidate = 60;
 
 type SearchParamsShape = {
   year?: string | string[];
+  dollars?: string | string[];
 };
 
 type ParamsShape = {
@@ -42,9 +47,10 @@ export default async function DepartmentDetailPage({ params, searchParams }: Pag
 
   const departmentName = decodeURIComponent(resolvedParams.departmentName);
 
-  const [settingsRaw, portalYearsRaw] = await Promise.all([
+  const [settingsRaw, portalYearsRaw, aliases] = await Promise.all([
     getPortalSettings(),
     getPortalFiscalYears(),
+    getDepartmentAliases(),
   ]);
 
   const settings = settingsRaw as PortalSettings | null;
@@ -59,7 +65,8 @@ export default async function DepartmentDetailPage({ params, searchParams }: Pag
   const portalYears = (portalYearsRaw ?? []).slice().sort((a, b) => b - a);
   if (portalYears.length === 0) notFound();
 
-  // YOY: use summary rows for THIS department across years (fast)
+  // YOY: use summary rows for THIS department across years (fast). The
+  // rollup already counts renamed/merged departments under the current name.
   const deptSummaryAllYears = await getBudgetActualsSummaryForDepartment(departmentName);
 
   const availableYears =
@@ -77,18 +84,38 @@ export default async function DepartmentDetailPage({ params, searchParams }: Pag
       ? parsedYear
       : availableYears[0];
 
-  // Selected-year detail: raw rows scoped to department (fast)
-  const [budgetsRaw, actualsRaw, txRaw] = await Promise.all([
-    getBudgetsForDepartmentYear(departmentName, selectedYear),
-    getActualsForDepartmentYear(departmentName, selectedYear),
-    enableTransactions
-      ? getTransactionsForDepartmentYear(departmentName, selectedYear)
-      : Promise.resolve([]),
+  // Selected-year detail: raw rows scoped to the department and any old
+  // names reported under it that year.
+  const [{ budgets, actuals, transactions }, periodRows, deflator, population] = await Promise.all([
+    getDepartmentRowsForYear(departmentName, selectedYear, aliases, {
+      includeTransactions: enableTransactions,
+    }),
+    getPeriodActuals([selectedYear - 1, selectedYear]),
+    getDeflator(pickDollars(sp?.dollars), availableYears),
+    getPopulation(availableYears, settings?.stat_population),
   ]);
 
-  const budgets = (budgetsRaw ?? []) as BudgetRow[];
-  const actuals = (actualsRaw ?? []) as ActualRow[];
-  const transactions = (txRaw ?? []) as TransactionRow[];
+  // Year-end projection. The latest period posted anywhere in the city marks
+  // how far into the year we are, and the whole prior year is passed so a
+  // department without one of its own can borrow the citywide timing.
+  // Actuals uploaded without periods would project as zero, so those
+  // departments get no forecast.
+  const yearPeriodRows = periodRows.filter((r) => Number(r.fiscal_year) === selectedYear);
+  const deptPeriodRows = yearPeriodRows.filter((r) => r.department_name === departmentName);
+  const yearSummary = deptSummaryAllYears.filter(
+    (r) => Number(r.fiscal_year) === selectedYear
+  );
+  const hasUnperiodizedActuals =
+    deptPeriodRows.length === 0 &&
+    yearSummary.some((r) => Number(r.actual_amount || 0) !== 0);
+  const forecast = hasUnperiodizedActuals
+    ? null
+    : forecastDepartments(
+        yearSummary,
+        deptPeriodRows,
+        periodRows.filter((r) => Number(r.fiscal_year) !== selectedYear),
+        latestPeriod(yearPeriodRows)
+      ).find((f) => f.department_name === departmentName) ?? null;
 
   const hasAnyData =
     budgets.length > 0 ||
@@ -106,6 +133,10 @@ export default async function DepartmentDetailPage({ params, searchParams }: Pag
       transactions={transactions}
       enableVendors={enableVendors}
       availableYears={availableYears}
+      history={deptSummaryAllYears}
+      forecast={forecast}
+      deflator={deflator}
+      population={population}
     />
   );
 }
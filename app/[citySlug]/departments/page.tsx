@@ -1,6 +1,7 @@
 // app/[citySlug]/departments/page.tsx
 import { notFound } from "next/navigation";
 import DepartmentsDashboardClient from "@/components/City/DepartmentsDashboardClient";
+import YearComparisonClient from "@/components/City/YearComparisonClient";
 import UnpublishedMessage from "@/components/City/UnpublishedMessage";
 import DataFreshness from "@/components/DataFreshness";
 import {
@@ -9,7 +10,21 @@ import {
   getDepartmentTransactionSummariesForYear,
   getPortalSettings,
   getDataUploadLogs,
+  getFundNames,
+  getFundBudgetActuals,
+  getFundTransactionSummariesForYear,
+  getDeflator,
+  getPopulation,
 } from "@/lib/queries";
+import { pickFund } from "@/lib/funds";
+import {
+  buildYearComparison,
+  COMPARISON_MEASURES,
+  parseCompareYears,
+  pickComparisonMeasure,
+} from "@/lib/yearComparison";
+import { deflateRows, pickDollars } from "@/lib/inflation";
+import { perCapitaRows, pickPerCapita } from "@/lib/perCapita";
 import type { PortalSettings, DepartmentYearTxSummary, BudgetActualsYearDeptRow, DataUploadLogRow } from "@/lib/queries";
 
 export const revalidate = 60;
@@ -17,6 +32,11 @@ export const revalidate = 60;
 type SearchParamsShape = {
   year?: string | string[];
   q?: string | string[];
+  fund?: string | string[];
+  compare?: string | string[];
+  measure?: string | string[];
+  dollars?: string | string[];
+  per?: string | string[];
 };
 
 type PageProps = {
@@ -33,10 +53,11 @@ function pickFirst(value: string | string[] | undefined): string | undefined {
 export default async function DepartmentsPage({ searchParams }: PageProps) {
   const sp = await searchParams;
 
-  const [yearsRaw, settings, uploadLogsRaw] = await Promise.all([
+  const [yearsRaw, settings, uploadLogsRaw, funds] = await Promise.all([
     getPortalFiscalYears(),
     getPortalSettings(),
     getDataUploadLogs(),
+    getFundNames(),
   ]);
 
   const portalSettings = settings as PortalSettings | null;
@@ -81,18 +102,85 @@ export default async function DepartmentsPage({ searchParams }: PageProps) {
   let deptBudgetActuals: BudgetActualsYearDeptRow[] = [];
   let txSummaries: DepartmentYearTxSummary[] = [];
 
+  const fundName = pickFund(sp?.fund, funds);
+
+  // Compare mode (?compare=2024,2025) replaces the single-year view
+  const compareYears = parseCompareYears(sp?.compare, years);
+  if (compareYears.length > 0) {
+    const measure = pickComparisonMeasure(sp?.measure, "actuals");
+
+    const [nominalRowsByYear, deflator, population] = await Promise.all([
+      Promise.all(
+        compareYears.map((year) =>
+          fundName
+            ? getFundBudgetActuals({ fiscalYear: year, fundName })
+            : getBudgetActualsSummaryForYear(year)
+        )
+      ) as Promise<BudgetActualsYearDeptRow[][]>,
+      getDeflator(pickDollars(sp?.dollars), compareYears),
+      getPopulation(compareYears, portalSettings?.stat_population),
+    ]);
+    const basis = pickPerCapita(sp?.per);
+    const rowsByYear = nominalRowsByYear.map((rows, i) =>
+      perCapitaRows(
+        deflateRows(rows ?? [], () => compareYears[i], ["budget_amount", "actual_amount"], deflator),
+        () => compareYears[i],
+        ["budget_amount", "actual_amount"],
+        population,
+        basis
+      )
+    );
+
+    const comparison = buildYearComparison(
+      compareYears,
+      rowsByYear,
+      (r) => r.department_name || "Unspecified",
+      (r) => Number(measure === "budget" ? r.budget_amount : r.actual_amount)
+    );
+
+    return (
+      <>
+        <div className="mb-3 flex items-center justify-end">
+          <DataFreshness lastUploadAt={lastUploadAt} />
+        </div>
+        <YearComparisonClient
+          eyebrow="Departments"
+          title="Compare departments across years"
+          description={`Each department's ${measure === "budget" ? "budget" : "actual spending"} in the selected fiscal years, with the change and compound annual growth between the first and last.`}
+          years={years}
+          comparison={comparison}
+          entityLabel="Department"
+          measure={measure}
+          measureOptions={COMPARISON_MEASURES}
+          linkDepartments
+          deflator={deflator}
+          population={population}
+        />
+      </>
+    );
+  }
+
   if (selectedYear != null) {
     const [deptRows, txSummariesRaw] = await Promise.all([
-      getBudgetActualsSummaryForYear(selectedYear),
-      enableTransactions
-        ? getDepartmentTransactionSummariesForYear(selectedYear)
-        : Promise.resolve([]),
+      fundName
+        ? getFundBudgetActuals({ fiscalYear: selectedYear, fundName })
+        : getBudgetActualsSummaryForYear(selectedYear),
+      !enableTransactions
+        ? Promise.resolve([])
+        : fundName
+        ? getFundTransactionSummariesForYear(selectedYear, fundName)
+        : getDepartmentTransactionSummariesForYear(selectedYear),
     ]);
 
     deptBudgetActuals = (deptRows ?? []) as BudgetActualsYearDeptRow[];
     txSummaries = (txSummariesRaw ?? []) as DepartmentYearTxSummary[];
   }
 
+  const population = await getPopulation(
+    selectedYear != null ? [selectedYear] : [],
+    portalSettings?.stat_population
+  );
+
   return (
     <>
       <div className="mb-3 flex items-center justify-end">
@@ -104,6 +192,7 @@ export default async function DepartmentsPage({ searchParams }: PageProps) {
         years={years}
         enableTransactions={enableTransactions}
         searchQuery={searchQuery}
+        population={population}
       />
     </>
   );
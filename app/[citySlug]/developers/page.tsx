@@ -0,0 +1,23 @@
+// app/[citySlug]/developers/page.tsx
+import ApiDocsClient from "@/components/City/ApiDocsClient";
+import UnpublishedMessage from "@/components/City/UnpublishedMessage";
+import { getPortalSettings } from "@/lib/queries";
+import { apiSettingsFrom } from "@/lib/publicApi";
+import { buildOpenApiDocument } from "@/lib/openApi";
+
+export const revalidate = 0;
+
+export default async function DevelopersPage() {
+  const settings = await getPortalSettings();
+  const apiSettings = apiSettingsFrom(settings);
+
+  // The API answers 404 until the portal is published
+  if (!apiSettings.published) {
+    return <UnpublishedMessage settings={settings} />;
+  }
+
+  // Same document the API serves, with paths relative to this site
+  const document = buildOpenApiDocument(apiSettings, "");
+
+  return <ApiDocsClient document={document} />;
+}
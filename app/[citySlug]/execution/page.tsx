@@ -0,0 +1,156 @@
+// app/[citySlug]/execution/page.tsx
+import { notFound } from "next/navigation";
+import BudgetExecutionClient from "@/components/City/BudgetExecutionClient";
+import UnpublishedMessage from "@/components/City/UnpublishedMessage";
+import DataFreshness from "@/components/DataFreshness";
+import {
+  getPortalFiscalYears,
+  getPortalSettings,
+  getDataUploadLogs,
+  getBudgetActualsSummaryForYear,
+  getPeriodActuals,
+} from "@/lib/queries";
+import type { PortalSettings, DataUploadLogRow } from "@/lib/queries";
+import {
+  buildExecutionSeries,
+  expectedShares,
+  latestPeriod,
+  periodLabel,
+  pickCurve,
+  summarizeDepartmentExecution,
+} from "@/lib/budgetExecution";
+import { getFiscalYearLabel } from "@/lib/fiscalYear";
+
+export const revalidate = 60;
+
+type SearchParamsShape = {
+  year?: string | string[];
+  curve?: string | string[];
+  department?: string | string[];
+};
+
+type PageProps = {
+  params: { citySlug: string };
+  searchParams: SearchParamsShape | Promise<SearchParamsShape>;
+};
+
+function pickFirst(value: string | string[] | undefined): string | undefined {
+  if (typeof value === "string") return value;
+  if (Array.isArray(value) && value.length > 0) return value[0];
+  return undefined;
+}
+
+export default async function BudgetExecutionPage({ searchParams }: PageProps) {
+  const sp = await searchParams;
+
+  const [yearsRaw, settings, uploadLogsRaw] = await Promise.all([
+    getPortalFiscalYears(),
+    getPortalSettings(),
+    getDataUploadLogs(),
+  ]);
+
+  const portalSettings = settings as PortalSettings | null;
+  const uploadLogs = (uploadLogsRaw ?? []) as DataUploadLogRow[];
+
+  const actualsLogs = uploadLogs.filter((log) => log.table_name === "actuals");
+  const lastUploadAt = actualsLogs.length > 0
+    ? actualsLogs.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())[0]?.created_at
+    : null;
+
+  if (portalSettings && portalSettings.is_published === false) {
+    return <UnpublishedMessage settings={portalSettings} />;
+  }
+
+  // Execution compares spending with the budget, so it follows the actuals gate
+  const enableActuals =
+    portalSettings?.enable_actuals === null || portalSettings?.enable_actuals === undefined
+      ? true
+      : !!portalSettings.enable_actuals;
+
+  if (portalSettings && !enableActuals) {
+    notFound();
+  }
+
+  const years = (yearsRaw ?? []).slice().sort((a, b) => b - a);
+
+  const yearParam = pickFirst(sp?.year);
+  const parsedYear = yearParam ? Number(yearParam) : NaN;
+
+  const selectedYear =
+    Number.isFinite(parsedYear) && years.includes(parsedYear)
+      ? parsedYear
+      : years.length > 0
+      ? years[0]
+      : null;
+
+  const curve = pickCurve(pickFirst(sp?.curve));
+  const startMonth = Number(portalSettings?.fiscal_year_start_month) || 1;
+
+  const [summaries, periodRows] =
+    selectedYear != null
+      ? await Promise.all([
+          getBudgetActualsSummaryForYear(selectedYear),
+          getPeriodActuals([selectedYear - 1, selectedYear]),
+        ])
+      : [[], []];
+
+  const yearRows = periodRows.filter((r) => Number(r.fiscal_year) === selectedYear);
+  const priorRows = periodRows.filter((r) => Number(r.fiscal_year) !== selectedYear);
+  const throughPeriod = latestPeriod(yearRows);
+
+  const departments = summarizeDepartmentExecution(
+    summaries,
+    yearRows,
+    priorRows,
+    curve,
+    throughPeriod
+  );
+
+  const requestedDept = (pickFirst(sp?.department) ?? "").trim().toLowerCase();
+  const department =
+    departments.find((d) => d.department_name.toLowerCase() === requestedDept) ?? null;
+
+  // The chart follows the selected department, or the whole city
+  const chartRows = department
+    ? yearRows.filter((r) => r.department_name === department.department_name)
+    : yearRows;
+  const chartPriorRows = department
+    ? priorRows.filter((r) => r.department_name === department.department_name)
+    : priorRows;
+  const chartBudget = department
+    ? department.budget
+    : summaries.reduce((sum, r) => sum + Number(r.budget_amount || 0), 0);
+  const shares = expectedShares(
+    curve,
+    chartPriorRows.length > 0 ? chartPriorRows : priorRows
+  );
+
+  // Actuals uploaded without a fiscal period are in the totals but can't be
+  // placed on the curve
+  const totalActuals = (department
+    ? summaries.filter((r) => r.department_name === department.department_name)
+    : summaries
+  ).reduce((sum, r) => sum + Number(r.actual_amount || 0), 0);
+  const periodActuals = chartRows.reduce((sum, r) => sum + Number(r.actual_amount || 0), 0);
+
+  return (
+    <>
+      <div className="mb-3 flex items-center justify-end">
+        <DataFreshness lastUploadAt={lastUploadAt} />
+      </div>
+      <BudgetExecutionClient
+        years={years}
+        selectedYear={selectedYear}
+        curve={curve}
+        department={department}
+        departments={departments}
+        series={buildExecutionSeries(chartBudget, chartRows, shares, throughPeriod, startMonth)}
+        budget={chartBudget}
+        throughPeriod={throughPeriod}
+        throughLabel={throughPeriod > 0 ? periodLabel(throughPeriod, startMonth) : null}
+        unassignedActuals={Math.max(totalActuals - periodActuals, 0)}
+        fiscalYearNote={getFiscalYearLabel(portalSettings) ?? undefined}
+      />
+    </>
+  );
+}
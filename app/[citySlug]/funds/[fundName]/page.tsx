@@ -0,0 +1,121 @@
+// app/[citySlug]/funds/[fundName]/page.tsx
+
+import { notFound } from "next/navigation";
+import UnpublishedMessage from "@/components/City/UnpublishedMessage";
+import FundDetailClient from "@/components/City/FundDetailClient";
+import {
+  getPortalSettings,
+  getFundNames,
+  getFundBudgetActuals,
+  getRevenuesForFund,
+  getMasterDataEntries,
+  getDeflator,
+} from "@/lib/queries";
+import type { PortalSettings } from "@/lib/queries";
+import {
+  buildFundBalanceTrend,
+  fundYearTotals,
+  pickFund,
+} from "@/lib/funds";
+import { deflateRows, pickDollars } from "@/lib/inflation";
+
+export const revalidate = 60;
+
+type ParamsShape = {
+  citySlug: string;
+  fundName: string;
+};
+
+type SearchParamsShape = {
+  year?: string | string[];
+  dollars?: string | string[];
+};
+
+type PageProps = {
+  params: ParamsShape | Promise<ParamsShape>;
+  searchParams: SearchParamsShape | Promise<SearchParamsShape>;
+};
+
+function pickFirst(value: string | string[] | undefined): string | undefined {
+  if (typeof value === "string") return value;
+  if (Array.isArray(value) && value.length > 0) return value[0];
+  return undefined;
+}
+
+export default async function FundDetailPage({ params, searchParams }: PageProps) {
+  const [resolvedParams, sp] = await Promise.all([params, searchParams]);
+  const requestedName = decodeURIComponent(resolvedParams.fundName);
+
+  const [settingsRaw, funds] = await Promise.all([
+    getPortalSettings(),
+    getFundNames(),
+  ]);
+  const settings = settingsRaw as PortalSettings | null;
+
+  if (settings && settings.is_published === false) {
+    return <UnpublishedMessage settings={settings} />;
+  }
+
+  const enableActuals =
+    settings?.enable_actuals === null || settings?.enable_actuals === undefined
+      ? true
+      : !!settings.enable_actuals;
+  if (settings && !enableActuals) notFound();
+
+  const fundName = pickFund(requestedName, funds);
+  if (!fundName) notFound();
+
+  const enableRevenues = settings?.enable_revenues === true;
+
+  const [rows, revenues, registry] = await Promise.all([
+    getFundBudgetActuals({ fundName }),
+    enableRevenues ? getRevenuesForFund(fundName) : Promise.resolve([]),
+    getMasterDataEntries("funds"),
+  ]);
+
+  const years = Array.from(new Set(rows.map((r) => Number(r.fiscal_year))))
+    .filter((y) => Number.isFinite(y))
+    .sort((a, b) => b - a);
+
+  const yearParam = pickFirst(sp?.year);
+  const parsedYear = yearParam ? Number(yearParam) : NaN;
+  const selectedYear =
+    Number.isFinite(parsedYear) && years.includes(parsedYear)
+      ? parsedYear
+      : years.length > 0
+      ? years[0]
+      : null;
+
+  const revenueTotal = enableRevenues
+    ? revenues
+        .filter((r) => Number(r.fiscal_year) === selectedYear)
+        .reduce((sum, r) => sum + Number(r.amount || 0), 0)
+    : null;
+
+  // Fund balances stay nominal; only the budget-vs-actual trend is restated
+  const deflator = await getDeflator(pickDollars(sp?.dollars), years);
+  const yearTotals = deflateRows(
+    fundYearTotals(rows),
+    (r) => r.year,
+    ["Budget", "Actuals", "Variance"],
+    deflator
+  );
+
+  const description =
+    registry.find((f) => f.name.toLowerCase() === fundName.toLowerCase())
+      ?.description ?? null;
+
+  return (
+    <FundDetailClient
+      fundName={fundName}
+      description={description}
+      years={years}
+      selectedYear={selectedYear}
+      departments={rows.filter((r) => Number(r.fiscal_year) === selectedYear)}
+      yearTotals={yearTotals}
+      balanceTrend={enableRevenues ? buildFundBalanceTrend(rows, revenues) : []}
+      revenueTotal={revenueTotal}
+      deflator={deflator}
+    />
+  );
+}
@@ -0,0 +1,46 @@
+// Delayed loading skeleton for Funds page - prevents flash on fast navigations.
+// Mirrors: FundsDashboardClient (SectionHeader + year selector + cards)
+
+export default function Loading() {
+  return (
+    <div
+      className="opacity-0"
+      role="status"
+      aria-label="Loading funds"
+      style={{ animation: "delayedFadeIn 200ms ease-out 200ms forwards" }}
+    >
+      <div className="mx-auto max-w-7xl space-y-6 px-4 py-8 sm:px-6 lg:px-8">
+        {/* SectionHeader skeleton */}
+        <div className="flex items-start justify-between">
+          <div className="space-y-2">
+            <div className="h-4 w-20 animate-pulse rounded bg-slate-200" />
+            <div className="h-8 w-56 animate-pulse rounded bg-slate-200" />
+          </div>
+          {/* Year selector */}
+          <div className="h-10 w-28 animate-pulse rounded-lg bg-slate-200" />
+        </div>
+
+        {/* Metric cards */}
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-4">
+          {[...Array(4)].map((_, i) => (
+            <div
+              key={i}
+              className="h-24 animate-pulse rounded-2xl bg-slate-100"
+            />
+          ))}
+        </div>
+
+        {/* Chart + fund table */}
+        <div className="h-72 animate-pulse rounded-2xl bg-slate-100" />
+        <div className="h-64 animate-pulse rounded-2xl bg-slate-100" />
+      </div>
+
+      <style>{`
+        @keyframes delayedFadeIn {
+          from { opacity: 0; }
+          to { opacity: 1; }
+        }
+      `}</style>
+    </div>
+  );
+}
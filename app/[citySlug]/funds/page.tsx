@@ -0,0 +1,104 @@
+// app/[citySlug]/funds/page.tsx
+import { notFound } from "next/navigation";
+import FundsDashboardClient from "@/components/City/FundsDashboardClient";
+import UnpublishedMessage from "@/components/City/UnpublishedMessage";
+import DataFreshness from "@/components/DataFreshness";
+import {
+  getPortalFiscalYears,
+  getPortalSettings,
+  getDataUploadLogs,
+  getFundBudgetActuals,
+  getRevenuesForYear,
+} from "@/lib/queries";
+import type { PortalSettings, DataUploadLogRow } from "@/lib/queries";
+import { summarizeFunds } from "@/lib/funds";
+import { getFiscalYearLabel } from "@/lib/fiscalYear";
+
+export const revalidate = 60;
+
+type SearchParamsShape = {
+  year?: string | string[];
+};
+
+type PageProps = {
+  params: { citySlug: string };
+  searchParams: SearchParamsShape | Promise<SearchParamsShape>;
+};
+
+function pickFirst(value: string | string[] | undefined): string | undefined {
+  if (typeof value === "string") return value;
+  if (Array.isArray(value) && value.length > 0) return value[0];
+  return undefined;
+}
+
+export default async function FundsPage({ searchParams }: PageProps) {
+  const sp = await searchParams;
+
+  const [yearsRaw, settings, uploadLogsRaw] = await Promise.all([
+    getPortalFiscalYears(),
+    getPortalSettings(),
+    getDataUploadLogs(),
+  ]);
+
+  const portalSettings = settings as PortalSettings | null;
+  const uploadLogs = (uploadLogsRaw ?? []) as DataUploadLogRow[];
+
+  // Get most recent budget or actuals upload
+  const fundLogs = uploadLogs.filter(
+    (log) => log.table_name === "budgets" || log.table_name === "actuals"
+  );
+  const lastUploadAt = fundLogs.length > 0
+    ? fundLogs.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())[0]?.created_at
+    : null;
+
+  if (portalSettings && portalSettings.is_published === false) {
+    return <UnpublishedMessage settings={portalSettings} />;
+  }
+
+  // Same gating as Departments: fund views compare budget with actuals
+  const enableActuals =
+    portalSettings?.enable_actuals === null || portalSettings?.enable_actuals === undefined
+      ? true
+      : !!portalSettings.enable_actuals;
+
+  if (portalSettings && !enableActuals) {
+    notFound();
+  }
+
+  const enableRevenues = portalSettings?.enable_revenues === true;
+
+  const years = (yearsRaw ?? []).slice().sort((a, b) => b - a);
+
+  const yearParam = pickFirst(sp?.year);
+  const parsedYear = yearParam ? Number(yearParam) : NaN;
+
+  const selectedYear =
+    Number.isFinite(parsedYear) && years.includes(parsedYear)
+      ? parsedYear
+      : years.length > 0
+      ? years[0]
+      : null;
+
+  const [rows, revenues] =
+    selectedYear != null
+      ? await Promise.all([
+          getFundBudgetActuals({ fiscalYear: selectedYear }),
+          enableRevenues ? getRevenuesForYear(selectedYear) : Promise.resolve([]),
+        ])
+      : [[], []];
+
+  return (
+    <>
+      <div className="mb-3 flex items-center justify-end">
+        <DataFreshness lastUploadAt={lastUploadAt} />
+      </div>
+      <FundsDashboardClient
+        years={years}
+        selectedYear={selectedYear}
+        funds={summarizeFunds(rows, revenues)}
+        enableRevenues={enableRevenues}
+        fiscalYearNote={getFiscalYearLabel(portalSettings) ?? undefined}
+      />
+    </>
+  );
+}
@@ -7,6 +7,7 @@ import { supabaseAdmin } from "@/lib/supabaseService";
 import CityShell from "@/components/City/CityShell";
 import { generateThemeVars } from "@/lib/theme";
 import LegalFooter from "@/components/LegalFooter";
+import { getFundNames } from "@/lib/queries";
 
 type PortalSettingsRow = {
   city_name: string | null;
@@ -71,7 +72,10 @@ export default async function CityLayout({
 }: {
   children: ReactNode;
 }) {
-  const settings = await getPortalSettings();
+  const [settings, funds] = await Promise.all([
+    getPortalSettings(),
+    getFundNames(),
+  ]);
 
   // Generate CSS custom properties for theme colors
   const themeVars = generateThemeVars(
@@ -129,6 +133,7 @@ export default async function CityLayout({
       <ParadiseSidebar
         initialBranding={initialBranding}
         initialIsPublished={initialIsPublished}
+        funds={funds}
       />
 
       {/* Single <main> landmark for all city pages */}
@@ -142,6 +147,7 @@ export default async function CityLayout({
           accent={accent}
           displayName={displayName}
           tagline={tagline}
+          funds={funds}
         >
           {children}
         </CityShell>
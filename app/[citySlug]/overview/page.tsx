@@ -9,8 +9,30 @@ import {
   getDataUploadLogs,
   getVendorSummariesForYear,
   getRecentTransactionsForYear,
+  getFundNames,
+  getFundBudgetActuals,
+  getPeriodActuals,
+  getDepartmentTransactionSummariesForYear,
+  getInsightRules,
+  getDeflator,
+  getPopulation,
 } from "@/lib/queries";
-import { calculateInsights } from "@/lib/insights";
+import {
+  calculateInsights,
+  compareRevenueSources,
+  DEFAULT_INSIGHT_RULES,
+  type DepartmentSummary,
+  type InsightInputData,
+} from "@/lib/insights";
+import {
+  forecastCitySpending,
+  forecastDepartments,
+  forecastRevenues,
+} from "@/lib/forecast";
+import type { DepartmentForecast, RevenueForecast, YearEndForecast } from "@/lib/forecast";
+import { latestPeriod } from "@/lib/budgetExecution";
+import { fundYearTotals, pickFund } from "@/lib/funds";
+import { deflateRows, pickDollars } from "@/lib/inflation";
 import type { TransactionRow, RevenueRow } from "@/lib/types";
 import type {
   VendorYearSummary,
@@ -20,6 +42,17 @@ import type {
 
 export const revalidate = 60;
 
+function toDepartmentSummary(d: BudgetActualsYearDeptRow): DepartmentSummary {
+  const budget = Number(d.budget_amount || 0);
+  const actuals = Number(d.actual_amount || 0);
+  return {
+    department_name: d.department_name || "Unspecified",
+    budget,
+    actuals,
+    percentSpent: budget > 0 ? (actuals / budget) * 100 : 0,
+  };
+}
+
 type SearchParams = {
   [key: string]: string | string[] | undefined;
 };
@@ -31,13 +64,32 @@ type PageProps = {
 export default async function CityOverviewPage({ searchParams }: PageProps) {
   const sp = (await searchParams) ?? {};
 
-  const [portalSettings, portalYears, uploadLogsRaw, yearTotals] = await Promise.all([
+  const [portalSettings, portalYears, uploadLogsRaw, funds] = await Promise.all([
     getPortalSettings(),
     getPortalFiscalYears(),
     getDataUploadLogs(),
-    getBudgetActualsYearTotals(),
+    getFundNames(),
   ]);
 
+  // Portal-wide fund filter (?fund=); null shows every fund
+  const fundName = pickFund(sp.fund, funds);
+
+  const nominalYearTotals = fundName
+    ? fundYearTotals(await getFundBudgetActuals({ fundName }))
+    : await getBudgetActualsYearTotals();
+
+  // Constant-dollar view (?dollars=real) of the multi-year totals
+  const deflator = await getDeflator(
+    pickDollars(sp.dollars),
+    nominalYearTotals.map((r) => r.year)
+  );
+  const yearTotals = deflateRows(
+    nominalYearTotals,
+    (r) => r.year,
+    ["Budget", "Actuals", "Variance"],
+    deflator
+  );
+
   const settings = portalSettings;
 
   if (settings && settings.is_published === false) {
@@ -76,17 +128,52 @@ export default async function CityOverviewPage({ searchParams }: PageProps) {
   let vendorSummaries: VendorYearSummary[] = [];
   let revenues: RevenueRow[] = [];
   let revenueTotal: number | null = null;
+  let spendingForecast: YearEndForecast | null = null;
+  let departmentForecasts: DepartmentForecast[] = [];
+  let revenueForecast: RevenueForecast | null = null;
+  let insightData: Omit<InsightInputData, "departments"> = {};
+  let insightRules = DEFAULT_INSIGHT_RULES;
 
   if (selectedYear !== undefined) {
     const enableTransactions = settings?.enable_transactions === true;
     const enableVendors = enableTransactions && settings?.enable_vendors === true;
     const enableRevenues = settings?.enable_revenues === true;
 
-    const [deptRows, recentTxRaw, vendorRaw, revenuesRaw] = await Promise.all([
-      getBudgetActualsSummaryForYear(selectedYear),
-      enableTransactions ? getRecentTransactionsForYear(selectedYear, 20) : Promise.resolve([]),
-      enableVendors ? getVendorSummariesForYear(selectedYear, { limit: 500 }) : Promise.resolve([]),
-      enableRevenues ? getRevenuesForYear(selectedYear) : Promise.resolve([]),
+    // Vendor totals and the period rollup behind forecasts aren't kept by
+    // fund, so the vendor card and the outlook are left out while a fund is
+    // selected
+    const [
+      deptRows,
+      recentTxRaw,
+      vendorRaw,
+      revenuesRaw,
+      periodRows,
+      priorRevenuesRaw,
+      priorDeptRows,
+      deptTxRaw,
+      storedRules,
+    ] = await Promise.all([
+      fundName
+        ? getFundBudgetActuals({ fiscalYear: selectedYear, fundName })
+        : getBudgetActualsSummaryForYear(selectedYear),
+      enableTransactions
+        ? getRecentTransactionsForYear(selectedYear, 20, fundName)
+        : Promise.resolve([]),
+      enableVendors && !fundName
+        ? getVendorSummariesForYear(selectedYear, { limit: 500 })
+        : Promise.resolve([]),
+      enableRevenues ? getRevenuesForYear(selectedYear, fundName) : Promise.resolve([]),
+      fundName ? Promise.resolve([]) : getPeriodActuals([selectedYear - 1, selectedYear]),
+      enableRevenues && !fundName
+        ? getRevenuesForYear(selectedYear - 1)
+        : Promise.resolve([]),
+      fundName
+        ? getFundBudgetActuals({ fiscalYear: selectedYear - 1, fundName })
+        : getBudgetActualsSummaryForYear(selectedYear - 1),
+      enableVendors && !fundName
+        ? getDepartmentTransactionSummariesForYear(selectedYear)
+        : Promise.resolve([]),
+      getInsightRules(),
     ]);
 
     deptBudgetActuals = (deptRows ?? []) as BudgetActualsYearDeptRow[];
@@ -98,6 +185,56 @@ export default async function CityOverviewPage({ searchParams }: PageProps) {
       enableRevenues && revenues.length > 0
         ? revenues.reduce((sum, r) => sum + Number(r.amount || 0), 0)
         : null;
+
+    if (!fundName) {
+      const yearRows = periodRows.filter((r) => Number(r.fiscal_year) === selectedYear);
+      const priorRows = periodRows.filter((r) => Number(r.fiscal_year) !== selectedYear);
+      const throughPeriod = latestPeriod(yearRows);
+
+      spendingForecast = forecastCitySpending(yearRows, priorRows, throughPeriod);
+      departmentForecasts = forecastDepartments(
+        deptBudgetActuals,
+        yearRows,
+        priorRows,
+        throughPeriod
+      );
+      revenueForecast = enableRevenues
+        ? forecastRevenues(revenues, (priorRevenuesRaw ?? []) as RevenueRow[])
+        : null;
+    }
+
+    // Comparing with last year needs a whole year (or a projection of one);
+    // the newest year with nothing to project from is still partial
+    const comparable = departmentForecasts.length > 0 || selectedYear !== years[0];
+    const openRevenueForecast =
+      revenueForecast?.total && revenueForecast.total.method !== "final"
+        ? revenueForecast.sources
+        : null;
+
+    insightData = {
+      fiscalYear: selectedYear,
+      forecasts: departmentForecasts,
+      previousDepartments: comparable
+        ? ((priorDeptRows ?? []) as BudgetActualsYearDeptRow[]).map(toDepartmentSummary)
+        : [],
+      revenueSources:
+        comparable || openRevenueForecast
+          ? compareRevenueSources(
+              revenues,
+              (priorRevenuesRaw ?? []) as RevenueRow[],
+              openRevenueForecast
+            )
+          : [],
+      vendors: vendorSummaries.map((v) => ({
+        name: v.vendor,
+        total: Number(v.total_amount || 0),
+      })),
+      vendorTotal: (deptTxRaw ?? []).reduce(
+        (sum, d) => sum + Number(d.total_amount || 0),
+        0
+      ),
+    };
+    if (storedRules) insightRules = storedRules;
   }
 
   const uploadLogs = (uploadLogsRaw ?? []) as DataUploadLogRow[];
@@ -149,17 +286,17 @@ export default async function CityOverviewPage({ searchParams }: PageProps) {
     } satisfies FreshnessEntry;
   });
 
-  // Calculate department insights for the Overview page
-  const departments = deptBudgetActuals.map((d) => ({
-    department_name: d.department_name || "Unspecified",
-    budget: Number(d.budget_amount || 0),
-    actuals: Number(d.actual_amount || 0),
-    percentSpent: Number(d.budget_amount || 0) > 0
-      ? (Number(d.actual_amount || 0) / Number(d.budget_amount || 0)) * 100
-      : 0,
-  }));
+  // Residents for the per-resident line in the narrative
+  const population =
+    selectedYear !== undefined
+      ? await getPopulation([selectedYear], settings?.stat_population)
+      : null;
 
-  const insights = calculateInsights({ departments });
+  // Key insights for the Overview page, from the configured rules
+  const insights = calculateInsights(
+    { ...insightData, departments: deptBudgetActuals.map(toDepartmentSummary) },
+    insightRules
+  );
 
   return (
     <ParadiseHomeClient
@@ -173,6 +310,12 @@ export default async function CityOverviewPage({ searchParams }: PageProps) {
       revenueTotal={revenueTotal}
       dataFreshness={dataFreshness}
       insights={insights}
+      fundName={fundName}
+      spendingForecast={spendingForecast}
+      departmentForecasts={departmentForecasts}
+      revenueForecast={revenueForecast}
+      deflator={deflator}
+      population={population}
     />
   );
 }
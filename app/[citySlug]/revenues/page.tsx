@@ -1,5 +1,6 @@
 // app/[citySlug]/revenues/page.tsx
 import RevenuesDashboardClient from "@/components/City/RevenuesDashboardClient";
+import YearComparisonClient from "@/components/City/YearComparisonClient";
 import UnpublishedMessage from "@/components/City/UnpublishedMessage";
 import DataFreshness from "@/components/DataFreshness";
 import {
@@ -7,10 +8,17 @@ import {
   getRevenuesForYear,
   getPortalSettings,
   getDataUploadLogs,
+  getFundNames,
+  getDeflator,
+  getPopulation,
 } from "@/lib/queries";
+import { pickFund } from "@/lib/funds";
 import type { RevenueRow } from "@/lib/types";
 import type { PortalSettings, DataUploadLogRow } from "@/lib/queries";
 import { getFiscalYearLabel } from "@/lib/fiscalYear";
+import { buildYearComparison, parseCompareYears } from "@/lib/yearComparison";
+import { deflateRows, pickDollars } from "@/lib/inflation";
+import { perCapitaRows, pickPerCapita } from "@/lib/perCapita";
 import { notFound } from "next/navigation";
 
 export const revalidate = 0;
@@ -18,6 +26,10 @@ export const revalidate = 0;
 type SearchParamsShape = {
   year?: string;
   q?: string;
+  fund?: string;
+  compare?: string;
+  dollars?: string;
+  per?: string;
 };
 
 type PageProps = {
@@ -41,10 +53,11 @@ export default async function RevenuesPage({
 }: PageProps) {
   const resolvedSearchParams = await searchParams;
 
-  const [yearsRaw, settings, uploadLogsRaw] = await Promise.all([
+  const [yearsRaw, settings, uploadLogsRaw, funds] = await Promise.all([
     getRevenueYears(),
     getPortalSettings(),
     getDataUploadLogs(),
+    getFundNames(),
   ]);
 
   const portalSettings = settings as PortalSettings | null;
@@ -70,17 +83,62 @@ export default async function RevenuesPage({
 
   const years = (yearsRaw ?? []).slice().sort((a, b) => b - a);
 
+  const fundName = pickFund(resolvedSearchParams.fund, funds);
+
   let revenuesByYear: RevenueRow[][] = [];
   if (years.length > 0) {
     const all = await Promise.all(
       years.map(async (year) => {
-        const rows = (await getRevenuesForYear(year)) ?? [];
+        const rows = (await getRevenuesForYear(year, fundName)) ?? [];
         return rows as RevenueRow[];
       })
     );
     revenuesByYear = all;
   }
 
+  // Compare mode (?compare=2024,2025) replaces the single-year view
+  const compareYears = parseCompareYears(resolvedSearchParams.compare, years);
+  if (compareYears.length > 0) {
+    const [deflator, population] = await Promise.all([
+      getDeflator(pickDollars(resolvedSearchParams.dollars), compareYears),
+      getPopulation(compareYears, portalSettings?.stat_population),
+    ]);
+    const basis = pickPerCapita(resolvedSearchParams.per);
+    const comparison = buildYearComparison(
+      compareYears,
+      compareYears.map((year) =>
+        perCapitaRows(
+          deflateRows(revenuesByYear[years.indexOf(year)] ?? [], () => year, ["amount"], deflator),
+          () => year,
+          ["amount"],
+          population,
+          basis
+        )
+      ),
+      (r) => (r.category && r.category.trim().length > 0 ? r.category.trim() : "Unspecified"),
+      (r) => Number(r.amount || 0)
+    );
+
+    return (
+      <>
+        <div className="mb-3 flex items-center justify-end">
+          <DataFreshness lastUploadAt={lastUploadAt} />
+        </div>
+        <YearComparisonClient
+          eyebrow="Revenues"
+          title="Compare revenue across years"
+          description="Recorded revenue by source in the selected fiscal years, with the change and compound annual growth between the first and last."
+          fiscalNote={fiscalYearNote ?? undefined}
+          years={years}
+          comparison={comparison}
+          entityLabel="Revenue source"
+          deflator={deflator}
+          population={population}
+        />
+      </>
+    );
+  }
+
   let selectedYear: number | null = null;
   if (years.length > 0) {
     const yearParam = pickFirst(resolvedSearchParams.year);
@@ -108,6 +166,10 @@ export default async function RevenuesPage({
   });
 
   const sourceQuery = pickFirst(resolvedSearchParams.q) ?? null;
+  const [deflator, population] = await Promise.all([
+    getDeflator(pickDollars(resolvedSearchParams.dollars), years),
+    getPopulation(years, portalSettings?.stat_population),
+  ]);
 
   return (
     <>
@@ -121,6 +183,8 @@ export default async function RevenuesPage({
         sourceQuery={sourceQuery}
         yearTotals={yearTotals}
         fiscalYearNote={fiscalYearNote ?? undefined}
+        deflator={deflator}
+        population={population}
       />
     </>
   );
@@ -0,0 +1,83 @@
+// app/[citySlug]/vendors/[vendorName]/page.tsx
+
+import { notFound } from "next/navigation";
+import UnpublishedMessage from "@/components/City/UnpublishedMessage";
+import VendorDetailClient from "@/components/City/VendorDetailClient";
+import {
+  getPortalSettings,
+  getTransactionsForVendor,
+  getVendorAliases,
+  getVendorSummariesForVendor,
+  getDeflator,
+} from "@/lib/queries";
+import {
+  createVendorCanonicalizer,
+  getVendorSpellings,
+} from "@/lib/vendorAliases";
+import { pickDollars } from "@/lib/inflation";
+import type { PortalSettings } from "@/lib/queries";
+
+export const revalidate = 60;
+
+type ParamsShape = {
+  citySlug: string;
+  vendorName: string;
+};
+
+type SearchParamsShape = {
+  dollars?: string | string[];
+};
+
+type PageProps = {
+  params: ParamsShape | Promise<ParamsShape>;
+  searchParams: SearchParamsShape | Promise<SearchParamsShape>;
+};
+
+export default async function VendorDetailPage({ params, searchParams }: PageProps) {
+  const [resolvedParams, sp] = await Promise.all([params, searchParams]);
+  const requestedName = decodeURIComponent(resolvedParams.vendorName);
+
+  const [settingsRaw, aliases] = await Promise.all([
+    getPortalSettings(),
+    getVendorAliases(),
+  ]);
+  const settings = settingsRaw as PortalSettings | null;
+
+  if (settings && settings.is_published === false) {
+    return <UnpublishedMessage settings={settings} />;
+  }
+
+  // Same gating as the vendors list: vendor names require both flags
+  const enableTransactions = settings?.enable_transactions === true;
+  const enableVendors = enableTransactions && settings?.enable_vendors === true;
+  if (settings && !enableVendors) notFound();
+
+  // A link to a merged spelling shows the canonical vendor, which the
+  // rollup is keyed by; raw transactions are fetched for every spelling
+  const vendorName = createVendorCanonicalizer(aliases)(requestedName);
+  const spellings = getVendorSpellings(aliases, vendorName);
+
+  // Yearly totals from the rollup; the timeline, payers and list from the
+  // vendor's raw transactions
+  const [yearSummaries, transactions] = await Promise.all([
+    getVendorSummariesForVendor(vendorName),
+    getTransactionsForVendor(spellings),
+  ]);
+
+  if (yearSummaries.length === 0 && transactions.length === 0) notFound();
+
+  const deflator = await getDeflator(
+    pickDollars(sp?.dollars),
+    yearSummaries.map((s) => Number(s.fiscal_year))
+  );
+
+  return (
+    <VendorDetailClient
+      vendorName={vendorName}
+      yearSummaries={yearSummaries}
+      transactions={transactions}
+      otherSpellings={spellings.slice(1)}
+      deflator={deflator}
+    />
+  );
+}
@@ -8,6 +8,7 @@ import {
   getPortalSettings,
   getVendorSummariesForYear,
   getDataUploadLogs,
+  getPopulation,
 } from "@/lib/queries";
 import type { PortalSettings, VendorYearSummary, DataUploadLogRow } from "@/lib/queries";
 
@@ -78,6 +79,11 @@ export default async function VendorsPage({ searchParams }: PageProps) {
     });
   }
 
+  const population = await getPopulation(
+    selectedYear != null ? [selectedYear] : [],
+    portalSettings?.stat_population
+  );
+
   return (
     <>
       <div className="mb-3 flex items-center justify-end">
@@ -88,6 +94,7 @@ export default async function VendorsPage({ searchParams }: PageProps) {
         selectedYear={selectedYear}
         vendorSummaries={vendorSummaries}
         vendorQuery={vendorQuery}
+        population={population}
       />
     </>
   );
@@ -0,0 +1,223 @@
+// app/api/admin/api-keys/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import type { PostgrestError } from "@supabase/supabase-js";
+import { supabaseAdmin } from "@/lib/supabaseService";
+import { requireAdmin } from "@/lib/auth";
+import { requireCsrf } from "@/lib/csrf";
+import { logAdminAction } from "@/lib/auditLog";
+import { generateApiKey } from "@/lib/apiKeyAuth";
+import {
+  expiryTimestamp,
+  parseApiKeyInput,
+  type ApiKeyRow,
+  type ApiKeyUsageRow,
+} from "@/lib/apiKeys";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Every column but the hash
+const KEY_COLUMNS =
+  "id, created_at, name, owner_email, key_prefix, scopes, daily_quota, expires_at, revoked_at, last_used_at, created_by";
+
+// Days of usage returned for the dashboard
+const USAGE_DAYS = 30;
+
+// Usage rows per request; one per key, day and scope, so a busy month
+// runs past Supabase's default 1,000-row cap
+const USAGE_PAGE_SIZE = 1000;
+
+/**
+ * Every usage row from `since` (YYYY-MM-DD) on, read page by page in key
+ * order. Returns the first page error instead of a partial list.
+ */
+async function loadUsageSince(
+  since: string
+): Promise<{ data: ApiKeyUsageRow[]; error: PostgrestError | null }> {
+  const rows: ApiKeyUsageRow[] = [];
+
+  for (let from = 0; ; from += USAGE_PAGE_SIZE) {
+    const { data, error } = await supabaseAdmin
+      .from("api_key_usage")
+      .select("api_key_id, day, scope, calls")
+      .gte("day", since)
+      .order("api_key_id", { ascending: true })
+      .order("day", { ascending: true })
+      .order("scope", { ascending: true })
+      .range(from, from + USAGE_PAGE_SIZE - 1);
+
+    if (error) return { data: [], error };
+
+    const page = (data ?? []) as ApiKeyUsageRow[];
+    rows.push(...page);
+    if (page.length < USAGE_PAGE_SIZE) return { data: rows, error: null };
+  }
+}
+
+/**
+ * Issued keys, newest first, and their calls per day over the last
+ * USAGE_DAYS days.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await requireAdmin(req);
+    if (!auth.success) return auth.error;
+
+    const today = new Date().toISOString().slice(0, 10);
+    const since = new Date(Date.now() - (USAGE_DAYS - 1) * 86_400_000)
+      .toISOString()
+      .slice(0, 10);
+
+    const [keys, usage] = await Promise.all([
+      supabaseAdmin
+        .from("api_keys")
+        .select(KEY_COLUMNS)
+        .order("created_at", { ascending: false }),
+      loadUsageSince(since),
+    ]);
+
+    if (keys.error || usage.error) {
+      const error = keys.error ?? usage.error;
+      console.error("api_keys load error:", error);
+      return NextResponse.json(
+        { error: `Failed to load API keys: ${error?.message}` },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      today,
+      keys: (keys.data ?? []) as ApiKeyRow[],
+      usage: usage.data,
+    });
+  } catch (err: unknown) {
+    console.error("api keys GET error:", err);
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Unexpected error." },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Issue a key (returned once, in full, in the response) or revoke one.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // Verify CSRF token
+    const csrfError = await requireCsrf(req);
+    if (csrfError) return csrfError;
+
+    // Authenticate and verify admin role
+    const auth = await requireAdmin(req);
+    if (!auth.success) return auth.error;
+    const { user, profile } = auth.data;
+
+    const actor = {
+      userId: user.id,
+      email: user.email ?? null,
+      role: profile.role,
+    };
+
+    const body = (await req.json().catch(() => null)) as Record<string, unknown> | null;
+
+    if (body?.action === "create") {
+      const parsed = parseApiKeyInput(body);
+      if ("error" in parsed) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 });
+      }
+      const { name, ownerEmail, scopes, dailyQuota, expiresAt } = parsed.input;
+      const { key, hash, prefix } = generateApiKey();
+
+      const { data, error } = await supabaseAdmin
+        .from("api_keys")
+        .insert({
+          name,
+          owner_email: ownerEmail,
+          key_prefix: prefix,
+          key_hash: hash,
+          scopes,
+          daily_quota: dailyQuota,
+          expires_at: expiresAt ? expiryTimestamp(expiresAt) : null,
+          created_by: actor.email,
+        })
+        .select(KEY_COLUMNS)
+        .single();
+
+      if (error) {
+        console.error("api_keys insert error:", error);
+        await logAdminAction(actor, {
+          action: "API_KEY_CREATE",
+          status: "FAILED",
+          errorMessage: error.message,
+          meta: { name, ownerEmail, scopes },
+        });
+        return NextResponse.json(
+          { error: `Failed to create the key: ${error.message}` },
+          { status: 500 }
+        );
+      }
+
+      const row = data as ApiKeyRow;
+      await logAdminAction(actor, {
+        action: "API_KEY_CREATE",
+        targetTable: "api_keys",
+        rowsAffected: 1,
+        meta: { id: row.id, name, ownerEmail, scopes, dailyQuota, expiresAt },
+      });
+
+      return NextResponse.json({
+        key,
+        row,
+        message: `Created "${name}". Copy the key now; it won't be shown again.`,
+      });
+    }
+
+    if (body?.action === "revoke") {
+      const id = Number(body.id);
+      if (!Number.isInteger(id)) {
+        return NextResponse.json({ error: "Missing API key id." }, { status: 400 });
+      }
+
+      const { data, error } = await supabaseAdmin
+        .from("api_keys")
+        .update({ revoked_at: new Date().toISOString() })
+        .eq("id", id)
+        .is("revoked_at", null)
+        .select("name");
+
+      if (error) {
+        console.error("api_keys revoke error:", error);
+        return NextResponse.json(
+          { error: `Failed to revoke the key: ${error.message}` },
+          { status: 500 }
+        );
+      }
+      if (!data || data.length === 0) {
+        return NextResponse.json(
+          { error: "That key doesn't exist or is already revoked." },
+          { status: 404 }
+        );
+      }
+
+      await logAdminAction(actor, {
+        action: "API_KEY_REVOKE",
+        targetTable: "api_keys",
+        rowsAffected: 1,
+        meta: { id, name: data[0].name },
+      });
+
+      return NextResponse.json({
+        message: `Revoked "${data[0].name}". Requests with it are refused from now on.`,
+      });
+    }
+
+    return NextResponse.json({ error: "Unknown action." }, { status: 400 });
+  } catch (err: unknown) {
+    console.error("api keys POST error:", err);
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Unexpected error." },
+      { status: 500 }
+    );
+  }
+}
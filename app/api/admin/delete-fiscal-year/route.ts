@@ -58,6 +58,8 @@ export async function POST(req: NextRequest) {
     if (table === "budgets" || table === "actuals") {
       await safeDeleteSummaryYear("budget_actuals_year_totals", fiscalYear);
       await safeDeleteSummaryYear("budget_actuals_year_department", fiscalYear);
+      await safeDeleteSummaryYear("budget_actuals_year_fund", fiscalYear);
+      await safeDeleteSummaryYear("actuals_year_period", fiscalYear);
 
       // Recompute summaries so if the OTHER dataset still exists (budgets vs actuals),
       // the rollups get re-created correctly.
@@ -89,6 +91,7 @@ export async function POST(req: NextRequest) {
       await safeDeleteSummaryYear("transaction_year_totals", fiscalYear);
       await safeDeleteSummaryYear("transaction_year_department", fiscalYear);
       await safeDeleteSummaryYear("transaction_year_vendor", fiscalYear);
+      await safeDeleteSummaryYear("transaction_year_fund", fiscalYear);
 
       const { error: e1 } = await supabaseAdmin.rpc(
         "recompute_transaction_summaries_for_year",
@@ -0,0 +1,73 @@
+// app/api/admin/master-data/apply/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseService";
+import { requireAdmin } from "@/lib/auth";
+import { requireCsrf } from "@/lib/csrf";
+import { logAdminAction } from "@/lib/auditLog";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const maxDuration = 300; // rewrites names across every data table
+
+/**
+ * Apply the fund, department and account registries to data that is
+ * already loaded: rows get their registered names and the rollups are
+ * refreshed. New uploads are resolved as they load, so this is only needed
+ * after the registries change.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // Verify CSRF token
+    const csrfError = await requireCsrf(req);
+    if (csrfError) return csrfError;
+
+    // Authenticate and verify admin role
+    const auth = await requireAdmin(req);
+    if (!auth.success) return auth.error;
+    const { user, profile } = auth.data;
+
+    const actor = {
+      userId: user.id,
+      email: user.email ?? null,
+      role: profile.role,
+    };
+
+    const { data: changed, error } = await supabaseAdmin.rpc(
+      "apply_master_data_names"
+    );
+
+    if (error) {
+      console.error("apply_master_data_names error:", error);
+      await logAdminAction(actor, {
+        action: "MASTER_DATA_APPLY",
+        status: "FAILED",
+        errorMessage: error.message,
+      });
+      return NextResponse.json(
+        { error: `Failed to apply names: ${error.message}` },
+        { status: 500 }
+      );
+    }
+
+    const rowsAffected = typeof changed === "number" ? changed : 0;
+
+    await logAdminAction(actor, {
+      action: "MASTER_DATA_APPLY",
+      rowsAffected,
+    });
+
+    return NextResponse.json({
+      rowsAffected,
+      message:
+        rowsAffected === 0
+          ? "All loaded rows already use the registered names. The portal summaries were refreshed."
+          : `Updated ${rowsAffected.toLocaleString()} name(s) on loaded rows and refreshed the portal summaries.`,
+    });
+  } catch (err: unknown) {
+    console.error("master data apply route error:", err);
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Unexpected error." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+// app/api/admin/upload/file/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseService";
+import { requireAdmin } from "@/lib/auth";
+import { requireCsrf } from "@/lib/csrf";
+import { isUploadTable, UPLOAD_BUCKET } from "@/lib/uploadValidation";
+
+// NOTE: You must have a private Storage bucket called "data-uploads" in Supabase.
+
+/**
+ * Issue a one-time signed upload URL so the browser can send the raw file
+ * straight to Storage. Large files never pass through this function's body
+ * limit; /api/admin/upload then streams the object back for processing.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // Verify CSRF token
+    const csrfError = await requireCsrf(req);
+    if (csrfError) return csrfError;
+
+    // Authenticate and verify admin role
+    const auth = await requireAdmin(req);
+    if (!auth.success) return auth.error;
+    const { user } = auth.data;
+
+    const body = (await req.json()) as { table?: string; filename?: string };
+
+    if (!isUploadTable(body.table)) {
+      return NextResponse.json(
+        { error: "Invalid or missing table name" },
+        { status: 400 }
+      );
+    }
+
+    const safeName =
+      String(body.filename ?? "upload.csv")
+        .toLowerCase()
+        .replace(/[^a-z0-9._-]/g, "_")
+        .slice(-80) || "upload.csv";
+
+    const path = `${body.table}/${Date.now()}-${user.id.slice(0, 8)}-${safeName}`;
+
+    const { data, error } = await supabaseAdmin.storage
+      .from(UPLOAD_BUCKET)
+      .createSignedUploadUrl(path);
+
+    if (error || !data) {
+      console.error("Upload file: could not create signed upload URL", error);
+      return NextResponse.json(
+        { error: "Could not prepare file upload" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ path: data.path, token: data.token });
+  } catch (err: unknown) {
+    console.error("Upload file route error:", err);
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Unexpected server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,78 @@
+// app/api/admin/upload/jobs/[id]/resume/route.ts
+import { after, NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/auth";
+import { requireCsrf } from "@/lib/csrf";
+import {
+  claimUploadJob,
+  getUploadJobById,
+  runUploadJob,
+} from "@/lib/uploadJobs";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const maxDuration = 300; // same budget as /api/admin/upload
+
+type Context = {
+  params: Promise<{ id: string }>;
+};
+
+/**
+ * Resume a paused upload job from its last committed chunk, or retry a
+ * failed one. Returns 409 if the job is finished or another runner holds it.
+ */
+export async function POST(req: NextRequest, context: Context) {
+  try {
+    // 0) Verify CSRF token
+    const csrfError = await requireCsrf(req);
+    if (csrfError) return csrfError;
+
+    // 1) Authenticate and verify admin role
+    const auth = await requireAdmin(req);
+    if (!auth.success) return auth.error;
+    const { user, profile } = auth.data;
+
+    const { id } = await context.params;
+    const jobId = Number(id);
+    if (!Number.isInteger(jobId) || jobId <= 0) {
+      return NextResponse.json({ error: "Invalid job id" }, { status: 400 });
+    }
+
+    const job = await getUploadJobById(jobId);
+    if (!job) {
+      return NextResponse.json(
+        { error: "Upload job not found" },
+        { status: 404 }
+      );
+    }
+
+    if (job.status === "done") {
+      return NextResponse.json(
+        { error: "This upload has already finished" },
+        { status: 409 }
+      );
+    }
+
+    const claimed = await claimUploadJob(job);
+    if (!claimed) {
+      return NextResponse.json(
+        { error: "This upload is already running" },
+        { status: 409 }
+      );
+    }
+
+    const actor = {
+      userId: user.id,
+      email: user.email ?? null,
+      role: profile.role,
+    };
+    after(() => runUploadJob(claimed, actor));
+
+    return NextResponse.json({ ok: true, jobId }, { status: 202 });
+  } catch (err: unknown) {
+    console.error("Admin upload resume route error:", err);
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Unexpected server error" },
+      { status: 500 }
+    );
+  }
+}
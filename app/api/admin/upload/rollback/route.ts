@@ -0,0 +1,122 @@
+// app/api/admin/upload/rollback/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseService";
+import { requireAdmin } from "@/lib/auth";
+import { requireCsrf } from "@/lib/csrf";
+import { logAdminAction } from "@/lib/auditLog";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const maxDuration = 300; // restoring a replaced table can take a while
+
+// SQLSTATEs rollback_upload raises: a later upload or an earlier rollback is
+// in the way (object_not_in_prerequisite_state), or there is nothing to
+// restore (no_data_found). Anything else is a server error.
+const CONFLICT_CODE = "55000";
+const NOTHING_TO_RESTORE_CODE = "P0002";
+
+/**
+ * Roll back a data_uploads entry to the data it replaced.
+ *
+ * rollback_upload does the restore and the rollup refresh in one
+ * transaction, and refuses when a later upload changed the same data.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // Verify CSRF token
+    const csrfError = await requireCsrf(req);
+    if (csrfError) return csrfError;
+
+    // Authenticate and verify admin role
+    const auth = await requireAdmin(req);
+    if (!auth.success) return auth.error;
+    const { user, profile } = auth.data;
+
+    const body = (await req.json()) as { uploadId?: number };
+    const uploadId = Number(body.uploadId);
+
+    if (!Number.isInteger(uploadId) || uploadId <= 0) {
+      return NextResponse.json({ error: "Invalid upload id." }, { status: 400 });
+    }
+
+    const { data: upload, error: loadError } = await supabaseAdmin
+      .from("data_uploads")
+      .select("id, table_name, mode, fiscal_year, filename, job_id")
+      .eq("id", uploadId)
+      .maybeSingle();
+
+    if (loadError) {
+      console.error("Upload rollback: error loading upload", loadError);
+      return NextResponse.json(
+        { error: "Failed to load upload." },
+        { status: 500 }
+      );
+    }
+    if (!upload) {
+      return NextResponse.json({ error: "Upload not found." }, { status: 404 });
+    }
+
+    const actor = {
+      userId: user.id,
+      email: user.email ?? null,
+      role: profile.role,
+    };
+
+    const { data: restored, error: rollbackError } = await supabaseAdmin.rpc(
+      "rollback_upload",
+      { p_upload_id: uploadId, p_actor: user.email ?? user.id }
+    );
+
+    if (rollbackError) {
+      await logAdminAction(actor, {
+        action: "UPLOAD_ROLLBACK",
+        targetTable: upload.table_name,
+        fiscalYear: upload.fiscal_year,
+        mode: upload.mode,
+        filename: upload.filename,
+        status: "FAILED",
+        errorMessage: rollbackError.message,
+        meta: { upload_id: uploadId, job_id: upload.job_id },
+      });
+
+      // Raised exceptions are user-facing reasons (already rolled back, a
+      // later upload exists, ...), so pass them through.
+      const status =
+        rollbackError.code === CONFLICT_CODE
+          ? 409
+          : rollbackError.code === NOTHING_TO_RESTORE_CODE
+          ? 404
+          : 500;
+      if (status === 500) console.error("Upload rollback error", rollbackError);
+      return NextResponse.json(
+        { error: `Rollback failed: ${rollbackError.message}` },
+        { status }
+      );
+    }
+
+    const rowsAffected = typeof restored === "number" ? restored : 0;
+
+    await logAdminAction(actor, {
+      action: "UPLOAD_ROLLBACK",
+      targetTable: upload.table_name,
+      fiscalYear: upload.fiscal_year,
+      mode: upload.mode,
+      filename: upload.filename,
+      rowsAffected,
+      meta: { upload_id: uploadId, job_id: upload.job_id },
+    });
+
+    const message =
+      upload.mode === "append"
+        ? `Removed ${rowsAffected.toLocaleString()} row(s) added by this upload.`
+        : `Restored ${rowsAffected.toLocaleString()} row(s) from before this upload.`;
+
+    return NextResponse.json({ message, rowsAffected });
+  } catch (err: unknown) {
+    console.error("upload rollback route error:", err);
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Unexpected error." },
+      { status: 500 }
+    );
+  }
+}
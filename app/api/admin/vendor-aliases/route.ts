@@ -0,0 +1,234 @@
+// app/api/admin/vendor-aliases/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseService";
+import { requireAdmin } from "@/lib/auth";
+import { requireCsrf } from "@/lib/csrf";
+import { logAdminAction } from "@/lib/auditLog";
+import {
+  rejectionPairs,
+  type VendorMergeSuggestion,
+} from "@/lib/vendorAliases";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const maxDuration = 300; // merges refresh every transaction rollup year
+
+// Similarity threshold bounds accepted from the review queue
+const MIN_THRESHOLD = 0.3;
+const MAX_THRESHOLD = 0.95;
+const DEFAULT_THRESHOLD = 0.6;
+
+type ActionBody =
+  | { action: "merge"; canonical: string; names: string[] }
+  | { action: "reject"; names: string[] }
+  | { action: "unmerge"; alias: string };
+
+function parseNames(value: unknown): string[] | null {
+  if (!Array.isArray(value)) return null;
+  const names = value
+    .filter((v): v is string => typeof v === "string")
+    .map((v) => v.trim())
+    .filter(Boolean);
+  return names.length > 0 ? names : null;
+}
+
+/**
+ * Vendor merge suggestions for the review queue (suggest_vendor_merges).
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await requireAdmin(req);
+    if (!auth.success) return auth.error;
+
+    const param = Number(req.nextUrl.searchParams.get("threshold"));
+    const threshold = Number.isFinite(param) && param > 0
+      ? Math.min(MAX_THRESHOLD, Math.max(MIN_THRESHOLD, param))
+      : DEFAULT_THRESHOLD;
+
+    const { data, error } = await supabaseAdmin.rpc("suggest_vendor_merges", {
+      p_threshold: threshold,
+      p_limit: 300,
+    });
+
+    if (error) {
+      console.error("suggest_vendor_merges error:", error);
+      return NextResponse.json(
+        { error: `Failed to load suggestions: ${error.message}` },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      threshold,
+      suggestions: (data ?? []) as VendorMergeSuggestion[],
+    });
+  } catch (err: unknown) {
+    console.error("vendor aliases GET error:", err);
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Unexpected error." },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Accept a merge (spellings reported under a canonical vendor), reject a
+ * suggestion so it isn't offered again, or undo a merged spelling. Merges
+ * and undos refresh the transaction rollups.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // Verify CSRF token
+    const csrfError = await requireCsrf(req);
+    if (csrfError) return csrfError;
+
+    // Authenticate and verify admin role
+    const auth = await requireAdmin(req);
+    if (!auth.success) return auth.error;
+    const { user, profile } = auth.data;
+
+    const actor = {
+      userId: user.id,
+      email: user.email ?? null,
+      role: profile.role,
+    };
+
+    const body = (await req.json().catch(() => null)) as Partial<ActionBody> | null;
+
+    if (body?.action === "merge") {
+      const canonical = typeof body.canonical === "string" ? body.canonical.trim() : "";
+      const names = parseNames(body.names);
+      if (!canonical || !names) {
+        return NextResponse.json(
+          { error: "Choose the vendor name to keep and the spellings to merge." },
+          { status: 400 }
+        );
+      }
+
+      const { data: merged, error } = await supabaseAdmin.rpc("merge_vendor_names", {
+        p_canonical: canonical,
+        p_aliases: names,
+        p_created_by: actor.email,
+      });
+
+      if (error) {
+        console.error("merge_vendor_names error:", error);
+        await logAdminAction(actor, {
+          action: "VENDOR_MERGE",
+          status: "FAILED",
+          errorMessage: error.message,
+          meta: { canonical, names },
+        });
+        return NextResponse.json(
+          { error: `Failed to merge vendors: ${error.message}` },
+          { status: 500 }
+        );
+      }
+
+      const rowsAffected = typeof merged === "number" ? merged : 0;
+      await logAdminAction(actor, {
+        action: "VENDOR_MERGE",
+        targetTable: "vendor_aliases",
+        rowsAffected,
+        meta: { canonical, names },
+      });
+
+      return NextResponse.json({
+        rowsAffected,
+        message: `Merged ${rowsAffected.toLocaleString()} spelling(s) into "${canonical}" and refreshed the vendor summaries.`,
+      });
+    }
+
+    if (body?.action === "reject") {
+      const names = parseNames(body.names);
+      const pairs = names ? rejectionPairs(names) : [];
+      if (pairs.length === 0) {
+        return NextResponse.json(
+          { error: "A rejected suggestion needs at least two vendor names." },
+          { status: 400 }
+        );
+      }
+
+      const { error } = await supabaseAdmin
+        .from("vendor_merge_rejections")
+        .upsert(
+          pairs.map((p) => ({ ...p, created_by: actor.email })),
+          { onConflict: "vendor_a,vendor_b", ignoreDuplicates: true }
+        );
+
+      if (error) {
+        console.error("vendor_merge_rejections insert error:", error);
+        return NextResponse.json(
+          { error: `Failed to save the decision: ${error.message}` },
+          { status: 500 }
+        );
+      }
+
+      await logAdminAction(actor, {
+        action: "VENDOR_MERGE_REJECT",
+        targetTable: "vendor_merge_rejections",
+        rowsAffected: pairs.length,
+        meta: { names },
+      });
+
+      return NextResponse.json({
+        rowsAffected: pairs.length,
+        message: "These vendors won't be suggested as a merge again.",
+      });
+    }
+
+    if (body?.action === "unmerge") {
+      const alias = typeof body.alias === "string" ? body.alias.trim() : "";
+      if (!alias) {
+        return NextResponse.json({ error: "Missing vendor spelling." }, { status: 400 });
+      }
+
+      const { data: removed, error } = await supabaseAdmin
+        .from("vendor_aliases")
+        .delete()
+        .eq("alias", alias)
+        .select("id");
+
+      if (error) {
+        console.error("vendor_aliases delete error:", error);
+        return NextResponse.json(
+          { error: `Failed to undo the merge: ${error.message}` },
+          { status: 500 }
+        );
+      }
+      if (!removed || removed.length === 0) {
+        return NextResponse.json(
+          { error: `"${alias}" isn't merged into another vendor.` },
+          { status: 404 }
+        );
+      }
+
+      const { error: refreshError } = await supabaseAdmin.rpc("refresh_vendor_rollups");
+      if (refreshError) {
+        console.warn("Non-fatal: vendor rollup refresh failed after unmerge", refreshError);
+      }
+
+      await logAdminAction(actor, {
+        action: "VENDOR_UNMERGE",
+        targetTable: "vendor_aliases",
+        rowsAffected: removed.length,
+        meta: { alias },
+      });
+
+      return NextResponse.json({
+        rowsAffected: removed.length,
+        message: refreshError
+          ? `"${alias}" is its own vendor again. The vendor summaries could not be refreshed; merge or undo again to retry.`
+          : `"${alias}" is its own vendor again.`,
+      });
+    }
+
+    return NextResponse.json({ error: "Unknown action." }, { status: 400 });
+  } catch (err: unknown) {
+    console.error("vendor aliases POST error:", err);
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Unexpected error." },
+      { status: 500 }
+    );
+  }
+}
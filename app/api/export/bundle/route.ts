@@ -0,0 +1,147 @@
+// app/api/export/bundle/route.ts
+//
+// "Download everything" for one fiscal year: a zip with a CSV per
+// published table and a README data dictionary. The README is the last
+// entry, so it can say which tables ran out of time.
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import {
+  csvNoticeRow,
+  csvSafe,
+  EXPORT_ROW_LIMIT,
+  EXPORT_TIME_BUDGET_MS,
+  EXPORT_TRUNCATED_HEADER,
+  exportStopNotice,
+  type ExportStop,
+} from "@/lib/exportStream";
+import { bundleReadme, type ExportFilters } from "@/lib/exportFormats";
+import {
+  checkExportRateLimit,
+  EXPORT_DATA_TYPES,
+  EXPORT_TABLE_INFO,
+  getExportSettings,
+  isExportEnabled,
+  openExportTable,
+  type ExportDataType,
+} from "@/lib/exportQuery";
+import { zipStream } from "@/lib/exportWriters";
+
+export const maxDuration = 300; // same budget as a single-table export
+
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const SUPABASE_ANON_KEY = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+  throw new Error("Missing Supabase URL or anon key env vars for export bundle route");
+}
+
+export async function GET(req: NextRequest) {
+  const yearParam = new URL(req.url).searchParams.get("year") ?? "";
+  const year = Number(yearParam);
+  if (!/^\d{4}$/.test(yearParam) || !Number.isInteger(year)) {
+    return NextResponse.json({ error: "Choose a fiscal year to download" }, { status: 400 });
+  }
+
+  // One bundle counts as one export against the rate limits
+  const { blocked, remaining } = await checkExportRateLimit(req);
+  if (blocked) return blocked;
+
+  try {
+    const supabase = createClient(SUPABASE_URL, SUPABASE_ANON_KEY);
+
+    const settings = await getExportSettings(supabase);
+    if (!settings) {
+      return NextResponse.json(
+        { error: "Failed to load portal settings" },
+        { status: 500 }
+      );
+    }
+
+    const filters: ExportFilters = {
+      years: [String(year)],
+      departments: [],
+      vendors: [],
+      sources: [],
+      startDate: null,
+      endDate: null,
+    };
+
+    const dataTypes = EXPORT_DATA_TYPES.filter((t) => isExportEnabled(t, settings));
+    let tables;
+    try {
+      tables = await Promise.all(
+        dataTypes.map(async (dataType) => ({
+          dataType,
+          table: await openExportTable(supabase, dataType, filters, settings),
+        }))
+      );
+    } catch {
+      return NextResponse.json(
+        { error: `Failed to count FY${year} data for export` },
+        { status: 500 }
+      );
+    }
+
+    // One time budget across the whole bundle, checked between pages and
+    // before each table; a table it cuts short ends with a notice row
+    const deadline = Date.now() + EXPORT_TIME_BUDGET_MS;
+    const stops = new Map<ExportDataType, ExportStop>();
+
+    const body = zipStream([
+      ...tables.map(({ dataType, table }) => ({
+        name: `${dataType}.csv`,
+        content: (async function* () {
+          const onStop = (stop: ExportStop) => {
+            stops.set(dataType, stop);
+          };
+          yield table.columns.join(",");
+          if (Date.now() < deadline) {
+            for await (const row of table.rows({ deadline, onStop })) {
+              yield table.columns.map((col) => csvSafe(row[col])).join(",");
+            }
+          } else if (table.count > 0) {
+            onStop({ reason: "time_budget", rowsSent: 0 });
+          }
+          const stop = stops.get(dataType);
+          if (stop) yield csvNoticeRow(exportStopNotice(stop, table.count), table.columns);
+        })(),
+      })),
+      {
+        name: "README.md",
+        content: (async function* () {
+          yield bundleReadme({
+            title: `FY${year} financial data`,
+            exportedAt: new Date(),
+            tables: tables.map(({ dataType, table }) => ({
+              file: `${dataType}.csv`,
+              title: EXPORT_TABLE_INFO[dataType].title,
+              description: EXPORT_TABLE_INFO[dataType].description,
+              columns: table.columns,
+              rowCount: table.count,
+              stop: stops.get(dataType),
+            })),
+          });
+        })(),
+      },
+    ]);
+
+    const filename = `FY${year}_all-data_${new Date().toISOString().split("T")[0]}.zip`;
+    const truncated = tables.some(({ table }) => table.truncated);
+
+    return new NextResponse(body, {
+      status: 200,
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        "X-RateLimit-Remaining": String(remaining),
+        ...(truncated ? { [EXPORT_TRUNCATED_HEADER]: String(EXPORT_ROW_LIMIT) } : {}),
+      },
+    });
+  } catch (err: unknown) {
+    console.error(`Export bundle FY${year} route error:`, err);
+    return NextResponse.json(
+      { error: "Unexpected server error during export" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,11 @@
 // app/api/export/count/route.ts
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
+import {
+  expandDepartmentFilter,
+  type DepartmentAlias,
+} from "@/lib/departmentAliases";
+import { expandVendorFilter, type VendorAlias } from "@/lib/vendorAliases";
 
 const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL!;
 const SUPABASE_ANON_KEY = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
@@ -59,11 +64,21 @@ export async function GET(req: NextRequest) {
     }
 
     if (departments.length > 0 && ["budgets", "actuals", "transactions"].includes(dataType)) {
-      query = query.in("department_name", departments);
+      // Include rows filed under the departments' old names
+      const { data: aliases } = await supabase.from("department_aliases").select("*");
+      query = query.in(
+        "department_name",
+        expandDepartmentFilter((aliases ?? []) as DepartmentAlias[], departments)
+      );
     }
 
     if (vendors.length > 0 && dataType === "transactions" && enableVendors) {
-      query = query.in("vendor", vendors);
+      // Include every merged spelling of the vendors
+      const { data: aliases } = await supabase.from("vendor_aliases").select("*");
+      query = query.in(
+        "vendor",
+        expandVendorFilter((aliases ?? []) as VendorAlias[], vendors)
+      );
     }
 
     if (sources.length > 0 && dataType === "revenues") {
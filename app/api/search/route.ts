@@ -2,6 +2,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
 import { sanitizeSearchInput } from "@/lib/format";
+import {
+  findAliasedDepartments,
+  type DepartmentAlias,
+} from "@/lib/departmentAliases";
+import { findAliasedVendors, type VendorAlias } from "@/lib/vendorAliases";
 
 const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL!;
 const SUPABASE_ANON_KEY = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
@@ -67,6 +72,32 @@ export async function GET(req: NextRequest): Promise<NextResponse> {
     const searchPattern = `%${sanitized}%`;
     const fiscalYear = year ? Number(year) : null;
 
+    // Old department names (renames/mergers) find the department they are
+    // reported under now. Shared by the department search and count below.
+    const aliasedDepartmentsPromise = (async () => {
+      const { data, error } = await supabase
+        .from("department_aliases")
+        .select("*");
+      if (error) {
+        console.error("Department alias search error:", error);
+        return [];
+      }
+      return findAliasedDepartments((data ?? []) as DepartmentAlias[], sanitized);
+    })();
+
+    // Merged vendor spellings find the canonical vendor the same way
+    const aliasedVendorsPromise = (async () => {
+      const { data, error } = await supabase
+        .from("vendor_aliases")
+        .select("alias, canonical_vendor")
+        .ilike("alias", searchPattern);
+      if (error) {
+        console.error("Vendor alias search error:", error);
+        return [];
+      }
+      return findAliasedVendors((data ?? []) as VendorAlias[], sanitized);
+    })();
+
     // Run queries in parallel for performance
     const [deptResult, vendorResult, txnResult, deptCount, vendorCount, txnCount] = await Promise.all([
       // 1. Search departments from summary table
@@ -81,16 +112,33 @@ export async function GET(req: NextRequest): Promise<NextResponse> {
           q = q.eq("fiscal_year", fiscalYear);
         }
 
-        const { data, error } = await q;
+        const aliased = await aliasedDepartmentsPromise;
+        let aliasQ = supabase
+          .from("budget_actuals_year_department")
+          .select("department_name, budget_amount, actual_amount")
+          .in("department_name", aliased)
+          .limit(LIMIT_PER_CATEGORY);
+
+        if (fiscalYear && Number.isFinite(fiscalYear)) {
+          aliasQ = aliasQ.eq("fiscal_year", fiscalYear);
+        }
+
+        const [{ data, error }, aliasResult] = await Promise.all([
+          q,
+          aliased.length > 0 ? aliasQ : Promise.resolve({ data: [], error: null }),
+        ]);
         if (error) {
           console.error("Department search error:", error);
           return [];
         }
+        if (aliasResult.error) {
+          console.error("Aliased department search error:", aliasResult.error);
+        }
 
         // Deduplicate by department name (in case of multiple years)
         const seen = new Set<string>();
         const unique: DepartmentResult[] = [];
-        for (const row of data || []) {
+        for (const row of [...(data || []), ...(aliasResult.data || [])]) {
           const name = row.department_name?.toLowerCase();
           if (name && !seen.has(name)) {
             seen.add(name);
@@ -117,16 +165,34 @@ export async function GET(req: NextRequest): Promise<NextResponse> {
           q = q.eq("fiscal_year", fiscalYear);
         }
 
-        const { data, error } = await q;
+        const aliased = await aliasedVendorsPromise;
+        let aliasQ = supabase
+          .from("transaction_year_vendor")
+          .select("vendor, total_amount, txn_count")
+          .in("vendor", aliased)
+          .order("total_amount", { ascending: false })
+          .limit(LIMIT_PER_CATEGORY);
+
+        if (fiscalYear && Number.isFinite(fiscalYear)) {
+          aliasQ = aliasQ.eq("fiscal_year", fiscalYear);
+        }
+
+        const [{ data, error }, aliasResult] = await Promise.all([
+          q,
+          aliased.length > 0 ? aliasQ : Promise.resolve({ data: [], error: null }),
+        ]);
         if (error) {
           console.error("Vendor search error:", error);
           return [];
         }
+        if (aliasResult.error) {
+          console.error("Aliased vendor search error:", aliasResult.error);
+        }
 
         // Deduplicate by vendor name
         const seen = new Set<string>();
         const unique: VendorResult[] = [];
-        for (const row of data || []) {
+        for (const row of [...(data || []), ...(aliasResult.data || [])]) {
           const name = row.vendor?.toLowerCase();
           if (name && !seen.has(name)) {
             seen.add(name);
@@ -181,13 +247,17 @@ export async function GET(req: NextRequest): Promise<NextResponse> {
           q = q.eq("fiscal_year", fiscalYear);
         }
 
-        const { data, error } = await q;
+        const [{ data, error }, aliased] = await Promise.all([
+          q,
+          aliasedDepartmentsPromise,
+        ]);
         if (error) {
           console.error("Department count error:", error);
           return 0;
         }
-        // Count unique department names
+        // Count unique department names, including those found by an old name
         const uniqueNames = new Set((data || []).map(r => r.department_name?.toLowerCase()));
+        aliased.forEach((name) => uniqueNames.add(name.toLowerCase()));
         return uniqueNames.size;
       })(),
 
@@ -202,13 +272,17 @@ export async function GET(req: NextRequest): Promise<NextResponse> {
           q = q.eq("fiscal_year", fiscalYear);
         }
 
-        const { data, error } = await q;
+        const [{ data, error }, aliased] = await Promise.all([
+          q,
+          aliasedVendorsPromise,
+        ]);
         if (error) {
           console.error("Vendor count error:", error);
           return 0;
         }
-        // Count unique vendor names
+        // Count unique vendor names, including those found by another spelling
         const uniqueNames = new Set((data || []).map(r => r.vendor?.toLowerCase()));
+        aliased.forEach((name) => uniqueNames.add(name.toLowerCase()));
         return uniqueNames.size;
       })(),
 
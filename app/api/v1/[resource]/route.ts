@@ -0,0 +1,145 @@
+// app/api/v1/[resource]/route.ts
+//
+// Public read-only API: one keyset page of a resource as JSON or CSV.
+// Resources and parameters are defined in lib/publicApi; the OpenAPI
+// document at /api/v1/openapi.json is generated from the same definitions.
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { createHash } from "crypto";
+import { rateLimitAsync } from "@/lib/rateLimit";
+import { getClientIp } from "@/lib/publicRateLimit";
+import { csvSafe } from "@/lib/exportStream";
+import { checkApiKeyQuota } from "@/lib/apiKeyAuth";
+import { API_KEY_HEADER } from "@/lib/apiKeys";
+import {
+  API_RATE_LIMIT,
+  fetchApiPage,
+  findApiResource,
+  getApiSettings,
+  isResourceEnabled,
+  parseApiQuery,
+} from "@/lib/publicApi";
+
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const SUPABASE_ANON_KEY = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+  throw new Error("Missing Supabase URL or anon key env vars for public API route");
+}
+
+// Any site may call the API from the browser
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Expose-Headers": "Link, X-Next-Cursor, X-RateLimit-Remaining",
+};
+
+function apiError(message: string, status: number, headers: Record<string, string> = {}) {
+  return NextResponse.json({ error: message }, { status, headers: { ...CORS_HEADERS, ...headers } });
+}
+
+// Preflight for browser requests that send an API key header
+export function OPTIONS() {
+  return new NextResponse(null, {
+    status: 204,
+    headers: {
+      ...CORS_HEADERS,
+      "Access-Control-Allow-Methods": "GET, OPTIONS",
+      "Access-Control-Allow-Headers": `${API_KEY_HEADER}, Authorization, Accept`,
+      "Access-Control-Max-Age": "86400",
+    },
+  });
+}
+
+type Context = {
+  params: Promise<{ resource: string }>;
+};
+
+export async function GET(req: NextRequest, context: Context) {
+  const { resource: name } = await context.params;
+  const resource = findApiResource(name);
+  if (!resource) {
+    return apiError(`Unknown resource: ${name}`, 404);
+  }
+
+  // A partner's API key has its own daily quota; everyone else is limited
+  // per IP
+  let remaining: number;
+  const keyed = await checkApiKeyQuota(req, "api");
+  if (keyed) {
+    if (keyed.blocked) {
+      for (const [header, value] of Object.entries(CORS_HEADERS)) {
+        keyed.blocked.headers.set(header, value);
+      }
+      return keyed.blocked;
+    }
+    remaining = keyed.remaining;
+  } else {
+    // Hash IP for privacy, as the export routes do
+    const ipHash = createHash("sha256")
+      .update(getClientIp(req) + (process.env.RATE_LIMIT_SALT || "civiportal"))
+      .digest("hex")
+      .slice(0, 16);
+    const limit = await rateLimitAsync(`api:${ipHash}`, API_RATE_LIMIT, 60 * 1000);
+    if (!limit.allowed) {
+      return apiError("Too many requests. Please slow down.", 429, {
+        "Retry-After": String(limit.resetInSeconds),
+        "X-RateLimit-Remaining": "0",
+      });
+    }
+    remaining = limit.remaining;
+  }
+
+  try {
+    const supabase = createClient(SUPABASE_URL, SUPABASE_ANON_KEY);
+
+    const settings = await getApiSettings(supabase);
+    if (!settings) {
+      return apiError("Failed to load portal settings", 500);
+    }
+    if (!settings.published || !isResourceEnabled(resource, settings)) {
+      return apiError(`Unknown resource: ${name}`, 404);
+    }
+
+    const url = new URL(req.url);
+    const parsed = parseApiQuery(resource, url.searchParams, settings, req.headers.get("accept"));
+    if ("error" in parsed) {
+      return apiError(parsed.error, 400);
+    }
+    const { query } = parsed;
+
+    let page;
+    try {
+      page = await fetchApiPage(supabase, resource, query);
+    } catch {
+      return apiError(`Failed to load ${resource.name}`, 500);
+    }
+
+    const headers: Record<string, string> = {
+      ...CORS_HEADERS,
+      "Cache-Control": "public, max-age=60",
+      "X-RateLimit-Remaining": String(remaining),
+    };
+    if (page.nextCursor) {
+      const next = new URL(url);
+      next.searchParams.set("cursor", page.nextCursor);
+      headers["Link"] = `<${next.toString()}>; rel="next"`;
+      headers["X-Next-Cursor"] = page.nextCursor;
+    }
+
+    if (query.format === "csv") {
+      const lines = [
+        query.fields.join(","),
+        ...page.rows.map((row) => query.fields.map((f) => csvSafe(row[f])).join(",")),
+      ];
+      return new NextResponse(lines.join("\n"), {
+        status: 200,
+        headers: { ...headers, "Content-Type": "text/csv; charset=utf-8" },
+      });
+    }
+
+    return NextResponse.json({ data: page.rows, next_cursor: page.nextCursor }, { headers });
+  } catch (err: unknown) {
+    console.error(`API ${name} route error:`, err);
+    return apiError("Unexpected server error", 500);
+  }
+}
@@ -0,0 +1,39 @@
+// app/api/v1/openapi.json/route.ts
+//
+// OpenAPI document for the public API, limited to the resources this
+// portal publishes.
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { getApiSettings } from "@/lib/publicApi";
+import { buildOpenApiDocument } from "@/lib/openApi";
+
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const SUPABASE_ANON_KEY = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+  throw new Error("Missing Supabase URL or anon key env vars for OpenAPI route");
+}
+
+const CORS_HEADERS = { "Access-Control-Allow-Origin": "*" };
+
+export async function GET(req: NextRequest) {
+  const supabase = createClient(SUPABASE_URL, SUPABASE_ANON_KEY);
+
+  const settings = await getApiSettings(supabase);
+  if (!settings) {
+    return NextResponse.json(
+      { error: "Failed to load portal settings" },
+      { status: 500, headers: CORS_HEADERS }
+    );
+  }
+  if (!settings.published) {
+    return NextResponse.json(
+      { error: "This portal is not published" },
+      { status: 404, headers: CORS_HEADERS }
+    );
+  }
+
+  return NextResponse.json(buildOpenApiDocument(settings, new URL(req.url).origin), {
+    headers: { ...CORS_HEADERS, "Cache-Control": "public, max-age=300" },
+  });
+}
@@ -0,0 +1,24 @@
+// app/data.json/route.ts
+//
+// DCAT-US (Project Open Data v1.1) catalog of the portal's datasets, at
+// the path open-data portals and data.gov harvesters look for.
+import { NextRequest, NextResponse } from "next/server";
+import { buildDcatCatalog, getCatalogSources } from "@/lib/openDataCatalog";
+
+export const dynamic = "force-dynamic";
+
+const CORS_HEADERS = { "Access-Control-Allow-Origin": "*" };
+
+export async function GET(req: NextRequest) {
+  const sources = await getCatalogSources(new URL(req.url).origin);
+  if (!sources) {
+    return NextResponse.json(
+      { error: "This portal is not published" },
+      { status: 404, headers: CORS_HEADERS }
+    );
+  }
+
+  return NextResponse.json(buildDcatCatalog(sources), {
+    headers: { ...CORS_HEADERS, "Cache-Control": "public, max-age=3600" },
+  });
+}
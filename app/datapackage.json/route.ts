@@ -0,0 +1,24 @@
+// app/datapackage.json/route.ts
+//
+// Frictionless Data Package describing the portal's datasets, for tools
+// that load a package's CSV resources with their schemas.
+import { NextRequest, NextResponse } from "next/server";
+import { buildDataPackage, getCatalogSources } from "@/lib/openDataCatalog";
+
+export const dynamic = "force-dynamic";
+
+const CORS_HEADERS = { "Access-Control-Allow-Origin": "*" };
+
+export async function GET(req: NextRequest) {
+  const sources = await getCatalogSources(new URL(req.url).origin);
+  if (!sources) {
+    return NextResponse.json(
+      { error: "This portal is not published" },
+      { status: 404, headers: CORS_HEADERS }
+    );
+  }
+
+  return NextResponse.json(buildDataPackage(sources), {
+    headers: { ...CORS_HEADERS, "Cache-Control": "public, max-age=3600" },
+  });
+}
@@ -22,6 +22,7 @@ const NAV_ROW_1: { href: string; label: string }[] = [
   { href: "upload", label: "Data upload" },
   { href: "upload/history", label: "Upload history" },
   { href: "data", label: "Data management" },
+  { href: "master-data", label: "Funds & departments" },
   { href: "settings", label: "Branding & settings" },
   { href: "users", label: "Users & roles" },
 ];
@@ -29,6 +30,8 @@ const NAV_ROW_1: { href: string; label: string }[] = [
 const NAV_ROW_2: { href: string; label: string }[] = [
   { href: "onboarding", label: "Onboarding checklist" },
   { href: "publish", label: "Publish status" },
+  { href: "vendors", label: "Vendor names" },
+  { href: "api-keys", label: "API keys" },
   { href: "help", label: "Help & FAQs" },
 ];
 
@@ -210,11 +213,11 @@ export default function AdminShell({
               <div className="grid grid-cols-6 border-b border-slate-200">
                 {NAV_ROW_1.map(renderNavItem)}
               </div>
-              {/* Row 2 - 3 tabs aligned to first 3 columns */}
+              {/* Row 2 - 5 tabs aligned to first 5 columns */}
               <div className="grid grid-cols-6 border-b border-slate-200">
                 {NAV_ROW_2.map(renderNavItem)}
-                {/* Empty cells for columns 4-6 */}
-                <div className="col-span-3" />
+                {/* Empty cell for column 6 */}
+                <div />
               </div>
             </nav>
 
@@ -0,0 +1,457 @@
+// components/Admin/ApiKeysManager.tsx
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { supabase } from "@/lib/supabase";
+import { csrfFetch } from "@/components/CsrfProvider";
+import { formatDate } from "@/lib/format";
+import {
+  API_KEY_HEADER,
+  API_KEY_SCOPE_LABELS,
+  API_KEY_SCOPES,
+  apiKeyStatus,
+  DEFAULT_DAILY_QUOTA,
+  summarizeApiKeyUsage,
+  type ApiKeyRow,
+  type ApiKeyScope,
+  type ApiKeyUsageRow,
+} from "@/lib/apiKeys";
+
+type KeysResponse = {
+  today: string;
+  keys: ApiKeyRow[];
+  usage: ApiKeyUsageRow[];
+};
+
+type Draft = {
+  name: string;
+  ownerEmail: string;
+  scopes: ApiKeyScope[];
+  dailyQuota: string;
+  expiresAt: string;
+};
+
+const EMPTY_DRAFT: Draft = {
+  name: "",
+  ownerEmail: "",
+  scopes: ["api"],
+  dailyQuota: String(DEFAULT_DAILY_QUOTA),
+  expiresAt: "",
+};
+
+const INPUT_CLASS =
+  "h-9 w-full rounded-md border border-slate-200 bg-white px-2 text-sm text-slate-900 shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-slate-900";
+
+const BUTTON_CLASS =
+  "rounded-md border border-slate-300 px-3 py-1.5 text-xs font-medium text-slate-700 hover:bg-slate-50 disabled:opacity-50 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-slate-900 focus-visible:ring-offset-2";
+
+const STATUS_CLASS: Record<ReturnType<typeof apiKeyStatus>, string> = {
+  active: "bg-emerald-50 text-emerald-800",
+  expired: "bg-amber-50 text-amber-800",
+  revoked: "bg-slate-100 text-slate-600",
+};
+
+async function getAccessToken(): Promise<string | null> {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+  return session?.access_token ?? null;
+}
+
+// Calls per day as a row of bars, tallest day full height
+function UsageBars({ daily }: { daily: { day: string; calls: number }[] }) {
+  const max = Math.max(1, ...daily.map((d) => d.calls));
+  return (
+    <div className="flex h-8 items-end gap-px" aria-hidden="true">
+      {daily.map((d) => (
+        <span
+          key={d.day}
+          title={`${d.day}: ${d.calls.toLocaleString("en-US")}`}
+          className="w-1.5 rounded-sm bg-slate-700"
+          style={{ height: `${Math.max(d.calls > 0 ? 8 : 2, (d.calls / max) * 100)}%` }}
+        />
+      ))}
+    </div>
+  );
+}
+
+export default function ApiKeysManager() {
+  const [data, setData] = useState<KeysResponse | null>(null);
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(
+    null
+  );
+
+  const load = useCallback(async () => {
+    try {
+      const token = await getAccessToken();
+      if (!token) {
+        setMessage({
+          text: "You must be signed in as an admin. Please log in again.",
+          isError: true,
+        });
+        return;
+      }
+
+      const res = await fetch("/api/admin/api-keys", {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const body = (await res.json().catch(() => null)) as
+        | KeysResponse
+        | { error?: string }
+        | null;
+
+      if (!res.ok) {
+        setMessage({
+          text:
+            (body as { error?: string } | null)?.error ||
+            `Failed to load API keys (HTTP ${res.status.toString()})`,
+          isError: true,
+        });
+        return;
+      }
+      setData(body as KeysResponse);
+    } catch (err: unknown) {
+      console.error("ApiKeysManager: load error", err);
+      setMessage({
+        text: err instanceof Error ? err.message : "Failed to load API keys.",
+        isError: true,
+      });
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function post(
+    key: string,
+    payload: Record<string, unknown>
+  ): Promise<Record<string, unknown> | null> {
+    setBusy(key);
+    setMessage(null);
+    try {
+      const token = await getAccessToken();
+      if (!token) {
+        setMessage({
+          text: "You must be signed in as an admin. Please log in again.",
+          isError: true,
+        });
+        return null;
+      }
+
+      const res = await csrfFetch("/api/admin/api-keys", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify(payload),
+      });
+      const json = await res.json().catch(() => null);
+
+      if (!res.ok) {
+        setMessage({
+          text: json?.error || "Request failed. Please try again.",
+          isError: true,
+        });
+        return null;
+      }
+
+      setMessage({ text: json?.message ?? "Saved.", isError: false });
+      return json ?? {};
+    } catch (err: unknown) {
+      console.error("ApiKeysManager: request error", err);
+      setMessage({
+        text: err instanceof Error ? err.message : "Request failed.",
+        isError: true,
+      });
+      return null;
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function handleCreate() {
+    const json = await post("create", {
+      action: "create",
+      name: draft.name,
+      ownerEmail: draft.ownerEmail,
+      scopes: draft.scopes,
+      dailyQuota: Number(draft.dailyQuota.replace(/,/g, "")),
+      expiresAt: draft.expiresAt || null,
+    });
+    if (!json) return;
+
+    setNewKey(typeof json.key === "string" ? json.key : null);
+    setDraft(EMPTY_DRAFT);
+    await load();
+  }
+
+  async function handleRevoke(key: ApiKeyRow) {
+    const ok = window.confirm(
+      `Revoke "${key.name}"? Requests with this key will be refused immediately. This can't be undone.`
+    );
+    if (!ok) return;
+
+    if (await post(`revoke:${key.id}`, { action: "revoke", id: key.id })) {
+      await load();
+    }
+  }
+
+  function toggleScope(scope: ApiKeyScope) {
+    setDraft((prev) => ({
+      ...prev,
+      scopes: prev.scopes.includes(scope)
+        ? prev.scopes.filter((s) => s !== scope)
+        : [...prev.scopes, scope],
+    }));
+  }
+
+  const usage = useMemo(
+    () => (data ? summarizeApiKeyUsage(data.usage, data.today) : new Map()),
+    [data]
+  );
+
+  return (
+    <div className="space-y-4">
+      {message && (
+        <p
+          role={message.isError ? "alert" : "status"}
+          className={`text-xs ${message.isError ? "text-red-700" : "text-emerald-700"}`}
+        >
+          {message.text}
+        </p>
+      )}
+
+      <section
+        aria-labelledby="new-api-key-heading"
+        className="rounded-xl border border-slate-200 bg-white p-4 text-xs shadow-sm"
+      >
+        <h2 id="new-api-key-heading" className="text-sm font-semibold text-slate-900">
+          Issue a key
+        </h2>
+        <p className="mt-1 text-slate-600">
+          Partners send the key in the <span className="font-mono">{API_KEY_HEADER}</span>{" "}
+          header. Requests with a key count against its daily quota instead of
+          the per-visitor limits, so scheduled jobs aren&apos;t cut off.
+        </p>
+
+        <div className="mt-3 grid gap-3 sm:grid-cols-2">
+          <div>
+            <label htmlFor="api-key-name" className="mb-1 block text-xs font-medium text-slate-700">
+              Name
+            </label>
+            <input
+              id="api-key-name"
+              type="text"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              placeholder="e.g. Open Budget Coalition nightly sync"
+              className={INPUT_CLASS}
+            />
+          </div>
+          <div>
+            <label htmlFor="api-key-owner" className="mb-1 block text-xs font-medium text-slate-700">
+              Owner email
+            </label>
+            <input
+              id="api-key-owner"
+              type="email"
+              value={draft.ownerEmail}
+              onChange={(e) => setDraft({ ...draft, ownerEmail: e.target.value })}
+              className={INPUT_CLASS}
+            />
+          </div>
+          <div>
+            <label htmlFor="api-key-quota" className="mb-1 block text-xs font-medium text-slate-700">
+              Requests per day
+            </label>
+            <input
+              id="api-key-quota"
+              type="text"
+              inputMode="numeric"
+              value={draft.dailyQuota}
+              onChange={(e) => setDraft({ ...draft, dailyQuota: e.target.value })}
+              className={INPUT_CLASS}
+            />
+          </div>
+          <div>
+            <label htmlFor="api-key-expiry" className="mb-1 block text-xs font-medium text-slate-700">
+              Expires after
+            </label>
+            <input
+              id="api-key-expiry"
+              type="date"
+              value={draft.expiresAt}
+              onChange={(e) => setDraft({ ...draft, expiresAt: e.target.value })}
+              className={INPUT_CLASS}
+            />
+          </div>
+        </div>
+
+        <fieldset className="mt-3">
+          <legend className="mb-1 text-xs font-medium text-slate-700">Can access</legend>
+          <div className="flex flex-wrap gap-4">
+            {API_KEY_SCOPES.map((scope) => (
+              <label key={scope} className="inline-flex items-center gap-2 text-sm text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={draft.scopes.includes(scope)}
+                  onChange={() => toggleScope(scope)}
+                />
+                {API_KEY_SCOPE_LABELS[scope]}
+              </label>
+            ))}
+          </div>
+        </fieldset>
+
+        <button
+          type="button"
+          onClick={handleCreate}
+          disabled={busy !== null || draft.scopes.length === 0}
+          className="mt-3 rounded-md bg-slate-900 px-4 py-2 text-sm font-medium text-white hover:bg-slate-700 disabled:opacity-50 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-slate-900 focus-visible:ring-offset-2"
+        >
+          {busy === "create" ? "Creating..." : "Create key"}
+        </button>
+
+        {newKey && (
+          <div className="mt-3 rounded-lg border border-amber-200 bg-amber-50 p-3">
+            <p className="font-medium text-amber-900">
+              Copy this key and send it to the owner. It won&apos;t be shown again.
+            </p>
+            <div className="mt-2 flex flex-wrap items-center gap-2">
+              <code className="break-all rounded bg-white px-2 py-1 font-mono text-xs text-slate-900 ring-1 ring-amber-200">
+                {newKey}
+              </code>
+              <button
+                type="button"
+                onClick={() => navigator.clipboard?.writeText(newKey)}
+                className={BUTTON_CLASS}
+              >
+                Copy
+              </button>
+              <button type="button" onClick={() => setNewKey(null)} className={BUTTON_CLASS}>
+                Done
+              </button>
+            </div>
+          </div>
+        )}
+      </section>
+
+      <section
+        aria-labelledby="api-keys-heading"
+        className="rounded-xl border border-slate-200 bg-white p-4 text-xs shadow-sm"
+      >
+        <h2 id="api-keys-heading" className="text-sm font-semibold text-slate-900">
+          Keys and usage
+          {data && (
+            <span className="ml-2 text-xs font-normal text-slate-500">
+              ({data.keys.length.toLocaleString("en-US")})
+            </span>
+          )}
+        </h2>
+        <p className="mt-1 text-slate-600">
+          Calls per key over the last 30 days (UTC), API and exports combined.
+        </p>
+
+        {data === null ? (
+          <p className="mt-3 text-slate-600">Loading…</p>
+        ) : data.keys.length === 0 ? (
+          <p className="mt-3 text-slate-600">No keys have been issued.</p>
+        ) : (
+          <div className="mt-3 overflow-x-auto">
+            <table className="min-w-full border-collapse text-xs">
+              <thead className="bg-slate-50 text-[11px] uppercase tracking-[0.14em] text-slate-500">
+                <tr>
+                  <th className="px-2 py-2 text-left font-semibold">Key</th>
+                  <th className="px-2 py-2 text-left font-semibold">Access</th>
+                  <th className="px-2 py-2 text-right font-semibold">Today</th>
+                  <th className="px-2 py-2 text-right font-semibold">7 days</th>
+                  <th className="px-2 py-2 text-right font-semibold">30 days</th>
+                  <th className="px-2 py-2 text-left font-semibold">Daily calls</th>
+                  <th className="px-2 py-2 text-left font-semibold">
+                    <span className="sr-only">Actions</span>
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="text-slate-700">
+                {data.keys.map((key) => {
+                  const status = apiKeyStatus(key);
+                  const summary = usage.get(key.id);
+                  return (
+                    <tr key={key.id} className="border-b border-slate-100 align-top last:border-b-0">
+                      <td className="px-2 py-2">
+                        <div className="font-medium text-slate-900">{key.name}</div>
+                        <div className="text-slate-500">{key.owner_email}</div>
+                        <div className="mt-1 flex flex-wrap items-center gap-2">
+                          <code className="font-mono text-[11px] text-slate-500">
+                            {key.key_prefix}…
+                          </code>
+                          <span
+                            className={`rounded-full px-2 py-0.5 text-[11px] font-medium ${STATUS_CLASS[status]}`}
+                          >
+                            {status}
+                          </span>
+                        </div>
+                        <div className="mt-1 text-[11px] text-slate-500">
+                          {key.expires_at
+                            ? `Expires ${formatDate(key.expires_at)}`
+                            : "No expiry"}
+                          {" · "}
+                          {key.last_used_at
+                            ? `Last used ${formatDate(key.last_used_at)}`
+                            : "Never used"}
+                        </div>
+                      </td>
+                      <td className="px-2 py-2">
+                        <ul>
+                          {key.scopes.map((scope) => (
+                            <li key={scope}>{API_KEY_SCOPE_LABELS[scope]}</li>
+                          ))}
+                        </ul>
+                        <div className="mt-1 text-slate-500">
+                          {key.daily_quota.toLocaleString("en-US")} / day
+                        </div>
+                      </td>
+                      <td className="px-2 py-2 text-right">
+                        {(summary?.today ?? 0).toLocaleString("en-US")}
+                      </td>
+                      <td className="px-2 py-2 text-right">
+                        {(summary?.last7Days ?? 0).toLocaleString("en-US")}
+                      </td>
+                      <td className="px-2 py-2 text-right">
+                        {(summary?.total ?? 0).toLocaleString("en-US")}
+                      </td>
+                      <td className="px-2 py-2">
+                        {summary ? (
+                          <UsageBars daily={summary.daily} />
+                        ) : (
+                          <span className="text-slate-400">No calls</span>
+                        )}
+                      </td>
+                      <td className="px-2 py-2 text-right">
+                        {status !== "revoked" && (
+                          <button
+                            type="button"
+                            onClick={() => handleRevoke(key)}
+                            disabled={busy !== null}
+                            className={BUTTON_CLASS}
+                          >
+                            {busy === `revoke:${key.id}` ? "Revoking..." : "Revoke"}
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
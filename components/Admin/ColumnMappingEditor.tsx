@@ -0,0 +1,354 @@
+// components/Admin/ColumnMappingEditor.tsx
+"use client";
+
+import { useState } from "react";
+import { supabase } from "@/lib/supabase";
+import {
+  computeHeaderSignature,
+  createRowMapper,
+  DERIVED_RULE_LABELS,
+  validateColumnMapping,
+  type ColumnMapping,
+  type DerivedRule,
+  type FieldSource,
+} from "@/lib/columnMapping";
+import { TABLE_SCHEMAS, type UploadTable } from "@/lib/uploadValidation";
+
+type Props = {
+  table: UploadTable;
+  headers: string[]; // source file headers
+  sampleRow: string[] | null; // first data row, for the "Sample" column
+  mapping: ColumnMapping;
+  profileName: string | null; // saved profile the mapping came from
+  onChange: (mapping: ColumnMapping) => void;
+  onProfileSaved: (name: string) => void;
+};
+
+// Encode a field source as a single <select> value
+function sourceKey(source: FieldSource | undefined): string {
+  if (!source) return "";
+  if (source.kind === "column") return `col:${source.source}`;
+  if (source.kind === "constant") return "constant";
+  return `derived:${source.rule.type}`;
+}
+
+function sourceFromKey(
+  key: string,
+  headers: string[],
+  previous: FieldSource | undefined
+): FieldSource | null {
+  if (!key) return null;
+  if (key.startsWith("col:")) return { kind: "column", source: key.slice(4) };
+  if (key === "constant") {
+    return {
+      kind: "constant",
+      value: previous?.kind === "constant" ? previous.value : "",
+    };
+  }
+
+  const first = headers[0] ?? "";
+  const type = key.slice("derived:".length) as DerivedRule["type"];
+  if (type === "concat") {
+    return {
+      kind: "derived",
+      rule: { type, sources: [], separator: " " },
+    };
+  }
+  return { kind: "derived", rule: { type, source: first } };
+}
+
+const INPUT_CLASS =
+  "rounded-md border border-slate-300 px-2 py-1 text-xs text-slate-900 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-slate-900";
+
+export default function ColumnMappingEditor({
+  table,
+  headers,
+  sampleRow,
+  mapping,
+  profileName,
+  onChange,
+  onProfileSaved,
+}: Props) {
+  const [newProfileName, setNewProfileName] = useState(profileName ?? "");
+  const [saving, setSaving] = useState(false);
+  const [saveMessage, setSaveMessage] = useState<string | null>(null);
+
+  const fields = TABLE_SCHEMAS[table].required;
+  const errors = validateColumnMapping(table, mapping, headers);
+
+  const samples = (() => {
+    if (!sampleRow) return null;
+    const { fields: mapped, mapRow } = createRowMapper(mapping, headers);
+    const values = mapRow(sampleRow);
+    return new Map(mapped.map((f, i) => [f, values[i]]));
+  })();
+
+  function setField(field: string, source: FieldSource | null) {
+    const next = { ...mapping };
+    if (source) {
+      next[field] = source;
+    } else {
+      delete next[field];
+    }
+    onChange(next);
+  }
+
+  async function handleSaveProfile() {
+    const name = newProfileName.trim();
+    if (!name) {
+      setSaveMessage("Enter a name for this mapping profile.");
+      return;
+    }
+    if (errors.length > 0) {
+      setSaveMessage("Fix the mapping issues before saving.");
+      return;
+    }
+
+    setSaving(true);
+    setSaveMessage(null);
+    try {
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
+
+      const { error } = await supabase.from("upload_mapping_profiles").upsert(
+        {
+          table_name: table,
+          name,
+          header_signature: computeHeaderSignature(headers),
+          source_headers: headers,
+          mapping,
+          created_by: session?.user?.email ?? null,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: "table_name,name" }
+      );
+
+      if (error) {
+        console.error("ColumnMappingEditor: save error", error);
+        setSaveMessage(`Could not save profile: ${error.message}`);
+        return;
+      }
+
+      setSaveMessage(
+        `Saved "${name}". Files with these columns will use it automatically.`
+      );
+      onProfileSaved(name);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <section
+      aria-label="Column mapping"
+      className="mb-4 rounded-lg border border-slate-200 bg-white p-4 text-sm"
+    >
+      <div className="flex flex-wrap items-baseline justify-between gap-2">
+        <h2 className="text-sm font-semibold text-slate-900">
+          Map columns to {table} fields
+        </h2>
+        {profileName && (
+          <p className="text-xs text-emerald-700">
+            Using saved profile{" "}
+            <span className="font-semibold">{profileName}</span>
+          </p>
+        )}
+      </div>
+      <p className="mt-1 text-xs text-slate-600">
+        Choose where each field comes from: a column in your file, a fixed
+        value, or a value derived from other columns.
+      </p>
+
+      <div className="mt-3 overflow-x-auto">
+        <table className="min-w-full text-xs">
+          <thead className="text-left text-slate-500">
+            <tr>
+              <th className="px-2 py-1 font-semibold">Field</th>
+              <th className="px-2 py-1 font-semibold">Source</th>
+              <th className="px-2 py-1 font-semibold">Details</th>
+              <th className="px-2 py-1 font-semibold">Sample</th>
+            </tr>
+          </thead>
+          <tbody>
+            {fields.map((field) => {
+              const source = mapping[field];
+              const selectId = `mapping-${field}`;
+
+              return (
+                <tr key={field} className="border-t border-slate-100 align-top">
+                  <td className="px-2 py-1 font-mono text-slate-800">
+                    <label htmlFor={selectId}>{field}</label>
+                  </td>
+                  <td className="px-2 py-1">
+                    <select
+                      id={selectId}
+                      value={sourceKey(source)}
+                      onChange={(e) =>
+                        setField(
+                          field,
+                          sourceFromKey(e.target.value, headers, source)
+                        )
+                      }
+                      className={INPUT_CLASS}
+                    >
+                      <option value="">— Not mapped —</option>
+                      <optgroup label="Column in file">
+                        {headers.map((h) => (
+                          <option key={h} value={`col:${h}`}>
+                            {h}
+                          </option>
+                        ))}
+                      </optgroup>
+                      <optgroup label="Other">
+                        <option value="constant">Fixed value</option>
+                        {(
+                          Object.keys(DERIVED_RULE_LABELS) as DerivedRule["type"][]
+                        ).map((type) => (
+                          <option key={type} value={`derived:${type}`}>
+                            {DERIVED_RULE_LABELS[type]}
+                          </option>
+                        ))}
+                      </optgroup>
+                    </select>
+                  </td>
+                  <td className="px-2 py-1">
+                    {source?.kind === "constant" && (
+                      <input
+                        type="text"
+                        aria-label={`Fixed value for ${field}`}
+                        value={source.value}
+                        onChange={(e) =>
+                          setField(field, {
+                            kind: "constant",
+                            value: e.target.value,
+                          })
+                        }
+                        className={INPUT_CLASS}
+                      />
+                    )}
+                    {source?.kind === "derived" &&
+                      source.rule.type === "concat" && (
+                        <div className="flex flex-col gap-1">
+                          <select
+                            multiple
+                            aria-label={`Columns to combine for ${field}`}
+                            value={source.rule.sources}
+                            onChange={(e) =>
+                              setField(field, {
+                                kind: "derived",
+                                rule: {
+                                  type: "concat",
+                                  sources: Array.from(
+                                    e.target.selectedOptions
+                                  ).map((o) => o.value),
+                                  separator:
+                                    source.rule.type === "concat"
+                                      ? source.rule.separator
+                                      : " ",
+                                },
+                              })
+                            }
+                            className={`${INPUT_CLASS} h-20`}
+                          >
+                            {headers.map((h) => (
+                              <option key={h} value={h}>
+                                {h}
+                              </option>
+                            ))}
+                          </select>
+                          <input
+                            type="text"
+                            aria-label={`Separator for ${field}`}
+                            placeholder="Separator"
+                            value={source.rule.separator}
+                            onChange={(e) =>
+                              setField(field, {
+                                kind: "derived",
+                                rule: {
+                                  type: "concat",
+                                  sources:
+                                    source.rule.type === "concat"
+                                      ? source.rule.sources
+                                      : [],
+                                  separator: e.target.value,
+                                },
+                              })
+                            }
+                            className={`${INPUT_CLASS} w-24`}
+                          />
+                        </div>
+                      )}
+                    {source?.kind === "derived" &&
+                      source.rule.type !== "concat" && (
+                        <select
+                          aria-label={`Date column for ${field}`}
+                          value={source.rule.source}
+                          onChange={(e) =>
+                            setField(field, {
+                              kind: "derived",
+                              rule: {
+                                type: source.rule.type as
+                                  | "period_from_date"
+                                  | "year_from_date",
+                                source: e.target.value,
+                              },
+                            })
+                          }
+                          className={INPUT_CLASS}
+                        >
+                          {headers.map((h) => (
+                            <option key={h} value={h}>
+                              {h}
+                            </option>
+                          ))}
+                        </select>
+                      )}
+                  </td>
+                  <td className="max-w-[12rem] truncate px-2 py-1 text-slate-600">
+                    {samples?.get(field) ?? ""}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="mt-3 list-disc space-y-0.5 pl-5 text-xs text-red-700">
+          {errors.map((err) => (
+            <li key={err}>{err}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className="mt-3 flex flex-wrap items-center gap-2">
+        <label htmlFor="mapping-profile-name" className="text-xs text-slate-700">
+          Save as profile
+        </label>
+        <input
+          id="mapping-profile-name"
+          type="text"
+          value={newProfileName}
+          onChange={(e) => setNewProfileName(e.target.value)}
+          placeholder="e.g. Munis GL export"
+          className={INPUT_CLASS}
+        />
+        <button
+          type="button"
+          onClick={handleSaveProfile}
+          disabled={saving}
+          className="rounded-md border border-slate-300 px-3 py-1 text-xs font-medium text-slate-700 hover:bg-slate-50 disabled:opacity-50 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-slate-900 focus-visible:ring-offset-2"
+        >
+          {saving ? "Saving..." : "Save profile"}
+        </button>
+        {saveMessage && (
+          <span className="text-xs text-slate-600" role="status">
+            {saveMessage}
+          </span>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,368 @@
+// components/Admin/CpiIndexEditor.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import { supabase } from "@/lib/supabase";
+import { getCpiIndex } from "@/lib/queries";
+import { CPI_U_ANNUAL, parseCpiText, type CpiEntry } from "@/lib/inflation";
+
+type Draft = {
+  fiscal_year: string;
+  index_value: string;
+  source: string;
+};
+
+const EMPTY_DRAFT: Draft = { fiscal_year: "", index_value: "", source: "" };
+
+const INPUT_CLASS =
+  "h-9 w-full rounded-md border border-slate-200 bg-white px-2 text-sm text-slate-900 shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-slate-900";
+
+const BUTTON_CLASS =
+  "rounded-md border border-slate-300 px-3 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50 disabled:opacity-50 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-slate-900 focus-visible:ring-offset-2";
+
+function draftErrors(draft: Draft): string[] {
+  const errors: string[] = [];
+  const year = Number(draft.fiscal_year);
+  if (!Number.isInteger(year) || year < 1900 || year > 2200) {
+    errors.push("Enter a four-digit fiscal year.");
+  }
+  if (!(Number(draft.index_value) > 0)) {
+    errors.push("The index value must be a positive number.");
+  }
+  return errors;
+}
+
+export default function CpiIndexEditor() {
+  const [entries, setEntries] = useState<CpiEntry[] | null>(null);
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [editingYear, setEditingYear] = useState<number | null>(null);
+  const [pasted, setPasted] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(
+    null
+  );
+
+  useEffect(() => {
+    getCpiIndex().then(setEntries);
+  }, []);
+
+  const errors = draftErrors(draft);
+
+  function startEdit(entry: CpiEntry) {
+    setEditingYear(entry.fiscal_year);
+    setDraft({
+      fiscal_year: String(entry.fiscal_year),
+      index_value: String(entry.index_value),
+      source: entry.source ?? "",
+    });
+    setMessage(null);
+  }
+
+  function resetForm() {
+    setEditingYear(null);
+    setDraft(EMPTY_DRAFT);
+  }
+
+  async function reload() {
+    setEntries(await getCpiIndex());
+  }
+
+  async function upsert(rows: CpiEntry[], ignoreDuplicates = false): Promise<boolean> {
+    const updatedAt = new Date().toISOString();
+    const { error } = await supabase.from("cpi_index").upsert(
+      rows.map((r) => ({
+        fiscal_year: r.fiscal_year,
+        index_value: r.index_value,
+        source: r.source ?? null,
+        updated_at: updatedAt,
+      })),
+      { onConflict: "fiscal_year", ignoreDuplicates }
+    );
+
+    if (error) {
+      console.error("CpiIndexEditor: save error", error);
+      setMessage({ text: `Could not save the index: ${error.message}`, isError: true });
+      return false;
+    }
+    return true;
+  }
+
+  async function handleSave() {
+    if (errors.length > 0) {
+      setMessage({ text: errors.join(" "), isError: true });
+      return;
+    }
+
+    setSaving(true);
+    setMessage(null);
+    try {
+      const year = Number(draft.fiscal_year);
+      const ok = await upsert([
+        {
+          fiscal_year: year,
+          index_value: Number(draft.index_value),
+          source: draft.source.trim() || null,
+        },
+      ]);
+      if (!ok) return;
+
+      setMessage({ text: `Saved the index for FY ${year}.`, isError: false });
+      resetForm();
+      await reload();
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handlePaste() {
+    const { entries: parsed, invalid } = parseCpiText(pasted);
+    if (invalid.length > 0) {
+      setMessage({
+        text: `Nothing saved. These lines are not "year, value": ${invalid.slice(0, 5).join("; ")}${
+          invalid.length > 5 ? "; …" : ""
+        }`,
+        isError: true,
+      });
+      return;
+    }
+    if (parsed.length === 0) {
+      setMessage({ text: "Paste at least one \"year, value\" line.", isError: true });
+      return;
+    }
+
+    setSaving(true);
+    setMessage(null);
+    try {
+      const ok = await upsert(parsed.map((e) => ({ ...e, source: "Custom" })));
+      if (!ok) return;
+
+      setMessage({
+        text: `Saved ${parsed.length} year${parsed.length === 1 ? "" : "s"} of index values.`,
+        isError: false,
+      });
+      setPasted("");
+      await reload();
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleLoadBundled() {
+    setSaving(true);
+    setMessage(null);
+    try {
+      // Years already entered keep their values
+      const ok = await upsert(
+        CPI_U_ANNUAL.map((e) => ({ ...e, source: "CPI-U" })),
+        true
+      );
+      if (!ok) return;
+
+      setMessage({ text: "Added the bundled CPI-U years that were missing.", isError: false });
+      await reload();
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleDelete(entry: CpiEntry) {
+    const ok = window.confirm(
+      `Remove the index for FY ${entry.fiscal_year}? Constant-dollar views will use the nearest earlier year instead.`
+    );
+    if (!ok) return;
+
+    const { error } = await supabase
+      .from("cpi_index")
+      .delete()
+      .eq("fiscal_year", entry.fiscal_year);
+    if (error) {
+      console.error("CpiIndexEditor: delete error", error);
+      setMessage({ text: `Could not remove the index: ${error.message}`, isError: true });
+      return;
+    }
+
+    if (editingYear === entry.fiscal_year) resetForm();
+    setMessage({ text: `Removed the index for FY ${entry.fiscal_year}.`, isError: false });
+    await reload();
+  }
+
+  return (
+    <section
+      aria-labelledby="cpi-index-heading"
+      className="rounded-xl border border-slate-200 bg-white p-4 text-xs shadow-sm"
+    >
+      <h2 id="cpi-index-heading" className="text-sm font-semibold text-slate-900">
+        Price index (inflation adjustment)
+      </h2>
+      <p className="mt-1 text-slate-600">
+        Multi-year charts, comparisons and narratives can be shown in constant
+        dollars of the newest year. Each year&apos;s amounts are scaled by the
+        newest year&apos;s index divided by that year&apos;s. Any index works
+        (CPI-U, a regional CPI, a state and local government deflator) as long
+        as every year uses the same one.
+      </p>
+
+      <div className="mt-3 grid gap-3 sm:grid-cols-3">
+        <div>
+          <label htmlFor="cpi-year" className="mb-1 block text-xs font-medium text-slate-700">
+            Fiscal year
+          </label>
+          <input
+            id="cpi-year"
+            type="number"
+            inputMode="numeric"
+            value={draft.fiscal_year}
+            onChange={(e) => setDraft({ ...draft, fiscal_year: e.target.value })}
+            disabled={editingYear !== null}
+            className={`${INPUT_CLASS} disabled:bg-slate-50`}
+          />
+        </div>
+        <div>
+          <label htmlFor="cpi-value" className="mb-1 block text-xs font-medium text-slate-700">
+            Index value
+          </label>
+          <input
+            id="cpi-value"
+            type="number"
+            inputMode="decimal"
+            step="any"
+            value={draft.index_value}
+            onChange={(e) => setDraft({ ...draft, index_value: e.target.value })}
+            className={INPUT_CLASS}
+          />
+        </div>
+        <div>
+          <label htmlFor="cpi-source" className="mb-1 block text-xs font-medium text-slate-700">
+            Source
+          </label>
+          <input
+            id="cpi-source"
+            type="text"
+            value={draft.source}
+            onChange={(e) => setDraft({ ...draft, source: e.target.value })}
+            placeholder="e.g. CPI-U, West region"
+            className={INPUT_CLASS}
+          />
+        </div>
+      </div>
+
+      <div className="mt-3 flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={saving || errors.length > 0}
+          className="rounded-md bg-slate-900 px-4 py-2 text-sm font-medium text-white hover:bg-slate-700 disabled:opacity-50 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-slate-900 focus-visible:ring-offset-2"
+        >
+          {saving ? "Saving..." : editingYear ? "Save changes" : "Add year"}
+        </button>
+        {editingYear && (
+          <button type="button" onClick={resetForm} className={BUTTON_CLASS}>
+            Cancel
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={handleLoadBundled}
+          disabled={saving}
+          className={BUTTON_CLASS}
+        >
+          Load bundled CPI-U ({CPI_U_ANNUAL[0].fiscal_year}–
+          {CPI_U_ANNUAL[CPI_U_ANNUAL.length - 1].fiscal_year})
+        </button>
+      </div>
+
+      <div className="mt-4">
+        <label htmlFor="cpi-paste" className="mb-1 block text-xs font-medium text-slate-700">
+          Paste several years
+        </label>
+        <textarea
+          id="cpi-paste"
+          rows={4}
+          value={pasted}
+          onChange={(e) => setPasted(e.target.value)}
+          placeholder={"2024, 313.689\n2025, 322.5"}
+          className="w-full rounded-md border border-slate-200 bg-white px-2 py-1 font-mono text-xs text-slate-900 shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-slate-900"
+        />
+        <p className="mt-1 text-slate-500">
+          One year and value per line, copied from a spreadsheet or a BLS
+          table. Years already entered are replaced.
+        </p>
+        <button
+          type="button"
+          onClick={handlePaste}
+          disabled={saving || pasted.trim().length === 0}
+          className={`mt-2 ${BUTTON_CLASS}`}
+        >
+          Save pasted values
+        </button>
+      </div>
+
+      {message && (
+        <p
+          role={message.isError ? "alert" : "status"}
+          className={`mt-3 text-xs ${message.isError ? "text-red-700" : "text-emerald-700"}`}
+        >
+          {message.text}
+        </p>
+      )}
+
+      <div className="mt-4">
+        {entries === null ? (
+          <p className="text-slate-600">Loading…</p>
+        ) : entries.length === 0 ? (
+          <p className="text-slate-600">
+            No index is stored, so constant-dollar views use the bundled CPI-U
+            series.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full border-collapse text-xs">
+              <thead className="bg-slate-50 text-[11px] uppercase tracking-[0.14em] text-slate-500">
+                <tr>
+                  <th className="px-2 py-2 text-left font-semibold">Fiscal year</th>
+                  <th className="px-2 py-2 text-right font-semibold">Index</th>
+                  <th className="px-2 py-2 text-left font-semibold">Source</th>
+                  <th className="px-2 py-2 text-left font-semibold">
+                    <span className="sr-only">Actions</span>
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="text-slate-700">
+                {entries.map((entry) => (
+                  <tr
+                    key={entry.fiscal_year}
+                    className="border-b border-slate-100 last:border-b-0"
+                  >
+                    <td className="px-2 py-1 font-mono">{entry.fiscal_year}</td>
+                    <td className="px-2 py-1 text-right font-mono text-slate-900">
+                      {entry.index_value.toLocaleString("en-US", {
+                        maximumFractionDigits: 3,
+                      })}
+                    </td>
+                    <td className="px-2 py-1 text-slate-600">{entry.source ?? ""}</td>
+                    <td className="whitespace-nowrap px-2 py-1 text-right">
+                      <button
+                        type="button"
+                        onClick={() => startEdit(entry)}
+                        className="mr-3 text-slate-700 underline-offset-2 hover:underline"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(entry)}
+                        className="text-red-700 underline-offset-2 hover:underline"
+                      >
+                        Remove
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,424 @@
+// components/Admin/DepartmentAliasEditor.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import { supabase } from "@/lib/supabase";
+import {
+  getBudgetActualsSummaryAllYears,
+  getDepartmentAliases,
+} from "@/lib/queries";
+import {
+  describeAliasTargets,
+  groupAliases,
+  validateAliasDraft,
+  type AliasDraft,
+  type DepartmentAlias,
+} from "@/lib/departmentAliases";
+
+type Props = {
+  onChanged: () => void; // an alias was saved or removed
+};
+
+type TargetDraft = { name: string; percent: string };
+
+type Draft = {
+  alias: string;
+  targets: TargetDraft[];
+  effectiveFiscalYear: string;
+  note: string;
+};
+
+const EMPTY_DRAFT: Draft = {
+  alias: "",
+  targets: [{ name: "", percent: "100" }],
+  effectiveFiscalYear: "",
+  note: "",
+};
+
+const INPUT_CLASS =
+  "h-9 w-full rounded-md border border-slate-200 bg-white px-2 text-sm text-slate-900 shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-slate-900";
+
+function toAliasDraft(draft: Draft): AliasDraft {
+  const year = draft.effectiveFiscalYear.trim();
+  return {
+    alias: draft.alias,
+    targets: draft.targets.map((t) => ({
+      name: t.name,
+      percent: Number(t.percent),
+    })),
+    effectiveFiscalYear: year ? Number(year) : null,
+  };
+}
+
+export default function DepartmentAliasEditor({ onChanged }: Props) {
+  const [aliases, setAliases] = useState<DepartmentAlias[] | null>(null);
+  const [departmentNames, setDepartmentNames] = useState<string[]>([]);
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [editingAlias, setEditingAlias] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(
+    null
+  );
+
+  useEffect(() => {
+    getDepartmentAliases().then(setAliases);
+    getBudgetActualsSummaryAllYears().then((rows) =>
+      setDepartmentNames(
+        Array.from(new Set(rows.map((r) => r.department_name).filter(Boolean))).sort()
+      )
+    );
+  }, []);
+
+  const all = aliases ?? [];
+  const others = all.filter((a) => a.alias !== editingAlias);
+  const errors = validateAliasDraft(toAliasDraft(draft), others);
+  const groups = groupAliases(all);
+
+  function updateTarget(index: number, patch: Partial<TargetDraft>) {
+    setDraft({
+      ...draft,
+      targets: draft.targets.map((t, i) => (i === index ? { ...t, ...patch } : t)),
+    });
+  }
+
+  function startEdit(alias: string, rows: DepartmentAlias[]) {
+    setEditingAlias(alias);
+    setDraft({
+      alias,
+      targets: rows.map((r) => ({
+        name: r.department_name,
+        percent: String(Math.round(Number(r.share) * 10000) / 100),
+      })),
+      effectiveFiscalYear:
+        rows[0]?.effective_fiscal_year != null ? String(rows[0].effective_fiscal_year) : "",
+      note: rows[0]?.note ?? "",
+    });
+    setMessage(null);
+  }
+
+  function resetForm() {
+    setEditingAlias(null);
+    setDraft(EMPTY_DRAFT);
+  }
+
+  async function reload() {
+    setAliases(await getDepartmentAliases());
+    onChanged();
+  }
+
+  async function handleSave() {
+    if (errors.length > 0) {
+      setMessage({ text: errors.join(" "), isError: true });
+      return;
+    }
+
+    setSaving(true);
+    setMessage(null);
+    try {
+      const parsed = toAliasDraft(draft);
+      const alias = parsed.alias.trim();
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
+
+      // An alias is saved as a whole: replace every successor row
+      const { error: deleteError } = await supabase
+        .from("department_aliases")
+        .delete()
+        .in("alias", Array.from(new Set([alias, editingAlias ?? alias])));
+
+      if (deleteError) {
+        console.error("DepartmentAliasEditor: delete error", deleteError);
+        setMessage({ text: `Could not save: ${deleteError.message}`, isError: true });
+        return;
+      }
+
+      const { error } = await supabase.from("department_aliases").insert(
+        parsed.targets.map((t) => ({
+          alias,
+          department_name: t.name.trim(),
+          share: t.percent / 100,
+          effective_fiscal_year: parsed.effectiveFiscalYear,
+          note: draft.note.trim() || null,
+          created_by: session?.user.email ?? null,
+        }))
+      );
+
+      if (error) {
+        console.error("DepartmentAliasEditor: save error", error);
+        setMessage({ text: `Could not save: ${error.message}`, isError: true });
+        await reload();
+        return;
+      }
+
+      setMessage({
+        text: `Saved "${alias}". Apply to loaded data to update the charts.`,
+        isError: false,
+      });
+      resetForm();
+      await reload();
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleDelete(alias: string) {
+    const ok = window.confirm(
+      `Stop reporting "${alias}" under its current department? Its history goes back to showing under the old name once the portal summaries are refreshed.`
+    );
+    if (!ok) return;
+
+    const { error } = await supabase.from("department_aliases").delete().eq("alias", alias);
+    if (error) {
+      console.error("DepartmentAliasEditor: delete error", error);
+      setMessage({ text: `Could not remove: ${error.message}`, isError: true });
+      return;
+    }
+
+    if (editingAlias === alias) resetForm();
+    setMessage({ text: `Removed "${alias}".`, isError: false });
+    await reload();
+  }
+
+  return (
+    <div className="space-y-4">
+      <datalist id="department-alias-names">
+        {departmentNames.map((name) => (
+          <option key={name} value={name} />
+        ))}
+      </datalist>
+
+      <section
+        aria-label={editingAlias ? "Edit rename or merger" : "Add rename or merger"}
+        className="rounded-xl border border-slate-200 bg-white p-4 text-xs shadow-sm"
+      >
+        <h2 className="text-sm font-semibold text-slate-900">
+          {editingAlias ? `Edit "${editingAlias}"` : "Add a rename, merger or split"}
+        </h2>
+        <p className="mt-1 text-slate-600">
+          Rows filed under the old name are reported under the current
+          department(s). For a split, give each successor its share of the
+          old department&apos;s amounts.
+        </p>
+
+        <div className="mt-3 grid gap-3 sm:grid-cols-2">
+          <div>
+            <label htmlFor="alias-old-name" className="mb-1 block text-xs font-medium text-slate-700">
+              Old department name
+            </label>
+            <input
+              id="alias-old-name"
+              type="text"
+              list="department-alias-names"
+              value={draft.alias}
+              onChange={(e) => setDraft({ ...draft, alias: e.target.value })}
+              className={INPUT_CLASS}
+            />
+          </div>
+          <div>
+            <label htmlFor="alias-effective-year" className="mb-1 block text-xs font-medium text-slate-700">
+              Effective fiscal year
+            </label>
+            <input
+              id="alias-effective-year"
+              type="number"
+              inputMode="numeric"
+              value={draft.effectiveFiscalYear}
+              onChange={(e) => setDraft({ ...draft, effectiveFiscalYear: e.target.value })}
+              placeholder="Blank = all years"
+              aria-describedby="alias-effective-year-help"
+              className={INPUT_CLASS}
+            />
+            <p id="alias-effective-year-help" className="mt-1 text-[11px] text-slate-500">
+              First year under the new structure; earlier years are reported
+              under it.
+            </p>
+          </div>
+        </div>
+
+        <fieldset className="mt-3">
+          <legend className="mb-1 text-xs font-medium text-slate-700">
+            Reported under
+          </legend>
+          <div className="space-y-2">
+            {draft.targets.map((target, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <label htmlFor={`alias-target-${index}`} className="sr-only">
+                  Current department {index + 1}
+                </label>
+                <input
+                  id={`alias-target-${index}`}
+                  type="text"
+                  list="department-alias-names"
+                  value={target.name}
+                  onChange={(e) => updateTarget(index, { name: e.target.value })}
+                  placeholder="Current department"
+                  className={INPUT_CLASS}
+                />
+                <label htmlFor={`alias-share-${index}`} className="sr-only">
+                  Share for department {index + 1} (%)
+                </label>
+                <input
+                  id={`alias-share-${index}`}
+                  type="number"
+                  min={0}
+                  max={100}
+                  step="any"
+                  value={target.percent}
+                  onChange={(e) => updateTarget(index, { percent: e.target.value })}
+                  className={`${INPUT_CLASS} w-24`}
+                />
+                <span className="text-slate-500">%</span>
+                {draft.targets.length > 1 && (
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setDraft({
+                        ...draft,
+                        targets: draft.targets.filter((_, i) => i !== index),
+                      })
+                    }
+                    className="text-red-700 underline-offset-2 hover:underline"
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={() =>
+              setDraft({ ...draft, targets: [...draft.targets, { name: "", percent: "" }] })
+            }
+            className="mt-2 text-slate-700 underline-offset-2 hover:underline"
+          >
+            + Add successor (split)
+          </button>
+        </fieldset>
+
+        <div className="mt-3">
+          <label htmlFor="alias-note" className="mb-1 block text-xs font-medium text-slate-700">
+            Note
+          </label>
+          <input
+            id="alias-note"
+            type="text"
+            value={draft.note}
+            onChange={(e) => setDraft({ ...draft, note: e.target.value })}
+            placeholder="e.g. Council reorganization, FY2023 budget"
+            className={INPUT_CLASS}
+          />
+        </div>
+
+        {draft.alias && errors.length > 0 && (
+          <ul className="mt-3 list-disc space-y-0.5 pl-5 text-xs text-red-700">
+            {errors.map((err) => (
+              <li key={err}>{err}</li>
+            ))}
+          </ul>
+        )}
+
+        <div className="mt-3 flex flex-wrap items-center gap-2">
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={saving || errors.length > 0}
+            className="rounded-md bg-slate-900 px-4 py-2 text-sm font-medium text-white hover:bg-slate-700 disabled:opacity-50 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-slate-900 focus-visible:ring-offset-2"
+          >
+            {saving ? "Saving..." : editingAlias ? "Save changes" : "Add"}
+          </button>
+          {editingAlias && (
+            <button
+              type="button"
+              onClick={resetForm}
+              className="rounded-md border border-slate-300 px-3 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-slate-900 focus-visible:ring-offset-2"
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+
+        {message && (
+          <p
+            role={message.isError ? "alert" : "status"}
+            className={`mt-2 text-xs ${message.isError ? "text-red-700" : "text-emerald-700"}`}
+          >
+            {message.text}
+          </p>
+        )}
+      </section>
+
+      <section
+        aria-label="Renames and mergers"
+        className="rounded-xl border border-slate-200 bg-white p-4 text-xs shadow-sm"
+      >
+        <h2 className="mb-3 text-sm font-semibold text-slate-900">
+          Renames &amp; mergers
+          {aliases && (
+            <span className="ml-2 text-xs font-normal text-slate-500">
+              ({groups.length.toLocaleString("en-US")})
+            </span>
+          )}
+        </h2>
+
+        {aliases === null ? (
+          <p className="text-slate-600">Loading…</p>
+        ) : groups.length === 0 ? (
+          <p className="text-slate-600">
+            No renames yet. Every department is shown under the name in its
+            data.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full border-collapse text-xs">
+              <thead className="bg-slate-50 text-[11px] uppercase tracking-[0.14em] text-slate-500">
+                <tr>
+                  <th className="px-2 py-2 text-left font-semibold">Old name</th>
+                  <th className="px-2 py-2 text-left font-semibold">Reported under</th>
+                  <th className="px-2 py-2 text-left font-semibold">Before FY</th>
+                  <th className="px-2 py-2 text-left font-semibold">Note</th>
+                  <th className="px-2 py-2 text-left font-semibold">
+                    <span className="sr-only">Actions</span>
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="text-slate-700">
+                {groups.map(({ alias, rows }) => (
+                  <tr key={alias} className="border-b border-slate-100 last:border-b-0">
+                    <td className="px-2 py-1 text-slate-900">{alias}</td>
+                    <td className="px-2 py-1">
+                      {describeAliasTargets(
+                        rows.map((r) => ({ name: r.department_name, share: Number(r.share) }))
+                      )}
+                    </td>
+                    <td className="px-2 py-1">
+                      {rows[0].effective_fiscal_year ?? "All years"}
+                    </td>
+                    <td className="px-2 py-1 text-slate-600">{rows[0].note ?? ""}</td>
+                    <td className="whitespace-nowrap px-2 py-1 text-right">
+                      <button
+                        type="button"
+                        onClick={() => startEdit(alias, rows)}
+                        className="mr-3 text-slate-700 underline-offset-2 hover:underline"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(alias)}
+                        className="text-red-700 underline-offset-2 hover:underline"
+                      >
+                        Remove
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,312 @@
+// components/Admin/FixedWidthLayoutEditor.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import { supabase } from "@/lib/supabase";
+import { getFixedWidthLayouts } from "@/lib/queries";
+import {
+  validateFixedWidthLayout,
+  type FixedWidthColumn,
+  type FixedWidthLayout,
+  type FixedWidthLayoutRow,
+} from "@/lib/fileFormats";
+
+type Props = {
+  sampleLines: string[]; // first lines of the file, shown under a ruler
+  layout: FixedWidthLayout; // layout currently applied to the preview
+  onApply: (layout: FixedWidthLayout) => void;
+};
+
+const INPUT_CLASS =
+  "rounded-md border border-slate-300 px-2 py-1 text-xs text-slate-900 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-slate-900";
+
+const BUTTON_CLASS =
+  "rounded-md border border-slate-300 px-3 py-1 text-xs font-medium text-slate-700 hover:bg-slate-50 disabled:opacity-50 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-slate-900 focus-visible:ring-offset-2";
+
+// "1234567890" repeated, with tens marked above it
+function buildRuler(length: number): [string, string] {
+  let tens = "";
+  let ones = "";
+  for (let i = 1; i <= length; i++) {
+    tens += i % 10 === 0 ? String((i / 10) % 10) : " ";
+    ones += String(i % 10);
+  }
+  return [tens, ones];
+}
+
+function nextColumn(columns: FixedWidthColumn[]): FixedWidthColumn {
+  const end = columns.reduce((max, c) => Math.max(max, c.start + c.width), 1);
+  return { name: "", start: end, width: 10 };
+}
+
+export default function FixedWidthLayoutEditor({
+  sampleLines,
+  layout,
+  onApply,
+}: Props) {
+  const [draft, setDraft] = useState<FixedWidthLayout>(layout);
+  const [savedLayouts, setSavedLayouts] = useState<FixedWidthLayoutRow[]>([]);
+  const [layoutName, setLayoutName] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [saveMessage, setSaveMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    getFixedWidthLayouts().then(setSavedLayouts);
+  }, []);
+
+  const errors = validateFixedWidthLayout(draft);
+  const width = Math.min(
+    200,
+    sampleLines.reduce((max, line) => Math.max(max, line.length), 0)
+  );
+  const [rulerTens, rulerOnes] = buildRuler(width);
+
+  function setColumn(index: number, patch: Partial<FixedWidthColumn>) {
+    setDraft({
+      ...draft,
+      columns: draft.columns.map((c, i) => (i === index ? { ...c, ...patch } : c)),
+    });
+  }
+
+  function handleUseSaved(id: string) {
+    const saved = savedLayouts.find((l) => String(l.id) === id);
+    if (!saved) return;
+    setDraft(saved.layout);
+    setLayoutName(saved.name);
+    setSaveMessage(null);
+    onApply(saved.layout);
+  }
+
+  async function handleSaveLayout() {
+    const name = layoutName.trim();
+    if (!name) {
+      setSaveMessage("Enter a name for this layout.");
+      return;
+    }
+    if (errors.length > 0) {
+      setSaveMessage("Fix the layout issues before saving.");
+      return;
+    }
+
+    setSaving(true);
+    setSaveMessage(null);
+    try {
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
+
+      const { error } = await supabase.from("upload_fixed_width_layouts").upsert(
+        {
+          name,
+          layout: draft,
+          created_by: session?.user?.email ?? null,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: "name" }
+      );
+
+      if (error) {
+        console.error("FixedWidthLayoutEditor: save error", error);
+        setSaveMessage(`Could not save layout: ${error.message}`);
+        return;
+      }
+
+      setSaveMessage(`Saved layout "${name}".`);
+      setSavedLayouts(await getFixedWidthLayouts());
+      onApply(draft);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <section
+      aria-label="Fixed-width column layout"
+      className="mb-4 rounded-lg border border-slate-200 bg-white p-4 text-sm"
+    >
+      <h2 className="text-sm font-semibold text-slate-900">
+        Fixed-width column layout
+      </h2>
+      <p className="mt-1 text-xs text-slate-600">
+        Fixed-width exports have no separators, so list where each column
+        starts and how many characters it takes. Positions count from 1; use
+        the ruler above the sample lines.
+      </p>
+
+      {savedLayouts.length > 0 && (
+        <div className="mt-3 flex items-center gap-2">
+          <label htmlFor="fixed-width-saved" className="text-xs text-slate-700">
+            Saved layout
+          </label>
+          <select
+            id="fixed-width-saved"
+            defaultValue=""
+            onChange={(e) => handleUseSaved(e.target.value)}
+            className={INPUT_CLASS}
+          >
+            <option value="">— Choose —</option>
+            {savedLayouts.map((l) => (
+              <option key={l.id} value={l.id}>
+                {l.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {sampleLines.length > 0 && (
+        <pre
+          aria-label="Sample lines with column ruler"
+          className="mt-3 max-h-48 overflow-auto rounded-md bg-slate-50 p-2 font-mono text-[11px] leading-4 text-slate-800"
+        >
+          <span className="text-slate-400">{rulerTens}</span>
+          {"\n"}
+          <span className="text-slate-400">{rulerOnes}</span>
+          {"\n"}
+          {sampleLines.map((line) => line.slice(0, width)).join("\n")}
+        </pre>
+      )}
+
+      <div className="mt-3 flex items-center gap-2">
+        <label htmlFor="fixed-width-skip" className="text-xs text-slate-700">
+          Lines to skip before the data
+        </label>
+        <input
+          id="fixed-width-skip"
+          type="number"
+          min={0}
+          value={draft.skipLines}
+          onChange={(e) =>
+            setDraft({
+              ...draft,
+              skipLines: Math.max(0, Math.floor(Number(e.target.value) || 0)),
+            })
+          }
+          className={`${INPUT_CLASS} w-16`}
+        />
+      </div>
+
+      <div className="mt-3 overflow-x-auto">
+        <table className="min-w-full text-xs">
+          <thead className="text-left text-slate-500">
+            <tr>
+              <th className="px-2 py-1 font-semibold">Column name</th>
+              <th className="px-2 py-1 font-semibold">Start</th>
+              <th className="px-2 py-1 font-semibold">Width</th>
+              <th className="px-2 py-1 font-semibold">
+                <span className="sr-only">Remove</span>
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {draft.columns.map((col, i) => (
+              <tr key={i} className="border-t border-slate-100">
+                <td className="px-2 py-1">
+                  <input
+                    type="text"
+                    aria-label={`Name of column ${i + 1}`}
+                    value={col.name}
+                    onChange={(e) => setColumn(i, { name: e.target.value })}
+                    className={INPUT_CLASS}
+                  />
+                </td>
+                <td className="px-2 py-1">
+                  <input
+                    type="number"
+                    min={1}
+                    aria-label={`Start position of column ${i + 1}`}
+                    value={col.start}
+                    onChange={(e) =>
+                      setColumn(i, { start: Math.floor(Number(e.target.value)) })
+                    }
+                    className={`${INPUT_CLASS} w-20`}
+                  />
+                </td>
+                <td className="px-2 py-1">
+                  <input
+                    type="number"
+                    min={1}
+                    aria-label={`Width of column ${i + 1}`}
+                    value={col.width}
+                    onChange={(e) =>
+                      setColumn(i, { width: Math.floor(Number(e.target.value)) })
+                    }
+                    className={`${INPUT_CLASS} w-20`}
+                  />
+                </td>
+                <td className="px-2 py-1">
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setDraft({
+                        ...draft,
+                        columns: draft.columns.filter((_, j) => j !== i),
+                      })
+                    }
+                    aria-label={`Remove column ${i + 1}`}
+                    className="text-xs text-red-700 underline-offset-2 hover:underline"
+                  >
+                    Remove
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <button
+        type="button"
+        onClick={() =>
+          setDraft({ ...draft, columns: [...draft.columns, nextColumn(draft.columns)] })
+        }
+        className={`${BUTTON_CLASS} mt-2`}
+      >
+        Add column
+      </button>
+
+      {errors.length > 0 && (
+        <ul className="mt-3 list-disc space-y-0.5 pl-5 text-xs text-red-700">
+          {errors.map((err) => (
+            <li key={err}>{err}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className="mt-3 flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={() => onApply(draft)}
+          disabled={errors.length > 0}
+          className="rounded-md bg-slate-900 px-3 py-1 text-xs font-medium text-white hover:bg-slate-700 disabled:opacity-50 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-slate-900 focus-visible:ring-offset-2"
+        >
+          Apply layout
+        </button>
+        <label htmlFor="fixed-width-layout-name" className="text-xs text-slate-700">
+          Save as
+        </label>
+        <input
+          id="fixed-width-layout-name"
+          type="text"
+          value={layoutName}
+          onChange={(e) => setLayoutName(e.target.value)}
+          placeholder="e.g. Caselle GL fixed-width"
+          className={INPUT_CLASS}
+        />
+        <button
+          type="button"
+          onClick={handleSaveLayout}
+          disabled={saving}
+          className={BUTTON_CLASS}
+        >
+          {saving ? "Saving..." : "Save layout"}
+        </button>
+        {saveMessage && (
+          <span className="text-xs text-slate-600" role="status">
+            {saveMessage}
+          </span>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,552 @@
+// components/Admin/InsightRulesEditor.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import { supabase } from "@/lib/supabase";
+import { getInsightRules } from "@/lib/queries";
+import {
+  DEFAULT_INSIGHT_RULES,
+  INSIGHT_RULE_KINDS,
+  INSIGHT_SEVERITIES,
+  validateInsightRule,
+  type InsightRule,
+  type InsightRuleKind,
+  type InsightRuleParams,
+  type InsightType,
+} from "@/lib/insights";
+
+type Draft = {
+  kind: InsightRuleKind;
+  name: string;
+  severity: InsightType;
+  params: Record<string, string>;
+  title_template: string;
+  description_template: string;
+  max_results: string; // blank shows every match
+  sort_order: string;
+};
+
+const SEVERITY_LABELS: Record<InsightType, string> = {
+  critical: "Critical",
+  warning: "Warning",
+  info: "Info",
+};
+
+const SEVERITY_BADGE: Record<InsightType, string> = {
+  critical: "bg-red-50 text-red-700",
+  warning: "bg-amber-50 text-amber-700",
+  info: "bg-blue-50 text-blue-700",
+};
+
+const INPUT_CLASS =
+  "h-9 w-full rounded-md border border-slate-200 bg-white px-2 text-sm text-slate-900 shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-slate-900";
+
+function defaultParams(kind: InsightRuleKind): Record<string, string> {
+  return Object.fromEntries(
+    INSIGHT_RULE_KINDS[kind].params.map((p) => [p.key, String(p.default)])
+  );
+}
+
+function emptyDraft(kind: InsightRuleKind = "budget_threshold"): Draft {
+  return {
+    kind,
+    name: "",
+    severity: "warning",
+    params: defaultParams(kind),
+    title_template: "",
+    description_template: "",
+    max_results: "5",
+    sort_order: "100",
+  };
+}
+
+function toParams(kind: InsightRuleKind, raw: Record<string, string>): InsightRuleParams {
+  const out: InsightRuleParams = {};
+  for (const spec of INSIGHT_RULE_KINDS[kind].params) {
+    const value = raw[spec.key] ?? "";
+    out[spec.key] = spec.type === "number" && value.trim() !== "" ? Number(value) : value;
+  }
+  return out;
+}
+
+function describeParams(rule: InsightRule): string {
+  return INSIGHT_RULE_KINDS[rule.kind].params
+    .map((spec) => {
+      const value = rule.params[spec.key] ?? spec.default;
+      const shown =
+        spec.type === "select"
+          ? spec.options.find((o) => o.value === value)?.label ?? String(value)
+          : Number(value).toLocaleString("en-US");
+      return `${spec.label}: ${shown}`;
+    })
+    .join(" · ");
+}
+
+export default function InsightRulesEditor() {
+  const [rules, setRules] = useState<InsightRule[] | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [draft, setDraft] = useState<Draft>(emptyDraft());
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(
+    null
+  );
+
+  useEffect(() => {
+    getInsightRules().then((loaded) => {
+      setLoadFailed(loaded === null);
+      if (loaded) setRules(loaded);
+    });
+  }, []);
+
+  const kindInfo = INSIGHT_RULE_KINDS[draft.kind];
+  const maxResults = draft.max_results.trim() === "" ? null : Number(draft.max_results);
+  const params = toParams(draft.kind, draft.params);
+  const errors = validateInsightRule({
+    kind: draft.kind,
+    name: draft.name,
+    severity: draft.severity,
+    params,
+    title_template: draft.title_template,
+    description_template: draft.description_template,
+    max_results: maxResults,
+  });
+  if (!Number.isInteger(Number(draft.sort_order)) || draft.sort_order.trim() === "") {
+    errors.push("Order must be a whole number.");
+  }
+
+  function changeKind(kind: InsightRuleKind) {
+    setDraft({ ...draft, kind, params: defaultParams(kind) });
+  }
+
+  function startEdit(rule: InsightRule) {
+    setEditingId(rule.id);
+    setDraft({
+      kind: rule.kind,
+      name: rule.name,
+      severity: rule.severity,
+      params: Object.fromEntries(
+        INSIGHT_RULE_KINDS[rule.kind].params.map((p) => [
+          p.key,
+          String(rule.params[p.key] ?? p.default),
+        ])
+      ),
+      title_template: rule.title_template,
+      description_template: rule.description_template,
+      max_results: rule.max_results === null ? "" : String(rule.max_results),
+      sort_order: String(rule.sort_order),
+    });
+    setMessage(null);
+  }
+
+  function resetForm() {
+    setEditingId(null);
+    setDraft(emptyDraft());
+  }
+
+  async function reload() {
+    const loaded = await getInsightRules();
+    setLoadFailed(loaded === null);
+    if (loaded) setRules(loaded);
+  }
+
+  async function handleSave() {
+    if (errors.length > 0) {
+      setMessage({ text: errors.join(" "), isError: true });
+      return;
+    }
+
+    setSaving(true);
+    setMessage(null);
+    try {
+      const row = {
+        kind: draft.kind,
+        name: draft.name.trim(),
+        severity: draft.severity,
+        params,
+        title_template: draft.title_template.trim(),
+        description_template: draft.description_template.trim(),
+        max_results: maxResults,
+        sort_order: Number(draft.sort_order),
+        updated_at: new Date().toISOString(),
+      };
+      const { error } =
+        editingId === null
+          ? await supabase.from("insight_rules").insert(row)
+          : await supabase.from("insight_rules").update(row).eq("id", editingId);
+
+      if (error) {
+        console.error("InsightRulesEditor: save error", error);
+        setMessage({ text: `Could not save rule: ${error.message}`, isError: true });
+        return;
+      }
+
+      setMessage({ text: `Saved rule "${row.name}".`, isError: false });
+      resetForm();
+      await reload();
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleToggle(rule: InsightRule) {
+    const { error } = await supabase
+      .from("insight_rules")
+      .update({ enabled: !rule.enabled, updated_at: new Date().toISOString() })
+      .eq("id", rule.id);
+    if (error) {
+      console.error("InsightRulesEditor: toggle error", error);
+      setMessage({ text: `Could not update rule: ${error.message}`, isError: true });
+      return;
+    }
+    await reload();
+  }
+
+  async function handleDelete(rule: InsightRule) {
+    const ok = window.confirm(`Delete the insight rule "${rule.name}"?`);
+    if (!ok) return;
+
+    const { error } = await supabase.from("insight_rules").delete().eq("id", rule.id);
+    if (error) {
+      console.error("InsightRulesEditor: delete error", error);
+      setMessage({ text: `Could not delete rule: ${error.message}`, isError: true });
+      return;
+    }
+
+    if (editingId === rule.id) resetForm();
+    setMessage({ text: `Deleted rule "${rule.name}".`, isError: false });
+    await reload();
+  }
+
+  async function handleAddDefaults() {
+    setSaving(true);
+    setMessage(null);
+    try {
+      const { error } = await supabase
+        .from("insight_rules")
+        .insert(
+          DEFAULT_INSIGHT_RULES.map((rule) => ({
+            kind: rule.kind,
+            name: rule.name,
+            severity: rule.severity,
+            params: rule.params,
+            title_template: rule.title_template,
+            description_template: rule.description_template,
+            enabled: rule.enabled,
+            max_results: rule.max_results,
+            sort_order: rule.sort_order,
+          }))
+        );
+      if (error) {
+        console.error("InsightRulesEditor: seed error", error);
+        setMessage({ text: `Could not add the default rules: ${error.message}`, isError: true });
+        return;
+      }
+      await reload();
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <section
+        aria-labelledby="insight-rules-heading"
+        className="rounded-xl border border-slate-200 bg-white p-4 text-xs shadow-sm"
+      >
+        <h2 id="insight-rules-heading" className="text-sm font-semibold text-slate-900">
+          Insight rules
+        </h2>
+        <p className="mt-1 text-slate-600">
+          The &quot;Key Insights&quot; on the overview come from these rules. Every
+          enabled rule that matches is shown, critical first.
+        </p>
+
+        {rules === null ? (
+          loadFailed ? (
+            <p role="alert" className="mt-3 text-red-700">
+              Failed to load insight rules. The overview uses the built-in
+              defaults until they can be read.
+            </p>
+          ) : (
+            <p className="mt-3 text-slate-600">Loading…</p>
+          )
+        ) : rules.length === 0 ? (
+          <div className="mt-3 space-y-2 text-slate-600">
+            <p>
+              No rules are stored, so the overview shows no key insights. Add
+              the built-in defaults here to adjust or switch them off.
+            </p>
+            <button
+              type="button"
+              onClick={handleAddDefaults}
+              disabled={saving}
+              className="rounded-md border border-slate-300 px-3 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50 disabled:opacity-50 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-slate-900 focus-visible:ring-offset-2"
+            >
+              Add the default rules
+            </button>
+          </div>
+        ) : (
+          <div className="mt-3 overflow-x-auto">
+            <table className="min-w-full border-collapse text-xs">
+              <thead className="bg-slate-50 text-[11px] uppercase tracking-[0.14em] text-slate-500">
+                <tr>
+                  <th className="px-2 py-2 text-left font-semibold">On</th>
+                  <th className="px-2 py-2 text-left font-semibold">Rule</th>
+                  <th className="px-2 py-2 text-left font-semibold">Severity</th>
+                  <th className="px-2 py-2 text-left font-semibold">Settings</th>
+                  <th className="px-2 py-2 text-left font-semibold">
+                    <span className="sr-only">Actions</span>
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="text-slate-700">
+                {rules.map((rule) => (
+                  <tr key={rule.id} className="border-b border-slate-100 last:border-b-0">
+                    <td className="px-2 py-1">
+                      <input
+                        type="checkbox"
+                        checked={rule.enabled}
+                        onChange={() => handleToggle(rule)}
+                        aria-label={`${rule.enabled ? "Disable" : "Enable"} ${rule.name}`}
+                        className="h-4 w-4 rounded border-slate-300"
+                      />
+                    </td>
+                    <td className="px-2 py-1">
+                      <div className="text-slate-900">{rule.name}</div>
+                      <div className="text-slate-500">{INSIGHT_RULE_KINDS[rule.kind]?.label}</div>
+                    </td>
+                    <td className="px-2 py-1">
+                      <span
+                        className={`rounded-full px-2 py-0.5 text-[11px] font-medium ${SEVERITY_BADGE[rule.severity]}`}
+                      >
+                        {SEVERITY_LABELS[rule.severity]}
+                      </span>
+                    </td>
+                    <td className="px-2 py-1 text-slate-600">
+                      {INSIGHT_RULE_KINDS[rule.kind] ? describeParams(rule) : ""}
+                      {rule.max_results !== null && ` · Show at most ${rule.max_results}`}
+                    </td>
+                    <td className="whitespace-nowrap px-2 py-1 text-right">
+                      <button
+                        type="button"
+                        onClick={() => startEdit(rule)}
+                        className="mr-3 text-slate-700 underline-offset-2 hover:underline"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(rule)}
+                        className="text-red-700 underline-offset-2 hover:underline"
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      <section
+        aria-label={editingId === null ? "Add an insight rule" : "Edit insight rule"}
+        className="rounded-xl border border-slate-200 bg-white p-4 text-xs shadow-sm"
+      >
+        <h2 className="text-sm font-semibold text-slate-900">
+          {editingId === null ? "Add an insight rule" : `Edit "${draft.name}"`}
+        </h2>
+        <p className="mt-1 text-slate-600">{kindInfo.description}</p>
+
+        <div className="mt-3 grid gap-3 sm:grid-cols-2">
+          <div>
+            <label htmlFor="insight-rule-kind" className="mb-1 block text-xs font-medium text-slate-700">
+              Rule type
+            </label>
+            <select
+              id="insight-rule-kind"
+              value={draft.kind}
+              onChange={(e) => changeKind(e.target.value as InsightRuleKind)}
+              disabled={editingId !== null}
+              className={`${INPUT_CLASS} disabled:bg-slate-50`}
+            >
+              {(Object.keys(INSIGHT_RULE_KINDS) as InsightRuleKind[]).map((kind) => (
+                <option key={kind} value={kind}>
+                  {INSIGHT_RULE_KINDS[kind].label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="insight-rule-name" className="mb-1 block text-xs font-medium text-slate-700">
+              Name
+            </label>
+            <input
+              id="insight-rule-name"
+              type="text"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              placeholder="Shown to admins only"
+              className={INPUT_CLASS}
+            />
+          </div>
+          <div>
+            <label htmlFor="insight-rule-severity" className="mb-1 block text-xs font-medium text-slate-700">
+              Severity
+            </label>
+            <select
+              id="insight-rule-severity"
+              value={draft.severity}
+              onChange={(e) => setDraft({ ...draft, severity: e.target.value as InsightType })}
+              className={INPUT_CLASS}
+            >
+              {INSIGHT_SEVERITIES.map((s) => (
+                <option key={s} value={s}>
+                  {SEVERITY_LABELS[s]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label htmlFor="insight-rule-max" className="mb-1 block text-xs font-medium text-slate-700">
+                Show at most
+              </label>
+              <input
+                id="insight-rule-max"
+                type="number"
+                min={1}
+                value={draft.max_results}
+                onChange={(e) => setDraft({ ...draft, max_results: e.target.value })}
+                placeholder="All"
+                className={INPUT_CLASS}
+              />
+            </div>
+            <div>
+              <label htmlFor="insight-rule-order" className="mb-1 block text-xs font-medium text-slate-700">
+                Order
+              </label>
+              <input
+                id="insight-rule-order"
+                type="number"
+                value={draft.sort_order}
+                onChange={(e) => setDraft({ ...draft, sort_order: e.target.value })}
+                className={INPUT_CLASS}
+              />
+            </div>
+          </div>
+
+          {kindInfo.params.map((spec) => (
+            <div key={spec.key}>
+              <label
+                htmlFor={`insight-rule-param-${spec.key}`}
+                className="mb-1 block text-xs font-medium text-slate-700"
+              >
+                {spec.label}
+              </label>
+              {spec.type === "select" ? (
+                <select
+                  id={`insight-rule-param-${spec.key}`}
+                  value={draft.params[spec.key] ?? spec.default}
+                  onChange={(e) =>
+                    setDraft({ ...draft, params: { ...draft.params, [spec.key]: e.target.value } })
+                  }
+                  className={INPUT_CLASS}
+                >
+                  {spec.options.map((o) => (
+                    <option key={o.value} value={o.value}>
+                      {o.label}
+                    </option>
+                  ))}
+                </select>
+              ) : (
+                <input
+                  id={`insight-rule-param-${spec.key}`}
+                  type="number"
+                  min={0}
+                  value={draft.params[spec.key] ?? ""}
+                  onChange={(e) =>
+                    setDraft({ ...draft, params: { ...draft.params, [spec.key]: e.target.value } })
+                  }
+                  className={INPUT_CLASS}
+                />
+              )}
+            </div>
+          ))}
+
+          <div className="sm:col-span-2">
+            <label htmlFor="insight-rule-title" className="mb-1 block text-xs font-medium text-slate-700">
+              Title wording
+            </label>
+            <input
+              id="insight-rule-title"
+              type="text"
+              value={draft.title_template}
+              onChange={(e) => setDraft({ ...draft, title_template: e.target.value })}
+              className={INPUT_CLASS}
+            />
+          </div>
+          <div className="sm:col-span-2">
+            <label htmlFor="insight-rule-description" className="mb-1 block text-xs font-medium text-slate-700">
+              Description wording
+            </label>
+            <input
+              id="insight-rule-description"
+              type="text"
+              value={draft.description_template}
+              onChange={(e) => setDraft({ ...draft, description_template: e.target.value })}
+              className={INPUT_CLASS}
+            />
+            <p className="mt-1 text-slate-500">
+              Placeholders:{" "}
+              {kindInfo.variables.map((v) => (
+                <code key={v} className="mr-1 rounded bg-slate-100 px-1 font-mono">
+                  {`{${v}}`}
+                </code>
+              ))}
+            </p>
+          </div>
+        </div>
+
+        {(draft.name || draft.title_template) && errors.length > 0 && (
+          <ul className="mt-3 list-disc space-y-0.5 pl-5 text-xs text-red-700">
+            {errors.map((err) => (
+              <li key={err}>{err}</li>
+            ))}
+          </ul>
+        )}
+
+        <div className="mt-3 flex flex-wrap items-center gap-2">
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={saving || errors.length > 0}
+            className="rounded-md bg-slate-900 px-4 py-2 text-sm font-medium text-white hover:bg-slate-700 disabled:opacity-50 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-slate-900 focus-visible:ring-offset-2"
+          >
+            {saving ? "Saving..." : editingId === null ? "Add rule" : "Save changes"}
+          </button>
+          {editingId !== null && (
+            <button
+              type="button"
+              onClick={resetForm}
+              className="rounded-md border border-slate-300 px-3 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-slate-900 focus-visible:ring-offset-2"
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+
+        {message && (
+          <p
+            role={message.isError ? "alert" : "status"}
+            className={`mt-2 text-xs ${message.isError ? "text-red-700" : "text-emerald-700"}`}
+          >
+            {message.text}
+          </p>
+        )}
+      </section>
+    </div>
+  );
+}
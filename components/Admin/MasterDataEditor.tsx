@@ -0,0 +1,346 @@
+// components/Admin/MasterDataEditor.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import { supabase } from "@/lib/supabase";
+import { getMasterDataEntries } from "@/lib/queries";
+import {
+  buildMasterDataTree,
+  MASTER_DATA_LABELS,
+  validateMasterDataEntry,
+  type MasterDataEntry,
+  type MasterDataKind,
+} from "@/lib/masterData";
+
+type Props = {
+  kind: MasterDataKind;
+  onChanged: () => void; // an entry was saved or deleted
+};
+
+type Draft = {
+  code: string;
+  name: string;
+  description: string;
+  parent_code: string;
+};
+
+const EMPTY_DRAFT: Draft = { code: "", name: "", description: "", parent_code: "" };
+
+// Rows shown before the list is filtered
+const MAX_VISIBLE_ENTRIES = 500;
+
+const INPUT_CLASS =
+  "h-9 w-full rounded-md border border-slate-200 bg-white px-2 text-sm text-slate-900 shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-slate-900";
+
+const SINGULAR: Record<MasterDataKind, string> = {
+  funds: "fund",
+  departments: "department",
+  accounts: "account",
+};
+
+export default function MasterDataEditor({ kind, onChanged }: Props) {
+  const [entries, setEntries] = useState<MasterDataEntry[] | null>(null);
+  const [filter, setFilter] = useState("");
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [editingCode, setEditingCode] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(
+    null
+  );
+
+  useEffect(() => {
+    getMasterDataEntries(kind).then(setEntries);
+  }, [kind]);
+
+  const singular = SINGULAR[kind];
+  const all = entries ?? [];
+  const errors = validateMasterDataEntry(
+    { code: draft.code, name: draft.name, parent_code: draft.parent_code || null },
+    all,
+    editingCode === null
+  );
+
+  const needle = filter.trim().toLowerCase();
+  const tree = buildMasterDataTree(all).filter(
+    ({ entry }) =>
+      !needle ||
+      entry.code.toLowerCase().includes(needle) ||
+      entry.name.toLowerCase().includes(needle)
+  );
+
+  function startEdit(entry: MasterDataEntry) {
+    setEditingCode(entry.code);
+    setDraft({
+      code: entry.code,
+      name: entry.name,
+      description: entry.description ?? "",
+      parent_code: entry.parent_code ?? "",
+    });
+    setMessage(null);
+  }
+
+  function resetForm() {
+    setEditingCode(null);
+    setDraft(EMPTY_DRAFT);
+  }
+
+  async function reload() {
+    setEntries(await getMasterDataEntries(kind));
+    onChanged();
+  }
+
+  async function handleSave() {
+    if (errors.length > 0) {
+      setMessage({ text: errors.join(" "), isError: true });
+      return;
+    }
+
+    setSaving(true);
+    setMessage(null);
+    try {
+      const code = draft.code.trim();
+      const { error } = await supabase.from(kind).upsert(
+        {
+          code,
+          name: draft.name.trim(),
+          description: draft.description.trim() || null,
+          parent_code: draft.parent_code || null,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: "code" }
+      );
+
+      if (error) {
+        console.error("MasterDataEditor: save error", error);
+        setMessage({ text: `Could not save ${singular}: ${error.message}`, isError: true });
+        return;
+      }
+
+      setMessage({
+        text: `Saved ${singular} ${code}. Apply to loaded data to update existing rows.`,
+        isError: false,
+      });
+      resetForm();
+      await reload();
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleDelete(entry: MasterDataEntry) {
+    const ok = window.confirm(
+      `Remove ${singular} ${entry.code} (${entry.name}) from the registry? Rows already loaded keep their current names; entries below it move to the top level.`
+    );
+    if (!ok) return;
+
+    const { error } = await supabase.from(kind).delete().eq("code", entry.code);
+    if (error) {
+      console.error("MasterDataEditor: delete error", error);
+      setMessage({ text: `Could not remove ${singular}: ${error.message}`, isError: true });
+      return;
+    }
+
+    if (editingCode === entry.code) resetForm();
+    setMessage({ text: `Removed ${singular} ${entry.code}.`, isError: false });
+    await reload();
+  }
+
+  return (
+    <div className="space-y-4">
+      <section
+        aria-label={`${editingCode ? "Edit" : "Add"} ${singular}`}
+        className="rounded-xl border border-slate-200 bg-white p-4 text-xs shadow-sm"
+      >
+        <h2 className="text-sm font-semibold text-slate-900">
+          {editingCode ? `Edit ${singular} ${editingCode}` : `Add a ${singular}`}
+        </h2>
+        <div className="mt-3 grid gap-3 sm:grid-cols-2">
+          <div>
+            <label htmlFor={`${kind}-code`} className="mb-1 block text-xs font-medium text-slate-700">
+              Code
+            </label>
+            <input
+              id={`${kind}-code`}
+              type="text"
+              value={draft.code}
+              onChange={(e) => setDraft({ ...draft, code: e.target.value })}
+              disabled={editingCode !== null}
+              placeholder="Code used in your ERP exports"
+              className={`${INPUT_CLASS} disabled:bg-slate-50`}
+            />
+          </div>
+          <div>
+            <label htmlFor={`${kind}-name`} className="mb-1 block text-xs font-medium text-slate-700">
+              Display name
+            </label>
+            <input
+              id={`${kind}-name`}
+              type="text"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              className={INPUT_CLASS}
+            />
+          </div>
+          <div>
+            <label htmlFor={`${kind}-parent`} className="mb-1 block text-xs font-medium text-slate-700">
+              Parent
+            </label>
+            <select
+              id={`${kind}-parent`}
+              value={draft.parent_code}
+              onChange={(e) => setDraft({ ...draft, parent_code: e.target.value })}
+              className={INPUT_CLASS}
+            >
+              <option value="">— None (top level) —</option>
+              {all
+                .filter((e) => e.code !== editingCode)
+                .map((e) => (
+                  <option key={e.code} value={e.code}>
+                    {e.code} · {e.name}
+                  </option>
+                ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor={`${kind}-description`} className="mb-1 block text-xs font-medium text-slate-700">
+              Description
+            </label>
+            <input
+              id={`${kind}-description`}
+              type="text"
+              value={draft.description}
+              onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+              className={INPUT_CLASS}
+            />
+          </div>
+        </div>
+
+        {(draft.code || draft.name) && errors.length > 0 && (
+          <ul className="mt-3 list-disc space-y-0.5 pl-5 text-xs text-red-700">
+            {errors.map((err) => (
+              <li key={err}>{err}</li>
+            ))}
+          </ul>
+        )}
+
+        <div className="mt-3 flex flex-wrap items-center gap-2">
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={saving || errors.length > 0}
+            className="rounded-md bg-slate-900 px-4 py-2 text-sm font-medium text-white hover:bg-slate-700 disabled:opacity-50 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-slate-900 focus-visible:ring-offset-2"
+          >
+            {saving ? "Saving..." : editingCode ? "Save changes" : `Add ${singular}`}
+          </button>
+          {editingCode && (
+            <button
+              type="button"
+              onClick={resetForm}
+              className="rounded-md border border-slate-300 px-3 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-slate-900 focus-visible:ring-offset-2"
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+
+        {message && (
+          <p
+            role={message.isError ? "alert" : "status"}
+            className={`mt-2 text-xs ${message.isError ? "text-red-700" : "text-emerald-700"}`}
+          >
+            {message.text}
+          </p>
+        )}
+      </section>
+
+      <section
+        aria-label={`Registered ${MASTER_DATA_LABELS[kind].toLowerCase()}`}
+        className="rounded-xl border border-slate-200 bg-white p-4 text-xs shadow-sm"
+      >
+        <div className="mb-3 flex flex-wrap items-end justify-between gap-2">
+          <h2 className="text-sm font-semibold text-slate-900">
+            Registered {MASTER_DATA_LABELS[kind].toLowerCase()}
+            {entries && (
+              <span className="ml-2 text-xs font-normal text-slate-500">
+                ({entries.length.toLocaleString("en-US")})
+              </span>
+            )}
+          </h2>
+          <div className="sm:w-64">
+            <label htmlFor={`${kind}-filter`} className="sr-only">
+              Filter by code or name
+            </label>
+            <input
+              id={`${kind}-filter`}
+              type="search"
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              placeholder="Filter by code or name"
+              className={INPUT_CLASS}
+            />
+          </div>
+        </div>
+
+        {entries === null ? (
+          <p className="text-slate-600">Loading…</p>
+        ) : entries.length === 0 ? (
+          <p className="text-slate-600">
+            No {MASTER_DATA_LABELS[kind].toLowerCase()} are registered yet.
+            Until they are, names are shown exactly as uploaded.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full border-collapse text-xs">
+              <thead className="bg-slate-50 text-[11px] uppercase tracking-[0.14em] text-slate-500">
+                <tr>
+                  <th className="px-2 py-2 text-left font-semibold">Code</th>
+                  <th className="px-2 py-2 text-left font-semibold">Name</th>
+                  <th className="px-2 py-2 text-left font-semibold">Description</th>
+                  <th className="px-2 py-2 text-left font-semibold">
+                    <span className="sr-only">Actions</span>
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="text-slate-700">
+                {tree.slice(0, MAX_VISIBLE_ENTRIES).map(({ entry, depth }) => (
+                  <tr key={entry.code} className="border-b border-slate-100 last:border-b-0">
+                    <td
+                      className="px-2 py-1 font-mono"
+                      style={{ paddingLeft: `${0.5 + depth * 1.25}rem` }}
+                    >
+                      {entry.code}
+                    </td>
+                    <td className="px-2 py-1 text-slate-900">{entry.name}</td>
+                    <td className="px-2 py-1 text-slate-600">{entry.description ?? ""}</td>
+                    <td className="whitespace-nowrap px-2 py-1 text-right">
+                      <button
+                        type="button"
+                        onClick={() => startEdit(entry)}
+                        className="mr-3 text-slate-700 underline-offset-2 hover:underline"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(entry)}
+                        className="text-red-700 underline-offset-2 hover:underline"
+                      >
+                        Remove
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {tree.length > MAX_VISIBLE_ENTRIES && (
+              <p className="mt-2 text-slate-500">
+                Showing the first {MAX_VISIBLE_ENTRIES} of{" "}
+                {tree.length.toLocaleString("en-US")}. Filter to find others.
+              </p>
+            )}
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,294 @@
+// components/Admin/PopulationEditor.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import { supabase } from "@/lib/supabase";
+import { getPopulationByYear } from "@/lib/queries";
+import type { PopulationEntry } from "@/lib/perCapita";
+
+type Draft = {
+  fiscal_year: string;
+  population: string;
+  households: string;
+  source: string;
+};
+
+const EMPTY_DRAFT: Draft = { fiscal_year: "", population: "", households: "", source: "" };
+
+const INPUT_CLASS =
+  "h-9 w-full rounded-md border border-slate-200 bg-white px-2 text-sm text-slate-900 shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-slate-900";
+
+const BUTTON_CLASS =
+  "rounded-md border border-slate-300 px-3 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50 disabled:opacity-50 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-slate-900 focus-visible:ring-offset-2";
+
+// Counts may be typed with thousands separators
+function toCount(value: string): number {
+  return Number(value.replace(/,/g, "").trim());
+}
+
+function draftErrors(draft: Draft): string[] {
+  const errors: string[] = [];
+  const year = Number(draft.fiscal_year);
+  if (!Number.isInteger(year) || year < 1900 || year > 2200) {
+    errors.push("Enter a four-digit fiscal year.");
+  }
+  const population = toCount(draft.population);
+  if (!Number.isInteger(population) || population <= 0) {
+    errors.push("Population must be a whole number above zero.");
+  }
+  if (draft.households.trim() !== "") {
+    const households = toCount(draft.households);
+    if (!Number.isInteger(households) || households <= 0) {
+      errors.push("Households must be a whole number above zero, or left blank.");
+    }
+  }
+  return errors;
+}
+
+export default function PopulationEditor() {
+  const [entries, setEntries] = useState<PopulationEntry[] | null>(null);
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [editingYear, setEditingYear] = useState<number | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(
+    null
+  );
+
+  useEffect(() => {
+    getPopulationByYear().then(setEntries);
+  }, []);
+
+  const errors = draftErrors(draft);
+
+  function startEdit(entry: PopulationEntry) {
+    setEditingYear(entry.fiscal_year);
+    setDraft({
+      fiscal_year: String(entry.fiscal_year),
+      population: String(entry.population),
+      households: entry.households === null ? "" : String(entry.households),
+      source: entry.source ?? "",
+    });
+    setMessage(null);
+  }
+
+  function resetForm() {
+    setEditingYear(null);
+    setDraft(EMPTY_DRAFT);
+  }
+
+  async function handleSave() {
+    if (errors.length > 0) {
+      setMessage({ text: errors.join(" "), isError: true });
+      return;
+    }
+
+    setSaving(true);
+    setMessage(null);
+    try {
+      const year = Number(draft.fiscal_year);
+      const { error } = await supabase.from("population_by_year").upsert(
+        {
+          fiscal_year: year,
+          population: toCount(draft.population),
+          households: draft.households.trim() === "" ? null : toCount(draft.households),
+          source: draft.source.trim() || null,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: "fiscal_year" }
+      );
+
+      if (error) {
+        console.error("PopulationEditor: save error", error);
+        setMessage({ text: `Could not save the population: ${error.message}`, isError: true });
+        return;
+      }
+
+      setMessage({ text: `Saved the population for FY ${year}.`, isError: false });
+      resetForm();
+      setEntries(await getPopulationByYear());
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleDelete(entry: PopulationEntry) {
+    const ok = window.confirm(
+      `Remove the population for FY ${entry.fiscal_year}? Per-resident views will use the nearest earlier year instead.`
+    );
+    if (!ok) return;
+
+    const { error } = await supabase
+      .from("population_by_year")
+      .delete()
+      .eq("fiscal_year", entry.fiscal_year);
+    if (error) {
+      console.error("PopulationEditor: delete error", error);
+      setMessage({ text: `Could not remove the population: ${error.message}`, isError: true });
+      return;
+    }
+
+    if (editingYear === entry.fiscal_year) resetForm();
+    setMessage({ text: `Removed the population for FY ${entry.fiscal_year}.`, isError: false });
+    setEntries(await getPopulationByYear());
+  }
+
+  return (
+    <section
+      aria-labelledby="population-heading"
+      className="rounded-xl border border-slate-200 bg-white p-4 text-xs shadow-sm"
+    >
+      <h2 id="population-heading" className="text-sm font-semibold text-slate-900">
+        Population and households
+      </h2>
+      <p className="mt-1 text-slate-600">
+        Budget, department, revenue and vendor pages can show amounts per
+        resident or per household, and narratives quote a per-resident figure.
+        Enter one count per fiscal year; a year without one uses the closest
+        earlier year. Households are optional.
+      </p>
+
+      <div className="mt-3 grid gap-3 sm:grid-cols-4">
+        <div>
+          <label htmlFor="population-year" className="mb-1 block text-xs font-medium text-slate-700">
+            Fiscal year
+          </label>
+          <input
+            id="population-year"
+            type="number"
+            inputMode="numeric"
+            value={draft.fiscal_year}
+            onChange={(e) => setDraft({ ...draft, fiscal_year: e.target.value })}
+            disabled={editingYear !== null}
+            className={`${INPUT_CLASS} disabled:bg-slate-50`}
+          />
+        </div>
+        <div>
+          <label htmlFor="population-count" className="mb-1 block text-xs font-medium text-slate-700">
+            Population
+          </label>
+          <input
+            id="population-count"
+            type="text"
+            inputMode="numeric"
+            value={draft.population}
+            onChange={(e) => setDraft({ ...draft, population: e.target.value })}
+            placeholder="e.g. 48,200"
+            className={INPUT_CLASS}
+          />
+        </div>
+        <div>
+          <label htmlFor="population-households" className="mb-1 block text-xs font-medium text-slate-700">
+            Households
+          </label>
+          <input
+            id="population-households"
+            type="text"
+            inputMode="numeric"
+            value={draft.households}
+            onChange={(e) => setDraft({ ...draft, households: e.target.value })}
+            placeholder="Optional"
+            className={INPUT_CLASS}
+          />
+        </div>
+        <div>
+          <label htmlFor="population-source" className="mb-1 block text-xs font-medium text-slate-700">
+            Source
+          </label>
+          <input
+            id="population-source"
+            type="text"
+            value={draft.source}
+            onChange={(e) => setDraft({ ...draft, source: e.target.value })}
+            placeholder="e.g. Census ACS 5-year"
+            className={INPUT_CLASS}
+          />
+        </div>
+      </div>
+
+      <div className="mt-3 flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={saving || errors.length > 0}
+          className="rounded-md bg-slate-900 px-4 py-2 text-sm font-medium text-white hover:bg-slate-700 disabled:opacity-50 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-slate-900 focus-visible:ring-offset-2"
+        >
+          {saving ? "Saving..." : editingYear ? "Save changes" : "Add year"}
+        </button>
+        {editingYear && (
+          <button type="button" onClick={resetForm} className={BUTTON_CLASS}>
+            Cancel
+          </button>
+        )}
+      </div>
+
+      {message && (
+        <p
+          role={message.isError ? "alert" : "status"}
+          className={`mt-3 text-xs ${message.isError ? "text-red-700" : "text-emerald-700"}`}
+        >
+          {message.text}
+        </p>
+      )}
+
+      <div className="mt-4">
+        {entries === null ? (
+          <p className="text-slate-600">Loading…</p>
+        ) : entries.length === 0 ? (
+          <p className="text-slate-600">
+            No counts are stored. Until one is, a plain number in the
+            landing-page population stat is used for the newest year.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full border-collapse text-xs">
+              <thead className="bg-slate-50 text-[11px] uppercase tracking-[0.14em] text-slate-500">
+                <tr>
+                  <th className="px-2 py-2 text-left font-semibold">Fiscal year</th>
+                  <th className="px-2 py-2 text-right font-semibold">Population</th>
+                  <th className="px-2 py-2 text-right font-semibold">Households</th>
+                  <th className="px-2 py-2 text-left font-semibold">Source</th>
+                  <th className="px-2 py-2 text-left font-semibold">
+                    <span className="sr-only">Actions</span>
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="text-slate-700">
+                {entries.map((entry) => (
+                  <tr
+                    key={entry.fiscal_year}
+                    className="border-b border-slate-100 last:border-b-0"
+                  >
+                    <td className="px-2 py-1 font-mono">{entry.fiscal_year}</td>
+                    <td className="px-2 py-1 text-right font-mono text-slate-900">
+                      {entry.population.toLocaleString("en-US")}
+                    </td>
+                    <td className="px-2 py-1 text-right font-mono text-slate-900">
+                      {entry.households === null ? "—" : entry.households.toLocaleString("en-US")}
+                    </td>
+                    <td className="px-2 py-1 text-slate-600">{entry.source ?? ""}</td>
+                    <td className="whitespace-nowrap px-2 py-1 text-right">
+                      <button
+                        type="button"
+                        onClick={() => startEdit(entry)}
+                        className="mr-3 text-slate-700 underline-offset-2 hover:underline"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(entry)}
+                        className="text-red-700 underline-offset-2 hover:underline"
+                      >
+                        Remove
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
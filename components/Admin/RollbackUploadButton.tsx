@@ -0,0 +1,84 @@
+// components/Admin/RollbackUploadButton.tsx
+"use client";
+
+import { useState } from "react";
+import { supabase } from "@/lib/supabase";
+import { csrfFetch } from "@/components/CsrfProvider";
+import type { DataUploadLogRow } from "@/lib/queries";
+
+type Props = {
+  upload: DataUploadLogRow;
+  onRolledBack: (message: string) => void;
+  onError: (message: string) => void;
+};
+
+function describeRollback(upload: DataUploadLogRow): string {
+  if (upload.mode === "append") {
+    return `remove the rows this upload added to ${upload.table_name}`;
+  }
+  if (upload.mode === "replace_year") {
+    return `restore the ${upload.table_name} rows for FY ${upload.fiscal_year} as they were before this upload`;
+  }
+  return `restore the entire ${upload.table_name} table as it was before this upload`;
+}
+
+export default function RollbackUploadButton({
+  upload,
+  onRolledBack,
+  onError,
+}: Props) {
+  const [busy, setBusy] = useState(false);
+
+  async function handleClick() {
+    const ok = window.confirm(
+      `Roll back to before this upload? This will ${describeRollback(upload)} and refresh the portal summaries.`
+    );
+    if (!ok) return;
+
+    setBusy(true);
+    try {
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
+
+      if (!session?.access_token) {
+        onError("You must be signed in as an admin. Please log in again.");
+        return;
+      }
+
+      const resp = await csrfFetch("/api/admin/upload/rollback", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({ uploadId: upload.id }),
+      });
+
+      const json = await resp.json().catch(() => null);
+      if (!resp.ok) {
+        onError(json?.error || "Rollback failed. Please try again.");
+        return;
+      }
+
+      onRolledBack(json?.message || "Upload rolled back.");
+    } catch (err: unknown) {
+      console.error("Rollback error", err);
+      onError(err instanceof Error ? err.message : "Rollback failed.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      disabled={busy}
+      aria-label={`Roll back to before upload of ${upload.filename ?? upload.table_name}`}
+      className="whitespace-nowrap rounded-md border border-amber-300 bg-amber-50 px-2 py-1 text-[11px] font-medium text-amber-800 hover:bg-amber-100 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-amber-500 disabled:cursor-not-allowed disabled:opacity-60"
+    >
+      {busy ? "Rolling back…" : "Roll back to before this upload"}
+    </button>
+  );
+}
@@ -6,447 +6,169 @@ import { supabase } from "@/lib/supabase";
 import { cityHref } from "@/lib/cityRouting";
 import { parseCsv } from "@/lib/csvParser";
 import { csrfFetch } from "@/components/CsrfProvider";
+import { requestUploadJobResume } from "@/components/Admin/UploadJobsPanel";
+import ColumnMappingEditor from "@/components/Admin/ColumnMappingEditor";
+import FixedWidthLayoutEditor from "@/components/Admin/FixedWidthLayoutEditor";
+import UploadDiffPreview from "@/components/Admin/UploadDiffPreview";
+import UploadExistingRows from "@/components/Admin/UploadExistingRows";
 import { downloadCsv } from "@/lib/downloadFile";
-
-const TABLE_SCHEMAS: Record<
-  string,
-  { required: string[]; numeric: string[] }
-> = {
-  budgets: {
-    required: [
-      "fiscal_year",
-      "fund_code",
-      "fund_name",
-      "department_code",
-      "department_name",
-      "category",
-      "account_code",
-      "account_name",
-      "amount",
-    ],
-    numeric: ["fiscal_year", "amount"],
-  },
-  actuals: {
-    required: [
-      "fiscal_year",
-      "period",
-      "fund_code",
-      "fund_name",
-      "department_code",
-      "department_name",
-      "category",
-      "account_code",
-      "account_name",
-      "amount",
-    ],
-    numeric: ["fiscal_year", "amount"],
-  },
-  transactions: {
-    required: [
-      "date",
-      "fiscal_year",
-      "fund_code",
-      "fund_name",
-      "department_code",
-      "department_name",
-      "account_code",
-      "account_name",
-      "vendor",
-      "description",
-      "amount",
-    ],
-    numeric: ["fiscal_year", "amount"],
-  },
-  revenues: {
-    required: [
-      "fiscal_year",
-      "period",
-      "fund_code",
-      "fund_name",
-      "department_code",
-      "department_name",
-      "category",
-      "account_code",
-      "account_name",
-      "amount",
-    ],
-    numeric: ["fiscal_year", "amount"],
-  },
-};
-
-type ValidationIssue = {
-  row: number | null;
-  field: string | null;
-  message: string;
-};
-
-const BAD_DEPT_VALUES = new Set(["", "na", "n/a", "null", "none"]);
-
-function isReasonableYear(n: unknown): boolean {
-  if (typeof n !== "number" || !Number.isInteger(n)) return false;
-  return n >= 2000 && n <= 2100;
-}
-
-// Strict ISO date: YYYY-MM-DD, no auto-correction
-function isValidISODate(value: string): boolean {
-  const trimmed = value.trim();
-  if (!/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) return false;
-
-  const [yearStr, monthStr, dayStr] = trimmed.split("-");
-  const year = Number(yearStr);
-  const month = Number(monthStr);
-  const day = Number(dayStr);
-
-  if (
-    !Number.isInteger(year) ||
-    !Number.isInteger(month) ||
-    !Number.isInteger(day)
-  ) {
-    return false;
-  }
-  if (month < 1 || month > 12) return false;
-  if (day < 1 || day > 31) return false;
-
-  const dt = new Date(trimmed + "T00:00:00Z");
-  if (Number.isNaN(dt.getTime())) return false;
-
-  // Ensure it didn't auto-correct (e.g. 2024-02-31 -> 2024-03-02)
-  const iso = dt.toISOString().slice(0, 10);
-  return iso === trimmed;
-}
+import { getUploadJob, getUploadMappingProfiles } from "@/lib/queries";
+import {
+  findMatchingProfile,
+  isIdentityMapping,
+  suggestColumnMapping,
+  validateColumnMapping,
+  type ColumnMapping,
+} from "@/lib/columnMapping";
+import {
+  DEFAULT_FILE_FORMAT,
+  DELIMITER_LABELS,
+  inferFileFormat,
+  isXlsxFilename,
+  parseFixedWidthText,
+  spreadsheetRowValues,
+  UPLOAD_FILE_ACCEPT,
+  validateFixedWidthLayout,
+  type Delimiter,
+  type FileFormat,
+} from "@/lib/fileFormats";
+import {
+  getJobProgressPercent,
+  isJobResumable,
+  UPLOAD_JOB_STATUS_LABELS,
+  type UploadJobRow,
+} from "@/lib/uploadJobStatus";
+import type { ExistingRowsReport, UploadDiff } from "@/lib/uploadDiff";
+import {
+  formatValidationIssues,
+  isUploadTable,
+  TABLE_SCHEMAS,
+  UPLOAD_BUCKET,
+  type DuplicatePolicy,
+  type UploadProgressEvent,
+  type UploadTable,
+} from "@/lib/uploadValidation";
+import type { Workbook } from "exceljs";
+
+// Only this much of a text file is read in the browser, for the preview table.
+const PREVIEW_BYTES = 256 * 1024;
+const PREVIEW_ROWS = 20;
+
+const JOB_POLL_INTERVAL_MS = 3000;
 
 /**
- * Accepts either MM/DD/YYYY or YYYY-MM-DD and returns a normalized
- * YYYY-MM-DD string, or null if invalid.
+ * Read the newline-delimited JSON events streamed by an /api/admin/upload
+ * dry run. Returns the final event ("validated" or "error").
  */
-function parseAndNormalizeTransactionDate(value: unknown): string | null {
-  if (typeof value !== "string") return null;
-  const trimmed = value.trim();
-  if (!trimmed) return null;
-
-  // Already ISO: YYYY-MM-DD
-  if (/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) {
-    return isValidISODate(trimmed) ? trimmed : null;
-  }
-
-  // MM/DD/YYYY (1 or 2 digit month/day)
-  if (/^\d{1,2}\/\d{1,2}\/\d{4}$/.test(trimmed)) {
-    const [mStr, dStr, yStr] = trimmed.split("/");
-    const month = Number(mStr);
-    const day = Number(dStr);
-    const year = Number(yStr);
-    if (
-      !Number.isInteger(year) ||
-      !Number.isInteger(month) ||
-      !Number.isInteger(day)
-    ) {
-      return null;
-    }
-    if (month < 1 || month > 12) return null;
-    if (day < 1 || day > 31) return null;
-
-    const dt = new Date(year, month - 1, day);
-    if (Number.isNaN(dt.getTime())) return null;
-    // ensure no auto-correct
-    if (
-      dt.getFullYear() !== year ||
-      dt.getMonth() !== month - 1 ||
-      dt.getDate() !== day
-    ) {
-      return null;
+async function readUploadEvents(
+  resp: Response,
+  onProgress: (event: UploadProgressEvent) => void
+): Promise<UploadProgressEvent | null> {
+  if (!resp.body) return null;
+
+  const reader = resp.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let last: UploadProgressEvent | null = null;
+
+  const handleLine = (line: string) => {
+    if (!line.trim()) return;
+    const event = JSON.parse(line) as UploadProgressEvent;
+    if (event.type === "progress") {
+      onProgress(event);
+    } else {
+      last = event;
     }
-    const mm = String(month).padStart(2, "0");
-    const dd = String(day).padStart(2, "0");
-    return `${year}-${mm}-${dd}`;
-  }
-
-  return null;
-}
-
-// period: accept YYYY-M or YYYY-MM (we normalize to YYYY-MM before upload)
-function isValidPeriod(value: unknown): boolean {
-  if (typeof value !== "string") return false;
-  const trimmed = value.trim();
-
-  const m = /^(\d{4})[-/](\d{1,2})$/.exec(trimmed);
-  if (!m) return false;
+  };
 
-  const year = Number(m[1]);
-  const period = Number(m[2]);
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
 
-  if (!Number.isInteger(year) || !Number.isInteger(period)) return false;
-  if (!isReasonableYear(year)) return false;
-  if (period < 1 || period > 12) return false;
+    let newline = buffer.indexOf("\n");
+    while (newline >= 0) {
+      handleLine(buffer.slice(0, newline));
+      buffer = buffer.slice(newline + 1);
+      newline = buffer.indexOf("\n");
+    }
+  }
+  handleLine(buffer + decoder.decode());
 
-  return true;
+  return last;
 }
 
-
-function isBadDeptName(value: unknown): boolean {
-  if (typeof value !== "string") return true;
-  const normalized = value.trim().toLowerCase();
-  if (!normalized) return true;
-  return BAD_DEPT_VALUES.has(normalized);
+function describeProgress(event: UploadProgressEvent): string | null {
+  if (event.type !== "progress") return null;
+  return `Validating... ${event.rowsProcessed.toLocaleString()} rows checked`;
 }
 
-function parseNumber(value: string): number | null {
-  const cleaned = value.replace(/[$,]/g, "").trim();
-  if (!cleaned) return null;
-  const n = Number(cleaned);
-  return Number.isFinite(n) ? n : null;
+function describeJobProgress(job: UploadJobRow): string {
+  const label = UPLOAD_JOB_STATUS_LABELS[job.status];
+  if (job.status === "inserting" && job.total_rows != null) {
+    const percent = getJobProgressPercent(job);
+    const skipped =
+      job.rows_skipped > 0
+        ? `, ${job.rows_skipped.toLocaleString()} skipped as duplicates`
+        : "";
+    return `${label}... ${job.rows_inserted.toLocaleString()} of ${job.total_rows.toLocaleString()} rows${skipped} (${percent}%)`;
+  }
+  return `${label}...`;
 }
 
-function normalizeHeader(header: string): string {
-  return header.trim();
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
-function validateAndBuildRecords(
-  table: string,
-  schema: { required: string[]; numeric: string[] },
-  headers: string[],
-  dataRows: string[][]
-): {
-  records: Record<string, unknown>[];
-  yearsInData: number[];
-  issues: ValidationIssue[];
-} {
-  const issues: ValidationIssue[] = [];
-
-  // 1) Header checks: duplicates + missing required + unexpected
-  const headerCounts = new Map<string, number>();
-  headers.forEach((h) => {
-    const key = h.trim();
-    headerCounts.set(key, (headerCounts.get(key) ?? 0) + 1);
-  });
+// What the preview is built from: the start of a text file, or the opened
+// workbook (xlsx is zipped, so it can't be read partially).
+type PreviewSource =
+  | { kind: "text"; text: string; isPartial: boolean }
+  | { kind: "workbook"; workbook: Workbook };
 
-  for (const [h, count] of headerCounts.entries()) {
-    if (count > 1) {
-      issues.push({
-        row: null,
-        field: h,
-        message: `Duplicate column header "${h}" appears ${count} times. Column names must be unique.`,
-      });
-    }
-  }
-
-  const missingRequired = schema.required.filter(
-    (col) => !headers.includes(col)
-  );
-  if (missingRequired.length > 0) {
-    issues.push({
-      row: null,
-      field: null,
-      message: `Missing required column(s): ${missingRequired.join(
-        ", "
-      )}. Please add these columns to your CSV.`,
-    });
+/**
+ * Header row plus the first data rows of a worksheet, and the number of
+ * data rows in it.
+ */
+function readWorksheetPreview(
+  workbook: Workbook,
+  sheet: string | null
+): { rows: string[][]; dataRowCount: number } {
+  const worksheet = sheet
+    ? workbook.getWorksheet(sheet)
+    : workbook.worksheets[0];
+  if (!worksheet) return { rows: [], dataRowCount: 0 };
+
+  const rows: string[][] = [];
+  for (let r = 1; r <= worksheet.rowCount && rows.length <= PREVIEW_ROWS; r++) {
+    const values = spreadsheetRowValues(worksheet.getRow(r));
+    if (values.some((v) => v !== "")) rows.push(values);
   }
 
-  // Validate no unexpected non-empty header names
-  const allowedCols = new Set<string>([
-    ...schema.required,
-    ...schema.numeric,
-  ]);
-
-  headers.forEach((h) => {
-    const normalized = h.trim();
-    if (!normalized) return; // allow blank trailing columns
-    if (!allowedCols.has(normalized)) {
-      // Extra columns are allowed but will be ignored
-      issues.push({
-        row: null,
-        field: normalized,
-        message: `Extra column "${normalized}" will be ignored during upload.`,
-      });
-    }
-  });
-
-  const records: Record<string, unknown>[] = [];
-  const yearSet = new Set<number>();
-
-  dataRows.forEach((row, idx) => {
-    const rowNum = idx + 2; // account for header row
-    const rec: Record<string, unknown> = {};
-
-    // Only copy columns that map to known fields; extras are ignored.
-    headers.forEach((rawHeader, colIndex) => {
-      const header = normalizeHeader(rawHeader);
-      if (!allowedCols.has(header)) {
-        return; // skip unknown columns so we don't send them to Supabase
-      }
-      const value = row[colIndex] ?? "";
-      rec[header] = value;
-    });
-
-    // Numeric conversions
-    for (const numericCol of schema.numeric) {
-      const raw = rec[numericCol];
-      if (raw === undefined || raw === null || raw === "") {
-        issues.push({
-          row: rowNum,
-          field: numericCol,
-          message: `Numeric column "${numericCol}" is empty.`,
-        });
-        continue;
-      }
-      const parsed = parseNumber(String(raw));
-      if (parsed === null) {
-        issues.push({
-          row: rowNum,
-          field: numericCol,
-          message: `Value "${raw}" in column "${numericCol}" is not a valid number.`,
-        });
-      } else {
-        rec[numericCol] = parsed;
-      }
-          // Normalize period to YYYY-MM (accept YYYY-M too) for actuals and revenues
-    
-          if (table === "actuals" || table === "revenues") {
-      if (typeof rec["period"] === "string") {
-        const m = /^(\d{4})[-/](\d{1,2})$/.exec(rec["period"].trim());
-        if (m) {
-          const yyyy = m[1];
-          const mm = String(Number(m[2])).padStart(2, "0");
-          rec["period"] = `${yyyy}-${mm}`;
-        }
-      }
-    }
-
-    }
-
-        // Normalize period to YYYY-MM (accept YYYY-M too) for actuals and revenues
-    if (table === "actuals" || table === "revenues") {
-      if (typeof rec["period"] === "string") {
-        const m = /^(\d{4})[-/](\d{1,2})$/.exec(rec["period"].trim());
-        if (m) {
-          const yyyy = m[1];
-          const mm = String(Number(m[2])).padStart(2, "0");
-          rec["period"] = `${yyyy}-${mm}`;
-        }
-      }
-    }
-
-    // Type-specific validations
-    const fy = rec["fiscal_year"];
-
-    if (table === "transactions") {
-      // date: accept MM/DD/YYYY or YYYY-MM-DD, normalize to YYYY-MM-DD
-      const normalizedDate = parseAndNormalizeTransactionDate(
-        rec["date"]
-      );
-      if (!normalizedDate) {
-        issues.push({
-          row: rowNum,
-          field: "date",
-          message:
-            'Invalid date format. Expected "MM/DD/YYYY" (e.g. "7/1/2024") or "YYYY-MM-DD".',
-        });
-      } else {
-        rec["date"] = normalizedDate;
-      }
-
-      // description
-      if (isBadDeptName(rec["description"])) {
-        issues.push({
-          row: rowNum,
-          field: "description",
-          message:
-            "description is required and cannot be blank or 'NA'.",
-        });
-      }
-
-      // fiscal_year sanity
-      if (!isReasonableYear(fy)) {
-        issues.push({
-          row: rowNum,
-          field: "fiscal_year",
-          message: `Invalid fiscal_year "${fy}". Expected a 4-digit year between 2000 and 2100.`,
-        });
-      } else {
-        yearSet.add(fy as number);
-      }
-    } else if (
-      table === "budgets" ||
-      table === "actuals" ||
-      table === "revenues"
-    ) {
-      // department_name
-      if (isBadDeptName(rec["department_name"])) {
-        issues.push({
-          row: rowNum,
-          field: "department_name",
-          message:
-            "department_name is required and cannot be blank or 'NA'.",
-        });
-      }
-
-      // fiscal_year sanity
-      if (!isReasonableYear(fy)) {
-        issues.push({
-          row: rowNum,
-          field: "fiscal_year",
-          message: `Invalid fiscal_year "${fy}". Expected a 4-digit year between 2000 and 2100.`,
-        });
-      } else {
-        yearSet.add(fy as number);
-      }
-    }
-
-    // amount non-negative
-    if (rec["amount"] !== undefined) {
-      const amt = rec["amount"];
-      if (typeof amt !== "number" || !Number.isFinite(amt)) {
-        issues.push({
-          row: rowNum,
-          field: "amount",
-          message: `Invalid amount "${amt}".`,
-        });
-      } else if (amt < 0) {
-        issues.push({
-          row: rowNum,
-          field: "amount",
-          message: `Negative amount "${amt}" is not allowed for ${table}.`,
-        });
-      }
-    }
-
-    // period format for actuals and revenues
-    if (table === "actuals" || table === "revenues") {
-      if (!isValidPeriod(rec["period"])) {
-        issues.push({
-          row: rowNum,
-          field: "period",
-           message:
-            'Invalid period. Use a calendar month "YYYY-MM" (e.g. "2027-08"). Fiscal year is derived from period using the FY start (July-start example: 2027-08 belongs to FY2028). We also accept "YYYY-M" and normalize it.',
-
-        });
-      }
-    }
-
-    records.push(rec);
-  });
-
-  return {
-    records,
-    yearsInData: Array.from(yearSet).sort((a, b) => a - b),
-    issues,
-  };
+  return { rows, dataRowCount: Math.max(0, worksheet.actualRowCount - 1) };
 }
 
+
 type Mode = "append" | "replace_year" | "replace_table";
 
 type PreflightSummary = {
-  table: string;
+  table: UploadTable;
   rowCount: number;
   yearsInData: number[];
   mode: Mode;
   replaceYear: number | null;
+  storagePath: string; // raw file already uploaded to Storage
+  mapping: ColumnMapping | null;
+  fileFormat: FileFormat;
+  diff: UploadDiff | null; // changes versus the live data
+  existingRows: ExistingRowsReport | null; // rows of an append already loaded
+  duplicatePolicy: DuplicatePolicy | null; // null until chosen, when needed
 };
 
 export default function UploadClient() {
   // --- Upload state ---
   const [file, setFile] = useState<File | null>(null);
-  const [table, setTable] = useState<string>("budgets");
+  const [table, setTable] = useState<UploadTable>("budgets");
   const [mode, setMode] = useState<Mode>("append");
   const [replaceYear, setReplaceYear] = useState<string>("");
   const [replaceYearConfirm, setReplaceYearConfirm] = useState<string>("");
@@ -459,16 +181,24 @@ export default function UploadClient() {
   const [fileSizeWarning, setFileSizeWarning] = useState<string | null>(null);
 
   const [preflight, setPreflight] = useState<PreflightSummary | null>(null);
-  const [pendingRecords, setPendingRecords] = useState<
-    Record<string, unknown>[] | null
-  >(null);
-  const [pendingYearsInData, setPendingYearsInData] = useState<number[]>([]);
 
-  // --- CSV preview state ---
+  // --- File format and preview state ---
+  const [fileFormat, setFileFormat] = useState<FileFormat>(DEFAULT_FILE_FORMAT);
+  const [previewSource, setPreviewSource] = useState<PreviewSource | null>(
+    null
+  );
   const [previewHeaders, setPreviewHeaders] = useState<string[] | null>(null);
   const [previewRows, setPreviewRows] = useState<string[][] | null>(null);
   const [previewMessage, setPreviewMessage] = useState<string | null>(null);
 
+  // --- Column mapping state (null = file already uses template headers) ---
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping | null>(
+    null
+  );
+  const [mappingProfileName, setMappingProfileName] = useState<string | null>(
+    null
+  );
+
   const messageRef = useRef<HTMLDivElement | null>(null);
   const fileInputRef = useRef<HTMLInputElement | null>(null);
 
@@ -491,13 +221,15 @@ export default function UploadClient() {
     function resetUploadState() {
     setFile(null);
 
+    setFileFormat(DEFAULT_FILE_FORMAT);
+    setPreviewSource(null);
     setPreviewHeaders(null);
     setPreviewRows(null);
     setPreviewMessage(null);
+    setColumnMapping(null);
+    setMappingProfileName(null);
 
     setPreflight(null);
-    setPendingRecords(null);
-    setPendingYearsInData([]);
 
     setMessage(null);
     setMessageIsError(false);
@@ -514,7 +246,7 @@ export default function UploadClient() {
   }
 
   function handleTableChange(nextTable: string) {
-    if (nextTable === table) return;
+    if (nextTable === table || !isUploadTable(nextTable)) return;
 
     // Reset everything so we don't accidentally upload the wrong file to the wrong dataset.
     resetUploadState();
@@ -602,23 +334,244 @@ export default function UploadClient() {
 
   useEffect(() => {
     // Initial coverage check on mount
-    // eslint-disable-next-line react-hooks/set-state-in-effect
     refreshCoverageWarnings();
   }, []);
 
-  async function handlePrepareUpload() {
-    if (!file) {
-      setError("Please select a CSV file before uploading.");
+  /**
+   * Pick the column mapping for a newly chosen file: a saved profile with
+   * the same header signature, else a suggestion. Files that already use
+   * the template headers need no mapping.
+   */
+  async function detectColumnMapping(headers: string[]) {
+    const profiles = await getUploadMappingProfiles(table);
+    const profile = findMatchingProfile(profiles, table, headers);
+
+    if (profile) {
+      setColumnMapping(profile.mapping);
+      setMappingProfileName(profile.name);
+      return;
+    }
+
+    const suggested = suggestColumnMapping(table, headers);
+    setColumnMapping(isIdentityMapping(table, suggested) ? null : suggested);
+    setMappingProfileName(null);
+  }
+
+  /**
+   * Rebuild the preview table (and the column mapping) for the chosen file
+   * read in the given format.
+   */
+  async function showPreview(format: FileFormat, source: PreviewSource) {
+    setPreviewHeaders(null);
+    setPreviewRows(null);
+    setPreviewMessage(null);
+    setColumnMapping(null);
+    setMappingProfileName(null);
+    setPreflight(null);
+
+    let rows: string[][];
+    let isPartial = false;
+    let dataRowCount: number | null = null;
+
+    if (source.kind === "workbook") {
+      const preview = readWorksheetPreview(
+        source.workbook,
+        format.type === "xlsx" ? format.sheet : null
+      );
+      rows = preview.rows;
+      dataRowCount = preview.dataRowCount;
+    } else if (format.type === "fixed_width") {
+      if (format.layout.columns.length === 0) {
+        setPreviewMessage(
+          "Set up the column layout below to preview this fixed-width file."
+        );
+        return;
+      }
+      rows = parseFixedWidthText(source.text, format.layout);
+      isPartial = source.isPartial;
+    } else {
+      rows = parseCsv(
+        source.text,
+        format.type === "delimited" ? format.delimiter : ","
+      );
+      isPartial = source.isPartial;
+    }
+
+    // The last row of a partial read may be cut off mid-line.
+    if (isPartial && rows.length > 1) rows.pop();
+
+    if (rows.length === 0) {
+      setPreviewMessage("File appears to be empty.");
       return;
     }
 
-    const schema = TABLE_SCHEMAS[table];
-    if (!schema) {
-      setError(`No schema defined for table "${table}".`);
+    const headers = rows[0].map((h) => h.trim());
+    const dataRows = rows.slice(1, PREVIEW_ROWS + 1);
+
+    setPreviewHeaders(headers);
+    setPreviewRows(dataRows);
+    await detectColumnMapping(headers);
+
+    const sampledRows = dataRowCount ?? rows.length - 1;
+    if (isPartial) {
+      setPreviewMessage(
+        `Showing first ${dataRows.length} row(s). The full file is counted and validated on the server when you review the upload.`
+      );
+    } else if (sampledRows > dataRows.length) {
+      setPreviewMessage(
+        `Showing first ${dataRows.length} of ${sampledRows} row(s).`
+      );
+    } else {
+      setPreviewMessage(`${sampledRows} row(s) detected in this file.`);
+    }
+  }
+
+  async function handleFileFormatChange(next: FileFormat) {
+    setFileFormat(next);
+    if (!previewSource) return;
+    try {
+      await showPreview(next, previewSource);
+    } catch (err) {
+      console.error("Preview parse error:", err);
+      setPreviewMessage("Could not read the file in this format.");
+    }
+  }
+
+  async function getAccessToken(): Promise<string | null> {
+    const {
+      data: { session },
+      error: sessionError,
+    } = await supabase.auth.getSession();
+
+    if (sessionError || !session?.access_token) {
+      console.error("UploadClient: no valid session", sessionError);
+      return null;
+    }
+    return session.access_token;
+  }
+
+  /**
+   * Send the raw file straight to Storage via a signed upload URL.
+   * Returns the storage path the server will stream it back from.
+   */
+  async function uploadRawFile(
+    f: File,
+    accessToken: string
+  ): Promise<string> {
+    const resp = await csrfFetch("/api/admin/upload/file", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${accessToken}`,
+      },
+      body: JSON.stringify({ table, filename: f.name }),
+    });
+
+    const json = await resp.json();
+    if (!resp.ok || !json?.path || !json?.token) {
+      throw new Error(json?.error || "Could not prepare file upload.");
+    }
+
+    const { error } = await supabase.storage
+      .from(UPLOAD_BUCKET)
+      .uploadToSignedUrl(json.path, json.token, f, {
+        contentType: f.type || "text/csv",
+      });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return json.path as string;
+  }
+
+  async function postUpload(
+    accessToken: string,
+    payload: Record<string, unknown>
+  ): Promise<UploadProgressEvent | null> {
+    const resp = await csrfFetch("/api/admin/upload", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${accessToken}`,
+      },
+      body: JSON.stringify(payload),
+    });
+
+    if (!resp.ok) {
+      const result = await resp.json().catch(() => null);
+      console.error("Upload API error:", resp.status, result);
+      return {
+        type: "error",
+        error:
+          result?.error ||
+          "Upload failed on the server. Please try again or contact support.",
+      };
+    }
+
+    return readUploadEvents(resp, (event) => {
+      const text = describeProgress(event);
+      if (text) setUploadProgress(text);
+    });
+  }
+
+  /**
+   * Queue the confirmed upload as a background job and return its id.
+   */
+  async function startUploadJob(
+    accessToken: string,
+    payload: Record<string, unknown>
+  ): Promise<number> {
+    const resp = await csrfFetch("/api/admin/upload", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${accessToken}`,
+      },
+      body: JSON.stringify(payload),
+    });
+
+    const json = await resp.json().catch(() => null);
+    if (!resp.ok || typeof json?.jobId !== "number") {
+      console.error("Upload API error:", resp.status, json);
+      throw new Error(
+        json?.error ||
+          "Upload failed on the server. Please try again or contact support."
+      );
+    }
+    return json.jobId;
+  }
+
+  /**
+   * Poll an upload job until it finishes. Large files take several runs;
+   * when a run pauses at its time limit the next one is started from here.
+   */
+  async function waitForUploadJob(jobId: number): Promise<UploadJobRow> {
+    while (true) {
+      await sleep(JOB_POLL_INTERVAL_MS);
+
+      const job = await getUploadJob(jobId);
+      if (!job) continue;
+
+      if (job.status === "done" || job.status === "failed") return job;
+
+      setUploadProgress(describeJobProgress(job));
+
+      if (isJobResumable(job)) {
+        const resumeError = await requestUploadJobResume(jobId);
+        if (resumeError) console.warn("Upload resume:", resumeError);
+      }
+    }
+  }
+
+  async function handlePrepareUpload() {
+    if (!file) {
+      setError("Please select a file before uploading.");
       return;
     }
 
     // Mode-level guards
+    let targetYear: number | null = null;
     if (mode === "replace_year") {
       if (!replaceYear.trim()) {
         setError("Please enter a fiscal year to replace.");
@@ -630,6 +583,35 @@ export default function UploadClient() {
         );
         return;
       }
+      targetYear = Number(replaceYear);
+      if (!Number.isFinite(targetYear)) {
+        setError("Fiscal year must be a valid number.");
+        return;
+      }
+    }
+
+    if (fileFormat.type === "fixed_width") {
+      const layoutErrors = validateFixedWidthLayout(fileFormat.layout);
+      if (layoutErrors.length > 0) {
+        setError(
+          `Finish the column layout before uploading:\n\n${layoutErrors.join("\n")}`
+        );
+        return;
+      }
+    }
+
+    if (columnMapping && previewHeaders) {
+      const mappingErrors = validateColumnMapping(
+        table,
+        columnMapping,
+        previewHeaders
+      );
+      if (mappingErrors.length > 0) {
+        setError(
+          `Finish mapping columns before uploading:\n\n${mappingErrors.join("\n")}`
+        );
+        return;
+      }
     }
 
     if (mode === "replace_table" && !replaceTableConfirmed) {
@@ -643,183 +625,141 @@ export default function UploadClient() {
     setMessage(null);
 
     try {
-      const text = await file.text();
-
-      // Parse CSV properly (handles quoted fields with commas)
-      const rows = parseCsv(text);
-
-      if (rows.length < 2) {
-        setError("CSV appears to be empty or missing data rows.");
-        setLoading(false);
+      const accessToken = await getAccessToken();
+      if (!accessToken) {
+        setError(
+          "You must be signed in as an admin to upload data. Please log in again."
+        );
         return;
       }
 
-      const headers = rows[0].map((h) => h.trim());
-      const dataRows = rows.slice(1);
+      setUploadProgress("Uploading file...");
+      const storagePath = await uploadRawFile(file, accessToken);
 
-      // Validation + record building
-      const { records, yearsInData, issues } = validateAndBuildRecords(
+      // Dry run: the server streams and validates every row without writing.
+      setUploadProgress("Validating...");
+      const result = await postUpload(accessToken, {
         table,
-        schema,
-        headers,
-        dataRows
-      );
-
-      if (issues.length > 0) {
-        const sample = issues.slice(0, 8);
-        const formatted = sample.map((issue) => {
-          const rowPart = issue.row !== null ? `Row ${issue.row}: ` : "";
-          const fieldPart = issue.field ? `[${issue.field}] ` : "";
-          return `${rowPart}${fieldPart}${issue.message}`;
-        });
-        const extra =
-          issues.length > sample.length
-            ? `\n...and ${issues.length - sample.length} more issue(s).`
-            : "";
+        mode,
+        replaceYear: targetYear,
+        storagePath,
+        filename: file.name,
+        mapping: columnMapping,
+        fileFormat,
+        dryRun: true,
+      });
 
-        setError(
-          `CSV validation failed. Fix these issues and try again:\n\n${formatted.join(
-            "\n"
-          )}${extra}`
-        );
-        setLoading(false);
+      if (!result || result.type === "error") {
+        setError(result?.error || "Validation failed on the server.");
         return;
       }
 
-      // Compute targetYear for replace_year mode; server will enforce
-      let targetYear: number | null = null;
-      if (mode === "replace_year") {
-        targetYear = Number(replaceYear);
-        if (!Number.isFinite(targetYear)) {
-          setError("Fiscal year must be a valid number.");
-          setLoading(false);
-          return;
-        }
-
-        if (yearsInData.length === 0) {
-          setError(
-            "CSV contains no fiscal_year values; cannot perform year-specific replace."
-          );
-          setLoading(false);
-          return;
-        }
+      if (result.type !== "validated") {
+        setError("Unexpected response from the server.");
+        return;
+      }
 
-        const otherYears = yearsInData.filter((y) => y !== targetYear);
-        if (otherYears.length > 0) {
-          setError(
-            `CSV contains multiple fiscal years (${yearsInData.join(
-              ", "
-            )}). For 'Replace this fiscal year only', upload a file that only contains fiscal_year = ${targetYear}.`
-          );
-          setLoading(false);
-          return;
-        }
+      if (result.issueCount > 0) {
+        setError(
+          `Validation failed. Fix these issues and try again:\n\n${formatValidationIssues(
+            result.issues,
+            result.issueCount
+          )}`
+        );
+        return;
       }
 
       // Build preflight summary and wait for user confirmation before uploading
       setPreflight({
         table,
-        rowCount: records.length,
-        yearsInData,
+        rowCount: result.rowCount,
+        yearsInData: result.yearsInData,
         mode,
         replaceYear: targetYear,
+        storagePath,
+        mapping: columnMapping,
+        fileFormat,
+        diff: result.diff,
+        existingRows: result.existingRows,
+        duplicatePolicy: result.existingRows?.count ? null : "insert",
       });
-      setPendingRecords(records);
-      setPendingYearsInData(yearsInData);
       setInfo(
-        "Review the upload summary below, then confirm to start the upload."
+        "Review the upload summary and the changes it makes below, then confirm to start the upload."
       );
     } catch (err: unknown) {
       console.error(err);
-      setError("Failed to process CSV: " + (err instanceof Error ? err.message : "Unknown error"));
+      setError("Failed to process file: " + (err instanceof Error ? err.message : "Unknown error"));
+    } finally {
+      setUploadProgress(null);
+      setLoading(false);
     }
-
-    setLoading(false);
   }
 
   async function handleConfirmUpload() {
-    if (!preflight || !pendingRecords || pendingRecords.length === 0) {
+    if (!preflight) {
       setError(
         "No upload is prepared. Choose a file, generate the summary, and try again."
       );
       return;
     }
 
-    if (!file) {
+    if (!preflight.duplicatePolicy) {
       setError(
-        "The selected file is no longer available. Please choose the CSV again."
+        "Choose whether to skip or insert the rows already in the portal before confirming."
       );
       return;
     }
 
     setLoading(true);
     setMessage(null);
-    setUploadProgress(`Uploading ${pendingRecords.length.toLocaleString()} rows...`);
+    setUploadProgress(
+      `Queued ${preflight.rowCount.toLocaleString()} rows... This may take a few minutes for large files.`
+    );
 
     try {
-      // Use Supabase session token + server API (service role)
-      const {
-        data: { session },
-        error: sessionError,
-      } = await supabase.auth.getSession();
-
-      if (sessionError || !session?.access_token) {
-        console.error("UploadClient: no valid session", sessionError);
+      const accessToken = await getAccessToken();
+      if (!accessToken) {
         setError(
           "You must be signed in as an admin to upload data. Please log in again."
         );
-        setLoading(false);
-        setUploadProgress(null);
         return;
       }
 
-      // Update progress for large uploads
-      if (pendingRecords.length > 10000) {
-        setUploadProgress(
-          `Processing ${pendingRecords.length.toLocaleString()} rows... This may take a few minutes for large files.`
-        );
-      }
-
-      const resp = await csrfFetch("/api/admin/upload", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${session.access_token}`,
-        },
-        body: JSON.stringify({
-          table: preflight.table,
-          mode: preflight.mode,
-          replaceYear: preflight.replaceYear,
-          records: pendingRecords,
-          filename: file.name,
-          yearsInData: pendingYearsInData,
-        }),
+      const jobId = await startUploadJob(accessToken, {
+        table: preflight.table,
+        mode: preflight.mode,
+        replaceYear: preflight.replaceYear,
+        storagePath: preflight.storagePath,
+        mapping: preflight.mapping,
+        fileFormat: preflight.fileFormat,
+        duplicatePolicy: preflight.duplicatePolicy,
+        filename: file?.name ?? null,
       });
 
-      const result = await resp.json();
-
-      if (!resp.ok) {
-        console.error("Upload API error:", resp.status, result);
-
+      const job = await waitForUploadJob(jobId);
+      if (job.status !== "done") {
         setError(
-          result?.error ||
-            "Upload failed on the server. Please try again or contact support."
+          job.error_message ||
+            "Upload failed on the server. You can retry it from Upload history."
         );
-        setLoading(false);
-        setUploadProgress(null);
         return;
       }
 
-      setUploadProgress(null);
-      setInfo(result?.message || "Upload completed successfully.");
+      const loaded = (job.total_rows ?? 0) - job.rows_skipped;
+      setInfo(
+        `Successfully loaded ${loaded.toLocaleString()} record(s) into "${job.table_name}".` +
+          (job.rows_skipped > 0
+            ? ` Skipped ${job.rows_skipped.toLocaleString()} row(s) already in the portal.`
+            : "")
+      );
       // Reset confirmation-related state
       setPreflight(null);
-      setPendingRecords(null);
-      setPendingYearsInData([]);
       setReplaceTableConfirmed(false);
       setReplaceYear("");
       setReplaceYearConfirm("");
       setFile(null);
+      setFileFormat(DEFAULT_FILE_FORMAT);
+      setPreviewSource(null);
       setPreviewHeaders(null);
       setPreviewRows(null);
       setPreviewMessage(null);
@@ -827,14 +767,13 @@ export default function UploadClient() {
       if (fileInputRef.current) fileInputRef.current.value = "";
 
       await refreshCoverageWarnings();
-
     } catch (err: unknown) {
       console.error(err);
       setError("Upload failed: " + (err instanceof Error ? err.message : "Unknown error"));
+    } finally {
       setUploadProgress(null);
+      setLoading(false);
     }
-
-    setLoading(false);
   }
 
   function handleDownloadTemplate() {
@@ -866,8 +805,9 @@ export default function UploadClient() {
             Upload data
           </h1>
           <p className="mt-1 text-sm text-slate-600">
-            Upload CSV files for budgets, actuals, transactions, or
-            revenues. Use the template to ensure columns match exactly.
+            Upload CSV, Excel or fixed-width files for budgets, actuals,
+            transactions, or revenues. Use the template, or map your export&apos;s columns to
+            the template fields after choosing a file.
           </p>
           {table === "transactions" && (
             <p className="mt-2 rounded-md border border-red-200 bg-red-50 p-2 text-xs text-red-800">
@@ -943,7 +883,8 @@ export default function UploadClient() {
         </select>
         <div className="mt-1 flex items-center justify-between gap-2">
           <p className="text-xs text-slate-500">
-            Make sure your CSV columns match the template for this table.
+            Files with different column names can be mapped after you choose
+            them.
           </p>
           <button
             type="button"
@@ -1020,8 +961,9 @@ export default function UploadClient() {
           <div className="mt-3 rounded-md border border-amber-300 bg-amber-50 p-3 text-xs text-amber-900">
             <p className="font-semibold">Replace this fiscal year only</p>
             <p className="mt-1">
-              All existing rows for a single fiscal year will be deleted before
-              inserting rows from this file.
+              All existing rows for a single fiscal year will be replaced by
+              rows from this file. The swap happens only after every row has
+              loaded, so a failed upload leaves the current data in place.
             </p>
             <div className="mt-2 flex flex-col gap-2 sm:flex-row sm:items-center">
               <div className="flex items-center gap-2">
@@ -1064,7 +1006,7 @@ export default function UploadClient() {
               Example: if you enter{" "}
               <span className="font-mono">2024</span>, all existing rows with{" "}
               <span className="font-mono">fiscal_year = 2024</span> will be
-              deleted first.
+              replaced.
             </p>
           </div>
         )}
@@ -1074,8 +1016,8 @@ export default function UploadClient() {
             <p className="font-semibold">Danger: replace entire table</p>
             <p className="mt-1">
               This will permanently delete all existing rows in the{" "}
-              <span className="font-mono">{table}</span> table before inserting
-              rows from this file.
+              <span className="font-mono">{table}</span> table and replace them
+              with rows from this file once the whole file has loaded.
             </p>
             <label className="mt-2 flex items-center gap-2">
               <input
@@ -1100,7 +1042,7 @@ export default function UploadClient() {
           className="mb-1 block text-sm font-medium text-slate-700"
           htmlFor="upload-file-input"
         >
-          CSV file
+          Data file
         </label>
 
         <label
@@ -1110,10 +1052,11 @@ export default function UploadClient() {
         >
           <div className="flex flex-col">
             <span className="font-medium text-slate-800">
-              {file ? file.name : "Click to choose a CSV file"}
+              {file ? file.name : "Click to choose a file"}
             </span>
             <span className="text-xs text-slate-500">
-              Accepted format: .csv
+              Accepted formats: .csv, .tsv or .txt (any common delimiter or
+              fixed-width), .xlsx
             </span>
           </div>
           <span className="rounded-md border border-slate-300 bg-white px-3 py-1 text-xs font-medium text-slate-700">
@@ -1123,31 +1066,29 @@ export default function UploadClient() {
         <input
           id="upload-file-input"
           type="file"
-          accept=".csv"
+          accept={UPLOAD_FILE_ACCEPT}
           className="sr-only"
           ref={fileInputRef}
 
           onChange={async (e) => {
             const f = e.target.files?.[0] ?? null;
             setFile(f);
+            setFileFormat(DEFAULT_FILE_FORMAT);
+            setPreviewSource(null);
             setPreviewHeaders(null);
             setPreviewRows(null);
             setPreviewMessage(null);
+            setColumnMapping(null);
+            setMappingProfileName(null);
             setPreflight(null);
-            setPendingRecords(null);
-            setPendingYearsInData([]);
             setFileSizeWarning(null);
 
             if (!f) return;
 
-            // Check file size and warn for large files
+            // Large files are fine (they stream through the server), but let
+            // the admin know the upload will take a while.
             const fileSizeMB = f.size / (1024 * 1024);
-            if (fileSizeMB > 100) {
-              setFileSizeWarning(
-                `File is ${fileSizeMB.toFixed(1)}MB which exceeds the 100MB limit. Please split the file into smaller chunks.`
-              );
-              return;
-            } else if (fileSizeMB > 50) {
+            if (fileSizeMB > 50) {
               setFileSizeWarning(
                 `Large file detected (${fileSizeMB.toFixed(1)}MB). Upload may take several minutes. Please be patient and don't close this page.`
               );
@@ -1158,32 +1099,28 @@ export default function UploadClient() {
             }
 
             try {
-              const text = await f.text();
-              
-              // Parse CSV properly (handles quoted fields with commas)
-              const rows = parseCsv(text);
-
-              if (rows.length === 0) {
-                setPreviewMessage("File appears to be empty.");
-                return;
-              }
-
-              const headers = rows[0].map((h) => h.trim());
-              const dataRows = rows.slice(1, 21); // preview first 20 rows
-
-              setPreviewHeaders(headers);
-              setPreviewRows(dataRows);
-
-              const totalDataRows = rows.length - 1;
-              if (totalDataRows > dataRows.length) {
-                setPreviewMessage(
-                  `Showing first ${dataRows.length} of ${totalDataRows} row(s).`
-                );
+              let source: PreviewSource;
+              let format: FileFormat;
+
+              if (isXlsxFilename(f.name)) {
+                const ExcelJS = await import("exceljs");
+                const workbook = new ExcelJS.Workbook();
+                await workbook.xlsx.load(await f.arrayBuffer());
+                source = { kind: "workbook", workbook };
+                format = {
+                  type: "xlsx",
+                  sheet: workbook.worksheets[0]?.name ?? null,
+                };
               } else {
-                setPreviewMessage(
-                  `${totalDataRows} row(s) detected in this file.`
-                );
+                // Only read the start of the file; the full file is parsed on the server.
+                const text = await f.slice(0, PREVIEW_BYTES).text();
+                source = { kind: "text", text, isPartial: f.size > PREVIEW_BYTES };
+                format = inferFileFormat(f.name, text);
               }
+
+              setPreviewSource(source);
+              setFileFormat(format);
+              await showPreview(format, source);
             } catch (err) {
               console.error("Preview parse error:", err);
               setPreviewMessage(
@@ -1196,18 +1133,15 @@ export default function UploadClient() {
           id="upload-file-help"
           className="mt-1 text-xs text-slate-500"
         >
-          The uploader will validate column names, years, and formats
-          before sending any data to the server. Large files (up to 100MB / 500K rows) are supported.
+          The file is uploaded as-is, then column names, years, and formats
+          are validated on the server before any data is written. Large
+          files (millions of rows) are supported.
         </p>
 
         {/* File size warning */}
         {fileSizeWarning && (
           <div
-            className={`mt-2 rounded-md border p-2 text-xs ${
-              fileSizeWarning.includes("exceeds")
-                ? "border-red-300 bg-red-50 text-red-800"
-                : "border-amber-300 bg-amber-50 text-amber-800"
-            }`}
+            className="mt-2 rounded-md border border-amber-300 bg-amber-50 p-2 text-xs text-amber-800"
             role="alert"
           >
             {fileSizeWarning}
@@ -1215,12 +1149,97 @@ export default function UploadClient() {
         )}
       </div>
 
+      {/* File format: worksheet for workbooks, delimiter or layout for text */}
+      {file && previewSource?.kind === "workbook" && (
+        <div className="mb-4 flex items-center gap-2 text-sm">
+          <label
+            htmlFor="upload-sheet-select"
+            className="font-medium text-slate-700"
+          >
+            Worksheet
+          </label>
+          <select
+            id="upload-sheet-select"
+            value={fileFormat.type === "xlsx" ? fileFormat.sheet ?? "" : ""}
+            onChange={(e) =>
+              handleFileFormatChange({ type: "xlsx", sheet: e.target.value })
+            }
+            className="rounded-md border border-slate-300 px-3 py-2 text-sm text-slate-900 shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-slate-900"
+          >
+            {previewSource.workbook.worksheets.map((ws) => (
+              <option key={ws.id} value={ws.name}>
+                {ws.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {file && previewSource?.kind === "text" && (
+        <div className="mb-4 flex items-center gap-2 text-sm">
+          <label
+            htmlFor="upload-format-select"
+            className="font-medium text-slate-700"
+          >
+            Columns separated by
+          </label>
+          <select
+            id="upload-format-select"
+            value={
+              fileFormat.type === "delimited"
+                ? fileFormat.delimiter
+                : "fixed_width"
+            }
+            onChange={(e) =>
+              handleFileFormatChange(
+                e.target.value === "fixed_width"
+                  ? {
+                      type: "fixed_width",
+                      layout: { columns: [], skipLines: 0 },
+                    }
+                  : {
+                      type: "delimited",
+                      delimiter: e.target.value as Delimiter,
+                    }
+              )
+            }
+            className="rounded-md border border-slate-300 px-3 py-2 text-sm text-slate-900 shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-slate-900"
+          >
+            {(Object.keys(DELIMITER_LABELS) as Delimiter[]).map((d) => (
+              <option key={d} value={d}>
+                {DELIMITER_LABELS[d]}
+              </option>
+            ))}
+            <option value="fixed_width">Fixed-width columns</option>
+          </select>
+          <span className="text-xs text-slate-500">Detected from the file</span>
+        </div>
+      )}
+
+      {file &&
+        previewSource?.kind === "text" &&
+        fileFormat.type === "fixed_width" && (
+          <FixedWidthLayoutEditor
+            key={file.name}
+            sampleLines={previewSource.text.split(/\r\n|\n|\r/).slice(0, 12)}
+            layout={fileFormat.layout}
+            onApply={(layout) =>
+              handleFileFormatChange({ type: "fixed_width", layout })
+            }
+          />
+        )}
+
       {/* Preview warnings */}
       {previewHeaders && (
         <div className="mb-2 text-xs">
-          {previewMissingRequired.length > 0 ? (
+          {columnMapping ? (
+            <p className="text-slate-700">
+              Preview: this file&apos;s columns differ from the {table}{" "}
+              template. Map them below.
+            </p>
+          ) : previewMissingRequired.length > 0 ? (
             <p className="text-red-700">
-              Preview warning: CSV is missing required column(s) for{" "}
+              Preview warning: file is missing required column(s) for{" "}
               {table}: {previewMissingRequired.join(", ")}.
             </p>
           ) : (
@@ -1231,11 +1250,28 @@ export default function UploadClient() {
         </div>
       )}
 
-      {/* CSV preview table */}
+      {/* Column mapping (only when headers differ from the template) */}
+      {previewHeaders && columnMapping && (
+        <ColumnMappingEditor
+          key={`${table}:${previewHeaders.join("|")}`}
+          table={table}
+          headers={previewHeaders}
+          sampleRow={previewRows?.[0] ?? null}
+          mapping={columnMapping}
+          profileName={mappingProfileName}
+          onChange={(next) => {
+            setColumnMapping(next);
+            setPreflight(null);
+          }}
+          onProfileSaved={setMappingProfileName}
+        />
+      )}
+
+      {/* File preview table */}
       {previewHeaders && previewRows && previewRows.length > 0 && (
         <div
           className="mb-4 overflow-x-auto rounded-md border border-slate-200 bg-slate-50"
-          aria-label="CSV preview"
+          aria-label="File preview"
         >
           <div className="max-h-72 overflow-y-auto">
             <table className="min-w-full text-xs">
@@ -1338,14 +1374,31 @@ export default function UploadClient() {
           {preflight.mode === "replace_year" && (
             <p className="mt-2 text-xs text-amber-700">
               All existing rows for fiscal year {preflight.replaceYear} will be
-              deleted before inserting the new data.
+              replaced once the new data has fully loaded.
             </p>
           )}
+          {preflight.diff && (
+            <UploadDiffPreview table={preflight.table} diff={preflight.diff} />
+          )}
+          {preflight.existingRows && preflight.existingRows.count > 0 && (
+            <UploadExistingRows
+              report={preflight.existingRows}
+              policy={preflight.duplicatePolicy}
+              onPolicyChange={(duplicatePolicy) =>
+                setPreflight({ ...preflight, duplicatePolicy })
+              }
+              onCancel={() => {
+                resetUploadState();
+                setInfo("Upload cancelled. Nothing was loaded.");
+              }}
+              disabled={loading}
+            />
+          )}
           <div className="mt-3 flex flex-wrap items-center gap-2">
             <button
               type="button"
               onClick={handleConfirmUpload}
-              disabled={loading}
+              disabled={loading || !preflight.duplicatePolicy}
               className="rounded-md bg-slate-900 px-4 py-2 text-sm font-medium text-white hover:bg-slate-700 disabled:opacity-50 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-slate-900 focus-visible:ring-offset-2"
             >
               {loading ? "Uploading..." : "Confirm upload"}
@@ -1380,8 +1433,6 @@ export default function UploadClient() {
               type="button"
               onClick={() => {
                 setPreflight(null);
-                setPendingRecords(null);
-                setPendingYearsInData([]);
               }}
               disabled={loading}
               className="rounded-md border border-slate-300 px-3 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50 disabled:opacity-50 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-slate-900 focus-visible:ring-offset-2"
@@ -1403,6 +1454,12 @@ export default function UploadClient() {
         </button>
       )}
 
+      {!preflight && loading && uploadProgress && (
+        <p className="mt-2 text-sm text-slate-600" role="status">
+          {uploadProgress}
+        </p>
+      )}
+
 
       {/* Status message */}
       {message && (
@@ -1423,7 +1480,7 @@ export default function UploadClient() {
   );
 }
 
-function buildTemplateCsv(table: string): string | null {
+function buildTemplateCsv(table: UploadTable): string | null {
   const schema = TABLE_SCHEMAS[table];
   if (!schema) return null;
 
@@ -0,0 +1,208 @@
+// components/Admin/UploadDiffPreview.tsx
+"use client";
+
+import { formatCurrency, formatPercent } from "@/lib/format";
+import {
+  getDiffPercent,
+  type DiffGroup,
+  type UploadDiff,
+} from "@/lib/uploadDiff";
+import type { UploadTable } from "@/lib/uploadValidation";
+
+type Props = {
+  table: UploadTable;
+  diff: UploadDiff;
+};
+
+// Rows shown per table before "Show all"
+const VISIBLE_GROUPS = 10;
+// Changes at least this large (in percent) are highlighted
+const LARGE_CHANGE_PERCENT = 25;
+
+function describeScope(diff: UploadDiff): string {
+  if (diff.scopeYears === null) return "all fiscal years";
+  if (diff.scopeYears.length === 0) return "no fiscal years";
+  return `FY ${diff.scopeYears.join(", ")}`;
+}
+
+function formatDelta(value: number): string {
+  return `${value > 0 ? "+" : value < 0 ? "−" : ""}${formatCurrency(Math.abs(value))}`;
+}
+
+function describeDuplicate(sample: Record<string, unknown>): string {
+  return [
+    sample.department_name,
+    sample.account_name ?? sample.account_code,
+    sample.vendor,
+    sample.period ?? sample.date,
+  ]
+    .filter((v) => typeof v === "string" && v.trim() !== "")
+    .join(" · ");
+}
+
+function DiffTable({ caption, groups }: { caption: string; groups: DiffGroup[] }) {
+  const visible = groups.slice(0, VISIBLE_GROUPS);
+  const hidden = groups.slice(VISIBLE_GROUPS);
+
+  const renderRow = (g: DiffGroup) => {
+    const percent = getDiffPercent(g);
+    const large =
+      percent === null
+        ? g.delta !== 0
+        : Math.abs(percent) >= LARGE_CHANGE_PERCENT;
+
+    return (
+      <tr key={g.name} className="border-t border-slate-100">
+        <td className="px-2 py-1 text-slate-800">{g.name}</td>
+        <td className="px-2 py-1 text-right tabular-nums">
+          {formatCurrency(g.before)}
+        </td>
+        <td className="px-2 py-1 text-right tabular-nums">
+          {formatCurrency(g.after)}
+        </td>
+        <td
+          className={
+            "px-2 py-1 text-right tabular-nums " +
+            (large ? "font-semibold text-amber-800" : "text-slate-700")
+          }
+        >
+          {formatDelta(g.delta)}
+          {percent !== null && ` (${formatPercent(percent, 0)})`}
+        </td>
+      </tr>
+    );
+  };
+
+  return (
+    <div className="mt-3 overflow-x-auto">
+      <table className="min-w-full text-xs">
+        <caption className="mb-1 text-left text-xs font-semibold text-slate-700">
+          {caption}
+        </caption>
+        <thead className="text-left text-slate-500">
+          <tr>
+            <th scope="col" className="px-2 py-1 font-semibold">
+              Name
+            </th>
+            <th scope="col" className="px-2 py-1 text-right font-semibold">
+              Current
+            </th>
+            <th scope="col" className="px-2 py-1 text-right font-semibold">
+              After upload
+            </th>
+            <th scope="col" className="px-2 py-1 text-right font-semibold">
+              Change
+            </th>
+          </tr>
+        </thead>
+        <tbody>{visible.map(renderRow)}</tbody>
+      </table>
+      {hidden.length > 0 && (
+        <details className="mt-1">
+          <summary className="cursor-pointer text-xs text-slate-600">
+            Show {hidden.length} more
+          </summary>
+          <table className="min-w-full text-xs">
+            <tbody>{hidden.map(renderRow)}</tbody>
+          </table>
+        </details>
+      )}
+    </div>
+  );
+}
+
+export default function UploadDiffPreview({ table, diff }: Props) {
+  const totalPercent = getDiffPercent({
+    before: diff.beforeTotal,
+    delta: diff.totalDelta,
+  });
+
+  return (
+    <section
+      aria-label="Changes compared with current data"
+      className="mt-3 rounded-md border border-slate-200 bg-white p-3 text-sm"
+    >
+      <h3 className="text-sm font-semibold text-slate-900">
+        Compared with the portal today
+      </h3>
+      <p className="mt-0.5 text-xs text-slate-600">
+        Current {table} data for {describeScope(diff)} versus the data after
+        this upload.
+      </p>
+
+      <dl className="mt-2 grid gap-2 sm:grid-cols-3">
+        <div>
+          <dt className="text-xs font-medium text-slate-500">Current total</dt>
+          <dd className="tabular-nums">
+            {formatCurrency(diff.beforeTotal)}{" "}
+            <span className="text-xs text-slate-500">
+              ({diff.beforeRows.toLocaleString()} rows)
+            </span>
+          </dd>
+        </div>
+        <div>
+          <dt className="text-xs font-medium text-slate-500">After upload</dt>
+          <dd className="tabular-nums">
+            {formatCurrency(diff.afterTotal)}{" "}
+            <span className="text-xs text-slate-500">
+              ({diff.afterRows.toLocaleString()} rows)
+            </span>
+          </dd>
+        </div>
+        <div>
+          <dt className="text-xs font-medium text-slate-500">Total change</dt>
+          <dd className="font-semibold tabular-nums">
+            {formatDelta(diff.totalDelta)}
+            {totalPercent !== null && ` (${formatPercent(totalPercent, 1)})`}
+          </dd>
+        </div>
+      </dl>
+
+      {diff.removedDepartments.length > 0 && (
+        <p className="mt-3 rounded-md border border-red-200 bg-red-50 p-2 text-xs text-red-800">
+          <span className="font-semibold">
+            {diff.removedDepartments.length} department(s) would disappear:
+          </span>{" "}
+          {diff.removedDepartments.join(", ")}
+        </p>
+      )}
+
+      {diff.addedDepartments.length > 0 && (
+        <p className="mt-2 rounded-md border border-amber-200 bg-amber-50 p-2 text-xs text-amber-900">
+          <span className="font-semibold">
+            {diff.addedDepartments.length} new department(s):
+          </span>{" "}
+          {diff.addedDepartments.join(", ")}
+        </p>
+      )}
+
+      <DiffTable caption="By department" groups={diff.departments} />
+      <DiffTable caption="By fund" groups={diff.funds} />
+
+      {diff.duplicateRowCount > 0 && (
+        <div className="mt-3 rounded-md border border-amber-200 bg-amber-50 p-2 text-xs text-amber-900">
+          <p className="font-semibold">
+            {diff.duplicateRowCount.toLocaleString()} row(s) repeat an earlier
+            row exactly. These are likely duplicates:
+          </p>
+          <ul className="mt-1 list-disc space-y-0.5 pl-5">
+            {diff.duplicates.map((d) => (
+              <li key={d.rowNums.join(",")}>
+                Rows {d.rowNums.join(", ")}
+                {d.count > d.rowNums.length && ` and ${d.count - d.rowNums.length} more`}
+                : {describeDuplicate(d.sample)} ·{" "}
+                {formatCurrency(Number(d.sample.amount) || 0)}
+              </li>
+            ))}
+          </ul>
+          {diff.duplicateTrackingCapped && (
+            <p className="mt-1">
+              This file is very large, so only part of it was checked for
+              duplicates.
+            </p>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
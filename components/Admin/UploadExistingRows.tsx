@@ -0,0 +1,85 @@
+// components/Admin/UploadExistingRows.tsx
+"use client";
+
+import { formatCurrency } from "@/lib/format";
+import type { ExistingRowsReport } from "@/lib/uploadDiff";
+import type { DuplicatePolicy } from "@/lib/uploadValidation";
+
+type Props = {
+  report: ExistingRowsReport;
+  policy: DuplicatePolicy | null; // null until the admin chooses
+  onPolicyChange: (policy: DuplicatePolicy) => void;
+  onCancel: () => void;
+  disabled?: boolean;
+};
+
+export default function UploadExistingRows({
+  report,
+  policy,
+  onPolicyChange,
+  onCancel,
+  disabled = false,
+}: Props) {
+  const count = report.count.toLocaleString();
+
+  return (
+    <fieldset className="mt-3 rounded-md border border-amber-200 bg-amber-50 p-3 text-xs text-amber-900">
+      <legend className="px-1 text-sm font-semibold">
+        {count} row(s) are already in the portal
+      </legend>
+      <p>
+        These rows match existing transactions on date, vendor, amount,
+        account and description, so this file may overlap an earlier upload.
+      </p>
+
+      <ul className="mt-2 list-disc space-y-0.5 pl-5">
+        {report.samples.map((s) => (
+          <li key={s.rowNum}>
+            Row {s.rowNum}: {s.date} · {s.vendor || "(no vendor)"} ·{" "}
+            {formatCurrency(s.amount)}
+            {s.description && ` · ${s.description}`}
+          </li>
+        ))}
+      </ul>
+      {report.count > report.samples.length && (
+        <p className="mt-1">
+          and {(report.count - report.samples.length).toLocaleString()} more.
+        </p>
+      )}
+
+      <div className="mt-3 space-y-1 text-sm text-slate-800">
+        <label className="flex items-center gap-2">
+          <input
+            type="radio"
+            name="duplicate-policy"
+            value="skip"
+            checked={policy === "skip"}
+            onChange={() => onPolicyChange("skip")}
+            disabled={disabled}
+          />
+          Skip the {count} row(s) already in the portal
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="radio"
+            name="duplicate-policy"
+            value="insert"
+            checked={policy === "insert"}
+            onChange={() => onPolicyChange("insert")}
+            disabled={disabled}
+          />
+          Insert them anyway
+        </label>
+      </div>
+
+      <button
+        type="button"
+        onClick={onCancel}
+        disabled={disabled}
+        className="mt-3 rounded-md border border-slate-300 bg-white px-3 py-1 text-xs font-medium text-slate-700 hover:bg-slate-50 disabled:opacity-50 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-slate-900 focus-visible:ring-offset-2"
+      >
+        Cancel upload
+      </button>
+    </fieldset>
+  );
+}
@@ -0,0 +1,217 @@
+// components/Admin/UploadJobsPanel.tsx
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { supabase } from "@/lib/supabase";
+import { csrfFetch } from "@/components/CsrfProvider";
+import { getUploadJobs } from "@/lib/queries";
+import {
+  getJobProgressPercent,
+  isJobFinished,
+  isJobResumable,
+  UPLOAD_JOB_STATUS_LABELS,
+  type UploadJobRow,
+  type UploadJobStatus,
+} from "@/lib/uploadJobStatus";
+
+const POLL_INTERVAL_MS = 3000;
+
+const STATUS_STYLES: Record<UploadJobStatus, string> = {
+  queued: "border-slate-200 bg-slate-50 text-slate-700",
+  validating: "border-sky-200 bg-sky-50 text-sky-800",
+  inserting: "border-sky-200 bg-sky-50 text-sky-800",
+  refreshing_rollups: "border-sky-200 bg-sky-50 text-sky-800",
+  done: "border-emerald-200 bg-emerald-50 text-emerald-800",
+  failed: "border-rose-200 bg-rose-50 text-rose-700",
+};
+
+/**
+ * Ask the server to pick up a paused or failed upload job.
+ * Returns an error message, or null on success.
+ */
+export async function requestUploadJobResume(
+  jobId: number
+): Promise<string | null> {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  if (!session?.access_token) {
+    return "You must be signed in as an admin. Please log in again.";
+  }
+
+  const resp = await csrfFetch(`/api/admin/upload/jobs/${jobId}/resume`, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${session.access_token}` },
+  });
+
+  if (!resp.ok) {
+    const json = await resp.json().catch(() => null);
+    return json?.error || "Could not resume the upload.";
+  }
+  return null;
+}
+
+function formatJobTime(iso: string): string {
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return iso;
+  return d.toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+type Props = {
+  // Called when a job the panel was watching reaches "done"
+  onJobFinished?: () => void;
+};
+
+export default function UploadJobsPanel({ onJobFinished }: Props) {
+  const [jobs, setJobs] = useState<UploadJobRow[] | null>(null);
+  const [resumingId, setResumingId] = useState<number | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const activeIds = useRef<Set<number>>(new Set());
+
+  const load = useCallback(async () => {
+    const data = await getUploadJobs();
+
+    let finished = false;
+    for (const job of data) {
+      if (activeIds.current.has(job.id) && job.status === "done") {
+        finished = true;
+      }
+    }
+    activeIds.current = new Set(
+      data.filter((j) => !isJobFinished(j)).map((j) => j.id)
+    );
+
+    setJobs(data);
+    if (finished) onJobFinished?.();
+  }, [onJobFinished]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const hasActiveJobs = (jobs ?? []).some((j) => !isJobFinished(j));
+
+  // Poll only while something is still moving
+  useEffect(() => {
+    if (!hasActiveJobs) return;
+    const timer = window.setInterval(load, POLL_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [hasActiveJobs, load]);
+
+  async function handleResume(jobId: number) {
+    setResumingId(jobId);
+    setActionError(null);
+    try {
+      const error = await requestUploadJobResume(jobId);
+      if (error) setActionError(error);
+      await load();
+    } finally {
+      setResumingId(null);
+    }
+  }
+
+  if (!jobs || jobs.length === 0) return null;
+
+  return (
+    <section aria-label="Upload jobs" className="space-y-3">
+      <h2 className="text-sm font-semibold text-slate-900">Upload jobs</h2>
+      <p className="text-xs text-slate-600">
+        Uploads run in the background and save their progress as they go. An
+        upload that stopped partway can be resumed from the last saved chunk.
+      </p>
+
+      {actionError && (
+        <div
+          role="alert"
+          className="rounded-2xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700"
+        >
+          {actionError}
+        </div>
+      )}
+
+      <ul className="divide-y divide-slate-100 rounded-2xl border border-slate-200 bg-white shadow-sm">
+        {jobs.map((job) => {
+          const percent = getJobProgressPercent(job);
+          const resumable = isJobResumable(job);
+
+          return (
+            <li key={job.id} className="space-y-2 px-4 py-3 text-xs">
+              <div className="flex flex-wrap items-center gap-2">
+                <span
+                  className={`rounded-full border px-2 py-0.5 text-[11px] font-semibold ${STATUS_STYLES[job.status]}`}
+                >
+                  {UPLOAD_JOB_STATUS_LABELS[job.status]}
+                </span>
+                <span className="font-semibold text-slate-900">
+                  {job.table_name}
+                </span>
+                <span className="text-slate-600">
+                  {job.filename ?? "Unnamed file"}
+                </span>
+                <span className="ml-auto text-slate-500">
+                  {formatJobTime(job.created_at)}
+                  {job.admin_identifier ? ` · ${job.admin_identifier}` : ""}
+                </span>
+              </div>
+
+              {percent != null && job.status !== "done" && (
+                <div
+                  role="progressbar"
+                  aria-label={`Upload job ${job.id} progress`}
+                  aria-valuemin={0}
+                  aria-valuemax={100}
+                  aria-valuenow={percent}
+                  className="h-1.5 w-full overflow-hidden rounded-full bg-slate-100"
+                >
+                  <div
+                    className="h-full bg-sky-600 transition-all"
+                    style={{ width: `${percent}%` }}
+                  />
+                </div>
+              )}
+
+              <div className="flex flex-wrap items-center gap-3 text-slate-600">
+                <span>
+                  {job.rows_inserted.toLocaleString("en-US")}
+                  {job.total_rows != null
+                    ? ` of ${job.total_rows.toLocaleString("en-US")}`
+                    : ""}{" "}
+                  rows
+                </span>
+                {job.rows_skipped > 0 && (
+                  <span>
+                    {job.rows_skipped.toLocaleString("en-US")} skipped as
+                    duplicates
+                  </span>
+                )}
+                {job.attempts > 1 && <span>Attempts: {job.attempts}</span>}
+                {resumable && (
+                  <button
+                    type="button"
+                    onClick={() => handleResume(job.id)}
+                    disabled={resumingId === job.id}
+                    className="rounded-md border border-slate-300 bg-white px-2 py-1 font-medium text-slate-800 hover:bg-slate-50 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-sky-500 disabled:cursor-not-allowed disabled:opacity-60"
+                  >
+                    {job.status === "failed" ? "Retry" : "Resume"}
+                  </button>
+                )}
+              </div>
+
+              {job.status === "failed" && job.error_message && (
+                <p className="whitespace-pre-wrap text-rose-700">
+                  {job.error_message}
+                </p>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+}
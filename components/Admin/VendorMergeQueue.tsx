@@ -0,0 +1,451 @@
+// components/Admin/VendorMergeQueue.tsx
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/lib/supabase";
+import { csrfFetch } from "@/components/CsrfProvider";
+import { getVendorAliases } from "@/lib/queries";
+import { formatCurrency } from "@/lib/format";
+import {
+  clusterVendorSuggestions,
+  type VendorAlias,
+  type VendorCluster,
+  type VendorMergeSuggestion,
+} from "@/lib/vendorAliases";
+
+type SuggestionsResponse = {
+  threshold: number;
+  suggestions: VendorMergeSuggestion[];
+};
+
+// Choices for one cluster: the name to keep and the spellings to merge
+type ClusterChoice = { canonical: string; selected: string[] };
+
+const THRESHOLDS = [
+  { value: 0.8, label: "Close matches only" },
+  { value: 0.6, label: "Likely matches" },
+  { value: 0.45, label: "Loose matches" },
+];
+
+function clusterKey(cluster: VendorCluster): string {
+  return cluster.members.map((m) => m.name).join("\u0000");
+}
+
+function groupByCanonical(
+  aliases: VendorAlias[]
+): { canonical: string; rows: VendorAlias[] }[] {
+  const groups = new Map<string, { canonical: string; rows: VendorAlias[] }>();
+  for (const a of aliases) {
+    const group = groups.get(a.canonical_vendor) ?? {
+      canonical: a.canonical_vendor,
+      rows: [],
+    };
+    group.rows.push(a);
+    groups.set(a.canonical_vendor, group);
+  }
+  return Array.from(groups.values());
+}
+
+async function getAccessToken(): Promise<string | null> {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+  return session?.access_token ?? null;
+}
+
+export default function VendorMergeQueue() {
+  const [threshold, setThreshold] = useState(0.6);
+  const [clusters, setClusters] = useState<VendorCluster[] | null>(null);
+  const [choices, setChoices] = useState<Record<string, ClusterChoice>>({});
+  const [aliases, setAliases] = useState<VendorAlias[] | null>(null);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(
+    null
+  );
+
+  const loadSuggestions = useCallback(async (value: number) => {
+    setClusters(null);
+    try {
+      const token = await getAccessToken();
+      if (!token) {
+        setMessage({
+          text: "You must be signed in as an admin. Please log in again.",
+          isError: true,
+        });
+        setClusters([]);
+        return;
+      }
+
+      const res = await fetch(
+        `/api/admin/vendor-aliases?threshold=${encodeURIComponent(String(value))}`,
+        { headers: { Authorization: `Bearer ${token}` } }
+      );
+      const body = (await res.json().catch(() => null)) as
+        | SuggestionsResponse
+        | { error?: string }
+        | null;
+
+      if (!res.ok) {
+        setMessage({
+          text:
+            (body as { error?: string } | null)?.error ||
+            `Failed to load suggestions (HTTP ${res.status.toString()})`,
+          isError: true,
+        });
+        setClusters([]);
+        return;
+      }
+
+      const next = clusterVendorSuggestions(
+        (body as SuggestionsResponse).suggestions ?? []
+      );
+      setClusters(next);
+      setChoices(
+        Object.fromEntries(
+          next.map((c) => [
+            clusterKey(c),
+            { canonical: c.canonical, selected: c.members.map((m) => m.name) },
+          ])
+        )
+      );
+    } catch (err: unknown) {
+      console.error("VendorMergeQueue: load error", err);
+      setMessage({
+        text: err instanceof Error ? err.message : "Failed to load suggestions.",
+        isError: true,
+      });
+      setClusters([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSuggestions(threshold);
+  }, [loadSuggestions, threshold]);
+
+  useEffect(() => {
+    getVendorAliases().then(setAliases);
+  }, []);
+
+  async function post(
+    key: string,
+    payload: Record<string, unknown>
+  ): Promise<boolean> {
+    setBusyKey(key);
+    setMessage(null);
+    try {
+      const token = await getAccessToken();
+      if (!token) {
+        setMessage({
+          text: "You must be signed in as an admin. Please log in again.",
+          isError: true,
+        });
+        return false;
+      }
+
+      const res = await csrfFetch("/api/admin/vendor-aliases", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify(payload),
+      });
+      const json = await res.json().catch(() => null);
+
+      if (!res.ok) {
+        setMessage({
+          text: json?.error || "Request failed. Please try again.",
+          isError: true,
+        });
+        return false;
+      }
+
+      setMessage({ text: json?.message ?? "Saved.", isError: false });
+      return true;
+    } catch (err: unknown) {
+      console.error("VendorMergeQueue: request error", err);
+      setMessage({
+        text: err instanceof Error ? err.message : "Request failed.",
+        isError: true,
+      });
+      return false;
+    } finally {
+      setBusyKey(null);
+    }
+  }
+
+  function dropCluster(key: string) {
+    setClusters((prev) => (prev ?? []).filter((c) => clusterKey(c) !== key));
+  }
+
+  async function handleMerge(cluster: VendorCluster) {
+    const key = clusterKey(cluster);
+    const choice = choices[key];
+    const names = choice.selected.filter((n) => n !== choice.canonical);
+    if (names.length === 0) {
+      setMessage({
+        text: "Select at least one other spelling to merge.",
+        isError: true,
+      });
+      return;
+    }
+
+    const ok = await post(key, {
+      action: "merge",
+      canonical: choice.canonical,
+      names,
+    });
+    if (!ok) return;
+
+    dropCluster(key);
+    setAliases(await getVendorAliases());
+  }
+
+  async function handleReject(cluster: VendorCluster) {
+    const key = clusterKey(cluster);
+    const ok = await post(key, {
+      action: "reject",
+      names: cluster.members.map((m) => m.name),
+    });
+    if (ok) dropCluster(key);
+  }
+
+  async function handleUnmerge(alias: string) {
+    const ok = window.confirm(
+      `Report "${alias}" as its own vendor again? The vendor summaries are refreshed, which can take a minute.`
+    );
+    if (!ok) return;
+
+    if (await post(`alias:${alias}`, { action: "unmerge", alias })) {
+      setAliases(await getVendorAliases());
+    }
+  }
+
+  function updateChoice(key: string, patch: Partial<ClusterChoice>) {
+    setChoices((prev) => ({ ...prev, [key]: { ...prev[key], ...patch } }));
+  }
+
+  const groups = groupByCanonical(aliases ?? []);
+
+  return (
+    <div className="space-y-4">
+      {message && (
+        <p
+          role={message.isError ? "alert" : "status"}
+          className={`text-xs ${message.isError ? "text-red-700" : "text-emerald-700"}`}
+        >
+          {message.text}
+        </p>
+      )}
+
+      <section
+        aria-label="Suggested merges"
+        className="rounded-xl border border-slate-200 bg-white p-4 text-xs shadow-sm"
+      >
+        <div className="mb-3 flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h2 className="text-sm font-semibold text-slate-900">
+              Suggested merges
+              {clusters && (
+                <span className="ml-2 text-xs font-normal text-slate-500">
+                  ({clusters.length.toLocaleString("en-US")})
+                </span>
+              )}
+            </h2>
+            <p className="mt-1 text-slate-600">
+              Vendor names in your transactions that look like the same
+              payee. Pick the name to keep and merge, or reject a suggestion
+              so it isn&apos;t offered again.
+            </p>
+          </div>
+          <div>
+            <label
+              htmlFor="vendor-threshold"
+              className="mb-1 block text-xs font-medium text-slate-700"
+            >
+              Show
+            </label>
+            <select
+              id="vendor-threshold"
+              value={threshold}
+              onChange={(e) => setThreshold(Number(e.target.value))}
+              className="h-9 rounded-md border border-slate-200 bg-white px-2 text-sm text-slate-900 shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-slate-900"
+            >
+              {THRESHOLDS.map((t) => (
+                <option key={t.value} value={t.value}>
+                  {t.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {clusters === null ? (
+          <p className="text-slate-600">Looking for similar vendor names…</p>
+        ) : clusters.length === 0 ? (
+          <p className="text-slate-600">
+            No suggestions at this level. Every vendor name looks distinct.
+          </p>
+        ) : (
+          <ul className="space-y-3">
+            {clusters.map((cluster) => {
+              const key = clusterKey(cluster);
+              const choice = choices[key];
+              if (!choice) return null;
+              const busy = busyKey === key;
+
+              return (
+                <li key={key} className="rounded-lg border border-slate-200 p-3">
+                  <fieldset>
+                    <legend className="mb-2 text-[11px] uppercase tracking-[0.14em] text-slate-500">
+                      {cluster.score >= 1
+                        ? "Same name, different spelling"
+                        : `${Math.round(cluster.score * 100)}% similar`}
+                    </legend>
+                    <table className="min-w-full border-collapse text-xs">
+                      <thead className="text-[11px] text-slate-500">
+                        <tr>
+                          <th className="px-2 py-1 text-left font-semibold">Keep</th>
+                          <th className="px-2 py-1 text-left font-semibold">Merge</th>
+                          <th className="px-2 py-1 text-left font-semibold">Vendor name</th>
+                          <th className="px-2 py-1 text-right font-semibold">Payments</th>
+                          <th className="px-2 py-1 text-right font-semibold">Total</th>
+                        </tr>
+                      </thead>
+                      <tbody className="text-slate-700">
+                        {cluster.members.map((m) => {
+                          const checked = choice.selected.includes(m.name);
+                          return (
+                            <tr key={m.name}>
+                              <td className="px-2 py-1">
+                                <input
+                                  type="radio"
+                                  name={`keep-${key}`}
+                                  aria-label={`Keep "${m.name}"`}
+                                  checked={choice.canonical === m.name}
+                                  onChange={() =>
+                                    updateChoice(key, {
+                                      canonical: m.name,
+                                      selected: checked
+                                        ? choice.selected
+                                        : [...choice.selected, m.name],
+                                    })
+                                  }
+                                />
+                              </td>
+                              <td className="px-2 py-1">
+                                <input
+                                  type="checkbox"
+                                  aria-label={`Merge "${m.name}"`}
+                                  checked={checked}
+                                  disabled={choice.canonical === m.name}
+                                  onChange={() =>
+                                    updateChoice(key, {
+                                      selected: checked
+                                        ? choice.selected.filter((n) => n !== m.name)
+                                        : [...choice.selected, m.name],
+                                    })
+                                  }
+                                />
+                              </td>
+                              <td className="px-2 py-1 text-slate-900">{m.name}</td>
+                              <td className="px-2 py-1 text-right">
+                                {m.txnCount.toLocaleString("en-US")}
+                              </td>
+                              <td className="px-2 py-1 text-right">
+                                {formatCurrency(m.total)}
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </fieldset>
+
+                  <div className="mt-2 flex flex-wrap gap-2">
+                    <button
+                      type="button"
+                      onClick={() => handleMerge(cluster)}
+                      disabled={busyKey !== null}
+                      className="rounded-md bg-slate-900 px-3 py-1.5 text-xs font-medium text-white hover:bg-slate-700 disabled:opacity-50 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-slate-900 focus-visible:ring-offset-2"
+                    >
+                      {busy ? "Saving..." : `Merge into "${choice.canonical}"`}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleReject(cluster)}
+                      disabled={busyKey !== null}
+                      className="rounded-md border border-slate-300 px-3 py-1.5 text-xs font-medium text-slate-700 hover:bg-slate-50 disabled:opacity-50 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-slate-900 focus-visible:ring-offset-2"
+                    >
+                      Not the same vendor
+                    </button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </section>
+
+      <section
+        aria-label="Merged vendor names"
+        className="rounded-xl border border-slate-200 bg-white p-4 text-xs shadow-sm"
+      >
+        <h2 className="mb-3 text-sm font-semibold text-slate-900">
+          Merged vendor names
+          {aliases && (
+            <span className="ml-2 text-xs font-normal text-slate-500">
+              ({aliases.length.toLocaleString("en-US")})
+            </span>
+          )}
+        </h2>
+
+        {aliases === null ? (
+          <p className="text-slate-600">Loading…</p>
+        ) : groups.length === 0 ? (
+          <p className="text-slate-600">
+            No merges yet. Every vendor is shown under the name in its data.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full border-collapse text-xs">
+              <thead className="bg-slate-50 text-[11px] uppercase tracking-[0.14em] text-slate-500">
+                <tr>
+                  <th className="px-2 py-2 text-left font-semibold">Reported as</th>
+                  <th className="px-2 py-2 text-left font-semibold">Spelling in data</th>
+                  <th className="px-2 py-2 text-left font-semibold">Merged by</th>
+                  <th className="px-2 py-2 text-left font-semibold">
+                    <span className="sr-only">Actions</span>
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="text-slate-700">
+                {groups.flatMap(({ canonical, rows }) =>
+                  rows.map((row, i) => (
+                    <tr key={row.id} className="border-b border-slate-100 last:border-b-0">
+                      <td className="px-2 py-1 text-slate-900">
+                        {i === 0 ? canonical : ""}
+                      </td>
+                      <td className="px-2 py-1">{row.alias}</td>
+                      <td className="px-2 py-1 text-slate-600">{row.created_by ?? ""}</td>
+                      <td className="whitespace-nowrap px-2 py-1 text-right">
+                        <button
+                          type="button"
+                          onClick={() => handleUnmerge(row.alias)}
+                          disabled={busyKey !== null}
+                          className="text-red-700 underline-offset-2 hover:underline disabled:opacity-50"
+                        >
+                          {busyKey === `alias:${row.alias}` ? "Undoing..." : "Undo"}
+                        </button>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -10,10 +10,19 @@ import { formatCurrency, formatPercent } from "@/lib/format";
 import { buildBudgetNarrative } from "@/lib/narrativeHelpers";
 import DataTable, { DataTableColumn } from "../DataTable";
 import FiscalYearSelect from "../FiscalYearSelect";
+import CompareYearsSelect from "../CompareYearsSelect";
+import PerCapitaToggle from "../PerCapitaToggle";
 import BudgetByDepartmentChart from "@/components/Analytics/BudgetByDepartmentChart";
 import { cityHref } from "@/lib/cityRouting";
 import type { BudgetActualsYearDeptRow } from "@/lib/queries";
 import { CITY_CONFIG } from "@/lib/cityConfig";
+import {
+  formatPerCapita,
+  perCapitaDivisor,
+  pickPerCapita,
+  PER_CAPITA_LABELS,
+  type Population,
+} from "@/lib/perCapita";
 
 export type DepartmentSummary = {
   department_name: string;
@@ -25,9 +34,10 @@ export type DepartmentSummary = {
 type Props = {
   years: number[];
   deptBudgetActuals: BudgetActualsYearDeptRow[]; // selected-year scoped summary rows
+  population?: Population | null;
 };
 
-export default function BudgetClient({ years, deptBudgetActuals }: Props) {
+export default function BudgetClient({ years, deptBudgetActuals, population = null }: Props) {
   const searchParams = useSearchParams();
 
   const selectedYear = useMemo(() => {
@@ -69,6 +79,33 @@ export default function BudgetClient({ years, deptBudgetActuals }: Props) {
     return { budget, actuals: actualsSum, variance, execPct };
   }, [departments]);
 
+  // Per-resident or per-household view (?per=); percentages are unchanged
+  const basis = pickPerCapita(searchParams.get("per") ?? undefined);
+  const divisor = perCapitaDivisor(population, selectedYear, basis);
+  const formatAmount = divisor ? formatPerCapita : formatCurrency;
+  const amountSuffix = divisor ? ` ${PER_CAPITA_LABELS[basis].toLowerCase()}` : "";
+
+  const shownDepartments: DepartmentSummary[] = useMemo(
+    () =>
+      divisor
+        ? departments.map((d) => ({
+            ...d,
+            budget: d.budget / divisor,
+            actuals: d.actuals / divisor,
+          }))
+        : departments,
+    [departments, divisor]
+  );
+
+  const shownTotals = divisor
+    ? {
+        ...totals,
+        budget: totals.budget / divisor,
+        actuals: totals.actuals / divisor,
+        variance: totals.variance / divisor,
+      }
+    : totals;
+
   const deptCount = departments.length;
   const chartYear = selectedYear ?? (years.length ? years[0] : 0);
 
@@ -96,20 +133,20 @@ export default function BudgetClient({ years, deptBudgetActuals }: Props) {
       },
       {
         key: "budget",
-        header: "Budget",
+        header: `Budget${amountSuffix}`,
         headerClassName: "text-right",
         cellClassName: "text-right font-mono",
         cell: (row: DepartmentSummary) => (
-          <span>{formatCurrency(row.budget)}</span>
+          <span>{formatAmount(row.budget)}</span>
         ),
       },
       {
         key: "actuals",
-        header: "Actuals",
+        header: `Actuals${amountSuffix}`,
         headerClassName: "text-right",
         cellClassName: "text-right font-mono",
         cell: (row: DepartmentSummary) => (
-          <span>{formatCurrency(row.actuals)}</span>
+          <span>{formatAmount(row.actuals)}</span>
         ),
       },
       {
@@ -134,11 +171,11 @@ export default function BudgetClient({ years, deptBudgetActuals }: Props) {
               : v < 0
               ? " text-red-700"
               : " text-slate-700";
-          return <span className={color}>{formatCurrency(v)}</span>;
+          return <span className={color}>{formatAmount(v)}</span>;
         },
       },
     ],
-    [chartYear]
+    [chartYear, formatAmount, amountSuffix]
   );
 
   const accentColor =
@@ -168,8 +205,9 @@ export default function BudgetClient({ years, deptBudgetActuals }: Props) {
       topDepartmentPct: topDeptPct,
       overBudgetDepts,
       enableActuals: hasAnyActualsForSelectedYear,
+      population: selectedYear ? population?.byYear[selectedYear]?.population ?? null : null,
     });
-  }, [departments, totals, selectedYear, deptCount, hasAnyActualsForSelectedYear]);
+  }, [departments, totals, selectedYear, deptCount, hasAnyActualsForSelectedYear, population]);
 
   return (
     <div className="mx-auto max-w-6xl space-y-6 px-3 py-6 sm:px-4 sm:py-8">
@@ -179,7 +217,10 @@ export default function BudgetClient({ years, deptBudgetActuals }: Props) {
         description="Compare adopted budgets and actual spending across departments for the selected fiscal year."
         rightSlot={
           years.length > 0 ? (
-            <FiscalYearSelect options={years} label="Fiscal year" />
+            <div className="flex flex-col items-end gap-2">
+              <FiscalYearSelect options={years} label="Fiscal year" />
+              <CompareYearsSelect options={years} />
+            </div>
           ) : null
         }
         accentColor={accentColor}
@@ -228,6 +269,9 @@ export default function BudgetClient({ years, deptBudgetActuals }: Props) {
                   "No budget years available yet."
                 )}
               </div>
+              {selectedYear && (
+                <PerCapitaToggle population={population} years={[selectedYear]} />
+              )}
             </div>
 
             <section
@@ -236,10 +280,10 @@ export default function BudgetClient({ years, deptBudgetActuals }: Props) {
             >
               <div className="rounded-xl border border-slate-200 bg-slate-50 px-3 py-3">
                 <div className="text-xs font-semibold uppercase tracking-wide text-slate-500">
-                  Total budget
+                  Total budget{amountSuffix}
                 </div>
                 <div className="mt-1 text-lg font-semibold text-slate-900">
-                  {formatCurrency(totals.budget)}
+                  {formatAmount(shownTotals.budget)}
                 </div>
                 <div className="mt-1 text-xs text-slate-500">
                   Sum of department-level adopted budgets.
@@ -248,10 +292,10 @@ export default function BudgetClient({ years, deptBudgetActuals }: Props) {
 
               <div className="rounded-xl border border-slate-200 bg-slate-50 px-3 py-3">
                 <div className="text-xs font-semibold uppercase tracking-wide text-slate-500">
-                  Total actuals
+                  Total actuals{amountSuffix}
                 </div>
                 <div className="mt-1 text-lg font-semibold text-slate-900">
-                  {formatCurrency(totals.actuals)}
+                  {formatAmount(shownTotals.actuals)}
                 </div>
                 <div className="mt-1 text-xs text-slate-500">
                   All spending recorded against these departments.
@@ -260,7 +304,7 @@ export default function BudgetClient({ years, deptBudgetActuals }: Props) {
 
               <div className="rounded-xl border border-slate-200 bg-slate-50 px-3 py-3">
                 <div className="text-xs font-semibold uppercase tracking-wide text-slate-500">
-                  Variance (budget - actuals)
+                  Variance (budget - actuals){amountSuffix}
                 </div>
                 <div
                   className={
@@ -272,7 +316,7 @@ export default function BudgetClient({ years, deptBudgetActuals }: Props) {
                       : " text-slate-900")
                   }
                 >
-                  {formatCurrency(totals.variance)}
+                  {formatAmount(shownTotals.variance)}
                 </div>
                 <div className="mt-1 text-xs text-slate-500">
                   Positive means the spend is currently under budget.
@@ -314,9 +358,9 @@ export default function BudgetClient({ years, deptBudgetActuals }: Props) {
                       {formatPercent(totals.execPct)}
                     </p>
                     <p className="mt-1 text-xs text-slate-600">
-                      {formatCurrency(totals.actuals)} of{" "}
-                      {formatCurrency(totals.budget)} spent across all
-                      departments.
+                      {formatAmount(shownTotals.actuals)} of{" "}
+                      {formatAmount(shownTotals.budget)}
+                      {amountSuffix} spent across all departments.
                     </p>
                     <div
                       className="mt-3 h-2 w-full overflow-hidden rounded-full bg-slate-200"
@@ -347,12 +391,12 @@ export default function BudgetClient({ years, deptBudgetActuals }: Props) {
 
               <BudgetByDepartmentChart
                 year={chartYear}
-                departments={departments}
+                departments={shownDepartments}
                 showTable={false}
               />
 
               <DataTable<DepartmentSummary>
-                data={departments}
+                data={shownDepartments}
                 columns={columns}
                 initialSortKey="budget"
                 initialSortDirection="desc"
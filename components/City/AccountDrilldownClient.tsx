@@ -0,0 +1,390 @@
+"use client";
+
+import { useMemo } from "react";
+import Link from "next/link";
+import CardContainer from "../CardContainer";
+import SectionHeader from "../SectionHeader";
+import FiscalYearSelect from "../FiscalYearSelect";
+import DataTable, { DataTableColumn } from "../DataTable";
+import { formatCurrency, formatPercent } from "@/lib/format";
+import { cityHref } from "@/lib/cityRouting";
+import { CITY_CONFIG } from "@/lib/cityConfig";
+import { drilldownPath, type LineItemSummary } from "@/lib/accountDrilldown";
+import type { TransactionRow } from "@/lib/types";
+
+type Props = {
+  departmentName: string;
+  category: string;
+  account: string | null; // null on the category level
+  years: number[];
+  selectedYear: number | null;
+  totals: LineItemSummary | null; // null when nothing posted this year
+  accounts: LineItemSummary[]; // category level: accounts in the category
+  transactions: TransactionRow[]; // account level: posted to the account
+  enableTransactions: boolean;
+  enableVendors: boolean;
+};
+
+function varianceText(totals: LineItemSummary): string {
+  if (totals.budget === 0) {
+    return totals.actuals > 0 ? "Spent with no budget" : "No budget or spending";
+  }
+  if (totals.variance === 0) return "On budget";
+  return `${totals.variance > 0 ? "Over" : "Under"} budget by ${formatPercent(
+    Math.abs(totals.percentSpent - 100)
+  )}`;
+}
+
+export default function AccountDrilldownClient({
+  departmentName,
+  category,
+  account,
+  years,
+  selectedYear,
+  totals,
+  accounts,
+  transactions,
+  enableTransactions,
+  enableVendors,
+}: Props) {
+  const accentColor =
+    CITY_CONFIG.accentColor || CITY_CONFIG.primaryColor || undefined;
+
+  const title = account ?? category;
+  const txTotal = transactions.reduce((sum, t) => sum + Number(t.amount || 0), 0);
+
+  const accountColumns: DataTableColumn<LineItemSummary>[] = useMemo(
+    () => [
+      {
+        key: "name",
+        header: "Account",
+        sortable: true,
+        sortAccessor: (row) => row.name.toLowerCase(),
+        cell: (row) => (
+          <Link
+            href={cityHref(
+              drilldownPath(departmentName, category, row.name, selectedYear)
+            )}
+            className="font-medium text-slate-800 hover:underline"
+          >
+            {row.name}
+          </Link>
+        ),
+      },
+      {
+        key: "codes",
+        header: "Code",
+        cellClassName: "whitespace-nowrap font-mono text-slate-600",
+        cell: (row) => (row.codes.length > 0 ? row.codes.join(", ") : "–"),
+      },
+      {
+        key: "budget",
+        header: "Budget",
+        sortable: true,
+        sortAccessor: (row) => row.budget,
+        headerClassName: "text-right",
+        cellClassName: "text-right font-mono",
+        cell: (row) => formatCurrency(row.budget),
+      },
+      {
+        key: "actuals",
+        header: "Actuals",
+        sortable: true,
+        sortAccessor: (row) => row.actuals,
+        headerClassName: "text-right",
+        cellClassName: "text-right font-mono",
+        cell: (row) => formatCurrency(row.actuals),
+      },
+      {
+        key: "variance",
+        header: "Variance",
+        sortable: true,
+        sortAccessor: (row) => row.variance,
+        headerClassName: "text-right",
+        cellClassName: "text-right font-mono",
+        cell: (row) => (
+          <span className={row.variance > 0 ? "text-red-700" : undefined}>
+            {formatCurrency(row.variance)}
+          </span>
+        ),
+      },
+      {
+        key: "percentSpent",
+        header: "% spent",
+        sortable: true,
+        sortAccessor: (row) => row.percentSpent,
+        headerClassName: "text-right",
+        cellClassName: "text-right",
+        cell: (row) => (row.budget > 0 ? formatPercent(row.percentSpent) : "–"),
+      },
+    ],
+    [departmentName, category, selectedYear]
+  );
+
+  const transactionColumns: DataTableColumn<TransactionRow>[] = useMemo(() => {
+    const cols: DataTableColumn<TransactionRow>[] = [
+      {
+        key: "date",
+        header: "Date",
+        sortable: true,
+        sortAccessor: (row) => row.date,
+        cellClassName: "whitespace-nowrap",
+        cell: (row) => row.date,
+      },
+    ];
+
+    if (enableVendors) {
+      cols.push({
+        key: "vendor",
+        header: "Vendor",
+        sortable: true,
+        sortAccessor: (row) => (row.vendor || "Unspecified").toLowerCase(),
+        cellClassName: "whitespace-nowrap",
+        cell: (row) =>
+          row.vendor ? (
+            <Link
+              href={cityHref(`/vendors/${encodeURIComponent(row.vendor)}`)}
+              className="text-slate-800 hover:underline"
+            >
+              {row.vendor}
+            </Link>
+          ) : (
+            "Unspecified"
+          ),
+      });
+    }
+
+    cols.push(
+      {
+        key: "description",
+        header: "Description",
+        sortable: true,
+        sortAccessor: (row) => (row.description || "").toLowerCase(),
+        cell: (row) =>
+          row.description || (
+            <span className="italic text-slate-600">No description</span>
+          ),
+      },
+      {
+        key: "amount",
+        header: "Amount",
+        sortable: true,
+        sortAccessor: (row) => Number(row.amount || 0),
+        headerClassName: "text-right",
+        cellClassName: "text-right font-mono",
+        cell: (row) => formatCurrency(Number(row.amount || 0)),
+      }
+    );
+
+    return cols;
+  }, [enableVendors]);
+
+  return (
+    <div
+      id="main-content"
+      className="mx-auto max-w-6xl space-y-6 px-3 py-6 sm:px-4 sm:py-8"
+    >
+      <SectionHeader
+        eyebrow={account ? `${departmentName} · ${category}` : departmentName}
+        title={title}
+        description={
+          account
+            ? "Budget, actual spending and the transactions posted to this account."
+            : "Budget and actual spending for each account in this category. Select an account for its transactions."
+        }
+        accentColor={accentColor}
+        rightSlot={
+          years.length > 0 ? (
+            <FiscalYearSelect options={years} label="Fiscal year" />
+          ) : null
+        }
+      />
+
+      <nav aria-label="Breadcrumb" className="mb-2 px-1 text-sm text-slate-600">
+        <ol className="flex flex-wrap items-center gap-1">
+          <li>
+            <Link href={cityHref("/overview")} className="hover:text-slate-800">
+              Home
+            </Link>
+          </li>
+          <li aria-hidden="true" className="text-slate-500">
+            ›
+          </li>
+          <li>
+            <Link href={cityHref("/departments")} className="hover:text-slate-800">
+              Departments
+            </Link>
+          </li>
+          <li aria-hidden="true" className="text-slate-500">
+            ›
+          </li>
+          <li>
+            <Link
+              href={cityHref(drilldownPath(departmentName, null, null, selectedYear))}
+              className="hover:text-slate-800"
+            >
+              {departmentName}
+            </Link>
+          </li>
+          <li aria-hidden="true" className="text-slate-500">
+            ›
+          </li>
+          {account ? (
+            <>
+              <li>
+                <Link
+                  href={cityHref(
+                    drilldownPath(departmentName, category, null, selectedYear)
+                  )}
+                  className="hover:text-slate-800"
+                >
+                  {category}
+                </Link>
+              </li>
+              <li aria-hidden="true" className="text-slate-500">
+                ›
+              </li>
+              <li aria-current="page">
+                <span className="font-medium text-slate-700">{account}</span>
+              </li>
+            </>
+          ) : (
+            <li aria-current="page">
+              <span className="font-medium text-slate-700">{category}</span>
+            </li>
+          )}
+        </ol>
+      </nav>
+
+      {/* Metrics */}
+      <div className="grid gap-4 md:grid-cols-4">
+        <CardContainer>
+          <div className="text-xs font-semibold uppercase tracking-[0.14em] text-slate-600">
+            Budget ({selectedYear ?? "–"})
+          </div>
+          <div className="mt-1 text-2xl font-bold text-slate-900">
+            {formatCurrency(totals?.budget ?? 0)}
+          </div>
+        </CardContainer>
+
+        <CardContainer>
+          <div className="text-xs font-semibold uppercase tracking-[0.14em] text-slate-600">
+            Actuals ({selectedYear ?? "–"})
+          </div>
+          <div className="mt-1 text-2xl font-bold text-slate-900">
+            {formatCurrency(totals?.actuals ?? 0)}
+          </div>
+          {totals && totals.budget > 0 && (
+            <div className="mt-1 text-sm text-slate-600">
+              {formatPercent(totals.percentSpent)} of budget spent
+            </div>
+          )}
+        </CardContainer>
+
+        <CardContainer>
+          <div className="text-xs font-semibold uppercase tracking-[0.14em] text-slate-600">
+            Variance ({selectedYear ?? "–"})
+          </div>
+          <div
+            className={`mt-1 text-2xl font-bold ${
+              totals && totals.variance > 0 ? "text-red-700" : "text-slate-900"
+            }`}
+          >
+            {formatCurrency(Math.abs(totals?.variance ?? 0))}
+          </div>
+          <div className="mt-1 text-sm text-slate-600">
+            {totals ? varianceText(totals) : "No budget or spending"}
+          </div>
+        </CardContainer>
+
+        <CardContainer>
+          <div className="text-xs font-semibold uppercase tracking-[0.14em] text-slate-600">
+            {account ? "Transactions" : "Accounts"} ({selectedYear ?? "–"})
+          </div>
+          <div className="mt-1 text-2xl font-bold text-slate-900">
+            {account
+              ? enableTransactions
+                ? transactions.length.toLocaleString("en-US")
+                : "–"
+              : accounts.length.toLocaleString("en-US")}
+          </div>
+          {account && totals?.codes.length ? (
+            <div className="mt-1 font-mono text-sm text-slate-600">
+              {totals.codes.join(", ")}
+            </div>
+          ) : null}
+        </CardContainer>
+      </div>
+
+      {!totals && (
+        <CardContainer>
+          <p className="text-sm text-slate-600">
+            No budget or actual spending was recorded for {title} in fiscal year{" "}
+            {selectedYear ?? "–"}. Choose another year above.
+          </p>
+        </CardContainer>
+      )}
+
+      {/* Accounts in the category */}
+      {!account && accounts.length > 0 && (
+        <CardContainer>
+          <section aria-labelledby="drilldown-accounts-heading" className="space-y-3">
+            <h2
+              id="drilldown-accounts-heading"
+              className="text-sm font-semibold text-slate-800"
+            >
+              Accounts in {category}
+            </h2>
+            <DataTable<LineItemSummary>
+              data={accounts}
+              columns={accountColumns}
+              initialSortKey="budget"
+              initialSortDirection="desc"
+              getRowKey={(row) => row.name}
+              caption={`Budget and actuals by account for ${category}, ${departmentName}, fiscal year ${selectedYear ?? ""}`}
+            />
+          </section>
+        </CardContainer>
+      )}
+
+      {/* Transactions posted to the account */}
+      {account && (
+        <CardContainer>
+          <section aria-labelledby="drilldown-tx-heading" className="space-y-3">
+            <div className="flex flex-col gap-1 sm:flex-row sm:items-end sm:justify-between">
+              <h2 id="drilldown-tx-heading" className="text-sm font-semibold text-slate-800">
+                Transactions ({selectedYear ?? "–"})
+              </h2>
+              {transactions.length > 0 && (
+                <p className="text-sm text-slate-600">
+                  {formatCurrency(txTotal)} across{" "}
+                  {transactions.length.toLocaleString("en-US")} transactions
+                </p>
+              )}
+            </div>
+            {!enableTransactions ? (
+              <p className="text-sm text-slate-600">
+                Transaction detail is not published for this city.
+              </p>
+            ) : transactions.length === 0 ? (
+              <p className="text-sm text-slate-600">
+                No transactions were posted to this account in the selected year.
+              </p>
+            ) : (
+              <DataTable<TransactionRow>
+                data={transactions}
+                columns={transactionColumns}
+                initialSortKey="date"
+                initialSortDirection="desc"
+                getRowKey={(row, index) =>
+                  `${row.date}-${row.vendor ?? ""}-${row.amount}-${index}`
+                }
+                caption={`Transactions posted to ${account}, ${departmentName}, fiscal year ${selectedYear ?? ""}`}
+              />
+            )}
+          </section>
+        </CardContainer>
+      )}
+    </div>
+  );
+}
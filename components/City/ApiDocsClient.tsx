@@ -0,0 +1,344 @@
+// components/City/ApiDocsClient.tsx
+"use client";
+
+import { useState } from "react";
+import SectionHeader from "../SectionHeader";
+import { CITY_CONFIG } from "@/lib/cityConfig";
+import { API_KEY_HEADER } from "@/lib/apiKeys";
+import { API_RATE_LIMIT } from "@/lib/publicApi";
+import type {
+  OpenApiDocument,
+  OpenApiOperation,
+  OpenApiParameter,
+  OpenApiSchema,
+} from "@/lib/openApi";
+
+type Props = {
+  document: OpenApiDocument;
+};
+
+const OPENAPI_PATH = "/api/v1/openapi.json";
+
+const INPUT_CLASS =
+  "w-full rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm transition focus:border-slate-500 focus:outline-none focus:ring-1 focus:ring-slate-500";
+
+// "integer", or "string (date)", from a schema's type and format
+function typeLabel(schema: OpenApiSchema): string {
+  const types = Array.isArray(schema.type) ? schema.type.filter((t) => t !== "null") : [schema.type];
+  const label = types.filter(Boolean).join(" | ") || "object";
+  return schema.format ? `${label} (${schema.format})` : label;
+}
+
+// Row schema an operation's JSON response points to
+function rowSchema(document: OpenApiDocument, operation: OpenApiOperation): OpenApiSchema | null {
+  const ref =
+    operation.responses["200"]?.content?.["application/json"]?.schema.properties?.data?.items?.$ref;
+  const name = ref?.split("/").pop();
+  return name ? document.components.schemas[name] ?? null : null;
+}
+
+type TryResult = {
+  url: string;
+  status: number;
+  body: string;
+  nextCursor: string | null;
+};
+
+function EndpointCard({
+  path,
+  operation,
+  fields,
+}: {
+  path: string;
+  operation: OpenApiOperation;
+  fields: OpenApiSchema | null;
+}) {
+  const [values, setValues] = useState<Record<string, string>>({ limit: "5" });
+  const [loading, setLoading] = useState(false);
+  const [result, setResult] = useState<TryResult | null>(null);
+  const [requestError, setRequestError] = useState<string | null>(null);
+
+  const requestUrl = (() => {
+    const params = new URLSearchParams();
+    for (const param of operation.parameters) {
+      const value = values[param.name]?.trim();
+      if (value) params.set(param.name, value);
+    }
+    const query = params.toString();
+    return query ? `${path}?${query}` : path;
+  })();
+
+  const setValue = (name: string, value: string) =>
+    setValues((prev) => ({ ...prev, [name]: value }));
+
+  const send = async (url: string) => {
+    setLoading(true);
+    setRequestError(null);
+    try {
+      const res = await fetch(url);
+      const text = await res.text();
+      let body = text;
+      let nextCursor = res.headers.get("X-Next-Cursor");
+      if (res.headers.get("Content-Type")?.includes("application/json")) {
+        const json = JSON.parse(text) as { next_cursor?: string | null };
+        body = JSON.stringify(json, null, 2);
+        nextCursor = json.next_cursor ?? nextCursor;
+      }
+      setResult({ url, status: res.status, body, nextCursor: nextCursor || null });
+    } catch (err) {
+      console.error("API docs: request failed", err);
+      setRequestError("The request failed. Check your connection and try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const headingId = `endpoint-${operation.operationId}`;
+
+  return (
+    <section
+      aria-labelledby={headingId}
+      className="rounded-2xl border border-slate-200 bg-white p-5 shadow-sm sm:p-6"
+    >
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="rounded-md bg-emerald-100 px-2 py-0.5 text-xs font-bold text-emerald-800">
+          GET
+        </span>
+        <h3 id={headingId} className="font-mono text-sm font-semibold text-slate-900">
+          {path}
+        </h3>
+        <span className="text-sm text-slate-500">{operation.summary}</span>
+      </div>
+      <p className="mt-2 text-sm leading-relaxed text-slate-600">{operation.description}</p>
+
+      <details className="mt-4">
+        <summary className="cursor-pointer text-sm font-semibold text-slate-800">
+          Parameters
+        </summary>
+        <div className="mt-2 overflow-x-auto">
+          <table className="min-w-full text-left text-sm">
+            <thead>
+              <tr className="border-b border-slate-200 text-xs uppercase tracking-wide text-slate-500">
+                <th scope="col" className="py-2 pr-4">Name</th>
+                <th scope="col" className="py-2 pr-4">Type</th>
+                <th scope="col" className="py-2">Description</th>
+              </tr>
+            </thead>
+            <tbody>
+              {operation.parameters.map((param) => (
+                <tr key={param.name} className="border-b border-slate-100 align-top">
+                  <td className="py-2 pr-4 font-mono text-xs text-slate-900">{param.name}</td>
+                  <td className="py-2 pr-4 text-xs text-slate-600">{typeLabel(param.schema)}</td>
+                  <td className="py-2 text-slate-600">{param.description}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </details>
+
+      {fields?.properties && (
+        <details className="mt-3">
+          <summary className="cursor-pointer text-sm font-semibold text-slate-800">
+            Response fields
+          </summary>
+          <div className="mt-2 overflow-x-auto">
+            <table className="min-w-full text-left text-sm">
+              <thead>
+                <tr className="border-b border-slate-200 text-xs uppercase tracking-wide text-slate-500">
+                  <th scope="col" className="py-2 pr-4">Field</th>
+                  <th scope="col" className="py-2 pr-4">Type</th>
+                  <th scope="col" className="py-2">Description</th>
+                </tr>
+              </thead>
+              <tbody>
+                {Object.entries(fields.properties).map(([name, schema]) => (
+                  <tr key={name} className="border-b border-slate-100 align-top">
+                    <td className="py-2 pr-4 font-mono text-xs text-slate-900">{name}</td>
+                    <td className="py-2 pr-4 text-xs text-slate-600">{typeLabel(schema)}</td>
+                    <td className="py-2 text-slate-600">{schema.description}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </details>
+      )}
+
+      <details className="mt-3">
+        <summary className="cursor-pointer text-sm font-semibold text-slate-800">
+          Try it
+        </summary>
+        <form
+          className="mt-3 space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            void send(requestUrl);
+          }}
+        >
+          <div className="grid gap-3 sm:grid-cols-2">
+            {operation.parameters
+              .filter((param: OpenApiParameter) => param.name !== "format")
+              .map((param) => {
+                const inputId = `${operation.operationId}-${param.name}`;
+                return (
+                  <div key={param.name}>
+                    <label htmlFor={inputId} className="mb-1 block text-xs font-medium text-slate-700">
+                      {param.name}
+                    </label>
+                    <input
+                      id={inputId}
+                      type="text"
+                      value={values[param.name] ?? ""}
+                      onChange={(e) => setValue(param.name, e.target.value)}
+                      className={INPUT_CLASS}
+                    />
+                  </div>
+                );
+              })}
+            <div>
+              <label
+                htmlFor={`${operation.operationId}-format`}
+                className="mb-1 block text-xs font-medium text-slate-700"
+              >
+                format
+              </label>
+              <select
+                id={`${operation.operationId}-format`}
+                value={values.format ?? ""}
+                onChange={(e) => setValue("format", e.target.value)}
+                className={INPUT_CLASS}
+              >
+                <option value="">json</option>
+                <option value="csv">csv</option>
+              </select>
+            </div>
+          </div>
+
+          <div className="rounded-lg bg-slate-50 px-3 py-2 font-mono text-xs text-slate-700 break-all">
+            GET {requestUrl}
+          </div>
+
+          <div className="flex flex-wrap gap-3">
+            <button
+              type="submit"
+              disabled={loading}
+              className="inline-flex items-center justify-center rounded-xl bg-slate-900 px-5 py-2.5 text-sm font-semibold text-white shadow-sm transition hover:bg-slate-800 focus:outline-none focus-visible:ring-2 focus-visible:ring-slate-500 focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {loading ? "Sending..." : "Send request"}
+            </button>
+            {result?.nextCursor && (
+              <button
+                type="button"
+                disabled={loading}
+                onClick={() => {
+                  setValue("cursor", result.nextCursor ?? "");
+                  const next = new URL(result.url, window.location.origin);
+                  next.searchParams.set("cursor", result.nextCursor ?? "");
+                  void send(`${next.pathname}${next.search}`);
+                }}
+                className="inline-flex items-center justify-center rounded-xl border border-slate-300 bg-white px-5 py-2.5 text-sm font-semibold text-slate-800 shadow-sm transition hover:bg-slate-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-slate-500 focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                Next page
+              </button>
+            )}
+          </div>
+
+          {requestError && (
+            <p role="alert" className="text-sm text-red-700">
+              {requestError}
+            </p>
+          )}
+
+          {result && (
+            <div aria-live="polite">
+              <p className="text-xs font-medium text-slate-600">
+                Status{" "}
+                <span className={result.status < 400 ? "text-emerald-700" : "text-red-700"}>
+                  {result.status}
+                </span>
+              </p>
+              <pre className="mt-2 max-h-96 overflow-auto rounded-lg bg-slate-900 p-4 text-xs leading-relaxed text-slate-100">
+                {result.body}
+              </pre>
+            </div>
+          )}
+        </form>
+      </details>
+    </section>
+  );
+}
+
+export default function ApiDocsClient({ document }: Props) {
+  const accentColor =
+    CITY_CONFIG.accentColor || CITY_CONFIG.primaryColor || undefined;
+
+  const endpoints = Object.entries(document.paths);
+
+  return (
+    <div
+      id="main-content"
+      className="mx-auto max-w-5xl space-y-8 px-4 py-8 sm:px-6 lg:px-8"
+    >
+      <SectionHeader
+        eyebrow="Data Access"
+        title="Developer API"
+        description={document.info.description}
+        accentColor={accentColor}
+      />
+
+      <div className="rounded-2xl border border-slate-200 bg-gradient-to-br from-slate-50 to-white p-6">
+        <h2 className="text-lg font-semibold text-slate-900">Getting started</h2>
+        <ul className="mt-2 list-disc space-y-1 pl-5 text-sm leading-relaxed text-slate-600">
+          <li>
+            Every endpoint answers <span className="font-mono">GET</span> with{" "}
+            <span className="font-mono">{"{ data, next_cursor }"}</span>. Pass{" "}
+            <span className="font-mono">next_cursor</span> back as{" "}
+            <span className="font-mono">cursor</span> until it comes back null.
+          </li>
+          <li>
+            Filter with the parameters listed for each endpoint; list parameters take
+            comma-separated values. Choose fields with <span className="font-mono">fields</span>.
+          </li>
+          <li>
+            Add <span className="font-mono">format=csv</span> or send{" "}
+            <span className="font-mono">Accept: text/csv</span> for CSV; the next cursor is then
+            in the <span className="font-mono">X-Next-Cursor</span> header.
+          </li>
+          <li>
+            Without a key each visitor gets {API_RATE_LIMIT} requests a minute. For scheduled jobs,
+            ask the city for an API key and send it in the{" "}
+            <span className="font-mono">{API_KEY_HEADER}</span> header; it comes with its own
+            daily quota.
+          </li>
+          <li>
+            Catalog harvesters can read <span className="font-mono">/data.json</span> (DCAT-US) and{" "}
+            <span className="font-mono">/datapackage.json</span> (Frictionless Data Package), which
+            describe each dataset with its columns and download links.
+          </li>
+        </ul>
+        <a
+          href={OPENAPI_PATH}
+          className="mt-4 inline-flex items-center gap-2 text-sm font-semibold text-slate-900 underline underline-offset-2 hover:text-slate-700"
+        >
+          OpenAPI {document.openapi} document (version {document.info.version})
+        </a>
+      </div>
+
+      {endpoints.length === 0 ? (
+        <p className="text-sm text-slate-600">No data is published through the API yet.</p>
+      ) : (
+        <div className="space-y-6">
+          {endpoints.map(([path, { get }]) => (
+            <EndpointCard
+              key={path}
+              path={path}
+              operation={get}
+              fields={rowSchema(document, get)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,409 @@
+"use client";
+
+import { useMemo } from "react";
+import Link from "next/link";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  CartesianGrid,
+} from "recharts";
+import CardContainer from "../CardContainer";
+import SectionHeader from "../SectionHeader";
+import FiscalYearSelect from "../FiscalYearSelect";
+import DataTable, { DataTableColumn } from "../DataTable";
+import { formatCurrency, formatCurrencyCompact, formatPercent } from "@/lib/format";
+import { cityHref } from "@/lib/cityRouting";
+import { CITY_CONFIG } from "@/lib/cityConfig";
+import {
+  AHEAD_OF_PACE_MARGIN,
+  FISCAL_PERIODS,
+  type DepartmentExecution,
+  type ExecutionCurve,
+  type ExecutionPoint,
+} from "@/lib/budgetExecution";
+
+type Props = {
+  years: number[];
+  selectedYear: number | null;
+  curve: ExecutionCurve;
+  department: DepartmentExecution | null; // null for the whole city
+  departments: DepartmentExecution[];
+  series: ExecutionPoint[];
+  budget: number; // annual budget behind the chart
+  throughPeriod: number; // latest fiscal period with actuals
+  throughLabel: string | null;
+  unassignedActuals: number; // actuals with no fiscal period
+  fiscalYearNote?: string;
+};
+
+function executionHref(
+  year: number | null,
+  curve: ExecutionCurve,
+  department: string | null
+): string {
+  const params = new URLSearchParams();
+  if (year) params.set("year", String(year));
+  if (curve !== "straight") params.set("curve", curve);
+  if (department) params.set("department", department);
+  const query = params.toString();
+  return query ? `${cityHref("/execution")}?${query}` : cityHref("/execution");
+}
+
+const CURVE_OPTIONS: { value: ExecutionCurve; label: string }[] = [
+  { value: "straight", label: "Straight-line" },
+  { value: "seasonal", label: "Seasonal" },
+];
+
+export default function BudgetExecutionClient({
+  years,
+  selectedYear,
+  curve,
+  department,
+  departments,
+  series,
+  budget,
+  throughPeriod,
+  throughLabel,
+  unassignedActuals,
+  fiscalYearNote,
+}: Props) {
+  const accentColor =
+    CITY_CONFIG.accentColor || CITY_CONFIG.primaryColor || undefined;
+
+  const scopeName = department?.department_name ?? "All departments";
+  const point = throughPeriod > 0 ? series[throughPeriod - 1] : null;
+  const ytdActuals = point?.actuals ?? 0;
+  const ytdPercent = budget > 0 ? (ytdActuals / budget) * 100 : 0;
+  const expectedPercent = point && budget > 0 ? (point.expected / budget) * 100 : 0;
+  const aheadCount = departments.filter((d) => d.aheadOfPace).length;
+
+  const columns: DataTableColumn<DepartmentExecution>[] = useMemo(
+    () => [
+      {
+        key: "department_name",
+        header: "Department",
+        sortable: true,
+        sortAccessor: (row) => row.department_name.toLowerCase(),
+        cell: (row) => (
+          <Link
+            href={executionHref(selectedYear, curve, row.department_name)}
+            className="font-medium text-slate-800 hover:underline"
+          >
+            {row.department_name}
+          </Link>
+        ),
+      },
+      {
+        key: "budget",
+        header: "Budget",
+        sortable: true,
+        sortAccessor: (row) => row.budget,
+        headerClassName: "text-right",
+        cellClassName: "text-right font-mono",
+        cell: (row) => formatCurrency(row.budget),
+      },
+      {
+        key: "ytdActuals",
+        header: "Year to date",
+        sortable: true,
+        sortAccessor: (row) => row.ytdActuals,
+        headerClassName: "text-right",
+        cellClassName: "text-right font-mono",
+        cell: (row) => formatCurrency(row.ytdActuals),
+      },
+      {
+        key: "ytdPercent",
+        header: "% spent",
+        sortable: true,
+        sortAccessor: (row) => row.ytdPercent,
+        headerClassName: "text-right",
+        cellClassName: "text-right",
+        cell: (row) => (row.budget > 0 ? formatPercent(row.ytdPercent) : "–"),
+      },
+      {
+        key: "expectedPercent",
+        header: "Expected",
+        sortable: true,
+        sortAccessor: (row) => row.expectedPercent,
+        headerClassName: "text-right",
+        cellClassName: "text-right",
+        cell: (row) => formatPercent(row.expectedPercent),
+      },
+      {
+        key: "gap",
+        header: "Pace",
+        sortable: true,
+        sortAccessor: (row) => (row.budget > 0 ? row.gap : -Infinity),
+        headerClassName: "text-right",
+        cellClassName: "text-right whitespace-nowrap",
+        cell: (row) =>
+          row.budget <= 0 ? (
+            <span className="text-slate-500">No budget</span>
+          ) : row.aheadOfPace ? (
+            <span className="inline-flex items-center rounded-full bg-red-50 px-2 py-0.5 text-xs font-semibold text-red-700">
+              {formatPercent(row.gap)} ahead
+            </span>
+          ) : (
+            <span className="text-slate-600">
+              {row.gap >= 0 ? `${formatPercent(row.gap)} ahead` : `${formatPercent(-row.gap)} behind`}
+            </span>
+          ),
+      },
+    ],
+    [selectedYear, curve]
+  );
+
+  return (
+    <div
+      id="main-content"
+      className="mx-auto max-w-6xl space-y-6 px-3 py-6 sm:px-4 sm:py-8"
+    >
+      <SectionHeader
+        eyebrow="Budget execution"
+        title={department ? department.department_name : "Budget execution"}
+        description="Cumulative actual spending by fiscal period against the share of the budget expected to be spent by then."
+        fiscalNote={fiscalYearNote}
+        accentColor={accentColor}
+        rightSlot={
+          years.length > 0 ? (
+            <FiscalYearSelect options={years} label="Fiscal year" />
+          ) : null
+        }
+      />
+
+      <nav aria-label="Breadcrumb" className="mb-2 px-1 text-sm text-slate-600">
+        <ol className="flex items-center gap-1">
+          <li>
+            <Link href={cityHref("/overview")} className="hover:text-slate-800">
+              Home
+            </Link>
+          </li>
+          <li aria-hidden="true" className="text-slate-500">
+            ›
+          </li>
+          {department ? (
+            <>
+              <li>
+                <Link
+                  href={executionHref(selectedYear, curve, null)}
+                  className="hover:text-slate-800"
+                >
+                  Budget execution
+                </Link>
+              </li>
+              <li aria-hidden="true" className="text-slate-500">
+                ›
+              </li>
+              <li aria-current="page">
+                <span className="font-medium text-slate-700">
+                  {department.department_name}
+                </span>
+              </li>
+            </>
+          ) : (
+            <li aria-current="page">
+              <span className="font-medium text-slate-700">Budget execution</span>
+            </li>
+          )}
+        </ol>
+      </nav>
+
+      {/* Budget curve */}
+      <div
+        role="group"
+        aria-label="Budget curve"
+        className="flex flex-wrap items-center gap-2 px-1 text-sm"
+      >
+        <span className="text-slate-600">Budget curve:</span>
+        {CURVE_OPTIONS.map((option) => {
+          const active = option.value === curve;
+          return (
+            <Link
+              key={option.value}
+              href={executionHref(selectedYear, option.value, department?.department_name ?? null)}
+              aria-current={active ? "true" : undefined}
+              className={
+                active
+                  ? "rounded-full bg-slate-900 px-3 py-1 font-medium text-white"
+                  : "rounded-full border border-slate-300 px-3 py-1 text-slate-700 hover:bg-slate-100"
+              }
+            >
+              {option.label}
+            </Link>
+          );
+        })}
+        <span className="text-xs text-slate-500">
+          {curve === "seasonal"
+            ? "Follows the timing of last year's spending; falls back to straight-line without it."
+            : `Spreads the budget evenly over ${FISCAL_PERIODS} periods.`}
+        </span>
+      </div>
+
+      {/* Metrics */}
+      <div className="grid gap-4 md:grid-cols-4">
+        <CardContainer>
+          <div className="text-xs font-semibold uppercase tracking-[0.14em] text-slate-600">
+            Budget ({selectedYear ?? "–"})
+          </div>
+          <div className="mt-1 text-2xl font-bold text-slate-900">
+            {formatCurrency(budget)}
+          </div>
+          <div className="mt-1 text-sm text-slate-600">{scopeName}</div>
+        </CardContainer>
+
+        <CardContainer>
+          <div className="text-xs font-semibold uppercase tracking-[0.14em] text-slate-600">
+            Spent year to date
+          </div>
+          <div className="mt-1 text-2xl font-bold text-slate-900">
+            {formatCurrency(ytdActuals)}
+          </div>
+          <div className="mt-1 text-sm text-slate-600">
+            {throughLabel
+              ? `Through period ${throughPeriod} (${throughLabel})`
+              : "No actuals posted by period"}
+          </div>
+        </CardContainer>
+
+        <CardContainer>
+          <div className="text-xs font-semibold uppercase tracking-[0.14em] text-slate-600">
+            Spent vs. expected
+          </div>
+          <div className="mt-1 text-2xl font-bold text-slate-900">
+            {formatPercent(ytdPercent)}
+          </div>
+          <div className="mt-1 text-sm text-slate-600">
+            {formatPercent(expectedPercent)} expected by now
+          </div>
+        </CardContainer>
+
+        <CardContainer>
+          <div className="text-xs font-semibold uppercase tracking-[0.14em] text-slate-600">
+            Ahead of pace
+          </div>
+          <div
+            className={`mt-1 text-2xl font-bold ${
+              aheadCount > 0 ? "text-red-700" : "text-slate-900"
+            }`}
+          >
+            {aheadCount.toLocaleString("en-US")}
+          </div>
+          <div className="mt-1 text-sm text-slate-600">
+            Departments {AHEAD_OF_PACE_MARGIN}+ points ahead of the curve
+          </div>
+        </CardContainer>
+      </div>
+
+      {/* Cumulative chart */}
+      <CardContainer>
+        <figure
+          role="group"
+          aria-labelledby="execution-chart-heading"
+          aria-describedby="execution-chart-desc"
+          className="space-y-3"
+        >
+          <div>
+            <h2 id="execution-chart-heading" className="text-sm font-semibold text-slate-800">
+              Cumulative spending vs. budget curve
+            </h2>
+            <p id="execution-chart-desc" className="text-sm text-slate-600">
+              {scopeName}, fiscal year {selectedYear ?? "–"}. The dashed line is
+              the {curve === "seasonal" ? "seasonal" : "straight-line"} budget
+              curve; the solid line is actual spending through the latest period
+              posted.
+            </p>
+          </div>
+
+          {throughPeriod === 0 ? (
+            <p className="text-sm text-slate-600">
+              No actuals with a fiscal period have been uploaded for this fiscal year.
+            </p>
+          ) : (
+            <div className="h-64 w-full min-w-0 overflow-hidden sm:h-72">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={series} margin={{ top: 8, right: 16, left: 0, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                  <YAxis
+                    tickFormatter={(v) => formatCurrencyCompact(Number(v))}
+                    tickLine={false}
+                    axisLine={false}
+                  />
+                  <Tooltip
+                    labelFormatter={(label) => String(label ?? "")}
+                    formatter={(value, name) => [
+                      formatCurrency(Number(value ?? 0)),
+                      String(name ?? ""),
+                    ]}
+                  />
+                  <Legend verticalAlign="top" align="right" wrapperStyle={{ fontSize: 11 }} />
+                  <Line
+                    type="monotone"
+                    dataKey="expected"
+                    name="Budget curve"
+                    dot={false}
+                    strokeWidth={2}
+                    strokeDasharray="6 4"
+                    stroke="#0f172a"
+                  />
+                  <Line
+                    type="monotone"
+                    dataKey="actuals"
+                    name="Actuals"
+                    dot={false}
+                    strokeWidth={2}
+                    stroke="#10b981"
+                    connectNulls={false}
+                  />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+
+          {unassignedActuals > 0 && (
+            <p className="text-xs text-slate-500">
+              {formatCurrency(unassignedActuals)} in actuals was uploaded without a
+              fiscal period and isn&apos;t shown on the curve.
+            </p>
+          )}
+        </figure>
+      </CardContainer>
+
+      {/* Department pace */}
+      {!department && (
+        <CardContainer>
+          <section aria-labelledby="execution-table-heading" className="space-y-3">
+            <div>
+              <h2 id="execution-table-heading" className="text-sm font-semibold text-slate-800">
+                Department pace
+              </h2>
+              <p className="text-sm text-slate-600">
+                Departments whose year-to-date spending is {AHEAD_OF_PACE_MARGIN} or
+                more percentage points ahead of their budget curve are flagged.
+              </p>
+            </div>
+            {departments.length === 0 ? (
+              <p className="text-sm text-slate-600">
+                No department budgets or actuals for this fiscal year.
+              </p>
+            ) : (
+              <DataTable<DepartmentExecution>
+                data={departments}
+                columns={columns}
+                initialSortKey="gap"
+                initialSortDirection="desc"
+                getRowKey={(row) => row.department_name}
+                caption={`Year-to-date spending against the budget curve by department, fiscal year ${selectedYear ?? ""}`}
+              />
+            )}
+          </section>
+        </CardContainer>
+      )}
+    </div>
+  );
+}
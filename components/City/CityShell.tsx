@@ -5,11 +5,14 @@ import type { ReactNode } from "react";
 import { usePathname, useSearchParams } from "next/navigation";
 import { CITY_CONFIG } from "@/lib/cityConfig";
 import GlobalSearch from "@/components/GlobalSearch";
+import FundFilter from "@/components/FundFilter";
+import { FUND_FILTER_PATHS } from "@/lib/funds";
 
 type Props = {
   accent: string;
   displayName: string;
   tagline: string | null;
+  funds: string[];
   children: ReactNode;
 };
 
@@ -17,6 +20,7 @@ export default function CityShell({
   accent,
   displayName,
   tagline,
+  funds,
   children,
 }: Props) {
   const pathname = usePathname();
@@ -27,6 +31,10 @@ export default function CityShell({
   const yearParam = searchParams.get("year");
   const fiscalYear = yearParam ? Number(yearParam) : null;
 
+  const showFundFilter = FUND_FILTER_PATHS.some(
+    (path) => pathname === `${basePath}${path}`
+  );
+
   const isLanding =
     pathname === basePath ||
     pathname === `${basePath}/` ||
@@ -80,8 +88,9 @@ export default function CityShell({
               )}
             </div>
             {/* Global Search */}
-            <div className="flex-shrink-0 sm:pt-6">
+            <div className="flex flex-shrink-0 flex-col gap-3 sm:pt-6">
               <GlobalSearch fiscalYear={fiscalYear} />
+              {showFundFilter && <FundFilter funds={funds} />}
             </div>
           </div>
         </div>
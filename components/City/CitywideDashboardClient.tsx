@@ -18,10 +18,12 @@ import {
 import CardContainer from "../CardContainer";
 import SectionHeader from "../SectionHeader";
 import FiscalYearSelect from "../FiscalYearSelect";
+import DollarsToggle from "../DollarsToggle";
 import BudgetByDepartmentChart from "../Analytics/BudgetByDepartmentChart";
 import { formatCurrency, formatPercent } from "@/lib/format";
 import { cityHref } from "@/lib/cityRouting";
 import type { BudgetActualsYearDeptRow, VendorYearSummary } from "@/lib/queries";
+import type { Deflator } from "@/lib/inflation";
 
 
 const BUDGET_COLOR = "#334155";
@@ -96,6 +98,8 @@ type Props = {
 
   revenueSummary?: RevenueSummary | null;
   fiscalYearNote?: string | null;
+  // Set when deptAllYears and yoyTotals are in constant dollars
+  deflator?: Deflator | null;
 };
 
 const formatAxisCurrencyShort = (v: number) => {
@@ -132,6 +136,7 @@ export default function CitywideDashboardClient({
   enableRevenues,
   revenueSummary,
   fiscalYearNote,
+  deflator = null,
 }: Props) {
   // WCAG 2.1 AA: Respect reduced motion preference
   const [prefersReducedMotion, setPrefersReducedMotion] = useState(false);
@@ -722,6 +727,12 @@ const { yoyDomain, yoyTicks } = useMemo(() => {
                         Multi-year govwide view of total budget, actuals, and variance.
                       </p>
                     </div>
+                    {yoyTrendData.length > 1 && (
+                      <DollarsToggle
+                        baseYear={Math.max(...yoyTrendData.map((r) => r.year))}
+                        deflator={deflator}
+                      />
+                    )}
                   </div>
 
                   {yoyTrendData.length === 0 ? (
@@ -23,12 +23,29 @@ import CardContainer from "../CardContainer";
 import SectionHeader from "../SectionHeader";
 import NarrativeSummary from "../NarrativeSummary";
 import FiscalYearSelect from "../FiscalYearSelect";
+import DollarsToggle from "../DollarsToggle";
+import PerCapitaToggle from "../PerCapitaToggle";
 import DataTable, {
   DataTableColumn,
 } from "../DataTable";
 import { cityHref } from "@/lib/cityRouting";
 import { buildDepartmentDetailNarrative } from "@/lib/narrativeHelpers";
 import { CITY_CONFIG } from "@/lib/cityConfig";
+import {
+  drilldownPath,
+  summarizeLineItems,
+  type LineItemSummary,
+} from "@/lib/accountDrilldown";
+import { describeForecast, type DepartmentForecast } from "@/lib/forecast";
+import { deflateRows, restate, type Deflator } from "@/lib/inflation";
+import {
+  formatPerCapita,
+  perCapitaDivisor,
+  perCapitaRows,
+  pickPerCapita,
+  PER_CAPITA_LABELS,
+  type Population,
+} from "@/lib/perCapita";
 
 type Props = {
   departmentName?: string;
@@ -37,6 +54,14 @@ type Props = {
   transactions: TransactionRow[];
   enableVendors: boolean;
   availableYears?: number[];
+  // Yearly totals from the rollup, which counts renamed and merged
+  // departments under this one; raw rows only cover the selected year
+  history?: { fiscal_year: number; budget_amount: number; actual_amount: number }[];
+  // Year-end projection for the selected year, while it is still open
+  forecast?: DepartmentForecast | null;
+  // Set when the multi-year view is in constant dollars
+  deflator?: Deflator | null;
+  population?: Population | null;
 };
 
 const formatCurrency = (value: number) =>
@@ -56,16 +81,17 @@ const formatAxisCurrency = (value: number) => {
   })}`;
 };
 
-function computeSnappedDomain(values: number[]): [number, number] {
+// `step` is 0.1M for totals; per-capita amounts snap to whole tens
+function computeSnappedDomain(values: number[], step = 100_000): [number, number] {
   const finite = values.filter((v) => Number.isFinite(v));
-  if (finite.length === 0) return [0, 100_000];
+  if (finite.length === 0) return [0, step];
 
   let min = Math.min(...finite);
   let max = Math.max(...finite);
 
   // If series is flat, pad it so Recharts has a visible range.
   if (min === max) {
-    const pad = Math.max(Math.abs(min) * 0.1, 100_000);
+    const pad = Math.max(Math.abs(min) * 0.1, step);
     min -= pad;
     max += pad;
   }
@@ -76,8 +102,7 @@ function computeSnappedDomain(values: number[]): [number, number] {
   min -= pad;
   max += pad;
 
-  // Snap to 0.1M increments.
-  const step = 100_000;
+  // Snap to step increments.
   const snappedMin = Math.floor(min / step) * step;
   const snappedMax = Math.ceil(max / step) * step;
 
@@ -109,6 +134,11 @@ export default function DepartmentDetailClient({
   actuals,
   transactions,
   enableVendors,
+  availableYears,
+  history,
+  forecast = null,
+  deflator = null,
+  population = null,
 }: Props) {
   const searchParams = useSearchParams();
   const [activeVendor, setActiveVendor] = useState<string | null>(null);
@@ -175,12 +205,16 @@ export default function DepartmentDetailClient({
   );
 
   const deptYears = useMemo(() => {
+    if (availableYears && availableYears.length > 0) {
+      return availableYears.slice().sort((a, b) => b - a);
+    }
+
     const set = new Set<number>();
     deptBudgets.forEach((b) => set.add(b.fiscal_year));
     deptActuals.forEach((a) => set.add(a.fiscal_year));
     deptTx.forEach((t) => set.add(t.fiscal_year));
     return Array.from(set).sort((a, b) => b - a);
-  }, [deptBudgets, deptActuals, deptTx]);
+  }, [availableYears, deptBudgets, deptActuals, deptTx]);
 
   const selectedYear = useMemo(() => {
     if (deptYears.length === 0) return undefined;
@@ -196,7 +230,17 @@ export default function DepartmentDetailClient({
     return parsed;
   }, [searchParams, deptYears]);
 
-  const multiYearSeries = useMemo(() => {
+  const nominalSeries = useMemo(() => {
+    if (history && history.length > 0) {
+      return history
+        .map((r) => ({
+          year: Number(r.fiscal_year),
+          budget: Number(r.budget_amount || 0),
+          actuals: Number(r.actual_amount || 0),
+        }))
+        .sort((a, b) => a.year - b.year);
+    }
+
     const byYear = new Map<
       number,
       { year: number; budget: number; actuals: number }
@@ -219,7 +263,21 @@ export default function DepartmentDetailClient({
     });
 
     return Array.from(byYear.values()).sort((a, b) => a.year - b.year);
-  }, [deptBudgets, deptActuals]);
+  }, [history, deptBudgets, deptActuals]);
+
+  // Per-resident or per-household view (?per=)
+  const basis = pickPerCapita(searchParams.get("per") ?? undefined);
+  const divisor = perCapitaDivisor(population, selectedYear ?? null, basis);
+  const formatAmount = divisor ? formatPerCapita : formatCurrency;
+  const amountSuffix = divisor ? ` ${PER_CAPITA_LABELS[basis].toLowerCase()}` : "";
+  const shown = (amount: number) => (divisor ? amount / divisor : amount);
+
+  const multiYearSeries = useMemo(() => {
+    const real = deflateRows(nominalSeries, (row) => row.year, ["budget", "actuals"], deflator);
+    return divisor
+      ? perCapitaRows(real, (row) => row.year, ["budget", "actuals"], population, basis)
+      : real;
+  }, [nominalSeries, deflator, divisor, population, basis]);
 
     const multiYearDomain = useMemo((): [number, number] => {
     const values: number[] = [];
@@ -227,8 +285,8 @@ export default function DepartmentDetailClient({
       values.push(Number(row.budget || 0));
       values.push(Number(row.actuals || 0));
     });
-    return computeSnappedDomain(values);
-  }, [multiYearSeries]);
+    return computeSnappedDomain(values, divisor ? 10 : undefined);
+  }, [multiYearSeries, divisor]);
 
 
   const selectedYearTotals = useMemo(() => {
@@ -348,6 +406,76 @@ export default function DepartmentDetailClient({
       .slice(0, 10);
   }, [deptActuals, selectedYear]);
 
+  // Every category with budget or spending this year; each drills down to
+  // its accounts
+  const categoryLineItems = useMemo(
+    () =>
+      selectedYear
+        ? summarizeLineItems(
+            deptBudgets.filter((b) => b.fiscal_year === selectedYear),
+            deptActuals.filter((a) => a.fiscal_year === selectedYear),
+            "category"
+          )
+        : [],
+    [deptBudgets, deptActuals, selectedYear]
+  );
+
+  const categoryHref = (category: string) =>
+    cityHref(drilldownPath(displayName, category, null, selectedYear));
+
+  const categoryColumns: DataTableColumn<LineItemSummary>[] = [
+    {
+      key: "name",
+      header: "Category",
+      sortable: true,
+      sortAccessor: (row) => row.name.toLowerCase(),
+      cell: (row) => (
+        <Link
+          href={categoryHref(row.name)}
+          className="font-medium text-slate-800 hover:underline"
+        >
+          {row.name}
+        </Link>
+      ),
+    },
+    {
+      key: "budget",
+      header: "Budget",
+      sortable: true,
+      sortAccessor: (row) => row.budget,
+      headerClassName: "text-right",
+      cellClassName: "text-right font-mono",
+      cell: (row) => formatCurrency(row.budget),
+    },
+    {
+      key: "actuals",
+      header: "Actuals",
+      sortable: true,
+      sortAccessor: (row) => row.actuals,
+      headerClassName: "text-right",
+      cellClassName: "text-right font-mono",
+      cell: (row) => formatCurrency(row.actuals),
+    },
+    {
+      key: "variance",
+      header: "Variance",
+      sortable: true,
+      sortAccessor: (row) => row.variance,
+      headerClassName: "text-right",
+      cellClassName: "text-right font-mono",
+      cell: (row) => formatCurrency(row.variance),
+    },
+    {
+      key: "percentSpent",
+      header: "% spent",
+      sortable: true,
+      sortAccessor: (row) => row.percentSpent,
+      headerClassName: "text-right",
+      cellClassName: "text-right",
+      cell: (row) => (row.budget > 0 ? formatPercent(row.percentSpent) : "–"),
+    },
+  ];
+
   const activeVendorTx = useMemo(() => {
     if (!enableVendors || !activeVendor || !selectedYear) return [];
     return deptTxForYear.filter(
@@ -447,10 +575,15 @@ export default function DepartmentDetailClient({
     const topVendor = deptVendorSummaries[0];
     
     // Get previous year actuals for YoY comparison
+    // In constant dollars, last year is restated into this year's dollars
     const prevYear = selectedYear ? selectedYear - 1 : null;
-    const prevYearActuals = prevYear
-      ? multiYearSeries.find((s) => s.year === prevYear)?.actuals ?? null
+    const prevNominal = prevYear
+      ? nominalSeries.find((s) => s.year === prevYear)?.actuals ?? null
       : null;
+    const prevYearActuals =
+      prevYear && selectedYear && prevNominal !== null
+        ? restate(prevNominal, prevYear, selectedYear, deflator)
+        : prevNominal;
 
     return buildDepartmentDetailNarrative({
       cityName: CITY_CONFIG.displayName || "This organization",
@@ -467,6 +600,8 @@ export default function DepartmentDetailClient({
       enableActuals: hasActuals,
       enableTransactions: hasTx,
       enableVendors,
+      inflationAdjusted: deflator !== null,
+      population: selectedYear ? population?.byYear[selectedYear]?.population ?? null : null,
     });
   }, [
     displayName,
@@ -474,7 +609,9 @@ export default function DepartmentDetailClient({
     selectedYearTotals,
     deptTxForYear,
     deptVendorSummaries,
-    multiYearSeries,
+    nominalSeries,
+    deflator,
+    population,
     enableVendors,
   ]);
 
@@ -491,10 +628,15 @@ export default function DepartmentDetailClient({
           }
           rightSlot={
             deptYears.length > 0 ? (
-              <FiscalYearSelect
-                options={deptYears}
-                label="Fiscal year"
-              />
+              <div className="flex flex-col items-end gap-2">
+                <FiscalYearSelect
+                  options={deptYears}
+                  label="Fiscal year"
+                />
+                {selectedYear && (
+                  <PerCapitaToggle population={population} years={[selectedYear]} />
+                )}
+              </div>
             ) : null
           }
         />
@@ -530,19 +672,19 @@ export default function DepartmentDetailClient({
         <div className="mb-6 grid gap-4 md:grid-cols-4">
           <CardContainer>
             <div className="text-xs font-semibold uppercase tracking-[0.14em] text-slate-600">
-              Total Budget ({selectedYear ?? "–"})
+              Total Budget{amountSuffix} ({selectedYear ?? "–"})
             </div>
             <div className="mt-1 text-2xl font-bold text-slate-900">
-              {formatCurrency(selectedYearTotals.budget)}
+              {formatAmount(shown(selectedYearTotals.budget))}
             </div>
           </CardContainer>
 
           <CardContainer>
             <div className="text-xs font-semibold uppercase tracking-[0.14em] text-slate-600">
-              Total Actuals ({selectedYear ?? "–"})
+              Total Actuals{amountSuffix} ({selectedYear ?? "–"})
             </div>
             <div className="mt-1 text-2xl font-bold text-slate-900">
-              {formatCurrency(selectedYearTotals.actuals)}
+              {formatAmount(shown(selectedYearTotals.actuals))}
             </div>
             <div className="mt-1 text-sm text-slate-600">
               {formatPercent(selectedYearTotals.percentSpent)} of
@@ -552,7 +694,7 @@ export default function DepartmentDetailClient({
 
           <CardContainer>
             <div className="text-xs font-semibold uppercase tracking-[0.14em] text-slate-600">
-              Variance ({selectedYear ?? "–"})
+              Variance{amountSuffix} ({selectedYear ?? "–"})
             </div>
             <div
               className={`mt-1 text-2xl font-bold ${
@@ -563,8 +705,8 @@ export default function DepartmentDetailClient({
                   : "text-slate-900"
               }`}
             >
-              {formatCurrency(
-                Math.abs(selectedYearTotals.variance)
+              {formatAmount(
+                shown(Math.abs(selectedYearTotals.variance))
               )}
             </div>
             <div className="mt-1 text-sm text-slate-600">
@@ -589,6 +731,62 @@ export default function DepartmentDetailClient({
           </CardContainer>
         </div>
 
+        {/* Year-end forecast */}
+        {forecast && forecast.method !== "final" && (
+          <div className="mb-6">
+            <CardContainer>
+              <section
+                aria-labelledby="dept-forecast-heading"
+                className="grid gap-4 md:grid-cols-[1.2fr,1fr,1fr]"
+              >
+                <div>
+                  <h2
+                    id="dept-forecast-heading"
+                    className="text-xs font-semibold uppercase tracking-[0.14em] text-slate-600"
+                  >
+                    Projected year-end spending
+                  </h2>
+                  <div className="mt-1 text-2xl font-bold text-slate-900">
+                    {formatCurrency(forecast.projected)}
+                  </div>
+                  <div className="mt-1 text-sm text-slate-600">
+                    Likely {formatCurrency(forecast.low)}–
+                    {formatCurrency(forecast.high)}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-xs font-semibold uppercase tracking-[0.14em] text-slate-600">
+                    Projected variance
+                  </div>
+                  <div
+                    className={`mt-1 text-2xl font-bold ${
+                      forecast.budget > 0 && forecast.projectedVariance > 0
+                        ? "text-red-700"
+                        : "text-slate-900"
+                    }`}
+                  >
+                    {formatCurrency(Math.abs(forecast.projectedVariance))}
+                  </div>
+                  <div className="mt-1 text-sm text-slate-600">
+                    {forecast.budget <= 0
+                      ? "No budget to compare against"
+                      : forecast.projectedVariance > 0
+                      ? "Projected over budget"
+                      : "Projected under budget"}
+                    {forecast.budget > 0 &&
+                      ` (likely ${formatCurrency(
+                        forecast.low - forecast.budget
+                      )} to ${formatCurrency(forecast.high - forecast.budget)})`}
+                  </div>
+                </div>
+                <p className="self-end text-sm text-slate-600">
+                  {describeForecast(forecast)}
+                </p>
+              </section>
+            </CardContainer>
+          </div>
+        )}
+
         {/* Multi-year chart */}
         <div className="mb-6">
           <CardContainer>
@@ -614,6 +812,12 @@ export default function DepartmentDetailClient({
                     {displayName} across fiscal years.
                   </p>
                 </div>
+                {multiYearSeries.length > 1 && (
+                  <DollarsToggle
+                    baseYear={multiYearSeries[multiYearSeries.length - 1].year}
+                    deflator={deflator}
+                  />
+                )}
               </div>
 
               <div className="h-[280px] w-full min-w-0 overflow-hidden sm:h-[320px]">
@@ -714,10 +918,10 @@ export default function DepartmentDetailClient({
                             {row.year}
                           </th>
                           <td className="px-3 py-2 text-right text-slate-700">
-                            {formatCurrency(row.budget)}
+                            {formatAmount(row.budget)}
                           </td>
                           <td className="px-3 py-2 text-right text-slate-700">
-                            {formatCurrency(row.actuals)}
+                            {formatAmount(row.actuals)}
                           </td>
                         </tr>
                       ))}
@@ -729,6 +933,40 @@ export default function DepartmentDetailClient({
           </CardContainer>
         </div>
 
+        {/* Budget vs actuals by category */}
+        {categoryLineItems.length > 0 && (
+          <div className="mb-6">
+            <CardContainer>
+              <section
+                aria-labelledby="dept-categories-heading"
+                className="space-y-3"
+              >
+                <div>
+                  <h2
+                    id="dept-categories-heading"
+                    className="text-sm font-semibold text-slate-800"
+                  >
+                    Budget vs Actuals by Category ({selectedYear ?? "–"})
+                  </h2>
+                  <p className="text-sm text-slate-600">
+                    Select a category to see its accounts and the
+                    transactions posted to each.
+                  </p>
+                </div>
+                <DataTable<LineItemSummary>
+                  data={categoryLineItems}
+                  columns={categoryColumns}
+                  initialSortKey="budget"
+                  initialSortDirection="desc"
+                  pageSize={10}
+                  getRowKey={(row) => row.name}
+                  caption={`Budget and actuals by category for ${displayName}, fiscal year ${selectedYear ?? ""}`}
+                />
+              </section>
+            </CardContainer>
+          </div>
+        )}
+
         {/* Vendors + categories + transactions */}
         <div className="grid gap-6 lg:grid-cols-[2fr,1.2fr]">
           {/* Left: transactions table */}
@@ -825,9 +1063,12 @@ export default function DepartmentDetailClient({
                     {deptCategorySummaries.map((c) => (
                       <div key={c.category}>
                         <div className="flex items-center justify-between gap-2">
-                          <span className="truncate pr-2">
+                          <Link
+                            href={categoryHref(c.category)}
+                            className="truncate pr-2 hover:underline"
+                          >
                             {c.category}
-                          </span>
+                          </Link>
                           <span className="whitespace-nowrap font-mono">
                             {formatCurrency(c.total)}
                           </span>
@@ -8,11 +8,20 @@ import CardContainer from "../CardContainer";
 import SectionHeader from "../SectionHeader";
 import NarrativeSummary from "../NarrativeSummary";
 import FiscalYearSelect from "../FiscalYearSelect";
+import CompareYearsSelect from "../CompareYearsSelect";
+import PerCapitaToggle from "../PerCapitaToggle";
 import DataTable, { DataTableColumn } from "../DataTable";
 import { formatCurrency, formatPercent } from "@/lib/format";
 import { buildDepartmentsNarrative } from "@/lib/narrativeHelpers";
 import { cityHref } from "@/lib/cityRouting";
 import { CITY_CONFIG } from "@/lib/cityConfig";
+import {
+  formatPerCapita,
+  perCapitaDivisor,
+  pickPerCapita,
+  PER_CAPITA_LABELS,
+  type Population,
+} from "@/lib/perCapita";
 
 type DepartmentSummary = {
   department_name: string;
@@ -30,6 +39,7 @@ type Props = {
   enableTransactions: boolean;
   fiscalYearNote?: string;
   searchQuery?: string | null;
+  population?: Population | null;
 };
 
 export default function DepartmentsDashboardClient({
@@ -39,6 +49,7 @@ export default function DepartmentsDashboardClient({
   enableTransactions,
   fiscalYearNote,
   searchQuery: initialSearchQuery,
+  population = null,
 }: Props) {
   const searchParams = useSearchParams();
 
@@ -129,6 +140,26 @@ export default function DepartmentsDashboardClient({
   const execPct = totalBudget === 0 ? 0 : Math.min((totalActuals / totalBudget) * 100, 999);
   const totalTx = summaries.reduce((sum, d) => sum + d.txCount, 0);
 
+  // Per-resident or per-household view (?per=); percentages and counts are unchanged
+  const basis = pickPerCapita(searchParams.get("per") ?? undefined);
+  const divisor = perCapitaDivisor(population, selectedYear, basis);
+  const formatAmount = divisor ? formatPerCapita : formatCurrency;
+  const amountSuffix = divisor ? ` ${PER_CAPITA_LABELS[basis].toLowerCase()}` : "";
+  const shown = (amount: number) => (divisor ? amount / divisor : amount);
+
+  const shownSummaries: DepartmentSummary[] = useMemo(
+    () =>
+      divisor
+        ? filteredSummaries.map((d) => ({
+            ...d,
+            budget: d.budget / divisor,
+            actuals: d.actuals / divisor,
+            variance: d.variance / divisor,
+          }))
+        : filteredSummaries,
+    [filteredSummaries, divisor]
+  );
+
   const baseColumns: DataTableColumn<DepartmentSummary>[] = useMemo(
     () => [
       {
@@ -148,21 +179,21 @@ export default function DepartmentsDashboardClient({
       },
       {
         key: "budget",
-        header: "Budget",
+        header: `Budget${amountSuffix}`,
         sortable: true,
         sortAccessor: (row) => row.budget,
         headerClassName: "text-right",
         cellClassName: "text-right font-mono",
-        cell: (dept: DepartmentSummary) => formatCurrency(dept.budget),
+        cell: (dept: DepartmentSummary) => formatAmount(dept.budget),
       },
       {
         key: "actuals",
-        header: "Actuals",
+        header: `Actuals${amountSuffix}`,
         sortable: true,
         sortAccessor: (row) => row.actuals,
         headerClassName: "text-right",
         cellClassName: "text-right font-mono",
-        cell: (dept: DepartmentSummary) => formatCurrency(dept.actuals),
+        cell: (dept: DepartmentSummary) => formatAmount(dept.actuals),
       },
       {
         key: "percentSpent",
@@ -184,7 +215,7 @@ export default function DepartmentsDashboardClient({
           const v = dept.variance;
           const color =
             v > 0 ? "text-red-700" : v < 0 ? "text-emerald-700" : "text-slate-700";
-          return <span className={color}>{formatCurrency(v)}</span>;
+          return <span className={color}>{formatAmount(v)}</span>;
         },
       },
       {
@@ -197,7 +228,7 @@ export default function DepartmentsDashboardClient({
         cell: (dept: DepartmentSummary) => dept.txCount.toLocaleString("en-US"),
       },
     ],
-    [yearParam]
+    [yearParam, formatAmount, amountSuffix]
   );
 
   const columns = useMemo(() => {
@@ -236,8 +267,9 @@ export default function DepartmentsDashboardClient({
       enableActuals: hasActuals,
       enableTransactions,
       totalTxCount: totalTx,
+      population: selectedYear ? population?.byYear[selectedYear]?.population ?? null : null,
     });
-  }, [summaries, selectedYear, deptCount, totalBudget, totalActuals, totalTx, hasActuals, enableTransactions]);
+  }, [summaries, selectedYear, deptCount, totalBudget, totalActuals, totalTx, hasActuals, enableTransactions, population]);
 
   return (
     <div id="main-content" className="min-h-screen bg-slate-50">
@@ -249,7 +281,10 @@ export default function DepartmentsDashboardClient({
   fiscalNote={fiscalYearNote}
   rightSlot={
     years.length > 0 ? (
-      <FiscalYearSelect options={years} label="Fiscal year" />
+      <div className="flex flex-col items-end gap-2">
+        <FiscalYearSelect options={years} label="Fiscal year" />
+        <CompareYearsSelect options={years} />
+      </div>
     ) : null
   }
 />
@@ -287,6 +322,9 @@ export default function DepartmentsDashboardClient({
                     "No fiscal years available yet."
                   )}
                 </div>
+                {selectedYear && (
+                  <PerCapitaToggle population={population} years={[selectedYear]} />
+                )}
               </div>
 
               <section className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
@@ -301,20 +339,20 @@ export default function DepartmentsDashboardClient({
                 </div>
 
                 <div className="rounded-2xl border border-slate-200 bg-slate-50 px-3 py-3">
-                  <div className="text-xs font-semibold uppercase tracking-[0.14em] text-slate-600">Total budget</div>
-                  <div className="mt-1 text-2xl font-bold text-slate-900">{formatCurrency(totalBudget)}</div>
+                  <div className="text-xs font-semibold uppercase tracking-[0.14em] text-slate-600">Total budget{amountSuffix}</div>
+                  <div className="mt-1 text-2xl font-bold text-slate-900">{formatAmount(shown(totalBudget))}</div>
                   <div className="mt-1 text-sm text-slate-600">Sum of department-level adopted budgets.</div>
                 </div>
 
                 <div className="rounded-2xl border border-slate-200 bg-slate-50 px-3 py-3">
-                  <div className="text-xs font-semibold uppercase tracking-[0.14em] text-slate-600">Total actuals</div>
-                  <div className="mt-1 text-2xl font-bold text-slate-900">{formatCurrency(totalActuals)}</div>
+                  <div className="text-xs font-semibold uppercase tracking-[0.14em] text-slate-600">Total actuals{amountSuffix}</div>
+                  <div className="mt-1 text-2xl font-bold text-slate-900">{formatAmount(shown(totalActuals))}</div>
                   <div className="mt-1 text-sm text-slate-600">All recorded spending for these departments.</div>
                 </div>
 
                 <div className="rounded-2xl border border-slate-200 bg-slate-50 px-3 py-3">
                   <div className="text-xs font-semibold uppercase tracking-[0.14em] text-slate-600">
-                    Variance (actuals - budget)
+                    Variance (actuals - budget){amountSuffix}
                   </div>
                   <div
                     className={
@@ -322,7 +360,7 @@ export default function DepartmentsDashboardClient({
                       (variance < 0 ? "text-emerald-700" : variance > 0 ? "text-red-700" : "text-slate-900")
                     }
                   >
-                    {formatCurrency(variance)}
+                    {formatAmount(shown(variance))}
                   </div>
                   <div className="mt-1 text-sm text-slate-600">
                     Negative means departments are under budget overall.
@@ -370,7 +408,7 @@ export default function DepartmentsDashboardClient({
                   </div>
                 )}
                 <DataTable<DepartmentSummary>
-                  data={filteredSummaries}
+                  data={shownSummaries}
                   columns={columns}
                   initialSortKey="budget"
                   initialSortDirection="desc"
@@ -5,8 +5,14 @@ import { useState, useMemo, useCallback, useRef, useEffect } from "react";
 import SectionHeader from "../SectionHeader";
 import { CITY_CONFIG } from "@/lib/cityConfig";
 import { downloadFile } from "@/lib/downloadFile";
+import { EXPORT_ROW_LIMIT, EXPORT_STOP_PREFIX, EXPORT_TRUNCATED_HEADER } from "@/lib/exportStream";
+import { EXPORT_FORMATS, PARQUET_ROW_LIMIT, pickExportFormat, type ExportFormat } from "@/lib/exportFormats";
 
-const MAX_EXPORT_ROWS = 50_000;
+const SELECT_CLASS =
+  "rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm transition focus:border-slate-500 focus:outline-none focus:ring-1 focus:ring-slate-500";
+
+const DOWNLOAD_BUTTON_CLASS =
+  "inline-flex items-center justify-center gap-2 rounded-xl bg-slate-900 px-5 py-2.5 text-sm font-semibold text-white shadow-sm transition hover:bg-slate-800 focus:outline-none focus-visible:ring-2 focus-visible:ring-slate-500 focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50";
 
 type Props = {
   years: number[];
@@ -276,7 +282,7 @@ type DownloadCardProps = {
   revenueSources: string[];
   enableVendors: boolean;
   isLoading: boolean;
-  onDownload: () => void;
+  onDownload: (format: ExportFormat) => void;
   baseRecordCount: number;
 };
 
@@ -294,6 +300,7 @@ function DownloadCard({
   baseRecordCount,
 }: DownloadCardProps) {
   const [isExpanded, setIsExpanded] = useState(true);
+  const [format, setFormat] = useState<ExportFormat>("csv");
   const [filteredCount, setFilteredCount] = useState<number | null>(null);
   const [isCountLoading, setIsCountLoading] = useState(false);
 
@@ -349,7 +356,8 @@ function DownloadCard({
 
   // The actual count to display
   const displayCount = hasActiveFilters ? filteredCount : baseRecordCount;
-  const isOverLimit = displayCount !== null && displayCount > MAX_EXPORT_ROWS;
+  const { rowLimit } = EXPORT_FORMATS[format];
+  const isOverLimit = displayCount !== null && displayCount > rowLimit;
 
   // Count active filters for badge
   const activeFilterCount = useMemo(() => {
@@ -622,11 +630,11 @@ function DownloadCard({
               </div>
               <div className="flex-1 text-sm">
                 <p className="font-medium text-amber-800">
-                  Export limit exceeded
+                  Export will be cut short
                 </p>
                 <p className="mt-1 text-amber-700">
-                  Your selection contains {displayCount?.toLocaleString()} records, but exports are limited to {MAX_EXPORT_ROWS.toLocaleString()} records. 
-                  Please add filters (e.g., select specific fiscal years or departments) to reduce the dataset.
+                  Your selection contains {displayCount?.toLocaleString()} records. A single {EXPORT_FORMATS[format].label} download is limited to {rowLimit.toLocaleString()} records,
+                  so add filters (e.g., select specific fiscal years, departments or date ranges) and download each part to get everything.
                 </p>
               </div>
             </div>
@@ -664,7 +672,7 @@ function DownloadCard({
                     </span>
                     {" "}records {hasActiveFilters ? "match your filters" : "available"}
                     {isOverLimit && (
-                      <span className="text-amber-600"> (limit: {MAX_EXPORT_ROWS.toLocaleString()})</span>
+                      <span className="text-amber-600"> (limit: {rowLimit.toLocaleString()})</span>
                     )}
                   </span>
                 </>
@@ -673,27 +681,44 @@ function DownloadCard({
               )}
             </div>
 
-            <button
-              type="button"
-              onClick={onDownload}
-              disabled={isLoading || displayCount === 0 || isOverLimit}
-              className="inline-flex items-center justify-center gap-2 rounded-xl bg-slate-900 px-5 py-2.5 text-sm font-semibold text-white shadow-sm transition hover:bg-slate-800 focus:outline-none focus-visible:ring-2 focus-visible:ring-slate-500 focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
-            >
-              {isLoading ? (
-                <>
-                  <svg className="h-4 w-4 animate-spin" viewBox="0 0 24 24" fill="none">
-                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
-                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
-                  </svg>
-                  <span>Preparing...</span>
-                </>
-              ) : (
-                <>
-                  {Icons.download}
-                  <span>Download CSV</span>
-                </>
-              )}
-            </button>
+            <div className="flex items-center gap-2">
+              <label htmlFor={`${config.id}-format`} className="sr-only">
+                File format
+              </label>
+              <select
+                id={`${config.id}-format`}
+                value={format}
+                onChange={(e) => setFormat(pickExportFormat(e.target.value))}
+                className={SELECT_CLASS}
+              >
+                {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((f) => (
+                  <option key={f} value={f}>
+                    {EXPORT_FORMATS[f].label}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={() => onDownload(format)}
+                disabled={isLoading || displayCount === 0}
+                className={DOWNLOAD_BUTTON_CLASS}
+              >
+                {isLoading ? (
+                  <>
+                    <svg className="h-4 w-4 animate-spin" viewBox="0 0 24 24" fill="none">
+                      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+                      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
+                    </svg>
+                    <span>Preparing...</span>
+                  </>
+                ) : (
+                  <>
+                    {Icons.download}
+                    <span>Download</span>
+                  </>
+                )}
+              </button>
+            </div>
           </div>
         </div>
       )}
@@ -728,25 +753,23 @@ export default function DownloadCenterClient({
 
   const [loadingType, setLoadingType] = useState<string | null>(null);
   const [downloadSuccess, setDownloadSuccess] = useState<string | null>(null);
+  // Set when the server stopped an export early: at the row limit or
+  // the time limit
+  const [truncatedExport, setTruncatedExport] = useState<string | null>(null);
 
-  const handleDownload = useCallback(async (
-    dataType: string,
-    filters: FilterState
+  // Fetches an export and saves it; `key` marks which card is loading
+  const runDownload = useCallback(async (
+    key: string,
+    label: string,
+    url: string,
+    fallbackFilename: string
   ) => {
-    setLoadingType(dataType);
+    setLoadingType(key);
     setDownloadSuccess(null);
+    setTruncatedExport(null);
 
     try {
-      const params = new URLSearchParams();
-      
-      if (filters.years.length > 0) params.set("years", filters.years.join(","));
-      if (filters.departments.length > 0) params.set("departments", filters.departments.join(","));
-      if (filters.vendors.length > 0) params.set("vendors", filters.vendors.join(","));
-      if (filters.sources.length > 0) params.set("sources", filters.sources.join(","));
-      if (filters.startDate) params.set("startDate", filters.startDate);
-      if (filters.endDate) params.set("endDate", filters.endDate);
-
-      const response = await fetch(`/api/export/${dataType}?${params.toString()}`);
+      const response = await fetch(url);
       
       if (!response.ok) {
         const error = await response.json();
@@ -757,11 +780,17 @@ export default function DownloadCenterClient({
 
       const contentDisposition = response.headers.get("Content-Disposition");
       const filenameMatch = contentDisposition?.match(/filename="(.+)"/);
-      const filename = filenameMatch?.[1] || `${dataType}_export.csv`;
+      const filename = filenameMatch?.[1] || fallbackFilename;
 
       downloadFile(blob, filename);
 
-      setDownloadSuccess(dataType);
+      // A stop found mid-download can't change the headers; text
+      // formats end with a notice line instead
+      const tail = await blob.slice(-1024).text();
+      if (response.headers.get(EXPORT_TRUNCATED_HEADER) || tail.includes(EXPORT_STOP_PREFIX)) {
+        setTruncatedExport(label);
+      }
+      setDownloadSuccess(key);
       setTimeout(() => setDownloadSuccess(null), 3000);
     } catch (error) {
       console.error("Download error:", error);
@@ -771,6 +800,43 @@ export default function DownloadCenterClient({
     }
   }, []);
 
+  const handleDownload = useCallback((
+    dataType: string,
+    title: string,
+    filters: FilterState,
+    format: ExportFormat
+  ) => {
+    const params = new URLSearchParams();
+    
+    if (filters.years.length > 0) params.set("years", filters.years.join(","));
+    if (filters.departments.length > 0) params.set("departments", filters.departments.join(","));
+    if (filters.vendors.length > 0) params.set("vendors", filters.vendors.join(","));
+    if (filters.sources.length > 0) params.set("sources", filters.sources.join(","));
+    if (filters.startDate) params.set("startDate", filters.startDate);
+    if (filters.endDate) params.set("endDate", filters.endDate);
+    if (format !== "csv") params.set("format", format);
+
+    return runDownload(
+      dataType,
+      title,
+      `/api/export/${dataType}?${params.toString()}`,
+      `${dataType}_export.${EXPORT_FORMATS[format].extension}`
+    );
+  }, [runDownload]);
+
+  // Everything for one fiscal year as a zip
+  const [bundleYear, setBundleYear] = useState<string>(years[0] ? String(years[0]) : "");
+
+  const handleBundleDownload = useCallback(() => {
+    if (!bundleYear) return;
+    return runDownload(
+      "bundle",
+      `FY${bundleYear} bundle`,
+      `/api/export/bundle?year=${encodeURIComponent(bundleYear)}`,
+      `FY${bundleYear}_all-data.zip`
+    );
+  }, [bundleYear, runDownload]);
+
   const accentColor =
     CITY_CONFIG.accentColor || CITY_CONFIG.primaryColor || undefined;
 
@@ -851,7 +917,7 @@ export default function DownloadCenterClient({
       <SectionHeader
         eyebrow="Data Access"
         title="Download Center"
-        description="Export financial data for reporting, analysis, or compliance. Select your filters and download as CSV."
+        description="Export financial data for reporting, analysis, or compliance. Select your filters and choose a file format."
         accentColor={accentColor}
       />
 
@@ -867,7 +933,9 @@ export default function DownloadCenterClient({
             </h2>
             <p className="mt-1 text-sm leading-relaxed text-slate-600">
               Choose from the available data types below. Use multi-select filters to combine 
-              multiple fiscal years, departments, vendors, or date ranges. Downloads are limited to {MAX_EXPORT_ROWS.toLocaleString()} records per export — use filters to narrow large datasets.
+              multiple fiscal years, departments, vendors, or date ranges, then download as CSV, Excel,
+              JSON lines, or Parquet, or grab a whole fiscal year as one zip. Large exports stream as
+              they are read, so a full multi-year download may take a minute.
             </p>
             <div className="mt-4 flex flex-wrap gap-3">
               {dataTypes.map((dt) => (
@@ -876,7 +944,7 @@ export default function DownloadCenterClient({
                   className="inline-flex items-center gap-1.5 rounded-full bg-white px-3 py-1.5 text-xs font-medium text-slate-700 shadow-sm ring-1 ring-slate-200"
                 >
                   <span className={`h-1.5 w-1.5 rounded-full ${
-                    dt.baseRecordCount > MAX_EXPORT_ROWS ? "bg-amber-500" : "bg-emerald-500"
+                    dt.baseRecordCount > EXPORT_ROW_LIMIT ? "bg-amber-500" : "bg-emerald-500"
                   }`} />
                   {dt.title}
                   <span className="text-slate-400">({dt.baseRecordCount.toLocaleString()})</span>
@@ -899,6 +967,32 @@ export default function DownloadCenterClient({
         </div>
       )}
 
+      {/* Truncation notice, only when the server stopped an export early */}
+      {truncatedExport && (
+        <div
+          role="alert"
+          className="flex items-start gap-3 rounded-lg border border-amber-200 bg-amber-50 p-3"
+        >
+          <div className="flex-shrink-0 text-amber-600">{Icons.warning}</div>
+          <div className="flex-1 text-sm">
+            <p className="font-medium text-amber-800">Export was cut short</p>
+            <p className="mt-1 text-amber-700">
+              Your {truncatedExport} download stopped before the last record: a download holds at
+              most {EXPORT_ROW_LIMIT.toLocaleString()} records per table ({PARQUET_ROW_LIMIT.toLocaleString()} for
+              Parquet) and must finish within a few minutes. The file ends with a note saying how far it got. Add filters and download the
+              rest separately.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={() => setTruncatedExport(null)}
+            className="text-sm font-medium text-amber-800 underline-offset-2 hover:underline"
+          >
+            Dismiss
+          </button>
+        </div>
+      )}
+
       {/* Data Type Cards */}
       <div className="space-y-4">
         {dataTypes.map((dt) => (
@@ -918,12 +1012,58 @@ export default function DownloadCenterClient({
             revenueSources={revenueSources}
             enableVendors={enableVendors}
             isLoading={loadingType === dt.id}
-            onDownload={() => handleDownload(dt.id, dt.filters)}
+            onDownload={(format) => handleDownload(dt.id, dt.title, dt.filters, format)}
             baseRecordCount={dt.baseRecordCount}
           />
         ))}
       </div>
 
+      {/* Whole fiscal year as one zip */}
+      {years.length > 0 && (
+        <div className="rounded-2xl border border-slate-200 bg-white px-5 py-4 shadow-sm">
+          <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+            <div className="flex items-center gap-4">
+              <div className="flex h-12 w-12 items-center justify-center rounded-xl bg-slate-100 text-slate-600">
+                {Icons.download}
+              </div>
+              <div>
+                <h3 className="text-base font-semibold text-slate-900">Download everything</h3>
+                <p className="mt-0.5 text-sm text-slate-500">
+                  Every published table for one fiscal year as CSV files in a zip, with a
+                  README describing each column.
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <label htmlFor="bundle-year" className="sr-only">
+                Fiscal year
+              </label>
+              <select
+                id="bundle-year"
+                value={bundleYear}
+                onChange={(e) => setBundleYear(e.target.value)}
+                className={SELECT_CLASS}
+              >
+                {years.map((y) => (
+                  <option key={y} value={String(y)}>
+                    FY{y}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={handleBundleDownload}
+                disabled={loadingType === "bundle" || !bundleYear}
+                className={DOWNLOAD_BUTTON_CLASS}
+              >
+                {Icons.download}
+                <span>{loadingType === "bundle" ? "Preparing..." : "Download zip"}</span>
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Footer Note */}
       <div className="rounded-xl border border-slate-200 bg-slate-50 p-4">
         <div className="flex gap-3">
@@ -931,8 +1071,9 @@ export default function DownloadCenterClient({
             <path strokeLinecap="round" strokeLinejoin="round" d="M11.25 11.25l.041-.02a.75.75 0 011.063.852l-.708 2.836a.75.75 0 001.063.853l.041-.021M21 12a9 9 0 11-18 0 9 9 0 0118 0zm-9-3.75h.008v.008H12V8.25z" />
           </svg>
           <p className="text-sm text-slate-600">
-            Downloads are limited to {MAX_EXPORT_ROWS.toLocaleString()} records per export. 
-            For larger datasets, use the filters above to narrow by fiscal year, department, or date range.
+            Each export includes every matching record, up to a hard limit of {EXPORT_ROW_LIMIT.toLocaleString()} records
+            ({PARQUET_ROW_LIMIT.toLocaleString()} for Parquet) and a few minutes per download; a download that reaches either limit ends with a note saying where it stopped.
+            For larger histories, such as several years of transactions, download one fiscal year or date range at a time.
           </p>
         </div>
       </div>
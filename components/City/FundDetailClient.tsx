@@ -0,0 +1,420 @@
+"use client";
+
+import { useMemo } from "react";
+import Link from "next/link";
+import {
+  ComposedChart,
+  LineChart,
+  Line,
+  Bar,
+  XAxis,
+  YAxis,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  CartesianGrid,
+  ReferenceLine,
+} from "recharts";
+import CardContainer from "../CardContainer";
+import SectionHeader from "../SectionHeader";
+import FiscalYearSelect from "../FiscalYearSelect";
+import DollarsToggle from "../DollarsToggle";
+import DataTable, { DataTableColumn } from "../DataTable";
+import { formatCurrency, formatCurrencyCompact, formatPercent } from "@/lib/format";
+import { cityHref } from "@/lib/cityRouting";
+import { CITY_CONFIG } from "@/lib/cityConfig";
+import type { FundBalancePoint, FundYearDeptRow } from "@/lib/funds";
+import type { Deflator } from "@/lib/inflation";
+
+type YearTotalsRow = {
+  year: number;
+  Budget: number;
+  Actuals: number;
+  Variance: number;
+};
+
+type Props = {
+  fundName: string;
+  description?: string | null; // from the funds registry
+  years: number[];
+  selectedYear: number | null;
+  departments: FundYearDeptRow[]; // selected-year rows for this fund
+  yearTotals: YearTotalsRow[];
+  balanceTrend: FundBalancePoint[]; // empty when revenues are disabled
+  revenueTotal: number | null; // selected year; null when revenues are disabled
+  deflator?: Deflator | null; // set when yearTotals are in constant dollars
+};
+
+type DepartmentSummary = {
+  department_name: string;
+  budget: number;
+  actuals: number;
+  percentSpent: number;
+};
+
+export default function FundDetailClient({
+  fundName,
+  description,
+  years,
+  selectedYear,
+  departments,
+  yearTotals,
+  balanceTrend,
+  revenueTotal,
+  deflator = null,
+}: Props) {
+  const accentColor =
+    CITY_CONFIG.accentColor || CITY_CONFIG.primaryColor || undefined;
+
+  const departmentSummaries: DepartmentSummary[] = useMemo(
+    () =>
+      departments.map((d) => {
+        const budget = Number(d.budget_amount || 0);
+        const actuals = Number(d.actual_amount || 0);
+        return {
+          department_name: d.department_name || "Unspecified",
+          budget,
+          actuals,
+          percentSpent: budget > 0 ? (actuals / budget) * 100 : 0,
+        };
+      }),
+    [departments]
+  );
+
+  const totalBudget = departmentSummaries.reduce((sum, d) => sum + d.budget, 0);
+  const totalActuals = departmentSummaries.reduce((sum, d) => sum + d.actuals, 0);
+  const execPct = totalBudget > 0 ? (totalActuals / totalBudget) * 100 : 0;
+  const latestBalance =
+    balanceTrend.length > 0 ? balanceTrend[balanceTrend.length - 1] : null;
+
+  const columns: DataTableColumn<DepartmentSummary>[] = useMemo(
+    () => [
+      {
+        key: "department_name",
+        header: "Department",
+        sortable: true,
+        sortAccessor: (row) => row.department_name.toLowerCase(),
+        cell: (row) =>
+          row.department_name === "Unspecified" ? (
+            <span className="italic text-slate-600">Unspecified</span>
+          ) : (
+            <Link
+              href={`${cityHref(
+                `/departments/${encodeURIComponent(row.department_name)}`
+              )}${selectedYear ? `?year=${selectedYear}` : ""}`}
+              className="text-slate-800 hover:underline"
+            >
+              {row.department_name}
+            </Link>
+          ),
+      },
+      {
+        key: "budget",
+        header: "Budget",
+        sortable: true,
+        sortAccessor: (row) => row.budget,
+        headerClassName: "text-right",
+        cellClassName: "text-right font-mono",
+        cell: (row) => formatCurrency(row.budget),
+      },
+      {
+        key: "actuals",
+        header: "Actuals",
+        sortable: true,
+        sortAccessor: (row) => row.actuals,
+        headerClassName: "text-right",
+        cellClassName: "text-right font-mono",
+        cell: (row) => formatCurrency(row.actuals),
+      },
+      {
+        key: "percentSpent",
+        header: "% spent",
+        sortable: true,
+        sortAccessor: (row) => row.percentSpent,
+        headerClassName: "text-right",
+        cellClassName: "text-right",
+        cell: (row) => (row.budget > 0 ? formatPercent(row.percentSpent) : "–"),
+      },
+    ],
+    [selectedYear]
+  );
+
+  return (
+    <div
+      id="main-content"
+      className="mx-auto max-w-6xl space-y-6 px-3 py-6 sm:px-4 sm:py-8"
+    >
+      <SectionHeader
+        eyebrow="Fund"
+        title={fundName}
+        description={
+          description ||
+          "Budget and actual spending for this fund by department, and how revenues compare with spending over time."
+        }
+        accentColor={accentColor}
+        rightSlot={
+          years.length > 0 ? (
+            <FiscalYearSelect options={years} label="Fiscal year" />
+          ) : null
+        }
+      />
+
+      {/* Breadcrumb */}
+      <nav aria-label="Breadcrumb" className="mb-2 px-1 text-sm text-slate-600">
+        <ol className="flex items-center gap-1">
+          <li>
+            <Link href={cityHref("/overview")} className="hover:text-slate-800">
+              Home
+            </Link>
+          </li>
+          <li aria-hidden="true" className="text-slate-500">
+            ›
+          </li>
+          <li>
+            <Link
+              href={`${cityHref("/funds")}${selectedYear ? `?year=${selectedYear}` : ""}`}
+              className="hover:text-slate-800"
+            >
+              Funds
+            </Link>
+          </li>
+          <li aria-hidden="true" className="text-slate-500">
+            ›
+          </li>
+          <li aria-current="page">
+            <span className="font-medium text-slate-700">{fundName}</span>
+          </li>
+        </ol>
+      </nav>
+
+      {/* Metrics */}
+      <div className="grid gap-4 md:grid-cols-4">
+        <CardContainer>
+          <div className="text-xs font-semibold uppercase tracking-[0.14em] text-slate-600">
+            Budget ({selectedYear ?? "–"})
+          </div>
+          <div className="mt-1 text-2xl font-bold text-slate-900">
+            {formatCurrency(totalBudget)}
+          </div>
+        </CardContainer>
+
+        <CardContainer>
+          <div className="text-xs font-semibold uppercase tracking-[0.14em] text-slate-600">
+            Actuals ({selectedYear ?? "–"})
+          </div>
+          <div className="mt-1 text-2xl font-bold text-slate-900">
+            {formatCurrency(totalActuals)}
+          </div>
+          <div className="mt-1 text-sm text-slate-600">
+            {formatPercent(execPct)} of budget
+          </div>
+        </CardContainer>
+
+        <CardContainer>
+          <div className="text-xs font-semibold uppercase tracking-[0.14em] text-slate-600">
+            {revenueTotal !== null ? `Revenues (${selectedYear ?? "–"})` : "Departments"}
+          </div>
+          <div className="mt-1 text-2xl font-bold text-slate-900">
+            {revenueTotal !== null
+              ? formatCurrency(revenueTotal)
+              : departmentSummaries.length.toLocaleString("en-US")}
+          </div>
+        </CardContainer>
+
+        <CardContainer>
+          <div className="text-xs font-semibold uppercase tracking-[0.14em] text-slate-600">
+            Change in fund balance
+          </div>
+          <div className="mt-1 text-2xl font-bold text-slate-900">
+            {latestBalance ? formatCurrency(latestBalance.cumulative) : "–"}
+          </div>
+          {latestBalance && balanceTrend.length > 1 && (
+            <div className="mt-1 text-sm text-slate-600">
+              Since FY{balanceTrend[0].year}
+            </div>
+          )}
+        </CardContainer>
+      </div>
+
+      {/* Multi-year budget vs actual */}
+      <CardContainer>
+        <figure
+          role="group"
+          aria-labelledby="fund-years-heading"
+          aria-describedby="fund-years-desc"
+          className="space-y-3"
+        >
+          <div className="flex flex-wrap items-start justify-between gap-3">
+            <div>
+              <h2 id="fund-years-heading" className="text-sm font-semibold text-slate-800">
+                Budget vs. actual by fiscal year
+              </h2>
+              <p id="fund-years-desc" className="text-sm text-slate-600">
+                The fund&apos;s adopted budget and actual spending in every
+                fiscal year loaded.
+              </p>
+            </div>
+            {yearTotals.length > 1 && (
+              <DollarsToggle
+                baseYear={Math.max(...yearTotals.map((r) => r.year))}
+                deflator={deflator}
+              />
+            )}
+          </div>
+
+          {yearTotals.length === 0 ? (
+            <p className="text-sm text-slate-600">
+              No budget or spending has been loaded for this fund.
+            </p>
+          ) : (
+            <div className="h-56 w-full min-w-0 overflow-hidden sm:h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={yearTotals} margin={{ top: 10, right: 30, left: 10, bottom: 20 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                  <XAxis dataKey="year" tickLine={false} axisLine={false} />
+                  <YAxis
+                    tickFormatter={(v) => formatCurrencyCompact(Number(v))}
+                    tickLine={false}
+                    axisLine={false}
+                  />
+                  <Tooltip
+                    labelFormatter={(label) => `Fiscal year ${label}`}
+                    formatter={(value, name) => [
+                      formatCurrency(Number(value ?? 0)),
+                      String(name ?? ""),
+                    ]}
+                  />
+                  <Legend verticalAlign="top" align="right" wrapperStyle={{ fontSize: 11 }} />
+                  <Line type="monotone" dataKey="Budget" dot={false} strokeWidth={2} stroke="#0f172a" />
+                  <Line type="monotone" dataKey="Actuals" dot={false} strokeWidth={2} stroke="#10b981" />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+        </figure>
+      </CardContainer>
+
+      {/* Fund balance trend */}
+      <CardContainer>
+        <figure
+          role="group"
+          aria-labelledby="fund-balance-heading"
+          aria-describedby="fund-balance-desc"
+          className="space-y-3"
+        >
+          <div>
+            <h2 id="fund-balance-heading" className="text-sm font-semibold text-slate-800">
+              Fund balance trend
+            </h2>
+            <p id="fund-balance-desc" className="text-sm text-slate-600">
+              Revenues less spending each fiscal year (bars) and the running
+              change in fund balance since the first year loaded (line). The
+              portal doesn&apos;t hold opening balances, so this shows how
+              the balance moved rather than its level.
+            </p>
+          </div>
+
+          {balanceTrend.length === 0 ? (
+            <p className="text-sm text-slate-600">
+              {revenueTotal === null
+                ? "The fund balance trend needs revenue data, which this portal doesn't publish."
+                : "No revenues or spending have been loaded for this fund."}
+            </p>
+          ) : (
+            <>
+              <div className="h-56 w-full min-w-0 overflow-hidden sm:h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <ComposedChart data={balanceTrend} margin={{ top: 10, right: 30, left: 10, bottom: 20 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                    <XAxis dataKey="year" tickLine={false} axisLine={false} />
+                    <YAxis
+                      tickFormatter={(v) => formatCurrencyCompact(Number(v))}
+                      tickLine={false}
+                      axisLine={false}
+                    />
+                    <Tooltip
+                      labelFormatter={(label) => `Fiscal year ${label}`}
+                      formatter={(value, name) => [
+                        formatCurrency(Number(value ?? 0)),
+                        String(name ?? ""),
+                      ]}
+                    />
+                    <Legend verticalAlign="top" align="right" wrapperStyle={{ fontSize: 11 }} />
+                    <ReferenceLine y={0} stroke="#94a3b8" />
+                    <Bar dataKey="net" name="Net for the year" fill="#0f766e" radius={[4, 4, 0, 0]} />
+                    <Line
+                      type="monotone"
+                      dataKey="cumulative"
+                      name="Change since first year"
+                      strokeWidth={2}
+                      stroke="#0f172a"
+                    />
+                  </ComposedChart>
+                </ResponsiveContainer>
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="min-w-full border border-slate-200 text-sm">
+                  <thead className="bg-slate-50 text-xs font-semibold uppercase tracking-wide text-slate-600">
+                    <tr>
+                      <th scope="col" className="px-3 py-2 text-left">Fiscal year</th>
+                      <th scope="col" className="px-3 py-2 text-right">Revenues</th>
+                      <th scope="col" className="px-3 py-2 text-right">Actuals</th>
+                      <th scope="col" className="px-3 py-2 text-right">Net</th>
+                      <th scope="col" className="px-3 py-2 text-right">Change since first year</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {balanceTrend.map((row) => (
+                      <tr key={row.year} className="border-t border-slate-200">
+                        <th scope="row" className="px-3 py-2 text-left font-medium text-slate-800">
+                          {row.year}
+                        </th>
+                        <td className="px-3 py-2 text-right text-slate-700">
+                          {formatCurrency(row.revenues)}
+                        </td>
+                        <td className="px-3 py-2 text-right text-slate-700">
+                          {formatCurrency(row.actuals)}
+                        </td>
+                        <td className="px-3 py-2 text-right text-slate-700">
+                          {formatCurrency(row.net)}
+                        </td>
+                        <td className="px-3 py-2 text-right text-slate-700">
+                          {formatCurrency(row.cumulative)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </figure>
+      </CardContainer>
+
+      {/* Departments in the fund */}
+      <CardContainer>
+        <section aria-labelledby="fund-departments-heading" className="space-y-3">
+          <h2 id="fund-departments-heading" className="text-sm font-semibold text-slate-800">
+            Departments in this fund ({selectedYear ?? "–"})
+          </h2>
+          {departmentSummaries.length === 0 ? (
+            <p className="text-sm text-slate-600">
+              No departments have budget or spending in this fund for the
+              selected fiscal year.
+            </p>
+          ) : (
+            <DataTable<DepartmentSummary>
+              data={departmentSummaries}
+              columns={columns}
+              initialSortKey="budget"
+              initialSortDirection="desc"
+              getRowKey={(row) => row.department_name}
+              caption={`Budget and actuals by department in ${fundName}`}
+            />
+          )}
+        </section>
+      </CardContainer>
+    </div>
+  );
+}
@@ -0,0 +1,287 @@
+"use client";
+
+import { useMemo } from "react";
+import Link from "next/link";
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  CartesianGrid,
+} from "recharts";
+import CardContainer from "../CardContainer";
+import SectionHeader from "../SectionHeader";
+import FiscalYearSelect from "../FiscalYearSelect";
+import DataTable, { DataTableColumn } from "../DataTable";
+import { formatCurrency, formatCurrencyCompact, formatPercent } from "@/lib/format";
+import { cityHref } from "@/lib/cityRouting";
+import { CITY_CONFIG } from "@/lib/cityConfig";
+import type { FundSummary } from "@/lib/funds";
+
+type Props = {
+  years: number[];
+  selectedYear: number | null;
+  funds: FundSummary[]; // selected-year fund summaries
+  enableRevenues: boolean;
+  fiscalYearNote?: string;
+};
+
+// Funds charted side by side before the rest are left to the table
+const MAX_CHART_FUNDS = 12;
+
+function fundHref(name: string, year: number | null): string {
+  const href = cityHref(`/funds/${encodeURIComponent(name)}`);
+  return year ? `${href}?year=${year}` : href;
+}
+
+export default function FundsDashboardClient({
+  years,
+  selectedYear,
+  funds,
+  enableRevenues,
+  fiscalYearNote,
+}: Props) {
+  const accentColor =
+    CITY_CONFIG.accentColor || CITY_CONFIG.primaryColor || undefined;
+
+  const totalBudget = funds.reduce((sum, f) => sum + f.budget, 0);
+  const totalActuals = funds.reduce((sum, f) => sum + f.actuals, 0);
+  const totalRevenues = funds.reduce((sum, f) => sum + f.revenues, 0);
+  const execPct = totalBudget > 0 ? (totalActuals / totalBudget) * 100 : 0;
+
+  const chartData = useMemo(
+    () =>
+      funds.slice(0, MAX_CHART_FUNDS).map((f) => ({
+        name: f.fund_name,
+        Budget: f.budget,
+        Actuals: f.actuals,
+      })),
+    [funds]
+  );
+
+  const columns: DataTableColumn<FundSummary>[] = useMemo(() => {
+    const cols: DataTableColumn<FundSummary>[] = [
+      {
+        key: "fund_name",
+        header: "Fund",
+        sortable: true,
+        sortAccessor: (row) => row.fund_name.toLowerCase(),
+        cell: (row) => (
+          <Link
+            href={fundHref(row.fund_name, selectedYear)}
+            className="font-medium text-slate-800 hover:underline"
+          >
+            {row.fund_name}
+          </Link>
+        ),
+      },
+      {
+        key: "budget",
+        header: "Budget",
+        sortable: true,
+        sortAccessor: (row) => row.budget,
+        headerClassName: "text-right",
+        cellClassName: "text-right font-mono",
+        cell: (row) => formatCurrency(row.budget),
+      },
+      {
+        key: "actuals",
+        header: "Actuals",
+        sortable: true,
+        sortAccessor: (row) => row.actuals,
+        headerClassName: "text-right",
+        cellClassName: "text-right font-mono",
+        cell: (row) => formatCurrency(row.actuals),
+      },
+      {
+        key: "percentSpent",
+        header: "% spent",
+        sortable: true,
+        sortAccessor: (row) => row.percentSpent,
+        headerClassName: "text-right",
+        cellClassName: "text-right",
+        cell: (row) => (row.budget > 0 ? formatPercent(row.percentSpent) : "–"),
+      },
+    ];
+
+    if (enableRevenues) {
+      cols.push({
+        key: "revenues",
+        header: "Revenues",
+        sortable: true,
+        sortAccessor: (row) => row.revenues,
+        headerClassName: "text-right",
+        cellClassName: "text-right font-mono",
+        cell: (row) => formatCurrency(row.revenues),
+      });
+    }
+
+    cols.push({
+      key: "departmentCount",
+      header: "Departments",
+      sortable: true,
+      sortAccessor: (row) => row.departmentCount,
+      headerClassName: "text-right",
+      cellClassName: "text-right",
+      cell: (row) => row.departmentCount.toLocaleString("en-US"),
+    });
+
+    return cols;
+  }, [enableRevenues, selectedYear]);
+
+  return (
+    <div
+      id="main-content"
+      className="mx-auto max-w-6xl space-y-6 px-3 py-6 sm:px-4 sm:py-8"
+    >
+      <SectionHeader
+        eyebrow="Funds"
+        title="Fund overview"
+        description="Budget and actual spending for each fund, the way the city's finances are reported. Select a fund for its departments and multi-year history."
+        fiscalNote={fiscalYearNote}
+        accentColor={accentColor}
+        rightSlot={
+          years.length > 0 ? (
+            <FiscalYearSelect options={years} label="Fiscal year" />
+          ) : null
+        }
+      />
+
+      <nav aria-label="Breadcrumb" className="mb-2 px-1 text-sm text-slate-600">
+        <ol className="flex items-center gap-1">
+          <li>
+            <Link href={cityHref("/overview")} className="hover:text-slate-800">
+              Home
+            </Link>
+          </li>
+          <li aria-hidden="true" className="text-slate-500">
+            ›
+          </li>
+          <li aria-current="page">
+            <span className="font-medium text-slate-700">Funds</span>
+          </li>
+        </ol>
+      </nav>
+
+      {/* Metrics */}
+      <div className="grid gap-4 md:grid-cols-4">
+        <CardContainer>
+          <div className="text-xs font-semibold uppercase tracking-[0.14em] text-slate-600">
+            Funds
+          </div>
+          <div className="mt-1 text-2xl font-bold text-slate-900">
+            {funds.length.toLocaleString("en-US")}
+          </div>
+        </CardContainer>
+
+        <CardContainer>
+          <div className="text-xs font-semibold uppercase tracking-[0.14em] text-slate-600">
+            Total budget
+          </div>
+          <div className="mt-1 text-2xl font-bold text-slate-900">
+            {formatCurrency(totalBudget)}
+          </div>
+        </CardContainer>
+
+        <CardContainer>
+          <div className="text-xs font-semibold uppercase tracking-[0.14em] text-slate-600">
+            Total actuals
+          </div>
+          <div className="mt-1 text-2xl font-bold text-slate-900">
+            {formatCurrency(totalActuals)}
+          </div>
+          <div className="mt-1 text-sm text-slate-600">
+            {formatPercent(execPct)} of budget
+          </div>
+        </CardContainer>
+
+        <CardContainer>
+          <div className="text-xs font-semibold uppercase tracking-[0.14em] text-slate-600">
+            {enableRevenues ? "Total revenues" : "Fiscal year"}
+          </div>
+          <div className="mt-1 text-2xl font-bold text-slate-900">
+            {enableRevenues ? formatCurrency(totalRevenues) : selectedYear ?? "–"}
+          </div>
+        </CardContainer>
+      </div>
+
+      {/* Budget vs actual by fund */}
+      <CardContainer>
+        <figure
+          role="group"
+          aria-labelledby="funds-chart-heading"
+          aria-describedby="funds-chart-desc"
+          className="space-y-3"
+        >
+          <div>
+            <h2 id="funds-chart-heading" className="text-sm font-semibold text-slate-800">
+              Budget vs. actual by fund
+            </h2>
+            <p id="funds-chart-desc" className="text-sm text-slate-600">
+              Adopted budget and actual spending in fiscal year{" "}
+              {selectedYear ?? "–"}
+              {funds.length > MAX_CHART_FUNDS
+                ? `, for the ${MAX_CHART_FUNDS} largest funds. Every fund is listed in the table below.`
+                : "."}
+            </p>
+          </div>
+
+          {chartData.length === 0 ? (
+            <p className="text-sm text-slate-600">
+              No fund data is available for this fiscal year.
+            </p>
+          ) : (
+            <div className="h-64 w-full min-w-0 overflow-hidden sm:h-72">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={chartData} margin={{ top: 8, right: 16, left: 0, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                  <XAxis dataKey="name" tickLine={false} axisLine={false} interval={0} />
+                  <YAxis
+                    tickFormatter={(v) => formatCurrencyCompact(Number(v))}
+                    tickLine={false}
+                    axisLine={false}
+                  />
+                  <Tooltip
+                    formatter={(value, name) => [
+                      formatCurrency(Number(value ?? 0)),
+                      String(name ?? ""),
+                    ]}
+                  />
+                  <Legend verticalAlign="top" align="right" wrapperStyle={{ fontSize: 11 }} />
+                  <Bar dataKey="Budget" fill="#0f172a" radius={[4, 4, 0, 0]} />
+                  <Bar dataKey="Actuals" fill="#10b981" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+        </figure>
+      </CardContainer>
+
+      {/* Fund table */}
+      <CardContainer>
+        <section aria-labelledby="funds-table-heading" className="space-y-3">
+          <h2 id="funds-table-heading" className="text-sm font-semibold text-slate-800">
+            All funds
+          </h2>
+          {funds.length === 0 ? (
+            <p className="text-sm text-slate-600">
+              No funds have budget or spending in this fiscal year.
+            </p>
+          ) : (
+            <DataTable<FundSummary>
+              data={funds}
+              columns={columns}
+              initialSortKey="budget"
+              initialSortDirection="desc"
+              getRowKey={(row) => row.fund_name}
+              caption={`Budget and actuals by fund, fiscal year ${selectedYear ?? ""}`}
+            />
+          )}
+        </section>
+      </CardContainer>
+    </div>
+  );
+}
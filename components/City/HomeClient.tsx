@@ -15,9 +15,12 @@ import HomeRevenueSummary from "@/components/City/HomeRevenueSummary";
 import SankeyChart from "@/components/City/SankeyChart";
 import NarrativeSummary from "@/components/NarrativeSummary";
 import InsightsSection from "@/components/City/InsightsSection";
+import HomeForecastCard from "@/components/City/HomeForecastCard";
+import DollarsToggle from "@/components/DollarsToggle";
 import { buildHomeNarrative } from "@/lib/narrativeHelpers";
 import { CITY_CONFIG } from "@/lib/cityConfig";
 import { cityHref } from "@/lib/cityRouting";
+import { withFund } from "@/lib/funds";
 import type {
   PortalSettings,
   VendorYearSummary,
@@ -25,6 +28,13 @@ import type {
 } from "@/lib/queries";
 import type { TransactionRow, RevenueRow } from "@/lib/types";
 import type { Insight } from "@/lib/insights";
+import type { Deflator } from "@/lib/inflation";
+import type { Population } from "@/lib/perCapita";
+import type {
+  DepartmentForecast,
+  RevenueForecast,
+  YearEndForecast,
+} from "@/lib/forecast";
 import { formatCurrency } from "@/lib/format";
 import { getFiscalYearLabel } from "@/lib/fiscalYear";
 
@@ -63,6 +73,14 @@ type Props = {
   revenueTotal?: number | null;
   dataFreshness?: DataFreshnessSummary;
   insights?: Insight[];
+  fundName?: string | null; // portal-wide fund filter, null = all funds
+  // Year-end projections; left out under a fund filter
+  spendingForecast?: YearEndForecast | null;
+  departmentForecasts?: DepartmentForecast[];
+  revenueForecast?: RevenueForecast | null;
+  // Set when yearTotals are in constant dollars (?dollars=real)
+  deflator?: Deflator | null;
+  population?: Population | null;
 };
 
 function formatFreshnessDate(iso: string | null): string | null {
@@ -87,6 +105,12 @@ export default function ParadiseHomeClient({
   revenueTotal,
   dataFreshness,
   insights = [],
+  fundName = null,
+  spendingForecast = null,
+  departmentForecasts = [],
+  revenueForecast = null,
+  deflator = null,
+  population = null,
 }: Props) {
   const searchParams = useSearchParams();
 
@@ -100,6 +124,8 @@ export default function ParadiseHomeClient({
   const enableRevenues = portalSettings?.enable_revenues === true;
   const enableVendors =
     enableTransactions && portalSettings?.enable_vendors === true;
+  // Vendor totals are citywide, so they're left out under a fund filter
+  const showVendorTotals = enableVendors && !fundName;
 
   const years = useMemo(
     () => (availableYears ?? []).slice().sort((a, b) => b - a),
@@ -118,6 +144,15 @@ export default function ParadiseHomeClient({
 
   const yearLabel = selectedYear !== null ? String(selectedYear) : null;
 
+  // Once every period is posted the projection is just the total, so the
+  // outlook only shows while the year is open
+  const openSpendingForecast =
+    enableActuals && spendingForecast?.method !== "final" ? spendingForecast : null;
+  const openRevenueForecast =
+    enableRevenues && revenueForecast?.total && revenueForecast.total.method !== "final"
+      ? revenueForecast
+      : null;
+
   const departmentsForYear: DepartmentSummary[] = useMemo(() => {
     const rows = (deptBudgetActuals ?? []).map((r) => {
       const dept = r.department_name || "Unspecified";
@@ -272,8 +307,10 @@ export default function ParadiseHomeClient({
       yearTotals,
       enableActuals,
       enableTransactions,
-      enableVendors,
+      enableVendors: showVendorTotals,
       enableRevenues,
+      inflationAdjusted: deflator !== null,
+      population: selectedYear ? population?.byYear[selectedYear]?.population ?? null : null,
     });
   }, [
     cityName,
@@ -292,8 +329,10 @@ export default function ParadiseHomeClient({
     yearTotals,
     enableActuals,
     enableTransactions,
-    enableVendors,
+    showVendorTotals,
     enableRevenues,
+    deflator,
+    population,
   ]);
 
   return (
@@ -354,6 +393,11 @@ export default function ParadiseHomeClient({
                 {cityName} Budget &amp; Spending Overview
               </h1>
               <p className="mt-1 text-sm text-slate-100/90">{tagline}</p>
+              {fundName && (
+                <p className="mt-2 inline-flex rounded-full bg-slate-800/80 px-3 py-1 text-[11px] font-semibold text-slate-100">
+                  Showing {fundName} only
+                </p>
+              )}
               <p className="mt-2 text-xs text-slate-100 sm:max-w-md">
                 {heroMessage}
               </p>
@@ -366,7 +410,7 @@ export default function ParadiseHomeClient({
               <div className="mt-4 flex flex-wrap gap-2">
                 {/* Primary CTA – brand accent */}
                 <Link
-                  href={cityHref("/budget")}
+                  href={withFund(cityHref("/budget"), fundName)}
                   className="inline-flex items-center justify-center rounded-full px-3 py-1.5 text-xs font-semibold text-white shadow-sm hover:opacity-95 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-offset-slate-900"
                   style={
                     accentColor
@@ -380,7 +424,7 @@ export default function ParadiseHomeClient({
                 {/* Secondary CTA – neutral */}
                 {enableActuals && (
                   <Link
-                    href={cityHref("/departments")}
+                    href={withFund(cityHref("/departments"), fundName)}
 className="inline-flex items-center justify-center rounded-full px-3 py-1.5 text-xs font-semibold text-white shadow-sm hover:opacity-95 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-offset-slate-900"
                   style={
                     accentColor
@@ -531,10 +575,23 @@ className="inline-flex items-center justify-center rounded-full px-3 py-1.5 text
             <NarrativeSummary narrative={narrative} />
           )}
 
-          {/* Key Department Insights - only shown if insights exist */}
-          {insights.length > 0 && selectedYear && (
+          {/* Key Insights - only shown if a rule fired */}
+          {insights.length > 0 && (
             <CardContainer>
-              <InsightsSection insights={insights} fiscalYear={selectedYear} />
+              <InsightsSection insights={insights} />
+            </CardContainer>
+          )}
+
+          {/* Year-end outlook */}
+          {(openSpendingForecast || openRevenueForecast) && (
+            <CardContainer>
+              <HomeForecastCard
+                yearLabel={yearLabel}
+                totalBudget={totalBudget}
+                spending={openSpendingForecast}
+                departments={departmentForecasts}
+                revenues={openRevenueForecast}
+              />
             </CardContainer>
           )}
 
@@ -591,7 +648,7 @@ className="inline-flex items-center justify-center rounded-full px-3 py-1.5 text
                       </p>
                     </div>
                       <Link
-                        href={cityHref("/departments")}
+                        href={withFund(cityHref("/departments"), fundName)}
                         className="mt-1 text-xs font-semibold text-slate-800 underline-offset-2 hover:underline"
                       >
                         View all departments
@@ -626,14 +683,22 @@ className="inline-flex items-center justify-center rounded-full px-3 py-1.5 text
                         multiple fiscal years.
                       </p>
                     </div>
-                    <div className="text-xs text-slate-600">
-                      Showing{" "}
-                      <span className="font-semibold">
-                        {yearTotals.length}{" "}
-                        {yearTotals.length === 1 ? "year" : "years"}
-                      </span>
+                    <div className="flex flex-col items-start gap-2 sm:items-end">
+                      <div className="text-xs text-slate-600">
+                        Showing{" "}
+                        <span className="font-semibold">
+                          {yearTotals.length}{" "}
+                          {yearTotals.length === 1 ? "year" : "years"}
+                        </span>
 
-                      .
+                        .
+                      </div>
+                      {yearTotals.length > 1 && (
+                        <DollarsToggle
+                          baseYear={Math.max(...yearTotals.map((r) => r.year))}
+                          deflator={deflator}
+                        />
+                      )}
                     </div>
                   </div>
 
@@ -664,7 +729,7 @@ className="inline-flex items-center justify-center rounded-full px-3 py-1.5 text
 
             {enableTransactions && (
               <div className="space-y-4">
-                {enableVendors && (
+                {showVendorTotals && (
                   <CardContainer>
                     <section
                       aria-label="Top vendors"
@@ -0,0 +1,144 @@
+// components/City/HomeForecastCard.tsx
+"use client";
+
+import Link from "next/link";
+import { formatCurrency } from "@/lib/format";
+import { cityHref } from "@/lib/cityRouting";
+import {
+  describeForecast,
+  type DepartmentForecast,
+  type RevenueForecast,
+  type YearEndForecast,
+} from "@/lib/forecast";
+
+type Props = {
+  yearLabel: string | null;
+  totalBudget: number;
+  spending: YearEndForecast | null;
+  departments: DepartmentForecast[];
+  revenues: RevenueForecast | null;
+};
+
+// Departments and revenue sources listed under each projection
+const MAX_LISTED = 5;
+
+function varianceLabel(variance: number): string {
+  if (variance === 0) return "on budget";
+  return `${formatCurrency(Math.abs(variance))} ${variance > 0 ? "over" : "under"} budget`;
+}
+
+export default function HomeForecastCard({
+  yearLabel,
+  totalBudget,
+  spending,
+  departments,
+  revenues,
+}: Props) {
+  const overruns = departments
+    .filter((d) => d.budget > 0 && d.projectedVariance > 0)
+    .slice(0, MAX_LISTED);
+  const revenueTotal = revenues?.total ?? null;
+
+  return (
+    <section aria-labelledby="home-forecast-heading" className="space-y-3">
+      <div>
+        <h2
+          id="home-forecast-heading"
+          className="text-sm font-semibold tracking-tight text-slate-900 sm:text-base"
+        >
+          Year-end Outlook
+        </h2>
+        <p className="text-sm text-slate-600">
+          Where {yearLabel ? `fiscal year ${yearLabel}` : "the year"} is headed
+          if spending and revenue keep their current pace. Ranges narrow as more
+          of the year is posted.
+        </p>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        {spending && (
+          <div className="flex flex-col rounded-lg border border-slate-200 bg-slate-50 px-3 py-3">
+            <div className="text-[10px] font-semibold uppercase tracking-[0.16em] text-slate-600">
+              Projected spending
+            </div>
+            <div className="mt-1 text-lg font-semibold text-slate-900">
+              {formatCurrency(spending.projected)}
+            </div>
+            <p className="text-sm text-slate-600">
+              Likely {formatCurrency(spending.low)}–{formatCurrency(spending.high)}
+              {totalBudget > 0 && (
+                <>
+                  {" · "}
+                  <span
+                    className={
+                      spending.projected > totalBudget
+                        ? "font-medium text-red-700"
+                        : undefined
+                    }
+                  >
+                    {varianceLabel(spending.projected - totalBudget)}
+                  </span>
+                </>
+              )}
+            </p>
+            <p className="mt-1 text-xs text-slate-500">{describeForecast(spending)}</p>
+
+            {overruns.length > 0 && (
+              <div className="mt-3">
+                <div className="text-xs font-semibold text-slate-700">
+                  Projected to exceed budget
+                </div>
+                <ul className="mt-1 space-y-1 text-sm">
+                  {overruns.map((d) => (
+                    <li key={d.department_name} className="flex items-center justify-between gap-2">
+                      <Link
+                        href={`${cityHref(`/departments/${encodeURIComponent(d.department_name)}`)}${yearLabel ? `?year=${yearLabel}` : ""}`}
+                        className="truncate text-slate-800 hover:underline"
+                      >
+                        {d.department_name}
+                      </Link>
+                      <span className="whitespace-nowrap font-mono text-red-700">
+                        +{formatCurrency(d.projectedVariance)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
+        {revenueTotal && (
+          <div className="flex flex-col rounded-lg border border-slate-200 bg-slate-50 px-3 py-3">
+            <div className="text-[10px] font-semibold uppercase tracking-[0.16em] text-slate-600">
+              Projected revenues
+            </div>
+            <div className="mt-1 text-lg font-semibold text-slate-900">
+              {formatCurrency(revenueTotal.projected)}
+            </div>
+            <p className="text-sm text-slate-600">
+              Likely {formatCurrency(revenueTotal.low)}–{formatCurrency(revenueTotal.high)}
+            </p>
+            <p className="mt-1 text-xs text-slate-500">{describeForecast(revenueTotal)}</p>
+
+            {revenues && revenues.sources.length > 0 && (
+              <div className="mt-3">
+                <div className="text-xs font-semibold text-slate-700">By source</div>
+                <ul className="mt-1 space-y-1 text-sm">
+                  {revenues.sources.slice(0, MAX_LISTED).map((s) => (
+                    <li key={s.source} className="flex items-center justify-between gap-2">
+                      <span className="truncate text-slate-800">{s.source}</span>
+                      <span className="whitespace-nowrap font-mono text-slate-900">
+                        {formatCurrency(s.projected)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
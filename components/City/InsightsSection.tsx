@@ -2,15 +2,20 @@
 "use client";
 
 import Link from "next/link";
+import { cityHref } from "@/lib/cityRouting";
 import type { Insight, InsightType } from "@/lib/insights";
 
 type Props = {
   insights: Insight[];
-  fiscalYear: number;
   className?: string;
 };
 
 const typeStyles: Record<InsightType, { border: string; bg: string; icon: string }> = {
+  critical: {
+    border: "border-l-red-600",
+    bg: "bg-red-50",
+    icon: "text-red-600",
+  },
   warning: {
     border: "border-l-amber-500",
     bg: "bg-amber-50",
@@ -26,6 +31,25 @@ const typeStyles: Record<InsightType, { border: string; bg: string; icon: string
 function InsightIcon({ type }: { type: InsightType }) {
   const colorClass = typeStyles[type].icon;
 
+  if (type === "critical") {
+    return (
+      <svg
+        className={`h-5 w-5 ${colorClass}`}
+        fill="none"
+        viewBox="0 0 24 24"
+        stroke="currentColor"
+        strokeWidth={2}
+        aria-hidden="true"
+      >
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"
+        />
+      </svg>
+    );
+  }
+
   if (type === "warning") {
     return (
       <svg
@@ -65,10 +89,10 @@ function InsightIcon({ type }: { type: InsightType }) {
 }
 
 /**
- * Displays a grid of department-focused insights.
+ * Displays a grid of the insights the configured rules produced.
  * Returns null if no insights (don't show empty state).
  */
-export default function InsightsSection({ insights, fiscalYear, className = "" }: Props) {
+export default function InsightsSection({ insights, className = "" }: Props) {
   // Don't render if no insights
   if (!insights || insights.length === 0) {
     return null;
@@ -101,7 +125,7 @@ export default function InsightsSection({ insights, fiscalYear, className = "" }
           id="insights-heading"
           className="text-sm font-semibold text-slate-900"
         >
-          Key Department Insights
+          Key Insights
         </h2>
       </div>
 
@@ -109,32 +133,47 @@ export default function InsightsSection({ insights, fiscalYear, className = "" }
       <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
         {insights.map((insight) => {
           const styles = typeStyles[insight.type];
-          const deptHref = `/portal/departments/${encodeURIComponent(insight.departmentName)}?year=${fiscalYear}`;
+          const cardClass = `block rounded-lg border border-transparent border-l-4 ${styles.border} ${styles.bg} px-4 py-3`;
+          const body = (
+            <article>
+              <div className="flex items-start gap-3">
+                <div className="flex-shrink-0 pt-0.5">
+                  <InsightIcon type={insight.type} />
+                </div>
+                <div className="min-w-0 flex-1">
+                  <h3 className="text-sm font-medium text-slate-900">
+                    {insight.title}
+                  </h3>
+                  {insight.description && (
+                    <p className="mt-1 text-xs text-slate-600">
+                      {insight.description}
+                    </p>
+                  )}
+                </div>
+              </div>
+            </article>
+          );
+
+          if (!insight.path) {
+            return (
+              <div key={insight.id} className={cardClass}>
+                {body}
+              </div>
+            );
+          }
 
           return (
             <Link
               key={insight.id}
-              href={deptHref}
-              aria-label={`View ${insight.departmentName} budget details`}
-              className={`block rounded-lg border border-transparent border-l-4 ${styles.border} ${styles.bg} px-4 py-3 transition-all hover:border-slate-300 hover:shadow-md cursor-pointer`}
+              href={cityHref(insight.path)}
+              aria-label={
+                insight.departmentName
+                  ? `View ${insight.departmentName} budget details`
+                  : `View details: ${insight.title}`
+              }
+              className={`${cardClass} transition-all hover:border-slate-300 hover:shadow-md cursor-pointer`}
             >
-              <article>
-                <div className="flex items-start gap-3">
-                  <div className="flex-shrink-0 pt-0.5">
-                    <InsightIcon type={insight.type} />
-                  </div>
-                  <div className="min-w-0 flex-1">
-                    <h3 className="text-sm font-medium text-slate-900">
-                      {insight.title}
-                    </h3>
-                    {insight.description && (
-                      <p className="mt-1 text-xs text-slate-600">
-                        {insight.description}
-                      </p>
-                    )}
-                  </div>
-                </div>
-              </article>
+              {body}
             </Link>
           );
         })}
@@ -25,16 +25,30 @@ import CardContainer from "../CardContainer";
 import SectionHeader from "../SectionHeader";
 import NarrativeSummary from "../NarrativeSummary";
 import FiscalYearSelect from "../FiscalYearSelect";
+import CompareYearsSelect from "../CompareYearsSelect";
+import DollarsToggle from "../DollarsToggle";
+import PerCapitaToggle from "../PerCapitaToggle";
 import DataTable, { DataTableColumn } from "../DataTable";
 import { CITY_CONFIG } from "@/lib/cityConfig";
+import { deflateRows, type Deflator } from "@/lib/inflation";
+import {
+  formatPerCapita,
+  perCapitaDivisor,
+  perCapitaRows,
+  pickPerCapita,
+  PER_CAPITA_LABELS,
+  type Population,
+} from "@/lib/perCapita";
 
 type Props = {
   years: number[];
   selectedYear: number | null;
   revenues: RevenueRow[];
   sourceQuery: string | null;
-  yearTotals: { year: number; total: number }[];
+  yearTotals: { year: number; total: number }[]; // nominal
   fiscalYearNote?: string;
+  deflator?: Deflator | null; // restates the trend in constant dollars
+  population?: Population | null;
 };
 
 type RevenueSourceRow = {
@@ -74,15 +88,16 @@ function formatCurrencyCompactTick(value: number) {
   return `${sign}$${CURRENCY_COMPACT.format(abs)}`;
 }
 
-function computeSnappedDomain(values: number[]): [number, number] {
+// `step` is 0.1M for totals; per-capita amounts snap to whole tens
+function computeSnappedDomain(values: number[], step = 100_000): [number, number] {
   const finite = values.filter((v) => Number.isFinite(v));
-  if (finite.length === 0) return [0, 100_000];
+  if (finite.length === 0) return [0, step];
 
   let min = Math.min(...finite);
   let max = Math.max(...finite);
 
   if (min === max) {
-    const pad = Math.max(Math.abs(min) * 0.1, 100_000);
+    const pad = Math.max(Math.abs(min) * 0.1, step);
     min -= pad;
     max += pad;
   }
@@ -92,7 +107,6 @@ function computeSnappedDomain(values: number[]): [number, number] {
   min -= pad;
   max += pad;
 
-  const step = 100_000; // 0.1M
   const snappedMin = Math.floor(min / step) * step;
   const snappedMax = Math.ceil(max / step) * step;
 
@@ -300,6 +314,8 @@ export default function RevenuesDashboardClient({
   sourceQuery,
   yearTotals,
   fiscalYearNote,
+  deflator = null,
+  population = null,
 }: Props) {
   const pathname = usePathname();
   const router = useRouter();
@@ -361,21 +377,41 @@ export default function RevenuesDashboardClient({
 
   const topSource = sourceRows[0]?.source ?? null;
 
+  // Per-resident or per-household view (?per=); record counts are unchanged
+  const basis = pickPerCapita(searchParams.get("per") ?? undefined);
+  const divisor = perCapitaDivisor(population, selectedYear, basis);
+  const formatAmount = divisor ? formatPerCapita : formatCurrency;
+  const amountSuffix = divisor ? ` ${PER_CAPITA_LABELS[basis].toLowerCase()}` : "";
+  const shown = (amount: number) => (divisor ? amount / divisor : amount);
+
+  // Multi-year totals for the narrative, and as shown in the trend
+  const realTotals = useMemo(
+    () => deflateRows(yearTotals ?? [], (row) => row.year, ["total"], deflator),
+    [yearTotals, deflator]
+  );
+  const trendTotals = useMemo(
+    () =>
+      divisor
+        ? perCapitaRows(realTotals, (row) => row.year, ["total"], population, basis)
+        : realTotals,
+    [realTotals, divisor, population, basis]
+  );
+
   const yoyTrendData = useMemo(() => {
-    if (!yearTotals || yearTotals.length === 0) return [];
-    return [...yearTotals]
+    if (trendTotals.length === 0) return [];
+    return [...trendTotals]
       .filter((row) => Number.isFinite(row.total))
       .sort((a, b) => a.year - b.year)
       .map((row) => ({
         year: row.year,
         Revenue: row.total,
       }));
-  }, [yearTotals]);
+  }, [trendTotals]);
 
     const yoyDomain = useMemo((): [number, number] => {
     const values = yoyTrendData.map((d) => Number(d.Revenue || 0));
-    return computeSnappedDomain(values);
-  }, [yoyTrendData]);
+    return computeSnappedDomain(values, divisor ? 10 : undefined);
+  }, [yoyTrendData, divisor]);
 
   const distributionSlices = useMemo(() => {
     const base: DistributionSlice[] = sourceRows.map((row) => ({
@@ -422,14 +458,14 @@ export default function RevenuesDashboardClient({
     },
     {
       key: "total",
-      header: "Total revenue",
+      header: `Total revenue${amountSuffix}`,
       sortable: true,
       sortAccessor: (row) => row.total,
       headerClassName: "text-right",
       cellClassName: "whitespace-nowrap text-right font-mono",
       cell: (row) => (
         <span className="text-sm">
-          {formatCurrency(row.total)}
+          {formatAmount(shown(row.total))}
         </span>
       ),
     },
@@ -505,9 +541,11 @@ export default function RevenuesDashboardClient({
       totalRevenue,
       sourceCount: totalSources,
       topSources,
-      yearTotals,
+      yearTotals: realTotals,
+      inflationAdjusted: deflator !== null,
+      population: selectedYear ? population?.byYear[selectedYear]?.population ?? null : null,
     });
-  }, [selectedYear, totalRevenue, totalSources, sourceRows, yearTotals]);
+  }, [selectedYear, totalRevenue, totalSources, sourceRows, realTotals, deflator, population]);
 
   return (
     <div
@@ -521,7 +559,10 @@ export default function RevenuesDashboardClient({
   fiscalNote={fiscalYearNote}
   rightSlot={
     years.length > 0 ? (
-      <FiscalYearSelect options={years} label="Fiscal year" />
+      <div className="flex flex-col items-end gap-2">
+        <FiscalYearSelect options={years} label="Fiscal year" />
+        <CompareYearsSelect options={years} />
+      </div>
     ) : null
   }
 />
@@ -532,6 +573,11 @@ export default function RevenuesDashboardClient({
       {/* Summary KPIs */}
       <CardContainer>
         <section aria-label="Revenue summary" className="space-y-4">
+          {population && selectedYear && (
+            <div className="flex justify-end">
+              <PerCapitaToggle population={population} years={[selectedYear]} />
+            </div>
+          )}
           <div className="grid gap-3 sm:grid-cols-4">
             <div className="rounded-xl border border-slate-200 bg-slate-50/70 p-3 text-sm">
               <p className="text-xs font-semibold uppercase tracking-[0.14em] text-slate-600">
@@ -557,11 +603,11 @@ export default function RevenuesDashboardClient({
             </div>
             <div className="rounded-xl border border-slate-200 bg-slate-50/70 p-3 text-sm">
               <p className="text-xs font-semibold uppercase tracking-[0.14em] text-slate-600">
-                Total revenue
+                Total revenue{amountSuffix}
                 {showingFiltered ? " (filtered)" : ""}
               </p>
               <p className="mt-1 text-base font-semibold text-slate-900">
-                {formatCurrency(totalRevenue)}
+                {formatAmount(shown(totalRevenue))}
               </p>
               <p className="mt-1 text-sm text-slate-600">
                 Sum of all sources in the current view.
@@ -570,7 +616,7 @@ export default function RevenuesDashboardClient({
                 <p className="mt-1 text-xs text-slate-500">
                   Unfiltered total for this year:{" "}
                   <span className="font-mono">
-                    {formatCurrency(totalUnfilteredRevenue)}
+                    {formatAmount(shown(totalUnfilteredRevenue))}
                   </span>
                   .
                 </p>
@@ -578,10 +624,10 @@ export default function RevenuesDashboardClient({
             </div>
             <div className="rounded-xl border border-slate-200 bg-slate-50/70 p-3 text-sm">
               <p className="text-xs font-semibold uppercase tracking-[0.14em] text-slate-600">
-                Avg per source
+                Avg per source{amountSuffix}
               </p>
               <p className="mt-1 text-base font-semibold text-slate-900">
-                {formatCurrency(avgPerSource)}
+                {formatAmount(shown(avgPerSource))}
               </p>
               <p className="mt-1 text-sm text-slate-600">
                 Simple average of total revenues across all visible sources.
@@ -737,19 +783,27 @@ export default function RevenuesDashboardClient({
               aria-describedby="revenue-yoy-desc"
               className="space-y-3"
             >
-              <div>
-                <h2
-                  id="revenue-yoy-heading"
-                  className="text-sm font-semibold text-slate-800"
-                >
-                  Revenues over time
-                </h2>
-                <p
-                  id="revenue-yoy-desc"
-                  className="text-sm text-slate-600"
-                >
-                  Year-over-year view of total recorded revenues.
-                </p>
+              <div className="flex flex-wrap items-start justify-between gap-3">
+                <div>
+                  <h2
+                    id="revenue-yoy-heading"
+                    className="text-sm font-semibold text-slate-800"
+                  >
+                    Revenues over time
+                  </h2>
+                  <p
+                    id="revenue-yoy-desc"
+                    className="text-sm text-slate-600"
+                  >
+                    Year-over-year view of total recorded revenues.
+                  </p>
+                </div>
+                {yoyTrendData.length > 1 && (
+                  <DollarsToggle
+                    baseYear={yoyTrendData[yoyTrendData.length - 1].year}
+                    deflator={deflator}
+                  />
+                )}
               </div>
 
               {yoyTrendData.length <= 1 ? (
@@ -841,7 +895,7 @@ export default function RevenuesDashboardClient({
                               {row.year}
                             </th>
                             <td className="px-3 py-2 text-right text-slate-700">
-                              {formatCurrency(row.Revenue)}
+                              {formatAmount(row.Revenue)}
                             </td>
                           </tr>
                         ))}
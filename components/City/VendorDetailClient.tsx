@@ -0,0 +1,532 @@
+// components/City/VendorDetailClient.tsx
+"use client";
+
+import { useMemo } from "react";
+import Link from "next/link";
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ResponsiveContainer,
+  CartesianGrid,
+} from "recharts";
+import type { TransactionRow } from "@/lib/types";
+import type { VendorYearSummary } from "@/lib/queries";
+import CardContainer from "../CardContainer";
+import SectionHeader from "../SectionHeader";
+import DataTable, { DataTableColumn } from "../DataTable";
+import DollarsToggle from "../DollarsToggle";
+import { cityHref } from "@/lib/cityRouting";
+import { formatCurrency, formatCurrencyCompact, formatPercent } from "@/lib/format";
+import {
+  buildMonthlyTimeline,
+  summarizeVendorPayers,
+  type VendorPayer,
+} from "@/lib/vendorHistory";
+import { CITY_CONFIG } from "@/lib/cityConfig";
+import { deflateRows, type Deflator } from "@/lib/inflation";
+
+type Props = {
+  vendorName: string;
+  yearSummaries: VendorYearSummary[];
+  transactions: TransactionRow[];
+  otherSpellings?: string[]; // merged spellings included in these totals
+  deflator?: Deflator | null; // restates the yearly payments in constant dollars
+};
+
+// Payers listed per card before the rest are left to the transaction list
+const MAX_PAYERS = 10;
+
+const MONTH_LABELS = [
+  "Jan", "Feb", "Mar", "Apr", "May", "Jun",
+  "Jul", "Aug", "Sep", "Oct", "Nov", "Dec",
+];
+
+function formatMonth(key: string): string {
+  const [year, month] = key.split("-").map(Number);
+  return `${MONTH_LABELS[month - 1] ?? month} ${year}`;
+}
+
+function PayerList({
+  title,
+  payers,
+  emptyText,
+  linkToDepartment,
+}: {
+  title: string;
+  payers: VendorPayer[];
+  emptyText: string;
+  linkToDepartment?: boolean;
+}) {
+  return (
+    <CardContainer>
+      <div className="p-4">
+        <h2 className="mb-2 text-sm font-semibold text-slate-900">{title}</h2>
+        {payers.length === 0 ? (
+          <p className="text-sm text-slate-600">{emptyText}</p>
+        ) : (
+          <ul className="space-y-1.5 text-sm">
+            {payers.slice(0, MAX_PAYERS).map((p) => (
+              <li key={p.name}>
+                <div className="flex items-center justify-between gap-2">
+                  {linkToDepartment && p.name !== "Unspecified" ? (
+                    <Link
+                      href={cityHref(`/departments/${encodeURIComponent(p.name)}`)}
+                      className="truncate pr-2 text-slate-800 hover:underline"
+                    >
+                      {p.name}
+                    </Link>
+                  ) : (
+                    <span className="truncate pr-2">{p.name}</span>
+                  )}
+                  <span className="whitespace-nowrap font-mono">
+                    {formatCurrency(p.total)}
+                  </span>
+                </div>
+                <div className="mt-1 flex items-center gap-2">
+                  <div className="h-1.5 flex-1 rounded-full bg-slate-100">
+                    <div
+                      className="h-1.5 rounded-full bg-slate-900"
+                      style={{ width: `${Math.max(2, Math.min(p.percent, 100))}%` }}
+                    />
+                  </div>
+                  <span className="w-12 text-right text-xs text-slate-600">
+                    {formatPercent(p.percent)}
+                  </span>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+        {payers.length > MAX_PAYERS && (
+          <p className="mt-2 text-xs text-slate-600">
+            Showing the top {MAX_PAYERS} of {payers.length.toLocaleString("en-US")}.
+          </p>
+        )}
+      </div>
+    </CardContainer>
+  );
+}
+
+export default function VendorDetailClient({
+  vendorName,
+  yearSummaries,
+  transactions,
+  otherSpellings = [],
+  deflator = null,
+}: Props) {
+  const accentColor =
+    CITY_CONFIG.accentColor || CITY_CONFIG.primaryColor || undefined;
+
+  const yearSeries = useMemo(
+    () =>
+      yearSummaries
+        .map((s) => ({
+          year: Number(s.fiscal_year),
+          total: Number(s.total_amount || 0),
+          count: Number(s.txn_count || 0),
+        }))
+        .sort((a, b) => a.year - b.year),
+    [yearSummaries]
+  );
+
+  // The headline totals stay nominal; only the by-year view is restated
+  const yearChartSeries = useMemo(
+    () => deflateRows(yearSeries, (row) => row.year, ["total"], deflator),
+    [yearSeries, deflator]
+  );
+
+  const timeline = useMemo(() => buildMonthlyTimeline(transactions), [transactions]);
+
+  const departments = useMemo(
+    () => summarizeVendorPayers(transactions, "department_name"),
+    [transactions]
+  );
+
+  const accounts = useMemo(
+    () => summarizeVendorPayers(transactions, "account_name"),
+    [transactions]
+  );
+
+  const totalPaid = yearSeries.reduce((sum, y) => sum + y.total, 0);
+  const totalCount = yearSeries.reduce((sum, y) => sum + y.count, 0);
+  const largestYear = yearSeries.reduce<(typeof yearSeries)[number] | null>(
+    (best, y) => (!best || y.total > best.total ? y : best),
+    null
+  );
+  const yearRange =
+    yearSeries.length === 0
+      ? "–"
+      : yearSeries.length === 1
+      ? String(yearSeries[0].year)
+      : `${yearSeries[0].year}–${yearSeries[yearSeries.length - 1].year}`;
+
+  const transactionColumns: DataTableColumn<TransactionRow>[] = useMemo(
+    () => [
+      {
+        key: "date",
+        header: "Date",
+        sortable: true,
+        sortAccessor: (row) => row.date,
+        cellClassName: "whitespace-nowrap",
+        cell: (row) => row.date,
+      },
+      {
+        key: "fiscal_year",
+        header: "FY",
+        sortable: true,
+        sortAccessor: (row) => row.fiscal_year,
+        cellClassName: "whitespace-nowrap",
+        cell: (row) => row.fiscal_year,
+      },
+      {
+        key: "department_name",
+        header: "Department",
+        sortable: true,
+        sortAccessor: (row) => (row.department_name || "").toLowerCase(),
+        cell: (row) =>
+          row.department_name ? (
+            <Link
+              href={`${cityHref(
+                `/departments/${encodeURIComponent(row.department_name)}`
+              )}?year=${row.fiscal_year}`}
+              className="text-slate-800 hover:underline"
+            >
+              {row.department_name}
+            </Link>
+          ) : (
+            <span className="italic text-slate-600">Unspecified</span>
+          ),
+      },
+      {
+        key: "account_name",
+        header: "Account",
+        sortable: true,
+        sortAccessor: (row) => (row.account_name || "").toLowerCase(),
+        cell: (row) => row.account_name || "",
+      },
+      {
+        key: "description",
+        header: "Description",
+        sortable: true,
+        sortAccessor: (row) => (row.description || "").toLowerCase(),
+        cell: (row) =>
+          row.description || (
+            <span className="italic text-slate-600">No description</span>
+          ),
+      },
+      {
+        key: "amount",
+        header: "Amount",
+        sortable: true,
+        sortAccessor: (row) => Number(row.amount || 0),
+        headerClassName: "text-right",
+        cellClassName: "text-right font-mono",
+        cell: (row) => formatCurrency(Number(row.amount || 0)),
+      },
+    ],
+    []
+  );
+
+  return (
+    <div
+      id="main-content"
+      className="mx-auto max-w-6xl space-y-6 px-3 py-6 sm:px-4 sm:py-8"
+    >
+      <SectionHeader
+        eyebrow="Vendor"
+        title={vendorName}
+        description="Every fiscal year's payments to this vendor, when they were made, and which departments and accounts paid them."
+        accentColor={accentColor}
+      />
+
+      {/* Breadcrumb */}
+      <nav aria-label="Breadcrumb" className="mb-2 px-1 text-sm text-slate-600">
+        <ol className="flex items-center gap-1">
+          <li>
+            <Link href={cityHref("/overview")} className="hover:text-slate-800">
+              Home
+            </Link>
+          </li>
+          <li aria-hidden="true" className="text-slate-500">
+            ›
+          </li>
+          <li>
+            <Link href={cityHref("/vendors")} className="hover:text-slate-800">
+              Vendors
+            </Link>
+          </li>
+          <li aria-hidden="true" className="text-slate-500">
+            ›
+          </li>
+          <li aria-current="page">
+            <span className="font-medium text-slate-700">{vendorName}</span>
+          </li>
+        </ol>
+      </nav>
+
+      {otherSpellings.length > 0 && (
+        <p className="px-1 text-sm text-slate-600">
+          Includes payments recorded as{" "}
+          {otherSpellings.map((name, i) => (
+            <span key={name}>
+              {i > 0 && ", "}
+              <span className="font-medium text-slate-700">{name}</span>
+            </span>
+          ))}
+          .
+        </p>
+      )}
+
+      {/* Metrics */}
+      <div className="grid gap-4 md:grid-cols-4">
+        <CardContainer>
+          <div className="text-xs font-semibold uppercase tracking-[0.14em] text-slate-600">
+            Total paid ({yearRange})
+          </div>
+          <div className="mt-1 text-2xl font-bold text-slate-900">
+            {formatCurrency(totalPaid)}
+          </div>
+        </CardContainer>
+
+        <CardContainer>
+          <div className="text-xs font-semibold uppercase tracking-[0.14em] text-slate-600">
+            Transactions
+          </div>
+          <div className="mt-1 text-2xl font-bold text-slate-900">
+            {totalCount.toLocaleString("en-US")}
+          </div>
+        </CardContainer>
+
+        <CardContainer>
+          <div className="text-xs font-semibold uppercase tracking-[0.14em] text-slate-600">
+            Fiscal years paid
+          </div>
+          <div className="mt-1 text-2xl font-bold text-slate-900">
+            {yearSeries.length.toLocaleString("en-US")}
+          </div>
+        </CardContainer>
+
+        <CardContainer>
+          <div className="text-xs font-semibold uppercase tracking-[0.14em] text-slate-600">
+            Largest year
+          </div>
+          <div className="mt-1 text-2xl font-bold text-slate-900">
+            {largestYear ? largestYear.year : "–"}
+          </div>
+          {largestYear && (
+            <div className="mt-1 text-sm text-slate-600">
+              {formatCurrency(largestYear.total)}
+            </div>
+          )}
+        </CardContainer>
+      </div>
+
+      {/* Payments by fiscal year */}
+      <CardContainer>
+        <figure
+          role="group"
+          aria-labelledby="vendor-years-heading"
+          aria-describedby="vendor-years-desc"
+          className="space-y-3"
+        >
+          <div className="flex flex-wrap items-start justify-between gap-3">
+            <div>
+              <h2 id="vendor-years-heading" className="text-sm font-semibold text-slate-800">
+                Payments by fiscal year
+              </h2>
+              <p id="vendor-years-desc" className="text-sm text-slate-600">
+                Total paid to {vendorName} and the number of transactions in
+                each fiscal year.
+              </p>
+            </div>
+            {yearChartSeries.length > 1 && (
+              <DollarsToggle
+                baseYear={yearChartSeries[yearChartSeries.length - 1].year}
+                deflator={deflator}
+              />
+            )}
+          </div>
+
+          {yearChartSeries.length === 0 ? (
+            <p className="text-sm text-slate-600">
+              No yearly totals are available for this vendor yet.
+            </p>
+          ) : (
+            <>
+              <div className="h-56 w-full min-w-0 overflow-hidden sm:h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={yearChartSeries} margin={{ top: 8, right: 16, left: 0, bottom: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                    <XAxis dataKey="year" tickLine={false} axisLine={false} />
+                    <YAxis
+                      tickFormatter={(v) => formatCurrencyCompact(Number(v))}
+                      tickLine={false}
+                      axisLine={false}
+                    />
+                    <Tooltip
+                      labelFormatter={(label) => `Fiscal year ${label}`}
+                      formatter={(value) => [formatCurrency(Number(value ?? 0)), "Paid"]}
+                    />
+                    <Bar dataKey="total" name="Paid" fill="#0f766e" radius={[4, 4, 0, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="min-w-full border border-slate-200 text-sm">
+                  <thead className="bg-slate-50 text-xs font-semibold uppercase tracking-wide text-slate-600">
+                    <tr>
+                      <th scope="col" className="px-3 py-2 text-left">Fiscal year</th>
+                      <th scope="col" className="px-3 py-2 text-right">Paid</th>
+                      <th scope="col" className="px-3 py-2 text-right">Transactions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {yearChartSeries.map((row) => (
+                      <tr key={row.year} className="border-t border-slate-200">
+                        <th scope="row" className="px-3 py-2 text-left font-medium text-slate-800">
+                          {row.year}
+                        </th>
+                        <td className="px-3 py-2 text-right text-slate-700">
+                          {formatCurrency(row.total)}
+                        </td>
+                        <td className="px-3 py-2 text-right text-slate-700">
+                          {row.count.toLocaleString("en-US")}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </figure>
+      </CardContainer>
+
+      {/* Monthly timeline */}
+      <CardContainer>
+        <figure
+          role="group"
+          aria-labelledby="vendor-timeline-heading"
+          aria-describedby="vendor-timeline-desc"
+          className="space-y-3"
+        >
+          <div>
+            <h2 id="vendor-timeline-heading" className="text-sm font-semibold text-slate-800">
+              Monthly payment timeline
+            </h2>
+            <p id="vendor-timeline-desc" className="text-sm text-slate-600">
+              Payments by calendar month, from the first payment to the most
+              recent. Months without payments show as gaps.
+            </p>
+          </div>
+
+          {timeline.length === 0 ? (
+            <p className="text-sm text-slate-600">
+              No dated transactions are available for this vendor.
+            </p>
+          ) : (
+            <>
+              <div className="h-56 w-full min-w-0 overflow-hidden sm:h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={timeline} margin={{ top: 8, right: 16, left: 0, bottom: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                    <XAxis
+                      dataKey="month"
+                      tickFormatter={formatMonth}
+                      tickLine={false}
+                      axisLine={false}
+                      minTickGap={24}
+                    />
+                    <YAxis
+                      tickFormatter={(v) => formatCurrencyCompact(Number(v))}
+                      tickLine={false}
+                      axisLine={false}
+                    />
+                    <Tooltip
+                      labelFormatter={(label) => formatMonth(String(label))}
+                      formatter={(value) => [formatCurrency(Number(value ?? 0)), "Paid"]}
+                    />
+                    <Bar dataKey="total" name="Paid" fill="#0f172a" radius={[2, 2, 0, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+
+              <details className="text-sm">
+                <summary className="cursor-pointer text-slate-700">
+                  Show monthly totals as a table
+                </summary>
+                <div className="mt-2 max-h-72 overflow-auto">
+                  <table className="min-w-full border border-slate-200 text-sm">
+                    <thead className="bg-slate-50 text-xs font-semibold uppercase tracking-wide text-slate-600">
+                      <tr>
+                        <th scope="col" className="px-3 py-2 text-left">Month</th>
+                        <th scope="col" className="px-3 py-2 text-right">Paid</th>
+                        <th scope="col" className="px-3 py-2 text-right">Transactions</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {timeline.map((row) => (
+                        <tr key={row.month} className="border-t border-slate-200">
+                          <th scope="row" className="px-3 py-2 text-left font-medium text-slate-800">
+                            {formatMonth(row.month)}
+                          </th>
+                          <td className="px-3 py-2 text-right text-slate-700">
+                            {formatCurrency(row.total)}
+                          </td>
+                          <td className="px-3 py-2 text-right text-slate-700">
+                            {row.count.toLocaleString("en-US")}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </details>
+            </>
+          )}
+        </figure>
+      </CardContainer>
+
+      {/* Who paid */}
+      <div className="grid gap-6 md:grid-cols-2">
+        <PayerList
+          title="Departments that paid"
+          payers={departments}
+          emptyText="No department is recorded on this vendor's transactions."
+          linkToDepartment
+        />
+        <PayerList
+          title="Accounts charged"
+          payers={accounts}
+          emptyText="No account is recorded on this vendor's transactions."
+        />
+      </div>
+
+      {/* Transactions */}
+      <CardContainer>
+        <div className="p-4">
+          <h2 className="mb-2 text-sm font-semibold text-slate-900">
+            Transactions ({transactions.length.toLocaleString("en-US")})
+          </h2>
+          {transactions.length === 0 ? (
+            <p className="text-sm text-slate-600">
+              No transactions found for this vendor.
+            </p>
+          ) : (
+            <DataTable<TransactionRow>
+              data={transactions}
+              columns={transactionColumns}
+              initialSortKey="date"
+              initialSortDirection="desc"
+              getRowKey={(_, index) => String(index)}
+            />
+          )}
+        </div>
+      </CardContainer>
+    </div>
+  );
+}
@@ -7,17 +7,26 @@ import { usePathname, useRouter, useSearchParams } from "next/navigation";
 import CardContainer from "../CardContainer";
 import SectionHeader from "../SectionHeader";
 import FiscalYearSelect from "../FiscalYearSelect";
+import PerCapitaToggle from "../PerCapitaToggle";
 import DataTable, { DataTableColumn } from "../DataTable";
 import { cityHref } from "@/lib/cityRouting";
 import { formatCurrency } from "@/lib/format";
 import type { VendorYearSummary } from "@/lib/queries";
 import { CITY_CONFIG } from "@/lib/cityConfig";
+import {
+  formatPerCapita,
+  perCapitaDivisor,
+  pickPerCapita,
+  PER_CAPITA_LABELS,
+  type Population,
+} from "@/lib/perCapita";
 
 type Props = {
   years: number[];
   selectedYear: number | null;
   vendorSummaries: VendorYearSummary[];
   vendorQuery: string | null;
+  population?: Population | null;
 };
 
 type VendorRow = {
@@ -56,6 +65,7 @@ export default function VendorsDashboardClient({
   selectedYear,
   vendorSummaries,
   vendorQuery,
+  population = null,
 }: Props) {
   const router = useRouter();
   const pathname = usePathname();
@@ -85,6 +95,13 @@ export default function VendorsDashboardClient({
   const totalSpend = rows.reduce((sum, v) => sum + v.total, 0);
   const topVendor = rows[0]?.name ?? null;
 
+  // Per-resident or per-household spend (?per=)
+  const basis = pickPerCapita(searchParams.get("per") ?? undefined);
+  const divisor = perCapitaDivisor(population, selectedYear, basis);
+  const formatAmount = divisor ? formatPerCapita : formatCurrency;
+  const amountSuffix = divisor ? ` ${PER_CAPITA_LABELS[basis].toLowerCase()}` : "";
+  const shown = (amount: number) => (divisor ? amount / divisor : amount);
+
   const handleVendorSearchSubmit = (e: FormEvent) => {
     e.preventDefault();
     const url = buildSearchUrl(pathname, searchParams, {
@@ -115,9 +132,7 @@ export default function VendorsDashboardClient({
             <span className="italic text-slate-600">Unspecified</span>
           ) : (
             <Link
-              href={`${cityHref("/transactions")}?q=${encodeURIComponent(
-                row.name
-              )}${selectedYear ? `&year=${selectedYear}` : ""}`}
+              href={cityHref(`/vendors/${encodeURIComponent(row.name)}`)}
               className="text-sm font-medium text-slate-800 underline-offset-2 hover:underline focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-slate-900 focus-visible:ring-offset-1 rounded"
             >
               {row.name}
@@ -126,12 +141,12 @@ export default function VendorsDashboardClient({
       },
       {
         key: "total",
-        header: "Total spend",
+        header: `Total spend${amountSuffix}`,
         sortable: true,
         sortAccessor: (row) => row.total,
         headerClassName: "text-right",
         cellClassName: "whitespace-nowrap text-right font-mono",
-        cell: (row) => <span>{formatCurrency(row.total)}</span>,
+        cell: (row) => <span>{formatAmount(divisor ? row.total / divisor : row.total)}</span>,
       },
       {
         key: "txnCount",
@@ -145,7 +160,7 @@ export default function VendorsDashboardClient({
         ),
       },
     ],
-    [selectedYear]
+    [amountSuffix, divisor, formatAmount]
   );
 
   return (
@@ -259,10 +274,10 @@ export default function VendorsDashboardClient({
 
             <div className="rounded-xl border border-slate-200 bg-slate-50 px-3 py-3">
               <p className="text-[11px] font-semibold uppercase tracking-wide text-slate-500">
-                Total spend
+                Total spend{amountSuffix}
               </p>
               <p className="mt-1 text-base font-semibold text-slate-900">
-                {formatCurrency(totalSpend)}
+                {formatAmount(shown(totalSpend))}
               </p>
               <p className="mt-1 text-xs text-slate-600">
                 Sum of all vendor payments for{" "}
@@ -294,10 +309,13 @@ export default function VendorsDashboardClient({
                 Vendors
               </h2>
               <p className="text-sm text-slate-600">
-                Click a vendor name to jump to their transactions in the
-                Transactions explorer.
+                Click a vendor name to see every year&apos;s payments,
+                who paid them, and their transactions.
               </p>
             </div>
+            {selectedYear !== null && (
+              <PerCapitaToggle population={population} years={[selectedYear]} />
+            )}
           </div>
 
           {rows.length === 0 ? (
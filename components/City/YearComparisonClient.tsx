@@ -0,0 +1,396 @@
+"use client";
+
+import { useMemo } from "react";
+import Link from "next/link";
+import { usePathname, useSearchParams } from "next/navigation";
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  CartesianGrid,
+} from "recharts";
+import CardContainer from "../CardContainer";
+import SectionHeader from "../SectionHeader";
+import CompareYearsSelect from "../CompareYearsSelect";
+import DollarsToggle from "../DollarsToggle";
+import PerCapitaToggle from "../PerCapitaToggle";
+import DataTable, { DataTableColumn } from "../DataTable";
+import { formatCurrency, formatCurrencyCompact, formatPercent } from "@/lib/format";
+import { cityHref } from "@/lib/cityRouting";
+import { CITY_CONFIG } from "@/lib/cityConfig";
+import {
+  largestMovers,
+  type ComparisonRow,
+  type YearComparison,
+} from "@/lib/yearComparison";
+import type { Deflator } from "@/lib/inflation";
+import {
+  formatPerCapita,
+  pickPerCapita,
+  PER_CAPITA_LABELS,
+  type Population,
+} from "@/lib/perCapita";
+
+type Props = {
+  eyebrow: string;
+  title: string;
+  description: string;
+  fiscalNote?: string;
+  years: number[]; // every year that can be compared
+  comparison: YearComparison;
+  entityLabel: string; // "Department", "Revenue source"
+  measure?: string; // value of ?measure= when the page offers a choice
+  measureOptions?: { value: string; label: string }[];
+  linkDepartments?: boolean; // names link to the department pages
+  deflator?: Deflator | null; // set when amounts are in constant dollars
+  population?: Population | null; // amounts are per capita under ?per=
+};
+
+// Entities drawn in the chart, by latest-year amount
+const CHART_LIMIT = 8;
+
+// One bar color per compared year, oldest first
+const YEAR_COLORS = ["#94a3b8", "#64748b", "#0f766e", "#1d4ed8", "#0f172a"];
+
+function signedCurrency(value: number, format: (v: number) => string = formatCurrency): string {
+  if (value === 0) return format(0);
+  return `${value > 0 ? "+" : "−"}${format(Math.abs(value))}`;
+}
+
+function signedPercent(value: number | null): string {
+  if (value === null) return "–";
+  if (value === 0) return formatPercent(0);
+  return `${value > 0 ? "+" : "−"}${formatPercent(Math.abs(value))}`;
+}
+
+function EntityName({ name, year, link }: { name: string; year: number; link: boolean }) {
+  if (!link) return <span className="font-medium text-slate-800">{name}</span>;
+  return (
+    <Link
+      href={`${cityHref(`/departments/${encodeURIComponent(name)}`)}?year=${year}`}
+      className="font-medium text-slate-800 hover:underline"
+    >
+      {name}
+    </Link>
+  );
+}
+
+function changeClass(value: number): string {
+  return value > 0 ? "text-emerald-700" : value < 0 ? "text-red-700" : "text-slate-600";
+}
+
+export default function YearComparisonClient({
+  eyebrow,
+  title,
+  description,
+  fiscalNote,
+  years,
+  comparison,
+  entityLabel,
+  measure,
+  measureOptions,
+  linkDepartments = false,
+  deflator = null,
+  population = null,
+}: Props) {
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const accentColor =
+    CITY_CONFIG.accentColor || CITY_CONFIG.primaryColor || undefined;
+
+  const basis = population ? pickPerCapita(searchParams.get("per") ?? undefined) : "total";
+  const formatAmount = basis === "total" ? formatCurrency : formatPerCapita;
+  const amountSuffix = basis === "total" ? "" : ` ${PER_CAPITA_LABELS[basis].toLowerCase()}`;
+
+  const compared = comparison.years;
+  const firstYear = compared[0];
+  const lastYear = compared[compared.length - 1];
+  const { total } = comparison;
+  const movers = largestMovers(comparison.rows);
+
+  const measureHref = (value: string) => {
+    const params = new URLSearchParams(searchParams.toString());
+    params.set("measure", value);
+    return `${pathname}?${params.toString()}`;
+  };
+
+  const chartData = useMemo(
+    () =>
+      comparison.rows
+        .slice()
+        .sort((a, b) => b.values[b.values.length - 1] - a.values[a.values.length - 1])
+        .slice(0, CHART_LIMIT)
+        .map((row) => {
+          const point: Record<string, string | number> = { name: row.name };
+          compared.forEach((year, i) => {
+            point[String(year)] = row.values[i];
+          });
+          return point;
+        }),
+    [comparison.rows, compared]
+  );
+
+  const columns: DataTableColumn<ComparisonRow>[] = useMemo(
+    () => [
+      {
+        key: "name",
+        header: entityLabel,
+        sortable: true,
+        sortAccessor: (row) => row.name.toLowerCase(),
+        cell: (row) => <EntityName name={row.name} year={lastYear} link={linkDepartments} />,
+      },
+      ...compared.map(
+        (year, i): DataTableColumn<ComparisonRow> => ({
+          key: `year-${year}`,
+          header: `FY ${year}`,
+          sortable: true,
+          sortAccessor: (row) => row.values[i],
+          headerClassName: "text-right",
+          cellClassName: "text-right font-mono",
+          cell: (row) => formatAmount(row.values[i]),
+        })
+      ),
+      {
+        key: "change",
+        header: "Change",
+        sortable: true,
+        sortAccessor: (row) => row.change,
+        headerClassName: "text-right",
+        cellClassName: "text-right font-mono whitespace-nowrap",
+        cell: (row) => (
+          <span className={changeClass(row.change)}>{signedCurrency(row.change, formatAmount)}</span>
+        ),
+      },
+      {
+        key: "changePercent",
+        header: "Change %",
+        sortable: true,
+        sortAccessor: (row) => row.changePercent,
+        headerClassName: "text-right",
+        cellClassName: "text-right whitespace-nowrap",
+        cell: (row) => signedPercent(row.changePercent),
+      },
+      {
+        key: "cagr",
+        header: "Annual growth",
+        sortable: true,
+        sortAccessor: (row) => row.cagr,
+        headerClassName: "text-right",
+        cellClassName: "text-right whitespace-nowrap",
+        cell: (row) => signedPercent(row.cagr),
+      },
+    ],
+    [compared, entityLabel, linkDepartments, lastYear, formatAmount]
+  );
+
+  const moverList = (rows: ComparisonRow[], emptyText: string) =>
+    rows.length === 0 ? (
+      <p className="text-sm text-slate-600">{emptyText}</p>
+    ) : (
+      <ul className="space-y-1 text-sm">
+        {rows.map((row) => (
+          <li key={row.name} className="flex items-center justify-between gap-2">
+            <span className="truncate">
+              <EntityName name={row.name} year={lastYear} link={linkDepartments} />
+            </span>
+            <span className={`whitespace-nowrap font-mono ${changeClass(row.change)}`}>
+              {signedCurrency(row.change, formatAmount)}
+              {row.changePercent !== null && (
+                <span className="ml-1 text-xs text-slate-500">
+                  ({signedPercent(row.changePercent)})
+                </span>
+              )}
+            </span>
+          </li>
+        ))}
+      </ul>
+    );
+
+  return (
+    <div
+      id="main-content"
+      className="mx-auto max-w-6xl space-y-6 px-3 py-6 sm:px-4 sm:py-8"
+    >
+      <SectionHeader
+        eyebrow={eyebrow}
+        title={title}
+        description={description}
+        fiscalNote={fiscalNote}
+        accentColor={accentColor}
+        rightSlot={<CompareYearsSelect options={years} />}
+      />
+
+      <div className="flex flex-wrap items-center justify-between gap-3 px-1">
+        {measureOptions && measureOptions.length > 1 ? (
+          <div
+            role="group"
+            aria-label="Compare by"
+            className="flex flex-wrap items-center gap-2 text-sm"
+          >
+            <span className="text-slate-600">Compare:</span>
+            {measureOptions.map((option) => {
+              const active = option.value === measure;
+              return (
+                <Link
+                  key={option.value}
+                  href={measureHref(option.value)}
+                  aria-current={active ? "true" : undefined}
+                  className={
+                    active
+                      ? "rounded-full bg-slate-900 px-3 py-1 font-medium text-white"
+                      : "rounded-full border border-slate-300 px-3 py-1 text-slate-700 hover:bg-slate-100"
+                  }
+                >
+                  {option.label}
+                </Link>
+              );
+            })}
+          </div>
+        ) : (
+          <span />
+        )}
+        <div className="flex flex-wrap items-start gap-2">
+          <PerCapitaToggle population={population} years={compared} />
+          <DollarsToggle baseYear={lastYear} deflator={deflator} />
+        </div>
+      </div>
+
+      {/* Metrics */}
+      <div className="grid gap-4 md:grid-cols-4">
+        <CardContainer>
+          <div className="text-xs font-semibold uppercase tracking-[0.14em] text-slate-600">
+            Total FY {firstYear}
+            {amountSuffix}
+          </div>
+          <div className="mt-1 text-2xl font-bold text-slate-900">
+            {formatAmount(total.values[0])}
+          </div>
+        </CardContainer>
+
+        <CardContainer>
+          <div className="text-xs font-semibold uppercase tracking-[0.14em] text-slate-600">
+            Total FY {lastYear}
+            {amountSuffix}
+          </div>
+          <div className="mt-1 text-2xl font-bold text-slate-900">
+            {formatAmount(total.values[total.values.length - 1])}
+          </div>
+        </CardContainer>
+
+        <CardContainer>
+          <div className="text-xs font-semibold uppercase tracking-[0.14em] text-slate-600">
+            Change
+          </div>
+          <div className={`mt-1 text-2xl font-bold ${changeClass(total.change)}`}>
+            {signedCurrency(total.change, formatAmount)}
+          </div>
+          <div className="mt-1 text-sm text-slate-600">
+            {signedPercent(total.changePercent)} from FY {firstYear}
+          </div>
+        </CardContainer>
+
+        <CardContainer>
+          <div className="text-xs font-semibold uppercase tracking-[0.14em] text-slate-600">
+            Annual growth (CAGR)
+          </div>
+          <div className="mt-1 text-2xl font-bold text-slate-900">
+            {signedPercent(total.cagr)}
+          </div>
+          <div className="mt-1 text-sm text-slate-600">
+            Compounded over {lastYear - firstYear} year{lastYear - firstYear === 1 ? "" : "s"}
+          </div>
+        </CardContainer>
+      </div>
+
+      {/* Largest movers */}
+      <div className="grid gap-4 md:grid-cols-2">
+        <CardContainer>
+          <h2 className="mb-2 text-sm font-semibold text-slate-800">
+            Largest increases, FY {firstYear}–{lastYear}
+          </h2>
+          {moverList(movers.increases, "Nothing grew over these years.")}
+        </CardContainer>
+        <CardContainer>
+          <h2 className="mb-2 text-sm font-semibold text-slate-800">
+            Largest decreases, FY {firstYear}–{lastYear}
+          </h2>
+          {moverList(movers.decreases, "Nothing shrank over these years.")}
+        </CardContainer>
+      </div>
+
+      {/* Side-by-side chart */}
+      <CardContainer>
+        <figure
+          role="group"
+          aria-labelledby="comparison-chart-heading"
+          aria-describedby="comparison-chart-desc"
+          className="space-y-3"
+        >
+          <div>
+            <h2 id="comparison-chart-heading" className="text-sm font-semibold text-slate-800">
+              {entityLabel === "Department" ? "Departments" : `${entityLabel}s`} side by side
+            </h2>
+            <p id="comparison-chart-desc" className="text-sm text-slate-600">
+              The {Math.min(CHART_LIMIT, comparison.rows.length)} largest in FY {lastYear},
+              one bar per compared year. The table below lists every one.
+            </p>
+          </div>
+
+          {chartData.length === 0 ? (
+            <p className="text-sm text-slate-600">No data for the compared years.</p>
+          ) : (
+            <div className="h-72 w-full min-w-0 overflow-hidden sm:h-80">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={chartData} margin={{ top: 8, right: 16, left: 0, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                  <XAxis dataKey="name" tick={{ fontSize: 11 }} interval={0} />
+                  <YAxis
+                    tickFormatter={(v: number) => formatCurrencyCompact(v)}
+                    tick={{ fontSize: 11 }}
+                    width={70}
+                  />
+                  <Tooltip formatter={(value) => formatAmount(Number(value))} />
+                  <Legend />
+                  {compared.map((year, i) => (
+                    <Bar
+                      key={year}
+                      dataKey={String(year)}
+                      name={`FY ${year}`}
+                      fill={YEAR_COLORS[(YEAR_COLORS.length - compared.length + i) % YEAR_COLORS.length]}
+                    />
+                  ))}
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+        </figure>
+      </CardContainer>
+
+      {/* Full comparison */}
+      <CardContainer>
+        <section aria-labelledby="comparison-table-heading" className="space-y-3">
+          <div>
+            <h2 id="comparison-table-heading" className="text-sm font-semibold text-slate-800">
+              FY {compared.join(" vs. ")}
+            </h2>
+            <p className="text-sm text-slate-600">
+              Change and growth run from FY {firstYear} to FY {lastYear}. Annual
+              growth is left blank when the first year is zero.
+            </p>
+          </div>
+          <DataTable<ComparisonRow>
+            data={comparison.rows}
+            columns={columns}
+            getRowKey={(row) => row.name}
+            pageSize={25}
+            caption={`${entityLabel} totals for fiscal years ${compared.join(", ")}`}
+          />
+        </section>
+      </CardContainer>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+"use client";
+
+import { useMemo } from "react";
+import {
+  usePathname,
+  useRouter,
+  useSearchParams,
+} from "next/navigation";
+import {
+  compareParam,
+  MAX_COMPARE_YEARS,
+  parseCompareYears,
+} from "@/lib/yearComparison";
+
+type Props = {
+  options: number[];
+};
+
+/**
+ * Turns compare mode on and off and picks the compared years. The years
+ * are kept in `?compare=` so a comparison can be bookmarked or shared;
+ * `?year=` is left alone so leaving compare mode returns to it.
+ */
+export default function CompareYearsSelect({ options }: Props) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  const sortedYears = useMemo(
+    () => [...options].sort((a, b) => b - a), // Descending: newest first
+    [options]
+  );
+
+  const compared = parseCompareYears(
+    searchParams.get("compare") ?? undefined,
+    sortedYears
+  );
+
+  const navigate = (years: number[] | null) => {
+    const params = new URLSearchParams(searchParams.toString());
+    params.delete("page"); // Reset pagination
+
+    if (years) {
+      params.set("compare", compareParam(years));
+    } else {
+      params.delete("compare");
+    }
+
+    const query = params.toString();
+    router.push(query ? `${pathname}?${query}` : pathname);
+  };
+
+  if (sortedYears.length < 2) return null;
+
+  if (compared.length === 0) {
+    // Start with the selected year and the one before it
+    const currentParam = Number(searchParams.get("year"));
+    const current = sortedYears.includes(currentParam) ? currentParam : sortedYears[0];
+    const index = sortedYears.indexOf(current);
+    const other = sortedYears[index + 1] ?? sortedYears[index - 1];
+
+    return (
+      <button
+        type="button"
+        onClick={() => navigate([other, current])}
+        className="rounded-full border border-slate-300 bg-white px-3 py-1 text-xs font-medium text-slate-700 hover:bg-slate-50 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-slate-900 focus-visible:ring-offset-1"
+      >
+        Compare years
+      </button>
+    );
+  }
+
+  const toggle = (year: number) => {
+    if (compared.includes(year)) {
+      if (compared.length > 2) navigate(compared.filter((y) => y !== year));
+    } else if (compared.length < MAX_COMPARE_YEARS) {
+      navigate([...compared, year]);
+    }
+  };
+
+  return (
+    <div className="inline-flex flex-col items-end gap-1 text-right">
+      <span className="text-xs font-semibold uppercase tracking-wide text-slate-600">
+        Comparing years
+      </span>
+      <div className="flex flex-wrap items-center justify-end gap-2">
+        <div
+          className="inline-flex flex-wrap items-center gap-1 rounded-full bg-slate-100 p-0.5"
+          role="group"
+          aria-label="Years to compare"
+        >
+          {sortedYears.map((year) => {
+            const active = compared.includes(year);
+            const locked = active
+              ? compared.length <= 2
+              : compared.length >= MAX_COMPARE_YEARS;
+            return (
+              <button
+                key={year}
+                type="button"
+                onClick={() => toggle(year)}
+                aria-pressed={active}
+                aria-disabled={locked}
+                aria-label={`${active ? "Remove" : "Add"} fiscal year ${year}`}
+                className={`rounded-full px-2 py-1 text-xs font-medium transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-slate-900 focus-visible:ring-offset-1 ${
+                  active
+                    ? "bg-white text-slate-900 shadow-sm"
+                    : "text-slate-700 hover:bg-white/60"
+                } ${locked ? "cursor-not-allowed" : ""}`}
+              >
+                {year}
+              </button>
+            );
+          })}
+        </div>
+        <button
+          type="button"
+          onClick={() => navigate(null)}
+          className="rounded-full border border-slate-300 bg-white px-3 py-1 text-xs font-medium text-slate-700 hover:bg-slate-50 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-slate-900 focus-visible:ring-offset-1"
+        >
+          Single year
+        </button>
+      </div>
+    </div>
+  );
+}
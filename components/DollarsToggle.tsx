@@ -0,0 +1,78 @@
+"use client";
+
+import {
+  usePathname,
+  useRouter,
+  useSearchParams,
+} from "next/navigation";
+import { constantDollarsLabel, pickDollars, type Deflator } from "@/lib/inflation";
+
+type Props = {
+  baseYear: number | null; // newest fiscal year on the page
+  deflator?: Deflator | null; // set while constant dollars are shown
+};
+
+/**
+ * Switches multi-year figures between nominal and constant (inflation-
+ * adjusted) dollars through `?dollars=real`.
+ */
+export default function DollarsToggle({ baseYear, deflator = null }: Props) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  if (baseYear === null) return null;
+
+  const mode = pickDollars(searchParams.get("dollars") ?? undefined);
+
+  const setMode = (value: "nominal" | "real") => {
+    const params = new URLSearchParams(searchParams.toString());
+    if (value === "real") {
+      params.set("dollars", "real");
+    } else {
+      params.delete("dollars");
+    }
+    const query = params.toString();
+    router.push(query ? `${pathname}?${query}` : pathname, { scroll: false });
+  };
+
+  const options = [
+    { value: "nominal" as const, label: "Nominal dollars" },
+    { value: "real" as const, label: constantDollarsLabel(baseYear) },
+  ];
+
+  return (
+    <div className="inline-flex flex-col items-start gap-1">
+      <div
+        className="inline-flex items-center gap-1 rounded-full bg-slate-100 p-0.5"
+        role="group"
+        aria-label="Dollar basis"
+      >
+        {options.map((option) => {
+          const active = mode === option.value;
+          return (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => setMode(option.value)}
+              aria-pressed={active}
+              className={`rounded-full px-2 py-1 text-xs font-medium transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-slate-900 focus-visible:ring-offset-1 ${
+                active
+                  ? "bg-white text-slate-900 shadow-sm"
+                  : "text-slate-700 hover:bg-white/60"
+              }`}
+            >
+              {option.label}
+            </button>
+          );
+        })}
+      </div>
+      {mode === "real" && deflator && deflator.estimatedYears.length > 0 && (
+        <p className="text-xs text-slate-500">
+          No price index loaded for FY{" "}
+          {deflator.estimatedYears.join(", ")}; the nearest loaded year is used.
+        </p>
+      )}
+    </div>
+  );
+}
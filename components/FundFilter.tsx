@@ -0,0 +1,67 @@
+"use client";
+
+import { useId } from "react";
+import {
+  usePathname,
+  useRouter,
+  useSearchParams,
+} from "next/navigation";
+import { pickFund } from "@/lib/funds";
+
+type Props = {
+  funds: string[];
+  label?: string;
+};
+
+/**
+ * Portal-wide fund filter. Writes `?fund=` on the current page; the
+ * sidebar carries it to the other pages that respect it.
+ */
+export default function FundFilter({ funds, label = "Fund" }: Props) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const selectId = useId();
+
+  const current = pickFund(searchParams.get("fund") ?? undefined, funds);
+
+  const setFund = (value: string) => {
+    const params = new URLSearchParams(searchParams.toString());
+    params.delete("page"); // Reset pagination
+
+    if (value) {
+      params.set("fund", value);
+    } else {
+      params.delete("fund");
+    }
+
+    const query = params.toString();
+    router.push(query ? `${pathname}?${query}` : pathname);
+  };
+
+  if (funds.length < 2) return null;
+
+  return (
+    <div className="inline-block w-full max-w-xs">
+      <label
+        htmlFor={selectId}
+        className="mb-1 block text-xs font-semibold uppercase tracking-wide text-slate-600"
+      >
+        {label}
+      </label>
+      <select
+        id={selectId}
+        value={current ?? ""}
+        onChange={(e) => setFund(e.target.value)}
+        className="w-full rounded-md border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm focus:border-slate-900 focus:outline-none focus:ring-1 focus:ring-slate-900"
+      >
+        <option value="">All funds</option>
+        {funds.map((fund) => (
+          <option key={fund} value={fund}>
+            {fund}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
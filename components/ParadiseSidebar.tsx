@@ -2,22 +2,26 @@
 "use client";
 
 import Link from "next/link";
-import { usePathname } from "next/navigation";
+import { usePathname, useSearchParams } from "next/navigation";
 import { useEffect, useState, useRef } from "react";
 import { CITY_CONFIG } from "@/lib/cityConfig";
 import { supabase } from "@/lib/supabase";
 import { CITY_SLUG, cityHref } from "@/lib/cityRouting";
+import { FUND_FILTER_PATHS, pickFund, withFund } from "@/lib/funds";
 
 const navItems = [
   { path: "/", label: "Home" },
   { path: "/overview", label: "Overview" },
   { path: "/analytics", label: "Analytics" },
   { path: "/budget", label: "Budget" },
+  { path: "/execution", label: "Budget execution" },
   { path: "/departments", label: "Departments" },
+  { path: "/funds", label: "Funds" },
   { path: "/revenues", label: "Revenues" },
   { path: "/transactions", label: "Transactions" },
   { path: "/vendors", label: "Vendors" },
   { path: "/download", label: "Download" },
+  { path: "/developers", label: "Developer API" },
 ];
 
 type PortalBranding = {
@@ -37,14 +41,20 @@ type PortalBranding = {
 type Props = {
   initialBranding?: PortalBranding | null;
   initialIsPublished?: boolean;
+  funds?: string[];
 };
 
 export default function ParadiseSidebar({
   initialBranding = null,
   initialIsPublished = true,
+  funds = [],
 }: Props) {
 
   const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  // Fund filter carried to the pages that respect it
+  const selectedFund = pickFund(searchParams.get("fund") ?? undefined, funds);
 
   const [branding] = useState<PortalBranding | null>(initialBranding);
   const [mobileOpen, setMobileOpen] = useState(false);
@@ -207,12 +217,18 @@ export default function ParadiseSidebar({
                 // Strict feature gating on nav visibility
                 if (
                   (item.path === "/analytics" ||
-                    item.path === "/departments") &&
+                    item.path === "/execution" ||
+                    item.path === "/departments" ||
+                    item.path === "/funds") &&
                   !enableActuals
                 ) {
                   return null;
                 }
 
+                if (item.path === "/funds" && funds.length === 0) {
+                  return null;
+                }
+
                 if (item.path === "/transactions" && !enableTransactions) {
                   return null;
                 }
@@ -225,7 +241,9 @@ export default function ParadiseSidebar({
                   return null;
                 }
 
-                const href = cityHref(item.path);
+                const href = FUND_FILTER_PATHS.includes(item.path)
+                  ? withFund(cityHref(item.path), selectedFund)
+                  : cityHref(item.path);
                 const active = isActive(item.path);
                 const isDepartmentsItem = item.path === "/departments";
 
@@ -328,12 +346,18 @@ export default function ParadiseSidebar({
                 // Strict feature gating on nav visibility
                 if (
                   (item.path === "/analytics" ||
-                    item.path === "/departments") &&
+                    item.path === "/execution" ||
+                    item.path === "/departments" ||
+                    item.path === "/funds") &&
                   !enableActuals
                 ) {
                   return null;
                 }
 
+                if (item.path === "/funds" && funds.length === 0) {
+                  return null;
+                }
+
                 if (item.path === "/transactions" && !enableTransactions) {
                   return null;
                 }
@@ -346,7 +370,9 @@ export default function ParadiseSidebar({
                   return null;
                 }
 
-                const href = cityHref(item.path);
+                const href = FUND_FILTER_PATHS.includes(item.path)
+                  ? withFund(cityHref(item.path), selectedFund)
+                  : cityHref(item.path);
                 const active = isActive(item.path);
                 const isDepartmentsItem = item.path === "/departments";
 
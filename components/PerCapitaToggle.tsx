@@ -0,0 +1,84 @@
+"use client";
+
+import {
+  usePathname,
+  useRouter,
+  useSearchParams,
+} from "next/navigation";
+import {
+  PER_CAPITA_LABELS,
+  pickPerCapita,
+  type PerCapitaBasis,
+  type Population,
+} from "@/lib/perCapita";
+
+type Props = {
+  population: Population | null;
+  years: number[]; // fiscal years the amounts below come from
+};
+
+/**
+ * Switches amounts between totals and per-resident or per-household
+ * figures through `?per=`. Hidden until a population is loaded.
+ */
+export default function PerCapitaToggle({ population, years }: Props) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  if (!population) return null;
+
+  const basis = pickPerCapita(searchParams.get("per") ?? undefined);
+
+  const setBasis = (value: PerCapitaBasis) => {
+    const params = new URLSearchParams(searchParams.toString());
+    if (value === "total") {
+      params.delete("per");
+    } else {
+      params.set("per", value);
+    }
+    const query = params.toString();
+    router.push(query ? `${pathname}?${query}` : pathname, { scroll: false });
+  };
+
+  const options: PerCapitaBasis[] = population.hasHouseholds
+    ? ["total", "resident", "household"]
+    : ["total", "resident"];
+
+  const estimated = years.filter((y) => population.estimatedYears.includes(y));
+
+  return (
+    <div className="inline-flex flex-col items-start gap-1">
+      <div
+        className="inline-flex items-center gap-1 rounded-full bg-slate-100 p-0.5"
+        role="group"
+        aria-label="Show amounts"
+      >
+        {options.map((value) => {
+          const active = basis === value;
+          return (
+            <button
+              key={value}
+              type="button"
+              onClick={() => setBasis(value)}
+              aria-pressed={active}
+              className={`rounded-full px-2 py-1 text-xs font-medium transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-slate-900 focus-visible:ring-offset-1 ${
+                active
+                  ? "bg-white text-slate-900 shadow-sm"
+                  : "text-slate-700 hover:bg-white/60"
+              }`}
+            >
+              {PER_CAPITA_LABELS[value]}
+            </button>
+          );
+        })}
+      </div>
+      {basis !== "total" && estimated.length > 0 && (
+        <p className="text-xs text-slate-500">
+          No population loaded for FY {estimated.join(", ")}; the nearest
+          loaded year is used.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -125,6 +125,58 @@ CREATE TABLE public.portal_settings (
 ALTER TABLE public.portal_settings ENABLE ROW LEVEL SECURITY;
 
 
+-- Rules behind the overview's key insights. Each row is one rule: what it
+-- measures (kind), its thresholds (params, shaped per kind), how serious a
+-- match is and the wording shown for it. Templates use {placeholders};
+-- lib/insights.ts lists the ones each kind fills in.
+CREATE TABLE public.insight_rules (
+  id BIGSERIAL PRIMARY KEY,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  kind TEXT NOT NULL CHECK (kind IN ('budget_threshold', 'yoy_change', 'revenue_shortfall', 'vendor_concentration')),
+  name TEXT NOT NULL CHECK (btrim(name) <> ''),
+  severity TEXT NOT NULL DEFAULT 'info' CHECK (severity IN ('critical', 'warning', 'info')),
+  params JSONB NOT NULL DEFAULT '{}'::jsonb,
+  title_template TEXT NOT NULL CHECK (btrim(title_template) <> ''),
+  description_template TEXT NOT NULL DEFAULT '',
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  max_results INTEGER CHECK (max_results IS NULL OR max_results > 0),
+  sort_order INTEGER NOT NULL DEFAULT 0
+);
+
+-- Enable RLS
+ALTER TABLE public.insight_rules ENABLE ROW LEVEL SECURITY;
+
+
+-- Price index by fiscal year for constant-dollar views: an amount from
+-- year Y is shown in base-year dollars as amount * index(base) / index(Y).
+-- Seeded with CPI-U annual averages; admins can replace them with their
+-- own deflator.
+CREATE TABLE public.cpi_index (
+  fiscal_year INTEGER PRIMARY KEY,
+  index_value NUMERIC NOT NULL CHECK (index_value > 0),
+  source TEXT,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.cpi_index ENABLE ROW LEVEL SECURITY;
+
+-- Residents (and optionally households) by fiscal year. Amounts from year Y
+-- are shown per resident as amount / population(Y); a year without a row
+-- uses the nearest earlier one.
+CREATE TABLE public.population_by_year (
+  fiscal_year INTEGER PRIMARY KEY,
+  population INTEGER NOT NULL CHECK (population > 0),
+  households INTEGER CHECK (households > 0),
+  source TEXT,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.population_by_year ENABLE ROW LEVEL SECURITY;
+
+
 -- ============================================================================
 -- 3. BUDGETS TABLE
 -- ============================================================================
@@ -141,6 +193,7 @@ CREATE TABLE public.budgets (
   account_code TEXT,
   account_name TEXT,
   amount NUMERIC NOT NULL,
+  upload_job_id BIGINT, -- upload job that loaded the row (see upload_jobs)
   CONSTRAINT budgets_pkey PRIMARY KEY (id)
 );
 
@@ -166,6 +219,7 @@ CREATE TABLE public.actuals (
   account_name TEXT,
   amount NUMERIC NOT NULL,
   fiscal_period INTEGER CHECK (fiscal_period IS NULL OR (fiscal_period >= 1 AND fiscal_period <= 12)),
+  upload_job_id BIGINT, -- upload job that loaded the row (see upload_jobs)
   CONSTRAINT actuals_pkey PRIMARY KEY (id)
 );
 
@@ -178,6 +232,32 @@ ALTER TABLE public.actuals ENABLE ROW LEVEL SECURITY;
 -- ============================================================================
 -- Stores individual payment/transaction records.
 
+-- Content fingerprint of a transaction, used to spot a file that was already
+-- uploaded. Text fields are compared trimmed and case-insensitively and the
+-- amount without trailing zeros, so 12.50 and 12.5 match. Declared IMMUTABLE
+-- (to_char on a DATE doesn't depend on settings) so it can back a generated
+-- column.
+CREATE OR REPLACE FUNCTION public.transaction_fingerprint(
+  p_date DATE,
+  p_vendor TEXT,
+  p_amount NUMERIC,
+  p_account_code TEXT,
+  p_description TEXT
+)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+PARALLEL SAFE
+AS $$
+  SELECT md5(concat_ws('|',
+    to_char(p_date, 'YYYY-MM-DD'),
+    lower(btrim(COALESCE(p_vendor, ''))),
+    trim_scale(p_amount)::text,
+    lower(btrim(COALESCE(p_account_code, ''))),
+    lower(btrim(COALESCE(p_description, '')))
+  ))
+$$;
+
 CREATE TABLE public.transactions (
   id UUID NOT NULL DEFAULT gen_random_uuid(),
   date DATE NOT NULL,
@@ -193,6 +273,10 @@ CREATE TABLE public.transactions (
   amount NUMERIC NOT NULL,
   search_fts TSVECTOR DEFAULT to_tsvector('english', (COALESCE(vendor, '') || ' ' || COALESCE(description, ''))),
   fiscal_period INTEGER CHECK (fiscal_period IS NULL OR (fiscal_period >= 1 AND fiscal_period <= 12)),
+  upload_job_id BIGINT, -- upload job that loaded the row (see upload_jobs)
+  row_fingerprint TEXT GENERATED ALWAYS AS (
+    public.transaction_fingerprint(date, vendor, amount, account_code, description)
+  ) STORED, -- duplicate detection for append uploads
   CONSTRAINT transactions_pkey PRIMARY KEY (id)
 );
 
@@ -219,6 +303,7 @@ CREATE TABLE public.revenues (
   account_name TEXT,
   amount NUMERIC NOT NULL,
   fiscal_period INTEGER CHECK (fiscal_period IS NULL OR (fiscal_period >= 1 AND fiscal_period <= 12)),
+  upload_job_id BIGINT, -- upload job that loaded the row (see upload_jobs)
   CONSTRAINT revenues_pkey PRIMARY KEY (id)
 );
 
@@ -226,6 +311,134 @@ CREATE TABLE public.revenues (
 ALTER TABLE public.revenues ENABLE ROW LEVEL SECURITY;
 
 
+-- ============================================================================
+-- 6a. MASTER DATA TABLES (funds, departments, accounts)
+-- ============================================================================
+-- Each registry is keyed by the ERP code and holds the canonical display
+-- name. Uploads replace the name on incoming rows with the registered one
+-- (matched by code, or by name key when the code is unknown), and
+-- the department rollups group by it.
+
+-- Key registry names are matched on: the HTML escaping uploads apply undone,
+-- whitespace collapsed, trimmed and lowercased. masterDataNameKey in
+-- lib/masterData.ts must give the same key for the same name.
+CREATE OR REPLACE FUNCTION public.master_data_name_key(p_name TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+PARALLEL SAFE
+AS $$
+  SELECT lower(btrim(regexp_replace(
+    replace(replace(replace(p_name, '&lt;', '<'), '&gt;', '>'), '&amp;', '&'),
+    '\s+', ' ', 'g'
+  )))
+$$;
+
+CREATE TABLE public.funds (
+  code TEXT NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  parent_code TEXT REFERENCES public.funds(code) ON UPDATE CASCADE ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT funds_pkey PRIMARY KEY (code),
+  CONSTRAINT funds_code_not_blank CHECK (btrim(code) <> ''),
+  CONSTRAINT funds_name_not_blank CHECK (btrim(name) <> '')
+);
+
+-- Enable RLS
+ALTER TABLE public.funds ENABLE ROW LEVEL SECURITY;
+
+
+CREATE TABLE public.departments (
+  code TEXT NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  parent_code TEXT REFERENCES public.departments(code) ON UPDATE CASCADE ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT departments_pkey PRIMARY KEY (code),
+  CONSTRAINT departments_code_not_blank CHECK (btrim(code) <> ''),
+  CONSTRAINT departments_name_not_blank CHECK (btrim(name) <> '')
+);
+
+-- Enable RLS
+ALTER TABLE public.departments ENABLE ROW LEVEL SECURITY;
+
+
+CREATE TABLE public.accounts (
+  code TEXT NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  parent_code TEXT REFERENCES public.accounts(code) ON UPDATE CASCADE ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT accounts_pkey PRIMARY KEY (code),
+  CONSTRAINT accounts_code_not_blank CHECK (btrim(code) <> ''),
+  CONSTRAINT accounts_name_not_blank CHECK (btrim(name) <> '')
+);
+
+-- Enable RLS
+ALTER TABLE public.accounts ENABLE ROW LEVEL SECURITY;
+
+
+-- Old department names and the current department they are reported under.
+-- A rename or merger is one row per old name with share 1; a split is one
+-- row per successor with the share of the old department's amounts it takes
+-- (shares of one alias add up to 1). With effective_fiscal_year set, the
+-- alias restates only earlier years, so a name reused later stays separate.
+-- Raw rows keep the name they were loaded with; rollups, search, exports
+-- and department pages apply the aliases.
+CREATE TABLE public.department_aliases (
+  id BIGSERIAL PRIMARY KEY,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  alias TEXT NOT NULL CHECK (btrim(alias) <> ''),
+  department_name TEXT NOT NULL CHECK (btrim(department_name) <> ''),
+  share NUMERIC NOT NULL DEFAULT 1 CHECK (share > 0 AND share <= 1),
+  effective_fiscal_year INTEGER,
+  note TEXT,
+  created_by TEXT,
+  CONSTRAINT department_aliases_alias_target_key UNIQUE (alias, department_name)
+);
+
+-- Enable RLS
+ALTER TABLE public.department_aliases ENABLE ROW LEVEL SECURITY;
+
+
+-- Vendor spellings and the canonical vendor they are reported under
+-- ("ACME INC." -> "Acme, Inc."). Canonical names are never aliases
+-- themselves, so a lookup is one step. Raw transactions keep the vendor
+-- they were loaded with; rollups, search, exports and vendor pages apply
+-- the aliases.
+CREATE TABLE public.vendor_aliases (
+  id BIGSERIAL PRIMARY KEY,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  alias TEXT NOT NULL CHECK (btrim(alias) <> ''),
+  canonical_vendor TEXT NOT NULL CHECK (btrim(canonical_vendor) <> ''),
+  created_by TEXT,
+  CONSTRAINT vendor_aliases_not_self CHECK (lower(btrim(alias)) <> lower(btrim(canonical_vendor)))
+);
+
+-- Enable RLS
+ALTER TABLE public.vendor_aliases ENABLE ROW LEVEL SECURITY;
+
+
+-- Suggested vendor pairs an admin rejected, so they aren't suggested again.
+-- Names are stored lowercased and trimmed.
+CREATE TABLE public.vendor_merge_rejections (
+  id BIGSERIAL PRIMARY KEY,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  vendor_a TEXT NOT NULL,
+  vendor_b TEXT NOT NULL,
+  created_by TEXT,
+  CONSTRAINT vendor_merge_rejections_pair_key UNIQUE (vendor_a, vendor_b)
+);
+
+-- Enable RLS
+ALTER TABLE public.vendor_merge_rejections ENABLE ROW LEVEL SECURITY;
+
+
 -- ============================================================================
 -- 7. ROLLUP TABLES (Pre-aggregated for performance)
 -- ============================================================================
@@ -271,10 +484,131 @@ CREATE TABLE public.transaction_year_vendor (
 ALTER TABLE public.transaction_year_vendor ENABLE ROW LEVEL SECURITY;
 
 
+-- Budget vs Actuals by Fund and Department (fund dashboards and fund filter)
+CREATE TABLE public.budget_actuals_year_fund (
+  fiscal_year INTEGER NOT NULL,
+  fund_name TEXT NOT NULL,
+  department_name TEXT NOT NULL,
+  budget_amount NUMERIC NOT NULL DEFAULT 0,
+  actual_amount NUMERIC NOT NULL DEFAULT 0,
+  CONSTRAINT budget_actuals_year_fund_pkey PRIMARY KEY (fiscal_year, fund_name, department_name)
+);
+
+-- Enable RLS
+ALTER TABLE public.budget_actuals_year_fund ENABLE ROW LEVEL SECURITY;
+
+
+-- Transaction totals by Fund and Department
+CREATE TABLE public.transaction_year_fund (
+  fiscal_year INTEGER NOT NULL,
+  fund_name TEXT NOT NULL,
+  department_name TEXT NOT NULL,
+  total_amount NUMERIC NOT NULL,
+  txn_count BIGINT NOT NULL,
+  CONSTRAINT transaction_year_fund_pkey PRIMARY KEY (fiscal_year, fund_name, department_name)
+);
+
+-- Enable RLS
+ALTER TABLE public.transaction_year_fund ENABLE ROW LEVEL SECURITY;
+
+
+-- Actuals by Department and Fiscal Period (budget execution)
+CREATE TABLE public.actuals_year_period (
+  fiscal_year INTEGER NOT NULL,
+  department_name TEXT NOT NULL,
+  fiscal_period INTEGER NOT NULL,
+  actual_amount NUMERIC NOT NULL DEFAULT 0,
+  CONSTRAINT actuals_year_period_pkey PRIMARY KEY (fiscal_year, department_name, fiscal_period)
+);
+
+-- Enable RLS
+ALTER TABLE public.actuals_year_period ENABLE ROW LEVEL SECURITY;
+
+
 -- ============================================================================
 -- 8. ADMIN/AUDIT TABLES
 -- ============================================================================
 
+-- Upload Jobs (one per upload; tracks progress so uploads can be resumed)
+CREATE TABLE public.upload_jobs (
+  id BIGSERIAL PRIMARY KEY,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  table_name TEXT NOT NULL,
+  mode TEXT NOT NULL,
+  replace_year INTEGER,
+  filename TEXT,
+  storage_path TEXT NOT NULL,
+  column_mapping JSONB,
+  file_format JSONB,
+  duplicate_policy TEXT CHECK (duplicate_policy IN ('skip', 'insert')),
+  status TEXT NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'validating', 'inserting', 'refreshing_rollups', 'done', 'failed')),
+  total_rows INTEGER,
+  rows_inserted INTEGER NOT NULL DEFAULT 0,
+  rows_skipped INTEGER NOT NULL DEFAULT 0, -- duplicates left out of an append
+  chunk_size INTEGER NOT NULL DEFAULT 5000,
+  last_committed_chunk INTEGER NOT NULL DEFAULT -1,
+  years_in_data INTEGER[],
+  error_message TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  locked_until TIMESTAMPTZ,
+  admin_identifier TEXT,
+  finished_at TIMESTAMPTZ,
+  total_amount NUMERIC,
+  staged_columns TEXT[],
+  swapped_at TIMESTAMPTZ,
+  snapshot_discarded_at TIMESTAMPTZ,
+  scan_checkpoint JSONB -- validation progress of a scan that ran out of time
+);
+
+-- Enable RLS
+ALTER TABLE public.upload_jobs ENABLE ROW LEVEL SECURITY;
+
+
+-- Upload Staging Tables (replace uploads land here before swap_staged_upload
+-- moves them into the live table; service role only, so no policies)
+CREATE TABLE public.upload_staging_budgets (
+  LIKE public.budgets INCLUDING DEFAULTS
+);
+
+ALTER TABLE public.upload_staging_budgets
+  ALTER COLUMN upload_job_id SET NOT NULL,
+  ADD FOREIGN KEY (upload_job_id) REFERENCES public.upload_jobs(id) ON DELETE CASCADE;
+
+ALTER TABLE public.upload_staging_budgets ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE public.upload_staging_actuals (
+  LIKE public.actuals INCLUDING DEFAULTS
+);
+
+ALTER TABLE public.upload_staging_actuals
+  ALTER COLUMN upload_job_id SET NOT NULL,
+  ADD FOREIGN KEY (upload_job_id) REFERENCES public.upload_jobs(id) ON DELETE CASCADE;
+
+ALTER TABLE public.upload_staging_actuals ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE public.upload_staging_transactions (
+  LIKE public.transactions INCLUDING DEFAULTS
+);
+
+ALTER TABLE public.upload_staging_transactions
+  ALTER COLUMN upload_job_id SET NOT NULL,
+  ADD FOREIGN KEY (upload_job_id) REFERENCES public.upload_jobs(id) ON DELETE CASCADE;
+
+ALTER TABLE public.upload_staging_transactions ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE public.upload_staging_revenues (
+  LIKE public.revenues INCLUDING DEFAULTS
+);
+
+ALTER TABLE public.upload_staging_revenues
+  ALTER COLUMN upload_job_id SET NOT NULL,
+  ADD FOREIGN KEY (upload_job_id) REFERENCES public.upload_jobs(id) ON DELETE CASCADE;
+
+ALTER TABLE public.upload_staging_revenues ENABLE ROW LEVEL SECURITY;
+
+
 -- Upload History (tracks all data uploads)
 CREATE TABLE public.data_uploads (
   id BIGSERIAL PRIMARY KEY,
@@ -284,13 +618,64 @@ CREATE TABLE public.data_uploads (
   row_count INTEGER NOT NULL,
   fiscal_year INTEGER,
   filename TEXT,
-  admin_identifier TEXT
+  admin_identifier TEXT,
+  job_id BIGINT REFERENCES public.upload_jobs(id) ON DELETE SET NULL,
+  rolled_back_at TIMESTAMPTZ,
+  rolled_back_by TEXT
 );
 
 -- Enable RLS
 ALTER TABLE public.data_uploads ENABLE ROW LEVEL SECURITY;
 
 
+-- Upload Snapshots (rows a replace upload overwrote, kept so the upload can
+-- be rolled back; service role only, so no policies)
+CREATE TABLE public.upload_snapshot_rows (
+  id BIGSERIAL PRIMARY KEY,
+  job_id BIGINT NOT NULL REFERENCES public.upload_jobs(id) ON DELETE CASCADE,
+  table_name TEXT NOT NULL,
+  fiscal_year INTEGER,
+  row_data JSONB NOT NULL
+);
+
+-- Enable RLS
+ALTER TABLE public.upload_snapshot_rows ENABLE ROW LEVEL SECURITY;
+
+
+-- Upload Mapping Profiles (saved column mappings per ERP export and table)
+CREATE TABLE public.upload_mapping_profiles (
+  id BIGSERIAL PRIMARY KEY,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  table_name TEXT NOT NULL
+    CHECK (table_name IN ('budgets', 'actuals', 'transactions', 'revenues')),
+  name TEXT NOT NULL,
+  header_signature TEXT NOT NULL,
+  source_headers TEXT[] NOT NULL DEFAULT '{}',
+  mapping JSONB NOT NULL,
+  created_by TEXT,
+  CONSTRAINT upload_mapping_profiles_table_name_key UNIQUE (table_name, name)
+);
+
+-- Enable RLS
+ALTER TABLE public.upload_mapping_profiles ENABLE ROW LEVEL SECURITY;
+
+
+-- Upload Fixed-Width Layouts (saved column positions for fixed-width exports)
+CREATE TABLE public.upload_fixed_width_layouts (
+  id BIGSERIAL PRIMARY KEY,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  name TEXT NOT NULL,
+  layout JSONB NOT NULL,
+  created_by TEXT,
+  CONSTRAINT upload_fixed_width_layouts_name_key UNIQUE (name)
+);
+
+-- Enable RLS
+ALTER TABLE public.upload_fixed_width_layouts ENABLE ROW LEVEL SECURITY;
+
+
 -- Admin Audit Log (tracks admin actions for security)
 CREATE TABLE public.admin_audit_log (
   id BIGSERIAL PRIMARY KEY,
@@ -328,6 +713,45 @@ CREATE TABLE public.rate_limits (
 ALTER TABLE public.rate_limits ENABLE ROW LEVEL SECURITY;
 
 
+-- Keys issued by admins. Only a SHA-256 hash of each key is stored; the
+-- key itself is shown once when it is created. Requests carrying a key are
+-- limited by its daily_quota instead of the per-IP limits.
+CREATE TABLE public.api_keys (
+  id BIGSERIAL PRIMARY KEY,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  name TEXT NOT NULL CHECK (btrim(name) <> ''),
+  owner_email TEXT NOT NULL CHECK (btrim(owner_email) <> ''),
+  key_prefix TEXT NOT NULL, -- first characters of the key, to tell keys apart
+  key_hash TEXT NOT NULL,
+  scopes TEXT[] NOT NULL DEFAULT ARRAY['api']::TEXT[]
+    CHECK (cardinality(scopes) > 0 AND scopes <@ ARRAY['api', 'export']::TEXT[]),
+  daily_quota INTEGER NOT NULL DEFAULT 1000 CHECK (daily_quota > 0),
+  expires_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+  last_used_at TIMESTAMPTZ,
+  created_by TEXT,
+  CONSTRAINT api_keys_key_hash_key UNIQUE (key_hash)
+);
+
+-- Enable RLS. No policies: keys are read and written by the admin API
+-- routes with the service role only.
+ALTER TABLE public.api_keys ENABLE ROW LEVEL SECURITY;
+
+
+-- Calls per key, day (UTC) and scope, for the usage dashboard. Quotas are
+-- enforced from rate_limits; these counts are kept after its rows expire.
+CREATE TABLE public.api_key_usage (
+  api_key_id BIGINT NOT NULL REFERENCES public.api_keys(id) ON DELETE CASCADE,
+  day DATE NOT NULL,
+  scope TEXT NOT NULL,
+  calls INTEGER NOT NULL DEFAULT 0,
+  CONSTRAINT api_key_usage_pkey PRIMARY KEY (api_key_id, day, scope)
+);
+
+-- Enable RLS (service role only, as above)
+ALTER TABLE public.api_key_usage ENABLE ROW LEVEL SECURITY;
+
+
 -- ============================================================================
 -- 10. INDEXES
 -- ============================================================================
@@ -337,12 +761,14 @@ CREATE INDEX actuals_fiscal_year_idx ON public.actuals (fiscal_year);
 CREATE INDEX actuals_fiscal_year_category_idx ON public.actuals (fiscal_year, category);
 CREATE INDEX actuals_fiscal_year_department_idx ON public.actuals (fiscal_year, department_name);
 CREATE INDEX idx_actuals_department_name ON public.actuals (department_name);
+CREATE INDEX actuals_export_keyset_idx ON public.actuals (department_name, id);
 
 -- Budgets indexes
 CREATE INDEX budgets_fiscal_year_idx ON public.budgets (fiscal_year);
 CREATE INDEX budgets_fiscal_year_category_idx ON public.budgets (fiscal_year, category);
 CREATE INDEX budgets_fiscal_year_department_idx ON public.budgets (fiscal_year, department_name);
 CREATE INDEX idx_budgets_department_name ON public.budgets (department_name);
+CREATE INDEX budgets_export_keyset_idx ON public.budgets (department_name, id);
 
 -- Transactions indexes (many for search performance)
 CREATE INDEX idx_transactions_fiscal_year ON public.transactions (fiscal_year);
@@ -358,9 +784,12 @@ CREATE INDEX transactions_vendor_trgm_idx ON public.transactions USING gin (vend
 CREATE INDEX transactions_description_trgm_idx ON public.transactions USING gin (description gin_trgm_ops);
 CREATE INDEX transactions_fiscal_year_account_idx ON public.transactions (fiscal_year, account_code);
 CREATE INDEX transactions_fiscal_year_fund_idx ON public.transactions (fiscal_year, fund_code);
+CREATE INDEX transactions_row_fingerprint_idx ON public.transactions (row_fingerprint);
+CREATE INDEX transactions_export_keyset_idx ON public.transactions (date DESC, id DESC);
 
 -- Revenues indexes
 CREATE INDEX revenues_fiscal_year_idx ON public.revenues (fiscal_year);
+CREATE INDEX revenues_export_keyset_idx ON public.revenues (fiscal_year DESC, id DESC);
 
 -- Rollup table indexes
 CREATE INDEX idx_bayd_year_budget ON public.budget_actuals_year_department (fiscal_year, budget_amount DESC);
@@ -368,15 +797,53 @@ CREATE INDEX idx_bayd_year_actual ON public.budget_actuals_year_department (fisc
 CREATE INDEX idx_tyd_year_total ON public.transaction_year_department (fiscal_year, total_amount DESC);
 CREATE INDEX idx_tyv_year_total ON public.transaction_year_vendor (fiscal_year, total_amount DESC);
 CREATE INDEX idx_tyv_vendor ON public.transaction_year_vendor (vendor);
+CREATE INDEX idx_bayf_fund ON public.budget_actuals_year_fund (fund_name, fiscal_year);
+CREATE INDEX idx_tyf_fund ON public.transaction_year_fund (fund_name, fiscal_year);
+CREATE INDEX idx_ayp_dept ON public.actuals_year_period (department_name, fiscal_year);
 
 -- Admin audit log indexes
 CREATE INDEX admin_audit_log_created_at_idx ON public.admin_audit_log (created_at DESC);
 CREATE INDEX admin_audit_log_action_idx ON public.admin_audit_log (action);
 CREATE INDEX admin_audit_log_table_year_idx ON public.admin_audit_log (target_table, fiscal_year);
 
+-- Upload jobs index
+CREATE INDEX upload_jobs_created_at_idx ON public.upload_jobs (created_at DESC);
+
+-- Upload staging indexes
+CREATE INDEX upload_staging_budgets_job_idx ON public.upload_staging_budgets (upload_job_id);
+CREATE INDEX upload_staging_actuals_job_idx ON public.upload_staging_actuals (upload_job_id);
+CREATE INDEX upload_staging_transactions_job_idx ON public.upload_staging_transactions (upload_job_id);
+CREATE INDEX upload_staging_revenues_job_idx ON public.upload_staging_revenues (upload_job_id);
+
+-- Upload rollback indexes
+CREATE INDEX budgets_upload_job_id_idx ON public.budgets (upload_job_id) WHERE upload_job_id IS NOT NULL;
+CREATE INDEX actuals_upload_job_id_idx ON public.actuals (upload_job_id) WHERE upload_job_id IS NOT NULL;
+CREATE INDEX transactions_upload_job_id_idx ON public.transactions (upload_job_id) WHERE upload_job_id IS NOT NULL;
+CREATE INDEX revenues_upload_job_id_idx ON public.revenues (upload_job_id) WHERE upload_job_id IS NOT NULL;
+CREATE INDEX upload_snapshot_rows_job_idx ON public.upload_snapshot_rows (job_id);
+CREATE INDEX upload_snapshot_rows_table_year_idx ON public.upload_snapshot_rows (table_name, fiscal_year);
+
+-- Upload mapping profile index
+CREATE INDEX upload_mapping_profiles_signature_idx ON public.upload_mapping_profiles (table_name, header_signature);
+
+-- Master data name indexes (canonical names are unique by name key)
+CREATE UNIQUE INDEX funds_name_key ON public.funds (public.master_data_name_key(name));
+CREATE UNIQUE INDEX departments_name_key ON public.departments (public.master_data_name_key(name));
+CREATE UNIQUE INDEX accounts_name_key ON public.accounts (public.master_data_name_key(name));
+
+-- Department alias lookup index
+CREATE INDEX department_aliases_alias_idx ON public.department_aliases (lower(btrim(alias)));
+
+-- Vendor alias lookup indexes (one canonical vendor per spelling)
+CREATE UNIQUE INDEX vendor_aliases_alias_key ON public.vendor_aliases (lower(btrim(alias)));
+CREATE INDEX vendor_aliases_canonical_idx ON public.vendor_aliases (lower(btrim(canonical_vendor)));
+
 -- Rate limits index
 CREATE INDEX idx_rate_limits_key_created ON public.rate_limits (key, created_at);
 
+-- API key usage dashboard (recent days across every key)
+CREATE INDEX api_key_usage_day_idx ON public.api_key_usage (day);
+
 
 -- ============================================================================
 -- 11. FUNCTIONS
@@ -393,6 +860,57 @@ AS $$
 $$;
 
 
+-- Count one call made with a key and note when it was last used
+CREATE OR REPLACE FUNCTION public.record_api_key_call(p_key_id BIGINT, p_scope TEXT)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  INSERT INTO api_key_usage (api_key_id, day, scope, calls)
+  VALUES (p_key_id, (now() AT TIME ZONE 'utc')::date, p_scope, 1)
+  ON CONFLICT (api_key_id, day, scope)
+  DO UPDATE SET calls = api_key_usage.calls + 1;
+
+  UPDATE api_keys SET last_used_at = now() WHERE id = p_key_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_api_key_call(BIGINT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_api_key_call(BIGINT, TEXT) TO service_role;
+
+
+-- Latest upload or rollback per table, for the open data catalogs.
+-- data_uploads is admin-only; this exposes just the timestamps, and only
+-- once the portal is published.
+CREATE OR REPLACE FUNCTION public.get_dataset_last_modified()
+RETURNS TABLE(table_name TEXT, last_modified TIMESTAMPTZ)
+LANGUAGE sql
+STABLE SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT d.table_name, max(GREATEST(d.created_at, d.rolled_back_at))
+  FROM data_uploads d
+  WHERE is_portal_published()
+  GROUP BY d.table_name;
+$$;
+
+
+-- Fund names with budget or actuals, alphabetical, for the portal-wide fund
+-- filter. Runs as the caller, so the fund rollup's "published" policy still
+-- applies.
+CREATE OR REPLACE FUNCTION public.get_fund_names()
+RETURNS TABLE(fund_name TEXT)
+LANGUAGE sql
+STABLE
+SET search_path TO 'public'
+AS $$
+  SELECT DISTINCT f.fund_name
+  FROM budget_actuals_year_fund f
+  WHERE f.fund_name <> ''
+  ORDER BY f.fund_name;
+$$;
+
+
 -- Get fiscal years for a table (admin use)
 CREATE OR REPLACE FUNCTION public.get_fiscal_years_for_table(_table TEXT)
 RETURNS TABLE(fiscal_year INTEGER)
@@ -432,6 +950,93 @@ END;
 $$;
 
 
+-- Registered department name for a row's code/name: by code first, then by
+-- name key, else the name as loaded. Rollups call it once per
+-- distinct (code, name) pair, not per row.
+CREATE OR REPLACE FUNCTION public.resolve_department_name(p_code TEXT, p_name TEXT)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SET search_path TO 'public'
+AS $$
+  SELECT COALESCE(
+    (SELECT d.name FROM public.departments d WHERE d.code = btrim(p_code)),
+    (SELECT d.name FROM public.departments d
+     WHERE public.master_data_name_key(d.name) = public.master_data_name_key(p_name)),
+    p_name
+  )
+$$;
+
+
+-- Current department(s) a department name is reported under in a fiscal
+-- year, with the share of its amounts each one gets. Follows chains of
+-- renames (at most 5 deep); a name without an alias maps to itself.
+CREATE OR REPLACE FUNCTION public.department_alias_targets(p_name TEXT, p_year INTEGER)
+RETURNS TABLE(department_name TEXT, share NUMERIC)
+LANGUAGE sql
+STABLE
+SET search_path TO 'public'
+AS $$
+  WITH RECURSIVE walk(name, share, depth) AS (
+    SELECT p_name, 1::numeric, 0
+    UNION ALL
+    SELECT a.department_name, w.share * a.share, w.depth + 1
+    FROM walk w
+    JOIN public.department_aliases a
+      ON lower(btrim(a.alias)) = lower(btrim(w.name))
+     AND (a.effective_fiscal_year IS NULL OR p_year < a.effective_fiscal_year)
+    WHERE w.depth < 5
+  )
+  SELECT w.name, SUM(w.share)
+  FROM walk w
+  WHERE w.depth = 5
+     OR NOT EXISTS (
+       SELECT 1 FROM public.department_aliases a
+       WHERE lower(btrim(a.alias)) = lower(btrim(w.name))
+         AND (a.effective_fiscal_year IS NULL OR p_year < a.effective_fiscal_year)
+     )
+  GROUP BY w.name
+$$;
+
+
+-- Vendor name with case, punctuation and company suffixes (Inc, LLC, Co,
+-- Corp, Ltd, The) ignored; two spellings with the same key are suggested
+-- as a merge. lib/vendorAliases.ts mirrors it.
+CREATE OR REPLACE FUNCTION public.vendor_match_key(p_vendor TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT btrim(regexp_replace(
+    regexp_replace(
+      regexp_replace(
+        regexp_replace(lower(COALESCE(p_vendor, '')), '&', ' and ', 'g'),
+        '[.,'']', '', 'g'),
+      '[^a-z0-9]+', ' ', 'g'),
+    '\m(the|inc|incorporated|llc|ltd|limited|co|corp|corporation|company)\M', ' ', 'g'),
+    '\s+', ' ', 'g'))
+$$;
+
+
+-- Canonical vendor for a vendor as loaded: its alias target, else the
+-- trimmed name ('Unspecified' when blank). Rollups call it once per
+-- distinct vendor, not per row.
+CREATE OR REPLACE FUNCTION public.canonical_vendor(p_vendor TEXT)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SET search_path TO 'public'
+AS $$
+  SELECT COALESCE(
+    (SELECT a.canonical_vendor
+     FROM public.vendor_aliases a
+     WHERE lower(btrim(a.alias)) = lower(btrim(p_vendor))),
+    NULLIF(btrim(p_vendor), ''),
+    'Unspecified'
+  )
+$$;
+
+
 -- Refresh budget/actuals rollup for a fiscal year
 CREATE OR REPLACE FUNCTION public.refresh_budget_actuals_rollup_for_year(_fy INTEGER)
 RETURNS VOID
@@ -451,98 +1056,173 @@ BEGIN
   )
   WITH
   b AS (
-    SELECT fiscal_year, department_name, SUM(amount)::numeric AS budget_amount
-    FROM public.budgets
-    WHERE fiscal_year = _fy
-    GROUP BY fiscal_year, department_name
+    SELECT t.department_name, SUM(g.amount * t.share)::numeric AS budget_amount
+    FROM (
+      SELECT department_code, department_name, SUM(amount) AS amount
+      FROM public.budgets
+      WHERE fiscal_year = _fy
+      GROUP BY department_code, department_name
+    ) g
+    CROSS JOIN LATERAL public.department_alias_targets(
+      public.resolve_department_name(g.department_code, g.department_name), _fy
+    ) t
+    GROUP BY t.department_name
   ),
   a AS (
-    SELECT fiscal_year, department_name, SUM(amount)::numeric AS actual_amount
-    FROM public.actuals
-    WHERE fiscal_year = _fy
-    GROUP BY fiscal_year, department_name
+    SELECT t.department_name, SUM(g.amount * t.share)::numeric AS actual_amount
+    FROM (
+      SELECT department_code, department_name, SUM(amount) AS amount
+      FROM public.actuals
+      WHERE fiscal_year = _fy
+      GROUP BY department_code, department_name
+    ) g
+    CROSS JOIN LATERAL public.department_alias_targets(
+      public.resolve_department_name(g.department_code, g.department_name), _fy
+    ) t
+    GROUP BY t.department_name
   )
   SELECT
-    COALESCE(b.fiscal_year, a.fiscal_year),
+    _fy,
     COALESCE(b.department_name, a.department_name),
     COALESCE(b.budget_amount, 0),
     COALESCE(a.actual_amount, 0)
   FROM b
   FULL OUTER JOIN a
-    ON a.fiscal_year = b.fiscal_year
-   AND a.department_name = b.department_name;
-END;
-$$;
-
+    ON a.department_name = b.department_name;
 
--- Alias function (same as above, different name for compatibility)
-CREATE OR REPLACE FUNCTION public.refresh_budget_actuals_year_department_for_year(_fy INTEGER)
-RETURNS VOID
-LANGUAGE plpgsql
-SECURITY DEFINER
-SET search_path TO 'public'
-AS $$
-BEGIN
-  DELETE FROM public.budget_actuals_year_department
+  -- Same totals split by fund, for the fund dashboards and fund filter
+  DELETE FROM public.budget_actuals_year_fund
   WHERE fiscal_year = _fy;
 
-  INSERT INTO public.budget_actuals_year_department (
+  INSERT INTO public.budget_actuals_year_fund (
     fiscal_year,
+    fund_name,
     department_name,
     budget_amount,
     actual_amount
   )
   WITH
   b AS (
-    SELECT fiscal_year, department_name, SUM(amount)::numeric AS budget_amount
-    FROM public.budgets
-    WHERE fiscal_year = _fy
-    GROUP BY fiscal_year, department_name
+    SELECT g.fund_name, t.department_name, SUM(g.amount * t.share)::numeric AS budget_amount
+    FROM (
+      SELECT
+        COALESCE(NULLIF(btrim(fund_name), ''), 'Unspecified') AS fund_name,
+        department_code,
+        department_name,
+        SUM(amount) AS amount
+      FROM public.budgets
+      WHERE fiscal_year = _fy
+      GROUP BY 1, department_code, department_name
+    ) g
+    CROSS JOIN LATERAL public.department_alias_targets(
+      public.resolve_department_name(g.department_code, g.department_name), _fy
+    ) t
+    GROUP BY g.fund_name, t.department_name
   ),
   a AS (
-    SELECT fiscal_year, department_name, SUM(amount)::numeric AS actual_amount
-    FROM public.actuals
-    WHERE fiscal_year = _fy
-    GROUP BY fiscal_year, department_name
+    SELECT g.fund_name, t.department_name, SUM(g.amount * t.share)::numeric AS actual_amount
+    FROM (
+      SELECT
+        COALESCE(NULLIF(btrim(fund_name), ''), 'Unspecified') AS fund_name,
+        department_code,
+        department_name,
+        SUM(amount) AS amount
+      FROM public.actuals
+      WHERE fiscal_year = _fy
+      GROUP BY 1, department_code, department_name
+    ) g
+    CROSS JOIN LATERAL public.department_alias_targets(
+      public.resolve_department_name(g.department_code, g.department_name), _fy
+    ) t
+    GROUP BY g.fund_name, t.department_name
   )
   SELECT
-    COALESCE(b.fiscal_year, a.fiscal_year) AS fiscal_year,
-    COALESCE(b.department_name, a.department_name) AS department_name,
-    COALESCE(b.budget_amount, 0)::numeric AS budget_amount,
-    COALESCE(a.actual_amount, 0)::numeric AS actual_amount
+    _fy,
+    COALESCE(b.fund_name, a.fund_name),
+    COALESCE(b.department_name, a.department_name),
+    COALESCE(b.budget_amount, 0),
+    COALESCE(a.actual_amount, 0)
   FROM b
   FULL OUTER JOIN a
-    ON a.fiscal_year = b.fiscal_year
+    ON a.fund_name = b.fund_name
    AND a.department_name = b.department_name;
+
+  -- Actuals by fiscal period, for budget execution curves. Rows without a
+  -- fiscal period can't be placed on the curve and are left out.
+  DELETE FROM public.actuals_year_period
+  WHERE fiscal_year = _fy;
+
+  INSERT INTO public.actuals_year_period (
+    fiscal_year,
+    department_name,
+    fiscal_period,
+    actual_amount
+  )
+  SELECT
+    _fy,
+    t.department_name,
+    g.fiscal_period,
+    SUM(g.amount * t.share)::numeric AS actual_amount
+  FROM (
+    SELECT department_code, department_name, fiscal_period, SUM(amount) AS amount
+    FROM public.actuals
+    WHERE fiscal_year = _fy
+      AND fiscal_period IS NOT NULL
+    GROUP BY department_code, department_name, fiscal_period
+  ) g
+  CROSS JOIN LATERAL public.department_alias_targets(
+    public.resolve_department_name(g.department_code, g.department_name), _fy
+  ) t
+  GROUP BY t.department_name, g.fiscal_period;
 END;
 $$;
 
 
--- Refresh transaction rollups for a fiscal year
-CREATE OR REPLACE FUNCTION public.refresh_transaction_rollups_for_year(_fy INTEGER)
+-- Alias function (same as above, different name for compatibility)
+CREATE OR REPLACE FUNCTION public.refresh_budget_actuals_year_department_for_year(_fy INTEGER)
 RETURNS VOID
 LANGUAGE plpgsql
 SECURITY DEFINER
 SET search_path TO 'public'
 AS $$
 BEGIN
-  DELETE FROM public.transaction_year_department WHERE fiscal_year = _fy;
-  DELETE FROM public.transaction_year_vendor WHERE fiscal_year = _fy;
+  PERFORM public.refresh_budget_actuals_rollup_for_year(_fy);
+END;
+$$;
 
-  INSERT INTO public.transaction_year_department (
-    fiscal_year,
+
+-- Refresh transaction rollups for a fiscal year
+CREATE OR REPLACE FUNCTION public.refresh_transaction_rollups_for_year(_fy INTEGER)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  DELETE FROM public.transaction_year_department WHERE fiscal_year = _fy;
+  DELETE FROM public.transaction_year_vendor WHERE fiscal_year = _fy;
+
+  INSERT INTO public.transaction_year_department (
+    fiscal_year,
     department_name,
     txn_count,
     total_amount
   )
   SELECT
-    fiscal_year,
-    department_name,
-    COUNT(*)::int AS txn_count,
-    SUM(amount)::numeric AS total_amount
-  FROM public.transactions
-  WHERE fiscal_year = _fy
-  GROUP BY fiscal_year, department_name;
+    _fy,
+    t.department_name,
+    ROUND(SUM(g.txn_count * t.share))::int AS txn_count,
+    SUM(g.total_amount * t.share)::numeric AS total_amount
+  FROM (
+    SELECT department_code, department_name, COUNT(*) AS txn_count, SUM(amount) AS total_amount
+    FROM public.transactions
+    WHERE fiscal_year = _fy
+    GROUP BY department_code, department_name
+  ) g
+  CROSS JOIN LATERAL public.department_alias_targets(
+    public.resolve_department_name(g.department_code, g.department_name), _fy
+  ) t
+  GROUP BY t.department_name;
 
   INSERT INTO public.transaction_year_vendor (
     fiscal_year,
@@ -551,13 +1231,48 @@ BEGIN
     total_amount
   )
   SELECT
+    _fy,
+    public.canonical_vendor(g.vendor),
+    SUM(g.txn_count)::int AS txn_count,
+    SUM(g.total_amount)::numeric AS total_amount
+  FROM (
+    SELECT vendor, COUNT(*) AS txn_count, SUM(amount) AS total_amount
+    FROM public.transactions
+    WHERE fiscal_year = _fy
+    GROUP BY vendor
+  ) g
+  GROUP BY 2;
+
+  DELETE FROM public.transaction_year_fund WHERE fiscal_year = _fy;
+
+  INSERT INTO public.transaction_year_fund (
     fiscal_year,
-    vendor,
-    COUNT(*)::int AS txn_count,
-    SUM(amount)::numeric AS total_amount
-  FROM public.transactions
-  WHERE fiscal_year = _fy
-  GROUP BY fiscal_year, vendor;
+    fund_name,
+    department_name,
+    txn_count,
+    total_amount
+  )
+  SELECT
+    _fy,
+    g.fund_name,
+    t.department_name,
+    ROUND(SUM(g.txn_count * t.share))::int AS txn_count,
+    SUM(g.total_amount * t.share)::numeric AS total_amount
+  FROM (
+    SELECT
+      COALESCE(NULLIF(btrim(fund_name), ''), 'Unspecified') AS fund_name,
+      department_code,
+      department_name,
+      COUNT(*) AS txn_count,
+      SUM(amount) AS total_amount
+    FROM public.transactions
+    WHERE fiscal_year = _fy
+    GROUP BY 1, department_code, department_name
+  ) g
+  CROSS JOIN LATERAL public.department_alias_targets(
+    public.resolve_department_name(g.department_code, g.department_name), _fy
+  ) t
+  GROUP BY g.fund_name, t.department_name;
 END;
 $$;
 
@@ -575,38 +1290,40 @@ AS $$
   )
   SELECT
     p_year AS fiscal_year,
-    dept.department_name,
+    COALESCE(b.department_name, a.department_name) AS department_name,
     COALESCE(b.budget_amount, 0) AS budget_amount,
     COALESCE(a.actual_amount, 0) AS actual_amount
   FROM (
-    SELECT DISTINCT COALESCE(NULLIF(TRIM(department_name), ''), 'Unspecified') AS department_name
-    FROM public.budgets
-    WHERE fiscal_year = p_year
-    UNION
-    SELECT DISTINCT COALESCE(NULLIF(TRIM(department_name), ''), 'Unspecified') AS department_name
-    FROM public.actuals
-    WHERE fiscal_year = p_year
-  ) dept
-  LEFT JOIN (
     SELECT
-      fiscal_year,
-      COALESCE(NULLIF(TRIM(department_name), ''), 'Unspecified') AS department_name,
-      SUM(amount) AS budget_amount
-    FROM public.budgets
-    WHERE fiscal_year = p_year
-    GROUP BY fiscal_year, COALESCE(NULLIF(TRIM(department_name), ''), 'Unspecified')
+      COALESCE(NULLIF(TRIM(t.department_name), ''), 'Unspecified') AS department_name,
+      SUM(g.amount * t.share) AS budget_amount
+    FROM (
+      SELECT department_code, department_name, SUM(amount) AS amount
+      FROM public.budgets
+      WHERE fiscal_year = p_year
+      GROUP BY department_code, department_name
+    ) g
+    CROSS JOIN LATERAL public.department_alias_targets(
+      public.resolve_department_name(g.department_code, g.department_name), p_year
+    ) t
+    GROUP BY 1
   ) b
-    ON b.fiscal_year = p_year AND b.department_name = dept.department_name
-  LEFT JOIN (
+  FULL OUTER JOIN (
     SELECT
-      fiscal_year,
-      COALESCE(NULLIF(TRIM(department_name), ''), 'Unspecified') AS department_name,
-      SUM(amount) AS actual_amount
-    FROM public.actuals
-    WHERE fiscal_year = p_year
-    GROUP BY fiscal_year, COALESCE(NULLIF(TRIM(department_name), ''), 'Unspecified')
+      COALESCE(NULLIF(TRIM(t.department_name), ''), 'Unspecified') AS department_name,
+      SUM(g.amount * t.share) AS actual_amount
+    FROM (
+      SELECT department_code, department_name, SUM(amount) AS amount
+      FROM public.actuals
+      WHERE fiscal_year = p_year
+      GROUP BY department_code, department_name
+    ) g
+    CROSS JOIN LATERAL public.department_alias_targets(
+      public.resolve_department_name(g.department_code, g.department_name), p_year
+    ) t
+    GROUP BY 1
   ) a
-    ON a.fiscal_year = p_year AND a.department_name = dept.department_name
+    ON a.department_name = b.department_name
   ON CONFLICT (fiscal_year, department_name) DO UPDATE
   SET
     budget_amount = EXCLUDED.budget_amount,
@@ -629,15 +1346,24 @@ AS $$
     last_txn_date
   )
   SELECT
-    fiscal_year,
-    COALESCE(NULLIF(TRIM(vendor), ''), 'Unspecified') AS vendor,
-    SUM(amount) AS total_amount,
-    COUNT(*) AS txn_count,
-    MIN(date) AS first_txn_date,
-    MAX(date) AS last_txn_date
-  FROM public.transactions
-  WHERE fiscal_year = p_year
-  GROUP BY fiscal_year, COALESCE(NULLIF(TRIM(vendor), ''), 'Unspecified')
+    p_year,
+    public.canonical_vendor(g.vendor) AS vendor,
+    SUM(g.total_amount) AS total_amount,
+    SUM(g.txn_count) AS txn_count,
+    MIN(g.first_txn_date) AS first_txn_date,
+    MAX(g.last_txn_date) AS last_txn_date
+  FROM (
+    SELECT
+      vendor,
+      SUM(amount) AS total_amount,
+      COUNT(*) AS txn_count,
+      MIN(date) AS first_txn_date,
+      MAX(date) AS last_txn_date
+    FROM public.transactions
+    WHERE fiscal_year = p_year
+    GROUP BY vendor
+  ) g
+  GROUP BY 2
   ON CONFLICT (fiscal_year, vendor) DO UPDATE
   SET
     total_amount   = EXCLUDED.total_amount,
@@ -653,13 +1379,20 @@ AS $$
     txn_count
   )
   SELECT
-    fiscal_year,
-    COALESCE(NULLIF(TRIM(department_name), ''), 'Unspecified') AS department_name,
-    SUM(amount) AS total_amount,
-    COUNT(*) AS txn_count
-  FROM public.transactions
-  WHERE fiscal_year = p_year
-  GROUP BY fiscal_year, COALESCE(NULLIF(TRIM(department_name), ''), 'Unspecified')
+    p_year,
+    COALESCE(NULLIF(TRIM(t.department_name), ''), 'Unspecified') AS department_name,
+    SUM(g.total_amount * t.share) AS total_amount,
+    ROUND(SUM(g.txn_count * t.share)) AS txn_count
+  FROM (
+    SELECT department_code, department_name, SUM(amount) AS total_amount, COUNT(*) AS txn_count
+    FROM public.transactions
+    WHERE fiscal_year = p_year
+    GROUP BY department_code, department_name
+  ) g
+  CROSS JOIN LATERAL public.department_alias_targets(
+    public.resolve_department_name(g.department_code, g.department_name), p_year
+  ) t
+  GROUP BY 2
   ON CONFLICT (fiscal_year, department_name) DO UPDATE
   SET
     total_amount = EXCLUDED.total_amount,
@@ -667,6 +1400,645 @@ AS $$
 $$;
 
 
+-- Insert one upload chunk and advance the job checkpoint atomically (service role only).
+-- Transaction appends with duplicate_policy 'skip' leave out rows whose
+-- fingerprint is already in the table from another upload.
+CREATE OR REPLACE FUNCTION public.commit_upload_chunk(
+  p_job_id BIGINT,
+  p_chunk_index INTEGER,
+  p_columns TEXT[],
+  p_rows JSONB
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_job public.upload_jobs%ROWTYPE;
+  v_cols TEXT;
+  v_filter TEXT := '';
+  v_count INTEGER;
+BEGIN
+  SELECT * INTO v_job FROM public.upload_jobs WHERE id = p_job_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'upload job % not found', p_job_id;
+  END IF;
+
+  IF v_job.table_name NOT IN ('budgets', 'actuals', 'transactions', 'revenues') THEN
+    RAISE EXCEPTION 'invalid table';
+  END IF;
+
+  IF p_chunk_index <> v_job.last_committed_chunk + 1 THEN
+    RAISE EXCEPTION 'chunk % is out of order (last committed: %)',
+      p_chunk_index, v_job.last_committed_chunk;
+  END IF;
+
+  SELECT string_agg(quote_ident(c), ', ') INTO v_cols FROM unnest(p_columns) AS c;
+
+  IF v_job.table_name = 'transactions'
+     AND v_job.mode = 'append'
+     AND v_job.duplicate_policy = 'skip' THEN
+    -- Rows of this same job never count: a file may legitimately repeat a row
+    v_filter := ' WHERE NOT EXISTS (
+      SELECT 1 FROM public.transactions t
+      WHERE t.row_fingerprint = public.transaction_fingerprint(r.date, r.vendor, r.amount, r.account_code, r.description)
+        AND t.upload_job_id IS DISTINCT FROM $2)';
+  END IF;
+
+  EXECUTE format(
+    'INSERT INTO public.%I (upload_job_id, %s) SELECT $2, %s FROM jsonb_populate_recordset(NULL::public.%I, $1) AS r%s',
+    CASE
+      WHEN v_job.mode IN ('replace_year', 'replace_table') THEN 'upload_staging_' || v_job.table_name
+      ELSE v_job.table_name
+    END,
+    v_cols, v_cols, v_job.table_name, v_filter
+  ) USING p_rows, p_job_id;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  UPDATE public.upload_jobs
+  SET last_committed_chunk = p_chunk_index,
+      rows_inserted = rows_inserted + v_count,
+      rows_skipped = rows_skipped + (jsonb_array_length(p_rows) - v_count),
+      staged_columns = ARRAY(
+        SELECT DISTINCT c FROM unnest(COALESCE(staged_columns, '{}') || p_columns) AS c
+      ),
+      updated_at = now()
+  WHERE id = p_job_id;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.commit_upload_chunk(BIGINT, INTEGER, TEXT[], JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.commit_upload_chunk(BIGINT, INTEGER, TEXT[], JSONB) TO service_role;
+
+
+-- Positions (1-based) of the given transaction rows whose fingerprint is
+-- already in the table; used by the append preflight (service role only)
+CREATE OR REPLACE FUNCTION public.find_existing_transactions(p_rows JSONB)
+RETURNS TABLE(row_index INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT r.ord::int
+  FROM jsonb_array_elements(p_rows) WITH ORDINALITY AS r(value, ord)
+  WHERE EXISTS (
+    SELECT 1 FROM public.transactions t
+    WHERE t.row_fingerprint = public.transaction_fingerprint(
+      (r.value->>'date')::date,
+      r.value->>'vendor',
+      (r.value->>'amount')::numeric,
+      r.value->>'account_code',
+      r.value->>'description'
+    )
+  )
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.find_existing_transactions(JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.find_existing_transactions(JSONB) TO service_role;
+
+
+-- Swap a staged replace upload into the live table and refresh its rollups
+-- in one transaction (service role only)
+CREATE OR REPLACE FUNCTION public.swap_staged_upload(p_job_id BIGINT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_job public.upload_jobs%ROWTYPE;
+  v_staging TEXT;
+  v_cols TEXT;
+  v_count BIGINT;
+  v_total NUMERIC;
+  v_other_year INTEGER;
+  v_other_rows INTEGER;
+  v_years INTEGER[];
+  v_year INTEGER;
+BEGIN
+  SELECT * INTO v_job FROM public.upload_jobs WHERE id = p_job_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'upload job % not found', p_job_id;
+  END IF;
+
+  IF v_job.table_name NOT IN ('budgets', 'actuals', 'transactions', 'revenues') THEN
+    RAISE EXCEPTION 'invalid table';
+  END IF;
+
+  IF v_job.mode NOT IN ('replace_year', 'replace_table') THEN
+    RAISE EXCEPTION 'upload job % is not a replace upload', p_job_id;
+  END IF;
+
+  IF v_job.swapped_at IS NOT NULL THEN
+    RAISE EXCEPTION 'upload job % was already swapped in', p_job_id;
+  END IF;
+
+  v_staging := 'upload_staging_' || v_job.table_name;
+
+  -- 1) Staged rows must match what validation counted
+  EXECUTE format(
+    'SELECT COUNT(*), COALESCE(SUM(amount), 0) FROM public.%I WHERE upload_job_id = $1',
+    v_staging
+  ) INTO v_count, v_total USING p_job_id;
+
+  IF v_job.total_rows IS NULL OR v_count <> v_job.total_rows THEN
+    RAISE EXCEPTION 'staged row count % does not match validated row count %',
+      v_count, v_job.total_rows;
+  END IF;
+
+  IF v_job.total_amount IS NOT NULL AND abs(v_total - v_job.total_amount) >= 0.01 THEN
+    RAISE EXCEPTION 'staged amount total % does not match validated total %',
+      v_total, v_job.total_amount;
+  END IF;
+
+  IF v_job.mode = 'replace_year' THEN
+    EXECUTE format(
+      'SELECT fiscal_year FROM public.%I WHERE upload_job_id = $1 AND fiscal_year IS DISTINCT FROM $2 LIMIT 1',
+      v_staging
+    ) INTO v_other_year USING p_job_id, v_job.replace_year;
+
+    -- EXECUTE doesn't set FOUND; the row count says whether a row came back
+    GET DIAGNOSTICS v_other_rows = ROW_COUNT;
+
+    IF v_other_rows > 0 THEN
+      RAISE EXCEPTION 'staged rows include fiscal year % outside FY %',
+        v_other_year, v_job.replace_year;
+    END IF;
+  END IF;
+
+  -- 2) Work out which fiscal years' rollups change
+  IF v_job.mode = 'replace_year' THEN
+    v_years := ARRAY[v_job.replace_year];
+  ELSE
+    EXECUTE format(
+      'SELECT ARRAY(SELECT fiscal_year FROM public.%I UNION SELECT fiscal_year FROM public.%I WHERE upload_job_id = $1)',
+      v_job.table_name, v_staging
+    ) INTO v_years USING p_job_id;
+  END IF;
+
+  -- 3) Snapshot the rows being replaced. Older snapshots for the same scope
+  --    can no longer be restored (this upload sits on top of them), so drop
+  --    them and mark their jobs.
+  WITH superseded AS (
+    DELETE FROM public.upload_snapshot_rows s
+    WHERE s.table_name = v_job.table_name
+      AND s.job_id <> p_job_id
+      AND (v_job.mode = 'replace_table' OR s.fiscal_year = v_job.replace_year)
+    RETURNING s.job_id
+  )
+  UPDATE public.upload_jobs
+  SET snapshot_discarded_at = now()
+  WHERE id IN (SELECT job_id FROM superseded);
+
+  EXECUTE format(
+    'INSERT INTO public.upload_snapshot_rows (job_id, table_name, fiscal_year, row_data)
+     SELECT $1, $2, t.fiscal_year, to_jsonb(t) FROM public.%I t
+     WHERE $3 = ''replace_table'' OR t.fiscal_year = $4',
+    v_job.table_name
+  ) USING p_job_id, v_job.table_name, v_job.mode, v_job.replace_year;
+
+  -- 4) Swap
+  IF v_job.mode = 'replace_year' THEN
+    EXECUTE format('DELETE FROM public.%I WHERE fiscal_year = $1', v_job.table_name)
+      USING v_job.replace_year;
+  ELSE
+    EXECUTE format('DELETE FROM public.%I', v_job.table_name);
+  END IF;
+
+  SELECT string_agg(quote_ident(c), ', ') INTO v_cols FROM unnest(v_job.staged_columns) AS c;
+
+  EXECUTE format(
+    'INSERT INTO public.%I (upload_job_id, %s) SELECT upload_job_id, %s FROM public.%I WHERE upload_job_id = $1',
+    v_job.table_name, v_cols, v_cols, v_staging
+  ) USING p_job_id;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  EXECUTE format('DELETE FROM public.%I WHERE upload_job_id = $1', v_staging)
+    USING p_job_id;
+
+  -- 5) Refresh rollups in the same transaction
+  FOREACH v_year IN ARRAY COALESCE(v_years, '{}') LOOP
+    IF v_job.table_name = 'transactions' THEN
+      PERFORM public.refresh_transaction_rollups_for_year(v_year);
+    ELSIF v_job.table_name IN ('budgets', 'actuals') THEN
+      PERFORM public.refresh_budget_actuals_rollup_for_year(v_year);
+    END IF;
+  END LOOP;
+
+  UPDATE public.upload_jobs
+  SET swapped_at = now(),
+      updated_at = now()
+  WHERE id = p_job_id;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.swap_staged_upload(BIGINT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.swap_staged_upload(BIGINT) TO service_role;
+
+
+-- Undo an upload (delete appended rows or restore the replaced snapshot) and
+-- refresh rollups in one transaction (service role only)
+CREATE OR REPLACE FUNCTION public.rollback_upload(p_upload_id BIGINT, p_actor TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_upload public.data_uploads%ROWTYPE;
+  v_job public.upload_jobs%ROWTYPE;
+  v_job_years INTEGER[];
+  v_years INTEGER[];
+  v_year INTEGER;
+  v_cols TEXT;
+  v_count INTEGER := 0;
+BEGIN
+  SELECT * INTO v_upload FROM public.data_uploads WHERE id = p_upload_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'upload % not found', p_upload_id
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_upload.rolled_back_at IS NOT NULL THEN
+    RAISE EXCEPTION 'this upload was already rolled back'
+      USING ERRCODE = 'object_not_in_prerequisite_state';
+  END IF;
+
+  IF v_upload.job_id IS NULL THEN
+    RAISE EXCEPTION 'this upload predates rollback support and cannot be rolled back'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  SELECT * INTO v_job FROM public.upload_jobs WHERE id = v_upload.job_id FOR UPDATE;
+
+  IF NOT FOUND OR v_job.status <> 'done' THEN
+    RAISE EXCEPTION 'this upload did not finish and cannot be rolled back'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_job.table_name NOT IN ('budgets', 'actuals', 'transactions', 'revenues') THEN
+    RAISE EXCEPTION 'invalid table';
+  END IF;
+
+  v_job_years := COALESCE(v_job.years_in_data, '{}');
+  IF v_job.replace_year IS NOT NULL THEN
+    v_job_years := v_job_years || v_job.replace_year;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.data_uploads d
+    LEFT JOIN public.upload_jobs j ON j.id = d.job_id
+    WHERE d.table_name = v_upload.table_name
+      AND d.id > v_upload.id
+      AND d.rolled_back_at IS NULL
+      AND (
+        j.id IS NULL
+        OR v_job.mode = 'replace_table'
+        OR j.mode = 'replace_table'
+        OR (COALESCE(j.years_in_data, '{}') || ARRAY[j.replace_year]) && v_job_years
+      )
+  ) THEN
+    RAISE EXCEPTION 'a later upload changed the same data; roll that upload back first'
+      USING ERRCODE = 'object_not_in_prerequisite_state';
+  END IF;
+
+  IF v_job.mode IN ('replace_year', 'replace_table') AND v_job.snapshot_discarded_at IS NOT NULL THEN
+    RAISE EXCEPTION 'the data this upload replaced is no longer kept, so it cannot be rolled back'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  -- Fiscal years whose rollups change: the upload's own years plus, for a
+  -- table replace, every year in the snapshot
+  SELECT ARRAY(
+    SELECT DISTINCT y FROM (
+      SELECT unnest(v_job_years) AS y
+      UNION
+      SELECT fiscal_year FROM public.upload_snapshot_rows WHERE job_id = v_job.id
+    ) years
+    WHERE y IS NOT NULL
+  ) INTO v_years;
+
+  IF v_job.mode = 'append' THEN
+    EXECUTE format('DELETE FROM public.%I WHERE upload_job_id = $1', v_job.table_name)
+      USING v_job.id;
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+  ELSE
+    IF v_job.mode = 'replace_year' THEN
+      EXECUTE format('DELETE FROM public.%I WHERE fiscal_year = $1', v_job.table_name)
+        USING v_job.replace_year;
+    ELSE
+      EXECUTE format('DELETE FROM public.%I', v_job.table_name);
+    END IF;
+
+    -- Every stored (non-generated) column, so restored rows keep their ids
+    SELECT string_agg(quote_ident(column_name), ', ' ORDER BY ordinal_position)
+    INTO v_cols
+    FROM information_schema.columns
+    WHERE table_schema = 'public'
+      AND table_name = v_job.table_name
+      AND is_generated = 'NEVER';
+
+    EXECUTE format(
+      'INSERT INTO public.%I (%s)
+       SELECT %s FROM (
+         SELECT (jsonb_populate_record(NULL::public.%I, row_data)).*
+         FROM public.upload_snapshot_rows
+         WHERE job_id = $1
+       ) r',
+      v_job.table_name, v_cols, v_cols, v_job.table_name
+    ) USING v_job.id;
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+
+    DELETE FROM public.upload_snapshot_rows WHERE job_id = v_job.id;
+  END IF;
+
+  FOREACH v_year IN ARRAY v_years LOOP
+    IF v_job.table_name = 'transactions' THEN
+      PERFORM public.refresh_transaction_rollups_for_year(v_year);
+    ELSIF v_job.table_name IN ('budgets', 'actuals') THEN
+      PERFORM public.refresh_budget_actuals_rollup_for_year(v_year);
+    END IF;
+  END LOOP;
+
+  UPDATE public.data_uploads
+  SET rolled_back_at = now(),
+      rolled_back_by = p_actor
+  WHERE id = p_upload_id;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.rollback_upload(BIGINT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.rollback_upload(BIGINT, TEXT) TO service_role;
+
+
+-- Live totals an upload is compared against in the preflight diff: amount
+-- and row count per department and per fund, for the given fiscal years
+-- (NULL = the whole table).
+CREATE OR REPLACE FUNCTION public.get_upload_diff_baseline(p_table TEXT, p_years INTEGER[])
+RETURNS TABLE(dimension TEXT, name TEXT, row_count BIGINT, total_amount NUMERIC)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF p_table NOT IN ('budgets', 'actuals', 'transactions', 'revenues') THEN
+    RAISE EXCEPTION 'invalid table';
+  END IF;
+
+  RETURN QUERY EXECUTE format(
+    'SELECT ''department''::text, COALESCE(department_name, ''''), count(*), COALESCE(sum(amount), 0)
+     FROM public.%1$I
+     WHERE $1 IS NULL OR fiscal_year = ANY ($1)
+     GROUP BY 2
+     UNION ALL
+     SELECT ''fund''::text, COALESCE(fund_name, ''''), count(*), COALESCE(sum(amount), 0)
+     FROM public.%1$I
+     WHERE $1 IS NULL OR fiscal_year = ANY ($1)
+     GROUP BY 2',
+    p_table
+  ) USING p_years;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_upload_diff_baseline(TEXT, INTEGER[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_upload_diff_baseline(TEXT, INTEGER[]) TO service_role;
+
+
+-- Rewrite fund, department and account names on already-loaded rows to the
+-- registered ones, then refresh every rollup year (service role only).
+-- Returns the number of name changes made.
+CREATE OR REPLACE FUNCTION public.apply_master_data_names()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_table TEXT;
+  v_kind RECORD;
+  v_changed INTEGER;
+  v_total INTEGER := 0;
+  v_year INTEGER;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY['budgets', 'actuals', 'transactions', 'revenues'] LOOP
+    FOR v_kind IN
+      SELECT * FROM (VALUES
+        ('funds', 'fund_code', 'fund_name'),
+        ('departments', 'department_code', 'department_name'),
+        ('accounts', 'account_code', 'account_name')
+      ) AS k(registry, code_col, name_col)
+    LOOP
+      -- By code
+      EXECUTE format(
+        'UPDATE public.%1$I t SET %3$I = m.name
+         FROM public.%2$I m
+         WHERE m.code = btrim(t.%4$I)
+           AND t.%3$I IS DISTINCT FROM m.name',
+        v_table, v_kind.registry, v_kind.name_col, v_kind.code_col
+      );
+      GET DIAGNOSTICS v_changed = ROW_COUNT;
+      v_total := v_total + v_changed;
+
+      -- By name, for rows whose code isn't registered
+      EXECUTE format(
+        'UPDATE public.%1$I t SET %3$I = m.name
+         FROM public.%2$I m
+         WHERE public.master_data_name_key(t.%3$I) = public.master_data_name_key(m.name)
+           AND t.%3$I <> m.name
+           AND NOT EXISTS (
+             SELECT 1 FROM public.%2$I c WHERE c.code = btrim(t.%4$I)
+           )',
+        v_table, v_kind.registry, v_kind.name_col, v_kind.code_col
+      );
+      GET DIAGNOSTICS v_changed = ROW_COUNT;
+      v_total := v_total + v_changed;
+    END LOOP;
+  END LOOP;
+
+  FOR v_year IN
+    SELECT fiscal_year FROM public.budgets
+    UNION
+    SELECT fiscal_year FROM public.actuals
+  LOOP
+    PERFORM public.refresh_budget_actuals_rollup_for_year(v_year);
+  END LOOP;
+
+  FOR v_year IN SELECT DISTINCT fiscal_year FROM public.transactions LOOP
+    PERFORM public.refresh_transaction_rollups_for_year(v_year);
+  END LOOP;
+
+  RETURN v_total;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_master_data_names() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.apply_master_data_names() TO service_role;
+
+
+-- Rebuild the transaction rollups for every year, e.g. after vendor
+-- aliases change (service role only)
+CREATE OR REPLACE FUNCTION public.refresh_vendor_rollups()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_year INTEGER;
+BEGIN
+  FOR v_year IN SELECT DISTINCT fiscal_year FROM public.transactions LOOP
+    PERFORM public.refresh_transaction_rollups_for_year(v_year);
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_vendor_rollups() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.refresh_vendor_rollups() TO service_role;
+
+
+-- Pairs of vendor spellings that are probably the same vendor, for the
+-- admin review queue: the same vendor_match_key, or trigram similarity of
+-- at least p_threshold (using the trigram index on transactions.vendor).
+-- Spellings that are already aliases and rejected pairs are left out
+-- (service role only).
+CREATE OR REPLACE FUNCTION public.suggest_vendor_merges(
+  p_threshold REAL DEFAULT 0.6,
+  p_limit INTEGER DEFAULT 200
+)
+RETURNS TABLE(
+  vendor_a TEXT,
+  vendor_b TEXT,
+  score REAL,
+  a_txn_count BIGINT,
+  b_txn_count BIGINT,
+  a_total NUMERIC,
+  b_total NUMERIC
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  PERFORM set_config('pg_trgm.similarity_threshold', p_threshold::text, true);
+
+  RETURN QUERY
+  WITH names AS (
+    SELECT btrim(t.vendor) AS name, COUNT(*) AS txn_count, SUM(t.amount) AS total
+    FROM public.transactions t
+    WHERE NULLIF(btrim(t.vendor), '') IS NOT NULL
+    GROUP BY btrim(t.vendor)
+  ),
+  open_names AS (
+    SELECT n.*
+    FROM names n
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.vendor_aliases a
+      WHERE lower(btrim(a.alias)) = lower(n.name)
+    )
+  ),
+  pairs AS (
+    SELECT n.name AS a, m.name AS b, 1::real AS score
+    FROM open_names n
+    JOIN open_names m
+      ON public.vendor_match_key(m.name) = public.vendor_match_key(n.name)
+     AND m.name > n.name
+    WHERE public.vendor_match_key(n.name) <> ''
+    UNION ALL
+    SELECT n.name, m.name, similarity(n.name, m.name)
+    FROM open_names n
+    CROSS JOIN LATERAL (
+      SELECT DISTINCT btrim(t.vendor) AS name
+      FROM public.transactions t
+      WHERE t.vendor % n.name
+    ) m
+    WHERE m.name > n.name
+  )
+  SELECT p.a, p.b, MAX(p.score), na.txn_count, nb.txn_count, na.total, nb.total
+  FROM pairs p
+  JOIN open_names na ON na.name = p.a
+  JOIN open_names nb ON nb.name = p.b
+  WHERE NOT EXISTS (
+    SELECT 1 FROM public.vendor_merge_rejections r
+    WHERE (r.vendor_a = lower(p.a) AND r.vendor_b = lower(p.b))
+       OR (r.vendor_a = lower(p.b) AND r.vendor_b = lower(p.a))
+  )
+  GROUP BY p.a, p.b, na.txn_count, nb.txn_count, na.total, nb.total
+  ORDER BY MAX(p.score) DESC, na.txn_count + nb.txn_count DESC
+  LIMIT p_limit;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.suggest_vendor_merges(REAL, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.suggest_vendor_merges(REAL, INTEGER) TO service_role;
+
+
+-- Report the given vendor spellings under p_canonical: upserts their
+-- aliases, moves aliases that pointed at any of them, and refreshes the
+-- transaction rollups (service role only). Returns the aliases written.
+CREATE OR REPLACE FUNCTION public.merge_vendor_names(
+  p_canonical TEXT,
+  p_aliases TEXT[],
+  p_created_by TEXT
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_canonical TEXT := btrim(p_canonical);
+  v_count INTEGER;
+BEGIN
+  IF v_canonical IS NULL OR v_canonical = '' THEN
+    RAISE EXCEPTION 'A canonical vendor name is required';
+  END IF;
+
+  -- The canonical name stops being an alias of anything
+  DELETE FROM public.vendor_aliases
+  WHERE lower(btrim(alias)) = lower(v_canonical);
+
+  -- Spellings merged into one of these names follow it
+  UPDATE public.vendor_aliases
+  SET canonical_vendor = v_canonical
+  WHERE lower(btrim(canonical_vendor)) IN (
+    SELECT lower(btrim(x)) FROM unnest(p_aliases) x
+  );
+
+  INSERT INTO public.vendor_aliases (alias, canonical_vendor, created_by)
+  SELECT DISTINCT ON (lower(btrim(x))) btrim(x), v_canonical, p_created_by
+  FROM unnest(p_aliases) x
+  WHERE NULLIF(btrim(x), '') IS NOT NULL
+    AND lower(btrim(x)) <> lower(v_canonical)
+  ON CONFLICT (lower(btrim(alias))) DO UPDATE
+  SET canonical_vendor = EXCLUDED.canonical_vendor,
+      created_by = EXCLUDED.created_by;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  PERFORM public.refresh_vendor_rollups();
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.merge_vendor_names(TEXT, TEXT[], TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.merge_vendor_names(TEXT, TEXT[], TEXT) TO service_role;
+
+
 -- Audit log trigger function for publish/unpublish
 CREATE OR REPLACE FUNCTION public.audit_log_publish_toggle()
 RETURNS TRIGGER
@@ -746,6 +2118,60 @@ CREATE POLICY "portal_settings_admins_rw"
       AND profiles.role = ANY (ARRAY['admin', 'super_admin'])
   ));
 
+-- INSIGHT RULES
+CREATE POLICY "Public read insight rules when published"
+  ON public.insight_rules FOR SELECT
+  USING (is_portal_published());
+
+CREATE POLICY "insight_rules_admins_rw"
+  ON public.insight_rules FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.id = auth.uid()
+      AND p.role = ANY (ARRAY['admin', 'super_admin'])
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.id = auth.uid()
+      AND p.role = ANY (ARRAY['admin', 'super_admin'])
+  ));
+
+-- CPI INDEX
+CREATE POLICY "Public read cpi index when published"
+  ON public.cpi_index FOR SELECT
+  USING (is_portal_published());
+
+CREATE POLICY "cpi_index_admins_rw"
+  ON public.cpi_index FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.id = auth.uid()
+      AND p.role = ANY (ARRAY['admin', 'super_admin'])
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.id = auth.uid()
+      AND p.role = ANY (ARRAY['admin', 'super_admin'])
+  ));
+
+-- POPULATION BY YEAR
+CREATE POLICY "Public read population when published"
+  ON public.population_by_year FOR SELECT
+  USING (is_portal_published());
+
+CREATE POLICY "population_by_year_admins_rw"
+  ON public.population_by_year FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.id = auth.uid()
+      AND p.role = ANY (ARRAY['admin', 'super_admin'])
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.id = auth.uid()
+      AND p.role = ANY (ARRAY['admin', 'super_admin'])
+  ));
+
 -- BUDGETS
 CREATE POLICY "Public read budgets when published"
   ON public.budgets FOR SELECT
@@ -779,6 +2205,119 @@ CREATE POLICY "Public read vendor rollups when published"
   ON public.transaction_year_vendor FOR SELECT
   USING (is_portal_published());
 
+CREATE POLICY "Public read fund rollups when published"
+  ON public.budget_actuals_year_fund FOR SELECT
+  USING (is_portal_published());
+
+CREATE POLICY "Public read tx fund rollups when published"
+  ON public.transaction_year_fund FOR SELECT
+  USING (is_portal_published());
+
+CREATE POLICY "Public read period rollups when published"
+  ON public.actuals_year_period FOR SELECT
+  USING (is_portal_published());
+
+-- MASTER DATA
+CREATE POLICY "Public read funds when published"
+  ON public.funds FOR SELECT
+  USING (is_portal_published());
+
+CREATE POLICY "funds_admins_rw"
+  ON public.funds FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.id = auth.uid()
+      AND p.role = ANY (ARRAY['admin', 'super_admin'])
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.id = auth.uid()
+      AND p.role = ANY (ARRAY['admin', 'super_admin'])
+  ));
+
+CREATE POLICY "Public read departments when published"
+  ON public.departments FOR SELECT
+  USING (is_portal_published());
+
+CREATE POLICY "departments_admins_rw"
+  ON public.departments FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.id = auth.uid()
+      AND p.role = ANY (ARRAY['admin', 'super_admin'])
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.id = auth.uid()
+      AND p.role = ANY (ARRAY['admin', 'super_admin'])
+  ));
+
+CREATE POLICY "Public read accounts when published"
+  ON public.accounts FOR SELECT
+  USING (is_portal_published());
+
+CREATE POLICY "accounts_admins_rw"
+  ON public.accounts FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.id = auth.uid()
+      AND p.role = ANY (ARRAY['admin', 'super_admin'])
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.id = auth.uid()
+      AND p.role = ANY (ARRAY['admin', 'super_admin'])
+  ));
+
+-- DEPARTMENT ALIASES
+CREATE POLICY "Public read department aliases when published"
+  ON public.department_aliases FOR SELECT
+  USING (is_portal_published());
+
+CREATE POLICY "department_aliases_admins_rw"
+  ON public.department_aliases FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.id = auth.uid()
+      AND p.role = ANY (ARRAY['admin', 'super_admin'])
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.id = auth.uid()
+      AND p.role = ANY (ARRAY['admin', 'super_admin'])
+  ));
+
+-- VENDOR ALIASES
+CREATE POLICY "Public read vendor aliases when published"
+  ON public.vendor_aliases FOR SELECT
+  USING (is_portal_published());
+
+CREATE POLICY "vendor_aliases_admins_rw"
+  ON public.vendor_aliases FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.id = auth.uid()
+      AND p.role = ANY (ARRAY['admin', 'super_admin'])
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.id = auth.uid()
+      AND p.role = ANY (ARRAY['admin', 'super_admin'])
+  ));
+
+CREATE POLICY "vendor_merge_rejections_admins_rw"
+  ON public.vendor_merge_rejections FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.id = auth.uid()
+      AND p.role = ANY (ARRAY['admin', 'super_admin'])
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.id = auth.uid()
+      AND p.role = ANY (ARRAY['admin', 'super_admin'])
+  ));
+
 -- DATA UPLOADS
 CREATE POLICY "Admins can view upload history"
   ON public.data_uploads FOR SELECT
@@ -788,6 +2327,43 @@ CREATE POLICY "Admins can view upload history"
       AND p.role = ANY (ARRAY['admin', 'super_admin'])
   ));
 
+-- UPLOAD JOBS
+CREATE POLICY "Admins can view upload jobs"
+  ON public.upload_jobs FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.id = auth.uid()
+      AND p.role = ANY (ARRAY['admin', 'super_admin'])
+  ));
+
+-- UPLOAD MAPPING PROFILES
+CREATE POLICY "upload_mapping_profiles_admins_rw"
+  ON public.upload_mapping_profiles FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.id = auth.uid()
+      AND p.role = ANY (ARRAY['admin', 'super_admin'])
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.id = auth.uid()
+      AND p.role = ANY (ARRAY['admin', 'super_admin'])
+  ));
+
+-- UPLOAD FIXED-WIDTH LAYOUTS
+CREATE POLICY "upload_fixed_width_layouts_admins_rw"
+  ON public.upload_fixed_width_layouts FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.id = auth.uid()
+      AND p.role = ANY (ARRAY['admin', 'super_admin'])
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.id = auth.uid()
+      AND p.role = ANY (ARRAY['admin', 'super_admin'])
+  ));
+
 -- ADMIN AUDIT LOG
 CREATE POLICY "Admin read audit log"
   ON public.admin_audit_log FOR SELECT
@@ -820,6 +2396,60 @@ INSERT INTO public.portal_settings (
   false
 ) ON CONFLICT (id) DO NOTHING;
 
+-- Default insight rules (the same list as DEFAULT_INSIGHT_RULES in lib/insights.ts)
+INSERT INTO public.insight_rules
+  (kind, name, severity, params, title_template, description_template, max_results, sort_order)
+SELECT * FROM (VALUES
+  ('budget_threshold', 'Significantly over budget', 'critical',
+   '{"metric": "spent", "comparison": "above", "percent": 150, "min_budget": 1000}'::jsonb,
+   '{department} is significantly over budget',
+   'Spent {difference} more than budgeted ({percent} of budget used)', 5, 10),
+  ('budget_threshold', 'Over budget', 'warning',
+   '{"metric": "spent", "comparison": "above", "percent": 105, "min_budget": 1000}'::jsonb,
+   '{department} is over budget',
+   'Spent {difference} more than budgeted ({percent} of budget used)', 5, 20),
+  ('budget_threshold', 'Projected overrun', 'warning',
+   '{"metric": "projected", "comparison": "above", "percent": 105, "min_budget": 1000}'::jsonb,
+   '{department} is on pace to exceed its budget',
+   'Projected to spend {difference} more than budgeted by year end (likely {low}–{high})', 5, 30),
+  ('budget_threshold', 'Under-using budget', 'info',
+   '{"metric": "projected", "comparison": "below", "percent": 50, "min_budget": 10000}'::jsonb,
+   '{department} is on pace to under-spend its budget',
+   'Projected to use {percent} of its budget by year end, leaving {difference}', 3, 40),
+  ('yoy_change', 'Large change from last year', 'info',
+   '{"direction": "either", "percent": 25, "min_amount": 100000}'::jsonb,
+   '{department} spending changed {change} from last year',
+   '{current} in {year} compared with {previous} in {previous_year}', 3, 50),
+  ('revenue_shortfall', 'Revenue shortfall', 'warning',
+   '{"percent": 10, "min_amount": 100000}'::jsonb,
+   '{source} revenue is running {shortfall_percent} below last year',
+   '{current} expected in {year} compared with {previous} in {previous_year}', 3, 60),
+  ('vendor_concentration', 'Vendor concentration', 'info',
+   '{"percent": 25}'::jsonb,
+   '{vendor} received {share} of vendor payments',
+   '{amount} of {total} paid to vendors in {year}', 1, 70)
+) AS defaults (kind, name, severity, params, title_template, description_template, max_results, sort_order)
+WHERE NOT EXISTS (SELECT 1 FROM public.insight_rules);
+
+-- CPI-U annual averages (the same series as CPI_U_ANNUAL in lib/inflation.ts)
+INSERT INTO public.cpi_index (fiscal_year, index_value, source) VALUES
+  (2010, 218.056, 'CPI-U'),
+  (2011, 224.939, 'CPI-U'),
+  (2012, 229.594, 'CPI-U'),
+  (2013, 232.957, 'CPI-U'),
+  (2014, 236.736, 'CPI-U'),
+  (2015, 237.017, 'CPI-U'),
+  (2016, 240.007, 'CPI-U'),
+  (2017, 245.120, 'CPI-U'),
+  (2018, 251.107, 'CPI-U'),
+  (2019, 255.657, 'CPI-U'),
+  (2020, 258.811, 'CPI-U'),
+  (2021, 270.970, 'CPI-U'),
+  (2022, 292.655, 'CPI-U'),
+  (2023, 304.702, 'CPI-U'),
+  (2024, 313.689, 'CPI-U')
+ON CONFLICT (fiscal_year) DO NOTHING;
+
 
 -- ============================================================================
 -- 15. STORAGE BUCKETS (Manual Step Required)
@@ -836,6 +2466,12 @@ INSERT INTO public.portal_settings (
 -- 
 -- This bucket stores logos, hero images, seals, and leader photos.
 --
+-- 4. Create a bucket named: data-uploads
+--    - Public: NO
+--    - Max file size: large enough for your biggest ledger export
+--
+-- This bucket holds raw CSV uploads while upload jobs process them.
+--
 -- ============================================================================
 
 
@@ -844,7 +2480,7 @@ INSERT INTO public.portal_settings (
 -- ============================================================================
 --
 -- Next steps:
--- 1. Create the "branding" storage bucket (see above)
+-- 1. Create the "branding" and "data-uploads" storage buckets (see above)
 -- 2. Create a user in Authentication → Users
 -- 3. Add that user to profiles table: 
 --    INSERT INTO profiles (id, role) VALUES ('user-uuid-here', 'super_admin');
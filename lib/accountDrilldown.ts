@@ -0,0 +1,197 @@
+// lib/accountDrilldown.ts
+// Department -> category -> account drill-down over raw budget and actual
+// rows. Category and account names travel in the URL, so every level has a
+// link of its own (e.g. /departments/Police/Personnel/Overtime?year=2025).
+
+const UNSPECIFIED = "Unspecified";
+
+type LineRow = {
+  category: string | null;
+  account_code: string | null;
+  account_name: string | null;
+  amount: number;
+};
+
+export type DrilldownLevel = "category" | "account";
+
+export type LineItemSummary = {
+  name: string;
+  // Account codes posted under this line, for display and for matching
+  // transactions that carry a code but no account name
+  codes: string[];
+  budget: number;
+  actuals: number;
+  variance: number; // actuals - budget; positive means over budget
+  percentSpent: number;
+};
+
+const clean = (value: string | null | undefined) => (value ?? "").trim();
+
+export function categoryLabel(row: { category: string | null }): string {
+  return clean(row.category) || UNSPECIFIED;
+}
+
+/**
+ * Accounts are named by account name, falling back to the code for rows
+ * uploaded without one.
+ */
+export function accountLabel(row: {
+  account_code: string | null;
+  account_name: string | null;
+}): string {
+  return clean(row.account_name) || clean(row.account_code) || UNSPECIFIED;
+}
+
+function labelFor(row: LineRow, level: DrilldownLevel): string {
+  return level === "category" ? categoryLabel(row) : accountLabel(row);
+}
+
+/**
+ * Budget, actuals and variance per category or account, largest budget
+ * first. Names are grouped case-insensitively under the first spelling seen.
+ */
+export function summarizeLineItems(
+  budgets: LineRow[],
+  actuals: LineRow[],
+  level: DrilldownLevel
+): LineItemSummary[] {
+  const byKey = new Map<
+    string,
+    { name: string; codes: Set<string>; budget: number; actuals: number }
+  >();
+
+  const add = (row: LineRow, field: "budget" | "actuals") => {
+    const name = labelFor(row, level);
+    const key = name.toLowerCase();
+    const entry =
+      byKey.get(key) ?? { name, codes: new Set<string>(), budget: 0, actuals: 0 };
+    const code = clean(row.account_code);
+    if (code) entry.codes.add(code);
+    entry[field] += Number(row.amount || 0);
+    byKey.set(key, entry);
+  };
+
+  budgets.forEach((row) => add(row, "budget"));
+  actuals.forEach((row) => add(row, "actuals"));
+
+  return Array.from(byKey.values())
+    .map((e) => ({
+      name: e.name,
+      codes: Array.from(e.codes).sort(),
+      budget: e.budget,
+      actuals: e.actuals,
+      variance: e.actuals - e.budget,
+      percentSpent: e.budget > 0 ? (e.actuals / e.budget) * 100 : 0,
+    }))
+    .sort(
+      (a, b) =>
+        b.budget - a.budget ||
+        b.actuals - a.actuals ||
+        a.name.localeCompare(b.name)
+    );
+}
+
+/**
+ * Matches a category or account segment from the URL against the line
+ * items; accounts also match by code. Returns null when nothing matches.
+ */
+export function pickLineItem(
+  segment: string,
+  items: LineItemSummary[]
+): LineItemSummary | null {
+  const wanted = segment.trim().toLowerCase();
+  if (!wanted) return null;
+  return (
+    items.find((i) => i.name.toLowerCase() === wanted) ??
+    items.find((i) => i.codes.some((c) => c.toLowerCase() === wanted)) ??
+    null
+  );
+}
+
+export function filterByCategory<T extends { category: string | null }>(
+  rows: T[],
+  category: string
+): T[] {
+  const key = category.toLowerCase();
+  return rows.filter((r) => categoryLabel(r).toLowerCase() === key);
+}
+
+/**
+ * A category, or an account within it, from budget and actual rows. Null
+ * when the rows have no such line item.
+ */
+export function findLineItem(
+  budgets: LineRow[],
+  actuals: LineRow[],
+  category: string,
+  account?: string | null
+): LineItemSummary | null {
+  const found = pickLineItem(category, summarizeLineItems(budgets, actuals, "category"));
+  if (!found || !account) return found;
+  return pickLineItem(
+    account,
+    summarizeLineItems(
+      filterByCategory(budgets, found.name),
+      filterByCategory(actuals, found.name),
+      "account"
+    )
+  );
+}
+
+/**
+ * Rows posted to an account within a category. Rows that carry a category
+ * must be in it. Transactions carry none, so they match on the account's
+ * codes, or on its name, skipping codes and names that belong to an
+ * account in another category of the department's budget and actual
+ * rows (`lineRows`).
+ */
+export function filterByAccount<
+  T extends {
+    account_code: string | null;
+    account_name: string | null;
+    category?: string | null;
+  },
+>(rows: T[], account: LineItemSummary, category: string, lineRows: LineRow[]): T[] {
+  const categoryKey = category.toLowerCase();
+  const name = account.name.toLowerCase();
+  const codes = new Set(account.codes.map((c) => c.toLowerCase()));
+
+  const otherCodes = new Set<string>();
+  const otherNames = new Set<string>();
+  for (const row of lineRows) {
+    if (categoryLabel(row).toLowerCase() === categoryKey) continue;
+    const code = clean(row.account_code).toLowerCase();
+    if (code) otherCodes.add(code);
+    otherNames.add(accountLabel(row).toLowerCase());
+  }
+
+  return rows.filter((r) => {
+    const inCategory =
+      !("category" in r) ||
+      categoryLabel({ category: r.category ?? null }).toLowerCase() === categoryKey;
+    if (!inCategory) return false;
+    const code = clean(r.account_code).toLowerCase();
+    if (code && codes.has(code)) return true;
+    if (code && otherCodes.has(code)) return false;
+    if (!("category" in r) && otherNames.has(name)) return false;
+    return accountLabel(r).toLowerCase() === name;
+  });
+}
+
+/**
+ * Path for a drill-down level, relative to the city root. Pass it through
+ * cityHref for a link.
+ */
+export function drilldownPath(
+  department: string,
+  category?: string | null,
+  account?: string | null,
+  year?: number | null
+): string {
+  let path = `/departments/${encodeURIComponent(department)}`;
+  if (category) {
+    path += `/${encodeURIComponent(category)}`;
+    if (account) path += `/${encodeURIComponent(account)}`;
+  }
+  return year ? `${path}?year=${year}` : path;
+}
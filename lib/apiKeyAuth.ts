@@ -0,0 +1,113 @@
+// lib/apiKeyAuth.ts
+//
+// Server side of API keys: issuing and hashing keys, and checking a
+// request's key against its scopes and daily quota.
+//
+// SERVER-SIDE ONLY. Uses the service-role client.
+
+import { NextRequest, NextResponse } from "next/server";
+import { createHash, randomBytes } from "crypto";
+import { supabaseAdmin } from "@/lib/supabaseService";
+import { rateLimitAsync } from "@/lib/rateLimit";
+import {
+  API_KEY_PREFIX,
+  apiKeyProblem,
+  readApiKey,
+  type ApiKeyRow,
+  type ApiKeyScope,
+} from "@/lib/apiKeys";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+// New key, its hash for storage and the prefix shown in the admin list
+export function generateApiKey(): { key: string; hash: string; prefix: string } {
+  const key = `${API_KEY_PREFIX}${randomBytes(24).toString("base64url")}`;
+  return { key, hash: hashApiKey(key), prefix: key.slice(0, API_KEY_PREFIX.length + 6) };
+}
+
+/**
+ * Checks the API key a request carries, if any. Returns null when there is
+ * no key, so the caller applies its per-IP limits; otherwise the response
+ * to send when the key is unknown, can't be used for `scope` or is over
+ * its daily quota, else the calls left in the quota. Allowed calls are
+ * counted for the usage dashboard.
+ */
+export async function checkApiKeyQuota(
+  req: NextRequest,
+  scope: ApiKeyScope
+): Promise<{ blocked: NextResponse | null; remaining: number } | null> {
+  const key = readApiKey(req.headers);
+  if (!key) return null;
+
+  const { data, error } = await supabaseAdmin
+    .from("api_keys")
+    .select("id, scopes, daily_quota, expires_at, revoked_at")
+    .eq("key_hash", hashApiKey(key))
+    .maybeSingle();
+
+  if (error) {
+    console.error("API key lookup error:", error);
+    return {
+      blocked: NextResponse.json({ error: "Failed to check API key" }, { status: 500 }),
+      remaining: 0,
+    };
+  }
+
+  const row = data as Pick<
+    ApiKeyRow,
+    "id" | "scopes" | "daily_quota" | "expires_at" | "revoked_at"
+  > | null;
+  if (!row) {
+    return {
+      blocked: NextResponse.json({ error: "Unknown API key" }, { status: 401 }),
+      remaining: 0,
+    };
+  }
+
+  const problem = apiKeyProblem(row, scope);
+  if (problem) {
+    return {
+      blocked: NextResponse.json({ error: problem }, { status: 403 }),
+      remaining: 0,
+    };
+  }
+
+  // One quota per key across every route it can reach
+  const { allowed, remaining, resetInSeconds } = await rateLimitAsync(
+    `apikey:${row.id}`,
+    row.daily_quota,
+    DAY_MS
+  );
+
+  if (!allowed) {
+    return {
+      blocked: NextResponse.json(
+        {
+          error: `Daily quota of ${row.daily_quota.toLocaleString("en-US")} requests reached for this API key.`,
+        },
+        {
+          status: 429,
+          headers: {
+            "Retry-After": String(resetInSeconds),
+            "X-RateLimit-Remaining": "0",
+          },
+        }
+      ),
+      remaining: 0,
+    };
+  }
+
+  const { error: usageError } = await supabaseAdmin.rpc("record_api_key_call", {
+    p_key_id: row.id,
+    p_scope: scope,
+  });
+  if (usageError) {
+    console.warn("Non-fatal: could not record API key usage", usageError);
+  }
+
+  return { blocked: null, remaining };
+}
@@ -0,0 +1,180 @@
+// lib/apiKeys.ts
+//
+// API keys for partners who pull data on a schedule. A request carrying a
+// key is limited by that key's daily quota rather than the per-IP limits,
+// and its calls are counted per key for the admin usage dashboard.
+//
+// Shared by the admin UI and the server; hashing and lookups live in
+// apiKeyAuth.
+
+export const API_KEY_SCOPES = ["api", "export"] as const;
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export const API_KEY_SCOPE_LABELS: Record<ApiKeyScope, string> = {
+  api: "Public API (/api/v1)",
+  export: "Download Center exports",
+};
+
+// Every key starts with this, so a Bearer token can be told apart from a
+// signed-in session
+export const API_KEY_PREFIX = "cvp_";
+export const API_KEY_HEADER = "X-API-Key";
+
+export const DEFAULT_DAILY_QUOTA = 1000;
+export const MAX_DAILY_QUOTA = 100_000;
+
+// api_keys row as the admin API returns it (never the hash)
+export type ApiKeyRow = {
+  id: number;
+  created_at: string;
+  name: string;
+  owner_email: string;
+  key_prefix: string;
+  scopes: ApiKeyScope[];
+  daily_quota: number;
+  expires_at: string | null;
+  revoked_at: string | null;
+  last_used_at: string | null;
+  created_by: string | null;
+};
+
+export type ApiKeyUsageRow = {
+  api_key_id: number;
+  day: string; // YYYY-MM-DD (UTC)
+  scope: ApiKeyScope;
+  calls: number;
+};
+
+export type ApiKeyStatus = "active" | "expired" | "revoked";
+
+export function apiKeyStatus(
+  key: Pick<ApiKeyRow, "expires_at" | "revoked_at">,
+  now: Date = new Date()
+): ApiKeyStatus {
+  if (key.revoked_at) return "revoked";
+  if (key.expires_at && new Date(key.expires_at).getTime() <= now.getTime()) return "expired";
+  return "active";
+}
+
+/**
+ * Why `key` can't be used for `scope`, or null when it can.
+ */
+export function apiKeyProblem(
+  key: Pick<ApiKeyRow, "expires_at" | "revoked_at" | "scopes">,
+  scope: ApiKeyScope,
+  now: Date = new Date()
+): string | null {
+  const status = apiKeyStatus(key, now);
+  if (status === "revoked") return "This API key has been revoked";
+  if (status === "expired") return "This API key has expired";
+  if (!key.scopes.includes(scope)) {
+    return `This API key can't be used for ${API_KEY_SCOPE_LABELS[scope]}`;
+  }
+  return null;
+}
+
+/**
+ * Key sent with a request: the X-API-Key header, or an Authorization
+ * Bearer token that looks like a key.
+ */
+export function readApiKey(headers: Headers): string | null {
+  const header = headers.get(API_KEY_HEADER)?.trim();
+  if (header) return header;
+
+  const match = headers.get("authorization")?.match(/^Bearer\s+(\S+)$/i);
+  return match && match[1].startsWith(API_KEY_PREFIX) ? match[1] : null;
+}
+
+export type ApiKeyInput = {
+  name: string;
+  ownerEmail: string;
+  scopes: ApiKeyScope[];
+  dailyQuota: number;
+  expiresAt: string | null; // YYYY-MM-DD, the last day the key works
+};
+
+// Validates the admin form's new-key request
+export function parseApiKeyInput(body: unknown): { input: ApiKeyInput } | { error: string } {
+  const value = (body ?? {}) as Record<string, unknown>;
+
+  const name = typeof value.name === "string" ? value.name.trim() : "";
+  if (!name) return { error: "Give the key a name, such as the partner or project." };
+
+  const ownerEmail = typeof value.ownerEmail === "string" ? value.ownerEmail.trim() : "";
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(ownerEmail)) {
+    return { error: "Enter the owner's email address." };
+  }
+
+  const scopes = Array.isArray(value.scopes)
+    ? API_KEY_SCOPES.filter((s) => (value.scopes as unknown[]).includes(s))
+    : [];
+  if (scopes.length === 0) return { error: "Choose at least one thing the key can access." };
+
+  const dailyQuota = Number(value.dailyQuota ?? DEFAULT_DAILY_QUOTA);
+  if (!Number.isInteger(dailyQuota) || dailyQuota < 1 || dailyQuota > MAX_DAILY_QUOTA) {
+    return {
+      error: `Daily quota must be a whole number from 1 to ${MAX_DAILY_QUOTA.toLocaleString("en-US")}.`,
+    };
+  }
+
+  let expiresAt: string | null = null;
+  if (typeof value.expiresAt === "string" && value.expiresAt.trim()) {
+    expiresAt = value.expiresAt.trim();
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(expiresAt) || Number.isNaN(Date.parse(expiresAt))) {
+      return { error: "Expiry must be a date (YYYY-MM-DD)." };
+    }
+  }
+
+  return { input: { name, ownerEmail, scopes, dailyQuota, expiresAt } };
+}
+
+// End of the expiry day in UTC, as stored in api_keys.expires_at
+export function expiryTimestamp(expiresAt: string): string {
+  return `${expiresAt}T23:59:59.999Z`;
+}
+
+export type ApiKeyUsageSummary = {
+  today: number;
+  last7Days: number;
+  total: number; // every day in the window
+  daily: { day: string; calls: number }[]; // oldest first, `days` entries
+};
+
+/**
+ * Calls per key over the `days` days ending `today` (YYYY-MM-DD, UTC),
+ * every scope combined. Keys with no calls in the window are left out.
+ */
+export function summarizeApiKeyUsage(
+  usage: ApiKeyUsageRow[],
+  today: string,
+  days = 30
+): Map<number, ApiKeyUsageSummary> {
+  const end = new Date(`${today}T00:00:00Z`).getTime();
+  const dayList = Array.from({ length: days }, (_, i) =>
+    new Date(end - (days - 1 - i) * 86_400_000).toISOString().slice(0, 10)
+  );
+  const index = new Map(dayList.map((day, i) => [day, i]));
+
+  const summaries = new Map<number, ApiKeyUsageSummary>();
+  for (const row of usage) {
+    const i = index.get(row.day);
+    if (i === undefined) continue;
+
+    let summary = summaries.get(row.api_key_id);
+    if (!summary) {
+      summary = {
+        today: 0,
+        last7Days: 0,
+        total: 0,
+        daily: dayList.map((day) => ({ day, calls: 0 })),
+      };
+      summaries.set(row.api_key_id, summary);
+    }
+
+    summary.daily[i].calls += row.calls;
+    summary.total += row.calls;
+    if (i >= days - 7) summary.last7Days += row.calls;
+    if (i === days - 1) summary.today += row.calls;
+  }
+  return summaries;
+}
@@ -0,0 +1,52 @@
+// lib/auditLog.ts
+//
+// Best-effort writes to admin_audit_log. A failed audit insert is logged to
+// the console but never fails the admin action that triggered it.
+//
+// SERVER-SIDE ONLY. Uses the service-role client.
+
+import { supabaseAdmin } from "@/lib/supabaseService";
+import { CITY_SLUG } from "@/lib/cityRouting";
+
+export type AuditActor = {
+  userId: string;
+  email: string | null;
+  role: string;
+};
+
+export type AuditEntry = {
+  action: string;
+  targetTable?: string | null;
+  fiscalYear?: number | null;
+  mode?: string | null;
+  filename?: string | null;
+  rowsAffected?: number | null;
+  status?: "SUCCESS" | "FAILED";
+  errorMessage?: string | null;
+  meta?: Record<string, unknown>;
+};
+
+export async function logAdminAction(
+  actor: AuditActor,
+  entry: AuditEntry
+): Promise<void> {
+  const { error } = await supabaseAdmin.from("admin_audit_log").insert({
+    city_slug: CITY_SLUG,
+    actor_user_id: actor.userId,
+    actor_email: actor.email,
+    actor_role: actor.role,
+    action: entry.action,
+    target_table: entry.targetTable ?? null,
+    fiscal_year: entry.fiscalYear ?? null,
+    mode: entry.mode ?? null,
+    filename: entry.filename ?? null,
+    rows_affected: entry.rowsAffected ?? null,
+    status: entry.status ?? "SUCCESS",
+    error_message: entry.errorMessage ?? null,
+    meta: entry.meta ?? {},
+  });
+
+  if (error) {
+    console.error(`Audit log insert failed for ${entry.action}:`, error);
+  }
+}
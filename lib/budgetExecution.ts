@@ -0,0 +1,194 @@
+// lib/budgetExecution.ts
+// Budget execution: cumulative actuals by fiscal period against the share
+// of the budget expected to be spent by then.
+
+import type { BudgetActualsYearDeptRow } from "./queries";
+
+export type PeriodActualRow = {
+  fiscal_year: number;
+  department_name: string;
+  fiscal_period: number; // 1–12, period 1 = first month of the fiscal year
+  actual_amount: number;
+};
+
+// "straight" spreads the budget evenly over twelve periods; "seasonal"
+// follows the shape of the prior year's spending.
+export type ExecutionCurve = "straight" | "seasonal";
+
+export const FISCAL_PERIODS = 12;
+
+// Percentage points a department's spend can run ahead of the curve
+// before it is flagged
+export const AHEAD_OF_PACE_MARGIN = 10;
+
+const MONTH_ABBREVIATIONS = [
+  "Jan",
+  "Feb",
+  "Mar",
+  "Apr",
+  "May",
+  "Jun",
+  "Jul",
+  "Aug",
+  "Sep",
+  "Oct",
+  "Nov",
+  "Dec",
+];
+
+const STRAIGHT_LINE = Array.from(
+  { length: FISCAL_PERIODS },
+  (_, i) => (i + 1) / FISCAL_PERIODS
+);
+
+export function pickCurve(value: string | undefined): ExecutionCurve {
+  return value === "seasonal" ? "seasonal" : "straight";
+}
+
+/**
+ * Month a fiscal period falls in, e.g. period 1 is "Jul" for a July start.
+ */
+export function periodLabel(period: number, startMonth: number): string {
+  const start = startMonth >= 1 && startMonth <= 12 ? startMonth : 1;
+  return MONTH_ABBREVIATIONS[(start - 1 + period - 1) % 12];
+}
+
+/**
+ * Last fiscal period with any actuals posted; 0 when none are.
+ */
+export function latestPeriod(rows: PeriodActualRow[]): number {
+  return rows.reduce(
+    (max, r) =>
+      Number(r.actual_amount || 0) !== 0 ? Math.max(max, Number(r.fiscal_period)) : max,
+    0
+  );
+}
+
+function periodTotals(rows: PeriodActualRow[]): number[] {
+  const totals = new Array<number>(FISCAL_PERIODS).fill(0);
+  for (const r of rows) {
+    const p = Number(r.fiscal_period);
+    if (p >= 1 && p <= FISCAL_PERIODS) totals[p - 1] += Number(r.actual_amount || 0);
+  }
+  return totals;
+}
+
+function cumulative(values: number[]): number[] {
+  let running = 0;
+  return values.map((v) => (running += v));
+}
+
+/**
+ * Cumulative share of the annual budget expected to be spent by the end of
+ * each period (index 0 is period 1). The seasonal curve uses `priorYear`
+ * actuals and falls back to a straight line when there are none.
+ */
+export function expectedShares(
+  curve: ExecutionCurve,
+  priorYear: PeriodActualRow[]
+): number[] {
+  if (curve === "straight") return STRAIGHT_LINE;
+
+  const running = cumulative(periodTotals(priorYear));
+  const total = running[FISCAL_PERIODS - 1];
+  if (!(total > 0)) return STRAIGHT_LINE;
+  return running.map((v) => v / total);
+}
+
+export type ExecutionPoint = {
+  period: number;
+  label: string;
+  expected: number; // cumulative budget expected by the end of the period
+  actuals: number | null; // cumulative actuals; null past the latest period
+};
+
+export function buildExecutionSeries(
+  annualBudget: number,
+  rows: PeriodActualRow[],
+  shares: number[],
+  throughPeriod: number,
+  startMonth: number
+): ExecutionPoint[] {
+  const running = cumulative(periodTotals(rows));
+  return running.map((actual, i) => ({
+    period: i + 1,
+    label: periodLabel(i + 1, startMonth),
+    expected: annualBudget * shares[i],
+    actuals: i < throughPeriod ? actual : null,
+  }));
+}
+
+export type DepartmentExecution = {
+  department_name: string;
+  budget: number;
+  ytdActuals: number;
+  ytdPercent: number; // year-to-date actuals as % of budget
+  expectedPercent: number; // % of budget the curve expects by now
+  gap: number; // ytdPercent - expectedPercent, in percentage points
+  aheadOfPace: boolean;
+};
+
+/**
+ * Year-to-date execution for each department through `throughPeriod`,
+ * furthest ahead of its curve first. Seasonal curves use each department's
+ * own prior-year pattern, or the citywide one for departments without it.
+ */
+export function summarizeDepartmentExecution(
+  budgets: Pick<BudgetActualsYearDeptRow, "department_name" | "budget_amount">[],
+  rows: PeriodActualRow[],
+  priorYear: PeriodActualRow[],
+  curve: ExecutionCurve,
+  throughPeriod: number
+): DepartmentExecution[] {
+  const byDept = groupByDepartment(rows);
+  const priorByDept = groupByDepartment(priorYear);
+  const cityShares = expectedShares(curve, priorYear);
+
+  const budgetByDept = new Map<string, number>();
+  for (const b of budgets) {
+    const name = b.department_name;
+    budgetByDept.set(name, (budgetByDept.get(name) ?? 0) + Number(b.budget_amount || 0));
+  }
+  for (const name of byDept.keys()) {
+    if (!budgetByDept.has(name)) budgetByDept.set(name, 0);
+  }
+
+  const through = Math.min(Math.max(throughPeriod, 0), FISCAL_PERIODS);
+
+  return Array.from(budgetByDept.entries())
+    .map(([department_name, budget]) => {
+      const deptRows = byDept.get(department_name) ?? [];
+      const shares =
+        curve === "seasonal" && priorByDept.has(department_name)
+          ? expectedShares(curve, priorByDept.get(department_name)!)
+          : cityShares;
+
+      const ytdActuals = deptRows
+        .filter((r) => Number(r.fiscal_period) <= through)
+        .reduce((sum, r) => sum + Number(r.actual_amount || 0), 0);
+      const ytdPercent = budget > 0 ? (ytdActuals / budget) * 100 : 0;
+      const expectedPercent = through > 0 ? shares[through - 1] * 100 : 0;
+      const gap = ytdPercent - expectedPercent;
+
+      return {
+        department_name,
+        budget,
+        ytdActuals,
+        ytdPercent,
+        expectedPercent,
+        gap,
+        aheadOfPace: budget > 0 && gap >= AHEAD_OF_PACE_MARGIN,
+      };
+    })
+    .sort((a, b) => b.gap - a.gap || a.department_name.localeCompare(b.department_name));
+}
+
+function groupByDepartment(rows: PeriodActualRow[]): Map<string, PeriodActualRow[]> {
+  const map = new Map<string, PeriodActualRow[]>();
+  for (const r of rows) {
+    const list = map.get(r.department_name) ?? [];
+    list.push(r);
+    map.set(r.department_name, list);
+  }
+  return map;
+}
@@ -0,0 +1,244 @@
+// lib/columnMapping.ts
+//
+// Column mapping for admin uploads. ERP exports (Tyler Munis, Caselle, New
+// World, ...) name their columns differently; a mapping says where each
+// template field comes from so the file can be loaded without hand-editing
+// headers. Mappings are saved as named profiles per table and recognized on
+// later uploads by their header signature.
+//
+// Shared by the uploader UI and the server-side ingest pipeline.
+
+import { TABLE_SCHEMAS, type UploadTable } from "@/lib/uploadValidation";
+
+export type DerivedRule =
+  | { type: "concat"; sources: string[]; separator: string }
+  | { type: "period_from_date"; source: string } // YYYY-MM
+  | { type: "year_from_date"; source: string }; // calendar year
+
+export type FieldSource =
+  | { kind: "column"; source: string }
+  | { kind: "constant"; value: string }
+  | { kind: "derived"; rule: DerivedRule };
+
+/** Template field name -> where its value comes from. */
+export type ColumnMapping = Record<string, FieldSource>;
+
+export type MappingProfile = {
+  id: number;
+  created_at: string;
+  updated_at: string;
+  table_name: UploadTable;
+  name: string;
+  header_signature: string;
+  source_headers: string[];
+  mapping: ColumnMapping;
+  created_by: string | null;
+};
+
+export const DERIVED_RULE_LABELS: Record<DerivedRule["type"], string> = {
+  concat: "Combine columns",
+  period_from_date: "Month (YYYY-MM) from a date column",
+  year_from_date: "Year from a date column",
+};
+
+function normalizeHeaderKey(header: string): string {
+  return header
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+/**
+ * Order-insensitive fingerprint of a file's headers, used to find the saved
+ * profile for an export that was mapped before.
+ */
+export function computeHeaderSignature(headers: string[]): string {
+  return Array.from(
+    new Set(headers.map(normalizeHeaderKey).filter((h) => h.length > 0))
+  )
+    .sort()
+    .join("|");
+}
+
+export function findMatchingProfile(
+  profiles: MappingProfile[],
+  table: UploadTable,
+  headers: string[]
+): MappingProfile | null {
+  const signature = computeHeaderSignature(headers);
+  return (
+    profiles.find(
+      (p) => p.table_name === table && p.header_signature === signature
+    ) ?? null
+  );
+}
+
+/**
+ * Starting mapping for a new file: any header that already matches a
+ * template field (ignoring case, spaces and punctuation) is mapped to it.
+ */
+export function suggestColumnMapping(
+  table: UploadTable,
+  headers: string[]
+): ColumnMapping {
+  const byKey = new Map<string, string>();
+  for (const h of headers) {
+    const key = normalizeHeaderKey(h);
+    if (key && !byKey.has(key)) byKey.set(key, h);
+  }
+
+  const mapping: ColumnMapping = {};
+  for (const field of TABLE_SCHEMAS[table].required) {
+    const source = byKey.get(field);
+    if (source !== undefined) mapping[field] = { kind: "column", source };
+  }
+  return mapping;
+}
+
+/**
+ * True when the mapping is just the template columns under their own
+ * names, i.e. the file needs no mapping at all.
+ */
+export function isIdentityMapping(
+  table: UploadTable,
+  mapping: ColumnMapping
+): boolean {
+  return TABLE_SCHEMAS[table].required.every((field) => {
+    const m = mapping[field];
+    return m?.kind === "column" && m.source.trim() === field;
+  });
+}
+
+function referencedColumns(source: FieldSource): string[] {
+  if (source.kind === "column") return [source.source];
+  if (source.kind === "derived") {
+    return source.rule.type === "concat"
+      ? source.rule.sources
+      : [source.rule.source];
+  }
+  return [];
+}
+
+/**
+ * Problems that would stop a mapping from producing every template field.
+ */
+export function validateColumnMapping(
+  table: UploadTable,
+  mapping: ColumnMapping,
+  headers: string[]
+): string[] {
+  const available = new Set(headers.map((h) => h.trim()));
+  const errors: string[] = [];
+
+  for (const field of TABLE_SCHEMAS[table].required) {
+    const source = mapping[field];
+    if (!source) {
+      errors.push(`No source chosen for "${field}".`);
+      continue;
+    }
+    if (source.kind === "derived" && source.rule.type === "concat") {
+      if (source.rule.sources.length === 0) {
+        errors.push(`Choose at least one column to combine for "${field}".`);
+      }
+    }
+    for (const col of referencedColumns(source)) {
+      if (!available.has(col.trim())) {
+        errors.push(`"${field}" uses column "${col}", which is not in this file.`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+function dateParts(value: string): { year: string; month: string } | null {
+  const trimmed = value.trim();
+  let m = /^(\d{4})-(\d{1,2})-\d{1,2}/.exec(trimmed);
+  if (m) return { year: m[1], month: m[2] };
+  m = /^(\d{1,2})\/\d{1,2}\/(\d{4})/.exec(trimmed);
+  if (m) return { year: m[2], month: m[1] };
+  return null;
+}
+
+function resolveDerived(
+  rule: DerivedRule,
+  get: (column: string) => string
+): string {
+  switch (rule.type) {
+    case "concat":
+      return rule.sources
+        .map(get)
+        .filter((v) => v !== "")
+        .join(rule.separator);
+    case "period_from_date": {
+      const parts = dateParts(get(rule.source));
+      return parts ? `${parts.year}-${parts.month.padStart(2, "0")}` : "";
+    }
+    case "year_from_date":
+      return dateParts(get(rule.source))?.year ?? "";
+  }
+}
+
+/**
+ * Build a row-mapper for a file's headers. The mapper turns one source row
+ * into values ordered like `fields`, so the result can go straight into the
+ * normal template validation (buildUploadRecord).
+ */
+export function createRowMapper(
+  mapping: ColumnMapping,
+  sourceHeaders: string[]
+): { fields: string[]; mapRow: (row: string[]) => string[] } {
+  const index = new Map<string, number>();
+  sourceHeaders.forEach((h, i) => {
+    const key = h.trim();
+    if (!index.has(key)) index.set(key, i);
+  });
+
+  const fields = Object.keys(mapping);
+
+  const mapRow = (row: string[]): string[] => {
+    const get = (column: string) => {
+      const i = index.get(column.trim());
+      return i === undefined ? "" : (row[i] ?? "").trim();
+    };
+
+    return fields.map((field) => {
+      const source = mapping[field];
+      if (source.kind === "column") return get(source.source);
+      if (source.kind === "constant") return source.value;
+      return resolveDerived(source.rule, get);
+    });
+  };
+
+  return { fields, mapRow };
+}
+
+/**
+ * Runtime check for a mapping received from the client.
+ */
+export function isColumnMapping(value: unknown): value is ColumnMapping {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return false;
+
+  return Object.values(value as Record<string, unknown>).every((raw) => {
+    if (!raw || typeof raw !== "object") return false;
+    const s = raw as Record<string, unknown>;
+    if (s.kind === "column") return typeof s.source === "string";
+    if (s.kind === "constant") return typeof s.value === "string";
+    if (s.kind !== "derived" || !s.rule || typeof s.rule !== "object") {
+      return false;
+    }
+    const rule = s.rule as Record<string, unknown>;
+    if (rule.type === "concat") {
+      return (
+        Array.isArray(rule.sources) &&
+        rule.sources.every((c) => typeof c === "string") &&
+        typeof rule.separator === "string"
+      );
+    }
+    return (
+      (rule.type === "period_from_date" || rule.type === "year_from_date") &&
+      typeof rule.source === "string"
+    );
+  });
+}
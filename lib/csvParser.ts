@@ -5,11 +5,12 @@
 // - Escaped quotes: "He said ""hello"""
 // - Empty fields
 // - Mixed quoted/unquoted fields
+// - Other single-character delimiters (tab, semicolon, pipe)
 
 /**
  * Parse a single CSV line into fields, respecting quoted values.
  */
-function parseCsvLine(line: string): string[] {
+function parseCsvLine(line: string, delimiter: string): string[] {
   const fields: string[] = [];
   let current = "";
   let inQuotes = false;
@@ -40,7 +41,7 @@ function parseCsvLine(line: string): string[] {
         i++;
         continue;
       }
-      if (char === ",") {
+      if (char === delimiter) {
         // End of field
         fields.push(current.trim());
         current = "";
@@ -63,9 +64,10 @@ function parseCsvLine(line: string): string[] {
  * Handles quoted fields, escaped quotes, and various line endings.
  * 
  * @param text - Raw CSV text
+ * @param delimiter - Field separator (defaults to comma)
  * @returns Array of rows, where each row is an array of field values
  */
-export function parseCsv(text: string): string[][] {
+export function parseCsv(text: string, delimiter = ","): string[][] {
   if (!text || !text.trim()) {
     return [];
   }
@@ -104,7 +106,7 @@ export function parseCsv(text: string): string[][] {
     // If we're not inside quotes, this line is complete
     if (!inQuotes) {
       if (currentLine.trim()) {
-        rows.push(parseCsvLine(currentLine));
+        rows.push(parseCsvLine(currentLine, delimiter));
       }
       currentLine = "";
     }
@@ -112,7 +114,7 @@ export function parseCsv(text: string): string[][] {
 
   // Handle any remaining content (unterminated quote - best effort)
   if (currentLine.trim()) {
-    rows.push(parseCsvLine(currentLine));
+    rows.push(parseCsvLine(currentLine, delimiter));
   }
 
   return rows;
@@ -140,3 +142,138 @@ export function parseCsvWithHeaders(text: string): {
     rows: allRows.slice(1),
   };
 }
+
+/**
+ * Incremental CSV parser for files too large to hold in memory.
+ * Feed it text chunks as they arrive; each call returns the rows completed
+ * so far and buffers any partial row (including quoted fields that span
+ * chunk boundaries). Rows follow the same rules as parseCsv: fields are
+ * trimmed and blank lines are skipped.
+ */
+export function createCsvStreamParser(delimiter = ","): {
+  push: (chunk: string) => string[][];
+  flush: () => string[][];
+} {
+  let fields: string[] = [];
+  let current = "";
+  let inQuotes = false;
+  // A quote seen inside a quoted field: either an escaped quote ("") or the
+  // end of the field, depending on the next character.
+  let quotePending = false;
+  // Set after \r so a following \n (possibly in the next chunk) is skipped.
+  let skipLineFeed = false;
+
+  function endRow(rows: string[][]) {
+    fields.push(current.trim());
+    current = "";
+    if (fields.length > 1 || fields[0] !== "") {
+      rows.push(fields);
+    }
+    fields = [];
+  }
+
+  function push(chunk: string): string[][] {
+    const rows: string[][] = [];
+
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      if (quotePending) {
+        quotePending = false;
+        if (char === '"') {
+          current += '"';
+          continue;
+        }
+        inQuotes = false;
+      }
+
+      if (skipLineFeed) {
+        skipLineFeed = false;
+        if (char === "\n") continue;
+      }
+
+      if (inQuotes) {
+        if (char === '"') {
+          quotePending = true;
+        } else if (char === "\r") {
+          current += "\n";
+          skipLineFeed = true;
+        } else {
+          current += char;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        inQuotes = true;
+        continue;
+      }
+
+      if (char === delimiter) {
+        fields.push(current.trim());
+        current = "";
+        continue;
+      }
+
+      if (char === "\n" || char === "\r") {
+        skipLineFeed = char === "\r";
+        endRow(rows);
+        continue;
+      }
+
+      current += char;
+    }
+
+    return rows;
+  }
+
+  function flush(): string[][] {
+    const rows: string[][] = [];
+    quotePending = false;
+    inQuotes = false;
+    if (current || fields.length > 0) {
+      endRow(rows);
+    }
+    return rows;
+  }
+
+  return { push, flush };
+}
+
+/**
+ * Parse a byte stream (e.g. a fetch response body) as CSV, yielding one row
+ * at a time. Memory use is bounded by the largest single row, not the file.
+ *
+ * @param stream - UTF-8 encoded CSV bytes
+ * @param delimiter - Field separator (defaults to comma)
+ */
+export async function* parseCsvStream(
+  stream: ReadableStream<Uint8Array>,
+  delimiter = ","
+): AsyncGenerator<string[]> {
+  const reader = stream.getReader();
+  // TextDecoder strips a leading UTF-8 BOM (common in Excel exports)
+  const decoder = new TextDecoder("utf-8");
+  const parser = createCsvStreamParser(delimiter);
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      for (const row of parser.push(decoder.decode(value, { stream: true }))) {
+        yield row;
+      }
+    }
+
+    for (const row of parser.push(decoder.decode())) {
+      yield row;
+    }
+    for (const row of parser.flush()) {
+      yield row;
+    }
+  } finally {
+    // Cancelling frees the underlying body if the caller stopped early
+    await reader.cancel().catch(() => undefined);
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,255 @@
+// lib/departmentAliases.ts
+//
+// Department renames, mergers and splits (department_aliases table). An
+// alias reports an old department name under its current department(s), so
+// multi-year charts show one continuous history. The rollup refresh does
+// the same in SQL (department_alias_targets); these helpers apply it to raw
+// rows for department pages, search and exports.
+//
+// Shared by server routes, public pages and the admin alias editor.
+
+export type DepartmentAlias = {
+  id: number;
+  created_at: string;
+  updated_at: string;
+  alias: string; // name as it appears in older data
+  department_name: string; // current department it is reported under
+  share: number; // fraction of the alias's amounts (1 unless split)
+  effective_fiscal_year: number | null; // alias applies before this FY; null = always
+  note: string | null;
+  created_by: string | null;
+};
+
+export type AliasTarget = { name: string; share: number };
+
+// Same limit as department_alias_targets
+const MAX_ALIAS_DEPTH = 5;
+
+function aliasKey(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+function appliesIn(alias: DepartmentAlias, year: number | null): boolean {
+  return (
+    year === null ||
+    alias.effective_fiscal_year == null ||
+    year < alias.effective_fiscal_year
+  );
+}
+
+function aliasesFrom(
+  aliases: DepartmentAlias[],
+  name: string,
+  year: number | null
+): DepartmentAlias[] {
+  const key = aliasKey(name);
+  return aliases.filter((a) => aliasKey(a.alias) === key && appliesIn(a, year));
+}
+
+/**
+ * Current department(s) a department name is reported under in a fiscal
+ * year, with the share of its amounts each gets. `year` null ignores
+ * effective years. A name without an alias maps to itself.
+ */
+export function getAliasTargets(
+  aliases: DepartmentAlias[],
+  name: string,
+  year: number | null
+): AliasTarget[] {
+  const shares = new Map<string, number>();
+
+  function walk(current: string, share: number, depth: number) {
+    const next = depth < MAX_ALIAS_DEPTH ? aliasesFrom(aliases, current, year) : [];
+    if (next.length === 0) {
+      shares.set(current, (shares.get(current) ?? 0) + share);
+      return;
+    }
+    for (const a of next) walk(a.department_name, share * Number(a.share), depth + 1);
+  }
+
+  walk(name, 1, 0);
+  return Array.from(shares, ([target, share]) => ({ name: target, share }));
+}
+
+/**
+ * Department names whose rows count toward `currentName` in a fiscal year,
+ * with the share of their amounts that does (the name itself included when
+ * it isn't aliased away). `year` null ignores effective years.
+ */
+export function getAliasSources(
+  aliases: DepartmentAlias[],
+  currentName: string,
+  year: number | null
+): AliasTarget[] {
+  const key = aliasKey(currentName);
+  const candidates = new Map<string, string>([[key, currentName]]);
+  for (const a of aliases) {
+    if (!candidates.has(aliasKey(a.alias))) {
+      candidates.set(aliasKey(a.alias), a.alias);
+    }
+  }
+
+  const sources: AliasTarget[] = [];
+  for (const name of candidates.values()) {
+    const share = getAliasTargets(aliases, name, year)
+      .filter((t) => aliasKey(t.name) === key)
+      .reduce((sum, t) => sum + t.share, 0);
+    if (share > 0) sources.push({ name, share });
+  }
+  return sources;
+}
+
+/**
+ * Raw rows fetched for a department and its alias sources, relabelled with
+ * the current name and scaled by each source's share. Rows from other
+ * departments are dropped.
+ */
+export function reportUnderCurrentName<
+  T extends { department_name: string | null; amount: number },
+>(rows: T[], sources: AliasTarget[], currentName: string): T[] {
+  const shares = new Map(sources.map((s) => [aliasKey(s.name), s.share]));
+  const out: T[] = [];
+  for (const row of rows) {
+    const share = shares.get(aliasKey(row.department_name ?? ""));
+    if (share === undefined) continue;
+    out.push({
+      ...row,
+      department_name: currentName,
+      amount: share === 1 ? row.amount : Number(row.amount || 0) * share,
+    });
+  }
+  return out;
+}
+
+/**
+ * Current department names for matching search text against old names.
+ */
+export function findAliasedDepartments(
+  aliases: DepartmentAlias[],
+  query: string
+): string[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+
+  const names = new Set<string>();
+  for (const a of aliases) {
+    if (a.alias.toLowerCase().includes(needle)) {
+      for (const t of getAliasTargets(aliases, a.alias, null)) names.add(t.name);
+    }
+  }
+  return Array.from(names).sort();
+}
+
+/**
+ * Department filter widened to every old name reported under the selected
+ * departments in any year, so filtered exports keep their history.
+ */
+export function expandDepartmentFilter(
+  aliases: DepartmentAlias[],
+  departments: string[]
+): string[] {
+  const names = new Set(departments);
+  for (const d of departments) {
+    for (const s of getAliasSources(aliases, d, null)) names.add(s.name);
+  }
+  return Array.from(names);
+}
+
+/**
+ * Readable current department(s) for an export row: the name, or each
+ * successor with its share for a split.
+ */
+export function describeAliasTargets(targets: AliasTarget[]): string {
+  if (targets.length === 1 && targets[0].share >= 1) return targets[0].name;
+  return targets
+    .map((t) => `${t.name} (${Math.round(t.share * 100)}%)`)
+    .join("; ");
+}
+
+export type AliasDraft = {
+  alias: string;
+  targets: { name: string; percent: number }[];
+  effectiveFiscalYear: number | null;
+};
+
+/**
+ * Problems with an alias (all its successors at once), checked against the
+ * other saved aliases.
+ */
+export function validateAliasDraft(
+  draft: AliasDraft,
+  existing: DepartmentAlias[]
+): string[] {
+  const errors: string[] = [];
+  const alias = draft.alias.trim();
+
+  if (!alias) errors.push("Enter the old department name.");
+  if (draft.targets.length === 0) {
+    errors.push("Add the department it is reported under.");
+  }
+
+  const seen = new Set<string>();
+  let total = 0;
+  for (const t of draft.targets) {
+    const name = t.name.trim();
+    if (!name) {
+      errors.push("Every successor needs a department name.");
+      continue;
+    }
+    if (aliasKey(name) === aliasKey(alias)) {
+      errors.push("A department can't be an alias of itself.");
+    }
+    if (seen.has(aliasKey(name))) errors.push(`"${name}" is listed twice.`);
+    seen.add(aliasKey(name));
+
+    if (!(t.percent > 0 && t.percent <= 100)) {
+      errors.push(`The share for "${name}" must be between 0 and 100%.`);
+    }
+    total += t.percent;
+  }
+
+  if (draft.targets.length > 0 && Math.abs(total - 100) > 0.01) {
+    errors.push(`Shares add up to ${total}%; they must add up to 100%.`);
+  }
+
+  if (
+    draft.effectiveFiscalYear !== null &&
+    !(Number.isInteger(draft.effectiveFiscalYear) &&
+      draft.effectiveFiscalYear >= 1900 &&
+      draft.effectiveFiscalYear <= 2100)
+  ) {
+    errors.push("Enter the effective fiscal year as a 4-digit year.");
+  }
+
+  // A successor that leads back to the old name would loop forever
+  const others = existing.filter((a) => aliasKey(a.alias) !== aliasKey(alias));
+  for (const t of draft.targets) {
+    const name = t.name.trim();
+    if (!name || aliasKey(name) === aliasKey(alias)) continue;
+    const loops = getAliasTargets(others, name, null).some(
+      (r) => aliasKey(r.name) === aliasKey(alias)
+    );
+    if (loops) {
+      errors.push(`"${name}" is already reported under "${alias}".`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Saved aliases grouped by old name, for the admin list.
+ */
+export function groupAliases(
+  aliases: DepartmentAlias[]
+): { alias: string; rows: DepartmentAlias[] }[] {
+  const groups = new Map<string, { alias: string; rows: DepartmentAlias[] }>();
+  for (const a of aliases) {
+    const group = groups.get(aliasKey(a.alias)) ?? { alias: a.alias, rows: [] };
+    group.rows.push(a);
+    groups.set(aliasKey(a.alias), group);
+  }
+  return Array.from(groups.values()).sort((a, b) =>
+    a.alias.localeCompare(b.alias)
+  );
+}
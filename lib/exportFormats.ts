@@ -0,0 +1,268 @@
+// lib/exportFormats.ts
+//
+// File formats offered by the Download Center and the data dictionary
+// behind them. CSV keeps every value as quoted text; the other formats
+// type each column (whole numbers, dollar amounts, dates) from the
+// dictionary below.
+//
+// Shared by the Download Center UI and the export routes.
+
+import { DATASET_COLUMNS } from "@/lib/schema";
+import type { ExportDataType } from "@/lib/exportQuery";
+import { EXPORT_ROW_LIMIT, type ExportStop } from "@/lib/exportStream";
+
+export type ExportFormat = "csv" | "xlsx" | "json" | "parquet";
+
+// A Parquet file is built whole in memory before its download starts, so
+// it holds far fewer rows than the streamed formats
+export const PARQUET_ROW_LIMIT = 250_000;
+
+export const EXPORT_FORMATS: Record<
+  ExportFormat,
+  { label: string; extension: string; contentType: string; rowLimit: number }
+> = {
+  csv: {
+    label: "CSV",
+    extension: "csv",
+    contentType: "text/csv; charset=utf-8",
+    rowLimit: EXPORT_ROW_LIMIT,
+  },
+  xlsx: {
+    label: "Excel",
+    extension: "xlsx",
+    contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    rowLimit: EXPORT_ROW_LIMIT,
+  },
+  json: {
+    label: "JSON lines",
+    extension: "ndjson",
+    contentType: "application/x-ndjson; charset=utf-8",
+    rowLimit: EXPORT_ROW_LIMIT,
+  },
+  parquet: {
+    label: "Parquet",
+    extension: "parquet",
+    contentType: "application/vnd.apache.parquet",
+    rowLimit: PARQUET_ROW_LIMIT,
+  },
+};
+
+export function pickExportFormat(value: string | null | undefined): ExportFormat {
+  return value === "xlsx" || value === "json" || value === "parquet" ? value : "csv";
+}
+
+export type ExportFilters = {
+  years: string[];
+  departments: string[];
+  vendors: string[];
+  sources: string[];
+  startDate: string | null;
+  endDate: string | null;
+};
+
+export type ExportColumnType = "integer" | "number" | "date" | "string";
+
+// Data dictionary for every column an export can contain
+export const EXPORT_COLUMNS: Record<string, { type: ExportColumnType; description: string }> = {
+  fiscal_year: { type: "integer", description: "Fiscal year the amount belongs to" },
+  date: { type: "date", description: "Posting date (YYYY-MM-DD)" },
+  period: { type: "string", description: "Accounting period as uploaded (e.g. 2024-01)" },
+  fund_code: { type: "string", description: "Fund code from the city's chart of accounts" },
+  fund_name: { type: "string", description: "Fund name" },
+  department_code: { type: "string", description: "Department code" },
+  department_name: { type: "string", description: "Department the row was filed under" },
+  account_code: { type: "string", description: "Account (object) code" },
+  account_name: { type: "string", description: "Account (object) name" },
+  category: { type: "string", description: "Spending category, or revenue source for revenues" },
+  vendor: { type: "string", description: "Payee as recorded in the ledger" },
+  description: { type: "string", description: "Line description from the ledger" },
+  amount: { type: "number", description: "Amount in dollars; negative amounts are credits or refunds" },
+  current_department_name: {
+    type: "string",
+    description: "Department the row is reported under today, when it was filed under an old or merged name",
+  },
+  canonical_vendor: {
+    type: "string",
+    description: "Vendor name with merged spellings combined",
+  },
+};
+
+export function exportColumnType(column: string): ExportColumnType {
+  return EXPORT_COLUMNS[column]?.type ?? "string";
+}
+
+// Stored columns a table's exports read; vendor only when vendor names
+// are published
+export function exportStoredColumns(dataType: ExportDataType, enableVendors: boolean): string[] {
+  const columns: string[] = DATASET_COLUMNS[dataType];
+  return enableVendors ? columns : columns.filter((col) => col !== "vendor");
+}
+
+/**
+ * Columns of a table's export file: the stored ones, then the derived
+ * current_department_name (every table with departments) and
+ * canonical_vendor (transactions, when vendor names are published).
+ */
+export function exportFileColumns(dataType: ExportDataType, enableVendors: boolean): string[] {
+  return [
+    ...exportStoredColumns(dataType, enableVendors),
+    ...(dataType !== "revenues" ? ["current_department_name"] : []),
+    ...(dataType === "transactions" && enableVendors ? ["canonical_vendor"] : []),
+  ];
+}
+
+/**
+ * `value` as `type`: numbers for whole-number and amount columns,
+ * "YYYY-MM-DD" for dates, text otherwise; null when empty or unreadable.
+ */
+export function typedValue(type: ExportColumnType, value: unknown): string | number | null {
+  if (value === null || value === undefined || value === "") return null;
+  switch (type) {
+    case "integer":
+    case "number": {
+      const num = Number(value);
+      return Number.isFinite(num) ? num : null;
+    }
+    case "date": {
+      const text = String(value).slice(0, 10);
+      return /^\d{4}-\d{2}-\d{2}$/.test(text) ? text : null;
+    }
+    default:
+      return String(value);
+  }
+}
+
+// `value` as its column's type in the data dictionary
+export function typedExportValue(column: string, value: unknown): string | number | null {
+  return typedValue(exportColumnType(column), value);
+}
+
+// One newline-delimited JSON record
+export function ndjsonLine(row: Record<string, unknown>, columns: string[]): string {
+  return JSON.stringify(
+    Object.fromEntries(columns.map((col) => [col, typedExportValue(col, row[col])]))
+  );
+}
+
+/**
+ * Filters as label/value pairs for the metadata sheet and README; a
+ * single "Filters: None" pair when the export is unfiltered.
+ */
+export function describeExportFilters(filters: ExportFilters): [string, string][] {
+  const pairs: [string, string][] = [];
+  if (filters.years.length > 0) pairs.push(["Fiscal years", filters.years.join(", ")]);
+  if (filters.departments.length > 0) pairs.push(["Departments", filters.departments.join(", ")]);
+  if (filters.vendors.length > 0) pairs.push(["Vendors", filters.vendors.join(", ")]);
+  if (filters.sources.length > 0) pairs.push(["Revenue sources", filters.sources.join(", ")]);
+  if (filters.startDate) pairs.push(["From", filters.startDate]);
+  if (filters.endDate) pairs.push(["To", filters.endDate]);
+  return pairs.length > 0 ? pairs : [["Filters", "None"]];
+}
+
+// Download filename
+export function buildExportFilename(
+  dataType: string,
+  filters: ExportFilters,
+  format: ExportFormat
+): string {
+  const parts = [dataType];
+  const timestamp = new Date().toISOString().split("T")[0];
+
+  const { years, departments, sources } = filters;
+
+  if (years.length > 0) {
+    if (years.length === 1) {
+      parts.push(`FY${years[0]}`);
+    } else {
+      parts.push(`${years.length}-years`);
+    }
+  }
+
+  if (departments.length > 0) {
+    if (departments.length === 1) {
+      parts.push(departments[0].replace(/\s+/g, "-").slice(0, 20));
+    } else {
+      parts.push(`${departments.length}-depts`);
+    }
+  }
+
+  if (sources.length > 0) {
+    if (sources.length === 1) {
+      parts.push(sources[0].replace(/\s+/g, "-").slice(0, 20));
+    } else {
+      parts.push(`${sources.length}-sources`);
+    }
+  }
+
+  if (filters.startDate || filters.endDate) {
+    parts.push("dated");
+  }
+
+  parts.push(timestamp);
+
+  return `${parts.join("_")}.${EXPORT_FORMATS[format].extension}`;
+}
+
+export type BundleTable = {
+  file: string;
+  title: string;
+  description: string;
+  columns: string[];
+  rowCount: number; // matching rows, including any past the row limit
+  stop?: ExportStop; // set when the file stops short of rowCount
+};
+
+/**
+ * README.md for a multi-table bundle: what each file holds, which files
+ * stopped early and why, and a data dictionary for their columns.
+ */
+export function bundleReadme({
+  title,
+  exportedAt,
+  tables,
+}: {
+  title: string;
+  exportedAt: Date;
+  tables: BundleTable[];
+}): string {
+  const lines = [
+    `# ${title}`,
+    "",
+    `Exported ${exportedAt.toISOString().slice(0, 10)}. Each file is a CSV with a header row; every value is quoted text.`,
+    "",
+    "## Files",
+    "",
+    ...tables.map((t) => {
+      const total = t.rowCount.toLocaleString("en-US");
+      const rows = t.stop
+        ? `first ${t.stop.rowsSent.toLocaleString("en-US")} of ${total} rows; ${
+            t.stop.reason === "row_limit" ? "row limit reached" : "time limit reached"
+          }`
+        : `${total} rows`;
+      return `- \`${t.file}\`: ${t.description} (${rows})`;
+    }),
+  ];
+
+  if (tables.some((t) => t.stop)) {
+    lines.push(
+      "",
+      "Files that stopped early end with a note row. Download the rest of those tables from the Download Center with narrower filters."
+    );
+  }
+
+  for (const t of tables) {
+    lines.push(
+      "",
+      `## ${t.title} (\`${t.file}\`)`,
+      "",
+      "| Column | Type | Description |",
+      "| --- | --- | --- |",
+      ...t.columns.map((col) => {
+        const entry = EXPORT_COLUMNS[col];
+        return `| ${col} | ${entry?.type ?? "string"} | ${entry?.description ?? ""} |`;
+      })
+    );
+  }
+
+  return `${lines.join("\n")}\n`;
+}
@@ -0,0 +1,325 @@
+// lib/exportQuery.ts
+//
+// Server side of the Download Center: export rate limits, the portal's
+// feature switches, and one table's filtered rows read page by page.
+// Shared by the single-table export route and the fiscal-year bundle.
+
+import { NextRequest, NextResponse } from "next/server";
+import { createHash } from "crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { rateLimitAsync } from "@/lib/rateLimit";
+import { checkApiKeyQuota } from "@/lib/apiKeyAuth";
+import {
+  describeAliasTargets,
+  expandDepartmentFilter,
+  getAliasTargets,
+  type DepartmentAlias,
+} from "@/lib/departmentAliases";
+import { getDepartmentAliases, getVendorAliases } from "@/lib/queries";
+import {
+  createVendorCanonicalizer,
+  expandVendorFilter,
+  type VendorAlias,
+} from "@/lib/vendorAliases";
+import {
+  EXPORT_PAGE_SIZE,
+  EXPORT_ROW_LIMIT,
+  keysetFilter,
+  keysetRows,
+  type ExportCursor,
+  type ExportReadOptions,
+  type ExportRow,
+} from "@/lib/exportStream";
+import {
+  exportFileColumns,
+  exportStoredColumns,
+  type ExportFilters,
+} from "@/lib/exportFormats";
+
+export type ExportDataType = "budgets" | "actuals" | "transactions" | "revenues";
+
+export const EXPORT_DATA_TYPES: ExportDataType[] = [
+  "budgets",
+  "actuals",
+  "transactions",
+  "revenues",
+];
+
+export const EXPORT_TABLE_INFO: Record<ExportDataType, { title: string; description: string }> = {
+  budgets: {
+    title: "Budget Data",
+    description: "Adopted budget amounts by department, fund, and account",
+  },
+  actuals: {
+    title: "Actuals Data",
+    description: "Actual expenditures recorded against budget line items",
+  },
+  transactions: {
+    title: "Transaction Records",
+    description: "Individual payment transactions with date and amount details",
+  },
+  revenues: {
+    title: "Revenue Data",
+    description: "Revenue collections by source, category, and period",
+  },
+};
+
+export type ExportSettings = {
+  enableActuals: boolean;
+  enableTransactions: boolean;
+  enableVendors: boolean;
+  enableRevenues: boolean;
+};
+
+/**
+ * Hourly and daily export limits per client, or the daily quota of the API
+ * key the request carries. Returns the response to send when a limit is
+ * hit, else the number of exports left in the window.
+ */
+export async function checkExportRateLimit(
+  req: NextRequest
+): Promise<{ blocked: NextResponse | null; remaining: number }> {
+  const keyed = await checkApiKeyQuota(req, "export");
+  if (keyed) return keyed;
+
+  const ip =
+    req.headers.get("x-forwarded-for")?.split(",")[0] ??
+    req.headers.get("x-real-ip") ??
+    "unknown";
+
+  // Hash IP for privacy (GDPR/CCPA compliance)
+  const ipHash = createHash("sha256")
+    .update(ip + (process.env.RATE_LIMIT_SALT || "civiportal"))
+    .digest("hex")
+    .slice(0, 16);
+
+  // Hourly limit: 20 per hour
+  const { allowed, remaining, resetInSeconds } = await rateLimitAsync(
+    `export:${ipHash}`,
+    20,
+    60 * 60 * 1000
+  );
+
+  if (!allowed) {
+    return {
+      blocked: NextResponse.json(
+        {
+          error: `Too many export requests. Try again in ${Math.ceil(
+            resetInSeconds / 60
+          )} minutes.`,
+        },
+        {
+          status: 429,
+          headers: {
+            "Retry-After": String(resetInSeconds),
+            "X-RateLimit-Remaining": "0",
+          },
+        }
+      ),
+      remaining: 0,
+    };
+  }
+
+  // Daily limit: 50 per day
+  const { allowed: dailyAllowed, resetInSeconds: dailyReset } = await rateLimitAsync(
+    `export-daily:${ipHash}`,
+    50,
+    24 * 60 * 60 * 1000
+  );
+
+  if (!dailyAllowed) {
+    return {
+      blocked: NextResponse.json(
+        {
+          error: `Daily export limit reached. Try again in ${Math.ceil(
+            dailyReset / 3600
+          )} hours.`,
+        },
+        {
+          status: 429,
+          headers: {
+            "Retry-After": String(dailyReset),
+            "X-RateLimit-Remaining": "0",
+          },
+        }
+      ),
+      remaining: 0,
+    };
+  }
+
+  return { blocked: null, remaining };
+}
+
+// Feature flags; null when portal_settings can't be read
+export async function getExportSettings(supabase: SupabaseClient): Promise<ExportSettings | null> {
+  const { data, error } = await supabase
+    .from("portal_settings")
+    .select("enable_actuals, enable_transactions, enable_vendors, enable_revenues")
+    .eq("id", 1)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Export: error loading portal_settings", error);
+    return null;
+  }
+
+  const enableTransactions = data?.enable_transactions === true;
+  return {
+    enableActuals: data?.enable_actuals !== false,
+    enableTransactions,
+    enableVendors: enableTransactions && data?.enable_vendors === true,
+    enableRevenues: data?.enable_revenues === true,
+  };
+}
+
+export function isExportEnabled(dataType: ExportDataType, settings: ExportSettings): boolean {
+  if (dataType === "actuals") return settings.enableActuals;
+  if (dataType === "transactions") return settings.enableTransactions;
+  if (dataType === "revenues") return settings.enableRevenues;
+  return true;
+}
+
+// The NOT NULL column each table is exported in order of
+const EXPORT_ORDER: Record<ExportDataType, { orderColumn: string; ascending: boolean }> = {
+  budgets: { orderColumn: "department_name", ascending: true },
+  actuals: { orderColumn: "department_name", ascending: true },
+  transactions: { orderColumn: "date", ascending: false },
+  revenues: { orderColumn: "fiscal_year", ascending: false },
+};
+
+export type ExportTable = {
+  // Columns of each row, stored ones first, then the derived
+  // current_department_name and canonical_vendor where they apply
+  columns: string[];
+  count: number; // matching rows, before EXPORT_ROW_LIMIT
+  truncated: boolean; // count is over EXPORT_ROW_LIMIT
+  rows: (options?: ExportReadOptions) => AsyncGenerator<ExportRow>;
+};
+
+/**
+ * Counts the rows of `dataType` matching `filters` and returns a reader
+ * for them. Throws when the count fails; page errors are thrown while
+ * reading.
+ */
+export async function openExportTable(
+  supabase: SupabaseClient,
+  dataType: ExportDataType,
+  filters: ExportFilters,
+  settings: ExportSettings
+): Promise<ExportTable> {
+  const { years, departments, vendors, sources, startDate, endDate } = filters;
+  const columns = exportStoredColumns(dataType, settings.enableVendors);
+  const { orderColumn, ascending } = EXPORT_ORDER[dataType];
+
+  // Renamed/merged departments: a department filter also matches rows
+  // filed under its old names, and each row gets the department it is
+  // reported under today. Read in pages, as the department pages read them,
+  // so a long alias list isn't cut off
+  const hasDepartments = dataType !== "revenues";
+  const aliases: DepartmentAlias[] = hasDepartments ? await getDepartmentAliases() : [];
+  const departmentFilter = expandDepartmentFilter(aliases, departments);
+
+  // Merged vendor spellings: a vendor filter matches every spelling, and
+  // each transaction gets its canonical vendor. Read in pages like the
+  // department aliases above
+  const hasVendors = dataType === "transactions" && settings.enableVendors;
+  const vendorAliases: VendorAlias[] = hasVendors ? await getVendorAliases() : [];
+  const vendorFilter = expandVendorFilter(vendorAliases, vendors);
+  const canonicalVendor = createVendorCanonicalizer(vendorAliases);
+
+  const yearNumbers = years.map(Number).filter(Number.isFinite);
+  const hasDates = dataType === "transactions";
+
+  // Same filters on the count and on every page
+  const buildQuery = (select: string, count?: "exact") => {
+    let query = supabase
+      .from(dataType)
+      .select(select, count ? { count, head: true } : { head: false });
+
+    if (yearNumbers.length > 0) {
+      query = query.in("fiscal_year", yearNumbers);
+    }
+    if (departments.length > 0 && hasDepartments) {
+      query = query.in("department_name", departmentFilter);
+    }
+    if (vendors.length > 0 && hasVendors) {
+      query = query.in("vendor", vendorFilter);
+    }
+    if (sources.length > 0 && dataType === "revenues") {
+      query = query.in("category", sources);
+    }
+    if (startDate && hasDates) {
+      query = query.gte("date", startDate);
+    }
+    if (endDate && hasDates) {
+      query = query.lte("date", endDate);
+    }
+    return query;
+  };
+
+  const { count, error: countError } = await buildQuery("*", "exact");
+  if (countError) {
+    console.error(`Export ${dataType} count error:`, countError);
+    throw new Error(`Failed to count ${dataType} for export`);
+  }
+
+  // Pages are read by keyset: the sort column, then id, continuing after
+  // the last row of the previous page
+  const pageQuery = (cursor: ExportCursor | null) => {
+    let query = buildQuery([...columns, "id"].join(","))
+      .order(orderColumn, { ascending })
+      .order("id", { ascending })
+      .limit(EXPORT_PAGE_SIZE);
+    if (cursor) {
+      query = query.or(keysetFilter(orderColumn, ascending, cursor));
+    }
+    return query;
+  };
+
+  // Fetch pages sequentially for reliability (parallel was causing
+  // timeouts). A statement timeout gets one retry; any other failure
+  // ends the export with an error rather than a file missing rows.
+  const fetchPage = async (cursor: ExportCursor | null): Promise<ExportRow[]> => {
+    const { data, error } = await pageQuery(cursor);
+    if (!error) return (data ?? []) as unknown as ExportRow[];
+
+    if (error.code === "57014") {
+      console.warn(`Export ${dataType}: page timed out, retrying after delay...`);
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+      const retry = await pageQuery(cursor);
+      if (!retry.error) return (retry.data ?? []) as unknown as ExportRow[];
+      console.error(`Export ${dataType}: retry also failed`, retry.error);
+      throw new Error(`Export ${dataType} timed out`);
+    }
+
+    console.error(`Export ${dataType} page error:`, error);
+    throw new Error(`Export ${dataType} failed`);
+  };
+
+  const total = count ?? 0;
+
+  async function* rows(options?: ExportReadOptions): AsyncGenerator<ExportRow> {
+    if (total === 0) return;
+
+    for await (const row of keysetRows(fetchPage, orderColumn, options)) {
+      const out: ExportRow = {};
+      for (const col of columns) out[col] = row[col];
+      if (hasDepartments) {
+        const name = String(row.department_name ?? "");
+        const targets = name ? getAliasTargets(aliases, name, Number(row.fiscal_year)) : [];
+        out.current_department_name = targets.length > 0 ? describeAliasTargets(targets) : "";
+      }
+      if (hasVendors) {
+        out.canonical_vendor = canonicalVendor(row.vendor as string | null);
+      }
+      yield out;
+    }
+  }
+
+  return {
+    columns: exportFileColumns(dataType, settings.enableVendors),
+    count: total,
+    truncated: total > EXPORT_ROW_LIMIT,
+    rows,
+  };
+}
@@ -0,0 +1,180 @@
+// lib/exportStream.ts
+//
+// Streaming CSV exports for the Download Center. Rows are read one page at
+// a time with a keyset cursor (the sort column, then id) and written to
+// the response as they arrive, so a multi-year export never sits in memory
+// and deep pages cost the same as the first.
+
+export const EXPORT_PAGE_SIZE = 1000; // Supabase default limit per query
+
+// Hard cap on a single download: about as many rows as one response can
+// stream within EXPORT_TIME_BUDGET_MS. Larger selections are split by
+// filter; the Download Center says so before the download starts.
+export const EXPORT_ROW_LIMIT = 1_000_000;
+
+// Time an export spends reading rows before it stops, leaving the export
+// routes' 300-second maxDuration room to finish the file
+export const EXPORT_TIME_BUDGET_MS = 270_000;
+
+// Response header set when an export is known up front to exceed its row
+// limit. A stop found mid-stream comes too late for a header, so the file
+// itself ends with an exportStopNotice.
+export const EXPORT_TRUNCATED_HEADER = "X-Export-Truncated";
+
+// Start of every exportStopNotice, for spotting one at the end of a file
+export const EXPORT_STOP_PREFIX = "Export stopped";
+
+export type ExportRow = Record<string, unknown>;
+
+// Last row of the previous page
+export type ExportCursor = {
+  value: unknown; // sort column
+  id: string;
+};
+
+export type ExportPageFetcher = (cursor: ExportCursor | null) => Promise<ExportRow[]>;
+
+// Why an export ended before its last row
+export type ExportStop = {
+  reason: "row_limit" | "time_budget";
+  rowsSent: number;
+};
+
+export type ExportReadOptions = {
+  limit?: number; // rows, default EXPORT_ROW_LIMIT
+  deadline?: number; // epoch ms after which no further page is read
+  onStop?: (stop: ExportStop) => void;
+};
+
+// Quote CSV values
+export function csvSafe(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const s = String(value);
+  return `"${s.replace(/"/g, '""')}"`;
+}
+
+// Double-quoted PostgREST value, so commas and parentheses in names
+// don't break the filter
+function filterValue(value: unknown): string {
+  return `"${String(value).replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * PostgREST `or` filter for the rows after `cursor` when sorted by
+ * `column` then `idColumn`, both in the same direction. Both columns must
+ * be NOT NULL and together unique.
+ */
+export function keysetFilter(
+  column: string,
+  ascending: boolean,
+  cursor: ExportCursor,
+  idColumn = "id"
+): string {
+  const op = ascending ? "gt" : "lt";
+  const value = filterValue(cursor.value);
+  return `${column}.${op}.${value},and(${column}.eq.${value},${idColumn}.${op}.${filterValue(cursor.id)})`;
+}
+
+/**
+ * Every row `fetchPage` returns, page after page, up to `limit` rows and
+ * until `deadline`. Stops at the first short page; when it stops early
+ * instead, `onStop` is told why. Fetch errors are thrown so a failed
+ * export is never mistaken for a complete one.
+ */
+export async function* keysetRows(
+  fetchPage: ExportPageFetcher,
+  orderColumn: string,
+  {
+    pageSize = EXPORT_PAGE_SIZE,
+    limit = EXPORT_ROW_LIMIT,
+    deadline = Infinity,
+    onStop,
+  }: ExportReadOptions & { pageSize?: number } = {}
+): AsyncGenerator<ExportRow> {
+  let cursor: ExportCursor | null = null;
+  let sent = 0;
+
+  for (;;) {
+    const rows = await fetchPage(cursor);
+    for (const row of rows) {
+      if (sent >= limit) {
+        onStop?.({ reason: "row_limit", rowsSent: sent });
+        return;
+      }
+      yield row;
+      sent++;
+    }
+    if (rows.length < pageSize) return;
+
+    // A full page may have more behind it
+    if (sent >= limit) {
+      onStop?.({ reason: "row_limit", rowsSent: sent });
+      return;
+    }
+    if (Date.now() >= deadline) {
+      onStop?.({ reason: "time_budget", rowsSent: sent });
+      return;
+    }
+
+    const last = rows[rows.length - 1];
+    cursor = { value: last[orderColumn], id: String(last.id) };
+  }
+}
+
+/**
+ * One-line note written at the end of an export that stopped early, so a
+ * cut-short file says so even after the response headers were sent.
+ */
+export function exportStopNotice(stop: ExportStop, count: number): string {
+  const sent = stop.rowsSent.toLocaleString("en-US");
+  const total = count.toLocaleString("en-US");
+  const why =
+    stop.reason === "row_limit"
+      ? `a download in this format holds at most ${sent} rows`
+      : "the download reached its time limit";
+  return `${EXPORT_STOP_PREFIX} after ${sent} of ${total} matching rows: ${why}. Narrow the filters to download the rest.`;
+}
+
+// Last CSV row of an export that stopped early: the notice in the first
+// column, the rest left blank
+export function csvNoticeRow(notice: string, columns: string[]): string {
+  return [csvSafe(notice), ...columns.slice(1).map(() => "")].join(",");
+}
+
+/**
+ * UTF-8 body with one line per item of `lines`, pulled only as fast as the
+ * client reads them.
+ */
+export function lineStream(lines: AsyncIterable<string>): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const iterator = lines[Symbol.asyncIterator]();
+  let first = true;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await iterator.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(encoder.encode(first ? value : `\n${value}`));
+          first = false;
+        }
+      } catch (err) {
+        controller.error(err);
+      }
+    },
+    async cancel() {
+      await iterator.return?.(undefined);
+    },
+  });
+}
+
+// CSV body: `header`, then `lines`
+export function csvStream(header: string, lines: AsyncIterable<string>): ReadableStream<Uint8Array> {
+  async function* withHeader(): AsyncGenerator<string> {
+    yield header;
+    yield* lines;
+  }
+  return lineStream(withHeader());
+}
@@ -0,0 +1,201 @@
+// lib/exportWriters.ts
+//
+// Binary export formats, server only: Excel workbooks (typed cells plus an
+// About sheet), Parquet files and the zipped fiscal-year bundle. CSV and
+// JSON lines are plain text and go through lineStream in exportStream.
+
+import { PassThrough, Readable } from "stream";
+import ExcelJS from "exceljs";
+import JSZip from "jszip";
+import { ByteWriter, ParquetWriter, type SchemaElement } from "hyparquet-writer";
+import {
+  EXPORT_COLUMNS,
+  exportColumnType,
+  typedExportValue,
+} from "@/lib/exportFormats";
+import type { ExportRow } from "@/lib/exportStream";
+
+// Rows per Parquet row group; also how many rows are held before encoding
+const PARQUET_ROW_GROUP = 50_000;
+
+function toWebStream(stream: Readable): ReadableStream<Uint8Array> {
+  return Readable.toWeb(stream) as unknown as ReadableStream<Uint8Array>;
+}
+
+// Dates as UTC midnight, so spreadsheets and Parquet keep the calendar day
+function toDate(value: string): Date {
+  return new Date(`${value}T00:00:00Z`);
+}
+
+const XLSX_FORMATS: Record<string, string> = {
+  integer: "0",
+  number: "#,##0.00",
+  date: "yyyy-mm-dd",
+};
+
+/**
+ * Excel workbook streamed as it is written: a Data sheet with numbers and
+ * dates as real cells, then an About sheet with the data dictionary and the
+ * label/value pairs `about` returns. The About sheet is written after the
+ * last row, so `about` can describe how the rows ended.
+ */
+export function xlsxStream(
+  rows: AsyncIterable<ExportRow>,
+  columns: string[],
+  about: () => [string, string][]
+): ReadableStream<Uint8Array> {
+  const output = new PassThrough();
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+    stream: output,
+    useStyles: true,
+    useSharedStrings: false,
+  });
+
+  (async () => {
+    const data = workbook.addWorksheet("Data", { views: [{ state: "frozen", ySplit: 1 }] });
+    data.columns = columns.map((col) => ({
+      header: col,
+      key: col,
+      width: Math.max(12, col.length + 2),
+      style: { numFmt: XLSX_FORMATS[exportColumnType(col)] },
+    }));
+
+    for await (const row of rows) {
+      data
+        .addRow(
+          columns.map((col) => {
+            const value = typedExportValue(col, row[col]);
+            return exportColumnType(col) === "date" && typeof value === "string"
+              ? toDate(value)
+              : value;
+          })
+        )
+        .commit();
+    }
+    data.commit();
+
+    const sheet = workbook.addWorksheet("About");
+    sheet.columns = [{ width: 26 }, { width: 18 }, { width: 80 }];
+    for (const [label, value] of about()) {
+      sheet.addRow([label, value]).commit();
+    }
+    sheet.addRow([]).commit();
+    sheet.addRow(["Column", "Type", "Description"]).commit();
+    for (const col of columns) {
+      sheet
+        .addRow([col, exportColumnType(col), EXPORT_COLUMNS[col]?.description ?? ""])
+        .commit();
+    }
+    sheet.commit();
+
+    await workbook.commit();
+  })().catch((err) => {
+    console.error("Export: error writing workbook", err);
+    output.destroy(err instanceof Error ? err : new Error(String(err)));
+  });
+
+  return toWebStream(output);
+}
+
+function parquetSchema(columns: string[]): SchemaElement[] {
+  return [
+    { name: "root", num_children: columns.length },
+    ...columns.map((name): SchemaElement => {
+      switch (exportColumnType(name)) {
+        case "integer":
+          return { name, type: "INT32", repetition_type: "OPTIONAL" };
+        case "number":
+          return { name, type: "DOUBLE", repetition_type: "OPTIONAL" };
+        case "date":
+          return { name, type: "INT32", converted_type: "DATE", repetition_type: "OPTIONAL" };
+        default:
+          return { name, type: "BYTE_ARRAY", converted_type: "UTF8", repetition_type: "OPTIONAL" };
+      }
+    }),
+  ];
+}
+
+/**
+ * Parquet file with typed columns and the label/value pairs `about`
+ * returns, read after the last row, as key-value metadata. Rows are
+ * encoded a row group at a time, so only the compressed file and one
+ * group of rows are held in memory.
+ */
+export async function parquetBytes(
+  rows: AsyncIterable<ExportRow>,
+  columns: string[],
+  about: () => [string, string][]
+): Promise<Uint8Array<ArrayBuffer>> {
+  const writer = new ByteWriter();
+  const parquet = new ParquetWriter({ writer, schema: parquetSchema(columns) });
+
+  let group: Record<string, unknown[]> = {};
+  let groupSize = 0;
+  const startGroup = () => {
+    group = Object.fromEntries(columns.map((col) => [col, []]));
+    groupSize = 0;
+  };
+  const flushGroup = async () => {
+    if (groupSize === 0) return;
+    await parquet.write({
+      columnData: columns.map((name) => ({ name, data: group[name] })),
+      rowGroupSize: groupSize,
+    });
+    startGroup();
+  };
+
+  startGroup();
+  for await (const row of rows) {
+    for (const col of columns) {
+      const value = typedExportValue(col, row[col]);
+      group[col].push(
+        exportColumnType(col) === "date" && typeof value === "string" ? toDate(value) : value
+      );
+    }
+    groupSize++;
+    if (groupSize >= PARQUET_ROW_GROUP) await flushGroup();
+  }
+  await flushGroup();
+  parquet.kvMetadata = about().map(([key, value]) => ({ key, value }));
+  await parquet.finish();
+
+  return writer.getBytes();
+}
+
+/**
+ * Zip archive streamed as its entries are read. Entries given as line
+ * iterables are written one after another without being held in memory.
+ */
+export function zipStream(
+  entries: { name: string; content: string | AsyncIterable<string> }[]
+): ReadableStream<Uint8Array> {
+  const zip = new JSZip();
+  for (const { name, content } of entries) {
+    if (typeof content === "string") {
+      zip.file(name, content);
+    } else {
+      const lines = content;
+      async function* chunks(): AsyncGenerator<Buffer> {
+        let first = true;
+        for await (const line of lines) {
+          yield Buffer.from(first ? line : `\n${line}`);
+          first = false;
+        }
+      }
+      zip.file(name, Readable.from(chunks()));
+    }
+  }
+
+  // JSZip's stream comes from an older stream polyfill; pipe it through a
+  // core stream so it converts to a web stream
+  const output = new PassThrough();
+  zip
+    .generateNodeStream({ type: "nodebuffer", streamFiles: true, compression: "DEFLATE" })
+    .on("error", (err: Error) => {
+      console.error("Export: error writing zip", err);
+      output.destroy(err);
+    })
+    .pipe(output);
+
+  return toWebStream(output);
+}
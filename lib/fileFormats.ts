@@ -0,0 +1,291 @@
+// lib/fileFormats.ts
+//
+// Source file formats the admin uploader accepts besides plain CSV: other
+// delimiters (tab, semicolon, pipe), Excel workbooks and fixed-width text
+// exports. Each format is turned into rows of strings (headers first) so it
+// goes through the same column mapping and validation as a CSV.
+//
+// Shared by the uploader UI (preview) and the server-side ingest pipeline.
+
+export type Delimiter = "," | "\t" | ";" | "|";
+
+export type FixedWidthColumn = {
+  name: string;
+  start: number; // 1-based character position, as ERP layout docs list them
+  width: number;
+};
+
+export type FixedWidthLayout = {
+  columns: FixedWidthColumn[];
+  skipLines: number; // title/header lines before the first data row
+};
+
+export type FileFormat =
+  | { type: "delimited"; delimiter: Delimiter }
+  | { type: "xlsx"; sheet: string | null } // null = first worksheet
+  | { type: "fixed_width"; layout: FixedWidthLayout };
+
+export type FixedWidthLayoutRow = {
+  id: number;
+  created_at: string;
+  updated_at: string;
+  name: string;
+  layout: FixedWidthLayout;
+  created_by: string | null;
+};
+
+export const DEFAULT_FILE_FORMAT: FileFormat = {
+  type: "delimited",
+  delimiter: ",",
+};
+
+export const DELIMITER_LABELS: Record<Delimiter, string> = {
+  ",": "Comma (,)",
+  "\t": "Tab",
+  ";": "Semicolon (;)",
+  "|": "Pipe (|)",
+};
+
+export const UPLOAD_FILE_ACCEPT = ".csv,.tsv,.txt,.dat,.prn,.xlsx";
+
+export function isXlsxFilename(filename: string): boolean {
+  return /\.xlsx$/i.test(filename.trim());
+}
+
+/**
+ * Count delimiter characters outside double quotes in one line.
+ */
+function countDelimiter(line: string, delimiter: Delimiter): number {
+  let count = 0;
+  let inQuotes = false;
+  for (const char of line) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (char === delimiter && !inQuotes) count++;
+  }
+  return count;
+}
+
+/**
+ * Guess the delimiter of a text export from its first lines. A candidate
+ * must split every sampled line into the same number of fields; of those,
+ * the one giving the most fields wins. Returns null when no candidate is
+ * consistent, which usually means a fixed-width file.
+ */
+export function detectDelimiter(sample: string): Delimiter | null {
+  const lines = sample
+    .split(/\r\n|\n|\r/)
+    .filter((line) => line.trim().length > 0)
+    .slice(0, 20);
+
+  // The last sampled line may be cut off mid-row
+  if (lines.length > 2) lines.pop();
+  if (lines.length === 0) return null;
+
+  let best: Delimiter | null = null;
+  let bestCount = 0;
+
+  for (const delimiter of Object.keys(DELIMITER_LABELS) as Delimiter[]) {
+    const counts = lines.map((line) => countDelimiter(line, delimiter));
+    const first = counts[0];
+    if (first === 0 || counts.some((c) => c !== first)) continue;
+    if (first > bestCount) {
+      best = delimiter;
+      bestCount = first;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Starting format for a newly chosen file, from its name and (for text
+ * files) the first few kilobytes.
+ */
+export function inferFileFormat(filename: string, sample: string): FileFormat {
+  if (isXlsxFilename(filename)) return { type: "xlsx", sheet: null };
+
+  const delimiter = detectDelimiter(sample);
+  if (delimiter) return { type: "delimited", delimiter };
+
+  if (/\.(txt|dat|prn)$/i.test(filename.trim())) {
+    return { type: "fixed_width", layout: { columns: [], skipLines: 0 } };
+  }
+  return DEFAULT_FILE_FORMAT;
+}
+
+/**
+ * Cut one line of a fixed-width export into its columns. Values are
+ * trimmed; columns past the end of a short line are empty.
+ */
+export function parseFixedWidthLine(
+  line: string,
+  layout: FixedWidthLayout
+): string[] {
+  return layout.columns.map((col) =>
+    line.slice(col.start - 1, col.start - 1 + col.width).trim()
+  );
+}
+
+/**
+ * Problems that would make a fixed-width layout cut rows incorrectly.
+ */
+export function validateFixedWidthLayout(layout: FixedWidthLayout): string[] {
+  const errors: string[] = [];
+
+  if (layout.columns.length === 0) {
+    errors.push("Add at least one column to the layout.");
+  }
+
+  const names = new Set<string>();
+  const sorted = [...layout.columns].sort((a, b) => a.start - b.start);
+
+  sorted.forEach((col, i) => {
+    const label = col.name.trim() || `Column at position ${col.start}`;
+    if (!col.name.trim()) {
+      errors.push(`${label} needs a name.`);
+    } else if (names.has(col.name.trim())) {
+      errors.push(`Column name "${col.name.trim()}" is used twice.`);
+    }
+    names.add(col.name.trim());
+
+    if (!Number.isInteger(col.start) || col.start < 1) {
+      errors.push(`"${label}" must start at position 1 or later.`);
+    }
+    if (!Number.isInteger(col.width) || col.width < 1) {
+      errors.push(`"${label}" must be at least 1 character wide.`);
+    }
+
+    const next = sorted[i + 1];
+    if (next && col.start + col.width > next.start) {
+      errors.push(
+        `"${label}" overlaps "${next.name.trim() || next.start}".`
+      );
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Rows (headers first) for a fixed-width text sample. The layout's column
+ * names stand in for the header row the file doesn't have.
+ */
+export function parseFixedWidthText(
+  text: string,
+  layout: FixedWidthLayout
+): string[][] {
+  const lines = text
+    .split(/\r\n|\n|\r/)
+    .slice(layout.skipLines)
+    .filter((line) => line.trim().length > 0);
+
+  return [
+    layout.columns.map((col) => col.name.trim()),
+    ...lines.map((line) => parseFixedWidthLine(line, layout)),
+  ];
+}
+
+function padDate(n: number): string {
+  return String(n).padStart(2, "0");
+}
+
+/**
+ * Text for one spreadsheet cell. Text cells are kept exactly as typed, so
+ * account codes stored as text keep their leading zeros; numbers with a
+ * zero-padded format ("00000") are padded the way Excel displays them.
+ * Dates become YYYY-MM-DD.
+ */
+export function formatSpreadsheetCell(
+  value: unknown,
+  numFmt?: string | null
+): string {
+  if (value == null) return "";
+  if (typeof value === "string") return value;
+  if (typeof value === "boolean") return value ? "TRUE" : "FALSE";
+
+  if (typeof value === "number") {
+    const padded = numFmt ? /^0+$/.exec(numFmt.trim()) : null;
+    if (padded && Number.isInteger(value) && value >= 0) {
+      return String(value).padStart(padded[0].length, "0");
+    }
+    return String(value);
+  }
+
+  if (value instanceof Date) {
+    if (Number.isNaN(value.getTime())) return "";
+    // Spreadsheet dates carry no time zone; exceljs reads them as UTC
+    return `${value.getUTCFullYear()}-${padDate(value.getUTCMonth() + 1)}-${padDate(value.getUTCDate())}`;
+  }
+
+  if (typeof value === "object") {
+    const v = value as Record<string, unknown>;
+    if (Array.isArray(v.richText)) {
+      return v.richText
+        .map((part) => (part as { text?: unknown }).text)
+        .filter((text) => typeof text === "string")
+        .join("");
+    }
+    if ("result" in v) return formatSpreadsheetCell(v.result, numFmt);
+    if ("formula" in v || "sharedFormula" in v || "error" in v) return "";
+    if (typeof v.text === "string") return v.text; // hyperlink
+  }
+
+  return "";
+}
+
+type SpreadsheetRow = {
+  eachCell(
+    opts: { includeEmpty: boolean },
+    callback: (cell: { value: unknown; numFmt?: string }, colNumber: number) => void
+  ): void;
+};
+
+/**
+ * Cell texts of one worksheet row (an exceljs Row), with gaps between
+ * cells filled with empty strings.
+ */
+export function spreadsheetRowValues(row: SpreadsheetRow): string[] {
+  const values: string[] = [];
+  row.eachCell({ includeEmpty: true }, (cell, colNumber) => {
+    values[colNumber - 1] = formatSpreadsheetCell(cell.value, cell.numFmt).trim();
+  });
+  return Array.from(values, (v) => v ?? "");
+}
+
+/**
+ * Runtime check for a file format received from the client.
+ */
+export function isFileFormat(value: unknown): value is FileFormat {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return false;
+  const f = value as Record<string, unknown>;
+
+  if (f.type === "delimited") {
+    return (
+      typeof f.delimiter === "string" &&
+      Object.prototype.hasOwnProperty.call(DELIMITER_LABELS, f.delimiter)
+    );
+  }
+  if (f.type === "xlsx") {
+    return f.sheet === null || typeof f.sheet === "string";
+  }
+  if (f.type !== "fixed_width" || !f.layout || typeof f.layout !== "object") {
+    return false;
+  }
+
+  const layout = f.layout as Record<string, unknown>;
+  return (
+    typeof layout.skipLines === "number" &&
+    Number.isInteger(layout.skipLines) &&
+    layout.skipLines >= 0 &&
+    Array.isArray(layout.columns) &&
+    layout.columns.every((raw) => {
+      if (!raw || typeof raw !== "object") return false;
+      const col = raw as Record<string, unknown>;
+      return (
+        typeof col.name === "string" &&
+        typeof col.start === "number" &&
+        typeof col.width === "number"
+      );
+    })
+  );
+}
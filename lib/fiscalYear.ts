@@ -1,7 +1,7 @@
 // lib/fiscalYear.ts
 //
-// Shared fiscal year utilities for generating human-readable labels
-// describing the fiscal year period based on portal settings.
+// Shared fiscal year utilities: human-readable labels describing the fiscal
+// year period, plus date -> fiscal year/period math based on portal settings.
 
 import type { PortalSettings } from "@/lib/queries";
 
@@ -74,3 +74,129 @@ export function getFiscalYearLabel(
 
   return `Fiscal year runs ${startMonthName} ${startDay} – ${endMonthName} ${endDay}.`;
 }
+
+export type FiscalConfig = {
+  startMonth: number; // 1–12
+  startDay: number; // 1–31
+};
+
+/**
+ * Compute fiscal year from a date string and a fiscal-year start (month/day).
+ * Uses UTC so we don't get burned by timezones.
+ *
+ * Example for July 1 start:
+ * - 2024-06-30 -> FY 2024
+ * - 2024-07-01 -> FY 2025
+ */
+export function computeFiscalYearFromDate(
+  dateStr: string | null | undefined,
+  config: FiscalConfig
+): number | null {
+  if (!dateStr || typeof dateStr !== "string") return null;
+
+  const d = new Date(dateStr);
+  if (Number.isNaN(d.getTime())) return null;
+
+  const month = d.getUTCMonth() + 1; // 1–12
+  const day = d.getUTCDate();
+  const year = d.getUTCFullYear();
+
+  const { startMonth, startDay } = config;
+
+  // If date >= FY start for that year → next fiscal year; else → same year
+  const afterStart =
+    month > startMonth || (month === startMonth && day >= startDay);
+
+  return afterStart ? year + 1 : year;
+}
+
+export function computeFiscalPeriodFromDate(
+  dateStr: string | null | undefined,
+  config: FiscalConfig
+): number | null {
+  if (!dateStr || typeof dateStr !== "string") return null;
+
+  const d = new Date(dateStr);
+  if (Number.isNaN(d.getTime())) return null;
+
+  const month = d.getUTCMonth() + 1; // 1–12
+  const day = d.getUTCDate();
+  const { startMonth, startDay } = config;
+
+  // If FY month boundaries start on startDay, then dates before startDay belong to the prior fiscal month.
+  let effectiveMonth = month;
+  if (startDay > 1 && day < startDay) {
+    effectiveMonth = month - 1;
+    if (effectiveMonth === 0) effectiveMonth = 12;
+  }
+
+  const fiscalPeriod = ((effectiveMonth - startMonth + 12) % 12) + 1; // 1–12
+  return fiscalPeriod;
+}
+
+/**
+ * Try to derive a date string from a "period" field like "2024-01" or "2024-1".
+ * We assume day 1 of that month.
+ */
+export function deriveDateFromPeriod(
+  period: unknown,
+  startDay: number
+): string | null {
+  if (!period || typeof period !== "string") return null;
+
+  const trimmed = period.trim();
+  const match = /^(\d{4})[-/](\d{1,2})$/.exec(trimmed);
+  if (!match) return null;
+
+  const yearNum = Number(match[1]);
+  const monthNum = Number(match[2]);
+
+  if (!Number.isFinite(yearNum) || !Number.isFinite(monthNum)) return null;
+  if (monthNum < 1 || monthNum > 12) return null;
+
+  // Clamp startDay to the last day of that month
+  const lastDay = new Date(Date.UTC(yearNum, monthNum, 0)).getUTCDate(); // monthNum is 1-based; day=0 => last day prev month
+  const day = Math.min(Math.max(1, Number(startDay) || 1), lastDay);
+
+  const mm = String(monthNum).padStart(2, "0");
+  const dd = String(day).padStart(2, "0");
+  return `${yearNum}-${mm}-${dd}`;
+}
+
+/**
+ * Fiscal-year start from portal settings, January 1 when unset or out of
+ * range.
+ */
+export function fiscalConfigFrom(
+  settings: Pick<PortalSettings, "fiscal_year_start_month" | "fiscal_year_start_day"> | null
+): FiscalConfig {
+  const parsedMonth = Number(settings?.fiscal_year_start_month);
+  const parsedDay = Number(settings?.fiscal_year_start_day);
+
+  return {
+    startMonth:
+      Number.isInteger(parsedMonth) && parsedMonth >= 1 && parsedMonth <= 12 ? parsedMonth : 1,
+    startDay: Number.isInteger(parsedDay) && parsedDay >= 1 && parsedDay <= 31 ? parsedDay : 1,
+  };
+}
+
+/**
+ * First and last day ("YYYY-MM-DD") of a fiscal year. Years are named for
+ * the calendar year they end in, so with a July 1 start FY 2024 runs
+ * 2023-07-01 to 2024-06-30; a January 1 start is the calendar year.
+ */
+export function fiscalYearDateRange(
+  fiscalYear: number,
+  config: FiscalConfig
+): { start: string; end: string } {
+  const { startMonth, startDay } = config;
+  const firstYear = startMonth === 1 && startDay === 1 ? fiscalYear : fiscalYear - 1;
+
+  const start = Date.UTC(firstYear, startMonth - 1, startDay);
+  const nextStart = Date.UTC(firstYear + 1, startMonth - 1, startDay);
+
+  return {
+    start: new Date(start).toISOString().slice(0, 10),
+    end: new Date(nextStart - 24 * 60 * 60 * 1000).toISOString().slice(0, 10),
+  };
+}
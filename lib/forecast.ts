@@ -0,0 +1,230 @@
+// lib/forecast.ts
+// Year-end projections from fiscal-period history. A projection blends the
+// prior year's seasonality (what share of last year's total had come in by
+// this period) with this year's straight run rate. The range around it is a
+// heuristic that narrows as the year goes on, not a statistical interval.
+
+import type { BudgetActualsYearDeptRow } from "./queries";
+import type { RevenueRow } from "./schema";
+import { FISCAL_PERIODS, type PeriodActualRow } from "./budgetExecution";
+
+export type ForecastMethod =
+  | "final" // every period is in; the projection is the actual total
+  | "blended" // prior-year seasonality averaged with the run rate
+  | "run-rate"; // no usable prior year, so the run rate alone
+
+export type YearEndForecast = {
+  throughPeriod: number;
+  ytd: number;
+  projected: number;
+  low: number;
+  high: number;
+  method: ForecastMethod;
+};
+
+// Half-width of the range at the start of the year as a share of the
+// projection; it shrinks linearly to zero by the last period
+export const FORECAST_RANGE_FACTOR = 0.25;
+
+// Below this share of last year's total, the seasonal estimate divides by
+// too little to be meaningful
+const MIN_SEASONAL_SHARE = 0.02;
+
+type PeriodAmount = { fiscal_period?: number | null; amount: number };
+
+export function totalsByPeriod(rows: PeriodAmount[]): number[] {
+  const totals = new Array<number>(FISCAL_PERIODS).fill(0);
+  for (const r of rows) {
+    const p = Number(r.fiscal_period);
+    if (Number.isInteger(p) && p >= 1 && p <= FISCAL_PERIODS) {
+      totals[p - 1] += Number(r.amount || 0);
+    }
+  }
+  return totals;
+}
+
+const sum = (values: number[]) => values.reduce((acc, v) => acc + v, 0);
+
+/**
+ * Projects the year-end total from period totals posted through
+ * `throughPeriod`. `prior` is last year's period totals, if any. Returns
+ * null before anything is posted.
+ */
+export function forecastYearEnd(
+  current: number[],
+  prior: number[] | null,
+  throughPeriod: number
+): YearEndForecast | null {
+  const t = Math.min(Math.max(Math.floor(throughPeriod), 0), FISCAL_PERIODS);
+  if (t === 0) return null;
+
+  const ytd = sum(current.slice(0, t));
+  if (t === FISCAL_PERIODS) {
+    return { throughPeriod: t, ytd, projected: ytd, low: ytd, high: ytd, method: "final" };
+  }
+
+  const elapsed = t / FISCAL_PERIODS;
+  const runRate = ytd / elapsed;
+
+  const priorTotal = prior ? sum(prior) : 0;
+  const priorShare = prior && priorTotal > 0 ? sum(prior.slice(0, t)) / priorTotal : 0;
+  const seasonal = priorShare >= MIN_SEASONAL_SHARE ? ytd / priorShare : null;
+
+  const projected = seasonal !== null ? (seasonal + runRate) / 2 : runRate;
+  const margin = Math.abs(projected) * FORECAST_RANGE_FACTOR * (1 - elapsed);
+  const estimates = seasonal !== null ? [seasonal, runRate] : [runRate];
+
+  return {
+    throughPeriod: t,
+    ytd,
+    projected,
+    // Spending already posted is the floor for anything still to come
+    low: Math.max(Math.min(projected - margin, ...estimates), Math.min(ytd, projected)),
+    high: Math.max(projected + margin, ...estimates),
+    method: seasonal !== null ? "blended" : "run-rate",
+  };
+}
+
+const periodAmounts = (rows: PeriodActualRow[]): PeriodAmount[] =>
+  rows.map((r) => ({ fiscal_period: r.fiscal_period, amount: r.actual_amount }));
+
+export type DepartmentForecast = YearEndForecast & {
+  department_name: string;
+  budget: number;
+  projectedVariance: number; // projected - budget; positive is a projected overrun
+};
+
+/**
+ * Year-end spending forecast for each department with a budget or actuals,
+ * largest projected overrun first. Departments without a prior year of
+ * their own borrow the citywide seasonality.
+ */
+export function forecastDepartments(
+  budgets: Pick<BudgetActualsYearDeptRow, "department_name" | "budget_amount">[],
+  rows: PeriodActualRow[],
+  priorRows: PeriodActualRow[],
+  throughPeriod: number
+): DepartmentForecast[] {
+  const cityPrior = priorRows.length > 0 ? totalsByPeriod(periodAmounts(priorRows)) : null;
+
+  const budgetByDept = new Map<string, number>();
+  for (const b of budgets) {
+    budgetByDept.set(
+      b.department_name,
+      (budgetByDept.get(b.department_name) ?? 0) + Number(b.budget_amount || 0)
+    );
+  }
+  for (const r of rows) {
+    if (!budgetByDept.has(r.department_name)) budgetByDept.set(r.department_name, 0);
+  }
+
+  const out: DepartmentForecast[] = [];
+  for (const [department_name, budget] of budgetByDept) {
+    const own = priorRows.filter((r) => r.department_name === department_name);
+    const forecast = forecastYearEnd(
+      totalsByPeriod(periodAmounts(rows.filter((r) => r.department_name === department_name))),
+      own.length > 0 ? totalsByPeriod(periodAmounts(own)) : cityPrior,
+      throughPeriod
+    );
+    if (!forecast) continue;
+    out.push({
+      ...forecast,
+      department_name,
+      budget,
+      projectedVariance: forecast.projected - budget,
+    });
+  }
+
+  return out.sort(
+    (a, b) =>
+      b.projectedVariance - a.projectedVariance ||
+      a.department_name.localeCompare(b.department_name)
+  );
+}
+
+/**
+ * Citywide spending forecast from the period rollup.
+ */
+export function forecastCitySpending(
+  rows: PeriodActualRow[],
+  priorRows: PeriodActualRow[],
+  throughPeriod: number
+): YearEndForecast | null {
+  return forecastYearEnd(
+    totalsByPeriod(periodAmounts(rows)),
+    priorRows.length > 0 ? totalsByPeriod(periodAmounts(priorRows)) : null,
+    throughPeriod
+  );
+}
+
+export type RevenueSourceForecast = YearEndForecast & { source: string };
+
+export type RevenueForecast = {
+  total: YearEndForecast | null;
+  sources: RevenueSourceForecast[]; // largest projection first
+};
+
+const revenueSource = (r: Pick<RevenueRow, "category">) =>
+  (r.category ?? "").trim() || "Unspecified";
+
+/**
+ * Year-end revenue forecast, in total and per revenue source, through the
+ * latest period with revenue posted. Revenue rows without a fiscal period
+ * are ignored.
+ */
+export function forecastRevenues(
+  current: Pick<RevenueRow, "category" | "fiscal_period" | "amount">[],
+  prior: Pick<RevenueRow, "category" | "fiscal_period" | "amount">[]
+): RevenueForecast {
+  const currentTotals = totalsByPeriod(current);
+  let throughPeriod = 0;
+  currentTotals.forEach((v, i) => {
+    if (v !== 0) throughPeriod = i + 1;
+  });
+
+  const priorTotals = prior.length > 0 ? totalsByPeriod(prior) : null;
+
+  const bySource = (rows: typeof current) => {
+    const map = new Map<string, typeof current>();
+    for (const r of rows) {
+      const key = revenueSource(r);
+      const list = map.get(key) ?? [];
+      list.push(r);
+      map.set(key, list);
+    }
+    return map;
+  };
+  const currentBySource = bySource(current);
+  const priorBySource = bySource(prior);
+
+  const sources: RevenueSourceForecast[] = [];
+  for (const [source, rows] of currentBySource) {
+    const own = priorBySource.get(source);
+    const forecast = forecastYearEnd(
+      totalsByPeriod(rows),
+      own ? totalsByPeriod(own) : priorTotals,
+      throughPeriod
+    );
+    if (forecast) sources.push({ ...forecast, source });
+  }
+
+  return {
+    total: forecastYearEnd(currentTotals, priorTotals, throughPeriod),
+    sources: sources.sort((a, b) => b.projected - a.projected || a.source.localeCompare(b.source)),
+  };
+}
+
+/**
+ * One-line explanation of how a forecast was made, for display under it.
+ */
+export function describeForecast(forecast: YearEndForecast): string {
+  const periods = `${forecast.throughPeriod} of ${FISCAL_PERIODS} periods`;
+  switch (forecast.method) {
+    case "final":
+      return `All ${FISCAL_PERIODS} periods are posted; this is the year-end total.`;
+    case "blended":
+      return `Based on ${periods}, blending last year's timing with this year's run rate.`;
+    case "run-rate":
+      return `Based on ${periods} at this year's run rate; no prior year to adjust for timing.`;
+  }
+}
@@ -0,0 +1,179 @@
+// lib/funds.ts
+//
+// Fund-level views (budget_actuals_year_fund / transaction_year_fund
+// rollups) and the portal-wide `?fund=` filter. The overview, budget,
+// departments and revenues pages narrow their data to the selected fund;
+// the /funds section compares funds and shows each fund's history.
+
+import type { RevenueRow } from "./schema";
+
+export type FundYearDeptRow = {
+  fiscal_year: number;
+  fund_name: string;
+  department_name: string;
+  budget_amount: number;
+  actual_amount: number;
+};
+
+export type FundYearDeptTxRow = {
+  fiscal_year: number;
+  fund_name: string;
+  department_name: string;
+  total_amount: number;
+  txn_count: number;
+};
+
+export type FundRevenueRow = Pick<RevenueRow, "fiscal_year" | "fund_name" | "amount">;
+
+export type FundSummary = {
+  fund_name: string;
+  budget: number;
+  actuals: number;
+  percentSpent: number;
+  revenues: number;
+  departmentCount: number;
+};
+
+export type FundBalancePoint = {
+  year: number;
+  revenues: number;
+  actuals: number;
+  net: number; // revenues less spending in the year
+  cumulative: number; // running net since the first loaded year
+};
+
+// Pages that narrow their data to the fund in `?fund=`
+export const FUND_FILTER_PATHS = ["/overview", "/budget", "/departments", "/revenues"];
+
+// Revenue rows without a fund are grouped like the rollups group them
+export function fundLabel(name: string | null | undefined): string {
+  const trimmed = (name ?? "").trim();
+  return trimmed || "Unspecified";
+}
+
+/**
+ * The `?fund=` value when it names a known fund (matched ignoring case),
+ * otherwise null (all funds).
+ */
+export function pickFund(
+  value: string | string[] | undefined,
+  funds: string[]
+): string | null {
+  const raw = Array.isArray(value) ? value[0] : value;
+  const wanted = (raw ?? "").trim().toLowerCase();
+  if (!wanted) return null;
+  return funds.find((f) => f.toLowerCase() === wanted) ?? null;
+}
+
+/**
+ * A portal link carrying the fund filter, keeping any query it already has.
+ */
+export function withFund(href: string, fund: string | null): string {
+  if (!fund) return href;
+  const separator = href.includes("?") ? "&" : "?";
+  return `${href}${separator}fund=${encodeURIComponent(fund)}`;
+}
+
+/**
+ * Budget vs actual per fund for one fiscal year, with revenues credited to
+ * the same fund. Largest budget first.
+ */
+export function summarizeFunds(
+  rows: FundYearDeptRow[],
+  revenues: FundRevenueRow[]
+): FundSummary[] {
+  const byFund = new Map<string, FundSummary>();
+  const get = (name: string) => {
+    const existing = byFund.get(name);
+    if (existing) return existing;
+    const created: FundSummary = {
+      fund_name: name,
+      budget: 0,
+      actuals: 0,
+      percentSpent: 0,
+      revenues: 0,
+      departmentCount: 0,
+    };
+    byFund.set(name, created);
+    return created;
+  };
+
+  for (const row of rows) {
+    const fund = get(fundLabel(row.fund_name));
+    fund.budget += Number(row.budget_amount || 0);
+    fund.actuals += Number(row.actual_amount || 0);
+    fund.departmentCount += 1;
+  }
+  for (const row of revenues) {
+    get(fundLabel(row.fund_name)).revenues += Number(row.amount || 0);
+  }
+
+  return Array.from(byFund.values())
+    .map((f) => ({
+      ...f,
+      percentSpent: f.budget > 0 ? (f.actuals / f.budget) * 100 : 0,
+    }))
+    .sort((a, b) => b.budget - a.budget || a.fund_name.localeCompare(b.fund_name));
+}
+
+/**
+ * Budget and actual totals per fiscal year, ascending, in the shape of the
+ * overview's multi-year chart.
+ */
+export function fundYearTotals(
+  rows: Pick<FundYearDeptRow, "fiscal_year" | "budget_amount" | "actual_amount">[]
+): Array<{ year: number; Budget: number; Actuals: number; Variance: number }> {
+  const byYear = new Map<number, { budget: number; actuals: number }>();
+  for (const row of rows) {
+    const year = Number(row.fiscal_year);
+    if (!Number.isFinite(year)) continue;
+    const cur = byYear.get(year) ?? { budget: 0, actuals: 0 };
+    cur.budget += Number(row.budget_amount || 0);
+    cur.actuals += Number(row.actual_amount || 0);
+    byYear.set(year, cur);
+  }
+
+  return Array.from(byYear.entries())
+    .sort((a, b) => a[0] - b[0])
+    .map(([year, totals]) => ({
+      year,
+      Budget: totals.budget,
+      Actuals: totals.actuals,
+      Variance: totals.actuals - totals.budget,
+    }));
+}
+
+/**
+ * Revenues less spending per fiscal year and the running total since the
+ * first year loaded. Without an opening balance this is the change in fund
+ * balance over the loaded years, not the balance itself.
+ */
+export function buildFundBalanceTrend(
+  rows: Pick<FundYearDeptRow, "fiscal_year" | "actual_amount">[],
+  revenues: Pick<FundRevenueRow, "fiscal_year" | "amount">[]
+): FundBalancePoint[] {
+  const byYear = new Map<number, { revenues: number; actuals: number }>();
+  const get = (year: number) => {
+    const cur = byYear.get(year) ?? { revenues: 0, actuals: 0 };
+    byYear.set(year, cur);
+    return cur;
+  };
+
+  for (const row of rows) {
+    const year = Number(row.fiscal_year);
+    if (Number.isFinite(year)) get(year).actuals += Number(row.actual_amount || 0);
+  }
+  for (const row of revenues) {
+    const year = Number(row.fiscal_year);
+    if (Number.isFinite(year)) get(year).revenues += Number(row.amount || 0);
+  }
+
+  let cumulative = 0;
+  return Array.from(byYear.entries())
+    .sort((a, b) => a[0] - b[0])
+    .map(([year, totals]) => {
+      const net = totals.revenues - totals.actuals;
+      cumulative += net;
+      return { year, revenues: totals.revenues, actuals: totals.actuals, net, cumulative };
+    });
+}
@@ -0,0 +1,172 @@
+// lib/inflation.ts
+//
+// Constant-dollar ("real") views of multi-year amounts. Amounts are
+// restated into the dollars of a base fiscal year with a price index kept
+// in the cpi_index table (Admin → Branding & settings). Pages switch with
+// `?dollars=real`; single-year figures always stay nominal.
+
+export type CpiEntry = {
+  fiscal_year: number;
+  index_value: number;
+  source?: string | null; // "CPI-U" for the bundled series
+};
+
+// CPI-U, U.S. city average, all items, annual averages (1982-84 = 100),
+// from the Bureau of Labor Statistics. Seeds cpi_index and stands in when
+// the table is empty. Calendar-year averages; cities on a July or October
+// fiscal year can replace them with fiscal-year averages.
+export const CPI_U_ANNUAL: CpiEntry[] = [
+  { fiscal_year: 2010, index_value: 218.056 },
+  { fiscal_year: 2011, index_value: 224.939 },
+  { fiscal_year: 2012, index_value: 229.594 },
+  { fiscal_year: 2013, index_value: 232.957 },
+  { fiscal_year: 2014, index_value: 236.736 },
+  { fiscal_year: 2015, index_value: 237.017 },
+  { fiscal_year: 2016, index_value: 240.007 },
+  { fiscal_year: 2017, index_value: 245.12 },
+  { fiscal_year: 2018, index_value: 251.107 },
+  { fiscal_year: 2019, index_value: 255.657 },
+  { fiscal_year: 2020, index_value: 258.811 },
+  { fiscal_year: 2021, index_value: 270.97 },
+  { fiscal_year: 2022, index_value: 292.655 },
+  { fiscal_year: 2023, index_value: 304.702 },
+  { fiscal_year: 2024, index_value: 313.689 },
+];
+
+export type DollarsMode = "nominal" | "real";
+
+export function pickDollars(value: string | string[] | undefined): DollarsMode {
+  const raw = Array.isArray(value) ? value[0] : value;
+  return raw === "real" ? "real" : "nominal";
+}
+
+/**
+ * Multipliers that restate each year's amounts in base-year dollars.
+ * Plain data, so pages can hand it to client components.
+ */
+export type Deflator = {
+  baseYear: number;
+  factors: Record<number, number>;
+  // Years without their own index value; the nearest loaded year stands in
+  estimatedYears: number[];
+};
+
+function indexFor(byYear: Map<number, number>, sortedYears: number[], year: number): number {
+  const exact = byYear.get(year);
+  if (exact !== undefined) return exact;
+  // Nearest earlier year, else the earliest one
+  const earlier = sortedYears.filter((y) => y < year);
+  const nearest = earlier.length > 0 ? earlier[earlier.length - 1] : sortedYears[0];
+  return byYear.get(nearest) as number;
+}
+
+/**
+ * Deflator into `baseYear` dollars for the given years. The bundled CPI-U
+ * series is used when `entries` is empty; returns null if there is still
+ * nothing to deflate with.
+ */
+export function buildDeflator(
+  entries: CpiEntry[],
+  baseYear: number,
+  years: number[]
+): Deflator | null {
+  const usable = (entries.length > 0 ? entries : CPI_U_ANNUAL).filter(
+    (e) => Number.isInteger(Number(e.fiscal_year)) && Number(e.index_value) > 0
+  );
+  if (usable.length === 0) return null;
+
+  const byYear = new Map(usable.map((e) => [Number(e.fiscal_year), Number(e.index_value)]));
+  const sortedYears = Array.from(byYear.keys()).sort((a, b) => a - b);
+  const baseIndex = indexFor(byYear, sortedYears, baseYear);
+
+  const allYears = Array.from(new Set([...years, baseYear])).sort((a, b) => a - b);
+  const factors: Record<number, number> = {};
+  for (const year of allYears) {
+    factors[year] = baseIndex / indexFor(byYear, sortedYears, year);
+  }
+
+  return {
+    baseYear,
+    factors,
+    estimatedYears: allYears.filter((y) => !byYear.has(y)),
+  };
+}
+
+/**
+ * `amount` from `year` in base-year dollars; unchanged without a deflator.
+ */
+export function deflate(amount: number, year: number, deflator: Deflator | null): number {
+  if (!deflator) return amount;
+  const factor = deflator.factors[year];
+  return factor === undefined ? amount : amount * factor;
+}
+
+/**
+ * Copies of `rows` with the amount fields restated in base-year dollars.
+ */
+export function deflateRows<T>(
+  rows: T[],
+  yearOf: (row: T) => number,
+  fields: (keyof T)[],
+  deflator: Deflator | null
+): T[] {
+  if (!deflator) return rows;
+  return rows.map((row) => {
+    const copy = { ...row };
+    const year = yearOf(row);
+    for (const field of fields) {
+      const value = Number(row[field] ?? 0);
+      copy[field] = deflate(value, year, deflator) as T[keyof T];
+    }
+    return copy;
+  });
+}
+
+/**
+ * `amount` from `fromYear` in `toYear` dollars, for comparing two single
+ * years without moving either into the base year.
+ */
+export function restate(
+  amount: number,
+  fromYear: number,
+  toYear: number,
+  deflator: Deflator | null
+): number {
+  if (!deflator) return amount;
+  const from = deflator.factors[fromYear];
+  const to = deflator.factors[toYear];
+  return from === undefined || to === undefined ? amount : (amount * from) / to;
+}
+
+export function constantDollarsLabel(baseYear: number): string {
+  return `Constant FY${baseYear} dollars`;
+}
+
+/**
+ * Index values pasted as "year, value" lines (tabs, commas or spaces
+ * between). Returns the parsed entries and the lines that didn't parse.
+ */
+export function parseCpiText(text: string): { entries: CpiEntry[]; invalid: string[] } {
+  const entries = new Map<number, number>();
+  const invalid: string[] = [];
+
+  for (const line of text.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (!trimmed || /^[a-z]/i.test(trimmed)) continue; // blank or a header row
+    const [yearRaw, valueRaw, ...rest] = trimmed.split(/[\s,;]+/);
+    const year = Number(yearRaw);
+    const value = Number(valueRaw);
+    if (rest.length > 0 || !Number.isInteger(year) || year < 1900 || year > 2200 || !(value > 0)) {
+      invalid.push(trimmed);
+      continue;
+    }
+    entries.set(year, value);
+  }
+
+  return {
+    entries: Array.from(entries, ([fiscal_year, index_value]) => ({ fiscal_year, index_value })).sort(
+      (a, b) => a.fiscal_year - b.fiscal_year
+    ),
+    invalid,
+  };
+}
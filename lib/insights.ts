@@ -1,17 +1,222 @@
 // lib/insights.ts
+//
+// Rule-driven insights for the overview. Rules live in the insight_rules
+// table (edited under Admin → Branding & settings); DEFAULT_INSIGHT_RULES
+// mirrors the seeded rows and is used when the table can't be read.
+
 import { formatCurrency, formatPercent } from "@/lib/format";
+import type { DepartmentForecast } from "@/lib/forecast";
+
+export type InsightType = "critical" | "warning" | "info";
 
-export type InsightType = "warning" | "info";
+export const INSIGHT_SEVERITIES: InsightType[] = ["critical", "warning", "info"];
 
 export type Insight = {
   id: string;
   type: InsightType;
   title: string;
   description: string;
-  departmentName: string;
+  departmentName: string | null;
+  path: string | null; // city-relative link for the card, e.g. /departments/Police?year=2025
   priority: number; // Lower = more important (shown first)
 };
 
+export type InsightRuleKind =
+  | "budget_threshold"
+  | "yoy_change"
+  | "revenue_shortfall"
+  | "vendor_concentration";
+
+export type InsightRuleParams = Record<string, string | number>;
+
+export type InsightRule = {
+  id: number;
+  kind: InsightRuleKind;
+  name: string;
+  severity: InsightType;
+  params: InsightRuleParams;
+  title_template: string;
+  description_template: string;
+  enabled: boolean;
+  max_results: number | null; // null shows every match
+  sort_order: number;
+};
+
+type ParamSpec =
+  | { key: string; label: string; type: "number"; default: number }
+  | {
+      key: string;
+      label: string;
+      type: "select";
+      options: { value: string; label: string }[];
+      default: string;
+    };
+
+/**
+ * What each rule kind measures, the parameters it takes and the
+ * {placeholders} its wording templates can use.
+ */
+export const INSIGHT_RULE_KINDS: Record<
+  InsightRuleKind,
+  { label: string; description: string; params: ParamSpec[]; variables: string[] }
+> = {
+  budget_threshold: {
+    label: "Budget threshold",
+    description:
+      "A department's spending as a share of its budget is above or below a percentage. \"Projected\" uses the year-end forecast while the year is open.",
+    params: [
+      {
+        key: "metric",
+        label: "Measure",
+        type: "select",
+        options: [
+          { value: "spent", label: "Spent so far" },
+          { value: "projected", label: "Projected year-end" },
+        ],
+        default: "spent",
+      },
+      {
+        key: "comparison",
+        label: "Fires when",
+        type: "select",
+        options: [
+          { value: "above", label: "Above the percentage" },
+          { value: "below", label: "Below the percentage" },
+        ],
+        default: "above",
+      },
+      { key: "percent", label: "Percent of budget", type: "number", default: 105 },
+      { key: "min_budget", label: "Only budgets over ($)", type: "number", default: 1000 },
+    ],
+    variables: ["department", "percent", "budget", "actuals", "projected", "difference", "low", "high"],
+  },
+  yoy_change: {
+    label: "Year-over-year change",
+    description:
+      "A department's spending changed from the prior year by more than a percentage (projected year-end while the year is open).",
+    params: [
+      {
+        key: "direction",
+        label: "Direction",
+        type: "select",
+        options: [
+          { value: "either", label: "Increase or decrease" },
+          { value: "increase", label: "Increase" },
+          { value: "decrease", label: "Decrease" },
+        ],
+        default: "either",
+      },
+      { key: "percent", label: "Change of at least (%)", type: "number", default: 25 },
+      { key: "min_amount", label: "Only prior-year spending over ($)", type: "number", default: 100000 },
+    ],
+    variables: ["department", "change", "current", "previous", "year", "previous_year"],
+  },
+  revenue_shortfall: {
+    label: "Revenue shortfall",
+    description:
+      "A revenue source is coming in below the prior year by more than a percentage (projected year-end while the year is open).",
+    params: [
+      { key: "percent", label: "Shortfall of at least (%)", type: "number", default: 10 },
+      { key: "min_amount", label: "Only prior-year revenue over ($)", type: "number", default: 100000 },
+    ],
+    variables: ["source", "shortfall", "shortfall_percent", "current", "previous", "year", "previous_year"],
+  },
+  vendor_concentration: {
+    label: "Vendor concentration",
+    description: "A single vendor received more than a percentage of all vendor payments in the year.",
+    params: [{ key: "percent", label: "Share of payments (%)", type: "number", default: 25 }],
+    variables: ["vendor", "share", "amount", "total", "year"],
+  },
+};
+
+export const DEFAULT_INSIGHT_RULES: InsightRule[] = [
+  {
+    id: 1,
+    kind: "budget_threshold",
+    name: "Significantly over budget",
+    severity: "critical",
+    params: { metric: "spent", comparison: "above", percent: 150, min_budget: 1000 },
+    title_template: "{department} is significantly over budget",
+    description_template: "Spent {difference} more than budgeted ({percent} of budget used)",
+    enabled: true,
+    max_results: 5,
+    sort_order: 10,
+  },
+  {
+    id: 2,
+    kind: "budget_threshold",
+    name: "Over budget",
+    severity: "warning",
+    params: { metric: "spent", comparison: "above", percent: 105, min_budget: 1000 },
+    title_template: "{department} is over budget",
+    description_template: "Spent {difference} more than budgeted ({percent} of budget used)",
+    enabled: true,
+    max_results: 5,
+    sort_order: 20,
+  },
+  {
+    id: 3,
+    kind: "budget_threshold",
+    name: "Projected overrun",
+    severity: "warning",
+    params: { metric: "projected", comparison: "above", percent: 105, min_budget: 1000 },
+    title_template: "{department} is on pace to exceed its budget",
+    description_template:
+      "Projected to spend {difference} more than budgeted by year end (likely {low}–{high})",
+    enabled: true,
+    max_results: 5,
+    sort_order: 30,
+  },
+  {
+    id: 4,
+    kind: "budget_threshold",
+    name: "Under-using budget",
+    severity: "info",
+    params: { metric: "projected", comparison: "below", percent: 50, min_budget: 10000 },
+    title_template: "{department} is on pace to under-spend its budget",
+    description_template: "Projected to use {percent} of its budget by year end, leaving {difference}",
+    enabled: true,
+    max_results: 3,
+    sort_order: 40,
+  },
+  {
+    id: 5,
+    kind: "yoy_change",
+    name: "Large change from last year",
+    severity: "info",
+    params: { direction: "either", percent: 25, min_amount: 100000 },
+    title_template: "{department} spending changed {change} from last year",
+    description_template: "{current} in {year} compared with {previous} in {previous_year}",
+    enabled: true,
+    max_results: 3,
+    sort_order: 50,
+  },
+  {
+    id: 6,
+    kind: "revenue_shortfall",
+    name: "Revenue shortfall",
+    severity: "warning",
+    params: { percent: 10, min_amount: 100000 },
+    title_template: "{source} revenue is running {shortfall_percent} below last year",
+    description_template: "{current} expected in {year} compared with {previous} in {previous_year}",
+    enabled: true,
+    max_results: 3,
+    sort_order: 60,
+  },
+  {
+    id: 7,
+    kind: "vendor_concentration",
+    name: "Vendor concentration",
+    severity: "info",
+    params: { percent: 25 },
+    title_template: "{vendor} received {share} of vendor payments",
+    description_template: "{amount} of {total} paid to vendors in {year}",
+    enabled: true,
+    max_results: 1,
+    sort_order: 70,
+  },
+];
+
 export type DepartmentSummary = {
   department_name: string;
   budget: number;
@@ -19,90 +224,340 @@ export type DepartmentSummary = {
   percentSpent: number;
 };
 
+export type RevenueSourceComparison = {
+  source: string;
+  current: number; // posted so far, or the projection while the year is open
+  previous: number; // prior-year total
+};
+
 export type InsightInputData = {
+  fiscalYear?: number | null;
   departments: DepartmentSummary[];
+  // Year-end projections; "projected" rules and year-over-year comparisons
+  // use these while the year is open
+  forecasts?: DepartmentForecast[];
+  previousDepartments?: DepartmentSummary[];
+  revenueSources?: RevenueSourceComparison[];
+  vendors?: { name: string; total: number }[];
+  vendorTotal?: number; // all vendor payments for the year
 };
 
+const revenueSourceName = (category: string | null | undefined) =>
+  (category ?? "").trim() || "Unspecified";
+
 /**
- * Calculate department-focused insights from budget and spending data.
- * Returns 3-5 insights if enough departments meet thresholds.
- * Returns empty array if fewer than 3 departments are flagged (section will hide).
+ * Revenue by source for this year against last year. While the year is
+ * open (`projections` from forecastRevenues), a source's projected year-end
+ * stands in for what has been posted.
  */
-export function calculateInsights(data: InsightInputData): Insight[] {
-  const insights: Insight[] = [];
-  const { departments } = data;
+export function compareRevenueSources(
+  current: { category?: string | null; amount: number }[],
+  previous: { category?: string | null; amount: number }[],
+  projections: { source: string; projected: number }[] | null
+): RevenueSourceComparison[] {
+  const totals = (rows: typeof current) => {
+    const map = new Map<string, number>();
+    for (const r of rows) {
+      const key = revenueSourceName(r.category);
+      map.set(key, (map.get(key) ?? 0) + Number(r.amount || 0));
+    }
+    return map;
+  };
+  const posted = totals(current);
+  const prior = totals(previous);
+  const projected = new Map((projections ?? []).map((p) => [p.source, p.projected]));
 
-  // Only consider departments with meaningful budgets
-  const validDepts = departments.filter((d) => d.budget > 1000);
+  return Array.from(prior, ([source, previousTotal]) => ({
+    source,
+    current: projected.get(source) ?? posted.get(source) ?? 0,
+    previous: previousTotal,
+  }));
+}
 
-  for (const dept of validDepts) {
-    const pct = dept.budget > 0 ? (dept.actuals / dept.budget) * 100 : 0;
+const SEVERITY_PRIORITY: Record<InsightType, number> = {
+  critical: 1,
+  warning: 2,
+  info: 3,
+};
 
-    // CRITICAL (priority 1): Significantly over budget (>150%)
-    if (pct > 150) {
-      const overAmount = dept.actuals - dept.budget;
-      insights.push({
-        id: `dept-critical-${dept.department_name}`,
-        type: "warning",
-        title: `${dept.department_name} is significantly over budget`,
-        description: `Spent ${formatCurrency(overAmount)} more than budgeted (${formatPercent(pct, 0)} of budget used)`,
-        departmentName: dept.department_name,
-        priority: 1,
-      });
+/**
+ * Fills {placeholders} in a wording template. Unknown placeholders are
+ * left as typed so a mistake shows up instead of vanishing.
+ */
+export function renderInsightTemplate(
+  template: string,
+  vars: Record<string, string>
+): string {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) =>
+    Object.prototype.hasOwnProperty.call(vars, key) ? vars[key] : match
+  );
+}
+
+function numParam(rule: InsightRule, key: string): number {
+  const spec = INSIGHT_RULE_KINDS[rule.kind].params.find((p) => p.key === key);
+  const value = Number(rule.params?.[key]);
+  if (Number.isFinite(value)) return value;
+  return spec?.type === "number" ? spec.default : 0;
+}
+
+function selectParam(rule: InsightRule, key: string): string {
+  const spec = INSIGHT_RULE_KINDS[rule.kind].params.find((p) => p.key === key);
+  const value = String(rule.params?.[key] ?? "");
+  if (spec?.type === "select") {
+    return spec.options.some((o) => o.value === value) ? value : spec.default;
+  }
+  return value;
+}
+
+const signedPercent = (value: number) =>
+  `${value > 0 ? "+" : value < 0 ? "−" : ""}${formatPercent(Math.abs(value), 0)}`;
+
+const departmentPath = (name: string, year: number | null | undefined) =>
+  `/departments/${encodeURIComponent(name)}${year ? `?year=${year}` : ""}`;
+
+type Match = {
+  subject: string;
+  magnitude: number; // larger is more notable; orders matches within a rule
+  vars: Record<string, string>;
+  departmentName: string | null;
+  path: string | null;
+};
+
+function evaluateRule(rule: InsightRule, data: InsightInputData): Match[] {
+  const year = data.fiscalYear ?? null;
+  const yearLabel = year ? String(year) : "this year";
+  const previousYearLabel = year ? String(year - 1) : "last year";
+  const openForecasts = new Map(
+    (data.forecasts ?? [])
+      .filter((f) => f.method !== "final")
+      .map((f) => [f.department_name, f])
+  );
+  const matches: Match[] = [];
+
+  switch (rule.kind) {
+    case "budget_threshold": {
+      const metric = selectParam(rule, "metric");
+      const above = selectParam(rule, "comparison") === "above";
+      const percent = numParam(rule, "percent");
+      const minBudget = numParam(rule, "min_budget");
+
+      for (const dept of data.departments) {
+        if (!(dept.budget > minBudget)) continue;
+        const forecast = metric === "projected" ? openForecasts.get(dept.department_name) : undefined;
+        const value = forecast ? forecast.projected : dept.actuals;
+        const pct = (value / dept.budget) * 100;
+        if (above ? !(pct > percent) : !(pct < percent)) continue;
+
+        matches.push({
+          subject: dept.department_name,
+          magnitude: above ? pct : -pct,
+          departmentName: dept.department_name,
+          path: departmentPath(dept.department_name, year),
+          vars: {
+            department: dept.department_name,
+            percent: formatPercent(pct, 0),
+            budget: formatCurrency(dept.budget),
+            actuals: formatCurrency(dept.actuals),
+            projected: formatCurrency(value),
+            difference: formatCurrency(Math.abs(value - dept.budget)),
+            low: formatCurrency(forecast?.low ?? value),
+            high: formatCurrency(forecast?.high ?? value),
+          },
+        });
+      }
+      break;
     }
-    // WARNING (priority 2): Over budget (>105% but <=150%)
-    else if (pct > 105) {
-      const overAmount = dept.actuals - dept.budget;
-      insights.push({
-        id: `dept-over-${dept.department_name}`,
-        type: "warning",
-        title: `${dept.department_name} is over budget`,
-        description: `Spent ${formatCurrency(overAmount)} more than budgeted (${formatPercent(pct, 0)} of budget used)`,
-        departmentName: dept.department_name,
-        priority: 2,
-      });
+
+    case "yoy_change": {
+      const direction = selectParam(rule, "direction");
+      const percent = numParam(rule, "percent");
+      const minAmount = numParam(rule, "min_amount");
+      const previous = new Map(
+        (data.previousDepartments ?? []).map((d) => [d.department_name, d.actuals])
+      );
+
+      for (const dept of data.departments) {
+        const prior = previous.get(dept.department_name);
+        if (prior === undefined || !(prior > minAmount)) continue;
+        const current = openForecasts.get(dept.department_name)?.projected ?? dept.actuals;
+        const change = ((current - prior) / prior) * 100;
+        const fires =
+          direction === "increase"
+            ? change >= percent
+            : direction === "decrease"
+            ? -change >= percent
+            : Math.abs(change) >= percent;
+        if (!fires) continue;
+
+        matches.push({
+          subject: dept.department_name,
+          magnitude: Math.abs(change),
+          departmentName: dept.department_name,
+          path: departmentPath(dept.department_name, year),
+          vars: {
+            department: dept.department_name,
+            change: signedPercent(change),
+            current: formatCurrency(current),
+            previous: formatCurrency(prior),
+            year: yearLabel,
+            previous_year: previousYearLabel,
+          },
+        });
+      }
+      break;
+    }
+
+    case "revenue_shortfall": {
+      const percent = numParam(rule, "percent");
+      const minAmount = numParam(rule, "min_amount");
+
+      for (const src of data.revenueSources ?? []) {
+        if (!(src.previous > minAmount)) continue;
+        const shortfallPct = ((src.previous - src.current) / src.previous) * 100;
+        if (shortfallPct < percent) continue;
+
+        matches.push({
+          subject: src.source,
+          magnitude: shortfallPct,
+          departmentName: null,
+          path: `/revenues${year ? `?year=${year}` : ""}`,
+          vars: {
+            source: src.source,
+            shortfall: formatCurrency(src.previous - src.current),
+            shortfall_percent: formatPercent(shortfallPct, 0),
+            current: formatCurrency(src.current),
+            previous: formatCurrency(src.previous),
+            year: yearLabel,
+            previous_year: previousYearLabel,
+          },
+        });
+      }
+      break;
     }
-    // INFO (priority 3): Under-utilizing budget (<50%)
-    else if (pct < 50 && dept.budget > 10000) {
-      // Only flag significant budgets as under-utilized
-      const remaining = dept.budget - dept.actuals;
+
+    case "vendor_concentration": {
+      const percent = numParam(rule, "percent");
+      const total = data.vendorTotal ?? 0;
+      if (!(total > 0)) break;
+
+      for (const vendor of data.vendors ?? []) {
+        const share = (vendor.total / total) * 100;
+        if (share < percent) continue;
+
+        matches.push({
+          subject: vendor.name,
+          magnitude: share,
+          departmentName: null,
+          path: `/vendors/${encodeURIComponent(vendor.name)}`,
+          vars: {
+            vendor: vendor.name,
+            share: formatPercent(share, 0),
+            amount: formatCurrency(vendor.total),
+            total: formatCurrency(total),
+            year: yearLabel,
+          },
+        });
+      }
+      break;
+    }
+  }
+
+  return matches.sort((a, b) => b.magnitude - a.magnitude);
+}
+
+/**
+ * Runs the enabled rules, most severe first. A department, revenue source
+ * or vendor gets at most one insight per rule kind, from the first rule
+ * that matches it, so "significantly over budget" wins over "over budget".
+ */
+export function calculateInsights(
+  data: InsightInputData,
+  rules: InsightRule[] = DEFAULT_INSIGHT_RULES
+): Insight[] {
+  const ordered = rules
+    .filter((r) => r.enabled && INSIGHT_RULE_KINDS[r.kind])
+    .sort(
+      (a, b) =>
+        SEVERITY_PRIORITY[a.severity] - SEVERITY_PRIORITY[b.severity] ||
+        a.sort_order - b.sort_order ||
+        a.id - b.id
+    );
+
+  const insights: Insight[] = [];
+  const claimed = new Set<string>();
+
+  for (const rule of ordered) {
+    let shown = 0;
+    for (const match of evaluateRule(rule, data)) {
+      if (rule.max_results !== null && shown >= rule.max_results) break;
+      const key = `${rule.kind}:${match.subject.toLowerCase()}`;
+      if (claimed.has(key)) continue;
+      claimed.add(key);
+      shown += 1;
+
       insights.push({
-        id: `dept-under-${dept.department_name}`,
-        type: "info",
-        title: `${dept.department_name} is under-utilizing budget`,
-        description: `Only ${formatPercent(pct, 0)} spent, with ${formatCurrency(remaining)} remaining`,
-        departmentName: dept.department_name,
-        priority: 3,
+        id: `rule-${rule.id}-${match.subject}`,
+        type: rule.severity,
+        title: renderInsightTemplate(rule.title_template, match.vars),
+        description: renderInsightTemplate(rule.description_template, match.vars),
+        departmentName: match.departmentName,
+        path: match.path,
+        priority: SEVERITY_PRIORITY[rule.severity],
       });
     }
   }
 
-  // Sort by priority first, then by how extreme the over/under percentage is
-  insights.sort((a, b) => {
-    if (a.priority !== b.priority) {
-      return a.priority - b.priority;
-    }
-    // Secondary sort: warnings by most over, info by least spent
-    const deptA = validDepts.find((d) => d.department_name === a.departmentName);
-    const deptB = validDepts.find((d) => d.department_name === b.departmentName);
-    if (!deptA || !deptB) return 0;
+  return insights;
+}
 
-    const pctA = deptA.budget > 0 ? (deptA.actuals / deptA.budget) * 100 : 0;
-    const pctB = deptB.budget > 0 ? (deptB.actuals / deptB.budget) * 100 : 0;
+export type InsightRuleDraft = Pick<
+  InsightRule,
+  "kind" | "name" | "severity" | "params" | "title_template" | "description_template" | "max_results"
+>;
 
-    // For warnings (over budget): higher percentage first
-    if (a.priority <= 2) {
-      return pctB - pctA;
+/**
+ * Problems with a new or edited rule.
+ */
+export function validateInsightRule(draft: InsightRuleDraft): string[] {
+  const errors: string[] = [];
+  const kind = INSIGHT_RULE_KINDS[draft.kind];
+
+  if (!draft.name.trim()) errors.push("Enter a rule name.");
+  if (!kind) {
+    errors.push("Choose a rule type.");
+    return errors;
+  }
+  if (!INSIGHT_SEVERITIES.includes(draft.severity)) errors.push("Choose a severity.");
+  if (!draft.title_template.trim()) errors.push("Enter the insight title wording.");
+
+  for (const spec of kind.params) {
+    const value = draft.params[spec.key];
+    if (spec.type === "number") {
+      const n = Number(value);
+      if (value === "" || value === undefined || !Number.isFinite(n) || n < 0) {
+        errors.push(`${spec.label} must be a number of zero or more.`);
+      }
+    } else if (!spec.options.some((o) => o.value === value)) {
+      errors.push(`Choose a value for ${spec.label.toLowerCase()}.`);
     }
-    // For info (under budget): lower percentage first
-    return pctA - pctB;
-  });
+  }
+
+  const known = new Set(kind.variables);
+  const unknown = Array.from(
+    `${draft.title_template} ${draft.description_template}`.matchAll(/\{(\w+)\}/g),
+    (m) => m[1]
+  ).filter((v) => !known.has(v));
+  if (unknown.length > 0) {
+    errors.push(
+      `Unknown placeholder${unknown.length === 1 ? "" : "s"}: ${Array.from(new Set(unknown))
+        .map((v) => `{${v}}`)
+        .join(", ")}.`
+    );
+  }
 
-  // Require minimum 3 insights, otherwise hide the section
-  if (insights.length < 3) {
-    return [];
+  if (draft.max_results !== null && !(Number.isInteger(draft.max_results) && draft.max_results > 0)) {
+    errors.push("Show at most must be a whole number above zero, or blank for all.");
   }
 
-  // Return max 5 insights
-  return insights.slice(0, 5);
+  return errors;
 }
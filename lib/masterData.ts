@@ -0,0 +1,225 @@
+// lib/masterData.ts
+//
+// Fund, department and account registries (funds, departments, accounts
+// tables). Each entry is keyed by its ERP code and carries the canonical
+// display name; uploads replace the free-text names on incoming rows with
+// the registered ones so "PUBLIC WORKS DEPT" and "Public Works" end up as
+// one department.
+//
+// Shared by the server-side ingest pipeline and the admin registry screens.
+
+export type MasterDataKind = "funds" | "departments" | "accounts";
+
+export const MASTER_DATA_KINDS: MasterDataKind[] = [
+  "funds",
+  "departments",
+  "accounts",
+];
+
+export const MASTER_DATA_LABELS: Record<MasterDataKind, string> = {
+  funds: "Funds",
+  departments: "Departments",
+  accounts: "Accounts",
+};
+
+// Code and name columns each registry resolves on data rows
+export const MASTER_DATA_FIELDS: Record<
+  MasterDataKind,
+  { code: string; name: string }
+> = {
+  funds: { code: "fund_code", name: "fund_name" },
+  departments: { code: "department_code", name: "department_name" },
+  accounts: { code: "account_code", name: "account_name" },
+};
+
+export type MasterDataEntry = {
+  code: string;
+  name: string;
+  description: string | null;
+  parent_code: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type MasterDataRegistry = Record<MasterDataKind, MasterDataEntry[]>;
+
+type RegistryIndex = {
+  byCode: Map<string, string>;
+  byName: Map<string, string>;
+};
+
+export type MasterDataResolver = (
+  record: Record<string, unknown>
+) => Record<string, unknown>;
+
+/**
+ * Key names are matched on: case-insensitive, whitespace collapsed, and
+ * with the HTML escaping uploads apply undone. Mirrors the database's
+ * master_data_name_key(), which rollups and the name indexes use.
+ */
+export function masterDataNameKey(name: string): string {
+  return name
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&")
+    .replace(/\s+/g, " ")
+    .trim()
+    .toLowerCase();
+}
+
+function indexEntries(entries: MasterDataEntry[]): RegistryIndex {
+  const byCode = new Map<string, string>();
+  const byName = new Map<string, string>();
+  for (const entry of entries) {
+    byCode.set(entry.code.trim(), entry.name);
+    byName.set(masterDataNameKey(entry.name), entry.name);
+  }
+  return { byCode, byName };
+}
+
+function asText(value: unknown): string | null {
+  if (value == null) return null;
+  const text = String(value).trim();
+  return text === "" ? null : text;
+}
+
+/**
+ * Build a function that swaps fund, department and account names on a data
+ * row for their registered names: by code first, then by name. Rows that
+ * match nothing are returned unchanged.
+ */
+export function createMasterDataResolver(
+  registry: MasterDataRegistry
+): MasterDataResolver {
+  const indexes = MASTER_DATA_KINDS.filter(
+    (kind) => registry[kind].length > 0
+  ).map((kind) => ({
+    fields: MASTER_DATA_FIELDS[kind],
+    index: indexEntries(registry[kind]),
+  }));
+
+  return (record) => {
+    let resolved = record;
+
+    for (const { fields, index } of indexes) {
+      if (!(fields.code in record) && !(fields.name in record)) continue;
+
+      const code = asText(record[fields.code]);
+      const name = asText(record[fields.name]);
+      const canonical =
+        (code !== null ? index.byCode.get(code) : undefined) ??
+        (name !== null ? index.byName.get(masterDataNameKey(name)) : undefined);
+
+      if (canonical !== undefined && canonical !== record[fields.name]) {
+        if (resolved === record) resolved = { ...record };
+        resolved[fields.name] = canonical;
+      }
+    }
+
+    return resolved;
+  };
+}
+
+export type MasterDataTreeItem = {
+  entry: MasterDataEntry;
+  depth: number;
+};
+
+/**
+ * Entries in hierarchy order (each parent followed by its children, by
+ * code) with their depth. Entries whose parent isn't registered are shown
+ * at the top level.
+ */
+export function buildMasterDataTree(
+  entries: MasterDataEntry[]
+): MasterDataTreeItem[] {
+  const codes = new Set(entries.map((e) => e.code));
+  const children = new Map<string | null, MasterDataEntry[]>();
+
+  for (const entry of entries) {
+    const parent =
+      entry.parent_code && codes.has(entry.parent_code)
+        ? entry.parent_code
+        : null;
+    const list = children.get(parent) ?? [];
+    list.push(entry);
+    children.set(parent, list);
+  }
+
+  const items: MasterDataTreeItem[] = [];
+  const visited = new Set<string>();
+
+  function visit(parent: string | null, depth: number) {
+    const list = (children.get(parent) ?? [])
+      .slice()
+      .sort((a, b) => a.code.localeCompare(b.code, undefined, { numeric: true }));
+    for (const entry of list) {
+      if (visited.has(entry.code)) continue;
+      visited.add(entry.code);
+      items.push({ entry, depth });
+      visit(entry.code, depth + 1);
+    }
+  }
+
+  visit(null, 0);
+
+  // Entries caught in a parent cycle never hang off the top level
+  for (const entry of entries) {
+    if (!visited.has(entry.code)) {
+      visited.add(entry.code);
+      items.push({ entry, depth: 0 });
+    }
+  }
+
+  return items;
+}
+
+/**
+ * Problems with a new or edited registry entry, checked against the
+ * existing entries of the same registry.
+ */
+export function validateMasterDataEntry(
+  entry: Pick<MasterDataEntry, "code" | "name" | "parent_code">,
+  existing: MasterDataEntry[],
+  isNew: boolean
+): string[] {
+  const errors: string[] = [];
+  const code = entry.code.trim();
+  const name = entry.name.trim();
+
+  if (!code) errors.push("Enter a code.");
+  if (!name) errors.push("Enter a display name.");
+
+  if (isNew && existing.some((e) => e.code === code)) {
+    errors.push(`Code "${code}" is already registered.`);
+  }
+
+  const nameKey = masterDataNameKey(name);
+  const sameName = existing.find(
+    (e) => e.code !== code && masterDataNameKey(e.name) === nameKey
+  );
+  if (name && sameName) {
+    errors.push(`"${sameName.name}" is already used by code ${sameName.code}.`);
+  }
+
+  if (entry.parent_code) {
+    if (entry.parent_code === code) {
+      errors.push("An entry can't be its own parent.");
+    } else {
+      // Walk up from the chosen parent; reaching this entry means a cycle
+      const parents = new Map(existing.map((e) => [e.code, e.parent_code]));
+      let current: string | null = entry.parent_code;
+      const seen = new Set<string>();
+      while (current && !seen.has(current)) {
+        if (current === code) {
+          errors.push("That parent is already below this entry.");
+          break;
+        }
+        seen.add(current);
+        current = parents.get(current) ?? null;
+      }
+    }
+  }
+
+  return errors;
+}
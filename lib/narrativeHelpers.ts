@@ -1,10 +1,15 @@
 // lib/narrativeHelpers.ts
 
 import { formatCurrency } from "./format";
+import { formatPerCapita } from "./perCapita";
 
 type BaseNarrativeData = {
   cityName: string;
   year: number | null;
+  // Year-over-year amounts are in constant dollars
+  inflationAdjusted?: boolean;
+  // Residents in the narrative's fiscal year, for per-capita figures
+  population?: number | null;
 };
 
 type HomeNarrativeData = BaseNarrativeData & {
@@ -97,6 +102,16 @@ function calcYoYChange(
   };
 }
 
+function inflationNote(data: BaseNarrativeData): string {
+  return data.inflationAdjusted ? ", adjusted for inflation" : "";
+}
+
+// "$412 per resident", or null without a population
+function perResident(amount: number, data: BaseNarrativeData): string | null {
+  if (!data.population || data.population <= 0 || amount <= 0) return null;
+  return `${formatPerCapita(amount / data.population)} per resident`;
+}
+
 // Compact currency for narrative flow
 function formatCompact(value: number): string {
   if (value >= 1_000_000_000) {
@@ -123,6 +138,10 @@ export function buildHomeNarrative(data: HomeNarrativeData): string {
     sentences.push(
       `In ${yearLabel}, ${data.cityName} adopted a budget of ${formatCompact(data.totalBudget)} across ${data.deptCount} departments.`
     );
+    const budgetPerResident = perResident(data.totalBudget, data);
+    if (budgetPerResident) {
+      sentences.push(`That works out to ${budgetPerResident}.`);
+    }
   }
 
   // Spending (if actuals enabled and data exists)
@@ -172,7 +191,9 @@ export function buildHomeNarrative(data: HomeNarrativeData): string {
     const previous = sorted[1]?.Actuals ?? 0;
     const yoy = calcYoYChange(current, previous);
     if (yoy) {
-      sentences.push(`Overall spending is ${yoy.direction} ${yoy.pct}% compared to last year.`);
+      sentences.push(
+        `Overall spending is ${yoy.direction} ${yoy.pct}% compared to last year${inflationNote(data)}.`
+      );
     }
   }
 
@@ -198,6 +219,16 @@ export function buildBudgetNarrative(data: BudgetNarrativeData): string {
     );
   }
 
+  // Per resident
+  const budgetPerResident = perResident(data.totalBudget, data);
+  if (budgetPerResident) {
+    const topPart =
+      data.topDepartment && data.topDepartmentBudget > 0
+        ? `, ${perResident(data.topDepartmentBudget, data)} of it for ${data.topDepartment}`
+        : "";
+    sentences.push(`The budget comes to ${budgetPerResident}${topPart}.`);
+  }
+
   // Execution rate (if actuals enabled)
   if (data.enableActuals && data.totalActuals > 0) {
     sentences.push(`Budget execution stands at ${formatPct(data.execPct)}.`);
@@ -233,6 +264,11 @@ export function buildRevenuesNarrative(data: RevenuesNarrativeData): string {
     `${yearLabel} revenues total ${formatCompact(data.totalRevenue)} from ${data.sourceCount} sources.`
   );
 
+  const revenuePerResident = perResident(data.totalRevenue, data);
+  if (revenuePerResident) {
+    sentences.push(`That is ${revenuePerResident}.`);
+  }
+
   // Top sources
   if (data.topSources.length >= 3) {
     const topThreeTotal = data.topSources.slice(0, 3).reduce((s, t) => s + t.value, 0);
@@ -252,7 +288,9 @@ export function buildRevenuesNarrative(data: RevenuesNarrativeData): string {
     const previous = sorted[1]?.total ?? 0;
     const yoy = calcYoYChange(current, previous);
     if (yoy) {
-      sentences.push(`Total revenue is ${yoy.direction} ${yoy.pct}% from ${sorted[1].year}.`);
+      sentences.push(
+        `Total revenue is ${yoy.direction} ${yoy.pct}% from ${sorted[1].year}${inflationNote(data)}.`
+      );
     }
   }
 
@@ -271,8 +309,11 @@ export function buildDepartmentsNarrative(data: DepartmentsNarrativeData): strin
 
   // Top budget department
   if (data.topBudgetDept && data.topBudgetAmount > 0) {
+    const topPerResident = perResident(data.topBudgetAmount, data);
     sentences.push(
-      `${data.topBudgetDept} has the highest budget at ${formatCompact(data.topBudgetAmount)}.`
+      `${data.topBudgetDept} has the highest budget at ${formatCompact(data.topBudgetAmount)}${
+        topPerResident ? ` (${topPerResident})` : ""
+      }.`
     );
   }
 
@@ -321,11 +362,18 @@ export function buildDepartmentDetailNarrative(data: DepartmentDetailNarrativeDa
       `Spending to date is ${formatCompact(data.actuals)} (${formatPct(data.execPct)} execution), ${status}.`
     );
 
+    const spendingPerResident = perResident(data.actuals, data);
+    if (spendingPerResident) {
+      sentences.push(`${data.departmentName} spends ${spendingPerResident}.`);
+    }
+
     // YoY for this department
     if (data.prevYearActuals && data.prevYearActuals > 0) {
       const yoy = calcYoYChange(data.actuals, data.prevYearActuals);
       if (yoy) {
-        sentences.push(`Spending is ${yoy.direction} ${yoy.pct}% compared to last year.`);
+        sentences.push(
+          `Spending is ${yoy.direction} ${yoy.pct}% compared to last year${inflationNote(data)}.`
+        );
       }
     }
   }
@@ -0,0 +1,234 @@
+// lib/openApi.ts
+//
+// OpenAPI 3.1 description of the public API, generated from the resource
+// definitions in publicApi so the document can't drift from what the
+// routes accept. Resources and fields switched off for the portal are
+// left out.
+
+import type { ExportColumnType } from "@/lib/exportFormats";
+import { API_KEY_HEADER } from "@/lib/apiKeys";
+import {
+  API_DEFAULT_LIMIT,
+  API_MAX_LIMIT,
+  API_RATE_LIMIT,
+  API_RESOURCES,
+  isResourceEnabled,
+  visibleFields,
+  visibleFilters,
+  type ApiResource,
+  type ApiSettings,
+} from "@/lib/publicApi";
+
+export type OpenApiSchema = {
+  type?: string | string[];
+  format?: string;
+  description?: string;
+  minimum?: number;
+  maximum?: number;
+  default?: unknown;
+  enum?: string[];
+  items?: OpenApiSchema;
+  properties?: Record<string, OpenApiSchema>;
+  required?: string[];
+  $ref?: string;
+};
+
+export type OpenApiParameter = {
+  name: string;
+  in: "query";
+  description: string;
+  required: boolean;
+  schema: OpenApiSchema;
+};
+
+export type OpenApiOperation = {
+  operationId: string;
+  summary: string;
+  description: string;
+  tags: string[];
+  parameters: OpenApiParameter[];
+  responses: Record<
+    string,
+    { description: string; content?: Record<string, { schema: OpenApiSchema }> }
+  >;
+};
+
+export type OpenApiDocument = {
+  openapi: "3.1.0";
+  info: { title: string; version: string; description: string };
+  servers: { url: string }[];
+  security: Record<string, string[]>[];
+  paths: Record<string, { get: OpenApiOperation }>;
+  components: {
+    schemas: Record<string, OpenApiSchema>;
+    securitySchemes: Record<string, { type: "apiKey"; in: "header"; name: string; description: string }>;
+  };
+};
+
+export const API_VERSION = "1.0.0";
+
+function valueSchema(type: ExportColumnType): OpenApiSchema {
+  switch (type) {
+    case "integer":
+      return { type: ["integer", "null"] };
+    case "number":
+      return { type: ["number", "null"] };
+    case "date":
+      return { type: ["string", "null"], format: "date" };
+    default:
+      return { type: ["string", "null"] };
+  }
+}
+
+// "vendors" -> "Vendor", used for schema names and operation ids
+function schemaName(resource: ApiResource): string {
+  const singular = resource.name.replace(/s$/, "");
+  return singular.charAt(0).toUpperCase() + singular.slice(1);
+}
+
+function parameters(resource: ApiResource, settings: ApiSettings): OpenApiParameter[] {
+  const fieldNames = visibleFields(resource, settings).map((f) => f.name);
+
+  return [
+    ...visibleFilters(resource, settings).map(
+      (filter): OpenApiParameter => ({
+        name: filter.param,
+        in: "query",
+        description: filter.description,
+        required: false,
+        schema:
+          filter.op === "in"
+            ? { type: "string" }
+            : filter.type === "date"
+              ? { type: "string", format: "date" }
+              : { type: filter.type },
+      })
+    ),
+    {
+      name: "fields",
+      in: "query",
+      description: `Fields to return, comma-separated: ${fieldNames.join(", ")}. Defaults to all.`,
+      required: false,
+      schema: { type: "string" },
+    },
+    {
+      name: "limit",
+      in: "query",
+      description: "Rows per page",
+      required: false,
+      schema: { type: "integer", minimum: 1, maximum: API_MAX_LIMIT, default: API_DEFAULT_LIMIT },
+    },
+    {
+      name: "cursor",
+      in: "query",
+      description: "next_cursor from the previous page",
+      required: false,
+      schema: { type: "string" },
+    },
+    {
+      name: "format",
+      in: "query",
+      description: "Response format; an Accept: text/csv header also selects CSV",
+      required: false,
+      schema: { type: "string", enum: ["json", "csv"], default: "json" },
+    },
+  ];
+}
+
+function operation(resource: ApiResource, settings: ApiSettings): OpenApiOperation {
+  const errorContent = {
+    "application/json": { schema: { $ref: "#/components/schemas/Error" } },
+  };
+
+  return {
+    operationId: `list${schemaName(resource)}s`,
+    summary: resource.title,
+    description: `${resource.description} Pages are ordered by ${resource.order.column} then ${resource.order.tiebreaker}; follow next_cursor until it is null.`,
+    tags: [resource.title],
+    parameters: parameters(resource, settings),
+    responses: {
+      "200": {
+        description: "One page of rows",
+        content: {
+          "application/json": {
+            schema: {
+              type: "object",
+              required: ["data", "next_cursor"],
+              properties: {
+                data: {
+                  type: "array",
+                  items: { $ref: `#/components/schemas/${schemaName(resource)}` },
+                },
+                next_cursor: {
+                  type: ["string", "null"],
+                  description: "Pass as cursor to get the next page; null on the last page",
+                },
+              },
+            },
+          },
+          "text/csv": {
+            schema: {
+              type: "string",
+              description: "Header row, then one row per record. The next cursor is in the X-Next-Cursor header.",
+            },
+          },
+        },
+      },
+      "400": { description: "Invalid parameter", content: errorContent },
+      "401": { description: "Unknown API key", content: errorContent },
+      "403": { description: "API key revoked, expired or not allowed here", content: errorContent },
+      "404": { description: "Resource not available on this portal", content: errorContent },
+      "429": { description: "Too many requests, or the API key's daily quota is used up", content: errorContent },
+    },
+  };
+}
+
+export function buildOpenApiDocument(settings: ApiSettings, serverUrl: string): OpenApiDocument {
+  const resources = API_RESOURCES.filter((r) => isResourceEnabled(r, settings));
+  const cityName = settings.cityName ?? "City";
+
+  const schemas: Record<string, OpenApiSchema> = {
+    Error: {
+      type: "object",
+      required: ["error"],
+      properties: { error: { type: "string" } },
+    },
+  };
+  for (const resource of resources) {
+    schemas[schemaName(resource)] = {
+      type: "object",
+      properties: Object.fromEntries(
+        visibleFields(resource, settings).map((f) => [
+          f.name,
+          { ...valueSchema(f.type), description: f.description },
+        ])
+      ),
+    };
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: `${cityName} financial data API`,
+      version: API_VERSION,
+      description: `Read-only access to the published budget, spending and revenue data behind this portal. No key is needed; each client may make ${API_RATE_LIMIT} requests a minute. Partners with an API key from the city send it in the ${API_KEY_HEADER} header and get the key's daily quota instead.`,
+    },
+    servers: [{ url: serverUrl }],
+    // The key is optional
+    security: [{}, { apiKey: [] }],
+    paths: Object.fromEntries(
+      resources.map((r) => [`/api/v1/${r.name}`, { get: operation(r, settings) }])
+    ),
+    components: {
+      schemas,
+      securitySchemes: {
+        apiKey: {
+          type: "apiKey",
+          in: "header",
+          name: API_KEY_HEADER,
+          description: "Partner API key issued by the city",
+        },
+      },
+    },
+  };
+}
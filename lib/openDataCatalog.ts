@@ -0,0 +1,335 @@
+// lib/openDataCatalog.ts
+//
+// Catalog descriptors for the portal's datasets: a DCAT-US (Project Open
+// Data v1.1) data.json for open-data portals and data.gov harvesters, and
+// a Frictionless Data Package for researchers. Both list the tables the
+// portal publishes, with columns from lib/schema via the export layout, and
+// point downloads at the Download Center export route.
+
+import { EXPORT_COLUMNS, EXPORT_FORMATS, exportFileColumns, type ExportFormat } from "@/lib/exportFormats";
+import type { ExportDataType } from "@/lib/exportQuery";
+import { CITY_CONFIG } from "@/lib/cityConfig";
+import { fiscalConfigFrom, fiscalYearDateRange, type FiscalConfig } from "@/lib/fiscalYear";
+import { apiSettingsFrom, findApiResource, isResourceEnabled, type ApiSettings } from "@/lib/publicApi";
+import { getDatasetLastModified, getPortalFiscalYears, getPortalSettings } from "@/lib/queries";
+
+export const CATALOG_DATASETS: ExportDataType[] = [
+  "budgets",
+  "actuals",
+  "transactions",
+  "revenues",
+];
+
+const DATASET_INFO: Record<ExportDataType, { title: string; description: string; keywords: string[] }> = {
+  budgets: {
+    title: "Adopted Budget",
+    description: "Adopted budget amounts by fiscal year, department, fund and account.",
+    keywords: ["budget", "appropriations", "finance"],
+  },
+  actuals: {
+    title: "Budget Actuals",
+    description: "Actual spending by fiscal year, department, fund and account, recorded against the budget.",
+    keywords: ["actuals", "expenditures", "spending", "finance"],
+  },
+  transactions: {
+    title: "Transactions",
+    description: "Individual payments with date, department, account and amount.",
+    keywords: ["transactions", "payments", "checkbook", "spending", "finance"],
+  },
+  revenues: {
+    title: "Revenues",
+    description: "Revenue collections by fiscal year, period, source and fund.",
+    keywords: ["revenue", "taxes", "fees", "finance"],
+  },
+};
+
+export type CatalogLicense = { name: string; title: string; path: string };
+
+// Licenses OPEN_DATA_LICENSE can name, by SPDX id
+export const OPEN_DATA_LICENSES: Record<string, CatalogLicense> = {
+  "CC0-1.0": {
+    name: "CC0-1.0",
+    title: "Creative Commons Zero v1.0 Universal",
+    path: "https://creativecommons.org/publicdomain/zero/1.0/",
+  },
+  "PDDL-1.0": {
+    name: "PDDL-1.0",
+    title: "Open Data Commons Public Domain Dedication and License v1.0",
+    path: "https://opendatacommons.org/licenses/pddl/1-0/",
+  },
+  "ODC-By-1.0": {
+    name: "ODC-By-1.0",
+    title: "Open Data Commons Attribution License v1.0",
+    path: "https://opendatacommons.org/licenses/by/1-0/",
+  },
+  "CC-BY-4.0": {
+    name: "CC-BY-4.0",
+    title: "Creative Commons Attribution 4.0 International",
+    path: "https://creativecommons.org/licenses/by/4.0/",
+  },
+};
+
+// The configured license, CC0 when unset or not one of the above
+export function openDataLicense(id: string | null | undefined): CatalogLicense {
+  return OPEN_DATA_LICENSES[id?.trim() ?? ""] ?? OPEN_DATA_LICENSES["CC0-1.0"];
+}
+
+// Contact for a portal without OPEN_DATA_CONTACT_EMAIL: the portal
+// operator's support address, as on the terms page. DCAT-US requires a
+// contact point on every dataset, so data.json never goes without one.
+export const PORTAL_CONTACT_EMAIL = "hello@civiportal.com";
+
+export type CatalogSources = {
+  settings: ApiSettings;
+  origin: string; // e.g. https://budget.springfield.gov
+  citySlug: string;
+  fiscalYears: number[]; // portal-wide, any order
+  fiscalConfig: FiscalConfig;
+  lastModified: Record<string, string>; // table name -> ISO timestamp
+  generatedAt: string; // ISO timestamp the catalog was read
+  license: CatalogLicense;
+  contactEmail: string;
+};
+
+/**
+ * Everything the catalogs describe, read with the anon key. Null when the
+ * portal is unpublished (its settings are hidden then) or can't be read.
+ */
+export async function getCatalogSources(origin: string): Promise<CatalogSources | null> {
+  const portalSettings = await getPortalSettings();
+  const settings = apiSettingsFrom(portalSettings);
+  if (!settings.published) return null;
+
+  const [fiscalYears, lastModified] = await Promise.all([
+    getPortalFiscalYears(),
+    getDatasetLastModified(),
+  ]);
+
+  return {
+    settings,
+    origin,
+    citySlug: CITY_CONFIG.slug,
+    fiscalYears,
+    fiscalConfig: fiscalConfigFrom(portalSettings),
+    lastModified,
+    generatedAt: new Date().toISOString(),
+    license: openDataLicense(process.env.OPEN_DATA_LICENSE),
+    contactEmail: process.env.OPEN_DATA_CONTACT_EMAIL?.trim() || PORTAL_CONTACT_EMAIL,
+  };
+}
+
+export type CatalogField = { name: string; type: string; description: string };
+
+export function catalogDatasets(settings: ApiSettings): ExportDataType[] {
+  return CATALOG_DATASETS.filter((name) => {
+    const resource = findApiResource(name);
+    return resource !== null && isResourceEnabled(resource, settings);
+  });
+}
+
+// Columns of the dataset's CSV download, typed from the data dictionary
+export function catalogFields(dataType: ExportDataType, settings: ApiSettings): CatalogField[] {
+  return exportFileColumns(dataType, settings.enableVendors).map((name) => ({
+    name,
+    type: EXPORT_COLUMNS[name]?.type ?? "string",
+    description: EXPORT_COLUMNS[name]?.description ?? "",
+  }));
+}
+
+// "start/end" ISO 8601 interval covering the portal's fiscal years
+export function temporalCoverage(fiscalYears: number[], config: FiscalConfig): string | null {
+  const years = fiscalYears.filter(Number.isFinite);
+  if (years.length === 0) return null;
+  const { start } = fiscalYearDateRange(Math.min(...years), config);
+  const { end } = fiscalYearDateRange(Math.max(...years), config);
+  return `${start}/${end}`;
+}
+
+function cityName(sources: CatalogSources): string {
+  return sources.settings.cityName ?? "City";
+}
+
+function downloadUrl(sources: CatalogSources, dataType: ExportDataType, format: ExportFormat): string {
+  return `${sources.origin}/api/export/${dataType}?format=${format}`;
+}
+
+// Media type without parameters, as both catalog formats expect
+function mediaType(format: ExportFormat): string {
+  return EXPORT_FORMATS[format].contentType.split(";")[0];
+}
+
+export type DcatDistribution = {
+  "@type": "dcat:Distribution";
+  title: string;
+  format: string;
+  mediaType?: string;
+  downloadURL?: string;
+  accessURL?: string;
+  describedBy?: string;
+  describedByType?: string;
+};
+
+export type DcatDataset = {
+  "@type": "dcat:Dataset";
+  identifier: string;
+  title: string;
+  description: string;
+  keyword: string[];
+  modified: string;
+  publisher: { "@type": "org:Organization"; name: string };
+  contactPoint: { "@type": "vcard:Contact"; fn: string; hasEmail: string };
+  accessLevel: "public";
+  license: string;
+  spatial: string;
+  temporal?: string;
+  landingPage: string;
+  describedBy: string;
+  describedByType: string;
+  distribution: DcatDistribution[];
+};
+
+export type DcatCatalog = {
+  "@context": string;
+  "@type": "dcat:Catalog";
+  conformsTo: string;
+  describedBy: string;
+  dataset: DcatDataset[];
+};
+
+// Latest of `timestamps` (ISO strings), or null when there are none
+function latestTimestamp(timestamps: string[]): string | null {
+  let latest: string | null = null;
+  for (const t of timestamps) {
+    if (latest === null || Date.parse(t) > Date.parse(latest)) latest = t;
+  }
+  return latest;
+}
+
+/**
+ * DCAT-US data.json: one dataset per published table, with a download
+ * in every export format plus the read-only API. A table never uploaded
+ * through the portal is dated by the catalog's latest change (or when it
+ * was read), since every dataset must carry `modified`.
+ */
+export function buildDcatCatalog(sources: CatalogSources): DcatCatalog {
+  const city = cityName(sources);
+  const temporal = temporalCoverage(sources.fiscalYears, sources.fiscalConfig);
+  const landingPage = `${sources.origin}/${sources.citySlug}/download`;
+  const catalogModified =
+    latestTimestamp(Object.values(sources.lastModified)) ?? sources.generatedAt;
+  const contactPoint = {
+    "@type": "vcard:Contact" as const,
+    fn: `${city} open data`,
+    hasEmail: `mailto:${sources.contactEmail}`,
+  };
+
+  return {
+    "@context": "https://project-open-data.cio.gov/v1.1/schema/catalog.jsonld",
+    "@type": "dcat:Catalog",
+    conformsTo: "https://project-open-data.cio.gov/v1.1/schema",
+    describedBy: "https://project-open-data.cio.gov/v1.1/schema/catalog.json",
+    dataset: catalogDatasets(sources.settings).map((dataType) => {
+      const info = DATASET_INFO[dataType];
+
+      const distribution: DcatDistribution[] = (Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(
+        (format) => ({
+          "@type": "dcat:Distribution",
+          title: `${info.title} (${EXPORT_FORMATS[format].label})`,
+          format: EXPORT_FORMATS[format].label,
+          mediaType: mediaType(format),
+          downloadURL: downloadUrl(sources, dataType, format),
+        })
+      );
+      distribution.push({
+        "@type": "dcat:Distribution",
+        title: `${info.title} API`,
+        format: "API",
+        accessURL: `${sources.origin}/api/v1/${dataType}`,
+        describedBy: `${sources.origin}/api/v1/openapi.json`,
+        describedByType: "application/vnd.oai.openapi+json;version=3.1",
+      });
+
+      return {
+        "@type": "dcat:Dataset",
+        identifier: `${sources.origin}/data.json#${dataType}`,
+        title: `${city} ${info.title}`,
+        description: info.description,
+        keyword: info.keywords,
+        modified: sources.lastModified[dataType] ?? catalogModified,
+        publisher: { "@type": "org:Organization", name: city },
+        contactPoint,
+        accessLevel: "public",
+        license: sources.license.path,
+        spatial: city,
+        ...(temporal ? { temporal } : {}),
+        landingPage,
+        describedBy: `${sources.origin}/datapackage.json`,
+        describedByType: "application/json",
+        distribution,
+      };
+    }),
+  };
+}
+
+export type DataPackageResource = {
+  profile: "tabular-data-resource";
+  name: string;
+  title: string;
+  description: string;
+  path: string;
+  format: "csv";
+  mediatype: string;
+  encoding: "utf-8";
+  lastModified?: string;
+  schema: { fields: CatalogField[]; missingValues: string[] };
+};
+
+export type DataPackage = {
+  profile: "tabular-data-package";
+  name: string;
+  title: string;
+  description: string;
+  homepage: string;
+  keywords: string[];
+  licenses: CatalogLicense[];
+  temporal?: string;
+  resources: DataPackageResource[];
+};
+
+/**
+ * Frictionless Data Package: one tabular resource per published table,
+ * pointing at its CSV download, with a field per column. Empty CSV cells
+ * are missing values.
+ */
+export function buildDataPackage(sources: CatalogSources): DataPackage {
+  const city = cityName(sources);
+  const datasets = catalogDatasets(sources.settings);
+  const temporal = temporalCoverage(sources.fiscalYears, sources.fiscalConfig);
+
+  return {
+    profile: "tabular-data-package",
+    name: `${sources.citySlug.toLowerCase().replace(/[^a-z0-9._-]+/g, "-")}-finances`,
+    title: `${city} financial data`,
+    description: `Budget, spending and revenue data published by ${city}.`,
+    homepage: `${sources.origin}/${sources.citySlug}/download`,
+    keywords: Array.from(new Set(datasets.flatMap((d) => DATASET_INFO[d].keywords))),
+    licenses: [sources.license],
+    ...(temporal ? { temporal } : {}),
+    resources: datasets.map((dataType) => {
+      const info = DATASET_INFO[dataType];
+      const modified = sources.lastModified[dataType];
+      return {
+        profile: "tabular-data-resource",
+        name: dataType,
+        title: info.title,
+        description: info.description,
+        path: downloadUrl(sources, dataType, "csv"),
+        format: "csv",
+        mediatype: mediaType("csv"),
+        encoding: "utf-8",
+        ...(modified ? { lastModified: modified } : {}),
+        schema: { fields: catalogFields(dataType, sources.settings), missingValues: [""] },
+      };
+    }),
+  };
+}
@@ -0,0 +1,150 @@
+// lib/perCapita.ts
+//
+// Per-resident and per-household views. Population and household counts
+// are kept by fiscal year in population_by_year (Admin → Branding &
+// settings); pages switch with `?per=resident` or `?per=household`.
+
+export type PopulationEntry = {
+  fiscal_year: number;
+  population: number;
+  households: number | null;
+  source?: string | null;
+};
+
+export type PerCapitaBasis = "total" | "resident" | "household";
+
+export function pickPerCapita(value: string | string[] | undefined): PerCapitaBasis {
+  const raw = Array.isArray(value) ? value[0] : value;
+  return raw === "resident" || raw === "household" ? raw : "total";
+}
+
+export const PER_CAPITA_LABELS: Record<PerCapitaBasis, string> = {
+  total: "Total",
+  resident: "Per resident",
+  household: "Per household",
+};
+
+/**
+ * Residents and households for each fiscal year a page shows. Plain data,
+ * so pages can hand it to client components.
+ */
+export type Population = {
+  byYear: Record<number, { population: number; households: number | null }>;
+  // Years without their own count; the nearest loaded year stands in
+  estimatedYears: number[];
+  hasHouseholds: boolean;
+};
+
+/**
+ * Population for `years`. A year without a count uses the nearest earlier
+ * year, else the earliest one, as census estimates trail the budget.
+ * Returns null when nothing usable is loaded.
+ */
+export function buildPopulation(entries: PopulationEntry[], years: number[]): Population | null {
+  const usable = entries
+    .filter((e) => Number.isInteger(Number(e.fiscal_year)) && Number(e.population) > 0)
+    .sort((a, b) => a.fiscal_year - b.fiscal_year);
+  if (usable.length === 0) return null;
+
+  const loaded = new Map(usable.map((e) => [Number(e.fiscal_year), e]));
+  const byYear: Population["byYear"] = {};
+  for (const year of Array.from(new Set(years))) {
+    const earlier = usable.filter((e) => e.fiscal_year <= year);
+    const entry = earlier.length > 0 ? earlier[earlier.length - 1] : usable[0];
+    const households = Number(entry.households);
+    byYear[year] = {
+      population: Number(entry.population),
+      households: households > 0 ? households : null,
+    };
+  }
+
+  return {
+    byYear,
+    estimatedYears: Object.keys(byYear)
+      .map(Number)
+      .filter((y) => !loaded.has(y))
+      .sort((a, b) => a - b),
+    hasHouseholds: Object.values(byYear).some((p) => p.households !== null),
+  };
+}
+
+/**
+ * Residents or households to divide by in `year`; null when amounts stay
+ * as totals or there is no count for the year.
+ */
+export function perCapitaDivisor(
+  population: Population | null,
+  year: number | null,
+  basis: PerCapitaBasis
+): number | null {
+  if (!population || basis === "total" || year === null) return null;
+  const counts = population.byYear[year];
+  if (!counts) return null;
+  return basis === "resident" ? counts.population : counts.households;
+}
+
+/**
+ * `amount` from `year` per resident or household; unchanged as a total.
+ */
+export function perCapita(
+  amount: number,
+  year: number | null,
+  population: Population | null,
+  basis: PerCapitaBasis
+): number {
+  const divisor = perCapitaDivisor(population, year, basis);
+  return divisor ? amount / divisor : amount;
+}
+
+/**
+ * Copies of `rows` with the amount fields divided by that year's count.
+ */
+export function perCapitaRows<T>(
+  rows: T[],
+  yearOf: (row: T) => number,
+  fields: (keyof T)[],
+  population: Population | null,
+  basis: PerCapitaBasis
+): T[] {
+  if (!population || basis === "total") return rows;
+  return rows.map((row) => {
+    const copy = { ...row };
+    const year = yearOf(row);
+    for (const field of fields) {
+      const value = Number(row[field] ?? 0);
+      copy[field] = perCapita(value, year, population, basis) as T[keyof T];
+    }
+    return copy;
+  });
+}
+
+/**
+ * Per-resident amounts: whole dollars, with cents below $10 so small
+ * services don't all read "$0".
+ */
+export function formatPerCapita(value: number): string {
+  const num = Number.isFinite(value) ? value : 0;
+  return num.toLocaleString("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: Math.abs(num) < 10 ? 2 : 0,
+    maximumFractionDigits: Math.abs(num) < 10 ? 2 : 0,
+  });
+}
+
+/**
+ * A number from the free-text population stat on the landing page
+ * ("48,200", "48.2K", "1.2 million"); null when it isn't one.
+ */
+export function parsePopulationStat(text: string | null | undefined): number | null {
+  const match = (text ?? "")
+    .trim()
+    .toLowerCase()
+    .match(/^~?\s*([\d,]*\.?\d+)\s*(k|thousand|m|million)?\+?$/);
+  if (!match) return null;
+  const base = Number(match[1].replace(/,/g, ""));
+  const unit = match[2];
+  const scale = unit === "k" || unit === "thousand" ? 1_000 : unit === "m" || unit === "million" ? 1_000_000 : 1;
+  const value = Math.round(base * scale);
+  return value > 0 ? value : null;
+}
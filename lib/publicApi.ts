@@ -0,0 +1,487 @@
+// lib/publicApi.ts
+//
+// Public read-only API (/api/v1/<resource>): the resources it serves,
+// query parsing and validation, and one keyset page of rows. Every
+// resource is a single table read with the anon key, so row-level
+// security still hides unpublished data; the portal's feature switches
+// decide which resources and fields exist at all.
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { EXPORT_COLUMNS, typedValue, type ExportColumnType } from "@/lib/exportFormats";
+import { keysetFilter, type ExportCursor, type ExportRow } from "@/lib/exportStream";
+
+export const API_DEFAULT_LIMIT = 100;
+export const API_MAX_LIMIT = 1000;
+
+// Requests per minute per client
+export const API_RATE_LIMIT = 60;
+
+export type ApiResourceName =
+  | "budgets"
+  | "actuals"
+  | "transactions"
+  | "revenues"
+  | "departments"
+  | "vendors";
+
+export type ApiSettings = {
+  published: boolean;
+  cityName: string | null;
+  enableBudget: boolean;
+  enableActuals: boolean;
+  enableTransactions: boolean;
+  enableVendors: boolean;
+  enableRevenues: boolean;
+};
+
+type ApiFlag = Exclude<keyof ApiSettings, "published" | "cityName">;
+
+export type ApiField = {
+  name: string;
+  type: ExportColumnType;
+  description: string;
+  requires?: ApiFlag; // only present when this switch is on
+};
+
+export type ApiFilter = {
+  param: string;
+  column: string;
+  op: "in" | "gte" | "lte"; // "in" takes comma-separated values
+  type: ExportColumnType;
+  description: string;
+  requires?: ApiFlag;
+};
+
+export type ApiResource = {
+  name: ApiResourceName;
+  table: string;
+  title: string;
+  description: string;
+  requires: ApiFlag;
+  fields: ApiField[];
+  filters: ApiFilter[];
+  // Keyset order: `column` then `tiebreaker`, which together are unique
+  order: { column: string; tiebreaker: string; ascending: boolean };
+};
+
+// Columns the API serves beyond the export data dictionary
+const API_ONLY_COLUMNS: Record<string, { type: ExportColumnType; description: string }> = {
+  id: { type: "string", description: "Row id, stable across requests" },
+  fiscal_period: { type: "integer", description: "Fiscal period number (1-12), when known" },
+  budget_amount: { type: "number", description: "Adopted budget in dollars" },
+  actual_amount: { type: "number", description: "Actual spending in dollars" },
+  total_amount: { type: "number", description: "Total paid in dollars" },
+  txn_count: { type: "integer", description: "Number of transactions" },
+  first_txn_date: { type: "date", description: "Date of the first transaction in the year" },
+  last_txn_date: { type: "date", description: "Date of the last transaction in the year" },
+};
+
+function field(name: string, requires?: ApiFlag): ApiField {
+  const entry = API_ONLY_COLUMNS[name] ?? EXPORT_COLUMNS[name];
+  return { name, type: entry?.type ?? "string", description: entry?.description ?? "", requires };
+}
+
+function fields(...names: string[]): ApiField[] {
+  return names.map((name) => field(name));
+}
+
+const FISCAL_YEAR_FILTER: ApiFilter = {
+  param: "fiscal_year",
+  column: "fiscal_year",
+  op: "in",
+  type: "integer",
+  description: "Fiscal years, comma-separated",
+};
+
+function nameFilter(param: string, description: string, requires?: ApiFlag): ApiFilter {
+  return { param, column: param, op: "in", type: "string", description, requires };
+}
+
+const AMOUNT_FILTERS: ApiFilter[] = [
+  { param: "min_amount", column: "amount", op: "gte", type: "number", description: "Smallest amount to include" },
+  { param: "max_amount", column: "amount", op: "lte", type: "number", description: "Largest amount to include" },
+];
+
+export const API_RESOURCES: ApiResource[] = [
+  {
+    name: "budgets",
+    table: "budgets",
+    title: "Budgets",
+    description: "Adopted budget line items by department, fund and account.",
+    requires: "enableBudget",
+    fields: fields(
+      "id",
+      "fiscal_year",
+      "fund_code",
+      "fund_name",
+      "department_code",
+      "department_name",
+      "category",
+      "account_code",
+      "account_name",
+      "amount"
+    ),
+    filters: [
+      FISCAL_YEAR_FILTER,
+      nameFilter("department_name", "Departments, comma-separated"),
+      nameFilter("fund_name", "Funds, comma-separated"),
+      nameFilter("category", "Spending categories, comma-separated"),
+      ...AMOUNT_FILTERS,
+    ],
+    order: { column: "department_name", tiebreaker: "id", ascending: true },
+  },
+  {
+    name: "actuals",
+    table: "actuals",
+    title: "Actuals",
+    description: "Actual spending by period, recorded against budget line items.",
+    requires: "enableActuals",
+    fields: fields(
+      "id",
+      "fiscal_year",
+      "period",
+      "fiscal_period",
+      "fund_code",
+      "fund_name",
+      "department_code",
+      "department_name",
+      "category",
+      "account_code",
+      "account_name",
+      "amount"
+    ),
+    filters: [
+      FISCAL_YEAR_FILTER,
+      { ...FISCAL_YEAR_FILTER, param: "fiscal_period", column: "fiscal_period", description: "Fiscal periods (1-12), comma-separated" },
+      nameFilter("department_name", "Departments, comma-separated"),
+      nameFilter("fund_name", "Funds, comma-separated"),
+      nameFilter("category", "Spending categories, comma-separated"),
+      ...AMOUNT_FILTERS,
+    ],
+    order: { column: "department_name", tiebreaker: "id", ascending: true },
+  },
+  {
+    name: "transactions",
+    table: "transactions",
+    title: "Transactions",
+    description: "Individual payments, newest first.",
+    requires: "enableTransactions",
+    fields: [
+      ...fields(
+        "id",
+        "date",
+        "fiscal_year",
+        "fund_code",
+        "fund_name",
+        "department_code",
+        "department_name",
+        "account_code",
+        "account_name"
+      ),
+      field("vendor", "enableVendors"),
+      ...fields("description", "amount"),
+    ],
+    filters: [
+      FISCAL_YEAR_FILTER,
+      nameFilter("department_name", "Departments, comma-separated"),
+      nameFilter("fund_name", "Funds, comma-separated"),
+      nameFilter("vendor", "Vendors as recorded in the ledger, comma-separated", "enableVendors"),
+      { param: "start_date", column: "date", op: "gte", type: "date", description: "Earliest date (YYYY-MM-DD)" },
+      { param: "end_date", column: "date", op: "lte", type: "date", description: "Latest date (YYYY-MM-DD)" },
+      ...AMOUNT_FILTERS,
+    ],
+    order: { column: "date", tiebreaker: "id", ascending: false },
+  },
+  {
+    name: "revenues",
+    table: "revenues",
+    title: "Revenues",
+    description: "Revenue collections by source and period, newest fiscal year first.",
+    requires: "enableRevenues",
+    fields: fields(
+      "id",
+      "fiscal_year",
+      "period",
+      "fiscal_period",
+      "fund_code",
+      "fund_name",
+      "department_code",
+      "department_name",
+      "category",
+      "account_code",
+      "account_name",
+      "amount"
+    ),
+    filters: [
+      FISCAL_YEAR_FILTER,
+      nameFilter("fund_name", "Funds, comma-separated"),
+      nameFilter("category", "Revenue sources, comma-separated"),
+      ...AMOUNT_FILTERS,
+    ],
+    order: { column: "fiscal_year", tiebreaker: "id", ascending: false },
+  },
+  {
+    name: "departments",
+    table: "budget_actuals_year_department",
+    title: "Department totals",
+    description:
+      "Budget and actual totals per department and fiscal year, with renamed departments combined.",
+    requires: "enableBudget",
+    fields: [
+      ...fields("fiscal_year", "department_name", "budget_amount"),
+      field("actual_amount", "enableActuals"),
+    ],
+    filters: [FISCAL_YEAR_FILTER, nameFilter("department_name", "Departments, comma-separated")],
+    order: { column: "fiscal_year", tiebreaker: "department_name", ascending: true },
+  },
+  {
+    name: "vendors",
+    table: "transaction_year_vendor",
+    title: "Vendor totals",
+    description:
+      "Payments per vendor and fiscal year, with merged vendor spellings combined.",
+    requires: "enableVendors",
+    fields: fields(
+      "fiscal_year",
+      "vendor",
+      "total_amount",
+      "txn_count",
+      "first_txn_date",
+      "last_txn_date"
+    ),
+    filters: [
+      FISCAL_YEAR_FILTER,
+      nameFilter("vendor", "Vendors, comma-separated"),
+      { param: "min_total", column: "total_amount", op: "gte", type: "number", description: "Smallest yearly total to include" },
+    ],
+    order: { column: "fiscal_year", tiebreaker: "vendor", ascending: true },
+  },
+];
+
+export function findApiResource(name: string): ApiResource | null {
+  return API_RESOURCES.find((r) => r.name === name) ?? null;
+}
+
+// Portal switches as stored in portal_settings; vendors need transactions
+export function apiSettingsFrom(row: Record<string, unknown> | null): ApiSettings {
+  const enableTransactions = row?.enable_transactions === true;
+  return {
+    published: row?.is_published === true,
+    cityName: typeof row?.city_name === "string" && row.city_name.trim() ? row.city_name.trim() : null,
+    enableBudget: row?.enable_budget !== false,
+    enableActuals: row?.enable_actuals !== false,
+    enableTransactions,
+    enableVendors: enableTransactions && row?.enable_vendors === true,
+    enableRevenues: row?.enable_revenues === true,
+  };
+}
+
+// Null when portal_settings can't be read. An unpublished portal's
+// settings are hidden from the anon key, which reads as unpublished.
+export async function getApiSettings(supabase: SupabaseClient): Promise<ApiSettings | null> {
+  const { data, error } = await supabase
+    .from("portal_settings")
+    .select(
+      "city_name, is_published, enable_budget, enable_actuals, enable_transactions, enable_vendors, enable_revenues"
+    )
+    .eq("id", 1)
+    .maybeSingle();
+
+  if (error) {
+    console.error("API: error loading portal_settings", error);
+    return null;
+  }
+  return apiSettingsFrom(data);
+}
+
+export function isResourceEnabled(resource: ApiResource, settings: ApiSettings): boolean {
+  return settings[resource.requires];
+}
+
+// Fields and filters that exist under the current switches
+export function visibleFields(resource: ApiResource, settings: ApiSettings): ApiField[] {
+  return resource.fields.filter((f) => !f.requires || settings[f.requires]);
+}
+
+export function visibleFilters(resource: ApiResource, settings: ApiSettings): ApiFilter[] {
+  return resource.filters.filter((f) => !f.requires || settings[f.requires]);
+}
+
+// Opaque page cursor: the last row's sort value and tiebreaker
+export function encodeCursor(cursor: ExportCursor): string {
+  return Buffer.from(JSON.stringify([cursor.value, cursor.id])).toString("base64url");
+}
+
+export function decodeCursor(value: string): ExportCursor | null {
+  try {
+    const parsed: unknown = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+    if (
+      Array.isArray(parsed) &&
+      parsed.length === 2 &&
+      (typeof parsed[0] === "string" || typeof parsed[0] === "number") &&
+      typeof parsed[1] === "string"
+    ) {
+      return { value: parsed[0], id: parsed[1] };
+    }
+  } catch {
+    // fall through
+  }
+  return null;
+}
+
+export type ApiFormat = "json" | "csv";
+
+export type ApiQuery = {
+  fields: string[];
+  filters: { filter: ApiFilter; values: (string | number)[] }[];
+  limit: number;
+  cursor: ExportCursor | null;
+  format: ApiFormat;
+};
+
+// Query parameters every resource takes besides its filters
+export const API_COMMON_PARAMS = ["fields", "limit", "cursor", "format"];
+
+function parseFilterValue(type: ExportColumnType, raw: string): string | number | null {
+  if (type === "integer") return /^-?\d+$/.test(raw) ? Number(raw) : null;
+  if (type === "number") return /^-?\d+(\.\d+)?$/.test(raw) ? Number(raw) : null;
+  if (type === "date") {
+    // A real calendar day, so Postgres never sees 2024-13-01
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(raw)) return null;
+    const day = new Date(`${raw}T00:00:00Z`);
+    return !Number.isNaN(day.getTime()) && day.toISOString().slice(0, 10) === raw ? raw : null;
+  }
+  return raw;
+}
+
+/**
+ * Validates a request's query string against `resource`. Unknown
+ * parameters and fields are errors rather than ignored, so a typo never
+ * silently returns unfiltered data. CSV is chosen by `format=csv` or an
+ * Accept header asking for text/csv.
+ */
+export function parseApiQuery(
+  resource: ApiResource,
+  params: URLSearchParams,
+  settings: ApiSettings,
+  accept: string | null = null
+): { query: ApiQuery } | { error: string } {
+  const allowedFields = visibleFields(resource, settings).map((f) => f.name);
+  const filters = visibleFilters(resource, settings);
+
+  for (const key of params.keys()) {
+    if (!API_COMMON_PARAMS.includes(key) && !filters.some((f) => f.param === key)) {
+      return { error: `Unknown parameter: ${key}` };
+    }
+  }
+
+  let fields = allowedFields;
+  const fieldsParam = params.get("fields");
+  if (fieldsParam !== null) {
+    fields = fieldsParam.split(",").map((s) => s.trim()).filter(Boolean);
+    const unknown = fields.find((f) => !allowedFields.includes(f));
+    if (unknown) return { error: `Unknown field: ${unknown}` };
+    if (fields.length === 0) return { error: "fields must name at least one field" };
+  }
+
+  const parsedFilters: ApiQuery["filters"] = [];
+  for (const filter of filters) {
+    const raw = params.get(filter.param);
+    if (raw === null || !raw.trim()) continue;
+
+    const parts = filter.op === "in" ? raw.split(",").map((s) => s.trim()).filter(Boolean) : [raw.trim()];
+    const values: (string | number)[] = [];
+    for (const part of parts) {
+      const value = parseFilterValue(filter.type, part);
+      if (value === null) {
+        return { error: `Invalid ${filter.param}: ${part}` };
+      }
+      values.push(value);
+    }
+    parsedFilters.push({ filter, values });
+  }
+
+  let limit = API_DEFAULT_LIMIT;
+  const limitParam = params.get("limit");
+  if (limitParam !== null) {
+    limit = Number(limitParam);
+    if (!Number.isInteger(limit) || limit < 1 || limit > API_MAX_LIMIT) {
+      return { error: `limit must be a whole number from 1 to ${API_MAX_LIMIT}` };
+    }
+  }
+
+  let cursor: ExportCursor | null = null;
+  const cursorParam = params.get("cursor");
+  if (cursorParam) {
+    cursor = decodeCursor(cursorParam);
+    if (!cursor) return { error: "Invalid cursor" };
+  }
+
+  const formatParam = params.get("format");
+  if (formatParam !== null && formatParam !== "json" && formatParam !== "csv") {
+    return { error: "format must be json or csv" };
+  }
+  const format: ApiFormat =
+    formatParam === "csv" || (formatParam === null && !!accept?.includes("text/csv")) ? "csv" : "json";
+
+  return { query: { fields, filters: parsedFilters, limit, cursor, format } };
+}
+
+export type ApiPage = {
+  rows: Record<string, string | number | null>[];
+  nextCursor: string | null;
+};
+
+/**
+ * One page of `resource` rows matching `query`, typed per field. Reads one
+ * row past the limit to tell whether another page follows. Throws on a
+ * query error.
+ */
+export async function fetchApiPage(
+  supabase: SupabaseClient,
+  resource: ApiResource,
+  query: ApiQuery
+): Promise<ApiPage> {
+  const { column, tiebreaker, ascending } = resource.order;
+  const select = Array.from(new Set([...query.fields, column, tiebreaker]));
+  const types = new Map(resource.fields.map((f) => [f.name, f.type]));
+
+  let request = supabase
+    .from(resource.table)
+    .select(select.join(","))
+    .order(column, { ascending })
+    .order(tiebreaker, { ascending })
+    .limit(query.limit + 1);
+
+  for (const { filter, values } of query.filters) {
+    if (filter.op === "in") request = request.in(filter.column, values);
+    else if (filter.op === "gte") request = request.gte(filter.column, values[0]);
+    else request = request.lte(filter.column, values[0]);
+  }
+  if (query.cursor) {
+    request = request.or(keysetFilter(column, ascending, query.cursor, tiebreaker));
+  }
+
+  const { data, error } = await request;
+  if (error) {
+    console.error(`API ${resource.name} query error:`, error);
+    throw new Error(`API ${resource.name} query failed`);
+  }
+
+  const raw = (data ?? []) as unknown as ExportRow[];
+  const page = raw.slice(0, query.limit);
+  const last = page[page.length - 1];
+  const nextCursor =
+    raw.length > query.limit && last
+      ? encodeCursor({ value: last[column], id: String(last[tiebreaker]) })
+      : null;
+
+  return {
+    rows: page.map((row) =>
+      Object.fromEntries(
+        query.fields.map((name) => [name, typedValue(types.get(name) ?? "string", row[name])])
+      )
+    ),
+    nextCursor,
+  };
+}
@@ -7,6 +7,20 @@
 import { supabase } from "./supabase";
 import { sanitizeSearchInput } from "./format";
 import type { ActualRow, BudgetRow, TransactionRow, RevenueRow } from "./schema";
+import type { UploadJobRow } from "./uploadJobStatus";
+import type { MappingProfile } from "./columnMapping";
+import type { FixedWidthLayoutRow } from "./fileFormats";
+import type { MasterDataEntry, MasterDataKind } from "./masterData";
+import { getAliasSources, reportUnderCurrentName } from "./departmentAliases";
+import type { DepartmentAlias } from "./departmentAliases";
+import type { VendorAlias } from "./vendorAliases";
+import type { FundYearDeptRow, FundYearDeptTxRow } from "./funds";
+import type { PeriodActualRow } from "./budgetExecution";
+import type { InsightRule } from "./insights";
+import { buildDeflator } from "./inflation";
+import type { CpiEntry, Deflator, DollarsMode } from "./inflation";
+import { buildPopulation, parsePopulationStat } from "./perCapita";
+import type { Population, PopulationEntry } from "./perCapita";
 
 // Internal types for Supabase query results
 type FiscalYearRow = { fiscal_year: number };
@@ -106,12 +120,16 @@ export async function getPortalSettings(): Promise<PortalSettings | null> {
 // Recent transactions (compat for overview)
 export async function getRecentTransactionsForYear(
   fiscalYear: number,
-  limit: number = 10
+  limit: number = 10,
+  fundName: string | null = null
 ) {
-  const { data, error } = await supabase
+  let query = supabase
     .from("transactions")
     .select("*")
-    .eq("fiscal_year", fiscalYear)
+    .eq("fiscal_year", fiscalYear);
+  if (fundName) query = query.eq("fund_name", fundName);
+
+  const { data, error } = await query
     .order("date", { ascending: false })
     .limit(limit);
 
@@ -195,6 +213,28 @@ export async function getVendorSummariesForYear(
   return (data ?? []) as VendorYearSummary[];
 }
 
+/**
+ * Every fiscal year's total and transaction count for one vendor.
+ */
+export async function getVendorSummariesForVendor(
+  vendorName: string
+): Promise<VendorYearSummary[]> {
+  const name = (vendorName ?? "").trim();
+  if (!name) return [];
+
+  const { data, error } = await supabase
+    .from("transaction_year_vendor")
+    .select("*")
+    .eq("vendor", name)
+    .order("fiscal_year", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching vendor history", error);
+    return [];
+  }
+  return (data ?? []) as VendorYearSummary[];
+}
+
 export type DepartmentYearTxSummary = {
   fiscal_year: number;
   department_name: string;
@@ -319,8 +359,220 @@ export async function getBudgetActualsYearTotals(): Promise<
    Revenues
 ========================= */
 
-export async function getRevenuesForYear(fiscalYear: number): Promise<RevenueRow[]> {
-  return fetchAllRows<RevenueRow>("revenues", (q) => q.eq("fiscal_year", fiscalYear));
+export async function getRevenuesForYear(
+  fiscalYear: number,
+  fundName: string | null = null
+): Promise<RevenueRow[]> {
+  return fetchAllRows<RevenueRow>("revenues", (q) =>
+    withRevenueFund(q.eq("fiscal_year", fiscalYear), fundName)
+  );
+}
+
+/**
+ * Every year's revenue rows for one fund (all funds when null).
+ */
+export async function getRevenuesForFund(
+  fundName: string | null
+): Promise<RevenueRow[]> {
+  return fetchAllRows<RevenueRow>("revenues", (q) => withRevenueFund(q, fundName));
+}
+
+// Revenue rows may have no fund; the fund views group those as "Unspecified"
+function withRevenueFund(q: SupabaseQuery, fundName: string | null): SupabaseQuery {
+  if (!fundName) return q;
+  return fundName === "Unspecified"
+    ? q.or("fund_name.is.null,fund_name.eq.")
+    : q.eq("fund_name", fundName);
+}
+
+/* =========================
+   Funds
+========================= */
+
+/**
+ * Fund names with budget or actuals, alphabetical.
+ */
+export async function getFundNames(): Promise<string[]> {
+  const { data, error } = await supabase.rpc("get_fund_names");
+
+  if (error) {
+    console.error("getFundNames error:", error);
+    return [];
+  }
+
+  return ((data ?? []) as Pick<FundYearDeptRow, "fund_name">[]).map((r) => r.fund_name);
+}
+
+/**
+ * Budget vs actual by fund and department, narrowed to a fiscal year and/or
+ * a fund. Largest budget first.
+ */
+export async function getFundBudgetActuals(opts: {
+  fiscalYear?: number;
+  fundName?: string | null;
+}): Promise<FundYearDeptRow[]> {
+  return fetchAllRows<FundYearDeptRow>("budget_actuals_year_fund", (q) => {
+    let query = q;
+    if (opts.fiscalYear !== undefined) query = query.eq("fiscal_year", opts.fiscalYear);
+    if (opts.fundName) query = query.eq("fund_name", opts.fundName);
+    return query
+      .order("budget_amount", { ascending: false })
+      .order("department_name", { ascending: true });
+  });
+}
+
+/**
+ * Transaction totals by department for one fund and fiscal year, in the
+ * shape of getDepartmentTransactionSummariesForYear.
+ */
+export async function getFundTransactionSummariesForYear(
+  fiscalYear: number,
+  fundName: string
+): Promise<DepartmentYearTxSummary[]> {
+  const { data, error } = await supabase
+    .from("transaction_year_fund")
+    .select("*")
+    .eq("fiscal_year", fiscalYear)
+    .eq("fund_name", fundName)
+    .order("total_amount", { ascending: false });
+
+  if (error) {
+    console.error("Error fetching fund tx summaries", error);
+    return [];
+  }
+  return (data ?? []) as FundYearDeptTxRow[];
+}
+
+/* =========================
+   Budget execution
+========================= */
+
+/**
+ * Actuals by department and fiscal period for the given fiscal years.
+ */
+export async function getPeriodActuals(
+  fiscalYears: number[]
+): Promise<PeriodActualRow[]> {
+  if (fiscalYears.length === 0) return [];
+  return fetchAllRows<PeriodActualRow>("actuals_year_period", (q) =>
+    q.in("fiscal_year", fiscalYears)
+      .order("fiscal_year", { ascending: true })
+      .order("fiscal_period", { ascending: true })
+  );
+}
+
+/* =========================
+   Insight rules
+========================= */
+
+/**
+ * Insight rules configured under Admin → Branding & settings, in display
+ * order. Empty when none are stored (no insights); null when they can't be
+ * read, where callers fall back to DEFAULT_INSIGHT_RULES.
+ */
+export async function getInsightRules(): Promise<InsightRule[] | null> {
+  const { data, error } = await supabase
+    .from("insight_rules")
+    .select("*")
+    .order("sort_order", { ascending: true })
+    .order("id", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching insight rules", error);
+    return null;
+  }
+
+  return ((data ?? []) as InsightRule[]).map((r) => ({
+    ...r,
+    id: Number(r.id),
+    params: r.params ?? {},
+  }));
+}
+
+/* =========================
+   Price index
+========================= */
+
+/**
+ * Price index by fiscal year for constant-dollar views, oldest first.
+ * Empty when none is stored or it can't be read.
+ */
+export async function getCpiIndex(): Promise<CpiEntry[]> {
+  const { data, error } = await supabase
+    .from("cpi_index")
+    .select("fiscal_year, index_value, source")
+    .order("fiscal_year", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching CPI index", error);
+    return [];
+  }
+
+  return (data ?? []).map((r) => ({
+    fiscal_year: Number(r.fiscal_year),
+    index_value: Number(r.index_value),
+    source: r.source ?? null,
+  }));
+}
+
+/**
+ * Deflator into dollars of the newest of `years` when a page is showing
+ * constant dollars; null for nominal dollars.
+ */
+export async function getDeflator(
+  dollars: DollarsMode,
+  years: number[]
+): Promise<Deflator | null> {
+  if (dollars !== "real" || years.length === 0) return null;
+  return buildDeflator(await getCpiIndex(), Math.max(...years), years);
+}
+
+/* =========================
+   Population
+========================= */
+
+/**
+ * Residents and households by fiscal year, oldest first. Empty when none
+ * are stored or they can't be read.
+ */
+export async function getPopulationByYear(): Promise<PopulationEntry[]> {
+  const { data, error } = await supabase
+    .from("population_by_year")
+    .select("fiscal_year, population, households, source")
+    .order("fiscal_year", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching population by year", error);
+    return [];
+  }
+
+  return (data ?? []).map((r) => ({
+    fiscal_year: Number(r.fiscal_year),
+    population: Number(r.population),
+    households: r.households === null ? null : Number(r.households),
+    source: r.source ?? null,
+  }));
+}
+
+/**
+ * Population for the fiscal years a page shows. Until a series is entered,
+ * a plain number in the landing-page population stat stands in for the
+ * newest year; null when there is neither.
+ */
+export async function getPopulation(
+  years: number[],
+  statPopulation?: string | null
+): Promise<Population | null> {
+  if (years.length === 0) return null;
+  const entries = await getPopulationByYear();
+  if (entries.length > 0) return buildPopulation(entries, years);
+
+  const population = parsePopulationStat(statPopulation);
+  if (population === null) return null;
+  return buildPopulation(
+    [{ fiscal_year: Math.max(...years), population, households: null }],
+    years
+  );
 }
 
 /* =========================
@@ -416,14 +668,22 @@ export async function getBudgetsForYear(fiscalYear: number): Promise<BudgetRow[]
   return fetchAllRows<BudgetRow>("budgets", (q) => q.eq("fiscal_year", fiscalYear));
 }
 
+// One name, or a department plus the old names reported under it
+function departmentNameList(departmentName: string | string[]): string[] {
+  const list = Array.isArray(departmentName) ? departmentName : [departmentName];
+  return Array.from(
+    new Set(list.map((name) => (name ?? "").trim()).filter(Boolean))
+  );
+}
+
 export async function getBudgetsForDepartmentYear(
-  departmentName: string,
+  departmentName: string | string[],
   fiscalYear: number
 ): Promise<BudgetRow[]> {
-  const name = (departmentName ?? "").trim();
-  if (!name) return [];
+  const names = departmentNameList(departmentName);
+  if (names.length === 0) return [];
   return fetchAllRows<BudgetRow>("budgets", (q) =>
-    q.eq("fiscal_year", fiscalYear).eq("department_name", name)
+    q.eq("fiscal_year", fiscalYear).in("department_name", names)
   );
 }
 
@@ -432,13 +692,13 @@ export async function getActualsForYear(fiscalYear: number): Promise<ActualRow[]
 }
 
 export async function getActualsForDepartmentYear(
-  departmentName: string,
+  departmentName: string | string[],
   fiscalYear: number
 ): Promise<ActualRow[]> {
-  const name = (departmentName ?? "").trim();
-  if (!name) return [];
+  const names = departmentNameList(departmentName);
+  if (names.length === 0) return [];
   return fetchAllRows<ActualRow>("actuals", (q) =>
-    q.eq("fiscal_year", fiscalYear).eq("department_name", name)
+    q.eq("fiscal_year", fiscalYear).in("department_name", names)
   );
 }
 
@@ -447,24 +707,105 @@ export async function getTransactionsForYear(fiscalYear: number): Promise<Transa
 }
 
 export async function getTransactionsForDepartmentYear(
-  departmentName: string,
+  departmentName: string | string[],
   fiscalYear: number
 ): Promise<TransactionRow[]> {
-  const name = (departmentName ?? "").trim();
-  if (!name) return [];
+  const names = departmentNameList(departmentName);
+  if (names.length === 0) return [];
   return fetchAllRows<TransactionRow>("transactions", (q) =>
     q.eq("fiscal_year", fiscalYear)
-      .eq("department_name", name)
+      .in("department_name", names)
       .order("date", { ascending: false })
   );
 }
 
+/**
+ * One department's raw rows for a fiscal year, including any old names
+ * reported under it that year. Split departments contribute a share of
+ * their budget and actuals, but individual transactions can't be divided,
+ * so only whole mergers bring their transactions along.
+ */
+export async function getDepartmentRowsForYear(
+  departmentName: string,
+  fiscalYear: number,
+  aliases: DepartmentAlias[],
+  opts: { includeTransactions: boolean }
+): Promise<{
+  budgets: BudgetRow[];
+  actuals: ActualRow[];
+  transactions: TransactionRow[];
+}> {
+  const sources = getAliasSources(aliases, departmentName, fiscalYear);
+  const sourceNames = sources.map((s) => s.name);
+  const wholeSources = sources.filter((s) => s.share === 1);
+
+  const [budgets, actuals, transactions] = await Promise.all([
+    getBudgetsForDepartmentYear(sourceNames, fiscalYear),
+    getActualsForDepartmentYear(sourceNames, fiscalYear),
+    opts.includeTransactions && wholeSources.length > 0
+      ? getTransactionsForDepartmentYear(
+          wholeSources.map((s) => s.name),
+          fiscalYear
+        )
+      : Promise.resolve([]),
+  ]);
+
+  return {
+    budgets: reportUnderCurrentName(budgets, sources, departmentName),
+    actuals: reportUnderCurrentName(actuals, sources, departmentName),
+    transactions: reportUnderCurrentName(transactions, wholeSources, departmentName),
+  };
+}
+
+/**
+ * One department's budget and actual rows for several fiscal years, each
+ * year read as getDepartmentRowsForYear does.
+ */
+export async function getDepartmentLineRowsForYears(
+  departmentName: string,
+  fiscalYears: number[],
+  aliases: DepartmentAlias[]
+): Promise<{ budgets: BudgetRow[]; actuals: ActualRow[] }> {
+  const perYear = await Promise.all(
+    fiscalYears.map((year) =>
+      getDepartmentRowsForYear(departmentName, year, aliases, {
+        includeTransactions: false,
+      })
+    )
+  );
+  return {
+    budgets: perYear.flatMap((r) => r.budgets),
+    actuals: perYear.flatMap((r) => r.actuals),
+  };
+}
+
+/**
+ * All transactions paid to one vendor (all years), newest first. Pass
+ * every spelling of the vendor to include its aliases.
+ */
+export async function getTransactionsForVendor(
+  vendorName: string | string[]
+): Promise<TransactionRow[]> {
+  const names = Array.from(
+    new Set(
+      (Array.isArray(vendorName) ? vendorName : [vendorName])
+        .map((name) => (name ?? "").trim())
+        .filter(Boolean)
+    )
+  );
+  if (names.length === 0) return [];
+  return fetchAllRows<TransactionRow>("transactions", (q) =>
+    q.in("vendor", names).order("date", { ascending: false })
+  );
+}
+
 /* =========================
    Upload logs
 ========================= */
 
 export type DataUploadLogRow = {
   id: number;
+  job_id: number | null;
   created_at: string;
   table_name: string;
   mode: string;
@@ -472,6 +813,8 @@ export type DataUploadLogRow = {
   fiscal_year: number | null;
   filename: string | null;
   admin_identifier: string | null;
+  rolled_back_at: string | null;
+  rolled_back_by: string | null;
 };
 
 
@@ -490,6 +833,104 @@ export async function getDataUploadLogs(): Promise<DataUploadLogRow[]> {
   return (data ?? []) as DataUploadLogRow[];
 }
 
+// When each table last changed (latest upload or rollback), keyed by
+// table name. Empty when the portal is unpublished or the lookup fails.
+export async function getDatasetLastModified(): Promise<Record<string, string>> {
+  const { data, error } = await supabase.rpc("get_dataset_last_modified");
+
+  if (error) {
+    console.error("getDatasetLastModified error:", error);
+    return {};
+  }
+
+  return Object.fromEntries(
+    ((data ?? []) as { table_name: string; last_modified: string | null }[])
+      .filter((r) => r.last_modified)
+      .map((r) => [r.table_name, r.last_modified as string])
+  );
+}
+
+export async function getUploadJobs(): Promise<UploadJobRow[]> {
+  const { data, error } = await supabase
+    .from("upload_jobs")
+    .select("*")
+    .order("created_at", { ascending: false })
+    .limit(50);
+
+  if (error) {
+    console.error("getUploadJobs error:", error);
+    return [];
+  }
+
+  return (data ?? []) as UploadJobRow[];
+}
+
+export async function getUploadJob(id: number): Promise<UploadJobRow | null> {
+  const { data, error } = await supabase
+    .from("upload_jobs")
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) {
+    console.error("getUploadJob error:", error);
+    return null;
+  }
+
+  return (data as UploadJobRow | null) ?? null;
+}
+
+export async function getUploadMappingProfiles(
+  table: string
+): Promise<MappingProfile[]> {
+  const { data, error } = await supabase
+    .from("upload_mapping_profiles")
+    .select("*")
+    .eq("table_name", table)
+    .order("name", { ascending: true });
+
+  if (error) {
+    console.error("getUploadMappingProfiles error:", error);
+    return [];
+  }
+
+  return (data ?? []) as MappingProfile[];
+}
+
+export async function getMasterDataEntries(
+  kind: MasterDataKind
+): Promise<MasterDataEntry[]> {
+  return fetchAllRows<MasterDataEntry>(kind, (q) =>
+    q.order("code", { ascending: true })
+  );
+}
+
+export async function getDepartmentAliases(): Promise<DepartmentAlias[]> {
+  return fetchAllRows<DepartmentAlias>("department_aliases", (q) =>
+    q.order("alias", { ascending: true }).order("department_name", { ascending: true })
+  );
+}
+
+export async function getVendorAliases(): Promise<VendorAlias[]> {
+  return fetchAllRows<VendorAlias>("vendor_aliases", (q) =>
+    q.order("canonical_vendor", { ascending: true }).order("alias", { ascending: true })
+  );
+}
+
+export async function getFixedWidthLayouts(): Promise<FixedWidthLayoutRow[]> {
+  const { data, error } = await supabase
+    .from("upload_fixed_width_layouts")
+    .select("*")
+    .order("name", { ascending: true });
+
+  if (error) {
+    console.error("getFixedWidthLayouts error:", error);
+    return [];
+  }
+
+  return (data ?? []) as FixedWidthLayoutRow[];
+}
+
 /* =========================
    Legacy exports (compat)
    - DO NOT remove/rename (UI depends on these)
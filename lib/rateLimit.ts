@@ -11,6 +11,11 @@ type RateLimitResult = {
   resetInSeconds: number;
 };
 
+// Rows are kept for the longest window any caller uses (daily export
+// limits and API key quotas), so a short-window cleanup never erases
+// counts a daily limit still needs
+const RATE_LIMIT_RETENTION_MS = 24 * 60 * 60 * 1000;
+
 // In-memory fallback store (used when DB is unavailable)
 const memoryStore = new Map<string, { count: number; resetTime: number }>();
 
@@ -91,10 +96,13 @@ export async function rateLimitAsync(
     if (Math.random() < 0.01) {
       void (async () => {
         try {
+          const retentionStart = new Date(
+            now - Math.max(windowMs, RATE_LIMIT_RETENTION_MS)
+          ).toISOString();
           await supabaseAdmin
             .from("rate_limits")
             .delete()
-            .lt("created_at", windowStart);
+            .lt("created_at", retentionStart);
         } catch {
           // Ignore cleanup errors
         }
@@ -3,6 +3,7 @@
 export type ActualRow = {
   fiscal_year: number;              // e.g. 2024
   period: string;                   // e.g. "2024-01" or "2024-1"
+  fiscal_period?: number | null;    // 1–12, derived at upload from the fiscal year start
   fund_code: string | null;
   fund_name: string | null;
   department_code: string | null;
@@ -28,6 +29,7 @@ export type BudgetRow = {
 export type RevenueRow = {
   fiscal_year: number;              // e.g. 2024
   period: string;                   // e.g. "2024-01" or "2024-1"
+  fiscal_period?: number | null;    // 1–12, derived at upload from the fiscal year start
   fund_code: string | null;
   fund_name: string | null;
   department_code: string | null;
@@ -41,6 +43,7 @@ export type RevenueRow = {
 export type TransactionRow = {
   date: string;                     // ISO date string "YYYY-MM-DD"
   fiscal_year: number;
+  fiscal_period?: number | null;    // 1–12, derived at upload from the fiscal year start
   fund_code: string | null;
   fund_name: string | null;
   department_code: string | null;
@@ -51,3 +54,56 @@ export type TransactionRow = {
   description: string | null;
   amount: number;
 };
+
+// Stored columns each dataset publishes, in file order: what exports
+// contain and the open data catalogs describe. Upload-only columns such
+// as fiscal_period aren't published.
+export const DATASET_COLUMNS = {
+  budgets: [
+    "fiscal_year",
+    "department_code",
+    "department_name",
+    "fund_code",
+    "fund_name",
+    "account_code",
+    "account_name",
+    "category",
+    "amount",
+  ] satisfies (keyof BudgetRow)[],
+  actuals: [
+    "fiscal_year",
+    "department_code",
+    "department_name",
+    "fund_code",
+    "fund_name",
+    "account_code",
+    "account_name",
+    "category",
+    "amount",
+  ] satisfies (keyof ActualRow)[],
+  transactions: [
+    "date",
+    "fiscal_year",
+    "fund_code",
+    "fund_name",
+    "department_code",
+    "department_name",
+    "account_code",
+    "account_name",
+    "vendor",
+    "description",
+    "amount",
+  ] satisfies (keyof TransactionRow)[],
+  revenues: [
+    "fiscal_year",
+    "period",
+    "fund_code",
+    "fund_name",
+    "department_code",
+    "department_name",
+    "category",
+    "account_code",
+    "account_name",
+    "amount",
+  ] satisfies (keyof RevenueRow)[],
+};
@@ -0,0 +1,303 @@
+// lib/uploadDiff.ts
+//
+// Upload diff preview: how a validated file would change the data currently
+// in the portal. The dry run summarizes the file per department and fund
+// (createUploadSummarizer), the server loads the live totals for the same
+// scope, and buildUploadDiff compares the two for the preflight step.
+//
+// Shared by the server-side dry run and the uploader UI.
+
+import { TABLE_SCHEMAS, type UploadMode, type UploadTable } from "@/lib/uploadValidation";
+
+// Rows with identical values in every template field are counted as likely
+// duplicates. Past this many distinct rows, new rows are no longer tracked
+// (duplicates of rows already seen are still found).
+const MAX_TRACKED_ROWS = 2_000_000;
+const MAX_DUPLICATE_GROUPS = 20;
+const MAX_DIFF_GROUPS = 50;
+
+// Blank department/fund names are grouped under this label
+export const UNNAMED_GROUP = "(blank)";
+
+type GroupTotals = { amount: number; rows: number };
+
+export type DuplicateGroup = {
+  rowNums: number[]; // file row numbers (header = row 1), first few only
+  count: number;
+  sample: Record<string, unknown>;
+};
+
+export type UploadFileSummary = {
+  departments: Record<string, GroupTotals>;
+  funds: Record<string, GroupTotals>;
+  duplicates: DuplicateGroup[]; // largest groups first
+  duplicateRowCount: number; // rows that repeat an earlier row
+  duplicateTrackingCapped: boolean;
+};
+
+/**
+ * Rows of a transactions append that are already in the portal, matched by
+ * content fingerprint (date, vendor, amount, account and description).
+ */
+export type ExistingRowsReport = {
+  count: number;
+  samples: {
+    rowNum: number;
+    date: string;
+    vendor: string;
+    amount: number;
+    description: string;
+  }[];
+};
+
+/** One live total for the compared scope (get_upload_diff_baseline). */
+export type DiffBaselineRow = {
+  dimension: "department" | "fund";
+  name: string;
+  row_count: number;
+  total_amount: number;
+};
+
+export type DiffGroup = {
+  name: string;
+  before: number;
+  after: number;
+  delta: number;
+  beforeRows: number;
+  afterRows: number;
+};
+
+export type UploadDiff = {
+  // Fiscal years compared against; null = the whole table
+  scopeYears: number[] | null;
+  beforeTotal: number;
+  afterTotal: number;
+  totalDelta: number;
+  beforeRows: number;
+  afterRows: number;
+  departments: DiffGroup[]; // largest absolute change first
+  funds: DiffGroup[];
+  addedDepartments: string[];
+  removedDepartments: string[];
+  duplicates: DuplicateGroup[];
+  duplicateRowCount: number;
+  duplicateTrackingCapped: boolean;
+};
+
+/**
+ * 53-bit string hash (cyrb53). Collisions are possible but rare enough for
+ * flagging likely duplicates, and a number key is far smaller in memory than
+ * the row text for files with millions of rows.
+ */
+function hashRowKey(key: string): number {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < key.length; i++) {
+    const ch = key.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return 4294967296 * (2097151 & h2) + (h1 >>> 0);
+}
+
+function groupName(value: unknown): string {
+  const name = typeof value === "string" ? value.trim() : "";
+  return name || UNNAMED_GROUP;
+}
+
+function addTo(
+  groups: Record<string, GroupTotals>,
+  name: string,
+  amount: number
+) {
+  const g = groups[name] ?? (groups[name] = { amount: 0, rows: 0 });
+  g.amount += amount;
+  g.rows += 1;
+}
+
+/**
+ * Accumulates the per-department/per-fund totals and likely duplicate rows
+ * of a file as its validated rows stream past.
+ */
+export function createUploadSummarizer(table: UploadTable): {
+  add: (rowNum: number, record: Record<string, unknown>) => void;
+  finish: () => UploadFileSummary;
+} {
+  const fields = TABLE_SCHEMAS[table].required;
+  const departments: Record<string, GroupTotals> = {};
+  const funds: Record<string, GroupTotals> = {};
+
+  const firstSeen = new Map<number, number>(); // row hash -> first row number
+  const repeated = new Map<number, DuplicateGroup>();
+  let duplicateRowCount = 0;
+  let capped = false;
+
+  function add(rowNum: number, record: Record<string, unknown>) {
+    const amount = typeof record.amount === "number" ? record.amount : 0;
+    addTo(departments, groupName(record.department_name), amount);
+    addTo(funds, groupName(record.fund_name), amount);
+
+    const hash = hashRowKey(
+      fields.map((f) => String(record[f] ?? "")).join("\u0001")
+    );
+    const first = firstSeen.get(hash);
+
+    if (first === undefined) {
+      if (firstSeen.size < MAX_TRACKED_ROWS) {
+        firstSeen.set(hash, rowNum);
+      } else {
+        capped = true;
+      }
+      return;
+    }
+
+    duplicateRowCount += 1;
+    const group = repeated.get(hash);
+    if (group) {
+      group.count += 1;
+      if (group.rowNums.length < 5) group.rowNums.push(rowNum);
+    } else {
+      repeated.set(hash, { rowNums: [first, rowNum], count: 2, sample: record });
+    }
+  }
+
+  function finish(): UploadFileSummary {
+    const duplicates = Array.from(repeated.values())
+      .sort(
+        (a, b) =>
+          b.count - a.count ||
+          Math.abs(Number(b.sample.amount) || 0) -
+            Math.abs(Number(a.sample.amount) || 0)
+      )
+      .slice(0, MAX_DUPLICATE_GROUPS);
+
+    return {
+      departments,
+      funds,
+      duplicates,
+      duplicateRowCount,
+      duplicateTrackingCapped: capped,
+    };
+  }
+
+  return { add, finish };
+}
+
+/**
+ * Fiscal years the upload is compared against: the replaced year, the
+ * whole table, or (for appends) the years the file adds rows to.
+ */
+export function getDiffScopeYears(
+  mode: UploadMode,
+  replaceYear: number | null,
+  yearsInData: number[]
+): number[] | null {
+  if (mode === "replace_table") return null;
+  if (mode === "replace_year" && replaceYear != null) return [replaceYear];
+  return yearsInData;
+}
+
+function compareGroups(
+  mode: UploadMode,
+  before: Map<string, GroupTotals>,
+  file: Record<string, GroupTotals>
+): DiffGroup[] {
+  const names = new Set([...before.keys(), ...Object.keys(file)]);
+
+  return Array.from(names, (name) => {
+    const b = before.get(name) ?? { amount: 0, rows: 0 };
+    const f = file[name] ?? { amount: 0, rows: 0 };
+    // Appends add to the live rows; replacements swap them out
+    const after =
+      mode === "append"
+        ? { amount: b.amount + f.amount, rows: b.rows + f.rows }
+        : f;
+
+    return {
+      name,
+      before: b.amount,
+      after: after.amount,
+      delta: after.amount - b.amount,
+      beforeRows: b.rows,
+      afterRows: after.rows,
+    };
+  }).sort(
+    (a, b) =>
+      Math.abs(b.delta) - Math.abs(a.delta) || a.name.localeCompare(b.name)
+  );
+}
+
+function sumGroups(groups: Iterable<GroupTotals>): GroupTotals {
+  let amount = 0;
+  let rows = 0;
+  for (const g of groups) {
+    amount += g.amount;
+    rows += g.rows;
+  }
+  return { amount, rows };
+}
+
+/**
+ * Compare a file summary with the live totals for the same scope.
+ */
+export function buildUploadDiff(
+  mode: UploadMode,
+  scopeYears: number[] | null,
+  summary: UploadFileSummary,
+  baseline: DiffBaselineRow[]
+): UploadDiff {
+  const liveDepartments = new Map<string, GroupTotals>();
+  const liveFunds = new Map<string, GroupTotals>();
+
+  for (const row of baseline) {
+    const target = row.dimension === "department" ? liveDepartments : liveFunds;
+    const name = groupName(row.name);
+    const g = target.get(name) ?? { amount: 0, rows: 0 };
+    g.amount += Number(row.total_amount) || 0;
+    g.rows += Number(row.row_count) || 0;
+    target.set(name, g);
+  }
+
+  const departments = compareGroups(mode, liveDepartments, summary.departments);
+  const funds = compareGroups(mode, liveFunds, summary.funds);
+
+  const before = sumGroups(liveDepartments.values());
+  const after = sumGroups(
+    departments.map((d) => ({ amount: d.after, rows: d.afterRows }))
+  );
+
+  return {
+    scopeYears,
+    beforeTotal: before.amount,
+    afterTotal: after.amount,
+    totalDelta: after.amount - before.amount,
+    beforeRows: before.rows,
+    afterRows: after.rows,
+    departments: departments.slice(0, MAX_DIFF_GROUPS),
+    funds: funds.slice(0, MAX_DIFF_GROUPS),
+    addedDepartments: departments
+      .filter((d) => d.beforeRows === 0 && d.afterRows > 0)
+      .map((d) => d.name)
+      .sort(),
+    removedDepartments: departments
+      .filter((d) => d.beforeRows > 0 && d.afterRows === 0)
+      .map((d) => d.name)
+      .sort(),
+    duplicates: summary.duplicates,
+    duplicateRowCount: summary.duplicateRowCount,
+    duplicateTrackingCapped: summary.duplicateTrackingCapped,
+  };
+}
+
+/**
+ * Percent change from before to after, or null when there was nothing
+ * before to compare with.
+ */
+export function getDiffPercent(group: Pick<DiffGroup, "before" | "delta">): number | null {
+  if (group.before === 0) return null;
+  return (group.delta / Math.abs(group.before)) * 100;
+}
@@ -0,0 +1,127 @@
+// lib/uploadFileReaders.ts
+//
+// Streaming row readers for every upload file format (see lib/fileFormats.ts).
+// Each yields the header row first, then data rows, as arrays of strings,
+// without holding the whole file in memory.
+//
+// SERVER-SIDE ONLY. Uses Node streams.
+
+import { Readable } from "node:stream";
+import type { ReadableStream as NodeReadableStream } from "node:stream/web";
+import ExcelJS from "exceljs";
+import { parseCsvStream } from "@/lib/csvParser";
+import {
+  parseFixedWidthLine,
+  spreadsheetRowValues,
+  type FileFormat,
+  type FixedWidthLayout,
+} from "@/lib/fileFormats";
+
+/**
+ * Split a UTF-8 byte stream into lines (without their line endings).
+ */
+async function* readLines(
+  stream: ReadableStream<Uint8Array>
+): AsyncGenerator<string> {
+  const reader = stream.getReader();
+  // TextDecoder strips a leading UTF-8 BOM
+  const decoder = new TextDecoder("utf-8");
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      // A trailing \r may be the first half of a \r\n split across chunks
+      const cut = buffer.endsWith("\r") ? buffer.length - 1 : buffer.length;
+      const lines = buffer.slice(0, cut).split(/\r\n|\n|\r/);
+      buffer = (lines.pop() ?? "") + buffer.slice(cut);
+      for (const line of lines) yield line;
+    }
+
+    buffer = (buffer + decoder.decode()).replace(/\r$/, "");
+    if (buffer.length > 0) yield buffer;
+  } finally {
+    await reader.cancel().catch(() => undefined);
+    reader.releaseLock();
+  }
+}
+
+async function* parseFixedWidthStream(
+  stream: ReadableStream<Uint8Array>,
+  layout: FixedWidthLayout
+): AsyncGenerator<string[]> {
+  yield layout.columns.map((col) => col.name.trim());
+
+  let lineNum = 0;
+  for await (const line of readLines(stream)) {
+    lineNum += 1;
+    if (lineNum <= layout.skipLines || !line.trim()) continue;
+    yield parseFixedWidthLine(line, layout);
+  }
+}
+
+/**
+ * Stream one worksheet of an .xlsx workbook. Blank rows are skipped like
+ * blank CSV lines; gaps between cells become empty strings.
+ */
+async function* parseXlsxStream(
+  stream: ReadableStream<Uint8Array>,
+  sheet: string | null
+): AsyncGenerator<string[]> {
+  const input = Readable.fromWeb(stream as NodeReadableStream<Uint8Array>);
+  const workbook = new ExcelJS.stream.xlsx.WorkbookReader(input, {
+    worksheets: "emit",
+    sharedStrings: "cache",
+    // Needed for cell number formats, which keep zero-padded codes intact
+    styles: "cache",
+    hyperlinks: "ignore",
+    entries: "ignore",
+  });
+
+  let found = false;
+
+  try {
+    for await (const worksheet of workbook) {
+      // Unread worksheets are skipped by the reader itself
+      const name = (worksheet as unknown as { name?: string }).name ?? null;
+      if (sheet !== null && name !== sheet) continue;
+
+      found = true;
+      for await (const row of worksheet) {
+        const values = spreadsheetRowValues(row);
+        if (values.some((v) => v !== "")) yield values;
+      }
+      break;
+    }
+  } finally {
+    input.destroy();
+  }
+
+  if (!found) {
+    throw new Error(
+      sheet
+        ? `Worksheet "${sheet}" was not found in this workbook.`
+        : "This workbook has no worksheets."
+    );
+  }
+}
+
+/**
+ * Rows of an uploaded file in the given format, header row first.
+ */
+export function readSourceRows(
+  stream: ReadableStream<Uint8Array>,
+  format: FileFormat
+): AsyncGenerator<string[]> {
+  switch (format.type) {
+    case "delimited":
+      return parseCsvStream(stream, format.delimiter);
+    case "fixed_width":
+      return parseFixedWidthStream(stream, format.layout);
+    case "xlsx":
+      return parseXlsxStream(stream, format.sheet);
+  }
+}
@@ -0,0 +1,727 @@
+// lib/uploadIngest.ts
+//
+// Server-side upload pipeline. The browser uploads the raw file to the
+// private upload bucket; these helpers stream it back, parse and validate it
+// row by row, normalize fiscal years and resolve fund/department/account
+// names through the registries, so no step ever holds the whole file in
+// memory. lib/uploadJobs.ts drives them to load the rows in chunks.
+//
+// SERVER-SIDE ONLY. Uses the service-role client.
+
+import { supabaseAdmin } from "@/lib/supabaseService";
+import { readSourceRows } from "@/lib/uploadFileReaders";
+import {
+  validateFixedWidthLayout,
+  type FileFormat,
+} from "@/lib/fileFormats";
+import {
+  createRowMapper,
+  validateColumnMapping,
+  type ColumnMapping,
+} from "@/lib/columnMapping";
+import {
+  buildUploadDiff,
+  createUploadSummarizer,
+  getDiffScopeYears,
+  type DiffBaselineRow,
+  type ExistingRowsReport,
+  type UploadDiff,
+  type UploadFileSummary,
+} from "@/lib/uploadDiff";
+import {
+  createMasterDataResolver,
+  MASTER_DATA_KINDS,
+  type MasterDataEntry,
+  type MasterDataRegistry,
+  type MasterDataResolver,
+} from "@/lib/masterData";
+import {
+  computeFiscalPeriodFromDate,
+  computeFiscalYearFromDate,
+  deriveDateFromPeriod,
+  type FiscalConfig,
+} from "@/lib/fiscalYear";
+import {
+  buildUploadRecord,
+  UPLOAD_BUCKET,
+  validateUploadHeaders,
+  type DuplicatePolicy,
+  type UploadMode,
+  type UploadProgressEvent,
+  type UploadTable,
+  type ValidationIssue,
+} from "@/lib/uploadValidation";
+import type { UploadScanCheckpoint } from "@/lib/uploadJobStatus";
+
+export const INSERT_CHUNK_SIZE = 5_000;
+
+// Only the first issues are returned to the UI; the rest are counted.
+const MAX_REPORTED_ISSUES = 200;
+const MAX_EXISTING_ROW_SAMPLES = 20;
+const EXISTING_ROW_CHECK_BATCH = 1_000;
+const VALIDATION_PROGRESS_EVERY = 25_000;
+// A resumable scan saves its progress this often, so a run cut off before
+// its deadline loses at most this many rows of work.
+const SCAN_CHECKPOINT_EVERY = 100_000;
+const MASTER_DATA_PAGE_SIZE = 1_000;
+
+export type UploadRequest = {
+  table: UploadTable;
+  mode: UploadMode;
+  replaceYear: number | null;
+  storagePath: string;
+  filename: string | null;
+  mapping: ColumnMapping | null; // null when the file uses template headers
+  fileFormat: FileFormat;
+  duplicatePolicy: DuplicatePolicy; // transactions appends only
+};
+
+export type UploadScanResult = {
+  rowCount: number;
+  yearsInData: number[];
+  totalAmount: number; // sum of valid rows' amounts, checked again before a swap
+  issues: ValidationIssue[];
+  issueCount: number;
+  summary: UploadFileSummary | null; // only when requested, for the diff preview
+  existingRows: ExistingRowsReport | null; // only when requested, for appends
+  paused: UploadScanCheckpoint | null; // set when the deadline stopped the scan early
+};
+
+type ProgressCallback = (event: UploadProgressEvent) => void;
+
+/**
+ * Storage paths are generated by /api/admin/upload/file as
+ * "<table>/<timestamp>-<name>". Reject anything else so a caller can't
+ * point the pipeline at an arbitrary object.
+ */
+export function isValidUploadPath(path: unknown, table: UploadTable): boolean {
+  if (typeof path !== "string") return false;
+  return new RegExp(`^${table}/[A-Za-z0-9._-]+$`).test(path);
+}
+
+/**
+ * Sanitize a record to prevent XSS attacks.
+ * Strips script tags and escapes dangerous HTML characters from string values.
+ */
+export function sanitizeRecord(
+  record: Record<string, unknown>
+): Record<string, unknown> {
+  const sanitized: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(record)) {
+    if (typeof value === "string") {
+      // Remove script tags and event handlers
+      let safe = value
+        .replace(/<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi, "")
+        .replace(/on\w+\s*=/gi, "")
+        .replace(/javascript:/gi, "");
+      // Escape HTML entities for display safety
+      safe = safe
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;");
+      sanitized[key] = safe;
+    } else {
+      sanitized[key] = value;
+    }
+  }
+  return sanitized;
+}
+
+/**
+ * Load fiscal-year start config from portal_settings.
+ * Fallback is Jan 1 if not configured.
+ */
+export async function getFiscalConfig(): Promise<FiscalConfig> {
+  const { data, error } = await supabaseAdmin
+    .from("portal_settings")
+    .select("fiscal_year_start_month, fiscal_year_start_day")
+    .eq("id", 1)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Admin upload: error loading fiscal config", error);
+  }
+
+  const parsedMonth = Number(data?.fiscal_year_start_month);
+  const parsedDay = Number(data?.fiscal_year_start_day);
+
+  const startMonth =
+    Number.isFinite(parsedMonth) && parsedMonth >= 1 && parsedMonth <= 12
+      ? parsedMonth
+      : 1;
+
+  const startDay =
+    Number.isFinite(parsedDay) && parsedDay >= 1 && parsedDay <= 31
+      ? parsedDay
+      : 1;
+
+  return { startMonth, startDay };
+}
+
+/**
+ * Load the fund, department and account registries and build the resolver
+ * that gives uploaded rows their registered names. A registry that fails to
+ * load is treated as empty, so names are kept as uploaded.
+ */
+export async function getMasterDataResolver(): Promise<MasterDataResolver> {
+  const registry = {} as MasterDataRegistry;
+
+  for (const kind of MASTER_DATA_KINDS) {
+    const entries: MasterDataEntry[] = [];
+
+    for (let from = 0; ; from += MASTER_DATA_PAGE_SIZE) {
+      const { data, error } = await supabaseAdmin
+        .from(kind)
+        .select("*")
+        .order("code", { ascending: true })
+        .range(from, from + MASTER_DATA_PAGE_SIZE - 1);
+
+      if (error) {
+        console.warn(
+          `Non-fatal: could not load ${kind} registry; names are kept as uploaded: ${error.message}`
+        );
+        entries.length = 0;
+        break;
+      }
+
+      const page = (data ?? []) as MasterDataEntry[];
+      entries.push(...page);
+      if (page.length < MASTER_DATA_PAGE_SIZE) break;
+    }
+
+    registry[kind] = entries;
+  }
+
+  return createMasterDataResolver(registry);
+}
+
+/**
+ * Normalize fiscal_year on a single record based on table and fiscal config.
+ *
+ * Rules:
+ * - budgets: trust incoming fiscal_year (budgets are already keyed by FY)
+ * - transactions: derive FY from date field using fiscal-year start
+ * - actuals/revenues:
+ *    - if "date" exists, derive from date
+ *    - else, if "period" exists, derive from period string
+ *    - else, keep the provided fiscal_year (coerced to a number)
+ */
+export function normalizeFiscalYearForRecord(
+  record: Record<string, unknown>,
+  table: UploadTable,
+  config: FiscalConfig
+): Record<string, unknown> {
+  const cloned = { ...record };
+
+  // Force numeric fiscal_year if present and numeric
+  const rawFy = cloned.fiscal_year;
+  if (rawFy != null && rawFy !== "") {
+    const n = Number(rawFy);
+    if (Number.isFinite(n)) {
+      cloned.fiscal_year = n;
+    }
+  }
+
+  if (table === "budgets") {
+    // Budgets are uploaded per fiscal year; we assume the CSV has correct FY.
+    return cloned;
+  }
+
+  if (table === "transactions") {
+    const dateValue = typeof cloned.date === "string" ? cloned.date : null;
+    const fyFromDate = computeFiscalYearFromDate(dateValue, config);
+    const fpFromDate = computeFiscalPeriodFromDate(dateValue, config);
+
+    if (fyFromDate != null) cloned.fiscal_year = fyFromDate;
+    if (fpFromDate != null) cloned.fiscal_period = fpFromDate;
+
+    return cloned;
+  }
+
+  // actuals / revenues: prefer deriving from an actual date if present;
+  // otherwise derive from period (month) using startDay.
+  const candidateDate =
+    typeof cloned.date === "string" && cloned.date.trim().length > 0
+      ? cloned.date
+      : deriveDateFromPeriod(cloned.period, config.startDay);
+
+  if (candidateDate) {
+    const fy = computeFiscalYearFromDate(candidateDate, config);
+    const fp = computeFiscalPeriodFromDate(candidateDate, config);
+
+    if (fy != null) cloned.fiscal_year = fy;
+    if (fp != null) cloned.fiscal_period = fp;
+
+    return cloned;
+  }
+
+  if (cloned.fiscal_period != null && cloned.fiscal_period !== "") {
+    const p = Number(cloned.fiscal_period);
+    if (Number.isFinite(p)) cloned.fiscal_period = p;
+  }
+
+  return cloned;
+}
+
+/**
+ * Open the raw upload as a byte stream. We fetch through a short-lived signed
+ * URL instead of storage.download() because download() buffers the whole
+ * object into a Blob.
+ */
+async function openUploadFile(
+  storagePath: string
+): Promise<ReadableStream<Uint8Array>> {
+  const { data, error } = await supabaseAdmin.storage
+    .from(UPLOAD_BUCKET)
+    .createSignedUrl(storagePath, 60 * 10);
+
+  if (error || !data?.signedUrl) {
+    throw new Error(
+      `Could not open uploaded file: ${error?.message ?? "no signed URL"}`
+    );
+  }
+
+  const resp = await fetch(data.signedUrl, { cache: "no-store" });
+  if (!resp.ok || !resp.body) {
+    throw new Error(
+      `Could not read uploaded file (status ${resp.status}). Please upload it again.`
+    );
+  }
+
+  return resp.body;
+}
+
+export type UploadRow = {
+  rowNum: number;
+  record: Record<string, unknown>;
+  fiscalYear: number | null;
+  issues: ValidationIssue[];
+};
+
+/**
+ * Stream the uploaded file and yield each data row validated, sanitized,
+ * fiscal-year-normalized and with registered names. Header issues are
+ * reported through onHeaderIssues before the first row. The first
+ * `skipRows` data rows are read past without being built or yielded.
+ */
+export async function* readUploadRows(
+  request: UploadRequest,
+  fiscalConfig: FiscalConfig,
+  resolveNames: MasterDataResolver,
+  onHeaderIssues: (issues: ValidationIssue[]) => void,
+  skipRows = 0
+): AsyncGenerator<UploadRow> {
+  const stream = await openUploadFile(request.storagePath);
+
+  if (request.fileFormat.type === "fixed_width") {
+    onHeaderIssues(
+      validateFixedWidthLayout(request.fileFormat.layout).map((message) => ({
+        row: null,
+        field: null,
+        message,
+      }))
+    );
+  }
+
+  let headers: string[] | null = null;
+  let mapRow: (row: string[]) => string[] = (row) => row;
+  let rowNum = 1;
+
+  for await (const row of readSourceRows(stream, request.fileFormat)) {
+    if (!headers) {
+      headers = row.map((h) => h.trim());
+
+      // A column mapping turns the source headers into template fields
+      if (request.mapping) {
+        const mappingErrors = validateColumnMapping(
+          request.table,
+          request.mapping,
+          headers
+        );
+        onHeaderIssues(
+          mappingErrors.map((message) => ({ row: null, field: null, message }))
+        );
+        const mapper = createRowMapper(request.mapping, headers);
+        headers = mapper.fields;
+        mapRow = mapper.mapRow;
+      }
+
+      onHeaderIssues(validateUploadHeaders(request.table, headers));
+      continue;
+    }
+
+    rowNum += 1;
+    if (rowNum - 1 <= skipRows) continue;
+    const built = buildUploadRecord(request.table, headers, mapRow(row), rowNum);
+
+    if (built.issues.length > 0) {
+      yield { rowNum, record: built.record, fiscalYear: null, issues: built.issues };
+      continue;
+    }
+
+    // Registered names are admin-entered, so they skip sanitizing
+    const record = normalizeFiscalYearForRecord(
+      resolveNames(sanitizeRecord(built.record)),
+      request.table,
+      fiscalConfig
+    );
+    const fy = Number(record.fiscal_year);
+
+    yield {
+      rowNum,
+      record,
+      fiscalYear: Number.isFinite(fy) ? fy : null,
+      issues: [],
+    };
+  }
+
+  if (!headers) {
+    onHeaderIssues([
+      { row: null, field: null, message: "File appears to be empty." },
+    ]);
+  }
+}
+
+/**
+ * Finds transaction rows that are already in the table, by fingerprint,
+ * checking the file in batches as it streams.
+ */
+function createExistingRowChecker(): {
+  add: (rowNum: number, record: Record<string, unknown>) => Promise<void>;
+  finish: () => Promise<ExistingRowsReport>;
+} {
+  const report: ExistingRowsReport = { count: 0, samples: [] };
+  let batch: { rowNum: number; record: Record<string, unknown> }[] = [];
+
+  async function check() {
+    if (batch.length === 0) return;
+
+    const { data, error } = await supabaseAdmin.rpc(
+      "find_existing_transactions",
+      {
+        p_rows: batch.map(({ record }) => ({
+          date: record.date,
+          vendor: record.vendor,
+          amount: record.amount,
+          account_code: record.account_code,
+          description: record.description,
+        })),
+      }
+    );
+
+    if (error) {
+      console.error("Admin upload: duplicate check error", error);
+      throw new Error(
+        `Could not check for rows already in the portal: ${error.message}`
+      );
+    }
+
+    for (const { row_index } of (data ?? []) as { row_index: number }[]) {
+      const found = batch[row_index - 1];
+      if (!found) continue;
+      report.count += 1;
+      if (report.samples.length < MAX_EXISTING_ROW_SAMPLES) {
+        report.samples.push({
+          rowNum: found.rowNum,
+          date: String(found.record.date ?? ""),
+          vendor: String(found.record.vendor ?? ""),
+          amount: Number(found.record.amount) || 0,
+          description: String(found.record.description ?? ""),
+        });
+      }
+    }
+    batch = [];
+  }
+
+  return {
+    async add(rowNum, record) {
+      batch.push({ rowNum, record });
+      if (batch.length >= EXISTING_ROW_CHECK_BATCH) await check();
+    },
+    async finish() {
+      await check();
+      report.samples.sort((a, b) => a.rowNum - b.rowNum);
+      return report;
+    },
+  };
+}
+
+/**
+ * Validate the whole upload without writing anything.
+ * Returns row count, fiscal years (after normalization) and the first issues;
+ * with `summarize`, also the per-department/fund totals for the diff preview
+ * and, for transactions appends, the rows already in the portal.
+ *
+ * The job runner scans resumably: with `deadline` (epoch ms) the scan stops
+ * once it runs past it and returns its progress as `paused`, which a later
+ * call continues from via `resumeFrom`. `onCheckpoint` receives the progress
+ * every SCAN_CHECKPOINT_EVERY rows. Summaries can't be resumed.
+ */
+export async function scanUpload(
+  request: UploadRequest,
+  onProgress: ProgressCallback = () => {},
+  options: {
+    summarize?: boolean;
+    deadline?: number;
+    resumeFrom?: UploadScanCheckpoint | null;
+    onCheckpoint?: (checkpoint: UploadScanCheckpoint) => Promise<void>;
+  } = {}
+): Promise<UploadScanResult> {
+  const fiscalConfig = await getFiscalConfig();
+  const resolveNames = await getMasterDataResolver();
+
+  const issues: ValidationIssue[] = [];
+  let issueCount = 0;
+  const addIssues = (found: ValidationIssue[]) => {
+    issueCount += found.length;
+    for (const issue of found) {
+      if (issues.length >= MAX_REPORTED_ISSUES) break;
+      issues.push(issue);
+    }
+  };
+
+  const resumeFrom = options.summarize ? null : options.resumeFrom ?? null;
+  if (resumeFrom) {
+    issueCount = resumeFrom.issue_count;
+    issues.push(...resumeFrom.issues.slice(0, MAX_REPORTED_ISSUES));
+  }
+
+  const yearSet = new Set<number>(resumeFrom?.years_in_data ?? []);
+  let rowCount = resumeFrom?.rows_scanned ?? 0;
+  let totalAmount = resumeFrom?.total_amount ?? 0;
+  const checkpoint = (): UploadScanCheckpoint => ({
+    rows_scanned: rowCount,
+    issue_count: issueCount,
+    issues,
+    years_in_data: Array.from(yearSet).sort((a, b) => a - b),
+    total_amount: totalAmount,
+  });
+  const summarizer = options.summarize
+    ? createUploadSummarizer(request.table)
+    : null;
+  const existingChecker =
+    options.summarize &&
+    request.table === "transactions" &&
+    request.mode === "append"
+      ? createExistingRowChecker()
+      : null;
+
+  for await (const row of readUploadRows(
+    request,
+    fiscalConfig,
+    resolveNames,
+    // Header issues were counted by the run that started the scan
+    resumeFrom ? () => {} : addIssues,
+    resumeFrom?.rows_scanned ?? 0
+  )) {
+    rowCount += 1;
+    addIssues(row.issues);
+    if (summarizer && row.issues.length === 0) {
+      summarizer.add(row.rowNum, row.record);
+      await existingChecker?.add(row.rowNum, row.record);
+    }
+    if (row.fiscalYear != null) yearSet.add(row.fiscalYear);
+    if (typeof row.record.amount === "number") totalAmount += row.record.amount;
+
+    if (options.deadline !== undefined && Date.now() > options.deadline) {
+      return {
+        rowCount,
+        yearsInData: checkpoint().years_in_data,
+        totalAmount,
+        issues,
+        issueCount,
+        summary: null,
+        existingRows: null,
+        paused: checkpoint(),
+      };
+    }
+    if (options.onCheckpoint && rowCount % SCAN_CHECKPOINT_EVERY === 0) {
+      await options.onCheckpoint(checkpoint());
+    }
+
+    if (rowCount % VALIDATION_PROGRESS_EVERY === 0) {
+      onProgress({
+        type: "progress",
+        phase: "validating",
+        rowsProcessed: rowCount,
+        totalRows: null,
+      });
+    }
+  }
+
+  if (rowCount === 0 && issueCount === 0) {
+    addIssues([
+      {
+        row: null,
+        field: null,
+        message: "CSV appears to be empty or missing data rows.",
+      },
+    ]);
+  }
+
+  const yearsInData = Array.from(yearSet).sort((a, b) => a - b);
+
+  // Enforce single-year behavior for replace_year after FY normalization
+  if (request.mode === "replace_year" && issueCount === 0) {
+    if (!request.replaceYear) {
+      addIssues([
+        {
+          row: null,
+          field: null,
+          message: "replaceYear is required for replace_year mode",
+        },
+      ]);
+    } else if (yearsInData.length === 0) {
+      addIssues([
+        {
+          row: null,
+          field: "fiscal_year",
+          message:
+            "No fiscal years were detected in the uploaded data after normalization. For replace_year mode, rows must resolve to a single fiscal_year.",
+        },
+      ]);
+    } else if (yearsInData.length > 1) {
+      addIssues([
+        {
+          row: null,
+          field: "fiscal_year",
+          message: `Multiple fiscal years detected in uploaded data after normalization (${yearsInData.join(
+            ", "
+          )}). For replace_year mode, the file must resolve to a single fiscal year.`,
+        },
+      ]);
+    } else if (yearsInData[0] !== request.replaceYear) {
+      addIssues([
+        {
+          row: null,
+          field: "fiscal_year",
+          message: `Fiscal year mismatch. You requested replace_year for FY ${request.replaceYear}, but the uploaded data resolves to FY ${yearsInData[0]}.`,
+        },
+      ]);
+    }
+  }
+
+  return {
+    rowCount,
+    yearsInData,
+    totalAmount: Math.round(totalAmount * 100) / 100,
+    issues,
+    issueCount,
+    summary: summarizer ? summarizer.finish() : null,
+    existingRows: existingChecker ? await existingChecker.finish() : null,
+    paused: null,
+  };
+}
+
+/**
+ * Compare a summarized dry run with the live data it would change.
+ */
+export async function loadUploadDiff(
+  request: UploadRequest,
+  scan: UploadScanResult
+): Promise<UploadDiff | null> {
+  if (!scan.summary) return null;
+
+  const scopeYears = getDiffScopeYears(
+    request.mode,
+    request.replaceYear,
+    scan.yearsInData
+  );
+
+  const { data, error } = await supabaseAdmin.rpc("get_upload_diff_baseline", {
+    p_table: request.table,
+    p_years: scopeYears,
+  });
+
+  if (error) {
+    console.error("Admin upload: error loading diff baseline", error);
+    throw new Error(`Could not compare with the current data: ${error.message}`);
+  }
+
+  return buildUploadDiff(
+    request.mode,
+    scopeYears,
+    scan.summary,
+    (data ?? []) as DiffBaselineRow[]
+  );
+}
+
+/**
+ * Recompute summaries for all fiscal years touched by an upload.
+ *
+ * This is intentionally strict: if recompute fails we throw, because the UI
+ * would otherwise show stale/incorrect data.
+ */
+export async function recomputeSummaries(
+  table: UploadTable,
+  mode: UploadMode,
+  yearsInData: number[]
+) {
+  if (table === "revenues") return;
+
+  if (yearsInData.length === 0) {
+    throw new Error(
+      "Upload succeeded, but no fiscal years were detected after normalization. Cannot recompute summaries."
+    );
+  }
+
+  let years = yearsInData;
+
+  // For replace_table, budgets/actuals rollups must be recomputed for ALL years present in either table.
+  if (mode === "replace_table" && (table === "budgets" || table === "actuals")) {
+    const otherTable = table === "budgets" ? "actuals" : "budgets";
+    const { data, error } = await supabaseAdmin
+      .from(otherTable)
+      .select("fiscal_year");
+    if (error) {
+      console.warn(
+        `Non-fatal: could not fetch fiscal years from ${otherTable} while recomputing budget/actuals summaries: ${error.message}`
+      );
+    } else {
+      const otherYears = ((data ?? []) as { fiscal_year?: unknown }[])
+        .map((r) => Number(r?.fiscal_year))
+        .filter((y) => Number.isFinite(y));
+      years = Array.from(new Set([...yearsInData, ...otherYears]));
+    }
+  }
+
+  const rpcName =
+    table === "transactions"
+      ? "recompute_transaction_summaries_for_year"
+      : "recompute_budget_actuals_summaries_for_year";
+
+  for (const year of years.slice().sort((a, b) => b - a)) {
+    const { error } = await supabaseAdmin.rpc(rpcName, { p_year: year });
+
+    if (error) {
+      console.error(`Failed running ${rpcName}`, { year, error });
+      throw new Error(
+        `Uploaded data successfully, but failed to recompute summaries for fiscal year ${year}.`
+      );
+    }
+  }
+}
+
+/**
+ * Refresh rollups for affected fiscal years so the citizen portal updates
+ * immediately. Non-fatal: the recompute RPCs already guarantee correctness.
+ */
+export async function refreshRollups(table: UploadTable, years: number[]) {
+  const rpcName =
+    table === "transactions"
+      ? "refresh_transaction_rollups_for_year"
+      : table === "budgets" || table === "actuals"
+      ? "refresh_budget_actuals_rollup_for_year"
+      : null;
+
+  if (!rpcName) return;
+
+  for (const fy of years) {
+    const { error } = await supabaseAdmin.rpc(rpcName, { _fy: fy });
+    if (error) {
+      console.warn(
+        `Non-fatal: Failed to refresh rollups for FY${fy}: ${error.message}`
+      );
+    }
+  }
+}
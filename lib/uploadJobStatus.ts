@@ -0,0 +1,111 @@
+// lib/uploadJobStatus.ts
+//
+// Upload job row shape and status helpers shared by the uploader, the upload
+// history page and the server-side job runner.
+
+import type { ColumnMapping } from "@/lib/columnMapping";
+import type { FileFormat } from "@/lib/fileFormats";
+import type { DuplicatePolicy, ValidationIssue } from "@/lib/uploadValidation";
+
+export type UploadJobStatus =
+  | "queued"
+  | "validating"
+  | "inserting"
+  | "refreshing_rollups"
+  | "done"
+  | "failed";
+
+export type UploadJobRow = {
+  id: number;
+  created_at: string;
+  updated_at: string;
+  table_name: string;
+  mode: string;
+  replace_year: number | null;
+  filename: string | null;
+  storage_path: string;
+  column_mapping: ColumnMapping | null;
+  file_format: FileFormat | null; // null = comma-delimited CSV
+  duplicate_policy: DuplicatePolicy | null; // null = insert
+  status: UploadJobStatus;
+  total_rows: number | null;
+  rows_inserted: number;
+  rows_skipped: number; // duplicates left out of an append
+  chunk_size: number;
+  last_committed_chunk: number;
+  years_in_data: number[] | null;
+  error_message: string | null;
+  attempts: number;
+  locked_until: string | null; // a runner holds the job until this time
+  admin_identifier: string | null;
+  finished_at: string | null;
+  total_amount: number | null;
+  staged_columns: string[] | null;
+  swapped_at: string | null; // replace uploads: when staged rows went live
+  snapshot_discarded_at: string | null; // replaced rows no longer kept for rollback
+  scan_checkpoint: UploadScanCheckpoint | null; // validation paused at the time budget
+};
+
+/**
+ * Progress of a validation scan that ran out of time, kept on the job so
+ * the next run continues after `rows_scanned` instead of starting over.
+ */
+export type UploadScanCheckpoint = {
+  rows_scanned: number;
+  issue_count: number;
+  issues: ValidationIssue[]; // the first ones, as reported
+  years_in_data: number[];
+  total_amount: number;
+};
+
+export const UPLOAD_JOB_STATUS_LABELS: Record<UploadJobStatus, string> = {
+  queued: "Queued",
+  validating: "Validating",
+  inserting: "Inserting rows",
+  refreshing_rollups: "Refreshing summaries",
+  done: "Done",
+  failed: "Failed",
+};
+
+export function isJobFinished(job: Pick<UploadJobRow, "status">): boolean {
+  return job.status === "done" || job.status === "failed";
+}
+
+/**
+ * True while a runner holds the job's lease.
+ */
+export function isJobRunning(
+  job: Pick<UploadJobRow, "status" | "locked_until">,
+  now: number = Date.now()
+): boolean {
+  if (isJobFinished(job) || !job.locked_until) return false;
+  const until = new Date(job.locked_until).getTime();
+  return Number.isFinite(until) && until > now;
+}
+
+/**
+ * A job can be resumed when it failed, or when it is unfinished and no runner
+ * holds it (it paused at its time budget, or its runner was cut off).
+ */
+export function isJobResumable(
+  job: Pick<UploadJobRow, "status" | "locked_until" | "attempts">,
+  now: number = Date.now()
+): boolean {
+  if (job.status === "failed") return true;
+  if (job.status === "done") return false;
+  return job.attempts > 0 && !isJobRunning(job, now);
+}
+
+/**
+ * Percent of rows committed (inserted or skipped as duplicates), or null
+ * before validation has counted them.
+ */
+export function getJobProgressPercent(
+  job: Pick<UploadJobRow, "status" | "total_rows" | "rows_inserted"> &
+    Partial<Pick<UploadJobRow, "rows_skipped">>
+): number | null {
+  if (job.status === "done") return 100;
+  if (!job.total_rows) return null;
+  const processed = job.rows_inserted + (job.rows_skipped ?? 0);
+  return Math.min(100, Math.round((processed / job.total_rows) * 100));
+}
@@ -0,0 +1,445 @@
+// lib/uploadJobs.ts
+//
+// Job runner for admin uploads. Each upload is a row in upload_jobs; the
+// runner validates the file, inserts it chunk by chunk through
+// commit_upload_chunk (which advances the job's checkpoint in the same
+// transaction), then recomputes summaries. A run that hits its time budget
+// or fails can be resumed from the last committed chunk, or, while still
+// validating, from the scan checkpoint kept on the job.
+//
+// Replace uploads never touch the live table while loading: their chunks go
+// to a staging table and swap_staged_upload moves them over, refreshing
+// rollups, in a single transaction.
+//
+// SERVER-SIDE ONLY. Uses the service-role client.
+
+import { supabaseAdmin } from "@/lib/supabaseService";
+import { logAdminAction, type AuditActor } from "@/lib/auditLog";
+import {
+  getFiscalConfig,
+  getMasterDataResolver,
+  INSERT_CHUNK_SIZE,
+  readUploadRows,
+  recomputeSummaries,
+  refreshRollups,
+  scanUpload,
+  type UploadRequest,
+} from "@/lib/uploadIngest";
+import type { UploadJobRow, UploadJobStatus } from "@/lib/uploadJobStatus";
+import { DEFAULT_FILE_FORMAT } from "@/lib/fileFormats";
+import {
+  formatValidationIssues,
+  UPLOAD_BUCKET,
+  type UploadMode,
+  type UploadTable,
+} from "@/lib/uploadValidation";
+
+// How long a runner holds a job before another request may take it over.
+const JOB_LEASE_MS = 5 * 60 * 1000;
+
+// Stop scanning or starting new chunks after this long so the run can
+// checkpoint before the route's maxDuration (300s) cuts it off.
+const RUN_TIME_BUDGET_MS = 240 * 1000;
+
+export async function getUploadJobById(
+  jobId: number
+): Promise<UploadJobRow | null> {
+  const { data, error } = await supabaseAdmin
+    .from("upload_jobs")
+    .select("*")
+    .eq("id", jobId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Admin upload: error loading upload job", error);
+    throw new Error("Failed to load upload job");
+  }
+
+  return (data as UploadJobRow | null) ?? null;
+}
+
+export async function createUploadJob(
+  request: UploadRequest,
+  adminIdentifier: string
+): Promise<UploadJobRow> {
+  const { data, error } = await supabaseAdmin
+    .from("upload_jobs")
+    .insert({
+      table_name: request.table,
+      mode: request.mode,
+      replace_year: request.replaceYear,
+      filename: request.filename,
+      storage_path: request.storagePath,
+      column_mapping: request.mapping,
+      file_format: request.fileFormat,
+      duplicate_policy: request.duplicatePolicy,
+      chunk_size: INSERT_CHUNK_SIZE,
+      admin_identifier: adminIdentifier,
+    })
+    .select("*")
+    .single();
+
+  if (error || !data) {
+    console.error("Admin upload: error creating upload job", error);
+    throw new Error("Failed to create upload job");
+  }
+
+  return data as UploadJobRow;
+}
+
+/**
+ * Take the job's lease so only one runner works on it at a time.
+ *
+ * The update only matches while the lease is free and the attempt counter is
+ * unchanged, so two concurrent claims can't both succeed. Returns null when
+ * the job is finished or another runner holds it. A failed job is reset to
+ * queued so it can be retried.
+ */
+export async function claimUploadJob(
+  job: UploadJobRow
+): Promise<UploadJobRow | null> {
+  if (job.status === "done") return null;
+
+  const now = new Date();
+  const { data, error } = await supabaseAdmin
+    .from("upload_jobs")
+    .update({
+      status: job.status === "failed" ? "queued" : job.status,
+      error_message: null,
+      attempts: job.attempts + 1,
+      locked_until: new Date(now.getTime() + JOB_LEASE_MS).toISOString(),
+      updated_at: now.toISOString(),
+    })
+    .eq("id", job.id)
+    .eq("attempts", job.attempts)
+    .neq("status", "done")
+    .or(`locked_until.is.null,locked_until.lt.${now.toISOString()}`)
+    .select("*")
+    .maybeSingle();
+
+  if (error) {
+    console.error("Admin upload: error claiming upload job", error);
+    throw new Error("Failed to start upload job");
+  }
+
+  return (data as UploadJobRow | null) ?? null;
+}
+
+async function updateJob(
+  jobId: number,
+  patch: Partial<Omit<UploadJobRow, "id">>
+) {
+  const { error } = await supabaseAdmin
+    .from("upload_jobs")
+    .update({ ...patch, updated_at: new Date().toISOString() })
+    .eq("id", jobId);
+
+  if (error) {
+    console.error("Admin upload: error updating upload job", { jobId, error });
+    throw new Error("Failed to update upload job status");
+  }
+}
+
+async function setJobStatus(jobId: number, status: UploadJobStatus) {
+  await updateJob(jobId, { status });
+}
+
+function isStagedMode(mode: UploadMode): boolean {
+  return mode === "replace_year" || mode === "replace_table";
+}
+
+/**
+ * Drop staged rows left by an earlier run of this job that never committed
+ * a chunk checkpoint (e.g. a replace upload retried from scratch).
+ */
+async function clearStagedRows(job: UploadJobRow, table: UploadTable) {
+  const { error } = await supabaseAdmin
+    .from(`upload_staging_${table}`)
+    .delete()
+    .eq("upload_job_id", job.id);
+
+  if (error) {
+    console.error("Admin upload: error clearing staged rows", error);
+    throw new Error("Failed to prepare the staging table for this upload");
+  }
+}
+
+/**
+ * Move a fully staged replace upload into the live table. The database
+ * checks the staged row count and amount total against the validated file
+ * and refreshes rollups before committing, so the portal never shows a
+ * half-replaced year.
+ */
+async function swapStagedUpload(job: UploadJobRow) {
+  const { error } = await supabaseAdmin.rpc("swap_staged_upload", {
+    p_job_id: job.id,
+  });
+
+  if (error) {
+    console.error("Admin upload: staging swap error", error);
+    throw new Error(
+      `Failed to publish the uploaded rows; the existing data was left unchanged. ${error.message}`
+    );
+  }
+}
+
+function toUploadRequest(job: UploadJobRow): UploadRequest {
+  return {
+    table: job.table_name as UploadTable,
+    mode: job.mode as UploadMode,
+    replaceYear: job.replace_year,
+    storagePath: job.storage_path,
+    filename: job.filename,
+    mapping: job.column_mapping,
+    fileFormat: job.file_format ?? DEFAULT_FILE_FORMAT,
+    duplicatePolicy: job.duplicate_policy ?? "insert",
+  };
+}
+
+/**
+ * Insert the remaining chunks, starting after the job's last committed chunk.
+ * Returns false if the time budget ran out before every row was committed.
+ */
+async function insertRemainingChunks(
+  job: UploadJobRow,
+  request: UploadRequest,
+  deadline: number
+): Promise<boolean> {
+  const fiscalConfig = await getFiscalConfig();
+  const resolveNames = await getMasterDataResolver();
+  const skipRows = (job.last_committed_chunk + 1) * job.chunk_size;
+
+  let chunkIndex = job.last_committed_chunk + 1;
+  let chunk: Record<string, unknown>[] = [];
+  let rowIndex = 0;
+
+  const commitChunk = async () => {
+    const columns = Array.from(new Set(chunk.flatMap((r) => Object.keys(r))));
+    const { error } = await supabaseAdmin.rpc("commit_upload_chunk", {
+      p_job_id: job.id,
+      p_chunk_index: chunkIndex,
+      p_columns: columns,
+      p_rows: chunk,
+    });
+
+    if (error) {
+      console.error(`Admin upload: chunk ${chunkIndex} insert error`, error);
+      throw new Error(
+        `Failed to insert rows ${(chunkIndex * job.chunk_size + 1).toLocaleString()}–${(
+          chunkIndex * job.chunk_size +
+          chunk.length
+        ).toLocaleString()}: ${error.message}`
+      );
+    }
+
+    chunkIndex += 1;
+    chunk = [];
+  };
+
+  for await (const row of readUploadRows(
+    request,
+    fiscalConfig,
+    resolveNames,
+    () => {}
+  )) {
+    rowIndex += 1;
+    if (rowIndex <= skipRows) continue;
+
+    if (row.issues.length > 0) {
+      // The file changed since it was validated; never load a bad row.
+      throw new Error(
+        `Row ${row.rowNum} no longer passes validation. Please upload the file again.`
+      );
+    }
+
+    chunk.push(row.record);
+    if (chunk.length >= job.chunk_size) {
+      await commitChunk();
+      if (Date.now() > deadline) return false;
+    }
+  }
+
+  if (chunk.length > 0) await commitChunk();
+  return true;
+}
+
+/**
+ * Record the finished upload in data_uploads and, for appends, bring
+ * summaries up to date (the staging swap already refreshed them for replace
+ * uploads). Safe to repeat when a job is retried during this step.
+ */
+async function finishUploadJob(job: UploadJobRow, request: UploadRequest) {
+  const yearsInData = job.years_in_data ?? [];
+
+  const { data: existing } = await supabaseAdmin
+    .from("data_uploads")
+    .select("id")
+    .eq("job_id", job.id)
+    .limit(1);
+
+  if (!existing || existing.length === 0) {
+    const { error: uploadLogError } = await supabaseAdmin
+      .from("data_uploads")
+      .insert({
+        table_name: request.table,
+        mode: request.mode,
+        row_count: (job.total_rows ?? 0) - job.rows_skipped,
+        fiscal_year:
+          request.mode === "replace_year"
+            ? request.replaceYear
+            : yearsInData.length === 1
+            ? yearsInData[0]
+            : null,
+        filename: request.filename,
+        admin_identifier: job.admin_identifier,
+        job_id: job.id,
+      });
+
+    if (uploadLogError) {
+      console.error("Admin upload audit log error:", uploadLogError);
+      // non-fatal
+    }
+  }
+
+  if (!isStagedMode(request.mode)) {
+    await recomputeSummaries(request.table, request.mode, yearsInData);
+    await refreshRollups(request.table, yearsInData);
+  }
+
+  // The raw file is no longer needed once its rows are live.
+  const { error: removeError } = await supabaseAdmin.storage
+    .from(UPLOAD_BUCKET)
+    .remove([request.storagePath]);
+  if (removeError) {
+    console.warn(
+      `Non-fatal: could not remove uploaded file ${request.storagePath}: ${removeError.message}`
+    );
+  }
+}
+
+/**
+ * Run a claimed job as far as its time budget allows.
+ *
+ * Errors are recorded on the job (status "failed") rather than thrown, since
+ * this runs after the response has been sent.
+ */
+export async function runUploadJob(
+  claimed: UploadJobRow,
+  actor: AuditActor
+): Promise<void> {
+  const deadline = Date.now() + RUN_TIME_BUDGET_MS;
+  const request = toUploadRequest(claimed);
+  let job = claimed;
+
+  try {
+    // 1) Validate the whole file once, before anything is deleted or written.
+    // A long scan is checkpointed on the job and continued by the next run.
+    if (job.total_rows == null) {
+      await setJobStatus(job.id, "validating");
+
+      const scan = await scanUpload(request, () => {}, {
+        deadline,
+        resumeFrom: job.scan_checkpoint,
+        onCheckpoint: (checkpoint) =>
+          updateJob(job.id, { scan_checkpoint: checkpoint }),
+      });
+      if (scan.paused) {
+        // Out of time: save how far the scan got and release the lease.
+        await updateJob(job.id, {
+          status: "queued",
+          locked_until: null,
+          scan_checkpoint: scan.paused,
+        });
+        return;
+      }
+      if (scan.issueCount > 0) {
+        throw new Error(
+          `CSV validation failed. Fix these issues and try again:\n\n${formatValidationIssues(
+            scan.issues,
+            scan.issueCount
+          )}`
+        );
+      }
+
+      const counted = {
+        total_rows: scan.rowCount,
+        years_in_data: scan.yearsInData,
+        total_amount: scan.totalAmount,
+        scan_checkpoint: null,
+      };
+      await updateJob(job.id, counted);
+      job = { ...job, ...counted };
+    }
+
+    // 2) Insert whatever hasn't been committed yet
+    const committedRows = (job.last_committed_chunk + 1) * job.chunk_size;
+    if (committedRows < (job.total_rows ?? 0)) {
+      await setJobStatus(job.id, "inserting");
+
+      if (job.last_committed_chunk < 0 && isStagedMode(request.mode)) {
+        await clearStagedRows(job, request.table);
+      }
+
+      const finished = await insertRemainingChunks(job, request, deadline);
+      if (!finished) {
+        // Out of time: release the lease so the next request resumes it.
+        await updateJob(job.id, { status: "queued", locked_until: null });
+        return;
+      }
+    }
+
+    // 3) Publish staged rows (replace) or recompute summaries (append)
+    await setJobStatus(job.id, "refreshing_rollups");
+    // Pick up the insert counters commit_upload_chunk kept on the job
+    job = (await getUploadJobById(job.id)) ?? job;
+    if (isStagedMode(request.mode) && !job.swapped_at) {
+      await swapStagedUpload(job);
+    }
+    await finishUploadJob(job, request);
+
+    await updateJob(job.id, {
+      status: "done",
+      locked_until: null,
+      finished_at: new Date().toISOString(),
+    });
+
+    await logAdminAction(actor, {
+      action: "UPLOAD",
+      targetTable: request.table,
+      fiscalYear: request.replaceYear,
+      mode: request.mode,
+      filename: request.filename,
+      rowsAffected: (job.total_rows ?? 0) - job.rows_skipped,
+      meta: {
+        job_id: job.id,
+        attempts: job.attempts,
+        rows_skipped: job.rows_skipped,
+      },
+    });
+  } catch (err: unknown) {
+    const message =
+      err instanceof Error ? err.message : "Unexpected server error";
+    console.error(`Admin upload job ${job.id} failed:`, err);
+
+    try {
+      await updateJob(job.id, {
+        status: "failed",
+        error_message: message,
+        locked_until: null,
+      });
+    } catch {
+      // Already logged; the lease will expire on its own.
+    }
+
+    await logAdminAction(actor, {
+      action: "UPLOAD",
+      targetTable: request.table,
+      fiscalYear: request.replaceYear,
+      mode: request.mode,
+      filename: request.filename,
+      status: "FAILED",
+      errorMessage: message,
+      meta: { job_id: job.id, attempts: job.attempts },
+    });
+  }
+}
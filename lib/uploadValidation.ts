@@ -0,0 +1,478 @@
+// lib/uploadValidation.ts
+//
+// Column schemas, per-row validation and progress events for admin data
+// uploads. Shared by the uploader UI (templates, preview checks) and the
+// server-side ingest pipeline, which validates every row as the file streams in.
+
+import type { ExistingRowsReport, UploadDiff } from "@/lib/uploadDiff";
+
+export type UploadTable = "budgets" | "actuals" | "transactions" | "revenues";
+
+export type UploadMode = "append" | "replace_year" | "replace_table";
+
+// What a transactions append does with rows already in the portal
+export type DuplicatePolicy = "skip" | "insert";
+
+export const UPLOAD_TABLES: UploadTable[] = [
+  "budgets",
+  "actuals",
+  "transactions",
+  "revenues",
+];
+
+export type TableSchema = { required: string[]; numeric: string[] };
+
+export const TABLE_SCHEMAS: Record<UploadTable, TableSchema> = {
+  budgets: {
+    required: [
+      "fiscal_year",
+      "fund_code",
+      "fund_name",
+      "department_code",
+      "department_name",
+      "category",
+      "account_code",
+      "account_name",
+      "amount",
+    ],
+    numeric: ["fiscal_year", "amount"],
+  },
+  actuals: {
+    required: [
+      "fiscal_year",
+      "period",
+      "fund_code",
+      "fund_name",
+      "department_code",
+      "department_name",
+      "category",
+      "account_code",
+      "account_name",
+      "amount",
+    ],
+    numeric: ["fiscal_year", "amount"],
+  },
+  transactions: {
+    required: [
+      "date",
+      "fiscal_year",
+      "fund_code",
+      "fund_name",
+      "department_code",
+      "department_name",
+      "account_code",
+      "account_name",
+      "vendor",
+      "description",
+      "amount",
+    ],
+    numeric: ["fiscal_year", "amount"],
+  },
+  revenues: {
+    required: [
+      "fiscal_year",
+      "period",
+      "fund_code",
+      "fund_name",
+      "department_code",
+      "department_name",
+      "category",
+      "account_code",
+      "account_name",
+      "amount",
+    ],
+    numeric: ["fiscal_year", "amount"],
+  },
+};
+
+export type ValidationIssue = {
+  row: number | null;
+  field: string | null;
+  message: string;
+};
+
+// Private Storage bucket that holds raw upload files until they are ingested.
+export const UPLOAD_BUCKET = "data-uploads";
+
+/**
+ * Newline-delimited JSON events streamed back by a POST /api/admin/upload
+ * dry run.
+ */
+export type UploadProgressEvent =
+  | {
+      type: "progress";
+      phase: "validating";
+      rowsProcessed: number;
+      totalRows: number | null;
+    }
+  | {
+      type: "validated";
+      rowCount: number;
+      yearsInData: number[];
+      issues: ValidationIssue[];
+      issueCount: number;
+      diff: UploadDiff | null; // null when the file has issues
+      existingRows: ExistingRowsReport | null; // transactions appends only
+    }
+  | { type: "error"; error: string };
+
+export function isUploadTable(value: unknown): value is UploadTable {
+  return (
+    typeof value === "string" &&
+    (UPLOAD_TABLES as string[]).includes(value)
+  );
+}
+
+export function isUploadMode(value: unknown): value is UploadMode {
+  return (
+    value === "append" || value === "replace_year" || value === "replace_table"
+  );
+}
+
+export function isDuplicatePolicy(value: unknown): value is DuplicatePolicy {
+  return value === "skip" || value === "insert";
+}
+
+const BAD_DEPT_VALUES = new Set(["", "na", "n/a", "null", "none"]);
+
+function isReasonableYear(n: unknown): boolean {
+  if (typeof n !== "number" || !Number.isInteger(n)) return false;
+  return n >= 2000 && n <= 2100;
+}
+
+// Strict ISO date: YYYY-MM-DD, no auto-correction
+function isValidISODate(value: string): boolean {
+  const trimmed = value.trim();
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) return false;
+
+  const [yearStr, monthStr, dayStr] = trimmed.split("-");
+  const year = Number(yearStr);
+  const month = Number(monthStr);
+  const day = Number(dayStr);
+
+  if (
+    !Number.isInteger(year) ||
+    !Number.isInteger(month) ||
+    !Number.isInteger(day)
+  ) {
+    return false;
+  }
+  if (month < 1 || month > 12) return false;
+  if (day < 1 || day > 31) return false;
+
+  const dt = new Date(trimmed + "T00:00:00Z");
+  if (Number.isNaN(dt.getTime())) return false;
+
+  // Ensure it didn't auto-correct (e.g. 2024-02-31 -> 2024-03-02)
+  const iso = dt.toISOString().slice(0, 10);
+  return iso === trimmed;
+}
+
+/**
+ * Accepts either MM/DD/YYYY or YYYY-MM-DD and returns a normalized
+ * YYYY-MM-DD string, or null if invalid.
+ */
+export function parseAndNormalizeTransactionDate(
+  value: unknown
+): string | null {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  // Already ISO: YYYY-MM-DD
+  if (/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) {
+    return isValidISODate(trimmed) ? trimmed : null;
+  }
+
+  // MM/DD/YYYY (1 or 2 digit month/day)
+  if (/^\d{1,2}\/\d{1,2}\/\d{4}$/.test(trimmed)) {
+    const [mStr, dStr, yStr] = trimmed.split("/");
+    const month = Number(mStr);
+    const day = Number(dStr);
+    const year = Number(yStr);
+    if (
+      !Number.isInteger(year) ||
+      !Number.isInteger(month) ||
+      !Number.isInteger(day)
+    ) {
+      return null;
+    }
+    if (month < 1 || month > 12) return null;
+    if (day < 1 || day > 31) return null;
+
+    const dt = new Date(year, month - 1, day);
+    if (Number.isNaN(dt.getTime())) return null;
+    // ensure no auto-correct
+    if (
+      dt.getFullYear() !== year ||
+      dt.getMonth() !== month - 1 ||
+      dt.getDate() !== day
+    ) {
+      return null;
+    }
+    const mm = String(month).padStart(2, "0");
+    const dd = String(day).padStart(2, "0");
+    return `${year}-${mm}-${dd}`;
+  }
+
+  return null;
+}
+
+// period: accept YYYY-M or YYYY-MM (we normalize to YYYY-MM before upload)
+function isValidPeriod(value: unknown): boolean {
+  if (typeof value !== "string") return false;
+  const trimmed = value.trim();
+
+  const m = /^(\d{4})[-/](\d{1,2})$/.exec(trimmed);
+  if (!m) return false;
+
+  const year = Number(m[1]);
+  const period = Number(m[2]);
+
+  if (!Number.isInteger(year) || !Number.isInteger(period)) return false;
+  if (!isReasonableYear(year)) return false;
+  if (period < 1 || period > 12) return false;
+
+  return true;
+}
+
+function isBadDeptName(value: unknown): boolean {
+  if (typeof value !== "string") return true;
+  const normalized = value.trim().toLowerCase();
+  if (!normalized) return true;
+  return BAD_DEPT_VALUES.has(normalized);
+}
+
+function parseNumber(value: string): number | null {
+  const cleaned = value.replace(/[$,]/g, "").trim();
+  if (!cleaned) return null;
+  const n = Number(cleaned);
+  return Number.isFinite(n) ? n : null;
+}
+
+function normalizeHeader(header: string): string {
+  return header.trim();
+}
+
+/**
+ * Header checks: duplicates, missing required columns, and extra columns
+ * (which are ignored during upload but still reported).
+ */
+export function validateUploadHeaders(
+  table: UploadTable,
+  headers: string[]
+): ValidationIssue[] {
+  const schema = TABLE_SCHEMAS[table];
+  const issues: ValidationIssue[] = [];
+
+  const headerCounts = new Map<string, number>();
+  headers.forEach((h) => {
+    const key = normalizeHeader(h);
+    headerCounts.set(key, (headerCounts.get(key) ?? 0) + 1);
+  });
+
+  for (const [h, count] of headerCounts.entries()) {
+    if (count > 1) {
+      issues.push({
+        row: null,
+        field: h,
+        message: `Duplicate column header "${h}" appears ${count} times. Column names must be unique.`,
+      });
+    }
+  }
+
+  const normalizedHeaders = headers.map(normalizeHeader);
+  const missingRequired = schema.required.filter(
+    (col) => !normalizedHeaders.includes(col)
+  );
+  if (missingRequired.length > 0) {
+    issues.push({
+      row: null,
+      field: null,
+      message: `Missing required column(s): ${missingRequired.join(
+        ", "
+      )}. Please add these columns to your CSV.`,
+    });
+  }
+
+  const allowedCols = new Set<string>([...schema.required, ...schema.numeric]);
+
+  normalizedHeaders.forEach((normalized) => {
+    if (!normalized) return; // allow blank trailing columns
+    if (!allowedCols.has(normalized)) {
+      issues.push({
+        row: null,
+        field: normalized,
+        message: `Extra column "${normalized}" will be ignored during upload.`,
+      });
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Validate one data row and build the record to insert.
+ *
+ * @param rowNum - 1-based line number in the source file (header is line 1)
+ * @returns the record (known columns only, numbers parsed, dates/periods
+ *          normalized), its fiscal_year if valid, and any issues found
+ */
+export function buildUploadRecord(
+  table: UploadTable,
+  headers: string[],
+  row: string[],
+  rowNum: number
+): {
+  record: Record<string, unknown>;
+  fiscalYear: number | null;
+  issues: ValidationIssue[];
+} {
+  const schema = TABLE_SCHEMAS[table];
+  const allowedCols = new Set<string>([...schema.required, ...schema.numeric]);
+  const issues: ValidationIssue[] = [];
+  const rec: Record<string, unknown> = {};
+
+  // Only copy columns that map to known fields; extras are ignored.
+  headers.forEach((rawHeader, colIndex) => {
+    const header = normalizeHeader(rawHeader);
+    if (!allowedCols.has(header)) {
+      return; // skip unknown columns so we don't send them to Supabase
+    }
+    rec[header] = row[colIndex] ?? "";
+  });
+
+  // Numeric conversions
+  for (const numericCol of schema.numeric) {
+    const raw = rec[numericCol];
+    if (raw === undefined || raw === null || raw === "") {
+      issues.push({
+        row: rowNum,
+        field: numericCol,
+        message: `Numeric column "${numericCol}" is empty.`,
+      });
+      continue;
+    }
+    const parsed = parseNumber(String(raw));
+    if (parsed === null) {
+      issues.push({
+        row: rowNum,
+        field: numericCol,
+        message: `Value "${raw}" in column "${numericCol}" is not a valid number.`,
+      });
+    } else {
+      rec[numericCol] = parsed;
+    }
+  }
+
+  // Normalize period to YYYY-MM (accept YYYY-M too) for actuals and revenues
+  if (table === "actuals" || table === "revenues") {
+    if (typeof rec["period"] === "string") {
+      const m = /^(\d{4})[-/](\d{1,2})$/.exec(rec["period"].trim());
+      if (m) {
+        const yyyy = m[1];
+        const mm = String(Number(m[2])).padStart(2, "0");
+        rec["period"] = `${yyyy}-${mm}`;
+      }
+    }
+  }
+
+  // Type-specific validations
+  const fy = rec["fiscal_year"];
+  let fiscalYear: number | null = null;
+
+  if (table === "transactions") {
+    // date: accept MM/DD/YYYY or YYYY-MM-DD, normalize to YYYY-MM-DD
+    const normalizedDate = parseAndNormalizeTransactionDate(rec["date"]);
+    if (!normalizedDate) {
+      issues.push({
+        row: rowNum,
+        field: "date",
+        message:
+          'Invalid date format. Expected "MM/DD/YYYY" (e.g. "7/1/2024") or "YYYY-MM-DD".',
+      });
+    } else {
+      rec["date"] = normalizedDate;
+    }
+
+    if (isBadDeptName(rec["description"])) {
+      issues.push({
+        row: rowNum,
+        field: "description",
+        message: "description is required and cannot be blank or 'NA'.",
+      });
+    }
+  } else if (isBadDeptName(rec["department_name"])) {
+    issues.push({
+      row: rowNum,
+      field: "department_name",
+      message: "department_name is required and cannot be blank or 'NA'.",
+    });
+  }
+
+  // fiscal_year sanity
+  if (!isReasonableYear(fy)) {
+    issues.push({
+      row: rowNum,
+      field: "fiscal_year",
+      message: `Invalid fiscal_year "${fy}". Expected a 4-digit year between 2000 and 2100.`,
+    });
+  } else {
+    fiscalYear = fy as number;
+  }
+
+  // amount non-negative
+  if (rec["amount"] !== undefined) {
+    const amt = rec["amount"];
+    if (typeof amt !== "number" || !Number.isFinite(amt)) {
+      issues.push({
+        row: rowNum,
+        field: "amount",
+        message: `Invalid amount "${amt}".`,
+      });
+    } else if (amt < 0) {
+      issues.push({
+        row: rowNum,
+        field: "amount",
+        message: `Negative amount "${amt}" is not allowed for ${table}.`,
+      });
+    }
+  }
+
+  // period format for actuals and revenues
+  if (table === "actuals" || table === "revenues") {
+    if (!isValidPeriod(rec["period"])) {
+      issues.push({
+        row: rowNum,
+        field: "period",
+        message:
+          'Invalid period. Use a calendar month "YYYY-MM" (e.g. "2027-08"). Fiscal year is derived from period using the FY start (July-start example: 2027-08 belongs to FY2028). We also accept "YYYY-M" and normalize it.',
+      });
+    }
+  }
+
+  return { record: rec, fiscalYear, issues };
+}
+
+/**
+ * Format validation issues for display, showing the first few and a count
+ * of the rest.
+ */
+export function formatValidationIssues(
+  issues: ValidationIssue[],
+  totalCount: number = issues.length,
+  sampleSize = 8
+): string {
+  const sample = issues.slice(0, sampleSize);
+  const formatted = sample.map((issue) => {
+    const rowPart = issue.row !== null ? `Row ${issue.row}: ` : "";
+    const fieldPart = issue.field ? `[${issue.field}] ` : "";
+    return `${rowPart}${fieldPart}${issue.message}`;
+  });
+  const extra =
+    totalCount > sample.length
+      ? `\n...and ${totalCount - sample.length} more issue(s).`
+      : "";
+
+  return `${formatted.join("\n")}${extra}`;
+}
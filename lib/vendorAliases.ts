@@ -0,0 +1,206 @@
+// lib/vendorAliases.ts
+//
+// Vendor canonicalization (vendor_aliases table). Different spellings of
+// one vendor ("ACME INC", "Acme, Inc.") are reported under a canonical
+// name. The rollup refresh does this in SQL (canonical_vendor); these
+// helpers apply it to raw transactions for vendor pages, search and
+// exports, and group merge suggestions for the admin review queue.
+
+export type VendorAlias = {
+  id: number;
+  created_at: string;
+  alias: string; // vendor as it appears in transactions
+  canonical_vendor: string; // name it is reported under
+  created_by: string | null;
+};
+
+// Row returned by the suggest_vendor_merges RPC
+export type VendorMergeSuggestion = {
+  vendor_a: string;
+  vendor_b: string;
+  score: number; // 1 = same name ignoring case, punctuation and suffixes
+  a_txn_count: number;
+  b_txn_count: number;
+  a_total: number;
+  b_total: number;
+};
+
+export type VendorClusterMember = {
+  name: string;
+  txnCount: number;
+  total: number;
+};
+
+export type VendorCluster = {
+  members: VendorClusterMember[]; // most transactions first
+  canonical: string; // suggested name: the most-used spelling
+  score: number; // best pair score in the cluster
+};
+
+const COMPANY_SUFFIXES =
+  /\b(the|inc|incorporated|llc|ltd|limited|co|corp|corporation|company)\b/g;
+
+/**
+ * Vendor name with case, punctuation and company suffixes ignored. Same
+ * rules as vendor_match_key in SQL.
+ */
+export function vendorMatchKey(name: string): string {
+  return (name ?? "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[.,']/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .replace(COMPANY_SUFFIXES, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function aliasKey(name: string): string {
+  return (name ?? "").trim().toLowerCase();
+}
+
+/**
+ * Maps a vendor as loaded to its canonical name (trimmed, "Unspecified"
+ * when blank), like canonical_vendor in SQL.
+ */
+export function createVendorCanonicalizer(
+  aliases: VendorAlias[]
+): (vendor: string | null | undefined) => string {
+  const byAlias = new Map(
+    aliases.map((a) => [aliasKey(a.alias), a.canonical_vendor])
+  );
+  return (vendor) => {
+    const trimmed = (vendor ?? "").trim();
+    if (!trimmed) return "Unspecified";
+    return byAlias.get(trimmed.toLowerCase()) ?? trimmed;
+  };
+}
+
+/**
+ * Every spelling reported under a canonical vendor, the name itself first.
+ */
+export function getVendorSpellings(
+  aliases: VendorAlias[],
+  canonical: string
+): string[] {
+  const key = aliasKey(canonical);
+  const names = [canonical];
+  for (const a of aliases) {
+    if (aliasKey(a.canonical_vendor) === key) names.push(a.alias);
+  }
+  return names;
+}
+
+/**
+ * Canonical vendors with a spelling that contains the search text.
+ */
+export function findAliasedVendors(
+  aliases: VendorAlias[],
+  query: string
+): string[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+
+  const names = new Set<string>();
+  for (const a of aliases) {
+    if (a.alias.toLowerCase().includes(needle)) names.add(a.canonical_vendor);
+  }
+  return Array.from(names).sort();
+}
+
+/**
+ * Vendor filter widened to every spelling of the selected vendors.
+ */
+export function expandVendorFilter(
+  aliases: VendorAlias[],
+  vendors: string[]
+): string[] {
+  const names = new Set<string>();
+  for (const v of vendors) {
+    for (const name of getVendorSpellings(aliases, v)) names.add(name);
+  }
+  return Array.from(names);
+}
+
+/**
+ * Groups suggested pairs into clusters of spellings that are all linked,
+ * so "ACME INC", "Acme Inc." and "Acme, Inc" are reviewed as one merge.
+ */
+export function clusterVendorSuggestions(
+  suggestions: VendorMergeSuggestion[]
+): VendorCluster[] {
+  const parent = new Map<string, string>();
+  const members = new Map<string, VendorClusterMember>();
+
+  function find(name: string): string {
+    let root = name;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(name, root);
+    return root;
+  }
+
+  function add(name: string, txnCount: number, total: number) {
+    if (!parent.has(name)) {
+      parent.set(name, name);
+      members.set(name, {
+        name,
+        txnCount: Number(txnCount || 0),
+        total: Number(total || 0),
+      });
+    }
+  }
+
+  for (const s of suggestions) {
+    add(s.vendor_a, s.a_txn_count, s.a_total);
+    add(s.vendor_b, s.b_txn_count, s.b_total);
+    const a = find(s.vendor_a);
+    const b = find(s.vendor_b);
+    if (a !== b) parent.set(b, a);
+  }
+
+  const clusters = new Map<string, VendorCluster>();
+  for (const s of suggestions) {
+    const root = find(s.vendor_a);
+    const cluster = clusters.get(root) ?? { members: [], canonical: "", score: 0 };
+    cluster.score = Math.max(cluster.score, Number(s.score || 0));
+    clusters.set(root, cluster);
+  }
+
+  for (const [name, member] of members) {
+    clusters.get(find(name))!.members.push(member);
+  }
+
+  return Array.from(clusters.values())
+    .map((cluster) => {
+      const sorted = cluster.members.sort(
+        (a, b) =>
+          b.txnCount - a.txnCount ||
+          b.total - a.total ||
+          a.name.localeCompare(b.name)
+      );
+      return { ...cluster, members: sorted, canonical: sorted[0].name };
+    })
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        b.members.reduce((sum, m) => sum + m.txnCount, 0) -
+          a.members.reduce((sum, m) => sum + m.txnCount, 0)
+    );
+}
+
+/**
+ * Every pair in a rejected cluster, as vendor_merge_rejections stores them
+ * (lowercased and trimmed).
+ */
+export function rejectionPairs(
+  names: string[]
+): { vendor_a: string; vendor_b: string }[] {
+  const keys = Array.from(new Set(names.map(aliasKey).filter(Boolean))).sort();
+  const pairs: { vendor_a: string; vendor_b: string }[] = [];
+  for (let i = 0; i < keys.length; i++) {
+    for (let j = i + 1; j < keys.length; j++) {
+      pairs.push({ vendor_a: keys[i], vendor_b: keys[j] });
+    }
+  }
+  return pairs;
+}
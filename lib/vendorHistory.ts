@@ -0,0 +1,91 @@
+// lib/vendorHistory.ts
+//
+// Aggregations for the vendor detail page: a monthly payment timeline and
+// the departments/accounts that paid a vendor. Yearly totals come from the
+// transaction_year_vendor rollup; these work on the vendor's raw
+// transactions.
+
+import type { TransactionRow } from "./schema";
+
+export type VendorMonth = {
+  month: string; // "YYYY-MM"
+  total: number;
+  count: number;
+};
+
+export type VendorPayer = {
+  name: string;
+  total: number;
+  count: number;
+  percent: number; // share of the vendor's total, 0–100
+};
+
+function monthKey(date: string): string | null {
+  const match = /^(\d{4})-(\d{2})/.exec(date ?? "");
+  return match ? `${match[1]}-${match[2]}` : null;
+}
+
+function nextMonth(key: string): string {
+  const [year, month] = key.split("-").map(Number);
+  return month === 12
+    ? `${year + 1}-01`
+    : `${year}-${String(month + 1).padStart(2, "0")}`;
+}
+
+/**
+ * Payments per calendar month from the first to the last payment, with
+ * empty months included so gaps show on the chart.
+ */
+export function buildMonthlyTimeline(
+  rows: Pick<TransactionRow, "date" | "amount">[]
+): VendorMonth[] {
+  const byMonth = new Map<string, VendorMonth>();
+  for (const row of rows) {
+    const key = monthKey(row.date);
+    if (!key) continue;
+    const entry = byMonth.get(key) ?? { month: key, total: 0, count: 0 };
+    entry.total += Number(row.amount || 0);
+    entry.count += 1;
+    byMonth.set(key, entry);
+  }
+
+  const keys = Array.from(byMonth.keys()).sort();
+  if (keys.length === 0) return [];
+
+  const timeline: VendorMonth[] = [];
+  const last = keys[keys.length - 1];
+  for (let key = keys[0]; key <= last; key = nextMonth(key)) {
+    timeline.push(byMonth.get(key) ?? { month: key, total: 0, count: 0 });
+  }
+  return timeline;
+}
+
+/**
+ * Totals by a transaction field (department, account), largest first.
+ * Blank values are grouped as "Unspecified".
+ */
+export function summarizeVendorPayers(
+  rows: TransactionRow[],
+  field: "department_name" | "account_name"
+): VendorPayer[] {
+  const byName = new Map<string, { total: number; count: number }>();
+  let grandTotal = 0;
+
+  for (const row of rows) {
+    const raw = row[field];
+    const name = raw && raw.trim().length > 0 ? raw.trim() : "Unspecified";
+    const amount = Number(row.amount || 0);
+    const entry = byName.get(name) ?? { total: 0, count: 0 };
+    entry.total += amount;
+    entry.count += 1;
+    byName.set(name, entry);
+    grandTotal += amount;
+  }
+
+  return Array.from(byName, ([name, { total, count }]) => ({
+    name,
+    total,
+    count,
+    percent: grandTotal === 0 ? 0 : (total / grandTotal) * 100,
+  })).sort((a, b) => b.total - a.total);
+}
@@ -0,0 +1,148 @@
+// lib/yearComparison.ts
+//
+// Side-by-side fiscal years for the budget, departments and revenues pages.
+// `?compare=2023,2025` switches a page from its single-year view to a
+// comparison of the listed years; the years live in the URL so a
+// comparison can be shared.
+
+export const MAX_COMPARE_YEARS = 5;
+
+// Movers listed in each direction
+export const MOVERS_LIMIT = 3;
+
+export type ComparisonRow = {
+  name: string;
+  values: number[]; // one per compared year, oldest first
+  change: number; // last year - first year
+  changePercent: number | null; // null when the first year is zero
+  cagr: number | null; // compound annual growth, in percent
+};
+
+export type YearComparison = {
+  years: number[]; // ascending
+  rows: ComparisonRow[]; // largest absolute change first
+  total: ComparisonRow;
+};
+
+/**
+ * Fiscal years named in `?compare=` (comma-separated or repeated), limited
+ * to years that have data, oldest first. Fewer than two years is not a
+ * comparison, so that returns [].
+ */
+export function parseCompareYears(
+  value: string | string[] | undefined,
+  available: number[]
+): number[] {
+  const raw = Array.isArray(value) ? value.join(",") : value ?? "";
+  const years = new Set<number>();
+  for (const part of raw.split(",")) {
+    const year = Number(part.trim());
+    if (part.trim() !== "" && Number.isInteger(year) && available.includes(year)) {
+      years.add(year);
+    }
+  }
+
+  const sorted = Array.from(years).sort((a, b) => a - b).slice(-MAX_COMPARE_YEARS);
+  return sorted.length >= 2 ? sorted : [];
+}
+
+/**
+ * Compound annual growth rate between two amounts `periods` years apart,
+ * in percent. Growth from zero or across a sign change has no rate.
+ */
+export function compoundAnnualGrowth(
+  first: number,
+  last: number,
+  periods: number
+): number | null {
+  if (!(periods > 0) || !(first > 0) || last < 0) return null;
+  return (Math.pow(last / first, 1 / periods) - 1) * 100;
+}
+
+function comparisonRow(name: string, years: number[], values: number[]): ComparisonRow {
+  const first = values[0] ?? 0;
+  const last = values[values.length - 1] ?? 0;
+  return {
+    name,
+    values,
+    change: last - first,
+    changePercent: first !== 0 ? ((last - first) / Math.abs(first)) * 100 : null,
+    cagr: compoundAnnualGrowth(first, last, years[years.length - 1] - years[0]),
+  };
+}
+
+/**
+ * Sums `amount` by `name` for each compared year. `rowsByYear` holds the
+ * rows for each entry of `years`, in the same order.
+ */
+export function buildYearComparison<T>(
+  years: number[],
+  rowsByYear: T[][],
+  name: (row: T) => string,
+  amount: (row: T) => number
+): YearComparison {
+  const totals = new Map<string, number[]>();
+  rowsByYear.forEach((rows, i) => {
+    for (const row of rows) {
+      const key = name(row);
+      let values = totals.get(key);
+      if (!values) {
+        values = new Array<number>(years.length).fill(0);
+        totals.set(key, values);
+      }
+      values[i] += Number(amount(row) || 0);
+    }
+  });
+
+  const rows = Array.from(totals, ([key, values]) => comparisonRow(key, years, values)).sort(
+    (a, b) => Math.abs(b.change) - Math.abs(a.change) || a.name.localeCompare(b.name)
+  );
+
+  const yearTotals = years.map((_, i) => rows.reduce((sum, r) => sum + r.values[i], 0));
+
+  return { years, rows, total: comparisonRow("Total", years, yearTotals) };
+}
+
+/**
+ * Biggest increases and decreases between the first and last compared
+ * year, by amount.
+ */
+export function largestMovers(
+  rows: ComparisonRow[],
+  limit: number = MOVERS_LIMIT
+): { increases: ComparisonRow[]; decreases: ComparisonRow[] } {
+  return {
+    increases: rows
+      .filter((r) => r.change > 0)
+      .sort((a, b) => b.change - a.change)
+      .slice(0, limit),
+    decreases: rows
+      .filter((r) => r.change < 0)
+      .sort((a, b) => a.change - b.change)
+      .slice(0, limit),
+  };
+}
+
+/**
+ * The `compare` query value for a set of years.
+ */
+export function compareParam(years: number[]): string {
+  return Array.from(new Set(years))
+    .sort((a, b) => a - b)
+    .join(",");
+}
+
+export type ComparisonMeasure = "budget" | "actuals";
+
+export const COMPARISON_MEASURES: { value: ComparisonMeasure; label: string }[] = [
+  { value: "budget", label: "Budget" },
+  { value: "actuals", label: "Actuals" },
+];
+
+export function pickComparisonMeasure(
+  value: string | string[] | undefined,
+  fallback: ComparisonMeasure
+): ComparisonMeasure {
+  const raw = Array.isArray(value) ? value[0] : value;
+  return raw === "budget" || raw === "actuals" ? raw : fallback;
+}
@@ -16,6 +16,7 @@ const PUBLIC_ROUTES = [
   "/transactions",
   "/vendors",
   "/download",
+  "/developers",
 ];
 
 // Routes to skip (static assets, API routes handled separately, admin)
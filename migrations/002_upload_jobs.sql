@@ -0,0 +1,102 @@
+-- migrations/002_upload_jobs.sql
+-- Job-based, resumable admin uploads
+-- Run this in your Supabase SQL editor
+
+-- One row per upload. The job records how far it got (last committed chunk)
+-- so a timed-out or failed upload can be resumed instead of re-run.
+CREATE TABLE IF NOT EXISTS public.upload_jobs (
+  id BIGSERIAL PRIMARY KEY,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  table_name TEXT NOT NULL,
+  mode TEXT NOT NULL,
+  replace_year INTEGER,
+  filename TEXT,
+  storage_path TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'validating', 'inserting', 'refreshing_rollups', 'done', 'failed')),
+  total_rows INTEGER,
+  rows_inserted INTEGER NOT NULL DEFAULT 0,
+  chunk_size INTEGER NOT NULL DEFAULT 5000,
+  last_committed_chunk INTEGER NOT NULL DEFAULT -1,
+  years_in_data INTEGER[],
+  error_message TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  locked_until TIMESTAMPTZ,
+  admin_identifier TEXT,
+  finished_at TIMESTAMPTZ
+);
+
+-- Link finished uploads back to the job that produced them
+ALTER TABLE public.data_uploads
+  ADD COLUMN IF NOT EXISTS job_id BIGINT REFERENCES public.upload_jobs(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS upload_jobs_created_at_idx
+ON public.upload_jobs (created_at DESC);
+
+ALTER TABLE public.upload_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Admins can watch job progress; all writes go through the service role
+CREATE POLICY "Admins can view upload jobs"
+  ON public.upload_jobs FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.id = auth.uid()
+      AND p.role = ANY (ARRAY['admin', 'super_admin'])
+  ));
+
+-- Insert one chunk of rows and advance the job's checkpoint in a single
+-- transaction, so a resumed job never re-inserts a committed chunk.
+CREATE OR REPLACE FUNCTION public.commit_upload_chunk(
+  p_job_id BIGINT,
+  p_chunk_index INTEGER,
+  p_columns TEXT[],
+  p_rows JSONB
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_job public.upload_jobs%ROWTYPE;
+  v_cols TEXT;
+  v_count INTEGER;
+BEGIN
+  SELECT * INTO v_job FROM public.upload_jobs WHERE id = p_job_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'upload job % not found', p_job_id;
+  END IF;
+
+  IF v_job.table_name NOT IN ('budgets', 'actuals', 'transactions', 'revenues') THEN
+    RAISE EXCEPTION 'invalid table';
+  END IF;
+
+  IF p_chunk_index <> v_job.last_committed_chunk + 1 THEN
+    RAISE EXCEPTION 'chunk % is out of order (last committed: %)',
+      p_chunk_index, v_job.last_committed_chunk;
+  END IF;
+
+  SELECT string_agg(quote_ident(c), ', ') INTO v_cols FROM unnest(p_columns) AS c;
+
+  EXECUTE format(
+    'INSERT INTO public.%I (%s) SELECT %s FROM jsonb_populate_recordset(NULL::public.%I, $1)',
+    v_job.table_name, v_cols, v_cols, v_job.table_name
+  ) USING p_rows;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  UPDATE public.upload_jobs
+  SET last_committed_chunk = p_chunk_index,
+      rows_inserted = rows_inserted + v_count,
+      updated_at = now()
+  WHERE id = p_job_id;
+
+  RETURN v_count;
+END;
+$$;
+
+-- Service role only
+REVOKE EXECUTE ON FUNCTION public.commit_upload_chunk(BIGINT, INTEGER, TEXT[], JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.commit_upload_chunk(BIGINT, INTEGER, TEXT[], JSONB) TO service_role;
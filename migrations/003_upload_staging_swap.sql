@@ -0,0 +1,227 @@
+-- migrations/003_upload_staging_swap.sql
+-- Atomic replace_year / replace_table uploads via staging tables
+-- Run this in your Supabase SQL editor
+
+-- Replace uploads load into a per-table staging table first. Nothing in the
+-- live table changes until swap_staged_upload() moves the rows over.
+ALTER TABLE public.upload_jobs
+  ADD COLUMN IF NOT EXISTS total_amount NUMERIC,
+  ADD COLUMN IF NOT EXISTS staged_columns TEXT[],
+  ADD COLUMN IF NOT EXISTS swapped_at TIMESTAMPTZ;
+
+CREATE TABLE IF NOT EXISTS public.upload_staging_budgets (
+  LIKE public.budgets INCLUDING DEFAULTS,
+  upload_job_id BIGINT NOT NULL REFERENCES public.upload_jobs(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS public.upload_staging_actuals (
+  LIKE public.actuals INCLUDING DEFAULTS,
+  upload_job_id BIGINT NOT NULL REFERENCES public.upload_jobs(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS public.upload_staging_transactions (
+  LIKE public.transactions INCLUDING DEFAULTS,
+  upload_job_id BIGINT NOT NULL REFERENCES public.upload_jobs(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS public.upload_staging_revenues (
+  LIKE public.revenues INCLUDING DEFAULTS,
+  upload_job_id BIGINT NOT NULL REFERENCES public.upload_jobs(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS upload_staging_budgets_job_idx ON public.upload_staging_budgets (upload_job_id);
+CREATE INDEX IF NOT EXISTS upload_staging_actuals_job_idx ON public.upload_staging_actuals (upload_job_id);
+CREATE INDEX IF NOT EXISTS upload_staging_transactions_job_idx ON public.upload_staging_transactions (upload_job_id);
+CREATE INDEX IF NOT EXISTS upload_staging_revenues_job_idx ON public.upload_staging_revenues (upload_job_id);
+
+-- Staging tables are service-role only: RLS on, no policies
+ALTER TABLE public.upload_staging_budgets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.upload_staging_actuals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.upload_staging_transactions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.upload_staging_revenues ENABLE ROW LEVEL SECURITY;
+
+-- Replace-mode chunks now go to the staging table; append chunks still go
+-- straight to the live table.
+CREATE OR REPLACE FUNCTION public.commit_upload_chunk(
+  p_job_id BIGINT,
+  p_chunk_index INTEGER,
+  p_columns TEXT[],
+  p_rows JSONB
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_job public.upload_jobs%ROWTYPE;
+  v_cols TEXT;
+  v_count INTEGER;
+BEGIN
+  SELECT * INTO v_job FROM public.upload_jobs WHERE id = p_job_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'upload job % not found', p_job_id;
+  END IF;
+
+  IF v_job.table_name NOT IN ('budgets', 'actuals', 'transactions', 'revenues') THEN
+    RAISE EXCEPTION 'invalid table';
+  END IF;
+
+  IF p_chunk_index <> v_job.last_committed_chunk + 1 THEN
+    RAISE EXCEPTION 'chunk % is out of order (last committed: %)',
+      p_chunk_index, v_job.last_committed_chunk;
+  END IF;
+
+  SELECT string_agg(quote_ident(c), ', ') INTO v_cols FROM unnest(p_columns) AS c;
+
+  IF v_job.mode IN ('replace_year', 'replace_table') THEN
+    EXECUTE format(
+      'INSERT INTO public.%I (upload_job_id, %s) SELECT $2, %s FROM jsonb_populate_recordset(NULL::public.%I, $1)',
+      'upload_staging_' || v_job.table_name, v_cols, v_cols, v_job.table_name
+    ) USING p_rows, p_job_id;
+  ELSE
+    EXECUTE format(
+      'INSERT INTO public.%I (%s) SELECT %s FROM jsonb_populate_recordset(NULL::public.%I, $1)',
+      v_job.table_name, v_cols, v_cols, v_job.table_name
+    ) USING p_rows;
+  END IF;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  UPDATE public.upload_jobs
+  SET last_committed_chunk = p_chunk_index,
+      rows_inserted = rows_inserted + v_count,
+      staged_columns = ARRAY(
+        SELECT DISTINCT c FROM unnest(COALESCE(staged_columns, '{}') || p_columns) AS c
+      ),
+      updated_at = now()
+  WHERE id = p_job_id;
+
+  RETURN v_count;
+END;
+$$;
+
+-- Move a fully staged replace upload into the live table in one transaction:
+-- check row count and amount total against the validated file, delete the
+-- rows being replaced, copy the staged rows over and refresh the rollups for
+-- every affected fiscal year. Any failure rolls the whole swap back.
+CREATE OR REPLACE FUNCTION public.swap_staged_upload(p_job_id BIGINT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_job public.upload_jobs%ROWTYPE;
+  v_staging TEXT;
+  v_cols TEXT;
+  v_count BIGINT;
+  v_total NUMERIC;
+  v_other_year INTEGER;
+  v_other_rows INTEGER;
+  v_years INTEGER[];
+  v_year INTEGER;
+BEGIN
+  SELECT * INTO v_job FROM public.upload_jobs WHERE id = p_job_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'upload job % not found', p_job_id;
+  END IF;
+
+  IF v_job.table_name NOT IN ('budgets', 'actuals', 'transactions', 'revenues') THEN
+    RAISE EXCEPTION 'invalid table';
+  END IF;
+
+  IF v_job.mode NOT IN ('replace_year', 'replace_table') THEN
+    RAISE EXCEPTION 'upload job % is not a replace upload', p_job_id;
+  END IF;
+
+  IF v_job.swapped_at IS NOT NULL THEN
+    RAISE EXCEPTION 'upload job % was already swapped in', p_job_id;
+  END IF;
+
+  v_staging := 'upload_staging_' || v_job.table_name;
+
+  -- 1) Staged rows must match what validation counted
+  EXECUTE format(
+    'SELECT COUNT(*), COALESCE(SUM(amount), 0) FROM public.%I WHERE upload_job_id = $1',
+    v_staging
+  ) INTO v_count, v_total USING p_job_id;
+
+  IF v_job.total_rows IS NULL OR v_count <> v_job.total_rows THEN
+    RAISE EXCEPTION 'staged row count % does not match validated row count %',
+      v_count, v_job.total_rows;
+  END IF;
+
+  IF v_job.total_amount IS NOT NULL AND abs(v_total - v_job.total_amount) >= 0.01 THEN
+    RAISE EXCEPTION 'staged amount total % does not match validated total %',
+      v_total, v_job.total_amount;
+  END IF;
+
+  IF v_job.mode = 'replace_year' THEN
+    EXECUTE format(
+      'SELECT fiscal_year FROM public.%I WHERE upload_job_id = $1 AND fiscal_year IS DISTINCT FROM $2 LIMIT 1',
+      v_staging
+    ) INTO v_other_year USING p_job_id, v_job.replace_year;
+
+    -- EXECUTE doesn't set FOUND; the row count says whether a row came back
+    GET DIAGNOSTICS v_other_rows = ROW_COUNT;
+
+    IF v_other_rows > 0 THEN
+      RAISE EXCEPTION 'staged rows include fiscal year % outside FY %',
+        v_other_year, v_job.replace_year;
+    END IF;
+  END IF;
+
+  -- 2) Work out which fiscal years' rollups change
+  IF v_job.mode = 'replace_year' THEN
+    v_years := ARRAY[v_job.replace_year];
+  ELSE
+    EXECUTE format(
+      'SELECT ARRAY(SELECT fiscal_year FROM public.%I UNION SELECT fiscal_year FROM public.%I WHERE upload_job_id = $1)',
+      v_job.table_name, v_staging
+    ) INTO v_years USING p_job_id;
+  END IF;
+
+  -- 3) Swap
+  IF v_job.mode = 'replace_year' THEN
+    EXECUTE format('DELETE FROM public.%I WHERE fiscal_year = $1', v_job.table_name)
+      USING v_job.replace_year;
+  ELSE
+    EXECUTE format('DELETE FROM public.%I', v_job.table_name);
+  END IF;
+
+  SELECT string_agg(quote_ident(c), ', ') INTO v_cols FROM unnest(v_job.staged_columns) AS c;
+
+  EXECUTE format(
+    'INSERT INTO public.%I (%s) SELECT %s FROM public.%I WHERE upload_job_id = $1',
+    v_job.table_name, v_cols, v_cols, v_staging
+  ) USING p_job_id;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  EXECUTE format('DELETE FROM public.%I WHERE upload_job_id = $1', v_staging)
+    USING p_job_id;
+
+  -- 4) Refresh rollups in the same transaction
+  FOREACH v_year IN ARRAY COALESCE(v_years, '{}') LOOP
+    IF v_job.table_name = 'transactions' THEN
+      PERFORM public.refresh_transaction_rollups_for_year(v_year);
+    ELSIF v_job.table_name IN ('budgets', 'actuals') THEN
+      PERFORM public.refresh_budget_actuals_rollup_for_year(v_year);
+    END IF;
+  END LOOP;
+
+  UPDATE public.upload_jobs
+  SET swapped_at = now(),
+      updated_at = now()
+  WHERE id = p_job_id;
+
+  RETURN v_count;
+END;
+$$;
+
+-- Service role only
+REVOKE EXECUTE ON FUNCTION public.swap_staged_upload(BIGINT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.swap_staged_upload(BIGINT) TO service_role;
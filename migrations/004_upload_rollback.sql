@@ -0,0 +1,384 @@
+-- migrations/004_upload_rollback.sql
+-- Roll back an upload to the data it replaced
+-- Run this in your Supabase SQL editor
+
+-- Tag every loaded row with the upload job that wrote it, so an append can be
+-- undone by deleting exactly its rows. Rows loaded before this migration
+-- stay untagged.
+ALTER TABLE public.budgets ADD COLUMN IF NOT EXISTS upload_job_id BIGINT;
+ALTER TABLE public.actuals ADD COLUMN IF NOT EXISTS upload_job_id BIGINT;
+ALTER TABLE public.transactions ADD COLUMN IF NOT EXISTS upload_job_id BIGINT;
+ALTER TABLE public.revenues ADD COLUMN IF NOT EXISTS upload_job_id BIGINT;
+
+CREATE INDEX IF NOT EXISTS budgets_upload_job_id_idx ON public.budgets (upload_job_id) WHERE upload_job_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS actuals_upload_job_id_idx ON public.actuals (upload_job_id) WHERE upload_job_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS transactions_upload_job_id_idx ON public.transactions (upload_job_id) WHERE upload_job_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS revenues_upload_job_id_idx ON public.revenues (upload_job_id) WHERE upload_job_id IS NOT NULL;
+
+ALTER TABLE public.upload_jobs
+  ADD COLUMN IF NOT EXISTS snapshot_discarded_at TIMESTAMPTZ;
+
+ALTER TABLE public.data_uploads
+  ADD COLUMN IF NOT EXISTS rolled_back_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS rolled_back_by TEXT;
+
+-- Rows a replace upload overwrote, kept as JSON so one table serves all four
+-- datasets. Only the latest upload of a table/year keeps its snapshot.
+CREATE TABLE IF NOT EXISTS public.upload_snapshot_rows (
+  id BIGSERIAL PRIMARY KEY,
+  job_id BIGINT NOT NULL REFERENCES public.upload_jobs(id) ON DELETE CASCADE,
+  table_name TEXT NOT NULL,
+  fiscal_year INTEGER,
+  row_data JSONB NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS upload_snapshot_rows_job_idx
+ON public.upload_snapshot_rows (job_id);
+
+CREATE INDEX IF NOT EXISTS upload_snapshot_rows_table_year_idx
+ON public.upload_snapshot_rows (table_name, fiscal_year);
+
+-- Service role only: RLS on, no policies
+ALTER TABLE public.upload_snapshot_rows ENABLE ROW LEVEL SECURITY;
+
+-- Tag appended rows with their job
+CREATE OR REPLACE FUNCTION public.commit_upload_chunk(
+  p_job_id BIGINT,
+  p_chunk_index INTEGER,
+  p_columns TEXT[],
+  p_rows JSONB
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_job public.upload_jobs%ROWTYPE;
+  v_cols TEXT;
+  v_count INTEGER;
+BEGIN
+  SELECT * INTO v_job FROM public.upload_jobs WHERE id = p_job_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'upload job % not found', p_job_id;
+  END IF;
+
+  IF v_job.table_name NOT IN ('budgets', 'actuals', 'transactions', 'revenues') THEN
+    RAISE EXCEPTION 'invalid table';
+  END IF;
+
+  IF p_chunk_index <> v_job.last_committed_chunk + 1 THEN
+    RAISE EXCEPTION 'chunk % is out of order (last committed: %)',
+      p_chunk_index, v_job.last_committed_chunk;
+  END IF;
+
+  SELECT string_agg(quote_ident(c), ', ') INTO v_cols FROM unnest(p_columns) AS c;
+
+  EXECUTE format(
+    'INSERT INTO public.%I (upload_job_id, %s) SELECT $2, %s FROM jsonb_populate_recordset(NULL::public.%I, $1)',
+    CASE
+      WHEN v_job.mode IN ('replace_year', 'replace_table') THEN 'upload_staging_' || v_job.table_name
+      ELSE v_job.table_name
+    END,
+    v_cols, v_cols, v_job.table_name
+  ) USING p_rows, p_job_id;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  UPDATE public.upload_jobs
+  SET last_committed_chunk = p_chunk_index,
+      rows_inserted = rows_inserted + v_count,
+      staged_columns = ARRAY(
+        SELECT DISTINCT c FROM unnest(COALESCE(staged_columns, '{}') || p_columns) AS c
+      ),
+      updated_at = now()
+  WHERE id = p_job_id;
+
+  RETURN v_count;
+END;
+$$;
+
+-- Snapshot the rows being replaced before swapping, and tag the swapped-in
+-- rows with their job
+CREATE OR REPLACE FUNCTION public.swap_staged_upload(p_job_id BIGINT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_job public.upload_jobs%ROWTYPE;
+  v_staging TEXT;
+  v_cols TEXT;
+  v_count BIGINT;
+  v_total NUMERIC;
+  v_other_year INTEGER;
+  v_other_rows INTEGER;
+  v_years INTEGER[];
+  v_year INTEGER;
+BEGIN
+  SELECT * INTO v_job FROM public.upload_jobs WHERE id = p_job_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'upload job % not found', p_job_id;
+  END IF;
+
+  IF v_job.table_name NOT IN ('budgets', 'actuals', 'transactions', 'revenues') THEN
+    RAISE EXCEPTION 'invalid table';
+  END IF;
+
+  IF v_job.mode NOT IN ('replace_year', 'replace_table') THEN
+    RAISE EXCEPTION 'upload job % is not a replace upload', p_job_id;
+  END IF;
+
+  IF v_job.swapped_at IS NOT NULL THEN
+    RAISE EXCEPTION 'upload job % was already swapped in', p_job_id;
+  END IF;
+
+  v_staging := 'upload_staging_' || v_job.table_name;
+
+  -- 1) Staged rows must match what validation counted
+  EXECUTE format(
+    'SELECT COUNT(*), COALESCE(SUM(amount), 0) FROM public.%I WHERE upload_job_id = $1',
+    v_staging
+  ) INTO v_count, v_total USING p_job_id;
+
+  IF v_job.total_rows IS NULL OR v_count <> v_job.total_rows THEN
+    RAISE EXCEPTION 'staged row count % does not match validated row count %',
+      v_count, v_job.total_rows;
+  END IF;
+
+  IF v_job.total_amount IS NOT NULL AND abs(v_total - v_job.total_amount) >= 0.01 THEN
+    RAISE EXCEPTION 'staged amount total % does not match validated total %',
+      v_total, v_job.total_amount;
+  END IF;
+
+  IF v_job.mode = 'replace_year' THEN
+    EXECUTE format(
+      'SELECT fiscal_year FROM public.%I WHERE upload_job_id = $1 AND fiscal_year IS DISTINCT FROM $2 LIMIT 1',
+      v_staging
+    ) INTO v_other_year USING p_job_id, v_job.replace_year;
+
+    -- EXECUTE doesn't set FOUND; the row count says whether a row came back
+    GET DIAGNOSTICS v_other_rows = ROW_COUNT;
+
+    IF v_other_rows > 0 THEN
+      RAISE EXCEPTION 'staged rows include fiscal year % outside FY %',
+        v_other_year, v_job.replace_year;
+    END IF;
+  END IF;
+
+  -- 2) Work out which fiscal years' rollups change
+  IF v_job.mode = 'replace_year' THEN
+    v_years := ARRAY[v_job.replace_year];
+  ELSE
+    EXECUTE format(
+      'SELECT ARRAY(SELECT fiscal_year FROM public.%I UNION SELECT fiscal_year FROM public.%I WHERE upload_job_id = $1)',
+      v_job.table_name, v_staging
+    ) INTO v_years USING p_job_id;
+  END IF;
+
+  -- 3) Snapshot the rows being replaced. Older snapshots for the same scope
+  --    can no longer be restored (this upload sits on top of them), so drop
+  --    them and mark their jobs.
+  WITH superseded AS (
+    DELETE FROM public.upload_snapshot_rows s
+    WHERE s.table_name = v_job.table_name
+      AND s.job_id <> p_job_id
+      AND (v_job.mode = 'replace_table' OR s.fiscal_year = v_job.replace_year)
+    RETURNING s.job_id
+  )
+  UPDATE public.upload_jobs
+  SET snapshot_discarded_at = now()
+  WHERE id IN (SELECT job_id FROM superseded);
+
+  EXECUTE format(
+    'INSERT INTO public.upload_snapshot_rows (job_id, table_name, fiscal_year, row_data)
+     SELECT $1, $2, t.fiscal_year, to_jsonb(t) FROM public.%I t
+     WHERE $3 = ''replace_table'' OR t.fiscal_year = $4',
+    v_job.table_name
+  ) USING p_job_id, v_job.table_name, v_job.mode, v_job.replace_year;
+
+  -- 4) Swap
+  IF v_job.mode = 'replace_year' THEN
+    EXECUTE format('DELETE FROM public.%I WHERE fiscal_year = $1', v_job.table_name)
+      USING v_job.replace_year;
+  ELSE
+    EXECUTE format('DELETE FROM public.%I', v_job.table_name);
+  END IF;
+
+  SELECT string_agg(quote_ident(c), ', ') INTO v_cols FROM unnest(v_job.staged_columns) AS c;
+
+  EXECUTE format(
+    'INSERT INTO public.%I (upload_job_id, %s) SELECT upload_job_id, %s FROM public.%I WHERE upload_job_id = $1',
+    v_job.table_name, v_cols, v_cols, v_staging
+  ) USING p_job_id;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  EXECUTE format('DELETE FROM public.%I WHERE upload_job_id = $1', v_staging)
+    USING p_job_id;
+
+  -- 5) Refresh rollups in the same transaction
+  FOREACH v_year IN ARRAY COALESCE(v_years, '{}') LOOP
+    IF v_job.table_name = 'transactions' THEN
+      PERFORM public.refresh_transaction_rollups_for_year(v_year);
+    ELSIF v_job.table_name IN ('budgets', 'actuals') THEN
+      PERFORM public.refresh_budget_actuals_rollup_for_year(v_year);
+    END IF;
+  END LOOP;
+
+  UPDATE public.upload_jobs
+  SET swapped_at = now(),
+      updated_at = now()
+  WHERE id = p_job_id;
+
+  RETURN v_count;
+END;
+$$;
+
+-- Undo one upload and refresh rollups, all in one transaction:
+--   append        -> delete the rows the upload inserted
+--   replace_year  -> put back the fiscal year's rows from the snapshot
+--   replace_table -> put back the whole table from the snapshot
+-- Refuses if a later, still-active upload touched the same table and years,
+-- since undoing this one would silently undo that one too.
+-- Conflicts (already rolled back, superseded) raise
+-- object_not_in_prerequisite_state; nothing to restore raises no_data_found.
+CREATE OR REPLACE FUNCTION public.rollback_upload(p_upload_id BIGINT, p_actor TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_upload public.data_uploads%ROWTYPE;
+  v_job public.upload_jobs%ROWTYPE;
+  v_job_years INTEGER[];
+  v_years INTEGER[];
+  v_year INTEGER;
+  v_cols TEXT;
+  v_count INTEGER := 0;
+BEGIN
+  SELECT * INTO v_upload FROM public.data_uploads WHERE id = p_upload_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'upload % not found', p_upload_id
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_upload.rolled_back_at IS NOT NULL THEN
+    RAISE EXCEPTION 'this upload was already rolled back'
+      USING ERRCODE = 'object_not_in_prerequisite_state';
+  END IF;
+
+  IF v_upload.job_id IS NULL THEN
+    RAISE EXCEPTION 'this upload predates rollback support and cannot be rolled back'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  SELECT * INTO v_job FROM public.upload_jobs WHERE id = v_upload.job_id FOR UPDATE;
+
+  IF NOT FOUND OR v_job.status <> 'done' THEN
+    RAISE EXCEPTION 'this upload did not finish and cannot be rolled back'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_job.table_name NOT IN ('budgets', 'actuals', 'transactions', 'revenues') THEN
+    RAISE EXCEPTION 'invalid table';
+  END IF;
+
+  v_job_years := COALESCE(v_job.years_in_data, '{}');
+  IF v_job.replace_year IS NOT NULL THEN
+    v_job_years := v_job_years || v_job.replace_year;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.data_uploads d
+    LEFT JOIN public.upload_jobs j ON j.id = d.job_id
+    WHERE d.table_name = v_upload.table_name
+      AND d.id > v_upload.id
+      AND d.rolled_back_at IS NULL
+      AND (
+        j.id IS NULL
+        OR v_job.mode = 'replace_table'
+        OR j.mode = 'replace_table'
+        OR (COALESCE(j.years_in_data, '{}') || ARRAY[j.replace_year]) && v_job_years
+      )
+  ) THEN
+    RAISE EXCEPTION 'a later upload changed the same data; roll that upload back first'
+      USING ERRCODE = 'object_not_in_prerequisite_state';
+  END IF;
+
+  IF v_job.mode IN ('replace_year', 'replace_table') AND v_job.snapshot_discarded_at IS NOT NULL THEN
+    RAISE EXCEPTION 'the data this upload replaced is no longer kept, so it cannot be rolled back'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  -- Fiscal years whose rollups change: the upload's own years plus, for a
+  -- table replace, every year in the snapshot
+  SELECT ARRAY(
+    SELECT DISTINCT y FROM (
+      SELECT unnest(v_job_years) AS y
+      UNION
+      SELECT fiscal_year FROM public.upload_snapshot_rows WHERE job_id = v_job.id
+    ) years
+    WHERE y IS NOT NULL
+  ) INTO v_years;
+
+  IF v_job.mode = 'append' THEN
+    EXECUTE format('DELETE FROM public.%I WHERE upload_job_id = $1', v_job.table_name)
+      USING v_job.id;
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+  ELSE
+    IF v_job.mode = 'replace_year' THEN
+      EXECUTE format('DELETE FROM public.%I WHERE fiscal_year = $1', v_job.table_name)
+        USING v_job.replace_year;
+    ELSE
+      EXECUTE format('DELETE FROM public.%I', v_job.table_name);
+    END IF;
+
+    -- Every stored (non-generated) column, so restored rows keep their ids
+    SELECT string_agg(quote_ident(column_name), ', ' ORDER BY ordinal_position)
+    INTO v_cols
+    FROM information_schema.columns
+    WHERE table_schema = 'public'
+      AND table_name = v_job.table_name
+      AND is_generated = 'NEVER';
+
+    EXECUTE format(
+      'INSERT INTO public.%I (%s)
+       SELECT %s FROM (
+         SELECT (jsonb_populate_record(NULL::public.%I, row_data)).*
+         FROM public.upload_snapshot_rows
+         WHERE job_id = $1
+       ) r',
+      v_job.table_name, v_cols, v_cols, v_job.table_name
+    ) USING v_job.id;
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+
+    DELETE FROM public.upload_snapshot_rows WHERE job_id = v_job.id;
+  END IF;
+
+  FOREACH v_year IN ARRAY v_years LOOP
+    IF v_job.table_name = 'transactions' THEN
+      PERFORM public.refresh_transaction_rollups_for_year(v_year);
+    ELSIF v_job.table_name IN ('budgets', 'actuals') THEN
+      PERFORM public.refresh_budget_actuals_rollup_for_year(v_year);
+    END IF;
+  END LOOP;
+
+  UPDATE public.data_uploads
+  SET rolled_back_at = now(),
+      rolled_back_by = p_actor
+  WHERE id = p_upload_id;
+
+  RETURN v_count;
+END;
+$$;
+
+-- Service role only
+REVOKE EXECUTE ON FUNCTION public.rollback_upload(BIGINT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.rollback_upload(BIGINT, TEXT) TO service_role;
@@ -0,0 +1,43 @@
+-- migrations/005_upload_mapping_profiles.sql
+-- Saved column-mapping profiles for the admin uploader
+-- Run this in your Supabase SQL editor
+
+-- One profile per ERP export layout and table. header_signature is the
+-- sorted, normalized header list (see lib/columnMapping.ts) and is how the
+-- uploader recognizes a file it has seen before.
+CREATE TABLE IF NOT EXISTS public.upload_mapping_profiles (
+  id BIGSERIAL PRIMARY KEY,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  table_name TEXT NOT NULL
+    CHECK (table_name IN ('budgets', 'actuals', 'transactions', 'revenues')),
+  name TEXT NOT NULL,
+  header_signature TEXT NOT NULL,
+  source_headers TEXT[] NOT NULL DEFAULT '{}',
+  mapping JSONB NOT NULL,
+  created_by TEXT,
+  CONSTRAINT upload_mapping_profiles_table_name_key UNIQUE (table_name, name)
+);
+
+CREATE INDEX IF NOT EXISTS upload_mapping_profiles_signature_idx
+ON public.upload_mapping_profiles (table_name, header_signature);
+
+-- Jobs remember the mapping they were started with, so a resumed job maps
+-- rows the same way
+ALTER TABLE public.upload_jobs
+  ADD COLUMN IF NOT EXISTS column_mapping JSONB;
+
+ALTER TABLE public.upload_mapping_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "upload_mapping_profiles_admins_rw"
+  ON public.upload_mapping_profiles FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.id = auth.uid()
+      AND p.role = ANY (ARRAY['admin', 'super_admin'])
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.id = auth.uid()
+      AND p.role = ANY (ARRAY['admin', 'super_admin'])
+  ));
@@ -0,0 +1,37 @@
+-- migrations/006_upload_file_formats.sql
+-- Excel, delimited and fixed-width source files for the admin uploader
+-- Run this in your Supabase SQL editor
+
+-- How the job's file is read: {"type":"delimited","delimiter":","},
+-- {"type":"xlsx","sheet":"..."} or {"type":"fixed_width","layout":{...}}
+-- (see lib/fileFormats.ts). NULL means a comma-delimited CSV, as uploaded
+-- before this migration.
+ALTER TABLE public.upload_jobs
+  ADD COLUMN IF NOT EXISTS file_format JSONB;
+
+-- Saved column layouts for fixed-width text exports, which have no header
+-- row to recognize them by; admins pick one when they choose the file.
+CREATE TABLE IF NOT EXISTS public.upload_fixed_width_layouts (
+  id BIGSERIAL PRIMARY KEY,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  name TEXT NOT NULL,
+  layout JSONB NOT NULL,
+  created_by TEXT,
+  CONSTRAINT upload_fixed_width_layouts_name_key UNIQUE (name)
+);
+
+ALTER TABLE public.upload_fixed_width_layouts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "upload_fixed_width_layouts_admins_rw"
+  ON public.upload_fixed_width_layouts FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.id = auth.uid()
+      AND p.role = ANY (ARRAY['admin', 'super_admin'])
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.id = auth.uid()
+      AND p.role = ANY (ARRAY['admin', 'super_admin'])
+  ));
@@ -0,0 +1,36 @@
+-- migrations/007_upload_diff_baseline.sql
+-- Live per-department and per-fund totals for the upload preflight diff
+-- Run this in your Supabase SQL editor
+
+-- Live totals an upload is compared against in the preflight diff: amount
+-- and row count per department and per fund, for the given fiscal years
+-- (NULL = the whole table).
+CREATE OR REPLACE FUNCTION public.get_upload_diff_baseline(p_table TEXT, p_years INTEGER[])
+RETURNS TABLE(dimension TEXT, name TEXT, row_count BIGINT, total_amount NUMERIC)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF p_table NOT IN ('budgets', 'actuals', 'transactions', 'revenues') THEN
+    RAISE EXCEPTION 'invalid table';
+  END IF;
+
+  RETURN QUERY EXECUTE format(
+    'SELECT ''department''::text, COALESCE(department_name, ''''), count(*), COALESCE(sum(amount), 0)
+     FROM public.%1$I
+     WHERE $1 IS NULL OR fiscal_year = ANY ($1)
+     GROUP BY 2
+     UNION ALL
+     SELECT ''fund''::text, COALESCE(fund_name, ''''), count(*), COALESCE(sum(amount), 0)
+     FROM public.%1$I
+     WHERE $1 IS NULL OR fiscal_year = ANY ($1)
+     GROUP BY 2',
+    p_table
+  ) USING p_years;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_upload_diff_baseline(TEXT, INTEGER[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_upload_diff_baseline(TEXT, INTEGER[]) TO service_role;
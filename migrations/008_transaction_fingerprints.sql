@@ -0,0 +1,148 @@
+-- migrations/008_transaction_fingerprints.sql
+-- Duplicate-transaction detection for append uploads
+-- Run this in your Supabase SQL editor
+
+-- Content fingerprint of a transaction, used to spot a file that was already
+-- uploaded. Text fields are compared trimmed and case-insensitively and the
+-- amount without trailing zeros, so 12.50 and 12.5 match. Declared IMMUTABLE
+-- (to_char on a DATE doesn't depend on settings) so it can back a generated
+-- column.
+CREATE OR REPLACE FUNCTION public.transaction_fingerprint(
+  p_date DATE,
+  p_vendor TEXT,
+  p_amount NUMERIC,
+  p_account_code TEXT,
+  p_description TEXT
+)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+PARALLEL SAFE
+AS $$
+  SELECT md5(concat_ws('|',
+    to_char(p_date, 'YYYY-MM-DD'),
+    lower(btrim(COALESCE(p_vendor, ''))),
+    trim_scale(p_amount)::text,
+    lower(btrim(COALESCE(p_account_code, ''))),
+    lower(btrim(COALESCE(p_description, '')))
+  ))
+$$;
+
+-- Adding a stored generated column rewrites the table once to fill it
+ALTER TABLE public.transactions
+  ADD COLUMN IF NOT EXISTS row_fingerprint TEXT
+  GENERATED ALWAYS AS (
+    public.transaction_fingerprint(date, vendor, amount, account_code, description)
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS transactions_row_fingerprint_idx
+ON public.transactions (row_fingerprint);
+
+-- What an append does with rows that are already in the portal: 'skip' or
+-- 'insert' (NULL behaves like 'insert'). rows_skipped counts the left-out rows.
+ALTER TABLE public.upload_jobs
+  ADD COLUMN IF NOT EXISTS duplicate_policy TEXT
+    CHECK (duplicate_policy IN ('skip', 'insert')),
+  ADD COLUMN IF NOT EXISTS rows_skipped INTEGER NOT NULL DEFAULT 0;
+
+-- Insert one upload chunk and advance the job checkpoint atomically (service role only).
+-- Transaction appends with duplicate_policy 'skip' leave out rows whose
+-- fingerprint is already in the table from another upload.
+CREATE OR REPLACE FUNCTION public.commit_upload_chunk(
+  p_job_id BIGINT,
+  p_chunk_index INTEGER,
+  p_columns TEXT[],
+  p_rows JSONB
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_job public.upload_jobs%ROWTYPE;
+  v_cols TEXT;
+  v_filter TEXT := '';
+  v_count INTEGER;
+BEGIN
+  SELECT * INTO v_job FROM public.upload_jobs WHERE id = p_job_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'upload job % not found', p_job_id;
+  END IF;
+
+  IF v_job.table_name NOT IN ('budgets', 'actuals', 'transactions', 'revenues') THEN
+    RAISE EXCEPTION 'invalid table';
+  END IF;
+
+  IF p_chunk_index <> v_job.last_committed_chunk + 1 THEN
+    RAISE EXCEPTION 'chunk % is out of order (last committed: %)',
+      p_chunk_index, v_job.last_committed_chunk;
+  END IF;
+
+  SELECT string_agg(quote_ident(c), ', ') INTO v_cols FROM unnest(p_columns) AS c;
+
+  IF v_job.table_name = 'transactions'
+     AND v_job.mode = 'append'
+     AND v_job.duplicate_policy = 'skip' THEN
+    -- Rows of this same job never count: a file may legitimately repeat a row
+    v_filter := ' WHERE NOT EXISTS (
+      SELECT 1 FROM public.transactions t
+      WHERE t.row_fingerprint = public.transaction_fingerprint(r.date, r.vendor, r.amount, r.account_code, r.description)
+        AND t.upload_job_id IS DISTINCT FROM $2)';
+  END IF;
+
+  EXECUTE format(
+    'INSERT INTO public.%I (upload_job_id, %s) SELECT $2, %s FROM jsonb_populate_recordset(NULL::public.%I, $1) AS r%s',
+    CASE
+      WHEN v_job.mode IN ('replace_year', 'replace_table') THEN 'upload_staging_' || v_job.table_name
+      ELSE v_job.table_name
+    END,
+    v_cols, v_cols, v_job.table_name, v_filter
+  ) USING p_rows, p_job_id;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  UPDATE public.upload_jobs
+  SET last_committed_chunk = p_chunk_index,
+      rows_inserted = rows_inserted + v_count,
+      rows_skipped = rows_skipped + (jsonb_array_length(p_rows) - v_count),
+      staged_columns = ARRAY(
+        SELECT DISTINCT c FROM unnest(COALESCE(staged_columns, '{}') || p_columns) AS c
+      ),
+      updated_at = now()
+  WHERE id = p_job_id;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.commit_upload_chunk(BIGINT, INTEGER, TEXT[], JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.commit_upload_chunk(BIGINT, INTEGER, TEXT[], JSONB) TO service_role;
+
+
+-- Positions (1-based) of the given transaction rows whose fingerprint is
+-- already in the table; used by the append preflight (service role only)
+CREATE OR REPLACE FUNCTION public.find_existing_transactions(p_rows JSONB)
+RETURNS TABLE(row_index INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT r.ord::int
+  FROM jsonb_array_elements(p_rows) WITH ORDINALITY AS r(value, ord)
+  WHERE EXISTS (
+    SELECT 1 FROM public.transactions t
+    WHERE t.row_fingerprint = public.transaction_fingerprint(
+      (r.value->>'date')::date,
+      r.value->>'vendor',
+      (r.value->>'amount')::numeric,
+      r.value->>'account_code',
+      r.value->>'description'
+    )
+  )
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.find_existing_transactions(JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.find_existing_transactions(JSONB) TO service_role;
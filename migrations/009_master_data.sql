@@ -0,0 +1,434 @@
+-- migrations/009_master_data.sql
+-- Fund, department and account registry (chart of accounts master data)
+-- Run this in your Supabase SQL editor
+
+-- Each registry is keyed by the ERP code and holds the canonical display
+-- name. Uploads replace the name on incoming rows with the registered one
+-- (matched by code, or by name key when the code is unknown), and
+-- the department rollups group by it.
+CREATE TABLE IF NOT EXISTS public.funds (
+  code TEXT NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  parent_code TEXT REFERENCES public.funds(code) ON UPDATE CASCADE ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT funds_pkey PRIMARY KEY (code),
+  CONSTRAINT funds_code_not_blank CHECK (btrim(code) <> ''),
+  CONSTRAINT funds_name_not_blank CHECK (btrim(name) <> '')
+);
+
+CREATE TABLE IF NOT EXISTS public.departments (
+  code TEXT NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  parent_code TEXT REFERENCES public.departments(code) ON UPDATE CASCADE ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT departments_pkey PRIMARY KEY (code),
+  CONSTRAINT departments_code_not_blank CHECK (btrim(code) <> ''),
+  CONSTRAINT departments_name_not_blank CHECK (btrim(name) <> '')
+);
+
+CREATE TABLE IF NOT EXISTS public.accounts (
+  code TEXT NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  parent_code TEXT REFERENCES public.accounts(code) ON UPDATE CASCADE ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT accounts_pkey PRIMARY KEY (code),
+  CONSTRAINT accounts_code_not_blank CHECK (btrim(code) <> ''),
+  CONSTRAINT accounts_name_not_blank CHECK (btrim(name) <> '')
+);
+
+-- Key registry names are matched on: the HTML escaping uploads apply undone,
+-- whitespace collapsed, trimmed and lowercased. masterDataNameKey in
+-- lib/masterData.ts must give the same key for the same name.
+CREATE OR REPLACE FUNCTION public.master_data_name_key(p_name TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+PARALLEL SAFE
+AS $$
+  SELECT lower(btrim(regexp_replace(
+    replace(replace(replace(p_name, '&lt;', '<'), '&gt;', '>'), '&amp;', '&'),
+    '\s+', ' ', 'g'
+  )))
+$$;
+
+-- Canonical names must be unique (by name key) so a name resolves to one entry
+DROP INDEX IF EXISTS public.funds_name_key;
+DROP INDEX IF EXISTS public.departments_name_key;
+DROP INDEX IF EXISTS public.accounts_name_key;
+CREATE UNIQUE INDEX funds_name_key ON public.funds (public.master_data_name_key(name));
+CREATE UNIQUE INDEX departments_name_key ON public.departments (public.master_data_name_key(name));
+CREATE UNIQUE INDEX accounts_name_key ON public.accounts (public.master_data_name_key(name));
+
+ALTER TABLE public.funds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.departments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.accounts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Public read funds when published" ON public.funds;
+CREATE POLICY "Public read funds when published"
+  ON public.funds FOR SELECT
+  USING (is_portal_published());
+
+DROP POLICY IF EXISTS "funds_admins_rw" ON public.funds;
+CREATE POLICY "funds_admins_rw"
+  ON public.funds FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.id = auth.uid()
+      AND p.role = ANY (ARRAY['admin', 'super_admin'])
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.id = auth.uid()
+      AND p.role = ANY (ARRAY['admin', 'super_admin'])
+  ));
+
+DROP POLICY IF EXISTS "Public read departments when published" ON public.departments;
+CREATE POLICY "Public read departments when published"
+  ON public.departments FOR SELECT
+  USING (is_portal_published());
+
+DROP POLICY IF EXISTS "departments_admins_rw" ON public.departments;
+CREATE POLICY "departments_admins_rw"
+  ON public.departments FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.id = auth.uid()
+      AND p.role = ANY (ARRAY['admin', 'super_admin'])
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.id = auth.uid()
+      AND p.role = ANY (ARRAY['admin', 'super_admin'])
+  ));
+
+DROP POLICY IF EXISTS "Public read accounts when published" ON public.accounts;
+CREATE POLICY "Public read accounts when published"
+  ON public.accounts FOR SELECT
+  USING (is_portal_published());
+
+DROP POLICY IF EXISTS "accounts_admins_rw" ON public.accounts;
+CREATE POLICY "accounts_admins_rw"
+  ON public.accounts FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.id = auth.uid()
+      AND p.role = ANY (ARRAY['admin', 'super_admin'])
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.id = auth.uid()
+      AND p.role = ANY (ARRAY['admin', 'super_admin'])
+  ));
+
+
+-- Registered department name for a row's code/name: by code first, then by
+-- name key, else the name as loaded. Rollups call it once per
+-- distinct (code, name) pair, not per row.
+CREATE OR REPLACE FUNCTION public.resolve_department_name(p_code TEXT, p_name TEXT)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SET search_path TO 'public'
+AS $$
+  SELECT COALESCE(
+    (SELECT d.name FROM public.departments d WHERE d.code = btrim(p_code)),
+    (SELECT d.name FROM public.departments d
+     WHERE public.master_data_name_key(d.name) = public.master_data_name_key(p_name)),
+    p_name
+  )
+$$;
+
+
+-- Refresh budget/actuals rollup for a fiscal year
+CREATE OR REPLACE FUNCTION public.refresh_budget_actuals_rollup_for_year(_fy INTEGER)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  DELETE FROM public.budget_actuals_year_department
+  WHERE fiscal_year = _fy;
+
+  INSERT INTO public.budget_actuals_year_department (
+    fiscal_year,
+    department_name,
+    budget_amount,
+    actual_amount
+  )
+  WITH
+  b AS (
+    SELECT public.resolve_department_name(department_code, department_name) AS department_name,
+           SUM(amount)::numeric AS budget_amount
+    FROM (
+      SELECT department_code, department_name, SUM(amount) AS amount
+      FROM public.budgets
+      WHERE fiscal_year = _fy
+      GROUP BY department_code, department_name
+    ) g
+    GROUP BY 1
+  ),
+  a AS (
+    SELECT public.resolve_department_name(department_code, department_name) AS department_name,
+           SUM(amount)::numeric AS actual_amount
+    FROM (
+      SELECT department_code, department_name, SUM(amount) AS amount
+      FROM public.actuals
+      WHERE fiscal_year = _fy
+      GROUP BY department_code, department_name
+    ) g
+    GROUP BY 1
+  )
+  SELECT
+    _fy,
+    COALESCE(b.department_name, a.department_name),
+    COALESCE(b.budget_amount, 0),
+    COALESCE(a.actual_amount, 0)
+  FROM b
+  FULL OUTER JOIN a
+    ON a.department_name = b.department_name;
+END;
+$$;
+
+
+-- Alias function (same as above, different name for compatibility)
+CREATE OR REPLACE FUNCTION public.refresh_budget_actuals_year_department_for_year(_fy INTEGER)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  PERFORM public.refresh_budget_actuals_rollup_for_year(_fy);
+END;
+$$;
+
+
+-- Refresh transaction rollups for a fiscal year
+CREATE OR REPLACE FUNCTION public.refresh_transaction_rollups_for_year(_fy INTEGER)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  DELETE FROM public.transaction_year_department WHERE fiscal_year = _fy;
+  DELETE FROM public.transaction_year_vendor WHERE fiscal_year = _fy;
+
+  INSERT INTO public.transaction_year_department (
+    fiscal_year,
+    department_name,
+    txn_count,
+    total_amount
+  )
+  SELECT
+    _fy,
+    public.resolve_department_name(department_code, department_name),
+    SUM(txn_count)::int AS txn_count,
+    SUM(total_amount)::numeric AS total_amount
+  FROM (
+    SELECT department_code, department_name, COUNT(*) AS txn_count, SUM(amount) AS total_amount
+    FROM public.transactions
+    WHERE fiscal_year = _fy
+    GROUP BY department_code, department_name
+  ) g
+  GROUP BY 2;
+
+  INSERT INTO public.transaction_year_vendor (
+    fiscal_year,
+    vendor,
+    txn_count,
+    total_amount
+  )
+  SELECT
+    fiscal_year,
+    vendor,
+    COUNT(*)::int AS txn_count,
+    SUM(amount)::numeric AS total_amount
+  FROM public.transactions
+  WHERE fiscal_year = _fy
+  GROUP BY fiscal_year, vendor;
+END;
+$$;
+
+
+-- Recompute budget/actuals summaries (alternate version with UPSERT)
+CREATE OR REPLACE FUNCTION public.recompute_budget_actuals_summaries_for_year(p_year INTEGER)
+RETURNS VOID
+LANGUAGE sql
+AS $$
+  INSERT INTO public.budget_actuals_year_department AS t (
+    fiscal_year,
+    department_name,
+    budget_amount,
+    actual_amount
+  )
+  SELECT
+    p_year AS fiscal_year,
+    COALESCE(b.department_name, a.department_name) AS department_name,
+    COALESCE(b.budget_amount, 0) AS budget_amount,
+    COALESCE(a.actual_amount, 0) AS actual_amount
+  FROM (
+    SELECT
+      COALESCE(NULLIF(TRIM(public.resolve_department_name(department_code, department_name)), ''), 'Unspecified') AS department_name,
+      SUM(amount) AS budget_amount
+    FROM (
+      SELECT department_code, department_name, SUM(amount) AS amount
+      FROM public.budgets
+      WHERE fiscal_year = p_year
+      GROUP BY department_code, department_name
+    ) g
+    GROUP BY 1
+  ) b
+  FULL OUTER JOIN (
+    SELECT
+      COALESCE(NULLIF(TRIM(public.resolve_department_name(department_code, department_name)), ''), 'Unspecified') AS department_name,
+      SUM(amount) AS actual_amount
+    FROM (
+      SELECT department_code, department_name, SUM(amount) AS amount
+      FROM public.actuals
+      WHERE fiscal_year = p_year
+      GROUP BY department_code, department_name
+    ) g
+    GROUP BY 1
+  ) a
+    ON a.department_name = b.department_name
+  ON CONFLICT (fiscal_year, department_name) DO UPDATE
+  SET
+    budget_amount = EXCLUDED.budget_amount,
+    actual_amount = EXCLUDED.actual_amount;
+$$;
+
+
+-- Recompute transaction summaries (alternate version with UPSERT)
+CREATE OR REPLACE FUNCTION public.recompute_transaction_summaries_for_year(p_year INTEGER)
+RETURNS VOID
+LANGUAGE sql
+AS $$
+  -- Vendors summary
+  INSERT INTO public.transaction_year_vendor AS t (
+    fiscal_year,
+    vendor,
+    total_amount,
+    txn_count,
+    first_txn_date,
+    last_txn_date
+  )
+  SELECT
+    fiscal_year,
+    COALESCE(NULLIF(TRIM(vendor), ''), 'Unspecified') AS vendor,
+    SUM(amount) AS total_amount,
+    COUNT(*) AS txn_count,
+    MIN(date) AS first_txn_date,
+    MAX(date) AS last_txn_date
+  FROM public.transactions
+  WHERE fiscal_year = p_year
+  GROUP BY fiscal_year, COALESCE(NULLIF(TRIM(vendor), ''), 'Unspecified')
+  ON CONFLICT (fiscal_year, vendor) DO UPDATE
+  SET
+    total_amount   = EXCLUDED.total_amount,
+    txn_count      = EXCLUDED.txn_count,
+    first_txn_date = EXCLUDED.first_txn_date,
+    last_txn_date  = EXCLUDED.last_txn_date;
+
+  -- Department summary
+  INSERT INTO public.transaction_year_department AS d (
+    fiscal_year,
+    department_name,
+    total_amount,
+    txn_count
+  )
+  SELECT
+    p_year,
+    COALESCE(NULLIF(TRIM(public.resolve_department_name(department_code, department_name)), ''), 'Unspecified') AS department_name,
+    SUM(total_amount) AS total_amount,
+    SUM(txn_count) AS txn_count
+  FROM (
+    SELECT department_code, department_name, SUM(amount) AS total_amount, COUNT(*) AS txn_count
+    FROM public.transactions
+    WHERE fiscal_year = p_year
+    GROUP BY department_code, department_name
+  ) g
+  GROUP BY 2
+  ON CONFLICT (fiscal_year, department_name) DO UPDATE
+  SET
+    total_amount = EXCLUDED.total_amount,
+    txn_count    = EXCLUDED.txn_count;
+$$;
+
+
+-- Rewrite fund, department and account names on already-loaded rows to the
+-- registered ones, then refresh every rollup year (service role only).
+-- Returns the number of name changes made.
+CREATE OR REPLACE FUNCTION public.apply_master_data_names()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_table TEXT;
+  v_kind RECORD;
+  v_changed INTEGER;
+  v_total INTEGER := 0;
+  v_year INTEGER;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY['budgets', 'actuals', 'transactions', 'revenues'] LOOP
+    FOR v_kind IN
+      SELECT * FROM (VALUES
+        ('funds', 'fund_code', 'fund_name'),
+        ('departments', 'department_code', 'department_name'),
+        ('accounts', 'account_code', 'account_name')
+      ) AS k(registry, code_col, name_col)
+    LOOP
+      -- By code
+      EXECUTE format(
+        'UPDATE public.%1$I t SET %3$I = m.name
+         FROM public.%2$I m
+         WHERE m.code = btrim(t.%4$I)
+           AND t.%3$I IS DISTINCT FROM m.name',
+        v_table, v_kind.registry, v_kind.name_col, v_kind.code_col
+      );
+      GET DIAGNOSTICS v_changed = ROW_COUNT;
+      v_total := v_total + v_changed;
+
+      -- By name, for rows whose code isn't registered
+      EXECUTE format(
+        'UPDATE public.%1$I t SET %3$I = m.name
+         FROM public.%2$I m
+         WHERE public.master_data_name_key(t.%3$I) = public.master_data_name_key(m.name)
+           AND t.%3$I <> m.name
+           AND NOT EXISTS (
+             SELECT 1 FROM public.%2$I c WHERE c.code = btrim(t.%4$I)
+           )',
+        v_table, v_kind.registry, v_kind.name_col, v_kind.code_col
+      );
+      GET DIAGNOSTICS v_changed = ROW_COUNT;
+      v_total := v_total + v_changed;
+    END LOOP;
+  END LOOP;
+
+  FOR v_year IN
+    SELECT fiscal_year FROM public.budgets
+    UNION
+    SELECT fiscal_year FROM public.actuals
+  LOOP
+    PERFORM public.refresh_budget_actuals_rollup_for_year(v_year);
+  END LOOP;
+
+  FOR v_year IN SELECT DISTINCT fiscal_year FROM public.transactions LOOP
+    PERFORM public.refresh_transaction_rollups_for_year(v_year);
+  END LOOP;
+
+  RETURN v_total;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_master_data_names() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.apply_master_data_names() TO service_role;
@@ -0,0 +1,299 @@
+-- migrations/010_department_aliases.sql
+-- Department aliases, mergers and splits for a continuous history
+-- Run this in your Supabase SQL editor
+
+-- Old department names and the current department they are reported under.
+-- A rename or merger is one row per old name with share 1; a split is one
+-- row per successor with the share of the old department's amounts it takes
+-- (shares of one alias add up to 1). With effective_fiscal_year set, the
+-- alias restates only earlier years, so a name reused later stays separate.
+-- Raw rows keep the name they were loaded with; rollups, search, exports
+-- and department pages apply the aliases.
+CREATE TABLE IF NOT EXISTS public.department_aliases (
+  id BIGSERIAL PRIMARY KEY,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  alias TEXT NOT NULL CHECK (btrim(alias) <> ''),
+  department_name TEXT NOT NULL CHECK (btrim(department_name) <> ''),
+  share NUMERIC NOT NULL DEFAULT 1 CHECK (share > 0 AND share <= 1),
+  effective_fiscal_year INTEGER,
+  note TEXT,
+  created_by TEXT,
+  CONSTRAINT department_aliases_alias_target_key UNIQUE (alias, department_name)
+);
+
+CREATE INDEX IF NOT EXISTS department_aliases_alias_idx
+ON public.department_aliases (lower(btrim(alias)));
+
+ALTER TABLE public.department_aliases ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Public read department aliases when published" ON public.department_aliases;
+CREATE POLICY "Public read department aliases when published"
+  ON public.department_aliases FOR SELECT
+  USING (is_portal_published());
+
+DROP POLICY IF EXISTS "department_aliases_admins_rw" ON public.department_aliases;
+CREATE POLICY "department_aliases_admins_rw"
+  ON public.department_aliases FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.id = auth.uid()
+      AND p.role = ANY (ARRAY['admin', 'super_admin'])
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.id = auth.uid()
+      AND p.role = ANY (ARRAY['admin', 'super_admin'])
+  ));
+
+
+-- Current department(s) a department name is reported under in a fiscal
+-- year, with the share of its amounts each one gets. Follows chains of
+-- renames (at most 5 deep); a name without an alias maps to itself.
+CREATE OR REPLACE FUNCTION public.department_alias_targets(p_name TEXT, p_year INTEGER)
+RETURNS TABLE(department_name TEXT, share NUMERIC)
+LANGUAGE sql
+STABLE
+SET search_path TO 'public'
+AS $$
+  WITH RECURSIVE walk(name, share, depth) AS (
+    SELECT p_name, 1::numeric, 0
+    UNION ALL
+    SELECT a.department_name, w.share * a.share, w.depth + 1
+    FROM walk w
+    JOIN public.department_aliases a
+      ON lower(btrim(a.alias)) = lower(btrim(w.name))
+     AND (a.effective_fiscal_year IS NULL OR p_year < a.effective_fiscal_year)
+    WHERE w.depth < 5
+  )
+  SELECT w.name, SUM(w.share)
+  FROM walk w
+  WHERE w.depth = 5
+     OR NOT EXISTS (
+       SELECT 1 FROM public.department_aliases a
+       WHERE lower(btrim(a.alias)) = lower(btrim(w.name))
+         AND (a.effective_fiscal_year IS NULL OR p_year < a.effective_fiscal_year)
+     )
+  GROUP BY w.name
+$$;
+
+
+-- Refresh budget/actuals rollup for a fiscal year
+CREATE OR REPLACE FUNCTION public.refresh_budget_actuals_rollup_for_year(_fy INTEGER)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  DELETE FROM public.budget_actuals_year_department
+  WHERE fiscal_year = _fy;
+
+  INSERT INTO public.budget_actuals_year_department (
+    fiscal_year,
+    department_name,
+    budget_amount,
+    actual_amount
+  )
+  WITH
+  b AS (
+    SELECT t.department_name, SUM(g.amount * t.share)::numeric AS budget_amount
+    FROM (
+      SELECT department_code, department_name, SUM(amount) AS amount
+      FROM public.budgets
+      WHERE fiscal_year = _fy
+      GROUP BY department_code, department_name
+    ) g
+    CROSS JOIN LATERAL public.department_alias_targets(
+      public.resolve_department_name(g.department_code, g.department_name), _fy
+    ) t
+    GROUP BY t.department_name
+  ),
+  a AS (
+    SELECT t.department_name, SUM(g.amount * t.share)::numeric AS actual_amount
+    FROM (
+      SELECT department_code, department_name, SUM(amount) AS amount
+      FROM public.actuals
+      WHERE fiscal_year = _fy
+      GROUP BY department_code, department_name
+    ) g
+    CROSS JOIN LATERAL public.department_alias_targets(
+      public.resolve_department_name(g.department_code, g.department_name), _fy
+    ) t
+    GROUP BY t.department_name
+  )
+  SELECT
+    _fy,
+    COALESCE(b.department_name, a.department_name),
+    COALESCE(b.budget_amount, 0),
+    COALESCE(a.actual_amount, 0)
+  FROM b
+  FULL OUTER JOIN a
+    ON a.department_name = b.department_name;
+END;
+$$;
+
+
+-- Refresh transaction rollups for a fiscal year
+CREATE OR REPLACE FUNCTION public.refresh_transaction_rollups_for_year(_fy INTEGER)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  DELETE FROM public.transaction_year_department WHERE fiscal_year = _fy;
+  DELETE FROM public.transaction_year_vendor WHERE fiscal_year = _fy;
+
+  INSERT INTO public.transaction_year_department (
+    fiscal_year,
+    department_name,
+    txn_count,
+    total_amount
+  )
+  SELECT
+    _fy,
+    t.department_name,
+    ROUND(SUM(g.txn_count * t.share))::int AS txn_count,
+    SUM(g.total_amount * t.share)::numeric AS total_amount
+  FROM (
+    SELECT department_code, department_name, COUNT(*) AS txn_count, SUM(amount) AS total_amount
+    FROM public.transactions
+    WHERE fiscal_year = _fy
+    GROUP BY department_code, department_name
+  ) g
+  CROSS JOIN LATERAL public.department_alias_targets(
+    public.resolve_department_name(g.department_code, g.department_name), _fy
+  ) t
+  GROUP BY t.department_name;
+
+  INSERT INTO public.transaction_year_vendor (
+    fiscal_year,
+    vendor,
+    txn_count,
+    total_amount
+  )
+  SELECT
+    fiscal_year,
+    vendor,
+    COUNT(*)::int AS txn_count,
+    SUM(amount)::numeric AS total_amount
+  FROM public.transactions
+  WHERE fiscal_year = _fy
+  GROUP BY fiscal_year, vendor;
+END;
+$$;
+
+
+-- Recompute budget/actuals summaries (alternate version with UPSERT)
+CREATE OR REPLACE FUNCTION public.recompute_budget_actuals_summaries_for_year(p_year INTEGER)
+RETURNS VOID
+LANGUAGE sql
+AS $$
+  INSERT INTO public.budget_actuals_year_department AS t (
+    fiscal_year,
+    department_name,
+    budget_amount,
+    actual_amount
+  )
+  SELECT
+    p_year AS fiscal_year,
+    COALESCE(b.department_name, a.department_name) AS department_name,
+    COALESCE(b.budget_amount, 0) AS budget_amount,
+    COALESCE(a.actual_amount, 0) AS actual_amount
+  FROM (
+    SELECT
+      COALESCE(NULLIF(TRIM(t.department_name), ''), 'Unspecified') AS department_name,
+      SUM(g.amount * t.share) AS budget_amount
+    FROM (
+      SELECT department_code, department_name, SUM(amount) AS amount
+      FROM public.budgets
+      WHERE fiscal_year = p_year
+      GROUP BY department_code, department_name
+    ) g
+    CROSS JOIN LATERAL public.department_alias_targets(
+      public.resolve_department_name(g.department_code, g.department_name), p_year
+    ) t
+    GROUP BY 1
+  ) b
+  FULL OUTER JOIN (
+    SELECT
+      COALESCE(NULLIF(TRIM(t.department_name), ''), 'Unspecified') AS department_name,
+      SUM(g.amount * t.share) AS actual_amount
+    FROM (
+      SELECT department_code, department_name, SUM(amount) AS amount
+      FROM public.actuals
+      WHERE fiscal_year = p_year
+      GROUP BY department_code, department_name
+    ) g
+    CROSS JOIN LATERAL public.department_alias_targets(
+      public.resolve_department_name(g.department_code, g.department_name), p_year
+    ) t
+    GROUP BY 1
+  ) a
+    ON a.department_name = b.department_name
+  ON CONFLICT (fiscal_year, department_name) DO UPDATE
+  SET
+    budget_amount = EXCLUDED.budget_amount,
+    actual_amount = EXCLUDED.actual_amount;
+$$;
+
+
+-- Recompute transaction summaries (alternate version with UPSERT)
+CREATE OR REPLACE FUNCTION public.recompute_transaction_summaries_for_year(p_year INTEGER)
+RETURNS VOID
+LANGUAGE sql
+AS $$
+  -- Vendors summary
+  INSERT INTO public.transaction_year_vendor AS t (
+    fiscal_year,
+    vendor,
+    total_amount,
+    txn_count,
+    first_txn_date,
+    last_txn_date
+  )
+  SELECT
+    fiscal_year,
+    COALESCE(NULLIF(TRIM(vendor), ''), 'Unspecified') AS vendor,
+    SUM(amount) AS total_amount,
+    COUNT(*) AS txn_count,
+    MIN(date) AS first_txn_date,
+    MAX(date) AS last_txn_date
+  FROM public.transactions
+  WHERE fiscal_year = p_year
+  GROUP BY fiscal_year, COALESCE(NULLIF(TRIM(vendor), ''), 'Unspecified')
+  ON CONFLICT (fiscal_year, vendor) DO UPDATE
+  SET
+    total_amount   = EXCLUDED.total_amount,
+    txn_count      = EXCLUDED.txn_count,
+    first_txn_date = EXCLUDED.first_txn_date,
+    last_txn_date  = EXCLUDED.last_txn_date;
+
+  -- Department summary
+  INSERT INTO public.transaction_year_department AS d (
+    fiscal_year,
+    department_name,
+    total_amount,
+    txn_count
+  )
+  SELECT
+    p_year,
+    COALESCE(NULLIF(TRIM(t.department_name), ''), 'Unspecified') AS department_name,
+    SUM(g.total_amount * t.share) AS total_amount,
+    ROUND(SUM(g.txn_count * t.share)) AS txn_count
+  FROM (
+    SELECT department_code, department_name, SUM(amount) AS total_amount, COUNT(*) AS txn_count
+    FROM public.transactions
+    WHERE fiscal_year = p_year
+    GROUP BY department_code, department_name
+  ) g
+  CROSS JOIN LATERAL public.department_alias_targets(
+    public.resolve_department_name(g.department_code, g.department_name), p_year
+  ) t
+  GROUP BY 2
+  ON CONFLICT (fiscal_year, department_name) DO UPDATE
+  SET
+    total_amount = EXCLUDED.total_amount,
+    txn_count    = EXCLUDED.txn_count;
+$$;
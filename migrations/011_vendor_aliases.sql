@@ -0,0 +1,388 @@
+-- migrations/011_vendor_aliases.sql
+-- Vendor name canonicalization: merge suggestions, review decisions and aliases
+-- Run this in your Supabase SQL editor
+
+-- Vendor spellings and the canonical vendor they are reported under
+-- ("ACME INC." -> "Acme, Inc."). Canonical names are never aliases
+-- themselves, so a lookup is one step. Raw transactions keep the vendor
+-- they were loaded with; rollups, search, exports and vendor pages apply
+-- the aliases.
+CREATE TABLE IF NOT EXISTS public.vendor_aliases (
+  id BIGSERIAL PRIMARY KEY,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  alias TEXT NOT NULL CHECK (btrim(alias) <> ''),
+  canonical_vendor TEXT NOT NULL CHECK (btrim(canonical_vendor) <> ''),
+  created_by TEXT,
+  CONSTRAINT vendor_aliases_not_self CHECK (lower(btrim(alias)) <> lower(btrim(canonical_vendor)))
+);
+
+-- Enable RLS
+ALTER TABLE public.vendor_aliases ENABLE ROW LEVEL SECURITY;
+
+
+-- Suggested vendor pairs an admin rejected, so they aren't suggested again.
+-- Names are stored lowercased and trimmed.
+CREATE TABLE IF NOT EXISTS public.vendor_merge_rejections (
+  id BIGSERIAL PRIMARY KEY,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  vendor_a TEXT NOT NULL,
+  vendor_b TEXT NOT NULL,
+  created_by TEXT,
+  CONSTRAINT vendor_merge_rejections_pair_key UNIQUE (vendor_a, vendor_b)
+);
+
+-- Enable RLS
+ALTER TABLE public.vendor_merge_rejections ENABLE ROW LEVEL SECURITY;
+
+-- Vendor alias lookup indexes (one canonical vendor per spelling)
+CREATE UNIQUE INDEX IF NOT EXISTS vendor_aliases_alias_key
+ON public.vendor_aliases (lower(btrim(alias)));
+CREATE INDEX IF NOT EXISTS vendor_aliases_canonical_idx
+ON public.vendor_aliases (lower(btrim(canonical_vendor)));
+
+DROP POLICY IF EXISTS "Public read vendor aliases when published" ON public.vendor_aliases;
+CREATE POLICY "Public read vendor aliases when published"
+  ON public.vendor_aliases FOR SELECT
+  USING (is_portal_published());
+
+DROP POLICY IF EXISTS "vendor_aliases_admins_rw" ON public.vendor_aliases;
+CREATE POLICY "vendor_aliases_admins_rw"
+  ON public.vendor_aliases FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.id = auth.uid()
+      AND p.role = ANY (ARRAY['admin', 'super_admin'])
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.id = auth.uid()
+      AND p.role = ANY (ARRAY['admin', 'super_admin'])
+  ));
+
+DROP POLICY IF EXISTS "vendor_merge_rejections_admins_rw" ON public.vendor_merge_rejections;
+CREATE POLICY "vendor_merge_rejections_admins_rw"
+  ON public.vendor_merge_rejections FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.id = auth.uid()
+      AND p.role = ANY (ARRAY['admin', 'super_admin'])
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.id = auth.uid()
+      AND p.role = ANY (ARRAY['admin', 'super_admin'])
+  ));
+
+
+-- Vendor name with case, punctuation and company suffixes (Inc, LLC, Co,
+-- Corp, Ltd, The) ignored; two spellings with the same key are suggested
+-- as a merge. lib/vendorAliases.ts mirrors it.
+CREATE OR REPLACE FUNCTION public.vendor_match_key(p_vendor TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT btrim(regexp_replace(
+    regexp_replace(
+      regexp_replace(
+        regexp_replace(lower(COALESCE(p_vendor, '')), '&', ' and ', 'g'),
+        '[.,'']', '', 'g'),
+      '[^a-z0-9]+', ' ', 'g'),
+    '\m(the|inc|incorporated|llc|ltd|limited|co|corp|corporation|company)\M', ' ', 'g'),
+    '\s+', ' ', 'g'))
+$$;
+
+
+-- Canonical vendor for a vendor as loaded: its alias target, else the
+-- trimmed name ('Unspecified' when blank). Rollups call it once per
+-- distinct vendor, not per row.
+CREATE OR REPLACE FUNCTION public.canonical_vendor(p_vendor TEXT)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SET search_path TO 'public'
+AS $$
+  SELECT COALESCE(
+    (SELECT a.canonical_vendor
+     FROM public.vendor_aliases a
+     WHERE lower(btrim(a.alias)) = lower(btrim(p_vendor))),
+    NULLIF(btrim(p_vendor), ''),
+    'Unspecified'
+  )
+$$;
+
+
+-- Vendor rollups group by canonical vendor
+-- Refresh transaction rollups for a fiscal year
+CREATE OR REPLACE FUNCTION public.refresh_transaction_rollups_for_year(_fy INTEGER)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  DELETE FROM public.transaction_year_department WHERE fiscal_year = _fy;
+  DELETE FROM public.transaction_year_vendor WHERE fiscal_year = _fy;
+
+  INSERT INTO public.transaction_year_department (
+    fiscal_year,
+    department_name,
+    txn_count,
+    total_amount
+  )
+  SELECT
+    _fy,
+    t.department_name,
+    ROUND(SUM(g.txn_count * t.share))::int AS txn_count,
+    SUM(g.total_amount * t.share)::numeric AS total_amount
+  FROM (
+    SELECT department_code, department_name, COUNT(*) AS txn_count, SUM(amount) AS total_amount
+    FROM public.transactions
+    WHERE fiscal_year = _fy
+    GROUP BY department_code, department_name
+  ) g
+  CROSS JOIN LATERAL public.department_alias_targets(
+    public.resolve_department_name(g.department_code, g.department_name), _fy
+  ) t
+  GROUP BY t.department_name;
+
+  INSERT INTO public.transaction_year_vendor (
+    fiscal_year,
+    vendor,
+    txn_count,
+    total_amount
+  )
+  SELECT
+    _fy,
+    public.canonical_vendor(g.vendor),
+    SUM(g.txn_count)::int AS txn_count,
+    SUM(g.total_amount)::numeric AS total_amount
+  FROM (
+    SELECT vendor, COUNT(*) AS txn_count, SUM(amount) AS total_amount
+    FROM public.transactions
+    WHERE fiscal_year = _fy
+    GROUP BY vendor
+  ) g
+  GROUP BY 2;
+END;
+$$;
+
+
+
+-- Recompute transaction summaries (alternate version with UPSERT)
+CREATE OR REPLACE FUNCTION public.recompute_transaction_summaries_for_year(p_year INTEGER)
+RETURNS VOID
+LANGUAGE sql
+AS $$
+  -- Vendors summary
+  INSERT INTO public.transaction_year_vendor AS t (
+    fiscal_year,
+    vendor,
+    total_amount,
+    txn_count,
+    first_txn_date,
+    last_txn_date
+  )
+  SELECT
+    p_year,
+    public.canonical_vendor(g.vendor) AS vendor,
+    SUM(g.total_amount) AS total_amount,
+    SUM(g.txn_count) AS txn_count,
+    MIN(g.first_txn_date) AS first_txn_date,
+    MAX(g.last_txn_date) AS last_txn_date
+  FROM (
+    SELECT
+      vendor,
+      SUM(amount) AS total_amount,
+      COUNT(*) AS txn_count,
+      MIN(date) AS first_txn_date,
+      MAX(date) AS last_txn_date
+    FROM public.transactions
+    WHERE fiscal_year = p_year
+    GROUP BY vendor
+  ) g
+  GROUP BY 2
+  ON CONFLICT (fiscal_year, vendor) DO UPDATE
+  SET
+    total_amount   = EXCLUDED.total_amount,
+    txn_count      = EXCLUDED.txn_count,
+    first_txn_date = EXCLUDED.first_txn_date,
+    last_txn_date  = EXCLUDED.last_txn_date;
+
+  -- Department summary
+  INSERT INTO public.transaction_year_department AS d (
+    fiscal_year,
+    department_name,
+    total_amount,
+    txn_count
+  )
+  SELECT
+    p_year,
+    COALESCE(NULLIF(TRIM(t.department_name), ''), 'Unspecified') AS department_name,
+    SUM(g.total_amount * t.share) AS total_amount,
+    ROUND(SUM(g.txn_count * t.share)) AS txn_count
+  FROM (
+    SELECT department_code, department_name, SUM(amount) AS total_amount, COUNT(*) AS txn_count
+    FROM public.transactions
+    WHERE fiscal_year = p_year
+    GROUP BY department_code, department_name
+  ) g
+  CROSS JOIN LATERAL public.department_alias_targets(
+    public.resolve_department_name(g.department_code, g.department_name), p_year
+  ) t
+  GROUP BY 2
+  ON CONFLICT (fiscal_year, department_name) DO UPDATE
+  SET
+    total_amount = EXCLUDED.total_amount,
+    txn_count    = EXCLUDED.txn_count;
+$$;
+
+
+
+-- Rebuild the transaction rollups for every year, e.g. after vendor
+-- aliases change (service role only)
+CREATE OR REPLACE FUNCTION public.refresh_vendor_rollups()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_year INTEGER;
+BEGIN
+  FOR v_year IN SELECT DISTINCT fiscal_year FROM public.transactions LOOP
+    PERFORM public.refresh_transaction_rollups_for_year(v_year);
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_vendor_rollups() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.refresh_vendor_rollups() TO service_role;
+
+
+-- Pairs of vendor spellings that are probably the same vendor, for the
+-- admin review queue: the same vendor_match_key, or trigram similarity of
+-- at least p_threshold (using the trigram index on transactions.vendor).
+-- Spellings that are already aliases and rejected pairs are left out
+-- (service role only).
+CREATE OR REPLACE FUNCTION public.suggest_vendor_merges(
+  p_threshold REAL DEFAULT 0.6,
+  p_limit INTEGER DEFAULT 200
+)
+RETURNS TABLE(
+  vendor_a TEXT,
+  vendor_b TEXT,
+  score REAL,
+  a_txn_count BIGINT,
+  b_txn_count BIGINT,
+  a_total NUMERIC,
+  b_total NUMERIC
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  PERFORM set_config('pg_trgm.similarity_threshold', p_threshold::text, true);
+
+  RETURN QUERY
+  WITH names AS (
+    SELECT btrim(t.vendor) AS name, COUNT(*) AS txn_count, SUM(t.amount) AS total
+    FROM public.transactions t
+    WHERE NULLIF(btrim(t.vendor), '') IS NOT NULL
+    GROUP BY btrim(t.vendor)
+  ),
+  open_names AS (
+    SELECT n.*
+    FROM names n
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.vendor_aliases a
+      WHERE lower(btrim(a.alias)) = lower(n.name)
+    )
+  ),
+  pairs AS (
+    SELECT n.name AS a, m.name AS b, 1::real AS score
+    FROM open_names n
+    JOIN open_names m
+      ON public.vendor_match_key(m.name) = public.vendor_match_key(n.name)
+     AND m.name > n.name
+    WHERE public.vendor_match_key(n.name) <> ''
+    UNION ALL
+    SELECT n.name, m.name, similarity(n.name, m.name)
+    FROM open_names n
+    CROSS JOIN LATERAL (
+      SELECT DISTINCT btrim(t.vendor) AS name
+      FROM public.transactions t
+      WHERE t.vendor % n.name
+    ) m
+    WHERE m.name > n.name
+  )
+  SELECT p.a, p.b, MAX(p.score), na.txn_count, nb.txn_count, na.total, nb.total
+  FROM pairs p
+  JOIN open_names na ON na.name = p.a
+  JOIN open_names nb ON nb.name = p.b
+  WHERE NOT EXISTS (
+    SELECT 1 FROM public.vendor_merge_rejections r
+    WHERE (r.vendor_a = lower(p.a) AND r.vendor_b = lower(p.b))
+       OR (r.vendor_a = lower(p.b) AND r.vendor_b = lower(p.a))
+  )
+  GROUP BY p.a, p.b, na.txn_count, nb.txn_count, na.total, nb.total
+  ORDER BY MAX(p.score) DESC, na.txn_count + nb.txn_count DESC
+  LIMIT p_limit;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.suggest_vendor_merges(REAL, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.suggest_vendor_merges(REAL, INTEGER) TO service_role;
+
+
+-- Report the given vendor spellings under p_canonical: upserts their
+-- aliases, moves aliases that pointed at any of them, and refreshes the
+-- transaction rollups (service role only). Returns the aliases written.
+CREATE OR REPLACE FUNCTION public.merge_vendor_names(
+  p_canonical TEXT,
+  p_aliases TEXT[],
+  p_created_by TEXT
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_canonical TEXT := btrim(p_canonical);
+  v_count INTEGER;
+BEGIN
+  IF v_canonical IS NULL OR v_canonical = '' THEN
+    RAISE EXCEPTION 'A canonical vendor name is required';
+  END IF;
+
+  -- The canonical name stops being an alias of anything
+  DELETE FROM public.vendor_aliases
+  WHERE lower(btrim(alias)) = lower(v_canonical);
+
+  -- Spellings merged into one of these names follow it
+  UPDATE public.vendor_aliases
+  SET canonical_vendor = v_canonical
+  WHERE lower(btrim(canonical_vendor)) IN (
+    SELECT lower(btrim(x)) FROM unnest(p_aliases) x
+  );
+
+  INSERT INTO public.vendor_aliases (alias, canonical_vendor, created_by)
+  SELECT DISTINCT ON (lower(btrim(x))) btrim(x), v_canonical, p_created_by
+  FROM unnest(p_aliases) x
+  WHERE NULLIF(btrim(x), '') IS NOT NULL
+    AND lower(btrim(x)) <> lower(v_canonical)
+  ON CONFLICT (lower(btrim(alias))) DO UPDATE
+  SET canonical_vendor = EXCLUDED.canonical_vendor,
+      created_by = EXCLUDED.created_by;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  PERFORM public.refresh_vendor_rollups();
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.merge_vendor_names(TEXT, TEXT[], TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.merge_vendor_names(TEXT, TEXT[], TEXT) TO service_role;
@@ -0,0 +1,263 @@
+-- migrations/012_fund_rollups.sql
+-- Fund-level rollups for the fund dashboards and the portal-wide fund filter
+-- Run this in your Supabase SQL editor
+
+-- Budget vs Actuals by Fund and Department (fund dashboards and fund filter)
+CREATE TABLE IF NOT EXISTS public.budget_actuals_year_fund (
+  fiscal_year INTEGER NOT NULL,
+  fund_name TEXT NOT NULL,
+  department_name TEXT NOT NULL,
+  budget_amount NUMERIC NOT NULL DEFAULT 0,
+  actual_amount NUMERIC NOT NULL DEFAULT 0,
+  CONSTRAINT budget_actuals_year_fund_pkey PRIMARY KEY (fiscal_year, fund_name, department_name)
+);
+
+-- Enable RLS
+ALTER TABLE public.budget_actuals_year_fund ENABLE ROW LEVEL SECURITY;
+
+
+-- Transaction totals by Fund and Department
+CREATE TABLE IF NOT EXISTS public.transaction_year_fund (
+  fiscal_year INTEGER NOT NULL,
+  fund_name TEXT NOT NULL,
+  department_name TEXT NOT NULL,
+  total_amount NUMERIC NOT NULL,
+  txn_count BIGINT NOT NULL,
+  CONSTRAINT transaction_year_fund_pkey PRIMARY KEY (fiscal_year, fund_name, department_name)
+);
+
+-- Enable RLS
+ALTER TABLE public.transaction_year_fund ENABLE ROW LEVEL SECURITY;
+
+
+CREATE INDEX IF NOT EXISTS idx_bayf_fund ON public.budget_actuals_year_fund (fund_name, fiscal_year);
+CREATE INDEX IF NOT EXISTS idx_tyf_fund ON public.transaction_year_fund (fund_name, fiscal_year);
+
+DROP POLICY IF EXISTS "Public read fund rollups when published" ON public.budget_actuals_year_fund;
+CREATE POLICY "Public read fund rollups when published"
+  ON public.budget_actuals_year_fund FOR SELECT
+  USING (is_portal_published());
+
+DROP POLICY IF EXISTS "Public read tx fund rollups when published" ON public.transaction_year_fund;
+CREATE POLICY "Public read tx fund rollups when published"
+  ON public.transaction_year_fund FOR SELECT
+  USING (is_portal_published());
+
+
+-- Refresh budget/actuals rollup for a fiscal year
+CREATE OR REPLACE FUNCTION public.refresh_budget_actuals_rollup_for_year(_fy INTEGER)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  DELETE FROM public.budget_actuals_year_department
+  WHERE fiscal_year = _fy;
+
+  INSERT INTO public.budget_actuals_year_department (
+    fiscal_year,
+    department_name,
+    budget_amount,
+    actual_amount
+  )
+  WITH
+  b AS (
+    SELECT t.department_name, SUM(g.amount * t.share)::numeric AS budget_amount
+    FROM (
+      SELECT department_code, department_name, SUM(amount) AS amount
+      FROM public.budgets
+      WHERE fiscal_year = _fy
+      GROUP BY department_code, department_name
+    ) g
+    CROSS JOIN LATERAL public.department_alias_targets(
+      public.resolve_department_name(g.department_code, g.department_name), _fy
+    ) t
+    GROUP BY t.department_name
+  ),
+  a AS (
+    SELECT t.department_name, SUM(g.amount * t.share)::numeric AS actual_amount
+    FROM (
+      SELECT department_code, department_name, SUM(amount) AS amount
+      FROM public.actuals
+      WHERE fiscal_year = _fy
+      GROUP BY department_code, department_name
+    ) g
+    CROSS JOIN LATERAL public.department_alias_targets(
+      public.resolve_department_name(g.department_code, g.department_name), _fy
+    ) t
+    GROUP BY t.department_name
+  )
+  SELECT
+    _fy,
+    COALESCE(b.department_name, a.department_name),
+    COALESCE(b.budget_amount, 0),
+    COALESCE(a.actual_amount, 0)
+  FROM b
+  FULL OUTER JOIN a
+    ON a.department_name = b.department_name;
+
+  -- Same totals split by fund, for the fund dashboards and fund filter
+  DELETE FROM public.budget_actuals_year_fund
+  WHERE fiscal_year = _fy;
+
+  INSERT INTO public.budget_actuals_year_fund (
+    fiscal_year,
+    fund_name,
+    department_name,
+    budget_amount,
+    actual_amount
+  )
+  WITH
+  b AS (
+    SELECT g.fund_name, t.department_name, SUM(g.amount * t.share)::numeric AS budget_amount
+    FROM (
+      SELECT
+        COALESCE(NULLIF(btrim(fund_name), ''), 'Unspecified') AS fund_name,
+        department_code,
+        department_name,
+        SUM(amount) AS amount
+      FROM public.budgets
+      WHERE fiscal_year = _fy
+      GROUP BY 1, department_code, department_name
+    ) g
+    CROSS JOIN LATERAL public.department_alias_targets(
+      public.resolve_department_name(g.department_code, g.department_name), _fy
+    ) t
+    GROUP BY g.fund_name, t.department_name
+  ),
+  a AS (
+    SELECT g.fund_name, t.department_name, SUM(g.amount * t.share)::numeric AS actual_amount
+    FROM (
+      SELECT
+        COALESCE(NULLIF(btrim(fund_name), ''), 'Unspecified') AS fund_name,
+        department_code,
+        department_name,
+        SUM(amount) AS amount
+      FROM public.actuals
+      WHERE fiscal_year = _fy
+      GROUP BY 1, department_code, department_name
+    ) g
+    CROSS JOIN LATERAL public.department_alias_targets(
+      public.resolve_department_name(g.department_code, g.department_name), _fy
+    ) t
+    GROUP BY g.fund_name, t.department_name
+  )
+  SELECT
+    _fy,
+    COALESCE(b.fund_name, a.fund_name),
+    COALESCE(b.department_name, a.department_name),
+    COALESCE(b.budget_amount, 0),
+    COALESCE(a.actual_amount, 0)
+  FROM b
+  FULL OUTER JOIN a
+    ON a.fund_name = b.fund_name
+   AND a.department_name = b.department_name;
+END;
+$$;
+
+
+-- Refresh transaction rollups for a fiscal year
+CREATE OR REPLACE FUNCTION public.refresh_transaction_rollups_for_year(_fy INTEGER)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  DELETE FROM public.transaction_year_department WHERE fiscal_year = _fy;
+  DELETE FROM public.transaction_year_vendor WHERE fiscal_year = _fy;
+
+  INSERT INTO public.transaction_year_department (
+    fiscal_year,
+    department_name,
+    txn_count,
+    total_amount
+  )
+  SELECT
+    _fy,
+    t.department_name,
+    ROUND(SUM(g.txn_count * t.share))::int AS txn_count,
+    SUM(g.total_amount * t.share)::numeric AS total_amount
+  FROM (
+    SELECT department_code, department_name, COUNT(*) AS txn_count, SUM(amount) AS total_amount
+    FROM public.transactions
+    WHERE fiscal_year = _fy
+    GROUP BY department_code, department_name
+  ) g
+  CROSS JOIN LATERAL public.department_alias_targets(
+    public.resolve_department_name(g.department_code, g.department_name), _fy
+  ) t
+  GROUP BY t.department_name;
+
+  INSERT INTO public.transaction_year_vendor (
+    fiscal_year,
+    vendor,
+    txn_count,
+    total_amount
+  )
+  SELECT
+    _fy,
+    public.canonical_vendor(g.vendor),
+    SUM(g.txn_count)::int AS txn_count,
+    SUM(g.total_amount)::numeric AS total_amount
+  FROM (
+    SELECT vendor, COUNT(*) AS txn_count, SUM(amount) AS total_amount
+    FROM public.transactions
+    WHERE fiscal_year = _fy
+    GROUP BY vendor
+  ) g
+  GROUP BY 2;
+
+  DELETE FROM public.transaction_year_fund WHERE fiscal_year = _fy;
+
+  INSERT INTO public.transaction_year_fund (
+    fiscal_year,
+    fund_name,
+    department_name,
+    txn_count,
+    total_amount
+  )
+  SELECT
+    _fy,
+    g.fund_name,
+    t.department_name,
+    ROUND(SUM(g.txn_count * t.share))::int AS txn_count,
+    SUM(g.total_amount * t.share)::numeric AS total_amount
+  FROM (
+    SELECT
+      COALESCE(NULLIF(btrim(fund_name), ''), 'Unspecified') AS fund_name,
+      department_code,
+      department_name,
+      COUNT(*) AS txn_count,
+      SUM(amount) AS total_amount
+    FROM public.transactions
+    WHERE fiscal_year = _fy
+    GROUP BY 1, department_code, department_name
+  ) g
+  CROSS JOIN LATERAL public.department_alias_targets(
+    public.resolve_department_name(g.department_code, g.department_name), _fy
+  ) t
+  GROUP BY g.fund_name, t.department_name;
+END;
+$$;
+
+
+-- Fill the fund rollups for years that are already loaded
+DO $$
+DECLARE
+  v_year INTEGER;
+BEGIN
+  FOR v_year IN
+    SELECT fiscal_year FROM public.budgets
+    UNION
+    SELECT fiscal_year FROM public.actuals
+  LOOP
+    PERFORM public.refresh_budget_actuals_rollup_for_year(v_year);
+  END LOOP;
+
+  FOR v_year IN SELECT DISTINCT fiscal_year FROM public.transactions LOOP
+    PERFORM public.refresh_transaction_rollups_for_year(v_year);
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,180 @@
+-- migrations/013_actuals_by_period.sql
+-- Actuals rolled up by fiscal period for budget execution tracking
+-- Run this in your Supabase SQL editor
+
+-- Actuals by Department and Fiscal Period (budget execution)
+CREATE TABLE IF NOT EXISTS public.actuals_year_period (
+  fiscal_year INTEGER NOT NULL,
+  department_name TEXT NOT NULL,
+  fiscal_period INTEGER NOT NULL,
+  actual_amount NUMERIC NOT NULL DEFAULT 0,
+  CONSTRAINT actuals_year_period_pkey PRIMARY KEY (fiscal_year, department_name, fiscal_period)
+);
+
+-- Enable RLS
+ALTER TABLE public.actuals_year_period ENABLE ROW LEVEL SECURITY;
+
+
+CREATE INDEX IF NOT EXISTS idx_ayp_dept ON public.actuals_year_period (department_name, fiscal_year);
+
+DROP POLICY IF EXISTS "Public read period rollups when published" ON public.actuals_year_period;
+CREATE POLICY "Public read period rollups when published"
+  ON public.actuals_year_period FOR SELECT
+  USING (is_portal_published());
+
+
+-- Refresh budget/actuals rollup for a fiscal year
+CREATE OR REPLACE FUNCTION public.refresh_budget_actuals_rollup_for_year(_fy INTEGER)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  DELETE FROM public.budget_actuals_year_department
+  WHERE fiscal_year = _fy;
+
+  INSERT INTO public.budget_actuals_year_department (
+    fiscal_year,
+    department_name,
+    budget_amount,
+    actual_amount
+  )
+  WITH
+  b AS (
+    SELECT t.department_name, SUM(g.amount * t.share)::numeric AS budget_amount
+    FROM (
+      SELECT department_code, department_name, SUM(amount) AS amount
+      FROM public.budgets
+      WHERE fiscal_year = _fy
+      GROUP BY department_code, department_name
+    ) g
+    CROSS JOIN LATERAL public.department_alias_targets(
+      public.resolve_department_name(g.department_code, g.department_name), _fy
+    ) t
+    GROUP BY t.department_name
+  ),
+  a AS (
+    SELECT t.department_name, SUM(g.amount * t.share)::numeric AS actual_amount
+    FROM (
+      SELECT department_code, department_name, SUM(amount) AS amount
+      FROM public.actuals
+      WHERE fiscal_year = _fy
+      GROUP BY department_code, department_name
+    ) g
+    CROSS JOIN LATERAL public.department_alias_targets(
+      public.resolve_department_name(g.department_code, g.department_name), _fy
+    ) t
+    GROUP BY t.department_name
+  )
+  SELECT
+    _fy,
+    COALESCE(b.department_name, a.department_name),
+    COALESCE(b.budget_amount, 0),
+    COALESCE(a.actual_amount, 0)
+  FROM b
+  FULL OUTER JOIN a
+    ON a.department_name = b.department_name;
+
+  -- Same totals split by fund, for the fund dashboards and fund filter
+  DELETE FROM public.budget_actuals_year_fund
+  WHERE fiscal_year = _fy;
+
+  INSERT INTO public.budget_actuals_year_fund (
+    fiscal_year,
+    fund_name,
+    department_name,
+    budget_amount,
+    actual_amount
+  )
+  WITH
+  b AS (
+    SELECT g.fund_name, t.department_name, SUM(g.amount * t.share)::numeric AS budget_amount
+    FROM (
+      SELECT
+        COALESCE(NULLIF(btrim(fund_name), ''), 'Unspecified') AS fund_name,
+        department_code,
+        department_name,
+        SUM(amount) AS amount
+      FROM public.budgets
+      WHERE fiscal_year = _fy
+      GROUP BY 1, department_code, department_name
+    ) g
+    CROSS JOIN LATERAL public.department_alias_targets(
+      public.resolve_department_name(g.department_code, g.department_name), _fy
+    ) t
+    GROUP BY g.fund_name, t.department_name
+  ),
+  a AS (
+    SELECT g.fund_name, t.department_name, SUM(g.amount * t.share)::numeric AS actual_amount
+    FROM (
+      SELECT
+        COALESCE(NULLIF(btrim(fund_name), ''), 'Unspecified') AS fund_name,
+        department_code,
+        department_name,
+        SUM(amount) AS amount
+      FROM public.actuals
+      WHERE fiscal_year = _fy
+      GROUP BY 1, department_code, department_name
+    ) g
+    CROSS JOIN LATERAL public.department_alias_targets(
+      public.resolve_department_name(g.department_code, g.department_name), _fy
+    ) t
+    GROUP BY g.fund_name, t.department_name
+  )
+  SELECT
+    _fy,
+    COALESCE(b.fund_name, a.fund_name),
+    COALESCE(b.department_name, a.department_name),
+    COALESCE(b.budget_amount, 0),
+    COALESCE(a.actual_amount, 0)
+  FROM b
+  FULL OUTER JOIN a
+    ON a.fund_name = b.fund_name
+   AND a.department_name = b.department_name;
+
+  -- Actuals by fiscal period, for budget execution curves. Rows without a
+  -- fiscal period can't be placed on the curve and are left out.
+  DELETE FROM public.actuals_year_period
+  WHERE fiscal_year = _fy;
+
+  INSERT INTO public.actuals_year_period (
+    fiscal_year,
+    department_name,
+    fiscal_period,
+    actual_amount
+  )
+  SELECT
+    _fy,
+    t.department_name,
+    g.fiscal_period,
+    SUM(g.amount * t.share)::numeric AS actual_amount
+  FROM (
+    SELECT department_code, department_name, fiscal_period, SUM(amount) AS amount
+    FROM public.actuals
+    WHERE fiscal_year = _fy
+      AND fiscal_period IS NOT NULL
+    GROUP BY department_code, department_name, fiscal_period
+  ) g
+  CROSS JOIN LATERAL public.department_alias_targets(
+    public.resolve_department_name(g.department_code, g.department_name), _fy
+  ) t
+  GROUP BY t.department_name, g.fiscal_period;
+END;
+$$;
+
+
+-- Fill the period rollup for years that are already loaded
+DO $$
+DECLARE
+  v_year INTEGER;
+BEGIN
+  FOR v_year IN
+    SELECT fiscal_year FROM public.budgets
+    UNION
+    SELECT fiscal_year FROM public.actuals
+  LOOP
+    PERFORM public.refresh_budget_actuals_rollup_for_year(v_year);
+  END LOOP;
+END;
+$$;
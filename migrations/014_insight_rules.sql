@@ -0,0 +1,80 @@
+-- migrations/014_insight_rules.sql
+-- Configurable rules for the overview's key insights
+-- Run this in your Supabase SQL editor
+
+-- Each row is one rule: what it measures (kind), its thresholds (params,
+-- shaped per kind), how serious a match is and the wording shown for it.
+-- Templates use {placeholders}; lib/insights.ts lists the ones each kind
+-- fills in.
+CREATE TABLE IF NOT EXISTS public.insight_rules (
+  id BIGSERIAL PRIMARY KEY,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  kind TEXT NOT NULL CHECK (kind IN ('budget_threshold', 'yoy_change', 'revenue_shortfall', 'vendor_concentration')),
+  name TEXT NOT NULL CHECK (btrim(name) <> ''),
+  severity TEXT NOT NULL DEFAULT 'info' CHECK (severity IN ('critical', 'warning', 'info')),
+  params JSONB NOT NULL DEFAULT '{}'::jsonb,
+  title_template TEXT NOT NULL CHECK (btrim(title_template) <> ''),
+  description_template TEXT NOT NULL DEFAULT '',
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  max_results INTEGER CHECK (max_results IS NULL OR max_results > 0),
+  sort_order INTEGER NOT NULL DEFAULT 0
+);
+
+-- Enable RLS
+ALTER TABLE public.insight_rules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Public read insight rules when published" ON public.insight_rules;
+CREATE POLICY "Public read insight rules when published"
+  ON public.insight_rules FOR SELECT
+  USING (is_portal_published());
+
+DROP POLICY IF EXISTS "insight_rules_admins_rw" ON public.insight_rules;
+CREATE POLICY "insight_rules_admins_rw"
+  ON public.insight_rules FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.id = auth.uid()
+      AND p.role = ANY (ARRAY['admin', 'super_admin'])
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.id = auth.uid()
+      AND p.role = ANY (ARRAY['admin', 'super_admin'])
+  ));
+
+-- Default rules (the same list as DEFAULT_INSIGHT_RULES); only seeded into
+-- an empty table so edits survive re-running the migration
+INSERT INTO public.insight_rules
+  (kind, name, severity, params, title_template, description_template, max_results, sort_order)
+SELECT * FROM (VALUES
+  ('budget_threshold', 'Significantly over budget', 'critical',
+   '{"metric": "spent", "comparison": "above", "percent": 150, "min_budget": 1000}'::jsonb,
+   '{department} is significantly over budget',
+   'Spent {difference} more than budgeted ({percent} of budget used)', 5, 10),
+  ('budget_threshold', 'Over budget', 'warning',
+   '{"metric": "spent", "comparison": "above", "percent": 105, "min_budget": 1000}'::jsonb,
+   '{department} is over budget',
+   'Spent {difference} more than budgeted ({percent} of budget used)', 5, 20),
+  ('budget_threshold', 'Projected overrun', 'warning',
+   '{"metric": "projected", "comparison": "above", "percent": 105, "min_budget": 1000}'::jsonb,
+   '{department} is on pace to exceed its budget',
+   'Projected to spend {difference} more than budgeted by year end (likely {low}–{high})', 5, 30),
+  ('budget_threshold', 'Under-using budget', 'info',
+   '{"metric": "projected", "comparison": "below", "percent": 50, "min_budget": 10000}'::jsonb,
+   '{department} is on pace to under-spend its budget',
+   'Projected to use {percent} of its budget by year end, leaving {difference}', 3, 40),
+  ('yoy_change', 'Large change from last year', 'info',
+   '{"direction": "either", "percent": 25, "min_amount": 100000}'::jsonb,
+   '{department} spending changed {change} from last year',
+   '{current} in {year} compared with {previous} in {previous_year}', 3, 50),
+  ('revenue_shortfall', 'Revenue shortfall', 'warning',
+   '{"percent": 10, "min_amount": 100000}'::jsonb,
+   '{source} revenue is running {shortfall_percent} below last year',
+   '{current} expected in {year} compared with {previous} in {previous_year}', 3, 60),
+  ('vendor_concentration', 'Vendor concentration', 'info',
+   '{"percent": 25}'::jsonb,
+   '{vendor} received {share} of vendor payments',
+   '{amount} of {total} paid to vendors in {year}', 1, 70)
+) AS defaults (kind, name, severity, params, title_template, description_template, max_results, sort_order)
+WHERE NOT EXISTS (SELECT 1 FROM public.insight_rules);
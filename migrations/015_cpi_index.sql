@@ -0,0 +1,56 @@
+-- migrations/015_cpi_index.sql
+-- Price index (CPI-U by default) for inflation-adjusted multi-year views
+-- Run this in your Supabase SQL editor
+
+-- Price index by fiscal year for constant-dollar views: an amount from
+-- year Y is shown in base-year dollars as amount * index(base) / index(Y).
+-- Seeded with CPI-U annual averages; admins can replace them with their
+-- own deflator.
+CREATE TABLE IF NOT EXISTS public.cpi_index (
+  fiscal_year INTEGER PRIMARY KEY,
+  index_value NUMERIC NOT NULL CHECK (index_value > 0),
+  source TEXT,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.cpi_index ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Public read cpi index when published" ON public.cpi_index;
+CREATE POLICY "Public read cpi index when published"
+  ON public.cpi_index FOR SELECT
+  USING (is_portal_published());
+
+DROP POLICY IF EXISTS "cpi_index_admins_rw" ON public.cpi_index;
+CREATE POLICY "cpi_index_admins_rw"
+  ON public.cpi_index FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.id = auth.uid()
+      AND p.role = ANY (ARRAY['admin', 'super_admin'])
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.id = auth.uid()
+      AND p.role = ANY (ARRAY['admin', 'super_admin'])
+  ));
+
+-- CPI-U, U.S. city average, annual averages (1982-84 = 100); the same series
+-- as CPI_U_ANNUAL in lib/inflation.ts. Years already entered are kept.
+INSERT INTO public.cpi_index (fiscal_year, index_value, source) VALUES
+  (2010, 218.056, 'CPI-U'),
+  (2011, 224.939, 'CPI-U'),
+  (2012, 229.594, 'CPI-U'),
+  (2013, 232.957, 'CPI-U'),
+  (2014, 236.736, 'CPI-U'),
+  (2015, 237.017, 'CPI-U'),
+  (2016, 240.007, 'CPI-U'),
+  (2017, 245.120, 'CPI-U'),
+  (2018, 251.107, 'CPI-U'),
+  (2019, 255.657, 'CPI-U'),
+  (2020, 258.811, 'CPI-U'),
+  (2021, 270.970, 'CPI-U'),
+  (2022, 292.655, 'CPI-U'),
+  (2023, 304.702, 'CPI-U'),
+  (2024, 313.689, 'CPI-U')
+ON CONFLICT (fiscal_year) DO NOTHING;
@@ -0,0 +1,49 @@
+-- migrations/016_population_by_year.sql
+-- Population and households by fiscal year for per-capita views
+-- Run this in your Supabase SQL editor
+
+-- Residents (and optionally households) by fiscal year. Amounts from year Y
+-- are shown per resident as amount / population(Y); a year without a row
+-- uses the nearest earlier one.
+CREATE TABLE IF NOT EXISTS public.population_by_year (
+  fiscal_year INTEGER PRIMARY KEY,
+  population INTEGER NOT NULL CHECK (population > 0),
+  households INTEGER CHECK (households > 0),
+  source TEXT,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.population_by_year ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Public read population when published" ON public.population_by_year;
+CREATE POLICY "Public read population when published"
+  ON public.population_by_year FOR SELECT
+  USING (is_portal_published());
+
+DROP POLICY IF EXISTS "population_by_year_admins_rw" ON public.population_by_year;
+CREATE POLICY "population_by_year_admins_rw"
+  ON public.population_by_year FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.id = auth.uid()
+      AND p.role = ANY (ARRAY['admin', 'super_admin'])
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.id = auth.uid()
+      AND p.role = ANY (ARRAY['admin', 'super_admin'])
+  ));
+
+-- Carry over the landing-page population stat when it is a plain number
+-- ("48,200"), as the count for the latest budget year. Other wording is
+-- left for an admin to enter.
+INSERT INTO public.population_by_year (fiscal_year, population, source)
+SELECT
+  COALESCE((SELECT MAX(fiscal_year) FROM public.budgets), EXTRACT(YEAR FROM now())::INTEGER),
+  REPLACE(TRIM(stat_population), ',', '')::INTEGER,
+  'Landing page stat'
+FROM (SELECT stat_population FROM public.portal_settings LIMIT 1) s
+WHERE TRIM(stat_population) ~ '^[0-9]{1,3}(,?[0-9]{3})*$'
+  AND REPLACE(TRIM(stat_population), ',', '')::BIGINT BETWEEN 1 AND 2147483647
+ON CONFLICT (fiscal_year) DO NOTHING;
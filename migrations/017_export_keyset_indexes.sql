@@ -0,0 +1,10 @@
+-- migrations/017_export_keyset_indexes.sql
+-- Indexes behind the streaming CSV exports
+-- Run this in your Supabase SQL editor
+
+-- Exports page through each table by its sort column, then id, so every
+-- page is an index range scan instead of a growing OFFSET
+CREATE INDEX IF NOT EXISTS budgets_export_keyset_idx ON public.budgets (department_name, id);
+CREATE INDEX IF NOT EXISTS actuals_export_keyset_idx ON public.actuals (department_name, id);
+CREATE INDEX IF NOT EXISTS transactions_export_keyset_idx ON public.transactions (date DESC, id DESC);
+CREATE INDEX IF NOT EXISTS revenues_export_keyset_idx ON public.revenues (fiscal_year DESC, id DESC);
@@ -0,0 +1,64 @@
+-- migrations/018_api_keys.sql
+-- API keys for partners: per-key daily quotas and usage counts
+-- Run this in your Supabase SQL editor
+
+-- Keys issued by admins. Only a SHA-256 hash of each key is stored; the
+-- key itself is shown once when it is created. Requests carrying a key are
+-- limited by its daily_quota instead of the per-IP limits.
+CREATE TABLE IF NOT EXISTS public.api_keys (
+  id BIGSERIAL PRIMARY KEY,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  name TEXT NOT NULL CHECK (btrim(name) <> ''),
+  owner_email TEXT NOT NULL CHECK (btrim(owner_email) <> ''),
+  key_prefix TEXT NOT NULL, -- first characters of the key, to tell keys apart
+  key_hash TEXT NOT NULL,
+  scopes TEXT[] NOT NULL DEFAULT ARRAY['api']::TEXT[]
+    CHECK (cardinality(scopes) > 0 AND scopes <@ ARRAY['api', 'export']::TEXT[]),
+  daily_quota INTEGER NOT NULL DEFAULT 1000 CHECK (daily_quota > 0),
+  expires_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+  last_used_at TIMESTAMPTZ,
+  created_by TEXT,
+  CONSTRAINT api_keys_key_hash_key UNIQUE (key_hash)
+);
+
+-- Enable RLS. No policies: keys are read and written by the admin API
+-- routes with the service role only.
+ALTER TABLE public.api_keys ENABLE ROW LEVEL SECURITY;
+
+
+-- Calls per key, day (UTC) and scope, for the usage dashboard. Quotas are
+-- enforced from rate_limits; these counts are kept after its rows expire.
+CREATE TABLE IF NOT EXISTS public.api_key_usage (
+  api_key_id BIGINT NOT NULL REFERENCES public.api_keys(id) ON DELETE CASCADE,
+  day DATE NOT NULL,
+  scope TEXT NOT NULL,
+  calls INTEGER NOT NULL DEFAULT 0,
+  CONSTRAINT api_key_usage_pkey PRIMARY KEY (api_key_id, day, scope)
+);
+
+-- Enable RLS (service role only, as above)
+ALTER TABLE public.api_key_usage ENABLE ROW LEVEL SECURITY;
+
+-- Usage dashboard reads recent days across every key
+CREATE INDEX IF NOT EXISTS api_key_usage_day_idx
+ON public.api_key_usage (day);
+
+
+-- Count one call made with a key and note when it was last used
+CREATE OR REPLACE FUNCTION public.record_api_key_call(p_key_id BIGINT, p_scope TEXT)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  INSERT INTO api_key_usage (api_key_id, day, scope, calls)
+  VALUES (p_key_id, (now() AT TIME ZONE 'utc')::date, p_scope, 1)
+  ON CONFLICT (api_key_id, day, scope)
+  DO UPDATE SET calls = api_key_usage.calls + 1;
+
+  UPDATE api_keys SET last_used_at = now() WHERE id = p_key_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_api_key_call(BIGINT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_api_key_call(BIGINT, TEXT) TO service_role;
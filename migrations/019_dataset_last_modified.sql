@@ -0,0 +1,18 @@
+-- migrations/019_dataset_last_modified.sql
+-- When each published table last changed, for the open data catalogs
+-- Run this in your Supabase SQL editor
+
+-- Latest upload or rollback per table. data_uploads is admin-only, so the
+-- catalogs read just these timestamps, and only once the portal is
+-- published.
+CREATE OR REPLACE FUNCTION public.get_dataset_last_modified()
+RETURNS TABLE(table_name TEXT, last_modified TIMESTAMPTZ)
+LANGUAGE sql
+STABLE SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT d.table_name, max(GREATEST(d.created_at, d.rolled_back_at))
+  FROM data_uploads d
+  WHERE is_portal_published()
+  GROUP BY d.table_name;
+$$;
@@ -0,0 +1,19 @@
+-- migrations/020_fund_names.sql
+-- Distinct fund names for the portal-wide fund filter
+-- Run this in your Supabase SQL editor
+
+-- Fund names with budget or actuals, alphabetical. Every public page lists
+-- them, so the distinct is done here (off idx_bayf_fund) rather than by
+-- reading every fund/department/year row. Runs as the caller, so the fund
+-- rollup's "published" policy still applies.
+CREATE OR REPLACE FUNCTION public.get_fund_names()
+RETURNS TABLE(fund_name TEXT)
+LANGUAGE sql
+STABLE
+SET search_path TO 'public'
+AS $$
+  SELECT DISTINCT f.fund_name
+  FROM budget_actuals_year_fund f
+  WHERE f.fund_name <> ''
+  ORDER BY f.fund_name;
+$$;
@@ -0,0 +1,10 @@
+-- migrations/021_upload_scan_checkpoint.sql
+-- Resumable validation scans for long admin uploads
+-- Run this in your Supabase SQL editor
+
+-- How far the validation scan got on a run that ran out of time: rows
+-- scanned, issues found so far, fiscal years seen and the amount total
+-- (see UploadScanCheckpoint in lib/uploadIngest.ts). The next run picks up
+-- after those rows. NULL once the scan finishes, or before it starts.
+ALTER TABLE public.upload_jobs
+  ADD COLUMN IF NOT EXISTS scan_checkpoint JSONB;